@@ -0,0 +1,12 @@
+// app/admin/marketplace/page.tsx
+import type { Metadata } from "next";
+import MarketplaceAdminClient from "./ui/MarketplaceAdminClient";
+
+export const metadata: Metadata = {
+  title: "Marketplace • Admin • Panthart",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminMarketplacePage() {
+  return <MarketplaceAdminClient />;
+}
@@ -0,0 +1,377 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { Container } from "@/src/ui/Container";
+import { Button } from "@/src/ui/Button";
+import { Input } from "@/src/ui/Input";
+import { Label } from "@/src/ui/Label";
+import { Modal } from "@/src/ui/Modal";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import {
+  useMarketplaceAdmin,
+  useMarketplaceAdminActions,
+  useMarketplaceAdminViewer,
+  ZERO_ADDRESS,
+  type AdminRoute,
+  type GrantableRole,
+  type MarketplaceAdminViewer,
+  type MarketplaceConfig,
+} from "@/src/lib/hooks/useMarketplaceAdmin";
+import { errMsg } from "@/src/lib/errors";
+
+const EXPLORER_TX = "https://blockexplorer.electroneum.com/tx/";
+
+const CONFIG_FIELDS: { key: keyof MarketplaceConfig; label: string; address?: boolean }[] = [
+  { key: "feeBps", label: "Fee (bps)" },
+  { key: "distributorShareBps", label: "Distributor share (bps of fee)" },
+  { key: "feeRecipient", label: "Fee recipient", address: true },
+  { key: "rewardsDistributor", label: "Rewards distributor", address: true },
+  { key: "stolenRegistry", label: "Stolen registry", address: true },
+  { key: "snipeExtension", label: "Anti-snipe extension (seconds)" },
+];
+
+type Role = "config" | "pauser" | "admin";
+
+/** A change waiting for confirmation in the diff preview. */
+type Pending = {
+  title: string;
+  rows: { label: string; from: string; to: string }[];
+  role: Role;
+  apply: (route: AdminRoute) => Promise<{ txHash: string; proposed: boolean }>;
+};
+
+/** Routes available to the viewer for a change that needs `role`. */
+function routesFor(viewer: MarketplaceAdminViewer | undefined, role: Role): AdminRoute[] {
+  if (!viewer) return [];
+  const out: AdminRoute[] = [];
+  if (viewer.roles[role]) out.push("direct");
+  if (viewer.multisigOwner && viewer.multisig?.roles[role]) out.push("multisig");
+  return out;
+}
+
+/**
+ * Marketplace admin. Access is enforced by the API (ADMIN_WALLETS, a marketplace role or
+ * multisig ownership); every change is previewed as a diff, then either signed directly or
+ * submitted as a treasury proposal when only the multisig holds the role.
+ */
+export default function MarketplaceAdminClient() {
+  const auth = useWalletAuth();
+  const chain = useMarketplaceAdmin();
+  const q = useMarketplaceAdminViewer();
+  const actions = useMarketplaceAdminActions();
+
+  const current = React.useMemo<MarketplaceConfig | null>(
+    () =>
+      chain.feeRecipient && chain.rewardsDistributor && chain.stolenRegistry
+        ? {
+            feeBps: chain.feeBps.toString(),
+            distributorShareBps: chain.distributorShareBps.toString(),
+            feeRecipient: chain.feeRecipient,
+            rewardsDistributor: chain.rewardsDistributor,
+            stolenRegistry: chain.stolenRegistry,
+            snipeExtension: chain.snipeExtension.toString(),
+          }
+        : null,
+    [chain.feeBps, chain.distributorShareBps, chain.feeRecipient, chain.rewardsDistributor, chain.stolenRegistry, chain.snipeExtension]
+  );
+
+  const [draft, setDraft] = React.useState<MarketplaceConfig | null>(null);
+  const [roleForm, setRoleForm] = React.useState<{ role: GrantableRole; account: string }>({ role: "CONFIG_ROLE", account: "" });
+  const [pending, setPending] = React.useState<Pending | null>(null);
+  const [busy, setBusy] = React.useState<AdminRoute | null>(null);
+
+  React.useEffect(() => setDraft(current), [current]);
+
+  const viewer = q.data?.viewer;
+  const currencies = q.data?.currencies ?? [];
+
+  const confirm = async (route: AdminRoute) => {
+    if (!pending) return;
+    setBusy(route);
+    const tId = toast.loading(route === "multisig" ? "Submitting proposal…" : "Waiting for confirmation…");
+    try {
+      const r = await pending.apply(route);
+      toast.success(
+        r.proposed ? (
+          <span>
+            Proposal submitted.{" "}
+            <Link className="underline" href="/treasury">
+              Collect approvals
+            </Link>
+          </span>
+        ) : (
+          <span>
+            Done.{" "}
+            <a className="underline" href={`${EXPLORER_TX}${r.txHash}`} target="_blank" rel="noreferrer">
+              View tx
+            </a>
+          </span>
+        ),
+        { id: tId }
+      );
+      setPending(null);
+      if (!r.proposed) void chain.refresh();
+    } catch (e: unknown) {
+      toast.error(errMsg(e, "Transaction failed"), { id: tId });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const reviewConfig = () => {
+    if (!current || !draft) return;
+    for (const f of CONFIG_FIELDS) {
+      const v = draft[f.key].trim();
+      if (f.address ? !ethers.isAddress(v) : !/^\d+$/.test(v)) return toast.error(`${f.label}: invalid value.`);
+    }
+    if (Number(draft.distributorShareBps) > 10_000) return toast.error("Distributor share can't exceed 10000 bps.");
+    const rows = CONFIG_FIELDS.filter((f) => draft[f.key].trim().toLowerCase() !== current[f.key].toLowerCase()).map((f) => ({
+      label: f.label,
+      from: current[f.key],
+      to: f.address ? ethers.getAddress(draft[f.key].trim()) : draft[f.key].trim(),
+    }));
+    if (!rows.length) return toast.message("Nothing changed.");
+    const next = Object.fromEntries(
+      CONFIG_FIELDS.map((f) => [f.key, f.address ? ethers.getAddress(draft[f.key].trim()) : draft[f.key].trim()])
+    ) as MarketplaceConfig;
+    setPending({ title: "Update config", rows, role: "config", apply: (route) => actions.setConfig(next, route) });
+  };
+
+  const reviewCurrency = (c: (typeof currencies)[number]) => {
+    const address = c.kind === "NATIVE" ? ZERO_ADDRESS : c.tokenAddress;
+    if (!address) return;
+    const allowed = !(c.allowedOnChain ?? c.active);
+    setPending({
+      title: `${allowed ? "Allow" : "Disallow"} ${c.symbol}`,
+      rows: [{ label: `${c.symbol} allowed`, from: String(!allowed), to: String(allowed) }],
+      role: "config",
+      apply: (route) => actions.setCurrencyAllowed(address, allowed, route, c.symbol),
+    });
+  };
+
+  const reviewPause = () =>
+    setPending({
+      title: chain.paused ? "Unpause marketplace" : "Pause marketplace",
+      rows: [{ label: "Paused", from: String(chain.paused), to: String(!chain.paused) }],
+      role: "pauser",
+      apply: (route) => actions.setPaused(!chain.paused, route),
+    });
+
+  const reviewRole = (grant: boolean) => {
+    const account = roleForm.account.trim();
+    if (!ethers.isAddress(account)) return toast.error("Enter a valid account address.");
+    const roleHash = roleForm.role === "CONFIG_ROLE" ? chain.CONFIG_ROLE : chain.PAUSER_ROLE;
+    if (!roleHash) return toast.error("Roles are still loading.");
+    setPending({
+      title: `${grant ? "Grant" : "Revoke"} ${roleForm.role}`,
+      rows: [{ label: ethers.getAddress(account), from: grant ? "—" : roleForm.role, to: grant ? roleForm.role : "—" }],
+      role: "admin",
+      apply: (route) => actions.setRole(roleForm.role, roleHash, account, grant, route),
+    });
+  };
+
+  const routes = pending ? routesFor(viewer, pending.role) : [];
+  const canAct = (role: Role) => routesFor(viewer, role).length > 0;
+
+  return (
+    <Container className="py-10">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Marketplace</h1>
+          <div className="mt-1 text-xs text-muted-foreground">
+            {chain.address ?? "Marketplace not configured"}
+            {chain.paused ? " · paused" : ""}
+            {viewer
+              ? ` · you: ${
+                  [
+                    viewer.isAdmin && "admin",
+                    viewer.roles.config && "config",
+                    viewer.roles.pauser && "pauser",
+                    viewer.roles.admin && "role admin",
+                    viewer.multisigOwner && "multisig owner",
+                  ]
+                    .filter(Boolean)
+                    .join(", ") || "no roles"
+                }`
+              : ""}
+          </div>
+        </div>
+        <Button
+          size="sm"
+          variant={chain.paused ? "primary" : "danger"}
+          disabled={!canAct("pauser") || chain.loading}
+          onClick={reviewPause}
+        >
+          {chain.paused ? "Unpause" : "Pause"}
+        </Button>
+      </div>
+
+      {chain.error ? <div className="mt-3 text-xs text-red-500">{chain.error}</div> : null}
+
+      {q.isLoading ? (
+        <div className="mt-10 text-center text-sm text-muted-foreground">Loading…</div>
+      ) : q.isError ? (
+        <div className="mt-10 space-y-3 text-center text-sm text-muted-foreground">
+          <div>{(q.error as Error)?.message || "Failed to load"}</div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => void auth.ensureSignedIn().then(() => q.refetch()).catch((e) => toast.error(e.message))}
+          >
+            Sign in
+          </Button>
+        </div>
+      ) : (
+        <>
+          {viewer?.multisig ? (
+            <div className="mt-3 text-xs text-muted-foreground">
+              Multisig {viewer.multisig.address} holds:{" "}
+              {[viewer.multisig.roles.config && "config", viewer.multisig.roles.pauser && "pauser", viewer.multisig.roles.admin && "role admin"]
+                .filter(Boolean)
+                .join(", ") || "no roles"}
+            </div>
+          ) : null}
+
+          <section className="mt-6 rounded-2xl border border-border bg-card p-4 text-sm">
+            <div className="font-semibold">Config</div>
+            {draft ? (
+              <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                {CONFIG_FIELDS.map((f) => (
+                  <div key={f.key} className="space-y-1">
+                    <Label htmlFor={`cfg-${f.key}`}>{f.label}</Label>
+                    <Input
+                      id={`cfg-${f.key}`}
+                      value={draft[f.key]}
+                      inputMode={f.address ? undefined : "numeric"}
+                      onChange={(e) => setDraft((d) => (d ? { ...d, [f.key]: e.target.value } : d))}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="mt-3 text-muted-foreground">{chain.loading ? "Loading…" : "Config unavailable."}</div>
+            )}
+            <div className="mt-3 flex gap-2">
+              <Button size="sm" disabled={!draft || !canAct("config")} onClick={reviewConfig}>
+                Review changes
+              </Button>
+              <Button size="sm" variant="ghost" disabled={!draft} onClick={() => setDraft(current)}>
+                Reset
+              </Button>
+            </div>
+          </section>
+
+          <section className="mt-6 rounded-2xl border border-border bg-card p-4 text-sm">
+            <div className="font-semibold">Currencies</div>
+            {!currencies.length ? (
+              <div className="mt-3 text-muted-foreground">No currencies.</div>
+            ) : (
+              <div className="mt-3 divide-y divide-border">
+                {currencies.map((c) => {
+                  const allowed = c.allowedOnChain ?? c.active;
+                  return (
+                    <div key={c.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                      <div className="min-w-0">
+                        <div className="font-medium">{c.symbol}</div>
+                        <div className="truncate text-xs text-muted-foreground">
+                          {c.kind === "NATIVE" ? "native" : c.tokenAddress}
+                          {c.allowedOnChain === null ? " · on-chain state unknown" : ""}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className={allowed ? "text-emerald-600 dark:text-emerald-400" : "text-muted-foreground"}>
+                          {allowed ? "allowed" : "disabled"}
+                        </span>
+                        <Button size="sm" variant="outline" disabled={!canAct("config")} onClick={() => reviewCurrency(c)}>
+                          {allowed ? "Disallow" : "Allow"}
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+
+          <section className="mt-6 rounded-2xl border border-border bg-card p-4 text-sm">
+            <div className="font-semibold">Roles</div>
+            <div className="mt-3 flex flex-wrap gap-2">
+              {(["CONFIG_ROLE", "PAUSER_ROLE"] as const).map((r) => (
+                <Button
+                  key={r}
+                  size="sm"
+                  variant={roleForm.role === r ? "primary" : "outline"}
+                  onClick={() => setRoleForm((f) => ({ ...f, role: r }))}
+                >
+                  {r}
+                </Button>
+              ))}
+            </div>
+            <Input
+              className="mt-2"
+              placeholder="Account 0x…"
+              value={roleForm.account}
+              onChange={(e) => setRoleForm((f) => ({ ...f, account: e.target.value }))}
+            />
+            <div className="mt-3 flex gap-2">
+              <Button size="sm" disabled={!canAct("admin")} onClick={() => reviewRole(true)}>
+                Grant
+              </Button>
+              <Button size="sm" variant="danger" disabled={!canAct("admin")} onClick={() => reviewRole(false)}>
+                Revoke
+              </Button>
+            </div>
+          </section>
+        </>
+      )}
+
+      <Modal open={!!pending} onClose={() => !busy && setPending(null)} title={pending?.title} className="max-w-lg">
+        {pending ? (
+          <div className="space-y-4 text-sm">
+            <div className="divide-y divide-border rounded-2xl border border-border">
+              {pending.rows.map((r) => (
+                <div key={r.label} className="space-y-1 p-3">
+                  <div className="text-xs text-muted-foreground">{r.label}</div>
+                  <div className="break-all text-red-600 line-through dark:text-red-400">{r.from}</div>
+                  <div className="break-all text-emerald-600 dark:text-emerald-400">{r.to}</div>
+                </div>
+              ))}
+            </div>
+            {!routes.length ? (
+              <div className="text-xs text-red-500">
+                Neither your wallet nor the multisig holds the {pending.role} role on the marketplace.
+              </div>
+            ) : routes.includes("direct") ? null : (
+              <div className="text-xs text-muted-foreground">
+                You don&apos;t hold this role; the change will be proposed to the multisig for approval.
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPending(null)} disabled={!!busy}>
+                Cancel
+              </Button>
+              {routes.includes("multisig") ? (
+                <Button
+                  variant={routes.includes("direct") ? "outline" : "primary"}
+                  disabled={!!busy}
+                  loading={busy === "multisig"}
+                  onClick={() => void confirm("multisig")}
+                >
+                  Propose to multisig
+                </Button>
+              ) : null}
+              {routes.includes("direct") ? (
+                <Button disabled={!!busy} loading={busy === "direct"} onClick={() => void confirm("direct")}>
+                  Sign &amp; send
+                </Button>
+              ) : null}
+            </div>
+          </div>
+        ) : null}
+      </Modal>
+    </Container>
+  );
+}
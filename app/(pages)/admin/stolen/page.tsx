@@ -0,0 +1,12 @@
+// app/admin/stolen/page.tsx
+import type { Metadata } from "next";
+import StolenQueueClient from "./ui/StolenQueueClient";
+
+export const metadata: Metadata = {
+  title: "Stolen reports • Admin • Panthart",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminStolenPage() {
+  return <StolenQueueClient />;
+}
@@ -0,0 +1,355 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { Container } from "@/src/ui/Container";
+import { Button } from "@/src/ui/Button";
+import { Checkbox } from "@/src/ui/Checkbox";
+import { Input } from "@/src/ui/Input";
+import { ipfsToHttp } from "@/src/lib/media";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import { useStolenRegistryAdmin } from "@/src/lib/hooks/useStolenRegistryAdmin";
+import {
+  useStolenQueue,
+  useStolenReview,
+  type StolenQueueTab,
+  type StolenReportDTO,
+} from "@/src/lib/hooks/useStolenStatus";
+import { errMsg } from "@/src/lib/errors";
+
+const TABS: StolenQueueTab[] = ["pending", "flagged", "disputed", "cleared"];
+const EXPLORER_TX = "https://blockexplorer.electroneum.com/tx/";
+
+const flagInput = (r: StolenReportDTO) => ({
+  contract: r.contract,
+  tokenId: r.tokenId,
+  reason: r.notes || r.evidenceUrl || "",
+  evidenceUrl: r.evidenceUrl,
+});
+
+/**
+ * Stolen-report console. Access is enforced by the API (ADMIN_WALLETS or a registry role);
+ * flag / clear are signed by the connected wallet, so the registry checks the role again.
+ */
+export default function StolenQueueClient() {
+  const auth = useWalletAuth();
+  const registry = useStolenRegistryAdmin();
+  const [tab, setTab] = React.useState<StolenQueueTab>("pending");
+  const q = useStolenQueue(tab);
+  const { review } = useStolenReview();
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+  const [reasons, setReasons] = React.useState<Record<string, string>>({});
+  const [busy, setBusy] = React.useState<string | null>(null);
+  const [manual, setManual] = React.useState({ contract: "", tokenId: "", evidenceUrl: "", reason: "" });
+
+  React.useEffect(() => setSelected(new Set()), [tab]);
+
+  const viewer = q.data?.viewer;
+  const reports = React.useMemo(() => q.data?.reports ?? [], [q.data]);
+  const picked = reports.filter((r) => selected.has(r.id));
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const run = async (key: string, label: string, fn: () => Promise<string>) => {
+    setBusy(key);
+    const tId = toast.loading(label);
+    try {
+      toast.success(await fn(), { id: tId });
+      setSelected(new Set());
+    } catch (e: unknown) {
+      toast.error(errMsg(e, "Action failed"), { id: tId });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const flagReports = (rows: StolenReportDTO[], key: string) =>
+    run(key, rows.length > 1 ? `Flagging ${rows.length} tokens…` : "Flagging…", async () => {
+      const r = await registry.flag(rows.map(flagInput));
+      return `Flagged ${r.flagged} token${r.flagged === 1 ? "" : "s"} on-chain.`;
+    });
+
+  const clearReports = (rows: StolenReportDTO[], key: string) =>
+    run(key, rows.length > 1 ? `Clearing ${rows.length} tokens…` : "Clearing…", async () => {
+      const r = await registry.clear(rows.map((x) => ({ contract: x.contract, tokenId: x.tokenId })));
+      return `Cleared ${r.cleared} token${r.cleared === 1 ? "" : "s"} on-chain.`;
+    });
+
+  const DECISIONS = {
+    confirm: ["Confirming…", "Report confirmed; the token now shows as reported."],
+    dismiss: ["Dismissing…", "Report dismissed."],
+    "reject-dispute": ["Closing dispute…", "Dispute rejected; the flag stays."],
+  } as const;
+
+  const decide = (r: StolenReportDTO, action: keyof typeof DECISIONS) => {
+    const reason = reasons[r.id]?.trim();
+    if (!reason) return toast.error("Add a reason first.");
+    const [pending, done] = DECISIONS[action];
+    return run(`${action}:${r.id}`, pending, async () => {
+      await review(r.id, action, reason);
+      return done;
+    });
+  };
+
+  const flagManual = () => {
+    const contract = manual.contract.trim();
+    const tokenId = manual.tokenId.trim();
+    if (!ethers.isAddress(contract) || !/^\d+$/.test(tokenId)) return toast.error("Enter a contract and token id.");
+    if (!manual.reason.trim()) return toast.error("Add a reason.");
+    return run("manual", "Flagging…", async () => {
+      await registry.flag([{ contract, tokenId, reason: manual.reason, evidenceUrl: manual.evidenceUrl.trim() }]);
+      setManual({ contract: "", tokenId: "", evidenceUrl: "", reason: "" });
+      return "Flagged on-chain.";
+    });
+  };
+
+  const canFlag = !!viewer?.canReport && !registry.paused;
+  const canClear = !!viewer?.canClear && !registry.paused;
+  const canConfirm = !!viewer?.canReport || !!viewer?.isAdmin;
+
+  return (
+    <Container className="py-10">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Stolen reports</h1>
+          <div className="mt-1 text-xs text-muted-foreground">
+            Registry {registry.address ?? "not configured"}
+            {registry.paused ? " · paused" : ""}
+            {viewer
+              ? ` · you: ${[viewer.isAdmin && "admin", viewer.canReport && "reporter", viewer.canClear && "clearer"]
+                  .filter(Boolean)
+                  .join(", ")}`
+              : ""}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {TABS.map((t) => (
+            <Button key={t} size="sm" variant={t === tab ? "primary" : "outline"} onClick={() => setTab(t)}>
+              {t}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {registry.error ? <div className="mt-3 text-xs text-red-500">{registry.error}</div> : null}
+
+      {picked.length ? (
+        <div className="mt-4 flex flex-wrap items-center gap-2 rounded-2xl border border-border bg-card p-3 text-sm">
+          <span className="font-semibold">{picked.length} selected</span>
+          {tab === "pending" ? (
+            <Button size="sm" disabled={!canFlag || !!busy} loading={busy === "batch"} onClick={() => void flagReports(picked, "batch")}>
+              Flag on-chain
+            </Button>
+          ) : null}
+          {tab === "flagged" || tab === "disputed" ? (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!canClear || !!busy}
+              loading={busy === "batch"}
+              onClick={() => void clearReports(picked.filter((r) => r.onChain), "batch")}
+            >
+              Clear on-chain
+            </Button>
+          ) : null}
+        </div>
+      ) : null}
+
+      {q.isLoading ? (
+        <div className="mt-10 text-center text-sm text-muted-foreground">Loading…</div>
+      ) : q.isError ? (
+        <div className="mt-10 space-y-3 text-center text-sm text-muted-foreground">
+          <div>{(q.error as Error)?.message || "Failed to load reports"}</div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => void auth.ensureSignedIn().then(() => q.refetch()).catch((e) => toast.error(e.message))}
+          >
+            Sign in
+          </Button>
+        </div>
+      ) : !reports.length ? (
+        <div className="mt-10 text-center text-sm text-muted-foreground">Nothing here.</div>
+      ) : (
+        <div className="mt-6 space-y-3">
+          {reports.map((r) => {
+            const evidence = ipfsToHttp(r.evidenceUrl);
+            return (
+              <div key={r.id} className="rounded-2xl border border-border bg-card p-4 text-sm">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="flex min-w-0 gap-3">
+                    {tab !== "cleared" ? (
+                      <Checkbox checked={selected.has(r.id)} onCheckedChange={() => toggle(r.id)} disabled={!!busy} />
+                    ) : null}
+                    <div className="min-w-0 space-y-1">
+                      <Link className="font-semibold hover:underline" href={`/collections/${r.contract}/${r.tokenId}`}>
+                        {r.token?.name ?? `#${r.tokenId}`}
+                      </Link>
+                      <div className="truncate text-xs text-muted-foreground">
+                        {r.contract} · #{r.tokenId}
+                      </div>
+                      <div className="text-xs">
+                        {r.source.toLowerCase()} report ·{" "}
+                        {r.onChain ? "in registry" : r.confirmed ? "confirmed, off-chain" : "awaiting review"}
+                        {r.disputed ? " · disputed" : ""} · {new Date(r.createdISO).toLocaleString()}
+                      </div>
+                      {r.reporterAddress ? (
+                        <div className="text-xs text-muted-foreground">
+                          By{" "}
+                          <Link className="underline" href={`/profile/${r.reporterAddress}`}>
+                            {r.reporterAddress}
+                          </Link>
+                        </div>
+                      ) : null}
+                      {evidence && /^https?:\/\//i.test(evidence) ? (
+                        <a className="text-xs underline" href={evidence} target="_blank" rel="noreferrer">
+                          Evidence
+                        </a>
+                      ) : null}
+                      {r.notes ? <div className="line-clamp-3 pt-1">{r.notes}</div> : null}
+
+                      {r.events.length ? (
+                        <details className="pt-1 text-xs text-muted-foreground">
+                          <summary className="cursor-pointer">Audit trail ({r.events.length})</summary>
+                          <ul className="mt-1 space-y-1">
+                            {r.events.map((e, i) => (
+                              <li key={`${e.timestampISO}-${i}`}>
+                                {new Date(e.timestampISO).toLocaleString()} · {e.action.toLowerCase()}
+                                {e.actorAddress ? ` by ${e.actorAddress.slice(0, 8)}…` : ""}
+                                {e.notes ? ` — ${e.notes}` : ""}
+                                {e.txHash ? (
+                                  <>
+                                    {" "}
+                                    <a className="underline" href={`${EXPLORER_TX}${e.txHash}`} target="_blank" rel="noreferrer">
+                                      tx
+                                    </a>
+                                  </>
+                                ) : null}
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      ) : null}
+                    </div>
+                  </div>
+
+                  {tab !== "cleared" ? (
+                    <div className="flex w-full flex-col gap-2 sm:w-72">
+                      {!r.onChain || r.disputed ? (
+                        <Input
+                          placeholder={r.onChain ? "Why the flag stays" : r.confirmed ? "Dismissal reason" : "Review note"}
+                          value={reasons[r.id] ?? ""}
+                          onChange={(e) => setReasons((x) => ({ ...x, [r.id]: e.target.value }))}
+                        />
+                      ) : null}
+                      <div className="flex gap-2">
+                        {!r.onChain ? (
+                          <>
+                            <Button
+                              size="sm"
+                              className="flex-1"
+                              disabled={!canFlag || !!busy}
+                              loading={busy === `flag:${r.id}`}
+                              onClick={() => void flagReports([r], `flag:${r.id}`)}
+                            >
+                              Flag on-chain
+                            </Button>
+                            {!r.confirmed ? (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="flex-1"
+                                disabled={!canConfirm || !!busy}
+                                loading={busy === `confirm:${r.id}`}
+                                onClick={() => void decide(r, "confirm")}
+                              >
+                                Confirm
+                              </Button>
+                            ) : null}
+                            <Button
+                              size="sm"
+                              variant="danger"
+                              className="flex-1"
+                              disabled={!!busy}
+                              loading={busy === `dismiss:${r.id}`}
+                              onClick={() => void decide(r, "dismiss")}
+                            >
+                              Dismiss
+                            </Button>
+                          </>
+                        ) : (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="flex-1"
+                              disabled={!canClear || !!busy}
+                              loading={busy === `clear:${r.id}`}
+                              onClick={() => void clearReports([r], `clear:${r.id}`)}
+                            >
+                              Clear on-chain
+                            </Button>
+                            {r.disputed ? (
+                              <Button
+                                size="sm"
+                                className="flex-1"
+                                disabled={!!busy}
+                                loading={busy === `reject-dispute:${r.id}`}
+                                onClick={() => void decide(r, "reject-dispute")}
+                              >
+                                Keep flag
+                              </Button>
+                            ) : null}
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  ) : null}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {viewer?.canReport ? (
+        <div className="mt-10 rounded-2xl border border-border bg-card p-4 text-sm">
+          <div className="font-semibold">Flag a token directly</div>
+          <div className="mt-3 grid gap-2 sm:grid-cols-2">
+            <Input
+              placeholder="Contract 0x…"
+              value={manual.contract}
+              onChange={(e) => setManual((m) => ({ ...m, contract: e.target.value }))}
+            />
+            <Input
+              placeholder="Token id"
+              value={manual.tokenId}
+              onChange={(e) => setManual((m) => ({ ...m, tokenId: e.target.value }))}
+            />
+            <Input
+              placeholder="Evidence link"
+              value={manual.evidenceUrl}
+              onChange={(e) => setManual((m) => ({ ...m, evidenceUrl: e.target.value }))}
+            />
+            <Input
+              placeholder="Reason"
+              value={manual.reason}
+              onChange={(e) => setManual((m) => ({ ...m, reason: e.target.value }))}
+            />
+          </div>
+          <Button className="mt-3" size="sm" disabled={!canFlag || !!busy} loading={busy === "manual"} onClick={() => void flagManual()}>
+            Flag on-chain
+          </Button>
+        </div>
+      ) : null}
+    </Container>
+  );
+}
@@ -0,0 +1,12 @@
+// app/admin/submissions/page.tsx
+import type { Metadata } from "next";
+import SubmissionQueueClient from "./ui/SubmissionQueueClient";
+
+export const metadata: Metadata = {
+  title: "Collection submissions • Admin • Panthart",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminSubmissionsPage() {
+  return <SubmissionQueueClient />;
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { Container } from "@/src/ui/Container";
+import { Button } from "@/src/ui/Button";
+import { Input } from "@/src/ui/Input";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import { useSubmissionQueue, useSubmissionReview } from "@/src/lib/hooks/useSubmissions";
+
+const TABS = ["PENDING", "APPROVED", "REJECTED"] as const;
+
+/** Admin review queue. Access is enforced by the API (ADMIN_WALLETS). */
+export default function SubmissionQueueClient() {
+  const auth = useWalletAuth();
+  const [tab, setTab] = React.useState<(typeof TABS)[number]>("PENDING");
+  const q = useSubmissionQueue(tab);
+  const { review } = useSubmissionReview();
+  const [reasons, setReasons] = React.useState<Record<string, string>>({});
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+
+  const act = async (id: string, action: "approve" | "reject") => {
+    const reason = reasons[id]?.trim();
+    if (action === "reject" && !reason) return toast.error("Add a reason before rejecting.");
+    setBusyId(id);
+    const tId = toast.loading(action === "approve" ? "Approving…" : "Rejecting…");
+    try {
+      await review(id, action, reason);
+      toast.success(action === "approve" ? "Approved — queued for indexing." : "Rejected.", { id: tId });
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Review failed", { id: tId });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Container className="py-10">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-2xl font-bold">Collection submissions</h1>
+        <div className="flex gap-2">
+          {TABS.map((t) => (
+            <Button key={t} size="sm" variant={t === tab ? "primary" : "outline"} onClick={() => setTab(t)}>
+              {t.toLowerCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {q.isLoading ? (
+        <div className="mt-10 text-center text-sm text-muted-foreground">Loading…</div>
+      ) : q.isError ? (
+        <div className="mt-10 space-y-3 text-center text-sm text-muted-foreground">
+          <div>{(q.error as Error)?.message || "Failed to load submissions"}</div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => void auth.ensureSignedIn().then(() => q.refetch()).catch((e) => toast.error(e.message))}
+          >
+            Sign in
+          </Button>
+        </div>
+      ) : !q.data?.submissions.length ? (
+        <div className="mt-10 text-center text-sm text-muted-foreground">Nothing here.</div>
+      ) : (
+        <div className="mt-6 space-y-3">
+          {q.data.submissions.map((s) => (
+            <div key={s.id} className="rounded-2xl border border-border bg-card p-4 text-sm">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="font-semibold">
+                    {s.name ?? "Unnamed"} <span className="text-muted-foreground">({s.symbol ?? "—"})</span>
+                  </div>
+                  <div className="truncate text-xs text-muted-foreground">{s.contract}</div>
+                  <div className="text-xs">
+                    Supply {s.supply ?? "?"} · Owner {s.ownershipVerified ? "verified" : "unverified"} · Fee{" "}
+                    {s.feePaidWei ? `${ethers.formatEther(s.feePaidWei)} ETN` : "none"}
+                  </div>
+                  {s.baseUri ? <div className="truncate text-xs text-muted-foreground">Base URI {s.baseUri}</div> : null}
+                  <div className="text-xs text-muted-foreground">
+                    By{" "}
+                    <Link className="underline" href={`/profile/${s.submittedBy.walletAddress}`}>
+                      {s.submittedBy.username}
+                    </Link>{" "}
+                    · {new Date(s.createdAt).toLocaleString()}
+                  </div>
+                  {s.description ? <div className="line-clamp-3 pt-1">{s.description}</div> : null}
+                  {s.statusReason ? <div className="text-xs text-red-500">Reason: {s.statusReason}</div> : null}
+                </div>
+
+                {s.status === "PENDING" ? (
+                  <div className="flex w-full flex-col gap-2 sm:w-72">
+                    <Input
+                      placeholder="Rejection reason"
+                      value={reasons[s.id] ?? ""}
+                      onChange={(e) => setReasons((r) => ({ ...r, [s.id]: e.target.value }))}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="flex-1"
+                        loading={busyId === s.id}
+                        onClick={() => void act(s.id, "approve")}
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="danger"
+                        className="flex-1"
+                        disabled={busyId === s.id}
+                        onClick={() => void act(s.id, "reject")}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                ) : s.status === "APPROVED" ? (
+                  <Link className="text-xs underline" href={`/collections/${s.contract}`}>
+                    View collection
+                  </Link>
+                ) : null}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Container>
+  );
+}
@@ -10,6 +10,8 @@ import { ethers } from "ethers";
 
 import { ipfsToHttp, detectMediaType } from "@/src/lib/media";
 import NFTDetailsClient from "@/src/components/shared/nft/NFTDetailsClient";
+import RefreshMetadataButton from "@/src/components/shared/nft/RefreshMetadataButton";
+import ReportStolenButton from "@/src/components/shared/nft/ReportStolenButton";
 import NFTitemsTab from "@/src/components/shared/NFTitemsTab";
 import type { Standard } from "@/src/lib/services/marketplace";
 
@@ -175,6 +177,9 @@ export default async function Page(ctx: PageContext) {
         </div>
 
         <div className="flex items-center gap-2">
+          <RefreshMetadataButton contract={contract} tokenId={tokenId} />
+          <ReportStolenButton contract={contract} tokenId={tokenId} />
+
           <Link
             href={`/collections/${contract}/${tokenId}`}
             className="text-xs rounded-full border border-black/10 dark:border-white/10 px-3 py-1.5 hover:bg-black/5 dark:hover:bg-white/5"
@@ -32,6 +32,7 @@ type HeaderDTO = {
 
   rarityEnabled?: boolean | null;
   rarityPopulation?: number | null;
+  rarityMethod?: string | null;
 };
 
 type RouteParams = { contract: string };
@@ -1,11 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
 
+import Link from "next/link";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 type Row = {
   id: string;
   type: string;
+  contract?: string | null;
   tokenId: string;
   nftName?: string | null;
   imageUrl?: string | null;
@@ -52,6 +54,7 @@ function normalizeToRow(it: unknown, fallbackTokenId?: string): Row | null {
   return {
     id,
     type,
+    contract: getStr(it, "contract"),
     tokenId,
     nftName: getStr(it, "nftName"),
     imageUrl: getStr(it, "imageUrl"),
@@ -107,22 +110,26 @@ function ExternalIcon({ className = "" }: { className?: string }) {
 export default function ActivityTab({
   contract,
   tokenId,
+  wallet,
 }: {
-  contract: string;
+  contract?: string;
   tokenId?: string | number;
+  /** Wallet feed (profile page) — takes precedence over contract/tokenId. */
+  wallet?: string;
 }) {
   const tokenIdStr = tokenId != null ? String(tokenId) : "";
   const [type, setType] = useState("");
 
   const key = useMemo(() => {
-    // When contract/tokenId/type changes, remount inner component (auto-reset state)
-    return `${contract}:${tokenIdStr || "collection"}:${type || "ALL"}`;
-  }, [contract, tokenIdStr, type]);
+    // When contract/tokenId/wallet/type changes, remount inner component (auto-reset state)
+    return `${wallet ?? contract}:${tokenIdStr || "collection"}:${type || "ALL"}`;
+  }, [contract, wallet, tokenIdStr, type]);
 
   return (
     <ActivityTabInner
       key={key}
-      contract={contract}
+      contract={contract ?? ""}
+      wallet={wallet}
       tokenId={tokenId}
       type={type}
       setType={setType}
@@ -132,11 +139,13 @@ export default function ActivityTab({
 
 function ActivityTabInner({
   contract,
+  wallet,
   tokenId,
   type,
   setType,
 }: {
   contract: string;
+  wallet?: string;
   tokenId?: string | number;
   type: string;
   setType: (v: string) => void;
@@ -148,7 +157,7 @@ function ActivityTabInner({
 
   const sentinelRef = useRef<HTMLDivElement | null>(null);
 
-  const mode = tokenId != null ? "token" : "collection";
+  const mode = wallet ? "wallet" : tokenId != null ? "token" : "collection";
   const tokenIdStr = tokenId != null ? String(tokenId) : undefined;
 
   const qs = useMemo(() => {
@@ -164,7 +173,9 @@ function ActivityTabInner({
     setLoading(true);
 
     const base =
-      mode === "token"
+      mode === "wallet"
+        ? `/api/profile/${wallet}/activity`
+        : mode === "token"
         ? `/api/nft/${contract}/${encodeURIComponent(tokenIdStr ?? "")}/activities`
         : `/api/collections/${contract}/activities`;
 
@@ -209,7 +220,7 @@ function ActivityTabInner({
     if (!nextCursor || normalized.length === 0) setDone(true);
 
     setLoading(false);
-  }, [contract, cursor, done, loading, mode, qs, tokenIdStr]);
+  }, [contract, wallet, cursor, done, loading, mode, qs, tokenIdStr]);
 
   useEffect(() => {
     const el = sentinelRef.current;
@@ -246,6 +257,9 @@ function ActivityTabInner({
           <option value="">All</option>
           <option value="SALE">Sale</option>
           <option value="LISTING">Listing</option>
+          <option value="SCHEDULED_LISTING">Scheduled Listing</option>
+          <option value="DUTCH_LISTING">Dutch Listing</option>
+          <option value="PRICE_DROP">Price Drop</option>
           <option value="UNLISTING">Unlisting</option>
           <option value="TRANSFER">Transfer</option>
           <option value="BID">Bid</option>
@@ -267,7 +281,17 @@ function ActivityTabInner({
             >
               <div className="min-w-0">
                 <div className="truncate text-sm font-semibold">
-                  {r.type} <span className="text-muted-foreground">#{r.tokenId}</span>
+                  {r.type}{" "}
+                  {mode === "wallet" && r.contract ? (
+                    <Link
+                      href={`/collections/${r.contract}/${r.tokenId}`}
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      {r.nftName ?? `#${r.tokenId}`}
+                    </Link>
+                  ) : (
+                    <span className="text-muted-foreground">#{r.tokenId}</span>
+                  )}
                 </div>
                 <div className="mt-1 text-xs text-muted-foreground">
                   {new Date(r.timestamp).toLocaleString()}
@@ -3,6 +3,7 @@
 import * as React from "react";
 import EditCollectionSheet from "./EditCollectionSheet";
 import WithdrawProceedsDialog from "./WithdrawProceedsDialog";
+import RefreshCollectionMetadata from "./RefreshCollectionMetadata";
 import { useUnifiedAccount } from "@/src/lib/useUnifiedAccount";
 
 type HeaderDTO = {
@@ -18,6 +19,8 @@ type HeaderDTO = {
   x?: string | null;
   discord?: string | null;
   telegram?: string | null;
+
+  rarityMethod?: string | null;
 };
 
 export default function CollectionOwnerActions({ header }: { header: HeaderDTO }) {
@@ -35,6 +38,7 @@ export default function CollectionOwnerActions({ header }: { header: HeaderDTO }
         contract={header.contract}
         collectionName={header.name ?? "Collection"}
       />
+      <RefreshCollectionMetadata contract={header.contract} />
       <EditCollectionSheet
         collection={{
           contract: header.contract,
@@ -48,6 +52,7 @@ export default function CollectionOwnerActions({ header }: { header: HeaderDTO }
           x: header.x ?? null,
           telegram: header.telegram ?? null,
           discord: header.discord ?? null,
+          rarityMethod: header.rarityMethod ?? null,
         }}
       />
     </div>
@@ -0,0 +1,83 @@
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import { Button } from "@/src/ui/Button";
+import SalesChart from "@/src/components/shared/SalesChart";
+import { useCollectionStats, type StatsInterval } from "@/src/lib/hooks/useSaleStats";
+
+const toNum = (base: string, decimals: number) => Number(ethers.formatUnits(base, decimals)) || 0;
+
+const INTERVALS: { key: StatsInterval; label: string }[] = [
+  { key: "hour", label: "7D" },
+  { key: "day", label: "1Y" },
+];
+
+/** Average sale price (line), individual sales (dots) and volume (bars) in ETN. */
+export default function CollectionSalesChart({ contract }: { contract: string }) {
+  const [interval, setIntervalKey] = React.useState<StatsInterval>("day");
+  const q = useCollectionStats(contract, interval);
+
+  const chart = React.useMemo(() => {
+    if (!q.data) return null;
+    const dec = q.data.currency.decimals;
+    return {
+      line: q.data.buckets.map((b) => ({ t: Date.parse(b.t), v: toNum(b.avg, dec) })),
+      bars: q.data.buckets.map((b) => ({ t: Date.parse(b.t), v: toNum(b.volume, dec) })),
+      points: q.data.points.map((p) => ({
+        t: Date.parse(p.t),
+        v: toNum(p.price, dec),
+        label: `#${p.tokenId} · ${toNum(p.price, dec)} ${q.data.currency.symbol} · ${new Date(p.t).toLocaleString()}`,
+      })),
+      volume: toNum(q.data.totals.volume, dec),
+      sales: q.data.totals.sales,
+      symbol: q.data.currency.symbol,
+    };
+  }, [q.data]);
+
+  return (
+    <div className="rounded-2xl border border-black/10 dark:border-white/10 bg-white/50 dark:bg-white/4 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold">Sales</h3>
+          {chart ? (
+            <p className="mt-1 text-xs text-muted-foreground">
+              {chart.sales} sales · {chart.volume.toLocaleString(undefined, { maximumFractionDigits: 2 })} {chart.symbol}{" "}
+              volume
+            </p>
+          ) : null}
+        </div>
+        <div className="flex gap-1">
+          {INTERVALS.map((i) => (
+            <Button
+              key={i.key}
+              size="sm"
+              variant={interval === i.key ? "primary" : "ghost"}
+              onClick={() => setIntervalKey(i.key)}
+            >
+              {i.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-3">
+        {q.isLoading ? (
+          <div className="h-40 animate-pulse rounded-xl bg-black/5 dark:bg-white/5" />
+        ) : q.isError || !chart ? (
+          <div className="flex h-40 items-center justify-center text-sm text-muted-foreground">
+            Sales history unavailable.
+          </div>
+        ) : (
+          <SalesChart
+            line={chart.line}
+            bars={chart.bars}
+            points={chart.points}
+            unit={chart.symbol}
+            withTime={interval === "hour"}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
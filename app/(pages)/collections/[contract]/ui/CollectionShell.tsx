@@ -1,5 +1,6 @@
 import CollectionHeader from "./CollectionHeader";
 import CollectionOwnerActions from "./CollectionOwnerActions";
+import CollectionSalesChart from "./CollectionSalesChart";
 import CollectionTabsClient from "./CollectionTabsClient";
 
 
@@ -30,6 +31,7 @@ type HeaderDTO = {
 
   rarityEnabled?: boolean | null;
   rarityPopulation?: number | null;
+  rarityMethod?: string | null;
 };
 
 export default function CollectionShell({ header }: { header: HeaderDTO }) {
@@ -41,6 +43,9 @@ export default function CollectionShell({ header }: { header: HeaderDTO }) {
       />
 
       <div className="mx-auto w-full max-w-7xl px-4 pb-16">
+        <div className="mb-6">
+          <CollectionSalesChart contract={header.contract} />
+        </div>
         <CollectionTabsClient header={header} />
       </div>
     </div>
@@ -4,17 +4,18 @@ import { useMemo } from "react";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import ItemsTab from "./ItemsTab";
 import ActivityTab from "./ActivityTab";
+import OffersTab from "./OffersTab";
 
 type HeaderDTO = {
   contract: string;
   rarityEnabled?: boolean | null;
 };
 
-type TabKey = "items" | "activity";
+type TabKey = "items" | "offers" | "activity";
 
 function tabFrom(sp: URLSearchParams): TabKey {
   const t = (sp.get("tab") || "items").toLowerCase();
-  return t === "activity" ? "activity" : "items";
+  return t === "activity" || t === "offers" ? t : "items";
 }
 
 export default function CollectionTabsClient({ header }: { header: HeaderDTO }) {
@@ -41,6 +42,9 @@ export default function CollectionTabsClient({ header }: { header: HeaderDTO })
           <Tab active={tab === "items"} onClick={() => setTab("items")}>
             Items
           </Tab>
+          <Tab active={tab === "offers"} onClick={() => setTab("offers")}>
+            Offers
+          </Tab>
           <Tab active={tab === "activity"} onClick={() => setTab("activity")}>
             Activity
           </Tab>
@@ -51,6 +55,8 @@ export default function CollectionTabsClient({ header }: { header: HeaderDTO })
         <ItemsTab contract={header.contract} rarityEnabled={!!header.rarityEnabled} />
       ) : null}
 
+      {tab === "offers" ? <OffersTab contract={header.contract} /> : null}
+
       {tab === "activity" ? <ActivityTab contract={header.contract} /> : null}
     </div>
   );
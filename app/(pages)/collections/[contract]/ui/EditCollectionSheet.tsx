@@ -4,6 +4,7 @@
 import * as React from "react";
 import Image from "next/image";
 import { useUnifiedAccount } from "@/src/lib/useUnifiedAccount";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
 
 type CollectionHeaderLike = {
   contract: string;
@@ -19,8 +20,17 @@ type CollectionHeaderLike = {
   x?: string | null;
   telegram?: string | null;
   discord?: string | null;
+
+  rarityMethod?: string | null;
 };
 
+const RARITY_METHODS = [
+  { value: "INFORMATION_CONTENT", label: "Information content (OpenRarity)" },
+  { value: "STATISTICAL", label: "Statistical rarity" },
+  { value: "RARITY_SCORE", label: "Rarity score (sum of 1/frequency)" },
+];
+const DEFAULT_RARITY_METHOD = "INFORMATION_CONTENT";
+
 const MAX_FILE_BYTES = 3 * 1024 * 1024;
 
 function normalizeUrl(u?: string | null) {
@@ -35,7 +45,7 @@ function cx(...cls: Array<string | false | null | undefined>) {
   return cls.filter(Boolean).join(" ");
 }
 
-function useMiniToast() {
+export function useMiniToast() {
   const [t, setT] = React.useState<{ show: boolean; msg: string }>({
     show: false,
     msg: "",
@@ -76,7 +86,7 @@ function useMiniToast() {
   return { show, Toast };
 }
 
-function validateFile(file: File): string | null {
+export function validateFile(file: File): string | null {
   if (!file.type?.startsWith("image/"))
     return "Please choose an image file (JPG/PNG/GIF/WebP).";
   if (file.size > MAX_FILE_BYTES)
@@ -84,7 +94,7 @@ function validateFile(file: File): string | null {
   return null;
 }
 
-async function uploadImage(file: File): Promise<string> {
+export async function uploadImage(file: File): Promise<string> {
   const form = new FormData();
   form.append("file", file);
 
@@ -120,7 +130,7 @@ function useBodyScrollLock(locked: boolean) {
   }, [locked]);
 }
 
-function RightSheet({
+export function RightSheet({
   open,
   title,
   subtitle,
@@ -219,6 +229,7 @@ export default function EditCollectionSheet({
   collection: CollectionHeaderLike;
 }) {
   const acct = useUnifiedAccount();
+  const auth = useWalletAuth();
   const { show, Toast } = useMiniToast();
 
   const my = (acct.address || "").toLowerCase();
@@ -245,6 +256,9 @@ export default function EditCollectionSheet({
   const [x, setX] = React.useState(collection.x || "");
   const [telegram, setTelegram] = React.useState(collection.telegram || "");
   const [discord, setDiscord] = React.useState(collection.discord || "");
+  const [rarityMethod, setRarityMethod] = React.useState(
+    collection.rarityMethod || DEFAULT_RARITY_METHOD
+  );
 
   // Reset fields each time we open (so the sheet always mirrors latest header)
   React.useEffect(() => {
@@ -262,6 +276,7 @@ export default function EditCollectionSheet({
     setX(collection.x || "");
     setTelegram(collection.telegram || "");
     setDiscord(collection.discord || "");
+    setRarityMethod(collection.rarityMethod || DEFAULT_RARITY_METHOD);
   }, [open, collection]);
 
   const somethingChanged =
@@ -272,7 +287,8 @@ export default function EditCollectionSheet({
     instagram !== (collection.instagram || "") ||
     x !== (collection.x || "") ||
     telegram !== (collection.telegram || "") ||
-    discord !== (collection.discord || "");
+    discord !== (collection.discord || "") ||
+    rarityMethod !== (collection.rarityMethod || DEFAULT_RARITY_METHOD);
 
   async function onCoverChange(e: React.ChangeEvent<HTMLInputElement>) {
     const input = e.currentTarget;
@@ -355,18 +371,21 @@ export default function EditCollectionSheet({
       discord: normalizeUrl(discord),
       logoUrl,
       coverUrl,
+      ...(rarityMethod !== (collection.rarityMethod || DEFAULT_RARITY_METHOD)
+        ? { rarityMethod }
+        : {}),
     };
 
     setSaving(true);
     try {
+      // proves wallet ownership via a signed session (prompts only if needed)
+      await auth.ensureSignedIn();
+
       const res = await fetch(
         `/api/collections/${encodeURIComponent(collection.contract)}`,
         {
           method: "PATCH",
-          headers: {
-            "content-type": "application/json",
-            "x-owner-wallet": acct.address,
-          },
+          headers: { "content-type": "application/json" },
           body: JSON.stringify(body),
         }
       );
@@ -501,6 +520,28 @@ export default function EditCollectionSheet({
             />
           </div>
 
+          {/* Rarity */}
+          <div className="space-y-2">
+            <div className="text-xs font-semibold text-muted-foreground">
+              Rarity ranking
+            </div>
+            <select
+              value={rarityMethod}
+              onChange={(e) => setRarityMethod(e.target.value)}
+              disabled={saving}
+              className="h-11 w-full rounded-2xl border border-border bg-background px-4 text-sm outline-none focus:ring-2 focus:ring-foreground/10"
+            >
+              {RARITY_METHODS.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            <div className="text-[11px] text-muted-foreground">
+              Ranks are recomputed in the background after a change.
+            </div>
+          </div>
+
           {/* Socials */}
           <div className="grid grid-cols-1 gap-3">
             {[
@@ -2,7 +2,14 @@
 "use client";
 
 import { useMemo, useState } from "react";
+import { toast } from "sonner";
 import NftGrid from "./NftGrid";
+import SweepControl from "./SweepControl";
+import BulkListDrawer from "@/src/components/shared/bulk/BulkListDrawer";
+import BulkSelectBar from "@/src/components/shared/bulk/BulkSelectBar";
+import { BULK_MAX } from "@/src/lib/hooks/useBulkListing";
+import { useUnifiedAccount } from "@/src/lib/useUnifiedAccount";
+import { Button } from "@/src/ui/Button";
 
 export default function ItemsTab({
   contract,
@@ -22,6 +29,25 @@ export default function ItemsTab({
   // ✅ NEW: busy state driven by NftGrid fetching
   const [busy, setBusy] = useState(false);
 
+  // bulk list: pick your own items off the grid (the drawer drops anything you don't own)
+  const { address } = useUnifiedAccount();
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const toggle = (it: { id: string; isListed: boolean; isAuctioned: boolean }) => {
+    if (selected.includes(it.id)) return setSelected((s) => s.filter((x) => x !== it.id));
+    if (it.isListed || it.isAuctioned) return toast.info("Already listed or on auction.");
+    if (selected.length >= BULK_MAX) return toast.info(`Select up to ${BULK_MAX} items at a time.`);
+    setSelected((s) => [...s, it.id]);
+  };
+
+  const exitSelect = () => {
+    setSelecting(false);
+    setSelected([]);
+  };
+
   const safeSort = useMemo(() => {
     if (!rarityEnabled && (sort === "rarity_asc" || sort === "rarity_desc")) {
       return "newest" as const;
@@ -76,6 +102,14 @@ export default function ItemsTab({
             Auctions
           </ToggleChip>
 
+          <SweepControl contract={contract} disabled={busy} />
+
+          {address && !selecting ? (
+            <Button variant="outline" size="sm" onClick={() => setSelecting(true)}>
+              Bulk list
+            </Button>
+          ) : null}
+
           <select
             value={safeSort}
             onChange={(e) => setSort(e.target.value as any)}
@@ -91,10 +125,34 @@ export default function ItemsTab({
         </div>
       </div>
 
+      {selecting ? (
+        <div className="mt-4">
+          <BulkSelectBar count={selected.length} max={BULK_MAX} onClear={() => setSelected([])} onExit={exitSelect}>
+            <Button size="sm" onClick={() => setBulkOpen(true)} disabled={!selected.length}>
+              List {selected.length || ""}
+            </Button>
+          </BulkSelectBar>
+        </div>
+      ) : null}
+
       <NftGrid
         contract={contract}
         query={{ search, listed, auctioned, sort: safeSort }}
         onBusyChange={setBusy} // ✅ NEW: hook up interaction
+        selectedIds={selected}
+        onToggleSelect={selecting ? toggle : undefined}
+        reloadKey={reloadKey}
+      />
+
+      <BulkListDrawer
+        open={bulkOpen}
+        onClose={() => setBulkOpen(false)}
+        nftIds={selected}
+        onDone={() => {
+          setBulkOpen(false);
+          exitSelect();
+          setReloadKey((k) => k + 1);
+        }}
       />
     </div>
   );
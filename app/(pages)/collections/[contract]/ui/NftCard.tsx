@@ -1,7 +1,12 @@
 "use client";
 
+import { useState } from "react";
 import Image from "next/image";
+import { Check, ShoppingCart } from "lucide-react";
+import { toast } from "sonner";
 import { detectMediaType, ipfsToHttp, isVideoType } from "@/src/lib/media";
+import StolenBadge from "@/src/components/shared/nft/StolenBadge";
+import { useCart } from "@/src/lib/hooks/useCart";
 
 const BLUR_1x1 =
   "data:image/gif;base64,R0lGODlhAQABAAAAACH5BAEKAAEALAAAAAABAAEAAAICTAEAOw==";
@@ -15,6 +20,7 @@ type GridItem = {
   hasVideo: boolean;
   isListed: boolean;
   isAuctioned: boolean;
+  stolen?: "flagged" | "reported" | null;
 };
 
 function cx(...cls: Array<string | false | undefined | null>) {
@@ -33,16 +39,63 @@ function pickImageThumb(item: GridItem) {
   return null;
 }
 
+/** Add / remove a listed card's listing in the cart (sits on top of the card button). */
+function CartToggle({ nftId }: { nftId: string }) {
+  const cart = useCart();
+  const [busy, setBusy] = useState(false);
+  const inCart = cart.hasNft(nftId);
+
+  const toggle = async () => {
+    if (inCart) return cart.removeNft(nftId);
+    setBusy(true);
+    try {
+      await cart.addNfts([nftId]);
+      toast.success("Added to cart.");
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      disabled={busy}
+      aria-label={inCart ? "Remove from cart" : "Add to cart"}
+      aria-pressed={inCart}
+      className={cx(
+        "absolute right-2 top-2 z-10 inline-flex h-8 w-8 items-center justify-center rounded-full backdrop-blur transition",
+        inCart ? "bg-foreground text-background" : "bg-background/85 text-foreground hover:bg-background",
+        busy && "opacity-60"
+      )}
+    >
+      <ShoppingCart className="h-4 w-4" />
+    </button>
+  );
+}
+
 export default function NftCard({
   item,
   onOpen,
   priority = false,
+  cartable = false,
+  selected,
+  onSelect,
 }: {
   item: GridItem;
   onOpen: () => void;
   priority?: boolean;
+  /** Show the add-to-cart toggle on listed items. */
+  cartable?: boolean;
+  /** Select mode (bulk tools): clicking toggles selection instead of opening the item. */
+  selected?: boolean;
+  onSelect?: () => void;
 }) {
   const title = item.name ?? `#${item.tokenId}`;
+  const selecting = !!onSelect;
+  const showCart = cartable && !selecting && item.isListed && item.stolen !== "flagged";
 
   const mediaUrl = ipfsToHttp(item.animationUrl) || ipfsToHttp(item.imageUrl);
   const mediaType = detectMediaType(mediaUrl);
@@ -51,64 +104,86 @@ export default function NftCard({
   const thumb = pickImageThumb(item);
 
   return (
-    <button
-      onClick={onOpen}
-      className={cx(
-        "group overflow-hidden rounded-2xl border border-border bg-background text-left",
-        "transition hover:shadow-sm active:scale-[0.995]",
-        "focus:outline-none focus-visible:ring-2 focus-visible:ring-foreground/20"
-      )}
-    >
-      <div className="relative aspect-square bg-muted">
-        {thumb ? (
-          <Image
-            src={thumb}
-            alt={title}
-            fill
-            priority={priority}
-            placeholder="blur"
-            blurDataURL={BLUR_1x1}
-            className="object-cover transition-transform duration-300 group-hover:scale-[1.02]"
-            sizes="(max-width: 768px) 50vw, (max-width: 1200px) 25vw, 20vw"
-          />
-        ) : (
-          <div className="absolute inset-0 bg-[radial-gradient(100%_100%_at_50%_0%,rgba(77,238,84,0.10),transparent_55%),linear-gradient(to_bottom,rgba(255,255,255,0.02),transparent)]" />
+    <div className="relative">
+      {showCart ? <CartToggle nftId={item.id} /> : null}
+      {selecting ? (
+        <span
+          aria-hidden="true"
+          className={cx(
+            "pointer-events-none absolute right-2 top-2 z-10 inline-flex h-6 w-6 items-center justify-center rounded-full border-2",
+            selected ? "border-foreground bg-foreground text-background" : "border-white/80 bg-black/30"
+          )}
+        >
+          {selected ? <Check className="h-3.5 w-3.5" /> : null}
+        </span>
+      ) : null}
+      <button
+        onClick={onSelect ?? onOpen}
+        aria-pressed={selecting ? !!selected : undefined}
+        className={cx(
+          "group w-full overflow-hidden rounded-2xl border border-border bg-background text-left",
+          "transition hover:shadow-sm active:scale-[0.995]",
+          "focus:outline-none focus-visible:ring-2 focus-visible:ring-foreground/20",
+          selected && "ring-2 ring-foreground"
         )}
+      >
+        <div className="relative aspect-square bg-muted">
+          {thumb ? (
+            <Image
+              src={thumb}
+              alt={title}
+              fill
+              priority={priority}
+              placeholder="blur"
+              blurDataURL={BLUR_1x1}
+              className="object-cover transition-transform duration-300 group-hover:scale-[1.02]"
+              sizes="(max-width: 768px) 50vw, (max-width: 1200px) 25vw, 20vw"
+            />
+          ) : (
+            <div className="absolute inset-0 bg-[radial-gradient(100%_100%_at_50%_0%,rgba(77,238,84,0.10),transparent_55%),linear-gradient(to_bottom,rgba(255,255,255,0.02),transparent)]" />
+          )}
 
-        {isVideo ? (
-          <div className="absolute inset-0 grid place-items-center">
-            <div className="inline-flex items-center gap-2 rounded-full bg-black/55 px-3 py-2 text-xs font-semibold text-white backdrop-blur">
-              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" aria-hidden="true">
-                <path
-                  d="M9 18V6l12 6-12 6Z"
-                  stroke="currentColor"
-                  strokeWidth="1.8"
-                  strokeLinejoin="round"
-                />
-              </svg>
-              Video
+          {isVideo ? (
+            <div className="absolute inset-0 grid place-items-center">
+              <div className="inline-flex items-center gap-2 rounded-full bg-black/55 px-3 py-2 text-xs font-semibold text-white backdrop-blur">
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" aria-hidden="true">
+                  <path
+                    d="M9 18V6l12 6-12 6Z"
+                    stroke="currentColor"
+                    strokeWidth="1.8"
+                    strokeLinejoin="round"
+                  />
+                </svg>
+                Video
+              </div>
             </div>
-          </div>
-        ) : null}
-
-        <div className="absolute bottom-2 left-2 flex gap-2">
-          {item.isListed ? (
-            <span className="rounded-full bg-foreground px-2 py-1 text-[10px] font-semibold text-background">
-              Listed
-            </span>
           ) : null}
-          {item.isAuctioned ? (
-            <span className="rounded-full border border-border bg-background/90 px-2 py-1 text-[10px] font-semibold">
-              Auction
-            </span>
+
+          {item.stolen ? (
+            <div className="absolute left-2 top-2">
+              <StolenBadge state={item.stolen} className="shadow-sm" />
+            </div>
           ) : null}
+
+          <div className="absolute bottom-2 left-2 flex gap-2">
+            {item.isListed ? (
+              <span className="rounded-full bg-foreground px-2 py-1 text-[10px] font-semibold text-background">
+                Listed
+              </span>
+            ) : null}
+            {item.isAuctioned ? (
+              <span className="rounded-full border border-border bg-background/90 px-2 py-1 text-[10px] font-semibold">
+                Auction
+              </span>
+            ) : null}
+          </div>
         </div>
-      </div>
 
-      <div className="p-3">
-        <div className="truncate text-sm font-semibold">{title}</div>
-        <div className="mt-1 text-xs text-muted-foreground">#{item.tokenId}</div>
-      </div>
-    </button>
+        <div className="p-3">
+          <div className="truncate text-sm font-semibold">{title}</div>
+          <div className="mt-1 text-xs text-muted-foreground">#{item.tokenId}</div>
+        </div>
+      </button>
+    </div>
   );
 }
@@ -4,6 +4,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import NftCard from "./NftCard";
 import NftModal from "./NftModal";
+import TraitSidebar, { type TraitFacet, type TraitSelection } from "./TraitSidebar";
 
 type Item = {
   id: string;
@@ -14,6 +15,7 @@ type Item = {
   hasVideo: boolean;
   isListed: boolean;
   isAuctioned: boolean;
+  stolen?: "flagged" | "reported" | null;
   createdAt: string;
 };
 
@@ -26,16 +28,26 @@ export default function NftGrid({
   contract,
   query,
   onBusyChange,
+  selectedIds,
+  onToggleSelect,
+  reloadKey = 0,
 }: {
   contract: string;
   query: { search: string; listed: boolean; auctioned: boolean; sort: string };
   onBusyChange?: (busy: boolean) => void;
+  /** Select mode (bulk list): cards toggle instead of opening. */
+  selectedIds?: string[];
+  onToggleSelect?: (item: Item) => void;
+  /** Bump to reload from the first page (e.g. after a bulk action). */
+  reloadKey?: number;
 }) {
   const [items, setItems] = useState<Item[]>([]);
   const [cursor, setCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [done, setDone] = useState(false);
   const [open, setOpen] = useState<Item | null>(null);
+  const [traits, setTraits] = useState<TraitSelection>({});
+  const [facets, setFacets] = useState<TraitFacet[]>([]);
 
   const sentinelRef = useRef<HTMLDivElement | null>(null);
   const abortRef = useRef<AbortController | null>(null);
@@ -47,8 +59,9 @@ export default function NftGrid({
     if (query.listed) p.set("listed", "true");
     if (query.auctioned) p.set("auctioned", "true");
     if (query.sort) p.set("sort", query.sort);
+    if (Object.keys(traits).length) p.set("traits", JSON.stringify(traits));
     return p.toString();
-  }, [query]);
+  }, [query, traits]);
 
   const sortMode = query.sort;
 
@@ -67,6 +80,7 @@ export default function NftGrid({
           window.location.origin
         );
         if (cursorParam) url.searchParams.set("cursor", cursorParam);
+        else url.searchParams.set("facets", "1"); // facet counts follow the filter; first page only
 
         const res = await fetch(url.toString(), {
           cache: "no-store",
@@ -76,6 +90,7 @@ export default function NftGrid({
 
         const next = (data?.items ?? []) as Item[];
         const nextCursor = (data?.nextCursor ?? null) as string | null;
+        if (Array.isArray(data?.facets)) setFacets(data.facets as TraitFacet[]);
 
         setItems((prev) => {
           const base = replace ? [] : prev;
@@ -112,7 +127,7 @@ export default function NftGrid({
     setDone(false);
     fetchPage(null, true);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [contract, qs]);
+  }, [contract, qs, reloadKey]);
 
   const loadMore = useCallback(() => {
     if (loading || done) return;
@@ -137,40 +152,56 @@ export default function NftGrid({
   const showInitialSkeleton = loading && items.length === 0;
 
   return (
-    <div className="mt-6">
-      {loading && items.length > 0 ? (
-        <div className="mb-3 inline-flex items-center gap-2 rounded-full border border-border bg-card px-3 py-1.5 text-xs text-muted-foreground">
-          <span className="inline-block h-3 w-3 animate-spin rounded-full border-2 border-foreground/15 border-t-foreground" />
-          Updating results…
+    <div
+      className={[
+        "mt-6",
+        facets.length ? "lg:grid lg:grid-cols-[240px_minmax(0,1fr)] lg:items-start lg:gap-6" : "",
+      ].join(" ")}
+    >
+      {facets.length ? (
+        <div className="mb-4 lg:sticky lg:top-24 lg:mb-0">
+          <TraitSidebar facets={facets} selected={traits} onChange={setTraits} />
         </div>
       ) : null}
 
-      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
-        {showInitialSkeleton
-          ? Array.from({ length: 10 }).map((_, i) => <NftCardSkeleton key={i} />)
-          : items.map((it, idx) => (
-              <NftCard
-                key={it.id}
-                item={it as any}
-                onOpen={() => setOpen(it)}
-                priority={idx < 8}
-              />
-            ))}
-
-        {loading && items.length > 0
-          ? Array.from({ length: 5 }).map((_, i) => (
-              <NftCardSkeleton key={`more-${i}`} />
-            ))
-          : null}
-      </div>
+      <div>
+        {loading && items.length > 0 ? (
+          <div className="mb-3 inline-flex items-center gap-2 rounded-full border border-border bg-card px-3 py-1.5 text-xs text-muted-foreground">
+            <span className="inline-block h-3 w-3 animate-spin rounded-full border-2 border-foreground/15 border-t-foreground" />
+            Updating results…
+          </div>
+        ) : null}
+
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+          {showInitialSkeleton
+            ? Array.from({ length: 10 }).map((_, i) => <NftCardSkeleton key={i} />)
+            : items.map((it, idx) => (
+                <NftCard
+                  key={it.id}
+                  item={it as any}
+                  onOpen={() => setOpen(it)}
+                  cartable
+                  priority={idx < 8}
+                  selected={selectedIds?.includes(it.id)}
+                  onSelect={onToggleSelect ? () => onToggleSelect(it) : undefined}
+                />
+              ))}
+
+          {loading && items.length > 0
+            ? Array.from({ length: 5 }).map((_, i) => (
+                <NftCardSkeleton key={`more-${i}`} />
+              ))
+            : null}
+        </div>
 
-      <div ref={sentinelRef} className="h-10" />
+        <div ref={sentinelRef} className="h-10" />
 
-      {done && items.length === 0 && !loading ? (
-        <div className="mt-10 text-center text-sm text-muted-foreground">
-          No items found.
-        </div>
-      ) : null}
+        {done && items.length === 0 && !loading ? (
+          <div className="mt-10 text-center text-sm text-muted-foreground">
+            No items found.
+          </div>
+        ) : null}
+      </div>
 
       <NftModal
         open={!!open}
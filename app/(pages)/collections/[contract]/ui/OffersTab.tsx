@@ -0,0 +1,91 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "@/src/ui/Button";
+import { useOfferActions, useOffers } from "@/src/lib/hooks/useOffers";
+import MakeOfferModal from "@/src/components/shared/nft/MakeOfferModal";
+import OfferList from "@/src/components/shared/nft/OfferList";
+import type { TraitFacet } from "./TraitSidebar";
+
+/** Collection-wide and trait offers. Holders accept them from the item page (NFTMarketPanel). */
+export default function OffersTab({ contract }: { contract: string }) {
+  const q = useOffers({ contract });
+  const { cancelOffer, account } = useOfferActions();
+  const [open, setOpen] = useState(false);
+
+  // trait pickers for trait offers come from the items API facets
+  const traitsQ = useQuery({
+    queryKey: ["collectionTraits", contract.toLowerCase()],
+    queryFn: async () => {
+      const res = await fetch(`/api/collections/${contract}/items?limit=1&facets=1`, { cache: "no-store" });
+      const json = (await res.json().catch(() => null)) as { facets?: TraitFacet[] } | null;
+      return (json?.facets ?? []).map((f) => ({ type: f.type, values: f.values.map((v) => v.value) }));
+    },
+    enabled: open,
+    staleTime: 5 * 60_000,
+  });
+
+  const { collection, trait } = useMemo(() => {
+    const rows = (q.data?.offers ?? []).filter((o) => o.status !== "ACCEPTED");
+    return {
+      collection: rows.filter((o) => o.kind === "COLLECTION"),
+      trait: rows.filter((o) => o.kind === "TRAIT"),
+    };
+  }, [q.data]);
+
+  const withdraw = async (offerId: string) => {
+    const tId = toast.loading("Cancelling offer…");
+    try {
+      await cancelOffer(offerId);
+      toast.success("Offer cancelled.", { id: tId });
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Cancel offer failed", { id: tId });
+    }
+  };
+
+  const actions = (o: { id: string; bidderAddress: string }) =>
+    account && account.toLowerCase() === o.bidderAddress.toLowerCase() ? (
+      <Button size="sm" variant="ghost" onClick={() => void withdraw(o.id)}>
+        Cancel
+      </Button>
+    ) : null;
+
+  return (
+    <div className="mt-6 space-y-8">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm text-muted-foreground">
+          Offers on any item or on items with a trait. Holders accept from the item page.
+        </div>
+        <Button onClick={() => (account ? setOpen(true) : toast.error("Wallet not connected."))}>Make offer</Button>
+      </div>
+
+      {q.isLoading ? (
+        <div className="mt-10 text-center text-sm text-muted-foreground">Loading…</div>
+      ) : (
+        <>
+          <div>
+            <div className="text-sm font-semibold">
+              Collection offers <span className="text-muted-foreground">• {collection.length}</span>
+            </div>
+            <div className="mt-3">
+              <OfferList offers={collection} account={account} actions={actions} empty="No collection offers." />
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-semibold">
+              Trait offers <span className="text-muted-foreground">• {trait.length}</span>
+            </div>
+            <div className="mt-3">
+              <OfferList offers={trait} account={account} actions={actions} empty="No trait offers." />
+            </div>
+          </div>
+        </>
+      )}
+
+      <MakeOfferModal open={open} onClose={() => setOpen(false)} contract={contract} traits={traitsQ.data} />
+    </div>
+  );
+}
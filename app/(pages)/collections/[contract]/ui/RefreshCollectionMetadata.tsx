@@ -0,0 +1,85 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+
+type RefreshState = {
+  indexStatus: "PENDING" | "QUEUED" | "INDEXING" | "COMPLETED" | "ERROR";
+  refresh: { total: number; processed: number; changed: number; failed: number; finishedAt: string | null } | null;
+};
+
+function cx(...cls: Array<string | false | null | undefined>) {
+  return cls.filter(Boolean).join(" ");
+}
+
+/** Owner action: re-read every token's metadata. Progress follows the collection's indexStatus. */
+export default function RefreshCollectionMetadata({ contract }: { contract: string }) {
+  const auth = useWalletAuth();
+  const router = useRouter();
+  const qc = useQueryClient();
+  const key = ["collectionRefresh", contract.toLowerCase()];
+
+  const q = useQuery({
+    queryKey: key,
+    queryFn: async () => {
+      const res = await fetch(`/api/collections/${contract}/refresh-metadata`, { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to load refresh status");
+      return (await res.json()) as RefreshState;
+    },
+    refetchInterval: (query) => {
+      const s = query.state.data?.indexStatus;
+      return s === "QUEUED" || s === "INDEXING" ? 5000 : false;
+    },
+  });
+
+  const running = q.data?.indexStatus === "QUEUED" || q.data?.indexStatus === "INDEXING";
+
+  // refetch server-rendered collection data once a run finishes
+  const wasRunning = React.useRef(false);
+  React.useEffect(() => {
+    if (wasRunning.current && !running) {
+      const r = q.data?.refresh;
+      if (r) toast.success(`Metadata refreshed: ${r.changed} changed, ${r.failed} failed.`);
+      router.refresh();
+    }
+    wasRunning.current = running;
+  }, [running, q.data, router]);
+
+  const start = async () => {
+    const tId = toast.loading("Queueing refresh…");
+    try {
+      await auth.ensureSignedIn();
+      const res = await fetch(`/api/collections/${contract}/refresh-metadata`, { method: "POST" });
+      const json = (await res.json().catch(() => null)) as (RefreshState & { error?: string }) | null;
+      if (!res.ok) throw new Error(json?.error || "Could not start refresh");
+      qc.setQueryData(key, { indexStatus: json!.indexStatus, refresh: json!.refresh });
+      toast.success("Refresh queued.", { id: tId });
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Could not start refresh", { id: tId });
+    }
+  };
+
+  const r = q.data?.refresh;
+  const label = running
+    ? r && !r.finishedAt && r.total
+      ? `Refreshing ${Math.min(r.processed, r.total)}/${r.total}`
+      : "Indexing…"
+    : "Refresh metadata";
+
+  return (
+    <button
+      type="button"
+      onClick={() => void start()}
+      disabled={running || q.isLoading}
+      className={cx(
+        "inline-flex h-10 items-center gap-2 rounded-full border border-border bg-card px-4 text-sm font-semibold text-foreground",
+        "hover:bg-background/60 active:scale-[0.99] disabled:cursor-not-allowed disabled:opacity-60"
+      )}
+    >
+      {label}
+    </button>
+  );
+}
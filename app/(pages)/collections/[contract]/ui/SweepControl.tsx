@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { useActiveAccount } from "thirdweb/react";
+import { useDecentWalletAccount } from "@/src/lib/decentWallet";
+import { CART_MAX, useCart, type CartListingDTO } from "@/src/lib/hooks/useCart";
+import { Button } from "@/src/ui/Button";
+import { Input } from "@/src/ui/Input";
+import type { CurrencyOption } from "@/src/components/shared/nft/CurrencySelector";
+
+const NATIVE: CurrencyOption = { id: "native", symbol: "ETN", decimals: 18, kind: "NATIVE", tokenAddress: null };
+const SWEEP_MAX = 50;
+
+/**
+ * "Sweep floor": fills the cart with the N cheapest live listings in one currency,
+ * stopping early when the next one would go over the budget. The buyer's own listings
+ * are skipped.
+ */
+export default function SweepControl({ contract, disabled }: { contract: string; disabled?: boolean }) {
+  const cart = useCart();
+  const dw = useDecentWalletAccount();
+  const third = useActiveAccount();
+  const account = dw.isDecentWallet ? dw.address ?? null : third?.address ?? null;
+
+  const [open, setOpen] = useState(false);
+  const [count, setCount] = useState("5");
+  const [budget, setBudget] = useState("");
+  const [currencyId, setCurrencyId] = useState("native");
+  const [currencies, setCurrencies] = useState<CurrencyOption[]>([NATIVE]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let ok = true;
+    fetch("/api/currencies", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j: { currencies?: CurrencyOption[] }) => {
+        if (ok && Array.isArray(j?.currencies)) setCurrencies([NATIVE, ...j.currencies.filter((c) => c.id !== "native")]);
+      })
+      .catch(() => null);
+    return () => {
+      ok = false;
+    };
+  }, [open]);
+
+  const currency = useMemo(() => currencies.find((c) => c.id === currencyId) ?? NATIVE, [currencies, currencyId]);
+
+  const sweep = async () => {
+    const n = Number(count);
+    if (!Number.isInteger(n) || n < 1 || n > SWEEP_MAX) {
+      toast.error(`Pick between 1 and ${SWEEP_MAX} items.`);
+      return;
+    }
+    let budgetBase: string | null = null;
+    if (budget.trim()) {
+      try {
+        budgetBase = ethers.parseUnits(budget.trim(), currency.decimals).toString();
+      } catch {
+        toast.error("Invalid budget.");
+        return;
+      }
+    }
+
+    setBusy(true);
+    try {
+      const qs = new URLSearchParams({ currency: currency.id, count: String(n) });
+      if (budgetBase) qs.set("budget", budgetBase);
+      if (account) qs.set("buyer", account);
+      const res = await fetch(`/api/collections/${contract}/sweep?${qs.toString()}`, { cache: "no-store" });
+      const j = (await res.json().catch(() => null)) as
+        | { listings?: CartListingDTO[]; total?: string; error?: string }
+        | null;
+      if (!res.ok || !j?.listings) throw new Error(j?.error || "Sweep failed");
+      if (!j.listings.length) {
+        toast.info("No listings fit that sweep.");
+        return;
+      }
+
+      const already = j.listings.filter((l) => cart.hasNft(l.nftId)).length;
+      const added = cart.add(j.listings);
+      const total = Number(ethers.formatUnits(j.total ?? "0", currency.decimals)).toLocaleString(undefined, {
+        maximumFractionDigits: 6,
+      });
+      toast.success(`${j.listings.length} item${j.listings.length === 1 ? "" : "s"} (${total} ${currency.symbol}) in cart.`);
+      if (added + already < j.listings.length) toast.info(`The cart holds up to ${CART_MAX} items.`);
+      setOpen(false);
+      cart.setOpen(true);
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} disabled={disabled}>
+        Sweep
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-2xl border border-border bg-card p-2">
+      <span className="px-1 text-sm font-medium">Sweep floor</span>
+      <Input
+        type="number"
+        min={1}
+        max={SWEEP_MAX}
+        value={count}
+        onChange={(e) => setCount(e.target.value)}
+        className="h-9 w-20"
+        aria-label="Items"
+      />
+      <Input
+        inputMode="decimal"
+        placeholder="Max budget"
+        value={budget}
+        onChange={(e) => setBudget(e.target.value)}
+        className="h-9 w-32"
+        aria-label="Budget"
+      />
+      <select
+        value={currencyId}
+        onChange={(e) => setCurrencyId(e.target.value)}
+        className="h-9 rounded-2xl border border-border bg-card px-3 text-sm"
+        aria-label="Currency"
+      >
+        {currencies.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.symbol}
+          </option>
+        ))}
+      </select>
+      <Button size="sm" onClick={sweep} loading={busy}>
+        Add to cart
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => setOpen(false)} disabled={busy}>
+        Cancel
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+
+export type TraitFacet = {
+  type: string;
+  values: { value: string; count: number; total: number; frequency: number }[];
+};
+
+export type TraitSelection = Record<string, string[]>;
+
+/** Trait filters: AND across types, OR within a type. Counts follow the current filter. */
+export default function TraitSidebar({
+  facets,
+  selected,
+  onChange,
+  disabled,
+}: {
+  facets: TraitFacet[];
+  selected: TraitSelection;
+  onChange: (next: TraitSelection) => void;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState<Record<string, boolean>>({});
+  const activeCount = Object.values(selected).reduce((n, v) => n + v.length, 0);
+
+  const toggle = (type: string, value: string) => {
+    const cur = selected[type] ?? [];
+    const nextVals = cur.includes(value) ? cur.filter((v) => v !== value) : [...cur, value];
+    const next = { ...selected };
+    if (nextVals.length) next[type] = nextVals;
+    else delete next[type];
+    onChange(next);
+  };
+
+  return (
+    <aside className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold">Traits</div>
+        {activeCount ? (
+          <button
+            type="button"
+            className="text-xs underline opacity-80 hover:opacity-100"
+            onClick={() => onChange({})}
+            disabled={disabled}
+          >
+            Clear ({activeCount})
+          </button>
+        ) : null}
+      </div>
+
+      {facets.map((f) => {
+        const isOpen = open[f.type] ?? !!selected[f.type];
+        const picked = selected[f.type]?.length ?? 0;
+        return (
+          <div key={f.type} className="rounded-2xl border border-border bg-card">
+            <button
+              type="button"
+              className="flex w-full items-center justify-between px-3 py-2 text-sm"
+              onClick={() => setOpen((o) => ({ ...o, [f.type]: !isOpen }))}
+              aria-expanded={isOpen}
+            >
+              <span className="truncate font-medium">{f.type}</span>
+              <span className="text-xs text-muted-foreground">
+                {picked ? `${picked} · ` : ""}
+                {f.values.length}
+              </span>
+            </button>
+
+            {isOpen ? (
+              <div className="max-h-64 space-y-0.5 overflow-auto px-2 pb-2">
+                {f.values.map((v) => {
+                  const checked = !!selected[f.type]?.includes(v.value);
+                  return (
+                    <label
+                      key={v.value}
+                      className={[
+                        "flex cursor-pointer items-center justify-between gap-2 rounded-xl px-2 py-1.5 text-sm hover:bg-background/60",
+                        !checked && v.count === 0 ? "opacity-50" : "",
+                      ].join(" ")}
+                    >
+                      <span className="flex min-w-0 items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          onChange={() => toggle(f.type, v.value)}
+                          disabled={disabled}
+                        />
+                        <span className="truncate">{v.value}</span>
+                      </span>
+                      <span className="shrink-0 text-xs text-muted-foreground" title={`${(v.frequency * 100).toFixed(2)}% of collection`}>
+                        {v.count}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+    </aside>
+  );
+}
@@ -0,0 +1,13 @@
+// app/create/page.tsx
+import type { Metadata } from "next";
+import CreateWizard from "./ui/CreateWizard";
+
+export const metadata: Metadata = {
+  title: "Create • Panthart",
+  description: "Deploy an ERC721 drop, a 1/1 or an ERC1155 edition on Electroneum EVM.",
+  alternates: { canonical: "/create" },
+};
+
+export default function CreatePage() {
+  return <CreateWizard />;
+}
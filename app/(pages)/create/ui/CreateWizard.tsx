@@ -0,0 +1,625 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { Container } from "@/src/ui/Container";
+import { Button } from "@/src/ui/Button";
+import { Input } from "@/src/ui/Input";
+import { Label } from "@/src/ui/Label";
+import { Textarea } from "@/src/ui/Textarea";
+import {
+  useLaunchpad,
+  type AllowlistBuild,
+  type ContractTypeLabel,
+  type MetadataOptionLabel,
+} from "@/src/lib/hooks/useLaunchpad";
+import { uploadImage, validateFile } from "@/app/(pages)/collections/[contract]/ui/EditCollectionSheet";
+
+const TYPES: { value: ContractTypeLabel; title: string; blurb: string }[] = [
+  { value: "ERC721_DROP", title: "Collection drop", blurb: "ERC721 with a public sale; collectors mint from your drop page." },
+  { value: "ERC721_SINGLE", title: "1 of 1", blurb: "A single ERC721 token minted to you on deploy." },
+  { value: "ERC1155_SINGLE", title: "Edition", blurb: "One ERC1155 artwork minted in many copies at a fixed price." },
+];
+
+const STEPS = ["Type", "Assets", "Details", "Royalties", "Deploy"] as const;
+const MAX_ROYALTY_PCT = 10;
+
+type Trait = { trait_type: string; value: string };
+
+function cx(...cls: Array<string | false | null | undefined>) {
+  return cls.filter(Boolean).join(" ");
+}
+
+function toLocalInput(d: Date) {
+  const off = d.getTimezoneOffset() * 60_000;
+  return new Date(d.getTime() - off).toISOString().slice(0, 16);
+}
+
+/** Creator wizard: type → assets (upload or external URI) → details → royalties → fee + deploy. */
+export default function CreateWizard() {
+  const { fees, uploadSingle, uploadDrop, buildAllowlist, deploy, account } = useLaunchpad();
+
+  const [step, setStep] = React.useState(0);
+  const [type, setType] = React.useState<ContractTypeLabel>("ERC721_DROP");
+  const [option, setOption] = React.useState<MetadataOptionLabel>("UPLOAD");
+
+  // assets
+  const [files, setFiles] = React.useState<File[]>([]);
+  const [traits, setTraits] = React.useState<Trait[]>([]);
+  const [externalUri, setExternalUri] = React.useState("");
+
+  // details
+  const [name, setName] = React.useState("");
+  const [symbol, setSymbol] = React.useState("");
+  const [description, setDescription] = React.useState("");
+  const [logoUrl, setLogoUrl] = React.useState<string | null>(null);
+  const [coverUrl, setCoverUrl] = React.useState<string | null>(null);
+  const [maxSupply, setMaxSupply] = React.useState("");
+  const [price, setPrice] = React.useState("0");
+  const [maxPerWallet, setMaxPerWallet] = React.useState("5");
+  const [maxPerTx, setMaxPerTx] = React.useState("5");
+  const [start, setStart] = React.useState(() => toLocalInput(new Date(Date.now() + 60 * 60_000)));
+
+  // presale (drops only)
+  const [presaleOn, setPresaleOn] = React.useState(false);
+  const [csv, setCsv] = React.useState("");
+  const [allowlist, setAllowlist] = React.useState<AllowlistBuild | null>(null);
+  const [building, setBuilding] = React.useState(false);
+  const [preStart, setPreStart] = React.useState(() => toLocalInput(new Date(Date.now() + 30 * 60_000)));
+  const [preEnd, setPreEnd] = React.useState(() => toLocalInput(new Date(Date.now() + 60 * 60_000)));
+  const [prePrice, setPrePrice] = React.useState("0");
+  const [preMaxSupply, setPreMaxSupply] = React.useState("");
+
+  // royalties
+  const [royaltyRecipient, setRoyaltyRecipient] = React.useState("");
+  const [royaltyPct, setRoyaltyPct] = React.useState("5");
+
+  const [busy, setBusy] = React.useState(false);
+  const [deployed, setDeployed] = React.useState<{ cloneAddress: string; contractType: ContractTypeLabel } | null>(null);
+
+  React.useEffect(() => {
+    if (account && !royaltyRecipient) setRoyaltyRecipient(account);
+  }, [account, royaltyRecipient]);
+
+  const isDrop = type === "ERC721_DROP";
+  const isSingle = type === "ERC721_SINGLE";
+  const fee = fees.data?.fees.find((f) => f.contractType === type && f.metadataOption === option) ?? null;
+
+  const stepError = (i: number): string | null => {
+    if (i === 1) {
+      if (option === "EXTERNAL") {
+        if (!/^(ipfs|ar|https?):\/\//i.test(externalUri.trim())) return "Enter an ipfs://, ar:// or https:// URI.";
+      } else if (!files.length) {
+        return isDrop ? "Add your token media (one file per token)." : "Add the artwork file.";
+      }
+    }
+    if (i === 2) {
+      if (!name.trim() || !symbol.trim()) return "Name and symbol are required.";
+      if (!isSingle) {
+        const supply = Number(maxSupply || (isDrop && option === "UPLOAD" ? files.length : 0));
+        if (!Number.isInteger(supply) || supply <= 0) return "Enter a max supply.";
+        if (isDrop && option === "UPLOAD" && supply !== files.length) return "Max supply must match the number of files.";
+        try {
+          ethers.parseEther(price || "0");
+        } catch {
+          return "Enter a valid price.";
+        }
+        if (!(Number(maxPerWallet) > 0)) return "Max per wallet must be at least 1.";
+        if (isDrop && !(Number(maxPerTx) > 0)) return "Max per transaction must be at least 1.";
+        if (isDrop && presaleOn) {
+          if (!allowlist) return "Build the presale allowlist from your CSV.";
+          if (!(new Date(preStart) < new Date(preEnd))) return "Presale must end after it starts.";
+          try {
+            ethers.parseEther(prePrice || "0");
+          } catch {
+            return "Enter a valid presale price.";
+          }
+          const preSupply = Number(preMaxSupply);
+          if (!Number.isInteger(preSupply) || preSupply <= 0 || preSupply > supply) {
+            return "Presale supply must be between 1 and the max supply.";
+          }
+        }
+      }
+    }
+    if (i === 3) {
+      if (!ethers.isAddress(royaltyRecipient)) return "Enter a valid royalty recipient.";
+      const pct = Number(royaltyPct);
+      if (!(pct >= 0 && pct <= MAX_ROYALTY_PCT)) return `Royalties must be between 0 and ${MAX_ROYALTY_PCT}%.`;
+    }
+    return null;
+  };
+
+  const next = () => {
+    const err = stepError(step);
+    if (err) return toast.error(err);
+    setStep((s) => Math.min(STEPS.length - 1, s + 1));
+  };
+
+  const onImage = async (set: (u: string) => void, file?: File | null) => {
+    if (!file) return;
+    const problem = validateFile(file);
+    if (problem) return toast.error(problem);
+    const tId = toast.loading("Uploading…");
+    try {
+      set(await uploadImage(file));
+      toast.success("Uploaded.", { id: tId });
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Upload failed", { id: tId });
+    }
+  };
+
+  const onCsvFile = async (file?: File | null) => {
+    if (!file) return;
+    setCsv(await file.text());
+    setAllowlist(null);
+  };
+
+  const onBuildAllowlist = async () => {
+    if (!csv.trim()) return toast.error("Paste or upload a CSV first.");
+    setBuilding(true);
+    try {
+      const r = await buildAllowlist(csv);
+      setAllowlist(r);
+      toast.success(`Allowlist built: ${r.draft.count} address${r.draft.count === 1 ? "" : "es"}.`);
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Could not build the allowlist");
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  const onDeploy = async () => {
+    for (let i = 1; i <= 3; i++) {
+      const err = stepError(i);
+      if (err) return toast.error(err);
+    }
+    setBusy(true);
+    const tId = toast.loading(option === "UPLOAD" ? "Pinning assets to IPFS…" : "Deploying…");
+    try {
+      let uri = externalUri.trim();
+      let imageUrl: string | null = null;
+      let uploadIds: string[] = [];
+      if (option === "UPLOAD") {
+        if (isDrop) {
+          const r = await uploadDrop({ files, name: name.trim(), description: description.trim() });
+          uri = r.baseUri;
+          imageUrl = r.imageUrl;
+          uploadIds = r.uploadIds;
+        } else {
+          const r = await uploadSingle({
+            file: files[0],
+            name: name.trim(),
+            description: description.trim(),
+            attributes: traits.filter((t) => t.trait_type.trim() && t.value.trim()),
+          });
+          uri = r.tokenUri;
+          imageUrl = r.imageUrl;
+          uploadIds = r.uploadIds;
+        }
+      }
+
+      toast.loading("Confirm the deployment in your wallet…", { id: tId });
+      const r = await deploy({
+        contractType: type,
+        metadataOption: option,
+        name: name.trim(),
+        symbol: symbol.trim(),
+        uri,
+        royaltyRecipient,
+        royaltyBps: Math.round(Number(royaltyPct) * 100),
+        maxSupply: Number(maxSupply || files.length || 0),
+        publicSale: isDrop
+          ? { start: new Date(start), priceEtn: price, maxPerWallet: Number(maxPerWallet), maxPerTx: Number(maxPerTx) }
+          : undefined,
+        presale:
+          isDrop && presaleOn && allowlist
+            ? {
+                draftId: allowlist.draft.id,
+                start: new Date(preStart),
+                end: new Date(preEnd),
+                priceEtn: prePrice,
+                maxSupply: Number(preMaxSupply),
+              }
+            : undefined,
+        mintPriceEtn: price,
+        maxPerWallet: Number(maxPerWallet),
+        description: description.trim() || undefined,
+        logoUrl,
+        coverUrl,
+        imageUrl,
+        uploadIds,
+      });
+      setDeployed(r);
+      toast.success("Deployed!", { id: tId });
+      if (r.presaleWarning) toast.error(`Presale allowlist was not attached: ${r.presaleWarning}`);
+    } catch (e: unknown) {
+      toast.error((e as { shortMessage?: string })?.shortMessage || (e as Error)?.message || "Deployment failed", { id: tId });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (deployed) {
+    return (
+      <Container className="py-10">
+        <div className="mx-auto max-w-xl space-y-4 rounded-2xl border border-border bg-card p-6 text-center">
+          <h1 className="text-2xl font-bold">Your contract is live</h1>
+          <div className="break-all font-mono text-sm text-muted-foreground">{deployed.cloneAddress}</div>
+          <div className="flex justify-center gap-2">
+            {deployed.contractType !== "ERC721_SINGLE" ? (
+              <Link href={`/mint/${deployed.cloneAddress}`}>
+                <Button>Open mint page</Button>
+              </Link>
+            ) : null}
+            {deployed.contractType === "ERC721_DROP" ? (
+              <Link href={`/collections/${deployed.cloneAddress}`}>
+                <Button variant="outline">View collection</Button>
+              </Link>
+            ) : (
+              <Link href={`/profile/${account ?? ""}`}>
+                <Button>View profile</Button>
+              </Link>
+            )}
+          </div>
+        </div>
+      </Container>
+    );
+  }
+
+  return (
+    <Container className="py-10">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Create</h1>
+          <div className="mt-3 flex flex-wrap gap-2 text-xs">
+            {STEPS.map((s, i) => (
+              <span
+                key={s}
+                className={cx(
+                  "rounded-full border px-3 py-1",
+                  i === step ? "border-emerald-400/60 text-foreground" : "border-border text-muted-foreground"
+                )}
+              >
+                {i + 1}. {s}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-4 rounded-2xl border border-border bg-card p-5">
+          {step === 0 ? (
+            <div className="grid gap-3">
+              {TYPES.map((t) => (
+                <button
+                  key={t.value}
+                  type="button"
+                  onClick={() => setType(t.value)}
+                  className={cx(
+                    "rounded-2xl border p-4 text-left",
+                    type === t.value ? "border-emerald-400/60 bg-background/60" : "border-border hover:bg-background/40"
+                  )}
+                >
+                  <div className="font-semibold">{t.title}</div>
+                  <div className="text-sm text-muted-foreground">{t.blurb}</div>
+                </button>
+              ))}
+            </div>
+          ) : null}
+
+          {step === 1 ? (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                {(["UPLOAD", "EXTERNAL"] as const).map((o) => (
+                  <Button key={o} size="sm" variant={option === o ? "primary" : "outline"} onClick={() => setOption(o)}>
+                    {o === "UPLOAD" ? "Upload assets" : "External metadata URI"}
+                  </Button>
+                ))}
+              </div>
+
+              {option === "EXTERNAL" ? (
+                <div className="space-y-1">
+                  <Label htmlFor="uri">{isSingle ? "Token URI" : "Base URI"}</Label>
+                  <Input
+                    id="uri"
+                    placeholder={isSingle ? "ipfs://…/metadata.json" : "ipfs://…/"}
+                    value={externalUri}
+                    onChange={(e) => setExternalUri(e.target.value)}
+                  />
+                  <div className="text-xs text-muted-foreground">
+                    {isDrop
+                      ? "Token metadata is read from <base URI><tokenId>."
+                      : type === "ERC1155_SINGLE"
+                        ? "May contain {id}; it is replaced with the token id."
+                        : "Points at the token's metadata JSON."}
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="space-y-1">
+                    <Label>{isDrop ? "Token media (token 1 = first file)" : "Artwork"}</Label>
+                    <Input
+                      type="file"
+                      multiple={isDrop}
+                      onChange={(e) => {
+                        const list = Array.from(e.target.files ?? []);
+                        setFiles(isDrop ? list.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true })) : list.slice(0, 1));
+                        if (isDrop) setMaxSupply(String(list.length));
+                      }}
+                    />
+                    {files.length ? (
+                      <div className="text-xs text-muted-foreground">
+                        {files.length} file{files.length === 1 ? "" : "s"} selected
+                      </div>
+                    ) : null}
+                  </div>
+
+                  {!isDrop ? (
+                    <div className="space-y-2">
+                      <Label>Traits</Label>
+                      {traits.map((t, i) => (
+                        <div key={i} className="flex gap-2">
+                          <Input
+                            placeholder="Type"
+                            value={t.trait_type}
+                            onChange={(e) =>
+                              setTraits((ts) => ts.map((x, j) => (j === i ? { ...x, trait_type: e.target.value } : x)))
+                            }
+                          />
+                          <Input
+                            placeholder="Value"
+                            value={t.value}
+                            onChange={(e) => setTraits((ts) => ts.map((x, j) => (j === i ? { ...x, value: e.target.value } : x)))}
+                          />
+                          <Button variant="ghost" onClick={() => setTraits((ts) => ts.filter((_, j) => j !== i))}>
+                            ✕
+                          </Button>
+                        </div>
+                      ))}
+                      <Button size="sm" variant="outline" onClick={() => setTraits((ts) => [...ts, { trait_type: "", value: "" }])}>
+                        Add trait
+                      </Button>
+                    </div>
+                  ) : null}
+                </div>
+              )}
+            </div>
+          ) : null}
+
+          {step === 2 ? (
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="name">Name</Label>
+                  <Input id="name" maxLength={100} value={name} onChange={(e) => setName(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="symbol">Symbol</Label>
+                  <Input id="symbol" maxLength={12} value={symbol} onChange={(e) => setSymbol(e.target.value.toUpperCase())} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="description">Description</Label>
+                <Textarea id="description" maxLength={2000} value={description} onChange={(e) => setDescription(e.target.value)} />
+              </div>
+
+              {isDrop ? (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-1">
+                    <Label>Logo</Label>
+                    <Input type="file" accept="image/*" onChange={(e) => void onImage(setLogoUrl, e.target.files?.[0])} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Cover</Label>
+                    <Input type="file" accept="image/*" onChange={(e) => void onImage(setCoverUrl, e.target.files?.[0])} />
+                  </div>
+                </div>
+              ) : null}
+
+              {!isSingle ? (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="supply">Max supply</Label>
+                    <Input
+                      id="supply"
+                      inputMode="numeric"
+                      value={maxSupply}
+                      onChange={(e) => setMaxSupply(e.target.value.replace(/\D/g, ""))}
+                      disabled={isDrop && option === "UPLOAD"}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="price">Mint price (ETN)</Label>
+                    <Input id="price" inputMode="decimal" value={price} onChange={(e) => setPrice(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="mpw">Max per wallet</Label>
+                    <Input
+                      id="mpw"
+                      inputMode="numeric"
+                      value={maxPerWallet}
+                      onChange={(e) => setMaxPerWallet(e.target.value.replace(/\D/g, ""))}
+                    />
+                  </div>
+                  {isDrop ? (
+                    <>
+                      <div className="space-y-1">
+                        <Label htmlFor="mpt">Max per transaction</Label>
+                        <Input
+                          id="mpt"
+                          inputMode="numeric"
+                          value={maxPerTx}
+                          onChange={(e) => setMaxPerTx(e.target.value.replace(/\D/g, ""))}
+                        />
+                      </div>
+                      <div className="space-y-1 sm:col-span-2">
+                        <Label htmlFor="start">Public sale starts</Label>
+                        <Input id="start" type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} />
+                      </div>
+                    </>
+                  ) : null}
+                </div>
+              ) : null}
+
+              {isDrop ? (
+                <div className="space-y-3 rounded-2xl border border-border p-4">
+                  <label className="flex items-center gap-2 text-sm font-medium">
+                    <input type="checkbox" checked={presaleOn} onChange={(e) => setPresaleOn(e.target.checked)} />
+                    Allowlist presale
+                  </label>
+
+                  {presaleOn ? (
+                    <>
+                      <div className="space-y-1">
+                        <Label htmlFor="csv">Allowlist CSV (address, optional allocation)</Label>
+                        <Input type="file" accept=".csv,text/csv,text/plain" onChange={(e) => void onCsvFile(e.target.files?.[0])} />
+                        <Textarea
+                          id="csv"
+                          rows={5}
+                          placeholder={"address,allocation\n0x…,2"}
+                          value={csv}
+                          onChange={(e) => {
+                            setCsv(e.target.value);
+                            setAllowlist(null);
+                          }}
+                        />
+                        <Button size="sm" variant="outline" loading={building} onClick={() => void onBuildAllowlist()}>
+                          Build allowlist
+                        </Button>
+                      </div>
+
+                      {allowlist ? (
+                        <div className="space-y-2 rounded-xl bg-background/60 p-3 text-xs">
+                          <div>
+                            <span className="text-muted-foreground">Addresses:</span> {allowlist.draft.count}
+                            {allowlist.duplicates ? ` (${allowlist.duplicates} duplicate rows merged)` : ""}
+                            {allowlist.draft.allocated ? ` · ${allowlist.draft.allocated} with an allocation` : ""}
+                          </div>
+                          <div className="break-all">
+                            <span className="text-muted-foreground">Merkle root:</span>{" "}
+                            <span className="font-mono">{allowlist.draft.merkleRoot}</span>
+                          </div>
+                          {allowlist.invalidCount ? (
+                            <div className="text-amber-500">
+                              {allowlist.invalidCount} row{allowlist.invalidCount === 1 ? "" : "s"} skipped:
+                              <ul className="mt-1 list-disc pl-4">
+                                {allowlist.invalid.slice(0, 10).map((r) => (
+                                  <li key={r.line}>
+                                    line {r.line}: {r.reason} ({r.value})
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          ) : null}
+                          <div className="max-h-40 overflow-auto font-mono">
+                            {allowlist.draft.entries.map((e) => (
+                              <div key={e.address}>
+                                {e.address}
+                                {e.maxAllocation !== null ? ` · ${e.maxAllocation}` : ""}
+                              </div>
+                            ))}
+                            {allowlist.draft.count > allowlist.draft.entries.length ? (
+                              <div className="text-muted-foreground">
+                                …and {allowlist.draft.count - allowlist.draft.entries.length} more
+                              </div>
+                            ) : null}
+                          </div>
+                        </div>
+                      ) : null}
+
+                      <div className="grid gap-4 sm:grid-cols-2">
+                        <div className="space-y-1">
+                          <Label htmlFor="preStart">Presale starts</Label>
+                          <Input id="preStart" type="datetime-local" value={preStart} onChange={(e) => setPreStart(e.target.value)} />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="preEnd">Presale ends</Label>
+                          <Input id="preEnd" type="datetime-local" value={preEnd} onChange={(e) => setPreEnd(e.target.value)} />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="prePrice">Presale price (ETN)</Label>
+                          <Input id="prePrice" inputMode="decimal" value={prePrice} onChange={(e) => setPrePrice(e.target.value)} />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="preSupply">Presale supply</Label>
+                          <Input
+                            id="preSupply"
+                            inputMode="numeric"
+                            value={preMaxSupply}
+                            onChange={(e) => setPreMaxSupply(e.target.value.replace(/\D/g, ""))}
+                          />
+                        </div>
+                      </div>
+                    </>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
+          {step === 3 ? (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1 sm:col-span-2">
+                <Label htmlFor="rr">Royalty recipient</Label>
+                <Input id="rr" value={royaltyRecipient} onChange={(e) => setRoyaltyRecipient(e.target.value.trim())} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rp">Royalty (%)</Label>
+                <Input id="rp" inputMode="decimal" value={royaltyPct} onChange={(e) => setRoyaltyPct(e.target.value)} />
+              </div>
+            </div>
+          ) : null}
+
+          {step === 4 ? (
+            <div className="space-y-2 text-sm">
+              <div>
+                <span className="text-muted-foreground">Type:</span> {TYPES.find((t) => t.value === type)?.title}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Name:</span> {name} ({symbol})
+              </div>
+              <div>
+                <span className="text-muted-foreground">Metadata:</span>{" "}
+                {option === "UPLOAD" ? `${files.length} file(s) pinned to IPFS on deploy` : externalUri}
+              </div>
+              {!isSingle ? (
+                <div>
+                  <span className="text-muted-foreground">Supply / price:</span> {maxSupply || files.length} · {price || "0"} ETN
+                </div>
+              ) : null}
+              {isDrop && presaleOn && allowlist ? (
+                <div>
+                  <span className="text-muted-foreground">Presale:</span> {allowlist.draft.count} allowlisted ·{" "}
+                  {preMaxSupply} at {prePrice || "0"} ETN
+                </div>
+              ) : null}
+              <div>
+                <span className="text-muted-foreground">Royalty:</span> {royaltyPct}% → {royaltyRecipient}
+              </div>
+              <div className="rounded-2xl border border-border p-3">
+                Deployment fee:{" "}
+                <span className="font-semibold">
+                  {fee ? `${ethers.formatEther(fee.feeAmountWei)} ETN` : fees.isLoading ? "…" : "not configured"}
+                </span>
+              </div>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="flex justify-between gap-2">
+          <Button variant="outline" onClick={() => setStep((s) => Math.max(0, s - 1))} disabled={step === 0 || busy}>
+            Back
+          </Button>
+          {step < STEPS.length - 1 ? (
+            <Button onClick={next}>Continue</Button>
+          ) : (
+            <Button onClick={() => void onDeploy()} loading={busy} disabled={!fee || !account}>
+              {account ? "Pay fee & deploy" : "Connect wallet"}
+            </Button>
+          )}
+        </div>
+      </div>
+    </Container>
+  );
+}
@@ -0,0 +1,13 @@
+// app/featured/page.tsx
+import type { Metadata } from "next";
+import FeaturedClient from "./ui/FeaturedClient";
+
+export const metadata: Metadata = {
+  title: "Featured auction • Panthart",
+  description: "Bid ETN to feature your collection on the Panthart home page.",
+  alternates: { canonical: "/featured" },
+};
+
+export default function FeaturedPage() {
+  return <FeaturedClient />;
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { Container } from "@/src/ui/Container";
+import { Button } from "@/src/ui/Button";
+import { Input } from "@/src/ui/Input";
+import { Label } from "@/src/ui/Label";
+import { Skeleton } from "@/src/ui/Skeleton";
+import { useFeaturedAuction } from "@/src/lib/hooks/useFeaturedAuction";
+import type { FeaturedPhase } from "@/src/lib/server/featured";
+
+const PHASE_LABEL: Record<FeaturedPhase, string> = {
+  upcoming: "Upcoming",
+  live: "Bidding open",
+  ended: "Awaiting finalization",
+  finalized: "Finalized",
+};
+
+function useNow(intervalMs = 1000) {
+  const [now, setNow] = React.useState(() => Date.now());
+  React.useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(t);
+  }, [intervalMs]);
+  return now;
+}
+
+function formatCountdown(ms: number) {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  const d = Math.floor(s / 86400);
+  const h = Math.floor((s % 86400) / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = s % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return d > 0 ? `${d}d ${pad(h)}h ${pad(m)}m` : `${pad(h)}:${pad(m)}:${pad(sec)}`;
+}
+
+const etn = (wei: string) => {
+  const v = Number(ethers.formatEther(wei));
+  return `${v.toLocaleString(undefined, { maximumFractionDigits: 4 })} ETN`;
+};
+
+const short = (a: string) => `${a.slice(0, 6)}…${a.slice(-4)}`;
+
+/** ETN amount typed by the user → wei string, or null when it isn't a positive number. */
+function toWei(v: string) {
+  try {
+    const wei = ethers.parseEther(v.trim() || "0");
+    return wei > BigInt(0) ? wei.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+const errMessage = (e: unknown, fallback: string) =>
+  (e as { shortMessage?: string })?.shortMessage || (e as Error)?.message || fallback;
+
+export default function FeaturedClient() {
+  const now = useNow();
+  const { account, state, placeBid, increaseBid, claimRefund, finalize } = useFeaturedAuction();
+  const data = state.data;
+  const cycle = data?.cycle ?? null;
+  const me = data?.me ?? null;
+
+  const [collection, setCollection] = React.useState("");
+  const [amount, setAmount] = React.useState("");
+  const [busy, setBusy] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!collection && me?.collections.length) setCollection(me.collections[0].contract);
+  }, [collection, me?.collections]);
+
+  const run = async (key: string, pending: string, done: string, fn: () => Promise<unknown>) => {
+    setBusy(key);
+    const tId = toast.loading(pending);
+    try {
+      await fn();
+      toast.success(done, { id: tId });
+    } catch (e: unknown) {
+      toast.error(errMessage(e, "Transaction failed"), { id: tId });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (state.isLoading) {
+    return (
+      <Container className="py-10 space-y-4">
+        <Skeleton className="h-10 w-64 rounded-2xl" />
+        <Skeleton className="h-48 w-full rounded-3xl" />
+      </Container>
+    );
+  }
+
+  if (state.isError || !data) {
+    return (
+      <Container className="py-10">
+        <h1 className="text-2xl font-bold">Featured auction</h1>
+        <div className="mt-4 text-sm text-muted">{(state.error as Error)?.message || "Featured auction is unavailable."}</div>
+      </Container>
+    );
+  }
+
+  const amountWei = toWei(amount);
+  const leaderWei = cycle?.leader?.amountWei ?? "0";
+  const myTotal = me?.bid?.totalWei ?? "0";
+  // placeBid sends the whole bid, increaseBid only the top-up
+  const newTotal = amountWei ? (BigInt(myTotal) + BigInt(amountWei)).toString() : null;
+  const belowMin = !me?.bid && !!amountWei && !!cycle && BigInt(amountWei) < BigInt(cycle.minBidWei);
+  const notLeading =
+    !!newTotal && !!cycle?.leader && cycle.leader.address !== me?.address && BigInt(newTotal) <= BigInt(leaderWei);
+
+  const canBid =
+    !!account && cycle?.phase === "live" && !!amountWei && !belowMin && !notLeading && (!!me?.bid || !!collection);
+
+  const onBid = () => {
+    if (!cycle || !amountWei) return;
+    if (me?.bid) {
+      void run("bid", "Confirm the top-up in your wallet…", "Bid increased", async () => {
+        await increaseBid({ cycleId: cycle.cycleId, addWei: amountWei });
+        setAmount("");
+      });
+    } else {
+      void run("bid", "Confirm the bid in your wallet…", "Bid placed", async () => {
+        await placeBid({ cycleId: cycle.cycleId, collection, amountWei });
+        setAmount("");
+      });
+    }
+  };
+
+  const countdown =
+    cycle?.phase === "upcoming"
+      ? { label: "Bidding opens in", at: Date.parse(cycle.startISO) }
+      : cycle?.phase === "live"
+        ? { label: "Bidding closes in", at: Date.parse(cycle.endISO) }
+        : null;
+
+  const winnerRow = cycle?.winner?.collection
+    ? data.leaderboard.find((b) => b.collection.contract.toLowerCase() === cycle.winner!.collection!.toLowerCase())
+    : null;
+
+  return (
+    <div className="page-enter">
+      <Container className="py-10">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <div className="text-xs font-semibold text-muted">Home page spotlight</div>
+            <h1 className="mt-1 text-2xl font-bold sm:text-3xl">Featured auction</h1>
+            <p className="mt-1 max-w-xl text-sm text-muted">
+              The highest bid when a cycle closes features its collection on the home page for the next cycle. Losing
+              bids are refunded in full.
+            </p>
+          </div>
+          {cycle ? (
+            <div className="flex items-center gap-3">
+              <span className="rounded-full border border-emerald-400/40 px-3 py-1 text-xs font-semibold">
+                {PHASE_LABEL[cycle.phase]}
+              </span>
+              {countdown ? (
+                <span className="text-xs text-muted">
+                  {countdown.label} <span className="font-mono">{formatCountdown(countdown.at - now)}</span>
+                </span>
+              ) : null}
+            </div>
+          ) : null}
+        </div>
+
+        {!cycle ? (
+          <div className="mt-8 rounded-3xl border border-border bg-card p-6 text-sm text-muted">
+            No auction cycle has started yet. Check back soon.
+          </div>
+        ) : (
+          <div className="mt-8 grid gap-8 lg:grid-cols-[minmax(0,1fr)_380px]">
+            <div className="space-y-4">
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="rounded-2xl border border-border p-4 text-sm">
+                  <div className="text-muted">Minimum bid</div>
+                  <div className="font-semibold">{etn(cycle.minBidWei)}</div>
+                </div>
+                <div className="rounded-2xl border border-border p-4 text-sm">
+                  <div className="text-muted">{cycle.phase === "finalized" ? "Winning bid" : "Leading bid"}</div>
+                  <div className="font-semibold">
+                    {cycle.winner ? etn(cycle.winner.amountWei) : cycle.leader ? etn(cycle.leader.amountWei) : "—"}
+                  </div>
+                </div>
+                <div className="rounded-2xl border border-border p-4 text-sm">
+                  <div className="text-muted">Bidders</div>
+                  <div className="font-semibold">{cycle.bidderCount}</div>
+                </div>
+              </div>
+
+              {cycle.phase === "finalized" && winnerRow ? (
+                <div className="rounded-2xl border border-emerald-400/40 p-4 text-sm">
+                  Won by{" "}
+                  <Link href={`/collections/${winnerRow.collection.contract}`} className="font-semibold hover:underline">
+                    {winnerRow.collection.name}
+                  </Link>
+                </div>
+              ) : null}
+
+              <div className="overflow-hidden rounded-3xl border border-border">
+                <div className="border-b border-border px-4 py-3 text-sm font-semibold">Leaderboard</div>
+                {data.leaderboard.length ? (
+                  <ul className="divide-y divide-border">
+                    {data.leaderboard.map((b) => (
+                      <li key={b.bidderAddress} className="flex items-center gap-3 px-4 py-3 text-sm">
+                        <span className="w-6 text-muted">{b.rank}</span>
+                        {b.collection.logoUrl ? (
+                          <Image
+                            src={b.collection.logoUrl}
+                            alt={b.collection.name}
+                            width={32}
+                            height={32}
+                            className="h-8 w-8 rounded-xl object-cover"
+                            unoptimized
+                          />
+                        ) : (
+                          <div className="h-8 w-8 rounded-xl bg-border" />
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <Link
+                            href={`/collections/${b.collection.contract}`}
+                            className="block truncate font-semibold hover:underline"
+                          >
+                            {b.collection.name}
+                          </Link>
+                          <Link href={`/profile/${b.bidderAddress}`} className="text-xs text-muted hover:underline">
+                            {b.bidderUsername || short(b.bidderAddress)}
+                            {me && b.bidderAddress.toLowerCase() === me.address.toLowerCase() ? " (you)" : ""}
+                          </Link>
+                        </div>
+                        <span className="font-semibold">{etn(b.totalBidWei)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="px-4 py-6 text-sm text-muted">No bids yet.</div>
+                )}
+              </div>
+            </div>
+
+            <div className="h-fit space-y-4 rounded-3xl border border-border bg-card p-5">
+              {!account ? (
+                <div className="text-sm text-muted">Connect your wallet to bid for your collection.</div>
+              ) : cycle.phase === "ended" ? (
+                <>
+                  <div className="text-sm text-muted">
+                    Bidding has closed. Finalizing pays the winner&apos;s bid to the treasury and starts refunds.
+                  </div>
+                  <Button
+                    className="w-full"
+                    onClick={() =>
+                      void run("finalize", "Confirm finalization in your wallet…", "Cycle finalized", () =>
+                        finalize(cycle.cycleId)
+                      )
+                    }
+                    loading={busy === "finalize"}
+                    disabled={!!busy}
+                  >
+                    Finalize cycle
+                  </Button>
+                </>
+              ) : cycle.phase !== "live" ? (
+                <div className="text-sm text-muted">
+                  {cycle.phase === "upcoming" ? "Bidding hasn't opened yet." : "The next cycle hasn't started yet."}
+                </div>
+              ) : (
+                <>
+                  {me?.bid ? (
+                    <div className="text-sm">
+                      Your bid: <span className="font-semibold">{etn(me.bid.totalWei)}</span>
+                      {cycle.leader?.address === me.address ? (
+                        <span className="ml-2 text-emerald-500">Leading</span>
+                      ) : (
+                        <span className="ml-2 text-amber-500">Outbid</span>
+                      )}
+                    </div>
+                  ) : me?.collections.length ? (
+                    <div className="space-y-1.5">
+                      <Label htmlFor="featured-collection">Collection</Label>
+                      <select
+                        id="featured-collection"
+                        value={collection}
+                        onChange={(e) => setCollection(e.target.value)}
+                        className="h-10 w-full rounded-2xl border border-border bg-card px-4 text-sm"
+                      >
+                        {me.collections.map((c) => (
+                          <option key={c.contract} value={c.contract}>
+                            {c.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted">
+                      Only collection owners can bid.{" "}
+                      <Link href="/create" className="underline">
+                        Create
+                      </Link>{" "}
+                      or{" "}
+                      <Link href="/submit-collection" className="underline">
+                        submit
+                      </Link>{" "}
+                      a collection first.
+                    </div>
+                  )}
+
+                  {me?.bid || me?.collections.length ? (
+                    <>
+                      <div className="space-y-1.5">
+                        <Label htmlFor="featured-amount">{me?.bid ? "Add to your bid (ETN)" : "Bid (ETN)"}</Label>
+                        <Input
+                          id="featured-amount"
+                          inputMode="decimal"
+                          placeholder={ethers.formatEther(cycle.minBidWei)}
+                          value={amount}
+                          onChange={(e) => setAmount(e.target.value)}
+                        />
+                        {newTotal && me?.bid ? (
+                          <div className="text-xs text-muted">New total: {etn(newTotal)}</div>
+                        ) : null}
+                        {belowMin ? (
+                          <div className="text-xs text-amber-500">Minimum bid is {etn(cycle.minBidWei)}.</div>
+                        ) : notLeading ? (
+                          <div className="text-xs text-amber-500">Your total has to beat {etn(leaderWei)}.</div>
+                        ) : null}
+                      </div>
+                      <Button className="w-full" size="lg" onClick={onBid} disabled={!canBid || !!busy} loading={busy === "bid"}>
+                        {me?.bid ? "Increase bid" : "Place bid"}
+                      </Button>
+                    </>
+                  ) : null}
+                </>
+              )}
+
+              {me?.refunds.length ? (
+                <div className="space-y-2 border-t border-border pt-4">
+                  <div className="text-sm font-semibold">Refunds</div>
+                  {me.refunds.map((r) => (
+                    <div key={r.cycleId} className="flex items-center justify-between gap-3 text-sm">
+                      <div>
+                        <div className="font-semibold">{etn(r.amountWei)}</div>
+                        <div className="text-xs text-muted">Cycle ended {new Date(r.endISO).toLocaleDateString()}</div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          void run(`refund-${r.cycleId}`, "Confirm the refund in your wallet…", "Refund claimed", () =>
+                            claimRefund(r.cycleId)
+                          )
+                        }
+                        loading={busy === `refund-${r.cycleId}`}
+                        disabled={!!busy}
+                      >
+                        Claim
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          </div>
+        )}
+      </Container>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+// app/mint/[contract]/page.tsx
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { fetchMintDetails } from "@/src/lib/server/mint-details";
+import { fetchERC1155MintDetails } from "@/src/lib/server/erc1155-details";
+import MintClient from "./ui/MintClient";
+
+export const dynamic = "force-dynamic";
+
+type RouteParams = { contract: string };
+
+const isAddr = (a: string) => /^0x[0-9a-fA-F]{40}$/.test(a);
+
+/** ERC721 drop first (it needs a Collection + deployment), else an ERC1155 single. */
+const loadDrop = cache(async (contract: string) => {
+  if (!isAddr(contract)) return null;
+  const drop = await fetchMintDetails(contract);
+  if (drop) return { kind: "erc721" as const, details: drop };
+  const edition = await fetchERC1155MintDetails(contract);
+  if (edition) return { kind: "erc1155" as const, details: edition };
+  return null;
+});
+
+export async function generateMetadata({ params }: { params: Promise<RouteParams> }): Promise<Metadata> {
+  const { contract } = await params;
+  const drop = await loadDrop(contract);
+  if (!drop) return { title: "Mint • Panthart" };
+  const image = drop.kind === "erc721" ? drop.details.coverUrl : drop.details.imageUrl;
+  return {
+    title: `Mint ${drop.details.name} • Panthart`,
+    description: drop.details.description || `Mint ${drop.details.name} on Panthart.`,
+    alternates: { canonical: `/mint/${contract}` },
+    openGraph: image ? { images: [image] } : undefined,
+  };
+}
+
+export default async function MintPage({ params }: { params: Promise<RouteParams> }) {
+  const { contract } = await params;
+  const drop = await loadDrop(contract);
+  if (!drop) notFound();
+  return <MintClient drop={drop} />;
+}
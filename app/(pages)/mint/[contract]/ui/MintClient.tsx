@@ -0,0 +1,278 @@
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { Container } from "@/src/ui/Container";
+import { Button } from "@/src/ui/Button";
+import { useMint, type MintPhase } from "@/src/lib/hooks/useMint";
+import type { MintDetails } from "@/src/lib/server/mint-details";
+import type { ERC1155MintDetails } from "@/src/lib/server/erc1155-details";
+
+type Drop = { kind: "erc721"; details: MintDetails } | { kind: "erc1155"; details: ERC1155MintDetails };
+
+type PhaseView = {
+  phase: MintPhase | null;
+  label: string;
+  /** when the next phase change happens (countdown target) */
+  nextAt: number | null;
+  nextLabel: string | null;
+  priceWei: string;
+};
+
+function useNow(intervalMs = 1000) {
+  const [now, setNow] = React.useState(() => Date.now());
+  React.useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(t);
+  }, [intervalMs]);
+  return now;
+}
+
+function formatCountdown(ms: number) {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  const d = Math.floor(s / 86400);
+  const h = Math.floor((s % 86400) / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = s % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return d > 0 ? `${d}d ${pad(h)}h ${pad(m)}m` : `${pad(h)}:${pad(m)}:${pad(sec)}`;
+}
+
+const etn = (wei: string) => {
+  const v = Number(ethers.formatEther(wei));
+  return `${v.toLocaleString(undefined, { maximumFractionDigits: 4 })} ETN`;
+};
+
+/** Which phase is live at `now` for an ERC721 drop (presale wins while its window is open). */
+function phaseFor(d: MintDetails, now: number): PhaseView {
+  const pubStart = Date.parse(d.publicSale.startISO);
+  const pre = d.presale
+    ? { start: Date.parse(d.presale.startISO), end: Date.parse(d.presale.endISO), priceWei: d.presale.priceEtnWei }
+    : null;
+
+  if (pre && now >= pre.start && now < pre.end) {
+    const publicFirst = pubStart > now && pubStart < pre.end;
+    return {
+      phase: "presale",
+      label: "Presale live",
+      nextAt: publicFirst ? pubStart : pre.end,
+      nextLabel: publicFirst ? "Public sale in" : "Presale ends in",
+      priceWei: pre.priceWei,
+    };
+  }
+  if (now >= pubStart) {
+    return { phase: "public", label: "Public sale live", nextAt: null, nextLabel: null, priceWei: d.publicSale.priceEtnWei };
+  }
+  if (pre && now < pre.start) {
+    return { phase: null, label: "Upcoming", nextAt: pre.start, nextLabel: "Presale starts in", priceWei: pre.priceWei };
+  }
+  return { phase: null, label: "Upcoming", nextAt: pubStart, nextLabel: "Public sale starts in", priceWei: d.publicSale.priceEtnWei };
+}
+
+export default function MintClient({ drop }: { drop: Drop }) {
+  const router = useRouter();
+  const now = useNow();
+  const d = drop.details;
+  const { account, wallet, proof, mint } = useMint(d.contract, drop.kind, {
+    hasPresale: drop.kind === "erc721" && !!drop.details.presale,
+  });
+
+  const view: PhaseView =
+    drop.kind === "erc721"
+      ? phaseFor(drop.details, now)
+      : { phase: "public", label: "Minting", nextAt: null, nextLabel: null, priceWei: drop.details.priceEtnWei };
+
+  // live counters when a wallet is connected, SSR snapshot otherwise
+  const minted = wallet.data?.minted ?? d.minted;
+  const supply = d.supply;
+  const soldOut = supply > 0 && minted >= supply;
+  const pct = supply > 0 ? Math.min(100, Math.round((minted / supply) * 100)) : 0;
+  const mine = wallet.data?.mintedByWallet ?? 0;
+
+  // quantity bounds: supply left, per-wallet left, per-tx (drops) and presale allowance
+  let maxQty = Math.max(0, supply - minted);
+  let limitNote: string | null = null;
+  if (drop.kind === "erc721") {
+    const pub = drop.details.publicSale;
+    if (pub.maxPerTx > 0) maxQty = Math.min(maxQty, pub.maxPerTx);
+    if (view.phase === "presale" && drop.details.presale) {
+      const presaleLeft = drop.details.presale.maxSupply - (wallet.data?.presaleMinted ?? 0);
+      maxQty = Math.min(maxQty, Math.max(0, presaleLeft));
+      const alloc = proof.data?.maxAllocation ?? null;
+      if (alloc !== null) {
+        maxQty = Math.min(maxQty, Math.max(0, alloc - mine));
+        limitNote = `Allocation: ${mine}/${alloc} minted`;
+      }
+    } else if (pub.maxPerWallet > 0) {
+      maxQty = Math.min(maxQty, Math.max(0, pub.maxPerWallet - mine));
+      limitNote = `Wallet limit: ${mine}/${pub.maxPerWallet} minted`;
+    }
+  } else if (drop.details.maxPerWallet > 0) {
+    maxQty = Math.min(maxQty, Math.max(0, drop.details.maxPerWallet - mine));
+    limitNote = `Wallet limit: ${mine}/${drop.details.maxPerWallet} minted`;
+  }
+
+  const [qty, setQty] = React.useState(1);
+  const [busy, setBusy] = React.useState(false);
+  React.useEffect(() => {
+    if (maxQty > 0 && qty > maxQty) setQty(maxQty);
+  }, [maxQty, qty]);
+
+  const presaleBlocked =
+    view.phase === "presale" && !!account && proof.data && !proof.data.eligible ? proof.data.message : null;
+
+  const canMint = !!account && !!view.phase && !soldOut && maxQty > 0 && !presaleBlocked && !busy;
+  const total = (BigInt(view.priceWei) * BigInt(Math.max(1, qty))).toString();
+
+  const onMint = async () => {
+    if (!view.phase) return;
+    setBusy(true);
+    const tId = toast.loading("Confirm the mint in your wallet…");
+    try {
+      const r = await mint({ quantity: qty, phase: view.phase, unitPriceWei: view.priceWei });
+      toast.success(
+        r.tokenIds.length && drop.kind === "erc721"
+          ? `Minted #${r.tokenIds.join(", #")}`
+          : `Minted ${qty} item${qty === 1 ? "" : "s"}`,
+        { id: tId }
+      );
+      router.refresh();
+    } catch (e: unknown) {
+      toast.error((e as { shortMessage?: string })?.shortMessage || (e as Error)?.message || "Mint failed", { id: tId });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const image = drop.kind === "erc721" ? drop.details.logoUrl : drop.details.imageUrl;
+  const cover = drop.kind === "erc721" ? drop.details.coverUrl : drop.details.imageUrl;
+
+  return (
+    <div className="page-enter">
+      {cover ? (
+        <div className="relative h-40 w-full overflow-hidden sm:h-56">
+          <Image src={cover} alt="" fill className="object-cover opacity-80" unoptimized />
+        </div>
+      ) : null}
+
+      <Container className="py-8">
+        <div className="grid gap-8 lg:grid-cols-[minmax(0,1fr)_420px]">
+          <div className="space-y-4">
+            <div className="flex items-center gap-4">
+              {image ? (
+                <Image
+                  src={image}
+                  alt={d.name}
+                  width={80}
+                  height={80}
+                  className="h-20 w-20 rounded-2xl border border-border object-cover"
+                  unoptimized
+                />
+              ) : null}
+              <div className="min-w-0">
+                <h1 className="truncate text-2xl font-bold sm:text-3xl">{d.name}</h1>
+                <Link href={`/profile/${d.creator.walletAddress}`} className="text-sm text-muted-foreground hover:underline">
+                  by {d.creator.username || d.creator.walletAddress}
+                </Link>
+              </div>
+            </div>
+            {d.description ? <p className="whitespace-pre-line text-sm text-muted-foreground">{d.description}</p> : null}
+
+            {drop.kind === "erc721" ? (
+              <div className="grid gap-3 sm:grid-cols-2">
+                {drop.details.presale ? (
+                  <div className="rounded-2xl border border-border p-4 text-sm">
+                    <div className="font-semibold">Presale</div>
+                    <div className="text-muted-foreground">
+                      {new Date(drop.details.presale.startISO).toLocaleString()} –{" "}
+                      {new Date(drop.details.presale.endISO).toLocaleString()}
+                    </div>
+                    <div>
+                      {etn(drop.details.presale.priceEtnWei)} · {drop.details.presale.maxSupply} allowlist supply
+                    </div>
+                  </div>
+                ) : null}
+                <div className="rounded-2xl border border-border p-4 text-sm">
+                  <div className="font-semibold">Public sale</div>
+                  <div className="text-muted-foreground">
+                    from {new Date(drop.details.publicSale.startISO).toLocaleString()}
+                  </div>
+                  <div>
+                    {etn(drop.details.publicSale.priceEtnWei)} · max {drop.details.publicSale.maxPerTx} per tx
+                  </div>
+                </div>
+              </div>
+            ) : null}
+          </div>
+
+          <div className="h-fit space-y-4 rounded-3xl border border-border bg-card p-5">
+            <div className="flex items-center justify-between">
+              <span className="rounded-full border border-emerald-400/40 px-3 py-1 text-xs font-semibold">
+                {soldOut ? "Sold out" : view.label}
+              </span>
+              {view.nextAt && !soldOut ? (
+                <span className="text-xs text-muted-foreground">
+                  {view.nextLabel} <span className="font-mono">{formatCountdown(view.nextAt - now)}</span>
+                </span>
+              ) : null}
+            </div>
+
+            <div>
+              <div className="flex justify-between text-sm">
+                <span>
+                  {minted.toLocaleString()} / {supply.toLocaleString()} minted
+                </span>
+                <span>{pct}%</span>
+              </div>
+              <div className="mt-2 h-2 overflow-hidden rounded-full bg-border">
+                <div className="h-full bg-emerald-500" style={{ width: `${pct}%` }} />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Price</span>
+              <span className="font-semibold">{etn(view.priceWei)}</span>
+            </div>
+
+            {account && limitNote ? <div className="text-xs text-muted-foreground">{limitNote}</div> : null}
+            {presaleBlocked ? <div className="text-sm text-amber-500">{presaleBlocked}</div> : null}
+
+            <div className="flex items-center gap-3">
+              <Button variant="outline" size="icon" onClick={() => setQty((q) => Math.max(1, q - 1))} disabled={qty <= 1}>
+                −
+              </Button>
+              <span className="w-10 text-center font-semibold">{qty}</span>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setQty((q) => Math.min(Math.max(1, maxQty), q + 1))}
+                disabled={qty >= maxQty}
+              >
+                +
+              </Button>
+              <span className="ml-auto text-sm">
+                Total <span className="font-semibold">{etn(total)}</span>
+              </span>
+            </div>
+
+            <Button className="w-full" size="lg" onClick={() => void onMint()} disabled={!canMint} loading={busy}>
+              {!account
+                ? "Connect wallet to mint"
+                : soldOut
+                  ? "Sold out"
+                  : !view.phase
+                    ? "Not started"
+                    : maxQty <= 0
+                      ? "Limit reached"
+                      : `Mint ${qty}`}
+            </Button>
+          </div>
+        </div>
+      </Container>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+// app/minting-now/page.tsx
+import type { Metadata } from "next";
+import { Container } from "@/src/ui/Container";
+import { MintingNowCard } from "@/src/ui/home/MintingNowRail";
+import { getMintingNowItems } from "@/src/lib/server/minting-now";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Minting now • Panthart",
+  description: "Live and upcoming drops on Panthart.",
+  alternates: { canonical: "/minting-now" },
+};
+
+export default async function MintingNowPage() {
+  const items = await getMintingNowItems(60);
+  return (
+    <Container className="py-10">
+      <h1 className="text-2xl font-bold">Minting now</h1>
+      {items.length ? (
+        <div className="mt-6 flex flex-wrap gap-4">
+          {items.map((item) => (
+            <MintingNowCard key={`${item.kind}-${item.id}`} item={item} />
+          ))}
+        </div>
+      ) : (
+        <div className="mt-6 text-sm text-muted">No drops are minting right now.</div>
+      )}
+    </Container>
+  );
+}
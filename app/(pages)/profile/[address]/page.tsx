@@ -0,0 +1,87 @@
+// app/profile/[address]/page.tsx
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import ProfileShell, { type ProfileDTO } from "./ui/ProfileShell";
+
+type RouteParams = { address: string };
+
+async function getSiteUrl() {
+  const env = process.env.NEXT_PUBLIC_BASE_URL;
+  if (env) return env.replace(/\/$/, "");
+
+  const h = await headers();
+  const proto = h.get("x-forwarded-proto") ?? "https";
+  const host = h.get("x-forwarded-host") ?? h.get("host");
+  if (!host) return "http://localhost:3000";
+  return `${proto}://${host}`;
+}
+
+async function getProfile(address: string): Promise<ProfileDTO | null> {
+  const base = await getSiteUrl();
+  const res = await fetch(`${base}/api/profile/${address}`, { cache: "no-store" });
+  if (!res.ok) return null;
+  return (await res.json()) as ProfileDTO;
+}
+
+async function toAbs(maybeUrl?: string | null) {
+  if (!maybeUrl) return null;
+  if (/^https?:\/\//i.test(maybeUrl)) return maybeUrl;
+  const base = await getSiteUrl();
+  return base ? new URL(maybeUrl, base).toString() : maybeUrl;
+}
+
+function shortAddr(a: string) {
+  return a.length <= 14 ? a : `${a.slice(0, 6)}…${a.slice(-4)}`;
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<RouteParams>;
+}): Promise<Metadata> {
+  const { address } = await params;
+  const profile = await getProfile(address);
+
+  const base = (await getSiteUrl()) || "https://panth.art";
+  const metadataBase = new URL(base);
+
+  if (!profile) {
+    return { metadataBase, title: "Profile — Panth.art", description: "Profiles on Panth.art" };
+  }
+
+  const name = profile.username || shortAddr(profile.walletAddress);
+  const title = `${name} — Panth.art`;
+  const description = profile.bio?.slice(0, 160) || `View ${name}'s NFTs on Panth.art`;
+  const ogImage = (await toAbs(profile.profileBanner)) ?? (await toAbs(profile.profileAvatar));
+  const canonicalPath = `/profile/${profile.walletAddress}`;
+
+  return {
+    metadataBase,
+    title,
+    description,
+    alternates: { canonical: canonicalPath },
+    openGraph: {
+      title,
+      description,
+      type: "profile",
+      url: canonicalPath,
+      images: ogImage ? [{ url: ogImage }] : [],
+    },
+    twitter: {
+      card: profile.profileBanner ? "summary_large_image" : "summary",
+      title,
+      description,
+      images: ogImage ? [ogImage] : [],
+    },
+  };
+}
+
+export default async function Page({ params }: { params: Promise<RouteParams> }) {
+  const { address } = await params;
+
+  const profile = await getProfile(address);
+  if (!profile) return notFound();
+
+  return <ProfileShell profile={profile} />;
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+
+type CreatedCollection = {
+  id: string;
+  name: string;
+  symbol: string;
+  contract: string;
+  logoUrl: string | null;
+  coverUrl: string | null;
+  standard: string;
+  itemsCount: number;
+  ownersCount: number;
+  indexStatus: string;
+};
+
+export default function CreatedTab({ address }: { address: string }) {
+  const q = useQuery({
+    queryKey: ["profileCreated", address.toLowerCase()],
+    queryFn: async () => {
+      const res = await fetch(`/api/profile/${address}/collections?limit=60`, { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to load collections");
+      const data = (await res.json()) as { items: CreatedCollection[] };
+      return data.items;
+    },
+  });
+
+  const items = q.data ?? [];
+
+  if (q.isLoading) {
+    return <div className="mt-10 text-center text-sm text-muted-foreground">Loading…</div>;
+  }
+  if (!items.length) {
+    return (
+      <div className="mt-10 text-center text-sm text-muted-foreground">No collections created yet.</div>
+    );
+  }
+
+  return (
+    <div className="mt-6 grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+      {items.map((c) => (
+        <Link
+          key={c.id}
+          href={`/collections/${c.contract}`}
+          className="group overflow-hidden rounded-2xl border border-border bg-card transition hover:shadow-sm"
+        >
+          <div className="relative h-28 bg-muted">
+            {c.coverUrl ? (
+              <Image src={c.coverUrl} alt={c.name} fill className="object-cover" sizes="(max-width: 768px) 100vw, 33vw" />
+            ) : null}
+          </div>
+          <div className="flex items-center gap-3 p-3">
+            <div className="relative -mt-8 h-12 w-12 shrink-0 overflow-hidden rounded-xl border border-border bg-background">
+              {c.logoUrl ? (
+                <Image src={c.logoUrl} alt={c.name} fill className="object-cover" sizes="48px" />
+              ) : null}
+            </div>
+            <div className="min-w-0">
+              <div className="truncate text-sm font-semibold">{c.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {c.standard} · {c.itemsCount} items · {c.ownersCount} owners
+              </div>
+            </div>
+          </div>
+        </Link>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+"use client";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as React from "react";
+import Image from "next/image";
+import { useQueryClient } from "@tanstack/react-query";
+import { useUnifiedAccount } from "@/src/lib/useUnifiedAccount";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import {
+  RightSheet,
+  uploadImage,
+  useMiniToast,
+  validateFile,
+} from "@/app/(pages)/collections/[contract]/ui/EditCollectionSheet";
+import type { ProfileDTO } from "./ProfileShell";
+
+const DEFAULT_AVATAR = "/img/default-avatar.png";
+
+function normalizeUrl(u?: string | null) {
+  if (!u) return null;
+  const s = String(u).trim();
+  if (!s) return null;
+  if (/^https?:\/\//i.test(s)) return s;
+  return `https://${s}`;
+}
+
+function cx(...cls: Array<string | false | null | undefined>) {
+  return cls.filter(Boolean).join(" ");
+}
+
+export default function EditProfileSheet({ profile }: { profile: ProfileDTO }) {
+  const acct = useUnifiedAccount();
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+  const { show, Toast } = useMiniToast();
+
+  const isOwner =
+    !!acct.address && acct.address.toLowerCase() === profile.walletAddress.toLowerCase();
+
+  const [open, setOpen] = React.useState(false);
+  const [saving, setSaving] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  const [uploadingBanner, setUploadingBanner] = React.useState(false);
+  const [uploadingAvatar, setUploadingAvatar] = React.useState(false);
+
+  const [bannerUrl, setBannerUrl] = React.useState<string | null>(profile.profileBanner);
+  const [avatarUrl, setAvatarUrl] = React.useState<string>(profile.profileAvatar);
+
+  const [username, setUsername] = React.useState(profile.username || "");
+  const [bio, setBio] = React.useState(profile.bio || "");
+  const [website, setWebsite] = React.useState(profile.website || "");
+  const [x, setX] = React.useState(profile.x || "");
+  const [instagram, setInstagram] = React.useState(profile.instagram || "");
+  const [telegram, setTelegram] = React.useState(profile.telegram || "");
+
+  // Reset fields each time we open (so the sheet mirrors the latest profile)
+  React.useEffect(() => {
+    if (!open) return;
+    setErr(null);
+    setSaving(false);
+    setUploadingBanner(false);
+    setUploadingAvatar(false);
+
+    setBannerUrl(profile.profileBanner);
+    setAvatarUrl(profile.profileAvatar);
+    setUsername(profile.username || "");
+    setBio(profile.bio || "");
+    setWebsite(profile.website || "");
+    setX(profile.x || "");
+    setInstagram(profile.instagram || "");
+    setTelegram(profile.telegram || "");
+  }, [open, profile]);
+
+  const somethingChanged =
+    (bannerUrl || "") !== (profile.profileBanner || "") ||
+    avatarUrl !== profile.profileAvatar ||
+    username !== (profile.username || "") ||
+    bio !== (profile.bio || "") ||
+    website !== (profile.website || "") ||
+    x !== (profile.x || "") ||
+    instagram !== (profile.instagram || "") ||
+    telegram !== (profile.telegram || "");
+
+  async function onImageChange(
+    e: React.ChangeEvent<HTMLInputElement>,
+    kind: "banner" | "avatar"
+  ) {
+    const input = e.currentTarget;
+    const f = input.files?.[0];
+    if (!f) return;
+
+    const v = validateFile(f);
+    if (v) {
+      setErr(v);
+      try {
+        input.value = "";
+      } catch {}
+      return;
+    }
+
+    setErr(null);
+    const setUploading = kind === "banner" ? setUploadingBanner : setUploadingAvatar;
+    setUploading(true);
+    try {
+      const url = await uploadImage(f);
+      if (kind === "banner") setBannerUrl(url);
+      else setAvatarUrl(url);
+      show(kind === "banner" ? "Banner updated" : "Avatar updated");
+    } catch (e: any) {
+      setErr(e?.message || "Upload failed");
+    } finally {
+      setUploading(false);
+      try {
+        input.value = "";
+      } catch {}
+    }
+  }
+
+  async function save() {
+    setErr(null);
+
+    if (!isOwner) {
+      setErr("You can only edit your own profile.");
+      return;
+    }
+
+    const body: Record<string, unknown> = {
+      bio: bio.trim(),
+      website: normalizeUrl(website),
+      x: normalizeUrl(x),
+      instagram: normalizeUrl(instagram),
+      telegram: normalizeUrl(telegram),
+      profileBanner: bannerUrl,
+      // the default avatar is a local asset; send null so the server keeps/restores it
+      profileAvatar: avatarUrl === DEFAULT_AVATAR ? null : avatarUrl,
+    };
+    if (username.trim() !== (profile.username || "")) body.username = username.trim();
+
+    setSaving(true);
+    try {
+      await auth.ensureSignedIn();
+
+      const res = await fetch(`/api/profile/${encodeURIComponent(profile.walletAddress)}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to save changes");
+
+      show("Saved");
+      setOpen(false);
+
+      // header avatars read /api/user-info through react-query
+      qc.invalidateQueries({ queryKey: ["userInfo"] });
+      window.location.reload();
+    } catch (e: any) {
+      setErr(e?.message || "Failed to save changes");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <>
+      <button
+        disabled={!isOwner}
+        onClick={() => setOpen(true)}
+        className={cx(
+          "inline-flex h-10 items-center gap-2 rounded-full border border-border bg-card px-4 text-sm font-semibold text-foreground",
+          "hover:bg-background/60 active:scale-[0.99]",
+          !isOwner && "opacity-50 cursor-not-allowed"
+        )}
+      >
+        Edit profile
+      </button>
+
+      <RightSheet
+        open={open}
+        title="Edit Profile"
+        subtitle="Update your avatar, banner, bio and links."
+        onClose={() => setOpen(false)}
+        footer={
+          <div className="flex items-center justify-between gap-2">
+            <button
+              disabled={saving}
+              onClick={() => setOpen(false)}
+              className="h-10 rounded-full border border-border bg-background px-4 text-sm font-semibold hover:bg-card disabled:opacity-60"
+            >
+              Cancel
+            </button>
+
+            <button
+              disabled={!somethingChanged || saving}
+              onClick={save}
+              className={cx(
+                "h-10 rounded-full px-5 text-sm font-semibold",
+                "bg-foreground text-background hover:opacity-95 active:opacity-90",
+                (!somethingChanged || saving) && "opacity-50 cursor-not-allowed"
+              )}
+            >
+              {saving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        }
+      >
+        {err ? (
+          <div className="mb-5 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-500">
+            {err}
+          </div>
+        ) : null}
+
+        <div className="space-y-6">
+          {/* Banner */}
+          <div className="space-y-2">
+            <div className="text-xs font-semibold text-muted-foreground">Banner</div>
+            <div className="relative h-40 w-full overflow-hidden rounded-2xl border border-border bg-background">
+              {bannerUrl ? <Image src={bannerUrl} alt="Banner" fill className="object-cover" /> : null}
+              <div className="absolute inset-0 grid place-items-center bg-black/25 text-white text-xs font-semibold">
+                {uploadingBanner ? "Uploading…" : "Click to upload / replace"}
+              </div>
+              <input
+                type="file"
+                accept="image/*"
+                className="absolute inset-0 h-full w-full opacity-0 cursor-pointer"
+                onChange={(e) => onImageChange(e, "banner")}
+                disabled={saving || uploadingBanner}
+              />
+            </div>
+            <div className="text-[11px] text-muted-foreground">Recommended ~1600×400. Max 3MB.</div>
+          </div>
+
+          {/* Avatar */}
+          <div className="space-y-2">
+            <div className="text-xs font-semibold text-muted-foreground">Avatar</div>
+            <div className="flex items-center gap-4">
+              <div className="relative h-22 w-22 overflow-hidden rounded-full border border-border bg-background">
+                <Image src={avatarUrl} alt="Avatar" fill className="object-cover" />
+                <div className="absolute inset-0 grid place-items-center bg-black/25 text-white text-[11px] font-semibold px-2 text-center">
+                  {uploadingAvatar ? "Uploading…" : "Click to replace"}
+                </div>
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="absolute inset-0 h-full w-full opacity-0 cursor-pointer"
+                  onChange={(e) => onImageChange(e, "avatar")}
+                  disabled={saving || uploadingAvatar}
+                />
+              </div>
+              <div className="text-[11px] text-muted-foreground">Recommended ≥ 400×400. Max 3MB.</div>
+            </div>
+          </div>
+
+          {/* Username */}
+          <div className="space-y-1">
+            <div className="text-xs font-semibold text-muted-foreground">Username</div>
+            <input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              disabled={saving}
+              maxLength={32}
+              placeholder="username"
+              className="h-11 w-full rounded-2xl border border-border bg-background px-4 text-sm outline-none focus:ring-2 focus:ring-foreground/10"
+            />
+            <div className="text-[11px] text-muted-foreground">3–32 characters: letters, numbers, _ . -</div>
+          </div>
+
+          {/* Bio */}
+          <div className="space-y-2">
+            <div className="text-xs font-semibold text-muted-foreground">Bio</div>
+            <textarea
+              rows={5}
+              value={bio}
+              onChange={(e) => setBio(e.target.value)}
+              disabled={saving}
+              maxLength={500}
+              placeholder="Tell collectors about yourself…"
+              className="w-full resize-none rounded-2xl border border-border bg-background px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-foreground/10"
+            />
+          </div>
+
+          {/* Socials */}
+          <div className="grid grid-cols-1 gap-3">
+            {[
+              { label: "Website", v: website, set: setWebsite, ph: "https://yourdomain.com" },
+              { label: "X", v: x, set: setX, ph: "https://x.com/username" },
+              { label: "Instagram", v: instagram, set: setInstagram, ph: "https://instagram.com/username" },
+              { label: "Telegram", v: telegram, set: setTelegram, ph: "https://t.me/username" },
+            ].map((f) => (
+              <div key={f.label} className="space-y-1">
+                <div className="text-xs font-semibold text-muted-foreground">{f.label}</div>
+                <input
+                  value={f.v}
+                  onChange={(e) => f.set(e.target.value)}
+                  disabled={saving}
+                  placeholder={f.ph}
+                  className="h-11 w-full rounded-2xl border border-border bg-background px-4 text-sm outline-none focus:ring-2 focus:ring-foreground/10"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </RightSheet>
+
+      {Toast}
+    </>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import BulkCancelDrawer from "@/src/components/shared/bulk/BulkCancelDrawer";
+import BulkSelectBar from "@/src/components/shared/bulk/BulkSelectBar";
+import { BULK_MAX } from "@/src/lib/hooks/useBulkListing";
+import { useUnifiedAccount } from "@/src/lib/useUnifiedAccount";
+import { Button } from "@/src/ui/Button";
+
+type Row = {
+  id: string;
+  kind: "LISTING" | "AUCTION";
+  quantity: number;
+  price: string | null;
+  highestBid?: string | null;
+  currencySymbol: string;
+  startTime: string;
+  endTime: string | null;
+  nft: {
+    contract: string;
+    tokenId: string;
+    name: string | null;
+    collectionName: string | null;
+    imageUrl: string | null;
+  };
+};
+
+function fmt(v: string | null | undefined) {
+  if (v == null) return "—";
+  const n = Number(v);
+  return Number.isFinite(n) ? new Intl.NumberFormat(undefined, { maximumFractionDigits: 4 }).format(n) : v;
+}
+
+const rowKey = (r: Pick<Row, "kind" | "id">) => `${r.kind}-${r.id}`;
+
+export default function ListingsTab({ address }: { address: string }) {
+  const acct = useUnifiedAccount();
+  const isOwner = !!acct.address && acct.address.toLowerCase() === address.toLowerCase();
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Row[]>([]);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const listingIds = useMemo(() => selected.filter((r) => r.kind === "LISTING").map((r) => r.id), [selected]);
+  const auctionIds = useMemo(() => selected.filter((r) => r.kind === "AUCTION").map((r) => r.id), [selected]);
+
+  const q = useQuery({
+    queryKey: ["profileListings", address.toLowerCase()],
+    queryFn: async () => {
+      const res = await fetch(`/api/profile/${address}/listings`, { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to load listings");
+      return (await res.json()) as { listings: Row[]; auctions: Row[] };
+    },
+  });
+
+  if (q.isLoading) {
+    return <div className="mt-10 text-center text-sm text-muted-foreground">Loading…</div>;
+  }
+
+  const listings = q.data?.listings ?? [];
+  const auctions = q.data?.auctions ?? [];
+
+  if (!listings.length && !auctions.length) {
+    return <div className="mt-10 text-center text-sm text-muted-foreground">No active listings or auctions.</div>;
+  }
+
+  const toggle = (r: Row) => {
+    if (selected.some((x) => rowKey(x) === rowKey(r))) {
+      setSelected((s) => s.filter((x) => rowKey(x) !== rowKey(r)));
+      return;
+    }
+    if (selected.length >= BULK_MAX) {
+      toast.info(`Select up to ${BULK_MAX} items at a time.`);
+      return;
+    }
+    setSelected((s) => [...s, r]);
+  };
+
+  const exitSelect = () => {
+    setSelecting(false);
+    setSelected([]);
+  };
+
+  const pick = selecting
+    ? { selected: new Set(selected.map(rowKey)), onToggle: toggle }
+    : undefined;
+
+  return (
+    <div className="mt-6 space-y-8">
+      {isOwner ? (
+        selecting ? (
+          <BulkSelectBar count={selected.length} max={BULK_MAX} onClear={() => setSelected([])} onExit={exitSelect}>
+            <Button variant="danger" size="sm" onClick={() => setCancelOpen(true)} disabled={!selected.length}>
+              Cancel {selected.length || ""}
+            </Button>
+          </BulkSelectBar>
+        ) : (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={() => setSelecting(true)}>
+              Select to cancel
+            </Button>
+          </div>
+        )
+      ) : null}
+
+      {listings.length ? <Section title="Listings" rows={listings} pick={pick} /> : null}
+      {auctions.length ? <Section title="Auctions" rows={auctions} pick={pick} /> : null}
+
+      <BulkCancelDrawer
+        open={cancelOpen}
+        onClose={() => setCancelOpen(false)}
+        listingIds={listingIds}
+        auctionIds={auctionIds}
+        onDone={() => {
+          setCancelOpen(false);
+          exitSelect();
+          void q.refetch();
+        }}
+      />
+    </div>
+  );
+}
+
+function Section({
+  title,
+  rows,
+  pick,
+}: {
+  title: string;
+  rows: Row[];
+  /** Select mode: rows toggle instead of linking to the item. */
+  pick?: { selected: Set<string>; onToggle: (r: Row) => void };
+}) {
+  return (
+    <div>
+      <div className="text-sm font-semibold">
+        {title} <span className="text-muted-foreground">• {rows.length}</span>
+      </div>
+      <div className="mt-3 overflow-hidden rounded-2xl border">
+        {rows.map((r) => {
+          const label = r.nft.name ?? `#${r.nft.tokenId}`;
+          const body = (
+            <>
+              <div className="flex min-w-0 items-center gap-3">
+                {pick ? (
+                  <input
+                    type="checkbox"
+                    readOnly
+                    checked={pick.selected.has(rowKey(r))}
+                    className="h-4 w-4 shrink-0 accent-foreground"
+                    tabIndex={-1}
+                    aria-hidden="true"
+                  />
+                ) : null}
+                <div className="relative h-12 w-12 shrink-0 overflow-hidden rounded-xl border border-border bg-muted">
+                  {r.nft.imageUrl ? (
+                    <Image src={r.nft.imageUrl} alt={label} fill className="object-cover" sizes="48px" />
+                  ) : null}
+                </div>
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-semibold">
+                    {label}
+                    {r.quantity > 1 ? <span className="text-muted-foreground"> ×{r.quantity}</span> : null}
+                  </div>
+                  <div className="truncate text-xs text-muted-foreground">{r.nft.collectionName ?? r.nft.contract}</div>
+                </div>
+              </div>
+
+              <div className="text-right">
+                <div className="text-sm font-semibold">
+                  {fmt(r.kind === "AUCTION" && r.highestBid ? r.highestBid : r.price)} {r.currencySymbol}
+                </div>
+                <div className="mt-1 text-xs text-muted-foreground">
+                  {r.kind === "AUCTION"
+                    ? `${r.highestBid ? "Top bid" : "Reserve"} · ends ${new Date(r.endTime!).toLocaleString()}`
+                    : r.endTime
+                    ? `Ends ${new Date(r.endTime).toLocaleString()}`
+                    : "No expiry"}
+                </div>
+              </div>
+            </>
+          );
+          const cls = "flex w-full items-center justify-between gap-3 border-b p-4 text-left last:border-b-0 hover:bg-background/60";
+          return pick ? (
+            <button
+              key={rowKey(r)}
+              type="button"
+              onClick={() => pick.onToggle(r)}
+              aria-pressed={pick.selected.has(rowKey(r))}
+              className={cls}
+            >
+              {body}
+            </button>
+          ) : (
+            <Link key={rowKey(r)} href={`/collections/${r.nft.contract}/${r.nft.tokenId}`} className={cls}>
+              {body}
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import NftCard from "@/app/(pages)/collections/[contract]/ui/NftCard";
+import NftModal from "@/app/(pages)/collections/[contract]/ui/NftModal";
+import BulkListDrawer from "@/src/components/shared/bulk/BulkListDrawer";
+import BulkSelectBar from "@/src/components/shared/bulk/BulkSelectBar";
+import { BULK_MAX } from "@/src/lib/hooks/useBulkListing";
+import { useUnifiedAccount } from "@/src/lib/useUnifiedAccount";
+import { Button } from "@/src/ui/Button";
+
+type Item = {
+  id: string;
+  contract: string;
+  tokenId: string;
+  name: string | null;
+  collectionName: string | null;
+  standard: "ERC721" | "ERC1155";
+  balance: number | null;
+  imageUrl: string | null;
+  animationUrl: string | null;
+  hasVideo: boolean;
+  isListed: boolean;
+  isAuctioned: boolean;
+  stolen?: "flagged" | "reported" | null;
+};
+
+export default function OwnedTab({ address }: { address: string }) {
+  const [items, setItems] = useState<Item[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+  const [open, setOpen] = useState<Item | null>(null);
+
+  const acct = useUnifiedAccount();
+  const isOwner = !!acct.address && acct.address.toLowerCase() === address.toLowerCase();
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bulkOpen, setBulkOpen] = useState(false);
+
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  const toggle = (it: Item) => {
+    if (selected.includes(it.id)) return setSelected((s) => s.filter((x) => x !== it.id));
+    if (it.isListed || it.isAuctioned) return toast.info("Already listed. Cancel it from the Listings tab first.");
+    if (selected.length >= BULK_MAX) return toast.info(`Select up to ${BULK_MAX} items at a time.`);
+    setSelected((s) => [...s, it.id]);
+  };
+
+  const exitSelect = () => {
+    setSelecting(false);
+    setSelected([]);
+  };
+
+  // reload from the top so listed badges catch up
+  const reload = () => {
+    setItems([]);
+    setCursor(null);
+    setDone(false);
+  };
+
+  const loadMore = useCallback(async () => {
+    if (loading || done) return;
+    setLoading(true);
+
+    try {
+      const url = new URL(`/api/profile/${address}/nfts`, window.location.origin);
+      url.searchParams.set("limit", "24");
+      if (cursor) url.searchParams.set("cursor", cursor);
+
+      const res = await fetch(url.toString(), { cache: "no-store" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setDone(true);
+        return;
+      }
+
+      const next = (data?.items ?? []) as Item[];
+      const nextCursor = (data?.nextCursor ?? null) as string | null;
+
+      setItems((prev) => {
+        const seen = new Set(prev.map((x) => x.id));
+        return [...prev, ...next.filter((it) => !seen.has(it.id))];
+      });
+      setCursor(nextCursor);
+      if (!nextCursor) setDone(true);
+    } catch (e: any) {
+      console.error(e);
+      setDone(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [address, cursor, done, loading]);
+
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el) return;
+
+    const io = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) void loadMore();
+      },
+      { rootMargin: "900px" }
+    );
+
+    io.observe(el);
+    return () => io.disconnect();
+  }, [loadMore]);
+
+  return (
+    <div className="mt-6">
+      {isOwner ? (
+        selecting ? (
+          <BulkSelectBar count={selected.length} max={BULK_MAX} onClear={() => setSelected([])} onExit={exitSelect}>
+            <Button size="sm" onClick={() => setBulkOpen(true)} disabled={!selected.length}>
+              List {selected.length || ""}
+            </Button>
+          </BulkSelectBar>
+        ) : (
+          <div className="mb-4 flex justify-end">
+            <Button variant="outline" size="sm" onClick={() => setSelecting(true)}>
+              Select to list
+            </Button>
+          </div>
+        )
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+        {items.map((it, idx) => (
+          <div key={it.id} className="relative">
+            <NftCard
+              item={it}
+              onOpen={() => setOpen(it)}
+              priority={idx < 8}
+              selected={selected.includes(it.id)}
+              onSelect={selecting ? () => toggle(it) : undefined}
+            />
+            {it.balance != null && it.balance > 1 ? (
+              <span className="pointer-events-none absolute left-2 top-2 rounded-full bg-black/60 px-2 py-0.5 text-[11px] font-semibold text-white backdrop-blur">
+                ×{it.balance}
+              </span>
+            ) : null}
+          </div>
+        ))}
+      </div>
+
+      <div ref={sentinelRef} className="h-10" />
+
+      {loading ? (
+        <div className="mt-4 text-center text-sm text-muted-foreground">Loading…</div>
+      ) : null}
+
+      {done && items.length === 0 && !loading ? (
+        <div className="mt-10 text-center text-sm text-muted-foreground">No NFTs owned yet.</div>
+      ) : null}
+
+      <NftModal
+        open={!!open}
+        item={open}
+        contract={open?.contract ?? ""}
+        onClose={() => setOpen(null)}
+      />
+
+      <BulkListDrawer
+        open={bulkOpen}
+        onClose={() => setBulkOpen(false)}
+        nftIds={selected}
+        onDone={() => {
+          setBulkOpen(false);
+          exitSelect();
+          reload();
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import Image from "next/image";
+import Link from "next/link";
+import CopyButton from "@/app/(pages)/collections/[contract]/ui/CopyButton";
+import type { ProfileDTO } from "./ProfileShell";
+
+function cx(...cls: Array<string | false | undefined | null>) {
+  return cls.filter(Boolean).join(" ");
+}
+
+function safeUrl(u?: string | null) {
+  if (!u) return null;
+  const s = String(u).trim();
+  if (!s) return null;
+  if (/^https?:\/\//i.test(s)) return s;
+  return `https://${s}`;
+}
+
+function shortAddr(a: string) {
+  if (!a) return "";
+  if (a.length <= 14) return a;
+  return `${a.slice(0, 6)}…${a.slice(-4)}`;
+}
+
+function SocialPill({ href, label }: { href?: string | null; label: string }) {
+  const u = safeUrl(href);
+  if (!u) return null;
+  return (
+    <a
+      href={u}
+      target="_blank"
+      rel="noreferrer"
+      className="inline-flex items-center rounded-full border border-border bg-background/70 px-3 py-1.5 text-xs font-medium text-foreground hover:bg-background"
+    >
+      {label}
+    </a>
+  );
+}
+
+function Stat({ label, value, subtle }: { label: string; value: number; subtle?: boolean }) {
+  return (
+    <div
+      className={cx(
+        "rounded-2xl border border-border bg-background/70 p-3",
+        subtle && "bg-background/50"
+      )}
+    >
+      <div className="text-[11px] font-medium text-muted-foreground">{label}</div>
+      <div className="mt-1 text-base font-semibold tracking-[-0.01em]">
+        {new Intl.NumberFormat(undefined, { notation: "compact" }).format(value)}
+      </div>
+    </div>
+  );
+}
+
+export default function ProfileHeader({
+  profile,
+  actionsSlot,
+}: {
+  profile: ProfileDTO;
+  actionsSlot?: React.ReactNode;
+}) {
+  const name = profile.username || shortAddr(profile.walletAddress);
+  const bio = (profile.bio ?? "").trim();
+
+  const links = [
+    profile.website ? { k: "website", label: "Website", href: profile.website } : null,
+    profile.x ? { k: "x", label: "X", href: profile.x } : null,
+    profile.telegram ? { k: "telegram", label: "Telegram", href: profile.telegram } : null,
+    profile.instagram ? { k: "instagram", label: "Instagram", href: profile.instagram } : null,
+  ].filter(Boolean) as Array<{ k: string; label: string; href: string }>;
+
+  return (
+    <div className="relative">
+      <div className="relative h-44 w-full overflow-hidden sm:h-60 md:h-72">
+        {profile.profileBanner ? (
+          <Image
+            src={profile.profileBanner}
+            alt={name}
+            fill
+            priority
+            className="object-cover"
+            sizes="100vw"
+          />
+        ) : (
+          <div className="absolute inset-0 bg-[radial-gradient(120%_120%_at_50%_0%,rgba(77,238,84,0.12),transparent_55%),linear-gradient(to_bottom,rgba(255,255,255,0.03),transparent)]" />
+        )}
+
+        <div className="absolute inset-0 bg-linear-to-b from-black/50 via-black/25 to-background" />
+      </div>
+
+      <div className="mx-auto w-full max-w-7xl px-4">
+        <div className="-mt-9 rounded-[28px] border border-border bg-card/75 p-4 shadow-[0_18px_70px_rgba(0,0,0,0.18)] backdrop-blur-xl sm:-mt-12 sm:p-6">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <Link href="/" className="hover:text-foreground">
+              Home
+            </Link>
+            <span className="opacity-60">/</span>
+            <span className="text-foreground/90 wrap-break-word">{name}</span>
+          </div>
+
+          <div className="mt-4 flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+            <div className="flex min-w-0 gap-4">
+              <div className="relative h-14 w-14 shrink-0 overflow-hidden rounded-full border border-border bg-background sm:h-16 sm:w-16 md:h-20 md:w-20">
+                <Image
+                  src={profile.profileAvatar}
+                  alt={name}
+                  fill
+                  className="object-cover"
+                  sizes="80px"
+                  priority
+                />
+              </div>
+
+              <div className="min-w-0">
+                <h1 className="text-[20px] font-semibold tracking-[-0.02em] sm:text-[24px] md:text-[28px] wrap-break-word">
+                  {name}
+                </h1>
+
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  <span className="rounded-full border border-border bg-background/70 px-2.5 py-1 text-xs">
+                    {shortAddr(profile.walletAddress)}
+                  </span>
+                  <CopyButton value={profile.walletAddress} />
+                  {profile.createdAt ? (
+                    <span className="text-xs">
+                      Joined {new Date(profile.createdAt).toLocaleDateString(undefined, { month: "short", year: "numeric" })}
+                    </span>
+                  ) : null}
+                </div>
+
+                {bio ? (
+                  <p className="mt-3 max-w-2xl whitespace-pre-line text-sm leading-relaxed text-muted-foreground wrap-break-word">
+                    {bio}
+                  </p>
+                ) : null}
+
+                {links.length ? (
+                  <div className="mt-4 flex flex-wrap gap-2">
+                    {links.map((l) => (
+                      <SocialPill key={l.k} href={l.href} label={l.label} />
+                    ))}
+                  </div>
+                ) : null}
+
+                {actionsSlot ? (
+                  <div className="mt-4 flex flex-wrap items-center gap-2">{actionsSlot}</div>
+                ) : null}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 md:w-80">
+              <Stat label="Owned" value={profile.counts.owned} />
+              <Stat label="Created" value={profile.counts.created} />
+              <Stat label="Listed" value={profile.counts.listings} subtle />
+              <Stat label="Auctions" value={profile.counts.auctions} subtle />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
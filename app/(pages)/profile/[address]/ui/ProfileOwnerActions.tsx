@@ -0,0 +1,17 @@
+"use client";
+
+import * as React from "react";
+import EditProfileSheet from "./EditProfileSheet";
+import { useUnifiedAccount } from "@/src/lib/useUnifiedAccount";
+import type { ProfileDTO } from "./ProfileShell";
+
+export default function ProfileOwnerActions({ profile }: { profile: ProfileDTO }) {
+  const acct = useUnifiedAccount();
+
+  const my = (acct.address || "").toLowerCase();
+  const isOwner = !!my && my === profile.walletAddress.toLowerCase();
+
+  if (!isOwner) return null;
+
+  return <EditProfileSheet profile={profile} />;
+}
@@ -0,0 +1,38 @@
+import ProfileHeader from "./ProfileHeader";
+import ProfileOwnerActions from "./ProfileOwnerActions";
+import ProfileTabsClient from "./ProfileTabsClient";
+
+export type ProfileDTO = {
+  exists: boolean;
+  walletAddress: string;
+  username: string | null;
+  bio: string | null;
+  profileAvatar: string;
+  profileBanner: string | null;
+  x: string | null;
+  instagram: string | null;
+  website: string | null;
+  telegram: string | null;
+  createdAt: string | null;
+  counts: {
+    owned: number;
+    created: number;
+    listings: number;
+    auctions: number;
+  };
+};
+
+export default function ProfileShell({ profile }: { profile: ProfileDTO }) {
+  return (
+    <div className="min-h-screen">
+      <ProfileHeader
+        profile={profile}
+        actionsSlot={<ProfileOwnerActions profile={profile} />}
+      />
+
+      <div className="mx-auto w-full max-w-7xl px-4 pb-16">
+        <ProfileTabsClient profile={profile} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import ActivityTab from "@/app/(pages)/collections/[contract]/ui/ActivityTab";
+import OwnedTab from "./OwnedTab";
+import CreatedTab from "./CreatedTab";
+import ListingsTab from "./ListingsTab";
+import type { ProfileDTO } from "./ProfileShell";
+
+type TabKey = "owned" | "created" | "listings" | "activity";
+
+const TABS: TabKey[] = ["owned", "created", "listings", "activity"];
+
+function tabFrom(sp: URLSearchParams): TabKey {
+  const t = (sp.get("tab") || "owned").toLowerCase() as TabKey;
+  return TABS.includes(t) ? t : "owned";
+}
+
+export default function ProfileTabsClient({ profile }: { profile: ProfileDTO }) {
+  const sp = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const tab = useMemo(() => tabFrom(sp), [sp]);
+  const address = profile.walletAddress;
+
+  function setTab(next: TabKey) {
+    const p = new URLSearchParams(sp.toString());
+    p.set("tab", next);
+    router.replace(`${pathname}?${p.toString()}`, { scroll: false });
+  }
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between gap-3 overflow-x-auto">
+        <div
+          role="tablist"
+          aria-label="Profile tabs"
+          className="inline-flex rounded-full border border-border bg-card p-1"
+        >
+          <Tab active={tab === "owned"} onClick={() => setTab("owned")}>
+            Owned
+          </Tab>
+          <Tab active={tab === "created"} onClick={() => setTab("created")}>
+            Created
+          </Tab>
+          <Tab active={tab === "listings"} onClick={() => setTab("listings")}>
+            Listings
+          </Tab>
+          <Tab active={tab === "activity"} onClick={() => setTab("activity")}>
+            Activity
+          </Tab>
+        </div>
+      </div>
+
+      {tab === "owned" ? <OwnedTab address={address} /> : null}
+      {tab === "created" ? <CreatedTab address={address} /> : null}
+      {tab === "listings" ? <ListingsTab address={address} /> : null}
+      {tab === "activity" ? <ActivityTab wallet={address} /> : null}
+    </div>
+  );
+}
+
+function Tab({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      role="tab"
+      aria-selected={active}
+      onClick={onClick}
+      className={[
+        "h-10 whitespace-nowrap rounded-full px-4 text-sm font-medium transition",
+        active
+          ? "bg-foreground text-background shadow-[0_10px_28px_rgba(0,0,0,0.10)]"
+          : "text-foreground/80 hover:bg-background/60",
+      ].join(" ")}
+    >
+      {children}
+    </button>
+  );
+}
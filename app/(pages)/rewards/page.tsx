@@ -0,0 +1,13 @@
+// app/rewards/page.tsx
+import type { Metadata } from "next";
+import RewardsClient from "./ui/RewardsClient";
+
+export const metadata: Metadata = {
+  title: "Holder rewards • Panthart",
+  description: "Claim your share of Panthart marketplace fees across every currency in one transaction.",
+  alternates: { canonical: "/rewards" },
+};
+
+export default function RewardsPage() {
+  return <RewardsClient />;
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { Container } from "@/src/ui/Container";
+import { Button } from "@/src/ui/Button";
+import { Checkbox } from "@/src/ui/Checkbox";
+import { Skeleton } from "@/src/ui/Skeleton";
+import { useRewards, type RewardBalance } from "@/src/lib/hooks/useRewards";
+
+const EXPLORER_TX = "https://blockexplorer.electroneum.com/tx/";
+
+const fmt = (wei: string, decimals: number, symbol: string) => {
+  const v = Number(ethers.formatUnits(wei, decimals));
+  return `${v.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${symbol}`;
+};
+
+const claimableOf = (b: RewardBalance) => BigInt(b.claimableWei) > BigInt(0);
+
+export default function RewardsClient() {
+  const { account, summary, claim } = useRewards();
+  const data = summary.data;
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+  const [busy, setBusy] = React.useState(false);
+
+  // default selection: everything claimable
+  React.useEffect(() => {
+    if (data) setSelected(new Set(data.balances.filter(claimableOf).map((b) => b.currencyId)));
+  }, [data]);
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const onClaim = async () => {
+    setBusy(true);
+    const tId = toast.loading("Preparing your claim…");
+    try {
+      const r = await claim([...selected]);
+      toast.success(`Claimed ${r.claimed} reward${r.claimed === 1 ? "" : "s"}`, { id: tId });
+    } catch (e: unknown) {
+      toast.error((e as { shortMessage?: string })?.shortMessage || (e as Error)?.message || "Claim failed", { id: tId });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="page-enter">
+      <Container className="py-10">
+        <div className="text-xs font-semibold text-muted">Marketplace fee share</div>
+        <h1 className="mt-1 text-2xl font-bold sm:text-3xl">Holder rewards</h1>
+        <p className="mt-1 max-w-xl text-sm text-muted">
+          A share of every marketplace fee goes to holders. Rewards accrue per NFT held and can be claimed in every
+          currency at once.
+        </p>
+
+        {!account ? (
+          <div className="mt-8 rounded-3xl border border-border bg-card p-6 text-sm text-muted">
+            Connect your wallet to see your rewards.
+          </div>
+        ) : summary.isLoading ? (
+          <Skeleton className="mt-8 h-48 w-full rounded-3xl" />
+        ) : summary.isError || !data ? (
+          <div className="mt-8 text-sm text-muted">{(summary.error as Error)?.message || "Rewards are unavailable."}</div>
+        ) : (
+          <div className="mt-8 grid gap-8 lg:grid-cols-[minmax(0,1fr)_380px]">
+            <div className="space-y-4">
+              <div className="rounded-2xl border border-border p-4 text-sm">
+                You hold <span className="font-semibold">{data.shares}</span> eligible NFT{data.shares === 1 ? "" : "s"} from{" "}
+                <Link href={`/collections/${data.collection}`} className="underline">
+                  the rewards collection
+                </Link>
+                .
+              </div>
+
+              <div className="overflow-hidden rounded-3xl border border-border">
+                <div className="border-b border-border px-4 py-3 text-sm font-semibold">Claim history</div>
+                {data.claims.length ? (
+                  <ul className="divide-y divide-border">
+                    {data.claims.map((c) => (
+                      <li key={c.id} className="flex items-center justify-between gap-3 px-4 py-3 text-sm">
+                        <div>
+                          <div className="font-semibold">
+                            {Number(c.amount).toLocaleString(undefined, { maximumFractionDigits: 6 })} {c.symbol}
+                          </div>
+                          <div className="text-xs text-muted">{new Date(c.timestampISO).toLocaleString()}</div>
+                        </div>
+                        {c.txHash ? (
+                          <a
+                            href={`${EXPLORER_TX}${c.txHash}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-xs text-muted hover:underline"
+                          >
+                            {c.txHash.slice(0, 10)}…
+                          </a>
+                        ) : null}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="px-4 py-6 text-sm text-muted">No claims yet.</div>
+                )}
+              </div>
+            </div>
+
+            <div className="h-fit space-y-4 rounded-3xl border border-border bg-card p-5">
+              <div className="text-sm font-semibold">Claimable</div>
+              {data.balances.length ? (
+                <ul className="space-y-3">
+                  {data.balances.map((b) => (
+                    <li key={b.currencyId} className="flex items-center gap-3 text-sm">
+                      <Checkbox
+                        checked={selected.has(b.currencyId)}
+                        onCheckedChange={() => toggle(b.currencyId)}
+                        disabled={!claimableOf(b) || busy}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="font-semibold">{fmt(b.claimableWei, b.decimals, b.symbol)}</div>
+                        <div className="text-xs text-muted">
+                          {fmt(b.claimedWei, b.decimals, b.symbol)} claimed of {fmt(b.totalWei, b.decimals, b.symbol)}
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-sm text-muted">Nothing has accrued to this wallet yet.</div>
+              )}
+              <Button
+                className="w-full"
+                size="lg"
+                onClick={() => void onClaim()}
+                disabled={!selected.size || busy}
+                loading={busy}
+              >
+                {selected.size > 1 ? `Claim ${selected.size} currencies` : "Claim"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Container>
+    </div>
+  );
+}
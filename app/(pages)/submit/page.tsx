@@ -0,0 +1,13 @@
+// app/submit/page.tsx
+import type { Metadata } from "next";
+import SubmitCollectionClient from "./ui/SubmitCollectionClient";
+
+export const metadata: Metadata = {
+  title: "Submit a collection • Panthart",
+  description: "List your existing ERC721 or ERC1155 contract on Panthart. Submissions are reviewed before indexing.",
+  alternates: { canonical: "/submit" },
+};
+
+export default function SubmitPage() {
+  return <SubmitCollectionClient />;
+}
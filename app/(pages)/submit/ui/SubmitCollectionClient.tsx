@@ -0,0 +1,246 @@
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { Container } from "@/src/ui/Container";
+import { Button } from "@/src/ui/Button";
+import { Input } from "@/src/ui/Input";
+import { Label } from "@/src/ui/Label";
+import { Textarea } from "@/src/ui/Textarea";
+import {
+  useMySubmissions,
+  useSubmissionActions,
+  type SubmissionPreview,
+} from "@/src/lib/hooks/useSubmissions";
+import { uploadImage, validateFile } from "@/app/(pages)/collections/[contract]/ui/EditCollectionSheet";
+
+const STATUS_TONE: Record<string, string> = {
+  PENDING: "text-amber-500",
+  APPROVED: "text-emerald-500",
+  REJECTED: "text-red-500",
+};
+
+/** Existing-contract submission: preview → pay fee → details → admin review. */
+export default function SubmitCollectionClient() {
+  const mine = useMySubmissions();
+  const { preview, payFee, submit, account } = useSubmissionActions();
+
+  const [contract, setContract] = React.useState("");
+  const [info, setInfo] = React.useState<SubmissionPreview | null>(null);
+  const [checking, setChecking] = React.useState(false);
+  const [feeTxHash, setFeeTxHash] = React.useState<string | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [form, setForm] = React.useState({
+    description: "",
+    website: "",
+    x: "",
+    instagram: "",
+    telegram: "",
+    logoUrl: null as string | null,
+    coverUrl: null as string | null,
+  });
+
+  const fee = mine.data?.fee;
+  const feeWei = fee ? BigInt(fee.amountWei) : BigInt(0);
+  const needsFee = feeWei > BigInt(0);
+
+  const check = async () => {
+    if (!ethers.isAddress(contract.trim())) return toast.error("Enter a valid contract address.");
+    setChecking(true);
+    setInfo(null);
+    setFeeTxHash(null);
+    try {
+      setInfo(await preview(contract.trim()));
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Could not read contract");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const onUpload = async (field: "logoUrl" | "coverUrl", file?: File | null) => {
+    if (!file) return;
+    const problem = validateFile(file);
+    if (problem) return toast.error(problem);
+    const tId = toast.loading("Uploading…");
+    try {
+      const url = await uploadImage(file);
+      setForm((f) => ({ ...f, [field]: url }));
+      toast.success("Uploaded.", { id: tId });
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Upload failed", { id: tId });
+    }
+  };
+
+  const onPay = async () => {
+    if (!fee) return;
+    setBusy(true);
+    const tId = toast.loading("Paying listing fee…");
+    try {
+      setFeeTxHash(await payFee(fee));
+      toast.success("Fee paid.", { id: tId });
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Fee payment failed", { id: tId });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onSubmit = async () => {
+    if (!info) return;
+    setBusy(true);
+    const tId = toast.loading("Submitting…");
+    try {
+      await submit({ contract: info.contract, feeTxHash, ...form });
+      toast.success("Submitted for review.", { id: tId });
+      setInfo(null);
+      setContract("");
+      setFeeTxHash(null);
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Submission failed", { id: tId });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const blocked =
+    !!info &&
+    (info.alreadyListed || !info.owner || !info.isOwner || info.submission?.status === "PENDING" || info.submission?.status === "APPROVED");
+
+  return (
+    <Container className="py-10">
+      <div className="mx-auto max-w-2xl space-y-8">
+        <div>
+          <h1 className="text-2xl font-bold">Submit a collection</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Already deployed an ERC721 or ERC1155 contract? Submit it from the owner wallet. After review it is
+            queued for indexing.
+          </p>
+        </div>
+
+        <div className="space-y-3 rounded-2xl border border-border bg-card p-5">
+          <Label htmlFor="contract">Contract address</Label>
+          <div className="flex gap-2">
+            <Input
+              id="contract"
+              placeholder="0x…"
+              value={contract}
+              onChange={(e) => setContract(e.target.value)}
+              disabled={checking || busy}
+            />
+            <Button onClick={() => void check()} loading={checking}>
+              Check
+            </Button>
+          </div>
+
+          {info ? (
+            <div className="space-y-1 text-sm">
+              <div>
+                <span className="text-muted-foreground">Standard:</span> {info.standard}
+              </div>
+              <div>
+                <span className="text-muted-foreground">Name:</span> {info.name ?? "—"} ({info.symbol ?? "—"})
+              </div>
+              <div>
+                <span className="text-muted-foreground">Supply:</span> {info.totalSupply ?? "unknown"}
+              </div>
+              <div className="truncate">
+                <span className="text-muted-foreground">Token URI:</span> {info.sampleTokenUri ?? "—"}
+              </div>
+              <div className="truncate">
+                <span className="text-muted-foreground">Owner:</span> {info.owner ?? "no owner()"}
+              </div>
+
+              {info.alreadyListed ? (
+                <div className="pt-2 text-red-500">This collection is already listed.</div>
+              ) : !info.owner ? (
+                <div className="pt-2 text-red-500">Only Ownable contracts (with owner()) can be submitted.</div>
+              ) : !info.isOwner ? (
+                <div className="pt-2 text-red-500">
+                  {account ? "Your wallet is not the contract owner." : "Connect the owner wallet to continue."}
+                </div>
+              ) : info.submission && info.submission.status !== "REJECTED" ? (
+                <div className="pt-2 text-amber-500">Already submitted ({info.submission.status.toLowerCase()}).</div>
+              ) : null}
+            </div>
+          ) : null}
+        </div>
+
+        {info && !blocked ? (
+          <div className="space-y-4 rounded-2xl border border-border bg-card p-5">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Logo</Label>
+                <Input type="file" accept="image/*" onChange={(e) => void onUpload("logoUrl", e.target.files?.[0])} />
+                {form.logoUrl ? <div className="truncate text-xs text-muted-foreground">{form.logoUrl}</div> : null}
+              </div>
+              <div className="space-y-1">
+                <Label>Cover</Label>
+                <Input type="file" accept="image/*" onChange={(e) => void onUpload("coverUrl", e.target.files?.[0])} />
+                {form.coverUrl ? <div className="truncate text-xs text-muted-foreground">{form.coverUrl}</div> : null}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                maxLength={2000}
+                value={form.description}
+                onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              {(["website", "x", "instagram", "telegram"] as const).map((k) => (
+                <div key={k} className="space-y-1">
+                  <Label htmlFor={k} className="capitalize">
+                    {k === "x" ? "X (Twitter)" : k}
+                  </Label>
+                  <Input id={k} value={form[k]} onChange={(e) => setForm((f) => ({ ...f, [k]: e.target.value }))} />
+                </div>
+              ))}
+            </div>
+
+            {needsFee ? (
+              <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-border p-4 text-sm">
+                <div>
+                  Listing fee: <span className="font-semibold">{ethers.formatEther(feeWei)} ETN</span>
+                  {feeTxHash ? <div className="truncate text-xs text-emerald-500">Paid · {feeTxHash}</div> : null}
+                </div>
+                {!feeTxHash ? (
+                  <Button variant="outline" onClick={() => void onPay()} loading={busy}>
+                    Pay fee
+                  </Button>
+                ) : null}
+              </div>
+            ) : null}
+
+            <Button className="w-full" onClick={() => void onSubmit()} loading={busy} disabled={needsFee && !feeTxHash}>
+              Submit for review
+            </Button>
+          </div>
+        ) : null}
+
+        {mine.data?.submissions.length ? (
+          <div className="space-y-3">
+            <div className="text-sm font-semibold">Your submissions</div>
+            {mine.data.submissions.map((s) => (
+              <div key={s.id} className="rounded-2xl border border-border bg-card p-4 text-sm">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="truncate font-medium">{s.name ?? s.contract}</div>
+                  <div className={STATUS_TONE[s.status] ?? ""}>{s.status.toLowerCase()}</div>
+                </div>
+                <div className="truncate text-xs text-muted-foreground">{s.contract}</div>
+                {s.status === "REJECTED" && s.statusReason ? (
+                  <div className="mt-1 text-xs text-red-500">Reason: {s.statusReason}</div>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </div>
+    </Container>
+  );
+}
@@ -0,0 +1,12 @@
+// app/treasury/page.tsx
+import type { Metadata } from "next";
+import TreasuryClient from "./ui/TreasuryClient";
+
+export const metadata: Metadata = {
+  title: "Treasury • Panthart",
+  robots: { index: false, follow: false },
+};
+
+export default function TreasuryPage() {
+  return <TreasuryClient />;
+}
@@ -0,0 +1,373 @@
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { Container } from "@/src/ui/Container";
+import { Button } from "@/src/ui/Button";
+import { Input } from "@/src/ui/Input";
+import { Label } from "@/src/ui/Label";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import {
+  useTreasury,
+  useTreasuryActions,
+  type MultisigKind,
+  type MultisigProposalDTO,
+  type ProposeInput,
+  type TreasuryState,
+} from "@/src/lib/hooks/useMultisig";
+import { errMsg } from "@/src/lib/errors";
+
+const EXPLORER_TX = "https://blockexplorer.electroneum.com/tx/";
+
+const KIND_LABEL: Record<MultisigKind, string> = {
+  native: "ETN transfer",
+  erc20: "Token transfer",
+  setConfig: "Marketplace config",
+  marketplace: "Marketplace admin",
+};
+
+const STATUS_STYLE: Record<MultisigProposalDTO["status"], string> = {
+  SUBMITTED: "bg-sky-500/15 text-sky-600 dark:text-sky-400",
+  APPROVED: "bg-emerald-500/15 text-emerald-600 dark:text-emerald-400",
+  EXECUTED: "bg-black/5 text-foreground dark:bg-white/10",
+  FAILED: "bg-red-500/15 text-red-600 dark:text-red-400",
+  CANCELLED: "bg-black/5 text-muted-foreground dark:bg-white/10",
+  EXPIRED: "bg-amber-500/15 text-amber-600 dark:text-amber-400",
+};
+
+const CONFIG_FIELDS = [
+  "feeBps",
+  "distributorShareBps",
+  "feeRecipient",
+  "rewardsDistributor",
+  "stolenRegistry",
+  "snipeExtension",
+] as const;
+
+const short = (a: string) => `${a.slice(0, 6)}…${a.slice(-4)}`;
+const sameAddr = (a?: string | null, b?: string | null) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+function summary(p: MultisigProposalDTO) {
+  if (p.call) return `${p.call.name}(${p.call.args.join(", ")})`;
+  if (p.token) return `${ethers.formatUnits(p.valueWei, p.token.decimals)} ${p.token.symbol} → ${p.to}`;
+  if (p.dataHex && p.dataHex !== "0x") return `Call ${p.to}${p.valueWei !== "0" ? ` with ${ethers.formatEther(p.valueWei)} ETN` : ""}`;
+  return `${ethers.formatEther(p.valueWei)} ETN → ${p.to}`;
+}
+
+/**
+ * Multisig treasury. Anyone can read; owners propose transfers / marketplace config
+ * changes, approve on-chain or with an EIP-712 signature, and execute at the threshold.
+ */
+export default function TreasuryClient() {
+  const auth = useWalletAuth();
+  const q = useTreasury();
+  const actions = useTreasuryActions();
+  const [busy, setBusy] = React.useState<string | null>(null);
+
+  const state = q.data;
+  const me = auth.sessionAddress;
+
+  const run = async (key: string, label: string, fn: () => Promise<unknown>, done: string) => {
+    setBusy(key);
+    const tId = toast.loading(label);
+    try {
+      await fn();
+      toast.success(done, { id: tId });
+      return true;
+    } catch (e: unknown) {
+      toast.error(errMsg(e, "Action failed"), { id: tId });
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Container className="py-10">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Treasury</h1>
+          {state ? (
+            <div className="mt-1 text-xs text-muted-foreground">
+              {state.contract} · {state.threshold} of {state.owners.length} owners
+              {state.isOwner ? " · you are an owner" : ""}
+            </div>
+          ) : null}
+        </div>
+        {!auth.isSignedIn ? (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => void auth.ensureSignedIn().then(() => q.refetch()).catch((e) => toast.error(e.message))}
+          >
+            Sign in
+          </Button>
+        ) : null}
+      </div>
+
+      {q.isLoading ? (
+        <div className="mt-10 text-center text-sm text-muted-foreground">Loading…</div>
+      ) : q.isError || !state ? (
+        <div className="mt-10 text-center text-sm text-muted-foreground">
+          {(q.error as Error)?.message || "Failed to load treasury"}
+        </div>
+      ) : (
+        <>
+          <div className="mt-6 grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            {state.balances.map((b) => (
+              <div key={b.symbol} className="rounded-2xl border border-border bg-card p-4">
+                <div className="text-xs text-muted-foreground">{b.symbol}</div>
+                <div className="mt-1 text-lg font-semibold">{ethers.formatUnits(b.balanceWei, b.decimals)}</div>
+              </div>
+            ))}
+          </div>
+
+          <details className="mt-4 text-xs text-muted-foreground">
+            <summary className="cursor-pointer">Owners ({state.owners.length})</summary>
+            <ul className="mt-1 space-y-1">
+              {state.owners.map((o) => (
+                <li key={o}>
+                  {o}
+                  {sameAddr(o, me) ? " (you)" : ""}
+                </li>
+              ))}
+            </ul>
+          </details>
+
+          {state.isOwner ? (
+            <ProposeForm
+              state={state}
+              busy={busy === "propose"}
+              onSubmit={(input) => run("propose", "Submitting proposal…", () => actions.propose(input), "Proposal submitted.")}
+            />
+          ) : null}
+
+          <h2 className="mt-10 text-lg font-semibold">Proposals</h2>
+          {!state.proposals.length ? (
+            <div className="mt-4 text-sm text-muted-foreground">No proposals yet.</div>
+          ) : (
+            <div className="mt-4 space-y-3">
+              {state.proposals.map((p) => {
+                const mine = p.approvals.find((a) => sameAddr(a.owner, me));
+                const open = p.status === "SUBMITTED" || p.status === "APPROVED" || p.status === "FAILED";
+                const approvals = Math.max(p.onChainCount, p.signatures.length);
+                return (
+                  <div key={p.id} className="rounded-2xl border border-border bg-card p-4 text-sm">
+                    <div className="flex flex-wrap items-start justify-between gap-3">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-semibold">#{p.index}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {p.kind ? KIND_LABEL[p.kind] : p.call ? "Contract call" : "Transfer"}
+                          </span>
+                          <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_STYLE[p.status]}`}>
+                            {p.status.toLowerCase()}
+                          </span>
+                        </div>
+                        <div className="break-all">{summary(p)}</div>
+                        {p.description ? <div className="text-muted-foreground">{p.description}</div> : null}
+                        <div className="text-xs text-muted-foreground">
+                          {approvals}/{state.threshold} approvals · {p.onChainCount} on-chain, {p.signatures.length} signed
+                          {p.submittedBy ? ` · proposed by ${short(p.submittedBy)}` : ""} ·{" "}
+                          {new Date(p.createdISO).toLocaleString()}
+                        </div>
+                        {p.sigDeadline && open ? (
+                          <div className="text-xs text-muted-foreground">
+                            Signatures valid until {new Date(p.sigDeadline * 1000).toLocaleString()}
+                          </div>
+                        ) : null}
+                        {p.approvals.length ? (
+                          <div className="text-xs text-muted-foreground">
+                            {p.approvals
+                              .map((a) => `${short(a.owner)} (${[a.onChain && "on-chain", a.signed && "signed"].filter(Boolean).join(", ") || "revoked"})`)
+                              .join(" · ")}
+                          </div>
+                        ) : null}
+                        {p.executedTxHash ? (
+                          <a className="text-xs underline" href={`${EXPLORER_TX}${p.executedTxHash}`} target="_blank" rel="noreferrer">
+                            Executed {p.executedISO ? new Date(p.executedISO).toLocaleString() : ""}
+                          </a>
+                        ) : null}
+                      </div>
+
+                      {state.isOwner && (open || p.status === "EXPIRED") ? (
+                        <div className="flex flex-wrap gap-2">
+                          {!mine?.signed && p.status !== "EXPIRED" ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={!!busy}
+                              loading={busy === `sign:${p.id}`}
+                              onClick={() => void run(`sign:${p.id}`, "Signing…", () => actions.sign(p), "Signature saved.")}
+                            >
+                              Sign
+                            </Button>
+                          ) : null}
+                          {!mine?.onChain ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={!!busy}
+                              loading={busy === `confirm:${p.id}`}
+                              onClick={() =>
+                                void run(`confirm:${p.id}`, "Confirming on-chain…", () => actions.confirm(p), "Confirmed on-chain.")
+                              }
+                            >
+                              Confirm on-chain
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={!!busy}
+                              loading={busy === `revoke:${p.id}`}
+                              onClick={() =>
+                                void run(`revoke:${p.id}`, "Revoking…", () => actions.revoke(p), "Confirmation revoked.")
+                              }
+                            >
+                              Revoke
+                            </Button>
+                          )}
+                          {p.status === "APPROVED" || p.status === "FAILED" ? (
+                            <Button
+                              size="sm"
+                              disabled={!!busy}
+                              loading={busy === `execute:${p.id}`}
+                              onClick={() =>
+                                void run(`execute:${p.id}`, "Executing…", () => actions.execute(p, state.threshold), "Executed.")
+                              }
+                            >
+                              Execute
+                            </Button>
+                          ) : null}
+                          {sameAddr(p.submittedBy, me) ? (
+                            <Button
+                              size="sm"
+                              variant="danger"
+                              disabled={!!busy}
+                              loading={busy === `cancel:${p.id}`}
+                              onClick={() => void run(`cancel:${p.id}`, "Cancelling…", () => actions.cancel(p), "Proposal cancelled.")}
+                            >
+                              Cancel
+                            </Button>
+                          ) : null}
+                        </div>
+                      ) : null}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </Container>
+  );
+}
+
+/** Marketplace admin calls are proposed from /admin/marketplace, not here. */
+type FormKind = Exclude<MultisigKind, "marketplace">;
+
+function ProposeForm({
+  state,
+  busy,
+  onSubmit,
+}: {
+  state: TreasuryState;
+  busy: boolean;
+  onSubmit: (input: ProposeInput) => Promise<boolean>;
+}) {
+  const tokens = state.balances.filter((b) => b.tokenAddress);
+  const [kind, setKind] = React.useState<FormKind>("native");
+  const [to, setTo] = React.useState("");
+  const [amount, setAmount] = React.useState("");
+  const [token, setToken] = React.useState(tokens[0]?.tokenAddress ?? "");
+  const [description, setDescription] = React.useState("");
+  const [config, setConfig] = React.useState(() => state.marketplace?.config ?? null);
+
+  const reset = () => {
+    setTo("");
+    setAmount("");
+    setDescription("");
+  };
+
+  const submit = async () => {
+    if (kind === "setConfig") {
+      if (!state.marketplace || !config) return toast.error("Marketplace is not configured.");
+      if (await onSubmit({ kind, marketplace: state.marketplace.address, config, description })) setDescription("");
+    } else if (kind === "erc20") {
+      const t = tokens.find((b) => b.tokenAddress === token);
+      if (!t?.tokenAddress) return toast.error("Pick a token.");
+      if (await onSubmit({ kind, token: t.tokenAddress, decimals: t.decimals, to: to.trim(), amount: amount.trim(), description })) reset();
+    } else if (await onSubmit({ kind, to: to.trim(), amount: amount.trim(), description })) {
+      reset();
+    }
+  };
+
+  const kinds: FormKind[] = ["native", ...(tokens.length ? (["erc20"] as const) : []), ...(state.marketplace ? (["setConfig"] as const) : [])];
+
+  return (
+    <div className="mt-8 rounded-2xl border border-border bg-card p-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="font-semibold">New proposal</div>
+        <div className="flex gap-2">
+          {kinds.map((k) => (
+            <Button key={k} size="sm" variant={k === kind ? "primary" : "outline"} onClick={() => setKind(k)}>
+              {KIND_LABEL[k]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {kind === "setConfig" && config ? (
+        <div className="mt-3 grid gap-2 sm:grid-cols-2">
+          {CONFIG_FIELDS.map((f) => (
+            <div key={f} className="space-y-1">
+              <Label htmlFor={`cfg-${f}`}>{f}</Label>
+              <Input
+                id={`cfg-${f}`}
+                value={config[f]}
+                onChange={(e) => setConfig((c) => (c ? { ...c, [f]: e.target.value.trim() } : c))}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="mt-3 grid gap-2 sm:grid-cols-2">
+          {kind === "erc20" ? (
+            <select
+              className="h-10 rounded-2xl border border-border bg-card px-4 text-sm sm:col-span-2"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+            >
+              {tokens.map((t) => (
+                <option key={t.tokenAddress} value={t.tokenAddress!}>
+                  {t.symbol}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <Input placeholder="Recipient 0x…" value={to} onChange={(e) => setTo(e.target.value)} />
+          <Input
+            placeholder={`Amount (${kind === "erc20" ? tokens.find((t) => t.tokenAddress === token)?.symbol ?? "" : "ETN"})`}
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+      )}
+
+      <Input
+        className="mt-2"
+        placeholder="What is this for? (optional)"
+        maxLength={500}
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+      />
+      <Button className="mt-3" size="sm" disabled={busy} loading={busy} onClick={() => void submit()}>
+        Propose
+      </Button>
+    </div>
+  );
+}
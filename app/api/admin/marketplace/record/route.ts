@@ -0,0 +1,39 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/admin/marketplace/record/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import {
+  canUseMarketplaceAdmin,
+  getMarketplaceAdminViewer,
+  MarketplaceAdminError,
+  recordMarketplaceAdminTx,
+} from "@/src/lib/server/marketplace-admin";
+
+/**
+ * Apply a mined setCurrencyAllowed tx to Currency.active (idempotent).
+ * POST { txHash } → { ok, currencies }
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+  const txHash = typeof body?.txHash === "string" ? body.txHash.trim().toLowerCase() : "";
+  if (!/^0x[0-9a-f]{64}$/.test(txHash)) return NextResponse.json({ error: "Invalid txHash" }, { status: 400 });
+
+  try {
+    const viewer = await getMarketplaceAdminViewer(wallet);
+    if (!canUseMarketplaceAdmin(viewer)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const r = await recordMarketplaceAdminTx(txHash);
+    return NextResponse.json({ ok: true, ...r });
+  } catch (e: any) {
+    if (e instanceof MarketplaceAdminError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api admin marketplace record] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/admin/marketplace/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import {
+  canUseMarketplaceAdmin,
+  getMarketplaceAdminViewer,
+  listMarketplaceCurrencies,
+  MarketplaceAdminError,
+} from "@/src/lib/server/marketplace-admin";
+
+/** Viewer roles (own + multisig) and Currency rows with their on-chain allow flag. */
+export async function GET() {
+  await prismaReady;
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  try {
+    const viewer = await getMarketplaceAdminViewer(wallet);
+    if (!canUseMarketplaceAdmin(viewer)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const currencies = await listMarketplaceCurrencies();
+    return NextResponse.json({ viewer, currencies }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    if (e instanceof MarketplaceAdminError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api admin marketplace] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
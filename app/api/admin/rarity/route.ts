@@ -0,0 +1,69 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/admin/rarity/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import type { RarityMethod } from "@/src/lib/generated/prisma/client";
+import { requireAdmin } from "@/src/lib/server/auth";
+import { computeRarity, findStaleRarityCollections, RARITY_METHODS } from "@/src/lib/server/rarity";
+import { computeTraitStats } from "@/src/lib/server/traits";
+
+/**
+ * Admin rarity trigger.
+ * GET                         → collections waiting for the rarity worker
+ * POST { contract, method? }  → recompute one collection now (trait stats + rarity)
+ * POST { all: true }          → flag every collection; the worker picks them up
+ */
+
+export async function GET() {
+  await prismaReady;
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+
+  const stale = await findStaleRarityCollections(200);
+  return NextResponse.json({ stale }, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function POST(req: NextRequest) {
+  await prismaReady;
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+
+  const body = (await req.json().catch(() => null)) as
+    | { contract?: string; method?: string; all?: boolean }
+    | null;
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    if (body.all) {
+      const r = await prisma.collection.updateMany({ data: { rarityStale: true } });
+      return NextResponse.json({ ok: true, queued: r.count });
+    }
+
+    if (!body.contract || !ethers.isAddress(body.contract)) {
+      return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+    }
+    const method = body.method ? (String(body.method).toUpperCase() as RarityMethod) : undefined;
+    if (method && !RARITY_METHODS.includes(method)) {
+      return NextResponse.json({ error: "Invalid method" }, { status: 400 });
+    }
+
+    const col = await prisma.collection.findFirst({
+      where: { contract: { equals: body.contract, mode: "insensitive" } },
+      select: { contract: true },
+    });
+    if (!col) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const stats = await computeTraitStats(col.contract);
+    const rarity = await computeRarity(col.contract, { method });
+    return NextResponse.json({ ok: true, traitValues: stats.values, ...rarity });
+  } catch (e: any) {
+    console.error("[api admin rarity] error:", e);
+    return NextResponse.json({ error: e?.message || "Internal error" }, { status: 500 });
+  }
+}
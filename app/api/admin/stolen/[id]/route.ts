@@ -0,0 +1,60 @@
+// app/api/admin/stolen/[id]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import {
+  confirmStolenReport,
+  dismissStolenReport,
+  getStolenModerator,
+  rejectStolenDispute,
+  StolenError,
+} from "@/src/lib/server/stolen";
+
+/**
+ * Off-chain decisions on one report (flag/clear go through the registry + /record).
+ * POST { action: "confirm", reason }         → accept a pending report (shown as "reported")
+ * POST { action: "dismiss", reason }         → close a report that never reached the registry
+ * POST { action: "reject-dispute", reason }  → keep the flag, close the owner's dispute
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  await prismaReady;
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const { id } = await context.params;
+  const body = (await req.json().catch(() => null)) as { action?: string; reason?: string } | null;
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const reason = typeof body.reason === "string" ? body.reason.trim().slice(0, 500) : "";
+  if (!reason) return NextResponse.json({ error: "A reason is required" }, { status: 400 });
+
+  try {
+    const mod = await getStolenModerator(wallet);
+    if (body.action === "confirm") {
+      if (!mod.isAdmin && !mod.canReport) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      await confirmStolenReport(id, mod.address, reason);
+      return NextResponse.json({ ok: true });
+    }
+    if (!mod.isAdmin && !mod.canClear) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (body.action === "dismiss") {
+      await dismissStolenReport(id, mod.address, reason);
+      return NextResponse.json({ ok: true });
+    }
+    if (body.action === "reject-dispute") {
+      await rejectStolenDispute(id, mod.address, reason);
+      return NextResponse.json({ ok: true });
+    }
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+  } catch (e) {
+    if (e instanceof StolenError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api admin stolen review] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/admin/stolen/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import {
+  getStolenModerator,
+  getStolenRegistryAddress,
+  listStolenReports,
+  STOLEN_QUEUE_TABS,
+  type StolenQueueTab,
+} from "@/src/lib/server/stolen";
+
+/**
+ * Stolen-report console queue. Open to ADMIN_WALLETS and registry reporters/clearers.
+ * GET ?tab=pending|flagged|disputed|cleared (default pending) → { registry, viewer, reports }
+ */
+export async function GET(req: NextRequest) {
+  await prismaReady;
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  try {
+    const viewer = await getStolenModerator(wallet);
+    if (!viewer.isAdmin && !viewer.canReport && !viewer.canClear) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const raw = (req.nextUrl.searchParams.get("tab") || "pending").toLowerCase() as StolenQueueTab;
+    const tab = STOLEN_QUEUE_TABS.includes(raw) ? raw : "pending";
+    const reports = await listStolenReports(tab);
+
+    return NextResponse.json(
+      { registry: getStolenRegistryAddress(), viewer, reports },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e) {
+    console.error("[api admin stolen] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
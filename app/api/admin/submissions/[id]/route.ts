@@ -0,0 +1,46 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/admin/submissions/[id]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { requireAdmin } from "@/src/lib/server/auth";
+import { approveSubmission, rejectSubmission, SubmissionError } from "@/src/lib/server/submissions";
+
+/**
+ * Review one submission.
+ * POST { action: "approve" }            → creates the Collection (indexStatus QUEUED)
+ * POST { action: "reject", reason }     → closes it; the owner may resubmit
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  await prismaReady;
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+
+  const { id } = await context.params;
+  const body = (await req.json().catch(() => null)) as { action?: string; reason?: string } | null;
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    if (body.action === "approve") {
+      const collection = await approveSubmission(id, admin);
+      return NextResponse.json({ ok: true, collection });
+    }
+    if (body.action === "reject") {
+      const reason = typeof body.reason === "string" ? body.reason.trim().slice(0, 500) : "";
+      if (!reason) return NextResponse.json({ error: "A reason is required" }, { status: 400 });
+      await rejectSubmission(id, admin, reason);
+      return NextResponse.json({ ok: true });
+    }
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+  } catch (e: any) {
+    if (e instanceof SubmissionError) {
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    }
+    console.error("[api admin submission] error:", e);
+    return NextResponse.json({ error: e?.message || "Internal error" }, { status: 500 });
+  }
+}
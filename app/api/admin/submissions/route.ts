@@ -0,0 +1,37 @@
+// app/api/admin/submissions/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { SubmissionStatus } from "@/src/lib/generated/prisma/client";
+import { requireAdmin } from "@/src/lib/server/auth";
+import { SUBMISSION_SELECT, toSubmissionDTO } from "@/src/lib/server/submissions";
+
+/**
+ * Admin review queue.
+ * GET ?status=PENDING|APPROVED|REJECTED (default PENDING), oldest first for PENDING.
+ */
+
+const STATUSES = new Set(Object.values(SubmissionStatus));
+
+export async function GET(req: NextRequest) {
+  await prismaReady;
+  const admin = await requireAdmin();
+  if (admin instanceof NextResponse) return admin;
+
+  const raw = (new URL(req.url).searchParams.get("status") || "PENDING").toUpperCase() as SubmissionStatus;
+  const status = STATUSES.has(raw) ? raw : SubmissionStatus.PENDING;
+
+  const rows = await prisma.collectionSubmission.findMany({
+    where: { status },
+    orderBy: { createdAt: status === "PENDING" ? "asc" : "desc" },
+    take: 200,
+    select: SUBMISSION_SELECT,
+  });
+
+  return NextResponse.json(
+    { submissions: rows.map(toSubmissionDTO) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -4,7 +4,9 @@ export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
 import { ethers } from "ethers";
-import prisma, { prismaReady } from "@/lib/db";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { publishBidFailed, publishBidPending } from "@/src/lib/server/auction-events";
+import { getProvider } from "@/src/lib/server/chain/provider";
 
 // ---- helpers ---------------------------------------------------------------
 
@@ -67,6 +69,10 @@ function toPlainIntString(x: unknown): string {
   return "0";
 }
 
+const BID_IFACE = new ethers.Interface([
+  "function bid(uint256 auctionId, uint256 amount) payable",
+]);
+
 // ---------------------------------------------------------------------------
 
 type Ctx = { params: Promise<{ auctionId: string }> };
@@ -178,3 +184,70 @@ export async function GET(_req: NextRequest, ctx: Ctx) {
     return NextResponse.json({ auctionId: "0", bids: [] }, { status: 200 });
   }
 }
+
+/**
+ * POST { txHash } — announce a bid tx the client just broadcast.
+ * The tx is decoded from the node (never trusted from the body):
+ *   - still pending → bid_pending
+ *   - reverted      → bid_failed
+ *   - mined OK      → nothing here; /api/marketplace/sync publishes bid_confirmed
+ */
+export async function POST(req: NextRequest, ctx: Ctx) {
+  await prismaReady;
+
+  const { auctionId } = await ctx.params;
+  const body = (await req.json().catch(() => null)) as { txHash?: string } | null;
+  const txHash = body?.txHash ?? "";
+
+  if (!/^\d+$/.test(auctionId ?? "") || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+    return NextResponse.json({ error: "Invalid auctionId or txHash" }, { status: 400 });
+  }
+
+  try {
+    const provider = getProvider();
+    const tx = await provider.getTransaction(txHash);
+    if (!tx) return NextResponse.json({ error: "Tx not found" }, { status: 404 });
+
+    const market =
+      process.env.NEXT_PUBLIC_MARKETPLACE_CORE_ADDRESS || process.env.NEXT_PUBLIC_MARKETPLACE_ADDRESS;
+    if (market && (tx.to ?? "").toLowerCase() !== market.toLowerCase()) {
+      return NextResponse.json({ error: "Not a marketplace tx" }, { status: 400 });
+    }
+
+    const parsed = BID_IFACE.parseTransaction({ data: tx.data, value: tx.value });
+    if (!parsed || (parsed.args[0] as bigint).toString() !== auctionId) {
+      return NextResponse.json({ error: "Not a bid on this auction" }, { status: 400 });
+    }
+
+    const amountArg = parsed.args[1] as bigint;
+    const amount = (amountArg > BigInt(0) ? amountArg : tx.value).toString();
+
+    const receipt = await provider.getTransactionReceipt(txHash);
+
+    if (!receipt) {
+      const auction = await prisma.auction.findUnique({
+        where: { id: auctionId },
+        select: { currencyId: true },
+      });
+      publishBidPending({
+        txHash,
+        from: tx.from,
+        auctionId,
+        amount,
+        currencyId: auction?.currencyId ?? null,
+        at: Date.now(),
+      });
+      return NextResponse.json({ status: "pending" }, { headers: { "Cache-Control": "no-store" } });
+    }
+
+    if (receipt.status !== 1) {
+      publishBidFailed({ txHash, from: tx.from, auctionId, reason: "Transaction reverted" });
+      return NextResponse.json({ status: "failed" }, { headers: { "Cache-Control": "no-store" } });
+    }
+
+    return NextResponse.json({ status: "mined" }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    console.error("[bids api] announce error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
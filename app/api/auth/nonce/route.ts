@@ -0,0 +1,13 @@
+// app/api/auth/nonce/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { newNonce, setNonceCookie } from "@/src/lib/server/auth";
+
+export async function GET() {
+  const nonce = newNonce();
+  const res = NextResponse.json({ nonce }, { headers: { "Cache-Control": "no-store" } });
+  setNonceCookie(res, nonce);
+  return res;
+}
@@ -0,0 +1,19 @@
+// app/api/auth/session/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { clearSession, getSessionWallet } from "@/src/lib/server/auth";
+
+/** Who am I? → { address } (null when signed out). */
+export async function GET() {
+  const address = await getSessionWallet().catch(() => null);
+  return NextResponse.json({ address }, { headers: { "Cache-Control": "no-store" } });
+}
+
+/** Sign out. */
+export async function DELETE() {
+  const res = NextResponse.json({ ok: true }, { headers: { "Cache-Control": "no-store" } });
+  clearSession(res);
+  return res;
+}
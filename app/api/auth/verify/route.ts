@@ -0,0 +1,35 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/auth/verify/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { setSession, verifySiwe } from "@/src/lib/server/auth";
+
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as
+    | { message?: string; signature?: string }
+    | null;
+
+  if (!body?.message || !body?.signature) {
+    return NextResponse.json({ error: "Missing message or signature" }, { status: 400 });
+  }
+
+  try {
+    const host = req.headers.get("x-forwarded-host") ?? req.headers.get("host");
+    const check = await verifySiwe(body.message, body.signature, host);
+    if (!check.ok) {
+      return NextResponse.json({ error: check.error }, { status: 401 });
+    }
+
+    const res = NextResponse.json(
+      { ok: true, address: check.address },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+    setSession(res, check.address);
+    return res;
+  } catch (e: any) {
+    console.error("[auth verify] error:", e);
+    return NextResponse.json({ error: e?.message || "Sign-in failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+// app/api/cart/listings/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { CartError, getCartListings } from "@/src/lib/server/cart";
+
+const ids = (v: string | null) =>
+  (v ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+/**
+ * Live listings for cart items.
+ * GET ?listingIds=1,2&nftIds=<id>,<id>
+ *   → { listings: CartListingDTO[] } (ended / sold / flagged ones are left out)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const listings = await getCartListings({
+      listingIds: ids(req.nextUrl.searchParams.get("listingIds")),
+      nftIds: ids(req.nextUrl.searchParams.get("nftIds")),
+    });
+    return NextResponse.json({ listings }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    if (e instanceof CartError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api cart listings] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -5,6 +5,7 @@ export const runtime = "nodejs";
 
 import prisma, { prismaReady } from "@/src/lib/db";
 import { NextRequest, NextResponse } from "next/server";
+import { listingActivityType } from "@/src/lib/dutch";
 
 /**
  * Collection Activities Feed (server)
@@ -13,6 +14,7 @@ import { NextRequest, NextResponse } from "next/server";
  *  - Canonical sales (MarketplaceSale)  → type: "Sale"
  *  - App/chain activities (NFTActivity) → type: "Listing" | "Unlisting" | "Transfer" | "Bid" | "Mint" | "Auction"...
  *  - Listing lifecycle (MarketplaceListing)             → "Listing" (create), "Unlisting" (cancel/expire)
+ *                                                          plus "Scheduled Listing" | "Dutch Listing" | "Price Drop"
  *  - Auction lifecycle (Auction, AuctionBid)            → "Auction Create" | "Auction Finalize" | "Bid"
  *
  * Response is normalized and chronologically sorted (DESC), with cursor pagination.
@@ -328,8 +330,10 @@ export async function GET(
 
     // --- 3) Listing lifecycle (MarketplaceListing)
     // We treat:
-    //  - create → "Listing" at startTime/createdAt
-    //  - cancel/expire → "Unlisting" at updatedAt/endTime
+    //  - create → "Listing" at startTime/createdAt ("Scheduled Listing" at createdAt for a
+    //    future start, "Dutch Listing" / "Price Drop" for Dutch steps)
+    //  - cancel/expire → "Unlisting" at updatedAt/endTime, except a Dutch step that was
+    //    replaced by the next price, which keeps its create row
     const listingRows = await prisma.marketplaceListing.findMany({
       where: {
         nft: { contract: { equals: canon, mode: "insensitive" } },
@@ -350,19 +354,24 @@ export async function GET(
         priceEtnWei: true,
         priceTokenAmount: true,
         currencyId: true,
+        mode: true,
+        dutchStep: true,
+        dutchSchedule: { select: { currentStep: true } },
         nft: { select: { tokenId: true, name: true, imageUrl: true } },
       },
     });
 
     const mappedListings: UiRow[] = listingRows
       .map((r) => {
-        let type: "Listing" | "Unlisting";
+        let type: ReturnType<typeof listingActivityType> | "Unlisting";
         let when: Date;
         let tx = "";
+        const superseded =
+          r.mode === "DUTCH" && r.dutchStep != null && r.dutchStep < (r.dutchSchedule?.currentStep ?? 0);
 
-        if (r.status === "ACTIVE") {
-          type = "Listing";
-          when = r.startTime ?? r.createdAt;
+        if (r.status === "ACTIVE" || superseded) {
+          type = listingActivityType(r.mode, r.dutchStep);
+          when = r.mode === "SCHEDULED" ? r.createdAt : r.startTime ?? r.createdAt;
           tx = isRealHash(r.txHashCreated ?? undefined) ? r.txHashCreated ?? "" : "";
         } else if (r.status === "CANCELLED" || r.status === "EXPIRED" || r.status === "SOLD") {
           type = "Unlisting";
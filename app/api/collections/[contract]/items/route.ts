@@ -8,9 +8,31 @@ import {
   AuctionStatus,
   ListingStatus,
   NftStatus,
+  Prisma,
 } from "@/src/lib/generated/prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { detectMediaType, ipfsToHttp, isVideoType } from "@/src/lib/media";
+import {
+  itemsWhereSql,
+  itemIdsPage,
+  parseTraitFilters,
+  traitFacets,
+  type TraitFacet,
+} from "@/src/lib/server/traits";
+import { getStolenStates, stolenKey } from "@/src/lib/server/stolen";
+
+/**
+ * Collection items.
+ * Query: search, listed, auctioned, sort (newest | oldest | rarity_asc | rarity_desc),
+ *        traits = JSON {"Background":["Gold","Red"]} (AND across types, OR within a type),
+ *        facets=1 → also return trait facet counts for the current filter.
+ * Each item carries `stolen` ("flagged" | "reported" | null) for the warning badge.
+ */
+
+async function withStolen<T extends { tokenId: string }>(contract: string, items: T[]) {
+  const states = await getStolenStates(items.map((i) => ({ contract, tokenId: i.tokenId })));
+  return items.map((i) => ({ ...i, stolen: states.get(stolenKey(contract, i.tokenId)) ?? null }));
+}
 
 export async function GET(
   req: NextRequest,
@@ -29,17 +51,24 @@ export async function GET(
   const auctioned = url.searchParams.get("auctioned") === "true";
 
   const sort = (url.searchParams.get("sort") || "newest").toLowerCase(); // newest | oldest | rarity_asc | rarity_desc
+  const traits = parseTraitFilters(url.searchParams.get("traits"));
+  const hasTraits = Object.keys(traits).length > 0;
+  const wantFacets = url.searchParams.get("facets") === "1" || url.searchParams.get("facets") === "true";
 
   // Resolve canonical contract
   const col = await prisma.collection.findFirst({
     where: { contract: { equals: rawContract, mode: "insensitive" } },
     select: { contract: true },
   });
-  if (!col) return NextResponse.json({ items: [], nextCursor: null });
+  if (!col) return NextResponse.json({ items: [], nextCursor: null, ...(wantFacets ? { facets: [] } : {}) });
 
   const canon = col.contract;
   const now = new Date();
 
+  const facets: TraitFacet[] | undefined = wantFacets
+    ? await traitFacets({ contract: canon, search, listed, auctioned, traits })
+    : undefined;
+
   const where: any = { contract: canon, status: NftStatus.SUCCESS };
 
   if (search) {
@@ -77,7 +106,7 @@ export async function GET(
     }
   }
 
-  // Rarity sorting: keep your existing raw SQL (IDs + rank), then fetch by IDs
+  // Rarity sorting: raw SQL (IDs + rank) over the same filters, then fetch by IDs
   if (sort === "rarity_asc" || sort === "rarity_desc") {
     const dir = sort === "rarity_desc" ? "DESC" : "ASC";
 
@@ -92,44 +121,26 @@ export async function GET(
       } catch {}
     }
 
-    const rows = await prisma.$queryRawUnsafe<{ id: string; rank: number }[]>(
-      `
+    const rows = await prisma.$queryRaw<{ id: string; rank: number }[]>(Prisma.sql`
       SELECT n.id, r.rank
       FROM "NFT" n
       JOIN "NFTRarity" r
         ON lower(r.contract) = lower(n.contract)
        AND r."tokenId" = n."tokenId"
-      WHERE lower(n.contract) = lower($1)
-        AND n.status = $2
-        ${search ? `AND (n.name ILIKE $3 OR n."tokenId" ILIKE $4)` : ""}
+      WHERE ${itemsWhereSql({ contract: canon, search, listed, auctioned, traits })}
         ${
           cursorRank != null && cursorId
-            ? `AND (r.rank ${dir === "ASC" ? ">" : "<"} $${search ? 5 : 3}
-                  OR (r.rank = $${search ? 5 : 3} AND n.id ${dir === "ASC" ? ">" : "<"} $${search ? 6 : 4}))`
-            : ""
+            ? dir === "ASC"
+              ? Prisma.sql`AND (r.rank > ${cursorRank} OR (r.rank = ${cursorRank} AND n.id > ${cursorId}))`
+              : Prisma.sql`AND (r.rank < ${cursorRank} OR (r.rank = ${cursorRank} AND n.id < ${cursorId}))`
+            : Prisma.empty
         }
-      ORDER BY r.rank ${dir}, n.id ${dir}
-      LIMIT $${search ? (cursorRank != null ? 7 : 5) : cursorRank != null ? 5 : 3}
-      `,
-      ...(search
-        ? [
-            canon,
-            NftStatus.SUCCESS,
-            `%${search}%`,
-            `%${search}%`,
-            ...(cursorRank != null && cursorId ? [cursorRank, cursorId] : []),
-            limit,
-          ]
-        : [
-            canon,
-            NftStatus.SUCCESS,
-            ...(cursorRank != null && cursorId ? [cursorRank, cursorId] : []),
-            limit,
-          ])
-    );
+      ORDER BY r.rank ${Prisma.raw(dir)}, n.id ${Prisma.raw(dir)}
+      LIMIT ${limit}
+    `);
 
     const ids = rows.map((r) => r.id);
-    if (ids.length === 0) return NextResponse.json({ items: [], nextCursor: null });
+    if (ids.length === 0) return NextResponse.json({ items: [], nextCursor: null, facets });
 
     const nfts = await prisma.nFT.findMany({
       where: { id: { in: ids } },
@@ -196,18 +207,26 @@ export async function GET(
         ? Buffer.from(JSON.stringify({ rank: last.rank, id: last.id }), "utf8").toString("base64")
         : null;
 
-    return NextResponse.json({ items, nextCursor }, { headers: { "Cache-Control": "no-store" } });
+    return NextResponse.json(
+      { items: await withStolen(canon, items), nextCursor, facets },
+      { headers: { "Cache-Control": "no-store" } }
+    );
   }
 
   // newest/oldest
-  const orderBy =
-    sort === "oldest" ? ({ createdAt: "asc" } as const) : ({ createdAt: "desc" } as const);
+  const oldest = sort === "oldest";
+  const orderBy = oldest ? ({ createdAt: "asc" } as const) : ({ createdAt: "desc" } as const);
+
+  // trait filters are JSON lookups Prisma can't express: page the ids in SQL, then load them
+  const page = hasTraits
+    ? await itemIdsPage({ contract: canon, search, listed, auctioned, traits }, { oldest, cursor, limit })
+    : null;
 
   const raw = await prisma.nFT.findMany({
-    where,
+    where: page ? { id: { in: page } } : where,
     orderBy: [orderBy, { id: "asc" }],
     take: limit,
-    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    ...(cursor && !page ? { cursor: { id: cursor }, skip: 1 } : {}),
     select: {
       id: true,
       tokenId: true,
@@ -259,5 +278,8 @@ export async function GET(
 
   const nextCursor = raw.length === limit ? raw[raw.length - 1].id : null;
 
-  return NextResponse.json({ items, nextCursor }, { headers: { "Cache-Control": "no-store" } });
+  return NextResponse.json(
+    { items: await withStolen(canon, items), nextCursor, facets },
+    { headers: { "Cache-Control": "no-store" } }
+  );
 }
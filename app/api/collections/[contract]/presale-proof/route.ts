@@ -0,0 +1,31 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/collections/[contract]/presale-proof/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { prismaReady } from "@/src/lib/db";
+import { getPresaleProof } from "@/src/lib/server/presale";
+
+/**
+ * Merkle proof for ERC721Drop.presaleMint(quantity, proof).
+ * GET ?address=0x… → { eligible, reason, message, proof, maxAllocation, merkleRoot, startISO, endISO }
+ * `reason` is set whenever eligible is false (NO_PRESALE, NOT_ALLOWLISTED, PRESALE_NOT_STARTED, …).
+ */
+export async function GET(req: NextRequest, context: { params: Promise<{ contract: string }> }) {
+  await prismaReady;
+
+  const { contract } = await context.params;
+  const address = req.nextUrl.searchParams.get("address") || "";
+  if (!ethers.isAddress(contract)) return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+  if (!ethers.isAddress(address)) return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+
+  try {
+    const r = await getPresaleProof(contract, address);
+    return NextResponse.json(r, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    console.error("[api presale-proof] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
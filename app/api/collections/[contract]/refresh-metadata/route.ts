@@ -0,0 +1,84 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/collections/[contract]/refresh-metadata/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import {
+  latestCollectionRefresh,
+  refreshCooldown,
+  startCollectionRefresh,
+} from "@/src/lib/server/metadata";
+
+/**
+ * Whole-collection metadata refresh (collection owner only).
+ * GET  → { indexStatus, refresh } — poll while indexStatus is QUEUED/INDEXING
+ * POST → queue a refresh for the metadata worker (rate limited)
+ */
+
+function toDTO(r: Awaited<ReturnType<typeof latestCollectionRefresh>>) {
+  if (!r) return null;
+  return { ...r, createdAt: r.createdAt.toISOString(), finishedAt: r.finishedAt?.toISOString() ?? null };
+}
+
+export async function GET(_req: NextRequest, context: { params: Promise<{ contract: string }> }) {
+  await prismaReady;
+  const { contract } = await context.params;
+
+  const col = await prisma.collection.findFirst({
+    where: { contract },
+    select: { contract: true, indexStatus: true },
+  });
+  if (!col) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  return NextResponse.json(
+    { indexStatus: col.indexStatus, refresh: toDTO(await latestCollectionRefresh(col.contract)) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+export async function POST(_req: NextRequest, context: { params: Promise<{ contract: string }> }) {
+  await prismaReady;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const { contract } = await context.params;
+  if (!ethers.isAddress(contract)) return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+
+  try {
+    const col = await prisma.collection.findFirst({
+      where: { contract },
+      select: { contract: true, ownerAddress: true, indexStatus: true },
+    });
+    if (!col) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if (col.ownerAddress.toLowerCase() !== wallet.toLowerCase()) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (col.indexStatus === "QUEUED" || col.indexStatus === "INDEXING") {
+      return NextResponse.json({ error: "Collection is already being indexed" }, { status: 409 });
+    }
+
+    const wait = await refreshCooldown({ contract: col.contract, tokenId: null, wallet });
+    if (wait > 0) {
+      const retryAfter = Math.ceil(wait / 1000);
+      return NextResponse.json(
+        { error: `Refreshed recently. Try again in ${Math.ceil(retryAfter / 60)} min.`, retryAfter },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    await startCollectionRefresh(col.contract, wallet);
+    return NextResponse.json({
+      ok: true,
+      indexStatus: "QUEUED",
+      refresh: toDTO(await latestCollectionRefresh(col.contract)),
+    });
+  } catch (e: any) {
+    console.error("[api collection refresh-metadata] error:", e);
+    return NextResponse.json({ error: e?.message || "Internal error" }, { status: 500 });
+  }
+}
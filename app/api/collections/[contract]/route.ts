@@ -4,12 +4,15 @@ export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import { markRarityStale, RARITY_METHODS } from "@/src/lib/server/rarity";
+import { getNativeCollectionStats } from "@/src/lib/server/collection-stats";
 import {
   AuctionStatus,
   ListingStatus,
   NftStatus,
-  CurrencyKind,
   Prisma,
+  type RarityMethod,
 } from "@/src/lib/generated/prisma/client";
 
 type HeaderDTO = {
@@ -41,6 +44,7 @@ type HeaderDTO = {
 
   rarityEnabled?: boolean | null;
   rarityPopulation?: number | null;
+  rarityMethod?: RarityMethod | null;
 };
 
 function ipfsToHttp(url?: string | null) {
@@ -54,21 +58,6 @@ function ipfsToHttp(url?: string | null) {
   return u;
 }
 
-function toNumber(x: any): number {
-  if (x == null) return 0;
-  try {
-    return Number((x as any).toString());
-  } catch {
-    return Number(x) || 0;
-  }
-}
-
-function weiToEtn(wei: any): number {
-  if (wei == null) return 0;
-  const s = (wei as any).toString?.() ?? String(wei);
-  return Number(s) / 1e18;
-}
-
 function safeStr(u?: any): string | null {
   if (u == null) return null;
   const s = String(u).trim();
@@ -83,41 +72,6 @@ function normalizeUrl(u?: string | null): string | null {
   return `https://${s}`;
 }
 
-/** Native ETN floor + native ETN all-time volume. */
-async function computeNativeStats(contract: string) {
-  const now = new Date();
-
-  const cheapest = await prisma.marketplaceListing.findFirst({
-    where: {
-      status: ListingStatus.ACTIVE,
-      nft: { contract },
-      startTime: { lte: now },
-      AND: [
-        { OR: [{ endTime: null }, { endTime: { gt: now } }] },
-        { OR: [{ currencyId: null }, { currency: { kind: CurrencyKind.NATIVE } }] },
-      ],
-    },
-    orderBy: { priceEtnWei: "asc" },
-    select: { priceEtnWei: true },
-  });
-
-  const floorPrice = cheapest?.priceEtnWei ? weiToEtn(cheapest.priceEtnWei) : null;
-
-  const rows = await prisma.$queryRaw<Array<{ sumWei: any }>>(Prisma.sql`
-    SELECT COALESCE(SUM(s."priceEtnWei")::numeric, 0) AS "sumWei"
-    FROM "MarketplaceSale" s
-    JOIN "NFT" n ON n."id" = s."nftId"
-    LEFT JOIN "Currency" c ON c."id" = s."currencyId"
-    WHERE lower(n.contract) = lower(${contract})
-      AND (s."currencyId" IS NULL OR c."kind" = 'NATIVE')
-  `);
-
-  const sumWei = toNumber(rows?.[0]?.sumWei ?? 0);
-  const volume = sumWei > 0 ? sumWei / 1e18 : 0;
-
-  return { floorPrice, volume };
-}
-
 async function computeRarityPopulation(contract: string) {
   try {
     const rows = await prisma.$queryRaw<Array<{ cnt: any }>>(Prisma.sql`
@@ -155,9 +109,9 @@ export async function GET(
       discord: true,
       telegram: true,
       supply: true,
-      ownersCount: true,
       itemsCount: true,
       ownerAddress: true, // ✅
+      rarityMethod: true,
     },
   });
 
@@ -189,8 +143,8 @@ export async function GET(
     }),
   ]);
 
-  const [{ floorPrice, volume }, rarity] = await Promise.all([
-    computeNativeStats(canon),
+  const [stats, rarity] = await Promise.all([
+    getNativeCollectionStats(col.id),
     computeRarityPopulation(canon),
   ]);
 
@@ -211,18 +165,19 @@ export async function GET(
 
     ownerAddress: col.ownerAddress ?? null,
 
-    floorPrice,
-    volume,
+    floorPrice: stats.floorPrice,
+    volume: stats.volume,
 
     supply: col.supply ?? null,
     itemsCount: itemsCount ?? col.itemsCount ?? null,
-    ownersCount: col.ownersCount ?? 0,
+    ownersCount: stats.ownersCount,
 
     listingActiveCount,
     auctionActiveCount,
 
     rarityEnabled: rarity.rarityEnabled,
     rarityPopulation: rarity.rarityPopulation,
+    rarityMethod: col.rarityMethod,
   };
 
   const resp = NextResponse.json(header, { status: 200 });
@@ -240,15 +195,13 @@ export async function PATCH(
   try {
     const col = await prisma.collection.findFirst({
       where: { contract: { equals: rawParam, mode: "insensitive" } },
-      select: { id: true, ownerAddress: true },
+      select: { id: true, contract: true, ownerAddress: true },
     });
     if (!col) return NextResponse.json({ error: "Not found" }, { status: 404 });
 
-    const ownerHeader = req.headers.get("x-owner-wallet");
-    if (!ownerHeader) {
-      return NextResponse.json({ error: "Missing x-owner-wallet" }, { status: 401 });
-    }
-    if (String(col.ownerAddress || "").toLowerCase() !== ownerHeader.toLowerCase()) {
+    const wallet = await requireWallet();
+    if (wallet instanceof NextResponse) return wallet;
+    if (String(col.ownerAddress || "").toLowerCase() !== wallet.toLowerCase()) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
@@ -266,12 +219,21 @@ export async function PATCH(
     if ("discord" in body) data.discord = normalizeUrl(safeStr((body as any).discord));
     if ("logoUrl" in body) data.logoUrl = safeStr((body as any).logoUrl);
     if ("coverUrl" in body) data.coverUrl = safeStr((body as any).coverUrl);
+    if ("rarityMethod" in body) {
+      const m = String((body as any).rarityMethod || "").toUpperCase() as RarityMethod;
+      if (!RARITY_METHODS.includes(m)) {
+        return NextResponse.json({ error: "Invalid rarity method" }, { status: 400 });
+      }
+      data.rarityMethod = m;
+    }
 
     if (Object.keys(data).length === 0) {
       return NextResponse.json({ error: "No updatable fields provided" }, { status: 400 });
     }
 
     await prisma.collection.update({ where: { id: col.id }, data });
+    // the rarity worker re-ranks with the new method on its next pass
+    if (data.rarityMethod) await markRarityStale(col.contract);
     return NextResponse.json({ success: true });
   } catch (err: any) {
     console.error("[PATCH /api/collections/[contract]]", err);
@@ -0,0 +1,42 @@
+// app/api/collections/[contract]/stats/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import {
+  getCollectionStats,
+  SaleStatsError,
+  STATS_INTERVALS,
+  type StatsInterval,
+} from "@/src/lib/server/sale-stats";
+
+type Ctx = { params: Promise<{ contract: string }> };
+
+/**
+ * Sales time-series for one collection.
+ * GET ?interval=hour|day&currency=native|<currencyId>
+ *   → { buckets: [{ t, volume, sales, floor, avg, median }], points: [{ t, price, … }], totals }
+ * hour covers the last 7 days, day the last year; amounts are base-unit strings.
+ */
+export async function GET(req: NextRequest, context: Ctx) {
+  const { contract } = await context.params;
+  if (!ethers.isAddress(contract)) return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+
+  const raw = req.nextUrl.searchParams.get("interval") ?? "day";
+  if (!STATS_INTERVALS.includes(raw as StatsInterval)) {
+    return NextResponse.json({ error: "interval must be hour or day" }, { status: 400 });
+  }
+
+  try {
+    const stats = await getCollectionStats(contract, {
+      interval: raw as StatsInterval,
+      currency: req.nextUrl.searchParams.get("currency"),
+    });
+    return NextResponse.json(stats, { headers: { "Cache-Control": "s-maxage=60, stale-while-revalidate=300" } });
+  } catch (e) {
+    if (e instanceof SaleStatsError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api collection stats] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
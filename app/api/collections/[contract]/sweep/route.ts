@@ -0,0 +1,34 @@
+// app/api/collections/[contract]/sweep/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { CartError, getSweepListings } from "@/src/lib/server/cart";
+
+type Ctx = { params: Promise<{ contract: string }> };
+
+/**
+ * Cheapest live listings to sweep into the cart.
+ * GET ?currency=native|<currencyId>&count=N[&budget=<base units>][&buyer=0x…]
+ *   → { listings: CartListingDTO[], total }
+ */
+export async function GET(req: NextRequest, context: Ctx) {
+  const { contract } = await context.params;
+  if (!ethers.isAddress(contract)) return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+
+  const sp = req.nextUrl.searchParams;
+  try {
+    const out = await getSweepListings(contract, {
+      currency: sp.get("currency") || "native",
+      count: Number(sp.get("count") ?? 0),
+      budget: sp.get("budget"),
+      buyer: sp.get("buyer"),
+    });
+    return NextResponse.json(out, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    if (e instanceof CartError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api collection sweep] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
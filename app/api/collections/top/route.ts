@@ -15,12 +15,6 @@ function parseWindow(v: string | null): WindowKey {
   return v === "24h" || v === "7d" || v === "30d" ? v : WINDOW_DEFAULT;
 }
 
-function windowToMs(windowKey: WindowKey): number {
-  if (windowKey === "7d") return 7 * 24 * 60 * 60 * 1000;
-  if (windowKey === "30d") return 30 * 24 * 60 * 60 * 1000;
-  return 24 * 60 * 60 * 1000;
-}
-
 function toNum(baseStr: string, decimals: number) {
   const s = ethers.formatUnits(baseStr, decimals);
   const n = Number(s);
@@ -84,67 +78,14 @@ async function resolveCurrency(q: string | null): Promise<CurrencyMeta> {
   };
 }
 
-function whereForCurrency(cur: CurrencyMeta): Prisma.MarketplaceSaleWhereInput {
-  if (cur.kind === "NATIVE") {
-    return { OR: [{ currencyId: null }, { currency: { kind: CurrencyKind.NATIVE } }] };
-  }
-  return { currencyId: cur.id };
-}
-
-async function listingFloorPerCollection(
-  candidateIds: string[],
-  cur: CurrencyMeta,
-  now: Date
-): Promise<Map<string, number>> {
-  const map = new Map<string, number>();
-  if (!candidateIds.length) return map;
-
-  const rows = await prisma.marketplaceListing.findMany({
-    where: {
-      status: "ACTIVE",
-      startTime: { lte: now },
-      nft: { collectionId: { in: candidateIds }, status: "SUCCESS" },
-      AND: [
-        { OR: [{ endTime: null }, { endTime: { gt: now } }] },
-        ...(cur.kind === "NATIVE"
-          ? [{ OR: [{ currencyId: null }, { currency: { kind: CurrencyKind.NATIVE } }] }]
-          : [{ currencyId: cur.id }]),
-      ],
-    },
-    select: {
-      priceEtnWei: true,
-      priceTokenAmount: true,
-      currency: { select: { decimals: true } },
-      nft: { select: { collectionId: true } },
-    },
-    orderBy: [{ priceEtnWei: "asc" }, { priceTokenAmount: "asc" }],
-    take: 20_000,
-  });
-
-  for (const r of rows) {
-    const cid = r.nft.collectionId;
-    if (!cid) continue;
-
-    const baseStr =
-      cur.kind === "NATIVE"
-        ? r.priceEtnWei?.toString()
-        : r.priceTokenAmount?.toString();
-
-    if (!baseStr) continue;
-
-    const dec =
-      cur.kind === "NATIVE"
-        ? 18
-        : r.currency?.decimals ?? cur.decimals;
-
-    const human = toNum(baseStr, dec);
-
-    const prev = map.get(cid);
-    if (prev == null || human < prev) map.set(cid, human);
-  }
+type VolumeColumn = "volume24h" | "volumePrev24h" | "volume7d" | "volumePrev7d" | "volume30d" | "volumePrev30d";
 
-  return map;
-}
+/** Snapshot columns holding the window's volume and the window before it. */
+const WINDOW_COLUMNS: Record<WindowKey, [VolumeColumn, VolumeColumn]> = {
+  "24h": ["volume24h", "volumePrev24h"],
+  "7d": ["volume7d", "volumePrev7d"],
+  "30d": ["volume30d", "volumePrev30d"],
+};
 
 export async function GET(req: NextRequest) {
   await prismaReady;
@@ -156,62 +97,19 @@ export async function GET(req: NextRequest) {
     const currencyQ = (url.searchParams.get("currency") || "native").trim();
 
     const now = new Date();
-    const ms = windowToMs(windowKey);
-    const startA = new Date(now.getTime() - ms);
-    const startB = new Date(now.getTime() - ms * 2);
-
     const curMeta = await resolveCurrency(currencyQ);
-    const whereCur = whereForCurrency(curMeta);
-
-    const fetchSalesWindow = async (from: Date, to?: Date) => {
-      return prisma.marketplaceSale.findMany({
-        where: {
-          timestamp: { gte: from, ...(to ? { lt: to } : {}) },
-          ...whereCur,
-        },
-        select: {
-          priceEtnWei: true,
-          priceTokenAmount: true,
-          currency: { select: { decimals: true } },
-          nft: { select: { collectionId: true } },
-        },
-        orderBy: { timestamp: "desc" },
-        take: 200_000,
-      });
-    };
-
-    const [currentSales, previousSales] = await Promise.all([
-      fetchSalesWindow(startA),
-      fetchSalesWindow(startB, startA),
-    ]);
-
-    const sumByCollection = (rows: typeof currentSales) => {
-      const m = new Map<string, number>();
-      for (const r of rows) {
-        const cid = r.nft.collectionId;
-        if (!cid) continue;
-
-        if (curMeta.kind === "NATIVE") {
-          const base = r.priceEtnWei?.toString();
-          if (!base) continue;
-          m.set(cid, (m.get(cid) ?? 0) + toNum(base, 18));
-        } else {
-          const base = r.priceTokenAmount?.toString();
-          if (!base) continue;
-          const dec = r.currency?.decimals ?? curMeta.decimals;
-          m.set(cid, (m.get(cid) ?? 0) + toNum(base, dec));
-        }
-      }
-      return m;
-    };
-
-    const currMap = sumByCollection(currentSales);
-    const prevMap = sumByCollection(previousSales);
-
-    const rankedIds = [...currMap.entries()]
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, limit)
-      .map(([cid]) => cid);
+    const currencyKey = curMeta.kind === "NATIVE" ? "native" : curMeta.id;
+    const decimals = curMeta.kind === "NATIVE" ? 18 : curMeta.decimals;
+    const [windowCol, prevWindowCol] = WINDOW_COLUMNS[windowKey];
+
+    // Volumes come from CollectionStatsSnapshot; windows are relative to its computedAt.
+    const ranked = await prisma.collectionStatsSnapshot.findMany({
+      where: { currencyKey, [windowCol]: { gt: 0 } },
+      orderBy: { [windowCol]: "desc" },
+      take: limit,
+      select: { collectionId: true },
+    });
+    const rankedIds = ranked.map((r) => r.collectionId);
 
     const baseRanked = await prisma.collection.findMany({
       where: { id: { in: rankedIds } },
@@ -241,40 +139,11 @@ export async function GET(req: NextRequest) {
 
     const candidateIds = candidates.map((c) => c.id);
 
-    const floors = await listingFloorPerCollection(candidateIds, curMeta, now);
-
-    // ✅ BIG FIX: compute all-time sales ONLY for candidate collections (not the whole table)
-    const allTimeSales = await prisma.marketplaceSale.findMany({
-      where: {
-        ...whereCur,
-        nft: { collectionId: { in: candidateIds } },
-      },
-      select: {
-        priceEtnWei: true,
-        priceTokenAmount: true,
-        currency: { select: { decimals: true } },
-        nft: { select: { collectionId: true } },
-      },
-      orderBy: { timestamp: "desc" },
-      take: 300_000,
+    const snapshots = await prisma.collectionStatsSnapshot.findMany({
+      where: { currencyKey, collectionId: { in: candidateIds } },
     });
-
-    const allTimeMap = new Map<string, number>();
-    for (const r of allTimeSales) {
-      const cid = r.nft.collectionId;
-      if (!cid) continue;
-
-      if (curMeta.kind === "NATIVE") {
-        const base = r.priceEtnWei?.toString();
-        if (!base) continue;
-        allTimeMap.set(cid, (allTimeMap.get(cid) ?? 0) + toNum(base, 18));
-      } else {
-        const base = r.priceTokenAmount?.toString();
-        if (!base) continue;
-        const dec = r.currency?.decimals ?? curMeta.decimals;
-        allTimeMap.set(cid, (allTimeMap.get(cid) ?? 0) + toNum(base, dec));
-      }
-    }
+    const snapById = new Map(snapshots.map((r) => [r.collectionId, r]));
+    const amount = (v: Prisma.Decimal | null | undefined) => (v ? toNum(v.toFixed(0), decimals) : 0);
 
     const shaped = candidates.map((c) => {
       const minted = c.itemsCount ?? 0;
@@ -292,8 +161,9 @@ export async function GET(req: NextRequest) {
         ? { isActive: true, activePhase: "public" as const }
         : { isActive: false, activePhase: null };
 
-      const volCurr = currMap.get(c.id) ?? 0;
-      const volPrev = prevMap.get(c.id) ?? 0;
+      const snap = snapById.get(c.id);
+      const volCurr = amount(snap?.[windowCol]);
+      const volPrev = amount(snap?.[prevWindowCol]);
 
       return {
         id: c.id,
@@ -301,11 +171,11 @@ export async function GET(req: NextRequest) {
         contract: c.contract,
         logoUrl: c.logoUrl,
         coverUrl: c.coverUrl,
-        floor: floors.get(c.id) ?? 0,
+        floor: amount(snap?.floorPrice),
         volumeWindow: volCurr,
         volumePrevWindow: volPrev,
         changePct: pctChange(volCurr, volPrev),
-        volumeAllTime: allTimeMap.get(c.id) ?? 0,
+        volumeAllTime: amount(snap?.volumeAllTime),
         sale,
         isSoldOut,
         currency: curMeta,
@@ -0,0 +1,65 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/create/confirm/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import type { MetadataOption } from "@/src/lib/generated/prisma/client";
+import { requireWallet } from "@/src/lib/server/auth";
+import { confirmDeployment, LaunchpadError, METADATA_OPTIONS } from "@/src/lib/server/launchpad";
+
+/**
+ * Record a factory deployment after its tx is mined.
+ * POST { txHash, metadataOption, description?, logoUrl?, coverUrl?, imageUrl?, uploadIds?, presaleDraftId? }
+ *   → { cloneAddress, contractType, presaleWarning? }
+ */
+
+function safeStr(v: unknown, max: number) {
+  if (typeof v !== "string") return null;
+  const s = v.trim();
+  return s ? s.slice(0, max) : null;
+}
+
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const txHash = safeStr(body.txHash, 66)?.toLowerCase() ?? null;
+  if (!txHash || !/^0x[0-9a-f]{64}$/.test(txHash)) {
+    return NextResponse.json({ error: "Invalid txHash" }, { status: 400 });
+  }
+  const metadataOption = String(body.metadataOption || "").toUpperCase() as MetadataOption;
+  if (!METADATA_OPTIONS.includes(metadataOption)) {
+    return NextResponse.json({ error: "Invalid metadataOption" }, { status: 400 });
+  }
+  const uploadIds = Array.isArray(body.uploadIds)
+    ? body.uploadIds.filter((x: unknown): x is string => typeof x === "string").slice(0, 20)
+    : [];
+
+  try {
+    const r = await confirmDeployment({
+      txHash,
+      wallet,
+      metadataOption,
+      description: safeStr(body.description, 2000),
+      logoUrl: safeStr(body.logoUrl, 500),
+      coverUrl: safeStr(body.coverUrl, 500),
+      imageUrl: safeStr(body.imageUrl, 500),
+      uploadIds,
+      presaleDraftId: safeStr(body.presaleDraftId, 64),
+    });
+    return NextResponse.json({ ok: true, ...r }, { status: r.alreadyRecorded ? 200 : 201 });
+  } catch (e: any) {
+    if (e instanceof LaunchpadError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api create confirm] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+// app/api/create/fees/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { getFactoryAddress, listActiveFees } from "@/src/lib/server/launchpad";
+
+/** GET → factory address + active deployment fees per (contractType, metadataOption). */
+export async function GET() {
+  await prismaReady;
+  try {
+    return NextResponse.json(
+      { factory: getFactoryAddress(), fees: await listActiveFees() },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e) {
+    console.error("[api create fees] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/create/presale/[id]/finalize/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import { finalizePresaleDraft, PresaleError } from "@/src/lib/server/presale";
+
+/**
+ * Finalize an allowlist draft.
+ * POST {}            → FINALIZED; its merkleRoot goes into the drop deployment
+ * POST { contract }  → bound to that drop's existing presale (roots must match)
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  await prismaReady;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const { id } = await context.params;
+  const body = (await req.json().catch(() => ({}))) as Record<string, any> | null;
+  const contract = typeof body?.contract === "string" ? body.contract.trim() : null;
+  if (contract && !ethers.isAddress(contract)) {
+    return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+  }
+
+  try {
+    const draft = await finalizePresaleDraft(id, wallet, { contract });
+    return NextResponse.json(draft, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    if (e instanceof PresaleError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api create presale finalize] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/create/presale/[id]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import { getPresaleDraft, PresaleError } from "@/src/lib/server/presale";
+
+/**
+ * Preview one of my allowlist drafts.
+ * GET ?offset=&limit= → draft (entries paged, limit ≤ 500)
+ */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  await prismaReady;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const { id } = await context.params;
+  const sp = req.nextUrl.searchParams;
+  const offset = Math.max(0, Number(sp.get("offset")) || 0);
+  const limit = Math.min(500, Math.max(1, Number(sp.get("limit")) || 100));
+
+  try {
+    const draft = await getPresaleDraft(id, wallet, { offset, limit });
+    return NextResponse.json(draft, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    if (e instanceof PresaleError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api create presale draft] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
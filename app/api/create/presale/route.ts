@@ -0,0 +1,37 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/create/presale/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import { createPresaleDraft, PresaleError } from "@/src/lib/server/presale";
+
+/**
+ * Build a presale allowlist draft from CSV ("address[,allocation]" per line).
+ * POST { csv } → { draft, invalid, invalidCount, duplicates }
+ */
+
+const MAX_CSV_CHARS = 1_000_000;
+
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+  const csv = typeof body?.csv === "string" ? body.csv : null;
+  if (!csv || !csv.trim()) return NextResponse.json({ error: "CSV is required" }, { status: 400 });
+  if (csv.length > MAX_CSV_CHARS) return NextResponse.json({ error: "CSV is too large" }, { status: 413 });
+
+  try {
+    const r = await createPresaleDraft(wallet, csv);
+    return NextResponse.json(r, { status: 201, headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    if (e instanceof PresaleError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api create presale] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/create/upload/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import { LaunchpadError, pinFiles, pinJson, type PinnedFile } from "@/src/lib/server/launchpad";
+
+/**
+ * Pin launchpad assets to IPFS (multipart).
+ * kind=single: file, name, description?, attributes? (JSON [{trait_type,value}])
+ *   → { tokenUri, imageUrl, uploadIds }       (ERC721 single / ERC1155 drop)
+ * kind=drop:   files[] (in token order), name, description?
+ *   → { baseUri, count, imageUrl, uploadIds } (ERC721 drop: metadata "1".."N" under baseUri)
+ */
+
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+const MAX_DROP_FILES = 1000;
+const MAX_DROP_BYTES = 500 * 1024 * 1024;
+
+async function toPinned(file: File, name = file.name): Promise<PinnedFile> {
+  return {
+    name: name.replace(/[^\w.-]+/g, "_"),
+    bytes: new Uint8Array(await file.arrayBuffer()),
+    contentType: file.type || "application/octet-stream",
+  };
+}
+
+function ext(name: string) {
+  const m = name.match(/\.[a-z0-9]{1,5}$/i);
+  return m ? m[0].toLowerCase() : "";
+}
+
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const form = await req.formData().catch(() => null);
+  if (!form) return NextResponse.json({ error: "Invalid form data" }, { status: 400 });
+
+  const kind = String(form.get("kind") || "");
+  const name = String(form.get("name") || "").trim().slice(0, 100);
+  const description = String(form.get("description") || "").trim().slice(0, 2000) || undefined;
+  if (!name) return NextResponse.json({ error: "Name is required" }, { status: 400 });
+
+  try {
+    if (kind === "single") {
+      const file = form.get("file");
+      if (!(file instanceof File)) return NextResponse.json({ error: "File is required" }, { status: 400 });
+      if (file.size > MAX_FILE_BYTES) return NextResponse.json({ error: "File is larger than 25MB" }, { status: 400 });
+
+      let attributes: unknown[] = [];
+      try {
+        const raw = JSON.parse(String(form.get("attributes") || "[]"));
+        if (Array.isArray(raw)) {
+          attributes = raw
+            .filter((a) => a && typeof a.trait_type === "string" && a.trait_type.trim() && a.value !== undefined)
+            .slice(0, 50);
+        }
+      } catch {
+        return NextResponse.json({ error: "Invalid attributes" }, { status: 400 });
+      }
+
+      const media = await pinFiles([await toPinned(file)], { label: `${name} media`, uploader: wallet });
+      const meta = await pinJson(
+        { name, description, image: media.url, attributes },
+        { label: `${name} metadata`, uploader: wallet }
+      );
+      return NextResponse.json({ tokenUri: meta.url, imageUrl: media.url, uploadIds: [media.id, meta.id] });
+    }
+
+    if (kind === "drop") {
+      const files = form.getAll("files").filter((f): f is File => f instanceof File);
+      if (!files.length) return NextResponse.json({ error: "Add at least one file" }, { status: 400 });
+      if (files.length > MAX_DROP_FILES) {
+        return NextResponse.json({ error: `At most ${MAX_DROP_FILES} files per drop` }, { status: 400 });
+      }
+      const total = files.reduce((n, f) => n + f.size, 0);
+      if (total > MAX_DROP_BYTES || files.some((f) => f.size > MAX_FILE_BYTES)) {
+        return NextResponse.json({ error: "Files are too large (25MB each, 500MB total)" }, { status: 400 });
+      }
+
+      // token N (1-based) ↔ Nth file; ERC721Drop tokenURI = baseURI + tokenId
+      const media = await pinFiles(
+        await Promise.all(files.map((f, i) => toPinned(f, `${i + 1}${ext(f.name)}`))),
+        { label: `${name} media`, uploader: wallet, asDirectory: true }
+      );
+      const metadata: PinnedFile[] = files.map((f, i) => ({
+        name: String(i + 1),
+        contentType: "application/json",
+        bytes: new TextEncoder().encode(
+          JSON.stringify({
+            name: `${name} #${i + 1}`,
+            description,
+            image: `${media.url}${i + 1}${ext(f.name)}`,
+            attributes: [],
+          })
+        ),
+      }));
+      const meta = await pinFiles(metadata, { label: `${name} metadata`, uploader: wallet, asDirectory: true });
+
+      return NextResponse.json({
+        baseUri: meta.url,
+        count: files.length,
+        imageUrl: `${media.url}1${ext(files[0].name)}`,
+        uploadIds: [media.id, meta.id],
+      });
+    }
+
+    return NextResponse.json({ error: "Invalid kind" }, { status: 400 });
+  } catch (e: any) {
+    if (e instanceof LaunchpadError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api create upload] error:", e);
+    return NextResponse.json({ error: "Upload failed" }, { status: 500 });
+  }
+}
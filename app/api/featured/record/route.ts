@@ -0,0 +1,29 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/featured/record/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { FeaturedError, recordFeaturedTx } from "@/src/lib/server/featured";
+
+/**
+ * Apply a mined bid / finalize tx without waiting for the indexer (idempotent).
+ * POST { txHash } → { ok, applied }
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+  const txHash = typeof body?.txHash === "string" ? body.txHash.trim().toLowerCase() : "";
+  if (!/^0x[0-9a-f]{64}$/.test(txHash)) return NextResponse.json({ error: "Invalid txHash" }, { status: 400 });
+
+  try {
+    const r = await recordFeaturedTx(txHash);
+    return NextResponse.json({ ok: true, ...r });
+  } catch (e: any) {
+    if (e instanceof FeaturedError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api featured record] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+// app/api/featured/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { prismaReady } from "@/src/lib/db";
+import { getFeaturedAuctionState } from "@/src/lib/server/featured";
+
+/**
+ * Featured auction: current cycle, leaderboard and (with ?address=) the wallet's bid,
+ * collections it can bid for and unclaimed refunds.
+ * GET ?address=0x… → { contract, cycle, leaderboard, me }
+ */
+export async function GET(req: NextRequest) {
+  await prismaReady;
+
+  const address = req.nextUrl.searchParams.get("address") || "";
+  if (address && !ethers.isAddress(address)) return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+
+  try {
+    const state = await getFeaturedAuctionState(address ? ethers.getAddress(address.toLowerCase()) : null);
+    return NextResponse.json(state, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    console.error("[api featured] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -4,7 +4,8 @@ export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
 import prisma, { prismaReady } from "@/src/lib/db";
-import { CurrencyKind, ListingStatus } from "@/src/lib/generated/prisma/client";
+import { CurrencyKind, ListingMode, ListingStatus } from "@/src/lib/generated/prisma/client";
+import { getDutchListingInfo } from "@/src/lib/server/dutch-listings";
 import { NextRequest, NextResponse } from "next/server";
 import { ethers } from "ethers";
 
@@ -118,6 +119,7 @@ function getMarket() {
 
 type DbRow = {
   id: string;
+  mode: ListingMode;
   startTime: Date;
   endTime: Date | null;
   sellerAddress: string | null;
@@ -240,6 +242,7 @@ export async function GET(req: NextRequest) {
       ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
       select: {
         id: true,
+        mode: true,
         startTime: true,
         endTime: true,
         sellerAddress: true,
@@ -285,6 +288,10 @@ export async function GET(req: NextRequest) {
         )
       : page.map((l) => ({ row: l, truth: null as any }));
 
+    const dutchInfo = await getDutchListingInfo(
+      page.filter((l) => l.mode === ListingMode.DUTCH).map((l) => l.id)
+    );
+
     const filtered = truthResults
       .filter(({ row, truth }) => {
         // if chainTruth enabled, drop non-truthy entries
@@ -341,6 +348,11 @@ export async function GET(req: NextRequest) {
 
         const sellerAddr = chainTruth ? (truth!.sellerAddress ?? row.sellerAddress) : row.sellerAddress;
 
+        // schedule prices are for the whole listing, like totalWei
+        const dutch = dutchInfo.get(row.id);
+        const unitOf = (wei: string | null) =>
+          wei != null ? formatUnitsSafe(BigInt(wei) / BigInt(qty), decimals) : null;
+
         return {
           id: row.id,
           nft: {
@@ -370,6 +382,20 @@ export async function GET(req: NextRequest) {
           },
           sellerAddress: sellerAddr,
           quantity: qty,
+          mode: row.mode,
+          dutch: dutch
+            ? {
+                scheduleId: dutch.scheduleId,
+                step: dutch.step,
+                stepCount: dutch.stepCount,
+                endPrice: unitOf(dutch.endPriceWei),
+                nextPrice: unitOf(dutch.nextPriceWei),
+                nextAt: dutch.nextAt,
+                dueStep: dutch.dueStep,
+                duePrice: unitOf(dutch.duePriceWei),
+                duePriceWei: dutch.duePriceWei,
+              }
+            : null,
         };
       });
 
@@ -0,0 +1,32 @@
+// app/api/marketplace/bulk/cancel/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { BulkListingError, getBulkCancelItems } from "@/src/lib/server/bulk-listing";
+
+const ids = (v: string | null) =>
+  (v ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+/**
+ * The seller's active listings / auctions among a selection.
+ * GET ?seller=0x..&listingIds=1,2&auctionIds=3
+ *   → { items: BulkCancelItemDTO[] } (anything no longer active is left out)
+ */
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  try {
+    const items = await getBulkCancelItems(sp.get("seller") ?? "", {
+      listingIds: ids(sp.get("listingIds")),
+      auctionIds: ids(sp.get("auctionIds")),
+    });
+    return NextResponse.json({ items }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    if (e instanceof BulkListingError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api bulk cancel] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+// app/api/marketplace/bulk/list/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { BulkListingError, getBulkListItems } from "@/src/lib/server/bulk-listing";
+
+const ids = (v: string | null) =>
+  (v ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+/**
+ * Bulk-list preview for a selection.
+ * GET ?owner=0x..&nftIds=<id>,<id>
+ *   → { items, skipped, floors } (see BulkListPreview)
+ */
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  try {
+    const preview = await getBulkListItems(sp.get("owner") ?? "", ids(sp.get("nftIds")));
+    return NextResponse.json(preview, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    if (e instanceof BulkListingError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api bulk list] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
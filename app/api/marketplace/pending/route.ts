@@ -0,0 +1,63 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/marketplace/pending/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import { getPendingActions, PendingActionError, registerPendingAction } from "@/src/lib/server/pending-actions";
+
+/** In-flight auction txs for one NFT. GET ?contract=&tokenId= → { items } */
+export async function GET(req: NextRequest) {
+  await prismaReady;
+  const contract = req.nextUrl.searchParams.get("contract") ?? "";
+  const tokenId = req.nextUrl.searchParams.get("tokenId") ?? "";
+  if (!ethers.isAddress(contract) || !/^\d+$/.test(tokenId)) {
+    return NextResponse.json({ error: "Invalid contract/tokenId" }, { status: 400 });
+  }
+
+  try {
+    const items = await getPendingActions(contract, tokenId);
+    return NextResponse.json({ items }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    console.error("[api marketplace pending] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
+
+/**
+ * Register a just-broadcast auction tx so it is applied even if the tab closes.
+ * POST { type, txHash, from, chainId, contract, tokenId, auctionId?, amountWei? } → { ok }
+ * `from` must be the signed-in wallet; nothing is trusted until the receipt is mined,
+ * sent by `from` to the marketplace and carries the action's event.
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+  const txHash = typeof body?.txHash === "string" ? body.txHash.trim().toLowerCase() : "";
+  if (!/^0x[0-9a-f]{64}$/.test(txHash)) return NextResponse.json({ error: "Invalid txHash" }, { status: 400 });
+
+  try {
+    await registerPendingAction({
+      wallet,
+      type: body?.type,
+      txHash,
+      from: body?.from,
+      chainId: body?.chainId,
+      contract: body?.contract,
+      tokenId: body?.tokenId,
+      auctionId: body?.auctionId,
+      amountWei: body?.amountWei,
+    });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    if (e instanceof PendingActionError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api marketplace pending] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/mint/[contract]/record/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { prismaReady } from "@/src/lib/db";
+import { MintError, recordMint } from "@/src/lib/server/mint";
+
+/**
+ * Record the tokens minted by a mined tx (idempotent; anyone may submit a hash).
+ * POST { txHash } → { kind, recorded, tokenIds }
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ contract: string }> }) {
+  await prismaReady;
+
+  const { contract } = await context.params;
+  if (!ethers.isAddress(contract)) return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+  const txHash = typeof body?.txHash === "string" ? body.txHash.trim().toLowerCase() : "";
+  if (!/^0x[0-9a-f]{64}$/.test(txHash)) return NextResponse.json({ error: "Invalid txHash" }, { status: 400 });
+
+  try {
+    const r = await recordMint(contract, txHash);
+    return NextResponse.json({ ok: true, ...r });
+  } catch (e: any) {
+    if (e instanceof MintError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api mint record] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/mint/[contract]/wallet/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { prismaReady } from "@/src/lib/db";
+import { getWalletMintState, MintError } from "@/src/lib/server/mint";
+
+/**
+ * Live mint counters for a wallet (read from the drop contract).
+ * GET ?address=0x… → { kind, minted, presaleMinted, mintedByWallet }
+ */
+export async function GET(req: NextRequest, context: { params: Promise<{ contract: string }> }) {
+  await prismaReady;
+
+  const { contract } = await context.params;
+  const address = req.nextUrl.searchParams.get("address") || "";
+  if (!ethers.isAddress(contract)) return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+  if (!ethers.isAddress(address)) return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+
+  try {
+    const state = await getWalletMintState(contract, ethers.getAddress(address.toLowerCase()));
+    return NextResponse.json(state, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    if (e instanceof MintError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api mint wallet] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
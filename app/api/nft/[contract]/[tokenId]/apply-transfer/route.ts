@@ -7,6 +7,7 @@ export const runtime = "nodejs";
 import { NextRequest, NextResponse } from "next/server";
 import prisma, { prismaReady } from "@/src/lib/db";
 import { ethers } from "ethers";
+import { markCollectionStatsStale } from "@/src/lib/server/collection-stats";
 
 /* ---------- helpers ---------- */
 const isAddr = (a?: string) => /^0x[0-9a-fA-F]{40}$/.test(String(a || ""));
@@ -200,6 +201,7 @@ export async function POST(
       ];
 
       await prisma.$transaction(ops);
+      await markCollectionStatsStale({ id: nft.id });
 
       return NextResponse.json({
         ok: true,
@@ -338,6 +340,7 @@ export async function POST(
 
     // Atomic write (array form, no timeout option)
     await prisma.$transaction([actUpsert, fromUpsert, toUpsert]);
+    await markCollectionStatsStale({ id: nft.id });
 
     return NextResponse.json({
       ok: true,
@@ -0,0 +1,26 @@
+// app/api/nft/[contract]/[tokenId]/price-history/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { getNftPriceHistory, SaleStatsError } from "@/src/lib/server/sale-stats";
+
+type Ctx = { params: Promise<{ contract: string; tokenId: string }> };
+
+/** Sales of one token, oldest first. GET → { items: [{ t, price, quantity, currency, buyer, seller, txHash }] } */
+export async function GET(_req: NextRequest, context: Ctx) {
+  const { contract, tokenId } = await context.params;
+  if (!ethers.isAddress(contract) || !/^\d+$/.test(tokenId)) {
+    return NextResponse.json({ error: "Invalid token" }, { status: 400 });
+  }
+
+  try {
+    const items = await getNftPriceHistory(contract, tokenId);
+    return NextResponse.json({ items }, { headers: { "Cache-Control": "s-maxage=60, stale-while-revalidate=300" } });
+  } catch (e) {
+    if (e instanceof SaleStatsError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api nft price-history] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/nft/[contract]/[tokenId]/refresh-metadata/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import { refreshCooldown, refreshToken } from "@/src/lib/server/metadata";
+
+/**
+ * Re-read tokenURI and the metadata document for one token.
+ * POST → { changed, diff } — rate limited per token and per wallet.
+ */
+export async function POST(
+  _req: NextRequest,
+  context: { params: Promise<{ contract: string; tokenId: string }> }
+) {
+  await prismaReady;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const { contract, tokenId } = await context.params;
+  if (!ethers.isAddress(contract) || !/^\d+$/.test(tokenId)) {
+    return NextResponse.json({ error: "Invalid token" }, { status: 400 });
+  }
+
+  try {
+    const nft = await prisma.nFT.findFirst({
+      where: { contract, tokenId },
+      select: { id: true, contract: true },
+    });
+    if (!nft) return NextResponse.json({ error: "Token not found" }, { status: 404 });
+
+    const wait = await refreshCooldown({ contract: nft.contract, tokenId, wallet });
+    if (wait > 0) {
+      const retryAfter = Math.ceil(wait / 1000);
+      return NextResponse.json(
+        { error: `Refreshed recently. Try again in ${Math.ceil(retryAfter / 60)} min.`, retryAfter },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    const r = await refreshToken(nft.id, { requestedBy: wallet });
+    return NextResponse.json({ ok: true, changed: r.changed, diff: r.diff });
+  } catch (e: any) {
+    console.error("[api nft refresh-metadata] error:", e);
+    return NextResponse.json({ error: e?.message || "Refresh failed" }, { status: 502 });
+  }
+}
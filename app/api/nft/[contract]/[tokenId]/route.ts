@@ -314,8 +314,17 @@ export async function GET(
       updatedAt: nft.updatedAt.toISOString(),
     };
 
-    const { traitsWithRarity, totalRarityScore, rarityRank, population } =
-      await buildRaritySQL(nft.id, nft.contract);
+    const [live, stored] = await Promise.all([
+      buildRaritySQL(nft.id, nft.contract),
+      prisma.nFTRarity.findUnique({
+        where: { contract_tokenId: { contract: nft.contract, tokenId: nft.tokenId } },
+        select: { score: true, rank: true },
+      }),
+    ]);
+    const { traitsWithRarity, population } = live;
+    // prefer the rarity engine's rank/score (collection's chosen method); live SQL is the fallback
+    const rarityRank = stored?.rank ?? live.rarityRank;
+    const totalRarityScore = stored ? Number(Number(stored.score).toFixed(2)) : live.totalRarityScore;
 
     const displayGroup =
       nft.collection
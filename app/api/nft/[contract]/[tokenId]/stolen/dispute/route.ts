@@ -0,0 +1,34 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/nft/[contract]/[tokenId]/stolen/dispute/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { requireWallet } from "@/src/lib/server/auth";
+import { disputeStolen, StolenError } from "@/src/lib/server/stolen";
+
+/**
+ * The token's current owner contests a stolen flag or report.
+ * POST { reason } → { ok }
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ contract: string; tokenId: string }> }) {
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const { contract, tokenId } = await context.params;
+  if (!ethers.isAddress(contract) || !/^\d+$/.test(tokenId)) {
+    return NextResponse.json({ error: "Invalid token" }, { status: 400 });
+  }
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+
+  try {
+    await disputeStolen({ wallet, contract, tokenId, reason: body?.reason });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    if (e instanceof StolenError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api nft stolen dispute] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/nft/[contract]/[tokenId]/stolen/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { requireWallet } from "@/src/lib/server/auth";
+import { getStolenStatus, reportStolen, StolenError } from "@/src/lib/server/stolen";
+
+type Ctx = { params: Promise<{ contract: string; tokenId: string }> };
+
+const validToken = (contract: string, tokenId: string) => ethers.isAddress(contract) && /^\d+$/.test(tokenId);
+
+/**
+ * Stolen status of one token.
+ * GET  → { state: "flagged" | "reported" | null, collectionFlagged, registry, report }
+ * POST { evidenceUrl, notes? } → file a user report (signed-in wallet).
+ */
+export async function GET(_req: NextRequest, context: Ctx) {
+  const { contract, tokenId } = await context.params;
+  if (!validToken(contract, tokenId)) return NextResponse.json({ error: "Invalid token" }, { status: 400 });
+
+  try {
+    const status = await getStolenStatus(contract, tokenId);
+    return NextResponse.json(status, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    console.error("[api nft stolen] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, context: Ctx) {
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const { contract, tokenId } = await context.params;
+  if (!validToken(contract, tokenId)) return NextResponse.json({ error: "Invalid token" }, { status: 400 });
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+
+  try {
+    const r = await reportStolen({
+      wallet,
+      contract,
+      tokenId,
+      evidenceUrl: body?.evidenceUrl,
+      notes: body?.notes,
+    });
+    return NextResponse.json({ ok: true, ...r }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    if (e instanceof StolenError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api nft stolen report] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -5,6 +5,7 @@ export const runtime = "nodejs";
 import { NextResponse } from "next/server";
 import { ethers } from "ethers";
 import prisma, { prismaReady } from "@/src/lib/db";
+import { markCollectionStatsStale } from "@/src/lib/server/collection-stats";
 
 const ERC721_ABI = ["function ownerOf(uint256 tokenId) view returns (address)"] as const;
 
@@ -60,7 +61,7 @@ export async function POST(req: Request) {
   });
 
   // Update NFT ownerId (uses @@unique([contract, tokenId]))
-  await prisma.nFT.update({
+  const nft = await prisma.nFT.update({
     where: {
       contract_tokenId: {
         contract: contract.toLowerCase(),
@@ -68,7 +69,9 @@ export async function POST(req: Request) {
       },
     },
     data: { ownerId: user.id },
+    select: { id: true },
   });
+  await markCollectionStatsStale({ id: nft.id });
 
   const resp = NextResponse.json({ owner }, { status: 200 });
   resp.headers.set("Cache-Control", "no-store");
@@ -0,0 +1,166 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/offers/[offerId]/accept/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { MARKETPLACE_CORE_ABI } from "@/src/lib/abis/marketplace-core/marketPlaceCoreABI";
+import { requireWallet } from "@/src/lib/server/auth";
+import { getProvider } from "@/src/lib/server/chain/provider";
+import { applyMarketplaceLog } from "@/src/lib/server/indexer/marketplaceIndexer";
+import { hasTrait } from "@/src/lib/offers";
+import {
+  getMarketplaceAddress,
+  OFFER_SELECT,
+  revalidateOffers,
+  toOfferDTO,
+} from "@/src/lib/server/offers";
+import { publish, walletTopic } from "@/src/lib/server/sse";
+
+/**
+ * Accept an offer.
+ * The seller has already listed the token at exactly the offer's price/currency (qty 1);
+ * we verify that ListingCreated against the offer, index the listing right away and
+ * reserve the offer for it. The bidder then completes the purchase with buy(listingId).
+ * Body: { txHash }
+ */
+
+const marketIface = new ethers.Interface(MARKETPLACE_CORE_ABI);
+
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ offerId: string }> }
+) {
+  await prismaReady;
+  const { offerId } = await context.params;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const body = (await req.json().catch(() => null)) as { txHash?: string } | null;
+  const txHash = body?.txHash;
+  if (!txHash || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+    return NextResponse.json({ error: "Invalid txHash" }, { status: 400 });
+  }
+
+  try {
+    const offer = await prisma.marketplaceOffer.findUnique({
+      where: { id: offerId },
+      select: {
+        id: true,
+        kind: true,
+        contract: true,
+        tokenId: true,
+        traitType: true,
+        traitValue: true,
+        bidderAddress: true,
+        amount: true,
+        expiresAt: true,
+        status: true,
+        currency: { select: { tokenAddress: true } },
+      },
+    });
+    if (!offer) return NextResponse.json({ error: "Offer not found" }, { status: 404 });
+    if (offer.bidderAddress.toLowerCase() === wallet.toLowerCase()) {
+      return NextResponse.json({ error: "You cannot accept your own offer" }, { status: 400 });
+    }
+
+    const provider = getProvider();
+    const receipt = await provider.getTransactionReceipt(txHash);
+    if (!receipt || receipt.status !== 1) {
+      return NextResponse.json({ error: "Tx not confirmed/success" }, { status: 400 });
+    }
+
+    const market = getMarketplaceAddress().toLowerCase();
+    let created: { args: ethers.Result; logIndex: number } | null = null;
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== market) continue;
+      try {
+        const parsed = marketIface.parseLog({ topics: [...log.topics], data: log.data });
+        if (parsed?.name === "ListingCreated") {
+          created = { args: parsed.args, logIndex: log.index };
+          break;
+        }
+      } catch {
+        // not a marketplace event
+      }
+    }
+    if (!created) return NextResponse.json({ error: "No ListingCreated event in tx" }, { status: 400 });
+
+    const { listingId, seller, token, tokenId, quantity, currency, price } = created.args;
+    const listedTokenId = (tokenId as bigint).toString();
+
+    const mismatch =
+      String(seller).toLowerCase() !== wallet.toLowerCase()
+        ? "Listing seller is not the signed-in wallet"
+        : String(token).toLowerCase() !== offer.contract.toLowerCase()
+        ? "Listing is for a different collection"
+        : offer.kind === "TOKEN" && listedTokenId !== offer.tokenId
+        ? "Listing is for a different token"
+        : String(currency).toLowerCase() !== (offer.currency.tokenAddress ?? "").toLowerCase()
+        ? "Listing currency does not match the offer"
+        : (price as bigint).toString() !== offer.amount.toFixed()
+        ? "Listing price does not match the offer"
+        : Number(quantity) !== 1
+        ? "Offers are for a single item"
+        : null;
+    if (mismatch) return NextResponse.json({ error: mismatch }, { status: 400 });
+
+    if (offer.kind === "TRAIT") {
+      const nft = await prisma.nFT.findFirst({
+        where: { contract: offer.contract, tokenId: listedTokenId },
+        select: { attributes: true, traits: true },
+      });
+      if (!hasTrait(nft?.attributes ?? nft?.traits ?? null, offer.traitType ?? "", offer.traitValue ?? "")) {
+        return NextResponse.json({ error: "Token does not have the offered trait" }, { status: 400 });
+      }
+    }
+
+    // Index the listing now rather than waiting for the indexer's confirmations.
+    const block = await provider.getBlock(receipt.blockNumber);
+    await applyMarketplaceLog(provider, {
+      name: "ListingCreated",
+      args: created.args,
+      txHash: receipt.hash,
+      logIndex: created.logIndex,
+      blockNumber: receipt.blockNumber,
+      timestamp: new Date(Number(block?.timestamp ?? Math.floor(Date.now() / 1000)) * 1000),
+    });
+    const id = (listingId as bigint).toString();
+    const listing = await prisma.marketplaceListing.findUnique({ where: { id }, select: { nftId: true } });
+    if (!listing) return NextResponse.json({ error: "Listing could not be indexed" }, { status: 500 });
+
+    // Bidder must still be funded at the moment of acceptance.
+    await revalidateOffers({ ids: [offer.id], staleMs: 0 });
+
+    const updated = await prisma.marketplaceOffer.updateMany({
+      where: { id: offer.id, status: "ACTIVE", expiresAt: { gt: new Date() } },
+      data: { status: "ACCEPTED", listingId: id, acceptedBy: wallet, acceptedNftId: listing.nftId },
+    });
+
+    const row = await prisma.marketplaceOffer.findUniqueOrThrow({ where: { id: offer.id }, select: OFFER_SELECT });
+    if (!updated.count) {
+      return NextResponse.json(
+        {
+          error: `Offer is no longer active (${row.invalidReason ?? row.status.toLowerCase()}). You can cancel listing #${id}.`,
+          listingId: id,
+        },
+        { status: 409 }
+      );
+    }
+
+    publish(walletTopic(offer.bidderAddress), "offer_accepted", {
+      offerId: offer.id,
+      listingId: id,
+      contract: offer.contract,
+      tokenId: listedTokenId,
+    });
+
+    return NextResponse.json({ ok: true, offer: toOfferDTO(row) });
+  } catch (e: any) {
+    console.error("[api offers accept] error:", e);
+    return NextResponse.json({ error: e?.message || "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/offers/[offerId]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import { OFFER_SELECT, toOfferDTO } from "@/src/lib/server/offers";
+
+/** Cancel an offer. Bidder only; an accepted offer can still be withdrawn (the listing just won't be bought). */
+export async function DELETE(
+  _req: NextRequest,
+  context: { params: Promise<{ offerId: string }> }
+) {
+  await prismaReady;
+  const { offerId } = await context.params;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  try {
+    const offer = await prisma.marketplaceOffer.findUnique({
+      where: { id: offerId },
+      select: { bidderAddress: true, status: true },
+    });
+    if (!offer) return NextResponse.json({ error: "Offer not found" }, { status: 404 });
+    if (offer.bidderAddress.toLowerCase() !== wallet.toLowerCase()) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (offer.status === "FILLED" || offer.status === "CANCELLED") {
+      return NextResponse.json({ error: `Offer is already ${offer.status.toLowerCase()}` }, { status: 409 });
+    }
+
+    const row = await prisma.marketplaceOffer.update({
+      where: { id: offerId },
+      data: { status: "CANCELLED" },
+      select: OFFER_SELECT,
+    });
+    return NextResponse.json({ ok: true, offer: toOfferDTO(row) });
+  } catch (e) {
+    console.error("[api offers DELETE] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
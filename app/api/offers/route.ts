@@ -0,0 +1,238 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/offers/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { CurrencyKind, OfferKind, OfferStatus, Prisma } from "@/src/lib/generated/prisma/client";
+import { requireWallet, verifyWalletSignature } from "@/src/lib/server/auth";
+import { buildOfferMessage, hasTrait, OFFER_CHAIN_ID, OFFER_MAX_DAYS } from "@/src/lib/offers";
+import {
+  fundingProblem,
+  OFFER_SELECT,
+  readFunding,
+  revalidateOffers,
+  toOfferDTO,
+} from "@/src/lib/server/offers";
+
+/**
+ * Off-chain offers.
+ * GET  ?contract=0x..[&tokenId=][&kind=TOKEN|COLLECTION|TRAIT][&bidder=0x..][&status=ACTIVE,ACCEPTED]
+ *      With tokenId: offers on that token + collection offers + trait offers the token matches.
+ *      Without contract: requires bidder (wallet's own offers).
+ * POST signed offer from the session wallet (see src/lib/offers.ts for the message).
+ */
+
+const STATUSES = new Set(Object.values(OfferStatus));
+const KINDS = new Set(Object.values(OfferKind));
+
+function safeStr(v: unknown, max: number) {
+  if (typeof v !== "string") return null;
+  const s = v.trim();
+  return s ? s.slice(0, max) : null;
+}
+
+export async function GET(req: NextRequest) {
+  await prismaReady;
+
+  const url = new URL(req.url);
+  const contract = url.searchParams.get("contract");
+  const tokenId = url.searchParams.get("tokenId");
+  const kind = url.searchParams.get("kind");
+  const bidder = url.searchParams.get("bidder");
+  const limit = Math.max(1, Math.min(200, parseInt(url.searchParams.get("limit") || "100", 10)));
+
+  if (contract && !ethers.isAddress(contract)) {
+    return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+  }
+  if (bidder && !ethers.isAddress(bidder)) {
+    return NextResponse.json({ error: "Invalid bidder" }, { status: 400 });
+  }
+  if (!contract && !bidder) {
+    return NextResponse.json({ error: "contract or bidder is required" }, { status: 400 });
+  }
+  if (kind && !KINDS.has(kind as OfferKind)) {
+    return NextResponse.json({ error: "Invalid kind" }, { status: 400 });
+  }
+
+  const statuses = (url.searchParams.get("status") || "ACTIVE,ACCEPTED")
+    .split(",")
+    .map((s) => s.trim().toUpperCase())
+    .filter((s): s is OfferStatus => STATUSES.has(s as OfferStatus));
+
+  try {
+    let nft: { id: string; attributes: Prisma.JsonValue; traits: Prisma.JsonValue } | null = null;
+    if (contract && tokenId) {
+      nft = await prisma.nFT.findFirst({
+        where: { contract, tokenId },
+        select: { id: true, attributes: true, traits: true },
+      });
+    }
+
+    const where: Prisma.MarketplaceOfferWhereInput = {
+      ...(contract ? { contract } : {}),
+      ...(bidder ? { bidderAddress: bidder } : {}),
+      ...(kind ? { kind: kind as OfferKind } : {}),
+      status: { in: statuses.length ? statuses : [OfferStatus.ACTIVE] },
+      ...(contract && tokenId
+        ? { OR: [{ kind: OfferKind.TOKEN, tokenId }, { kind: { in: [OfferKind.COLLECTION, OfferKind.TRAIT] } }] }
+        : {}),
+    };
+
+    const load = () =>
+      prisma.marketplaceOffer.findMany({
+        where,
+        orderBy: [{ amount: "desc" }, { createdAt: "asc" }],
+        take: limit,
+        select: OFFER_SELECT,
+      });
+
+    let rows = await load();
+
+    // Keep the book honest on read: expire + re-check funding for anything stale.
+    const open = rows.filter((r) => r.status !== "FILLED" && r.status !== "CANCELLED").map((r) => r.id);
+    if (open.length) {
+      const r = await revalidateOffers({ ids: open, staleMs: 60_000 }).catch(() => null);
+      if (r && (r.expired || r.invalidated || r.revived || r.released)) rows = await load();
+    }
+
+    if (contract && tokenId) {
+      const attrs = nft?.attributes ?? nft?.traits ?? null;
+      rows = rows.filter((o) => {
+        if (o.kind === "TRAIT" && !hasTrait(attrs, o.traitType ?? "", o.traitValue ?? "")) return false;
+        // an accepted collection/trait offer is reserved for one specific token
+        if (o.status === "ACCEPTED" && o.acceptedNftId !== nft?.id) return false;
+        return true;
+      });
+    }
+
+    return NextResponse.json(
+      { offers: rows.map(toOfferDTO), nftId: nft?.id ?? null },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e) {
+    console.error("[api offers GET] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const kind = String(body.kind || "").toUpperCase() as OfferKind;
+  const contract = safeStr(body.contract, 64);
+  const tokenId = kind === "TOKEN" ? safeStr(body.tokenId, 78) : null;
+  const traitType = kind === "TRAIT" ? safeStr(body.traitType, 64) : null;
+  const traitValue = kind === "TRAIT" ? safeStr(body.traitValue, 128) : null;
+  const currencyAddr = safeStr(body.currency, 64);
+  const amount = safeStr(body.amount, 78);
+  const expiresAtRaw = safeStr(body.expiresAt, 40);
+  const nonce = safeStr(body.nonce, 64);
+  const signature = safeStr(body.signature, 2000);
+
+  if (!KINDS.has(kind)) return NextResponse.json({ error: "Invalid kind" }, { status: 400 });
+  if (!contract || !ethers.isAddress(contract)) {
+    return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+  }
+  if (kind === "TOKEN" && (!tokenId || !/^\d+$/.test(tokenId))) {
+    return NextResponse.json({ error: "Invalid tokenId" }, { status: 400 });
+  }
+  if (kind === "TRAIT" && (!traitType || !traitValue)) {
+    return NextResponse.json({ error: "Trait type and value are required" }, { status: 400 });
+  }
+  if (!currencyAddr || !ethers.isAddress(currencyAddr)) {
+    return NextResponse.json({ error: "Offers must use an ERC20 currency" }, { status: 400 });
+  }
+  if (!amount || !/^\d+$/.test(amount) || BigInt(amount) <= BigInt(0)) {
+    return NextResponse.json({ error: "Invalid amount" }, { status: 400 });
+  }
+  if (!nonce || !/^[A-Za-z0-9-]{8,64}$/.test(nonce) || !signature) {
+    return NextResponse.json({ error: "Missing nonce or signature" }, { status: 400 });
+  }
+
+  const expiresAt = expiresAtRaw ? new Date(expiresAtRaw) : null;
+  const now = Date.now();
+  if (!expiresAt || isNaN(expiresAt.getTime()) || expiresAt.toISOString() !== expiresAtRaw) {
+    return NextResponse.json({ error: "Invalid expiry" }, { status: 400 });
+  }
+  if (expiresAt.getTime() <= now + 60_000 || expiresAt.getTime() > now + OFFER_MAX_DAYS * 86_400_000) {
+    return NextResponse.json(
+      { error: `Expiry must be between 1 minute and ${OFFER_MAX_DAYS} days from now` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const collection = await prisma.collection.findFirst({ where: { contract }, select: { id: true } });
+    if (!collection) return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+
+    if (kind === "TOKEN") {
+      const nft = await prisma.nFT.findFirst({ where: { contract, tokenId: tokenId! }, select: { id: true } });
+      if (!nft) return NextResponse.json({ error: "Token not found" }, { status: 404 });
+    }
+
+    const currency = await prisma.currency.findFirst({
+      where: { tokenAddress: currencyAddr, kind: CurrencyKind.ERC20, active: true },
+      select: { id: true, tokenAddress: true },
+    });
+    if (!currency?.tokenAddress) {
+      return NextResponse.json({ error: "Currency is not accepted for offers" }, { status: 400 });
+    }
+
+    const message = buildOfferMessage({
+      kind,
+      bidder: wallet,
+      contract: ethers.getAddress(contract),
+      tokenId,
+      traitType,
+      traitValue,
+      currency: ethers.getAddress(currency.tokenAddress),
+      amount,
+      expiresAt: expiresAtRaw!,
+      nonce,
+      chainId: OFFER_CHAIN_ID,
+    });
+    if (!(await verifyWalletSignature(wallet, message, signature))) {
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    const problem = fundingProblem(await readFunding(currency.tokenAddress, wallet), BigInt(amount));
+    if (problem) return NextResponse.json({ error: problem }, { status: 400 });
+
+    const row = await prisma.marketplaceOffer.create({
+      data: {
+        kind,
+        contract: ethers.getAddress(contract),
+        tokenId,
+        traitType,
+        traitValue,
+        bidderAddress: wallet,
+        currencyId: currency.id,
+        amount,
+        nonce,
+        signature,
+        expiresAt,
+        checkedAt: new Date(),
+      },
+      select: OFFER_SELECT,
+    });
+
+    return NextResponse.json({ ok: true, offer: toOfferDTO(row) }, { status: 201 });
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002") {
+      return NextResponse.json({ error: "Offer already submitted" }, { status: 409 });
+    }
+    console.error("[api offers POST] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,394 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/profile/[address]/activity/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { listingActivityType } from "@/src/lib/dutch";
+
+/**
+ * Wallet Activity Feed (server)
+ * -----------------------------
+ * Same row shape as the collection activities feed, scoped to one wallet:
+ *  - MarketplaceSale where the wallet bought or sold  → "Sale"
+ *  - NFTActivity where the wallet is from/to          → "Transfer" | "Mint" | …
+ *  - MarketplaceListing / Auction created by wallet   → "Listing" | "Unlisting" | "Auction Create" | "Auction Finalize"
+ *    (scheduled and Dutch listings: "Scheduled Listing" | "Dutch Listing" | "Price Drop")
+ *  - AuctionBid placed by wallet                      → "Bid"
+ *
+ * Rows carry `contract` so the UI can link across collections.
+ * Cursor = base64({ ts, id }); each source is bounded by ts so deep pages stay correct.
+ */
+
+const ETN_DECIMALS = 18;
+
+const isRealHash = (h?: string | null) => /^0x[0-9a-fA-F]{64}$/.test(String(h || ""));
+
+function toTitle(s: string) {
+  return s ? s.slice(0, 1).toUpperCase() + s.slice(1).toLowerCase() : s;
+}
+
+function decimalStrToFloat(decStr: string, decimals: number) {
+  try {
+    const n = BigInt(decStr);
+    const base = BigInt(10) ** BigInt(decimals);
+    const whole = Number(n / base);
+    const frac = Number(n % base) / Number(base);
+    return +(whole + frac).toFixed(6);
+  } catch {
+    return NaN;
+  }
+}
+
+type CurrencyMeta = { symbol: string; decimals: number };
+
+type UiRow = {
+  id: string;
+  type: string;
+  contract: string;
+  tokenId: string;
+  nftName?: string | null;
+  imageUrl?: string | null;
+  fromAddress: string | null;
+  toAddress: string | null;
+  price: number | null;
+  currencySymbol?: string | null;
+  timestamp: string; // ISO
+  txHash: string; // blank → no link
+  marketplace?: string | null;
+};
+
+const nftSelect = { select: { contract: true, tokenId: true, name: true, imageUrl: true } } as const;
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ address: string }> }
+) {
+  await prismaReady;
+  const { address } = await context.params;
+
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  const url = new URL(req.url);
+  const limit = Math.max(1, Math.min(100, parseInt(url.searchParams.get("limit") ?? "30", 10)));
+  const typeFilter = (url.searchParams.get("type") || "").toUpperCase();
+
+  let cursorTs: string | null = null;
+  let cursorId: string | null = null;
+  const cursorB64 = url.searchParams.get("cursor");
+  if (cursorB64) {
+    try {
+      const d = JSON.parse(Buffer.from(cursorB64, "base64").toString("utf8"));
+      cursorTs = d?.ts || null;
+      cursorId = d?.id || null;
+    } catch {
+      // ignore bad cursor
+    }
+  }
+
+  const before = cursorTs ? { lte: new Date(cursorTs) } : undefined;
+  const wallet = { equals: address, mode: "insensitive" as const };
+
+  try {
+    const allCurrencies = await prisma.currency.findMany({
+      select: { id: true, symbol: true, decimals: true },
+    });
+    const currenciesById = new Map<string, CurrencyMeta>(
+      allCurrencies.map((c) => [c.id, { symbol: c.symbol, decimals: c.decimals ?? 18 }])
+    );
+
+    const price = (
+      etnWei: any,
+      tokenAmount: any,
+      currencyId: string | null
+    ): { amount: number | null; symbol: string | null } => {
+      if (tokenAmount != null && currencyId) {
+        const meta = currenciesById.get(currencyId);
+        return meta
+          ? { amount: decimalStrToFloat(String(tokenAmount), meta.decimals), symbol: meta.symbol }
+          : { amount: null, symbol: null };
+      }
+      if (etnWei != null) return { amount: decimalStrToFloat(String(etnWei), ETN_DECIMALS), symbol: "ETN" };
+      return { amount: null, symbol: null };
+    };
+
+    const [saleRows, actRows, listingRows, auctionRows, bidRows] = await Promise.all([
+      prisma.marketplaceSale.findMany({
+        where: {
+          OR: [{ buyerAddress: wallet }, { sellerAddress: wallet }],
+          ...(before ? { timestamp: before } : {}),
+        },
+        orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+        take: limit,
+        select: {
+          id: true,
+          buyerAddress: true,
+          sellerAddress: true,
+          priceEtnWei: true,
+          priceTokenAmount: true,
+          currencyId: true,
+          timestamp: true,
+          txHash: true,
+          nft: nftSelect,
+        },
+      }),
+      prisma.nFTActivity.findMany({
+        where: {
+          OR: [{ fromAddress: wallet }, { toAddress: wallet }],
+          ...(before ? { timestamp: before } : {}),
+        },
+        orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+        take: limit * 2, // deduped vs sales below; overfetch a bit
+        select: {
+          id: true,
+          contract: true,
+          tokenId: true,
+          type: true,
+          fromAddress: true,
+          toAddress: true,
+          priceEtnWei: true,
+          txHash: true,
+          timestamp: true,
+          marketplace: true,
+          nft: { select: { name: true, imageUrl: true } },
+        },
+      }),
+      prisma.marketplaceListing.findMany({
+        where: { sellerAddress: wallet, ...(before ? { updatedAt: before } : {}) },
+        orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+        take: limit,
+        select: {
+          id: true,
+          status: true,
+          startTime: true,
+          endTime: true,
+          createdAt: true,
+          updatedAt: true,
+          txHashCreated: true,
+          txHashCancelled: true,
+          sellerAddress: true,
+          priceEtnWei: true,
+          priceTokenAmount: true,
+          currencyId: true,
+          mode: true,
+          dutchStep: true,
+          dutchSchedule: { select: { currentStep: true } },
+          nft: nftSelect,
+        },
+      }),
+      prisma.auction.findMany({
+        where: { sellerAddress: wallet, ...(before ? { updatedAt: before } : {}) },
+        orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+        take: limit,
+        select: {
+          id: true,
+          status: true,
+          startTime: true,
+          endTime: true,
+          createdAt: true,
+          updatedAt: true,
+          sellerAddress: true,
+          startPriceEtnWei: true,
+          startPriceTokenAmount: true,
+          currencyId: true,
+          txHashCreated: true,
+          txHashFinalized: true,
+          nft: nftSelect,
+        },
+      }),
+      prisma.auctionBid.findMany({
+        where: { bidderAddress: wallet, ...(before ? { timestamp: before } : {}) },
+        orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+        take: limit,
+        select: {
+          id: true,
+          bidderAddress: true,
+          amountWei: true,
+          currencyId: true,
+          timestamp: true,
+          txHash: true,
+          auction: { select: { nft: nftSelect } },
+        },
+      }),
+    ]);
+
+    const sales: UiRow[] = saleRows.map((s) => {
+      const p = price(s.priceEtnWei, s.priceTokenAmount, s.currencyId);
+      return {
+        id: `sale-${s.id}`,
+        type: "Sale",
+        contract: s.nft.contract,
+        tokenId: s.nft.tokenId,
+        nftName: s.nft.name,
+        imageUrl: s.nft.imageUrl,
+        fromAddress: s.sellerAddress,
+        toAddress: s.buyerAddress,
+        price: p.amount,
+        currencySymbol: p.symbol,
+        timestamp: s.timestamp.toISOString(),
+        txHash: isRealHash(s.txHash) ? s.txHash : "",
+        marketplace: "Panthart",
+      };
+    });
+
+    const saleHashes = new Set(sales.map((r) => r.txHash).filter(Boolean));
+
+    const acts: UiRow[] = actRows
+      .filter((r) => {
+        const t = r.type.toUpperCase();
+        // Canonical sales come from MarketplaceSale; drop duplicates + their transfers
+        if (t === "SALE") return false;
+        if (t === "TRANSFER" && isRealHash(r.txHash) && saleHashes.has(r.txHash)) return false;
+        return true;
+      })
+      .map((r) => ({
+        id: `act-${r.id}`,
+        type: toTitle(r.type.replace(/_/g, " ")),
+        contract: r.contract,
+        tokenId: r.tokenId,
+        nftName: r.nft?.name ?? null,
+        imageUrl: r.nft?.imageUrl ?? null,
+        fromAddress: r.fromAddress,
+        toAddress: r.toAddress,
+        price: r.priceEtnWei != null ? decimalStrToFloat(String(r.priceEtnWei), ETN_DECIMALS) : null,
+        currencySymbol: r.priceEtnWei != null ? "ETN" : null,
+        timestamp: r.timestamp.toISOString(),
+        txHash: isRealHash(r.txHash) ? r.txHash : "",
+        marketplace: r.marketplace ?? null,
+      }));
+
+    const listings: UiRow[] = listingRows
+      .map((r) => {
+        const p = price(r.priceEtnWei, r.priceTokenAmount, r.currencyId);
+        const base = {
+          contract: r.nft.contract,
+          tokenId: r.nft.tokenId,
+          nftName: r.nft.name,
+          imageUrl: r.nft.imageUrl,
+          fromAddress: r.sellerAddress,
+          toAddress: null,
+          price: p.amount,
+          currencySymbol: p.symbol,
+          marketplace: "Panthart",
+        };
+
+        // a Dutch step replaced by the next price keeps its own row instead of reading as an unlisting
+        const superseded =
+          r.mode === "DUTCH" && r.dutchStep != null && r.dutchStep < (r.dutchSchedule?.currentStep ?? 0);
+        if (r.status === "ACTIVE" || superseded) {
+          return {
+            ...base,
+            id: `list-${r.id}-Listing`,
+            type: listingActivityType(r.mode, r.dutchStep),
+            // a scheduled listing is news when it's announced, not when it opens
+            timestamp: (r.mode === "SCHEDULED" ? r.createdAt : r.startTime ?? r.createdAt).toISOString(),
+            txHash: isRealHash(r.txHashCreated) ? r.txHashCreated! : "",
+          };
+        }
+        if (r.status === "CANCELLED" || r.status === "EXPIRED") {
+          return {
+            ...base,
+            id: `list-${r.id}-Unlisting`,
+            type: "Unlisting",
+            timestamp: (r.endTime ?? r.updatedAt ?? r.createdAt).toISOString(),
+            txHash: isRealHash(r.txHashCancelled) ? r.txHashCancelled! : "",
+          };
+        }
+        return null;
+      })
+      .filter(Boolean) as UiRow[];
+
+    const auctions: UiRow[] = auctionRows.flatMap((a) => {
+      const p = price(a.startPriceEtnWei, a.startPriceTokenAmount, a.currencyId);
+      const base = {
+        contract: a.nft.contract,
+        tokenId: a.nft.tokenId,
+        nftName: a.nft.name,
+        imageUrl: a.nft.imageUrl,
+        fromAddress: a.sellerAddress,
+        toAddress: null,
+        marketplace: "Panthart",
+      };
+
+      const out: UiRow[] = [
+        {
+          ...base,
+          id: `auc-${a.id}-create`,
+          type: "Auction Create",
+          price: p.amount,
+          currencySymbol: p.symbol,
+          timestamp: (a.startTime ?? a.createdAt).toISOString(),
+          txHash: isRealHash(a.txHashCreated) ? a.txHashCreated! : "",
+        },
+      ];
+      if (a.status === "ENDED" || a.status === "CANCELLED") {
+        out.push({
+          ...base,
+          id: `auc-${a.id}-final`,
+          type: a.status === "ENDED" ? "Auction Finalize" : "Unlisting",
+          price: null,
+          currencySymbol: null,
+          timestamp: (a.endTime ?? a.updatedAt ?? a.createdAt).toISOString(),
+          txHash: isRealHash(a.txHashFinalized) ? a.txHashFinalized! : "",
+        });
+      }
+      return out;
+    });
+
+    const bids: UiRow[] = bidRows.map((b) => {
+      const meta = b.currencyId ? currenciesById.get(b.currencyId) : null;
+      return {
+        id: `bid-${b.id}`,
+        type: "Bid",
+        contract: b.auction.nft.contract,
+        tokenId: b.auction.nft.tokenId,
+        nftName: b.auction.nft.name,
+        imageUrl: b.auction.nft.imageUrl,
+        fromAddress: b.bidderAddress,
+        toAddress: null,
+        price: decimalStrToFloat(String(b.amountWei), meta?.decimals ?? ETN_DECIMALS),
+        currencySymbol: b.currencyId ? meta?.symbol ?? null : "ETN",
+        timestamp: b.timestamp.toISOString(),
+        txHash: isRealHash(b.txHash) ? b.txHash : "",
+        marketplace: "Panthart",
+      };
+    });
+
+    const merged = [...sales, ...acts, ...listings, ...auctions, ...bids];
+
+    const filtered = typeFilter
+      ? merged.filter((r) => r.type.toUpperCase().replace(/\s+/g, "_") === typeFilter)
+      : merged;
+
+    filtered.sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime() ||
+        (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+    );
+
+    const afterCursor =
+      cursorTs && cursorId
+        ? filtered.filter(
+            (row) =>
+              new Date(row.timestamp).getTime() < new Date(cursorTs!).getTime() ||
+              (row.timestamp === cursorTs && row.id < cursorId!)
+          )
+        : filtered;
+
+    const page = afterCursor.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      page.length === limit && last
+        ? Buffer.from(JSON.stringify({ ts: last.timestamp, id: last.id }), "utf8").toString("base64")
+        : null;
+
+    return NextResponse.json({ items: page, nextCursor }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("[GET /api/profile/[address]/activity]", err);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+// app/api/profile/[address]/collections/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { ipfsToHttp } from "@/src/lib/media";
+
+/** Collections created by a wallet (Collection.creator), newest first. Cursor = Collection.id. */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ address: string }> }
+) {
+  await prismaReady;
+  const { address } = await context.params;
+
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  const url = new URL(req.url);
+  const limit = Math.max(1, Math.min(60, parseInt(url.searchParams.get("limit") || "24", 10)));
+  const cursor = url.searchParams.get("cursor") || null;
+
+  try {
+    const rows = await prisma.collection.findMany({
+      where: { creator: { walletAddress: address } },
+      orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+      take: limit,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: {
+        id: true,
+        name: true,
+        symbol: true,
+        contract: true,
+        logoUrl: true,
+        coverUrl: true,
+        standard: true,
+        itemsCount: true,
+        ownersCount: true,
+        floorPrice: true,
+        volume: true,
+        indexStatus: true,
+        createdAt: true,
+      },
+    });
+
+    const items = rows.map((c) => ({
+      ...c,
+      logoUrl: ipfsToHttp(c.logoUrl),
+      coverUrl: ipfsToHttp(c.coverUrl),
+      createdAt: c.createdAt.toISOString(),
+    }));
+
+    const nextCursor = rows.length === limit ? rows[rows.length - 1].id : null;
+
+    return NextResponse.json({ items, nextCursor }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    console.error("[api profile collections] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,138 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/profile/[address]/listings/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { AuctionStatus, ListingStatus } from "@/src/lib/generated/prisma/client";
+import { ipfsToHttp } from "@/src/lib/media";
+
+/**
+ * Active listings + live auctions created by a wallet.
+ * Small per-wallet sets, so no cursor: newest first, capped at `limit` per kind.
+ */
+
+function formatUnits(v: any, decimals: number): string | null {
+  if (v == null) return null;
+  try {
+    return ethers.formatUnits(BigInt(String(v)), decimals);
+  } catch {
+    return null;
+  }
+}
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ address: string }> }
+) {
+  await prismaReady;
+  const { address } = await context.params;
+
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  const url = new URL(req.url);
+  const limit = Math.max(1, Math.min(200, parseInt(url.searchParams.get("limit") || "100", 10)));
+  const now = new Date();
+  const seller = { equals: address, mode: "insensitive" as const };
+
+  const nftSelect = {
+    select: {
+      contract: true,
+      tokenId: true,
+      name: true,
+      imageUrl: true,
+      collection: { select: { name: true } },
+    },
+  } as const;
+  const currencySelect = { select: { symbol: true, decimals: true } } as const;
+
+  try {
+    const [listingRows, auctionRows] = await Promise.all([
+      prisma.marketplaceListing.findMany({
+        where: {
+          sellerAddress: seller,
+          status: ListingStatus.ACTIVE,
+          OR: [{ endTime: null }, { endTime: { gt: now } }],
+        },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: limit,
+        select: {
+          id: true,
+          quantity: true,
+          priceEtnWei: true,
+          priceTokenAmount: true,
+          startTime: true,
+          endTime: true,
+          currency: currencySelect,
+          nft: nftSelect,
+        },
+      }),
+      prisma.auction.findMany({
+        where: { sellerAddress: seller, status: AuctionStatus.ACTIVE, endTime: { gt: now } },
+        orderBy: [{ endTime: "asc" }, { id: "asc" }],
+        take: limit,
+        select: {
+          id: true,
+          quantity: true,
+          startPriceEtnWei: true,
+          startPriceTokenAmount: true,
+          highestBidEtnWei: true,
+          highestBidTokenAmount: true,
+          startTime: true,
+          endTime: true,
+          currency: currencySelect,
+          nft: nftSelect,
+        },
+      }),
+    ]);
+
+    const nftOut = (n: (typeof listingRows)[number]["nft"]) => ({
+      contract: n.contract,
+      tokenId: n.tokenId,
+      name: n.name ?? null,
+      collectionName: n.collection?.name ?? null,
+      imageUrl: ipfsToHttp(n.imageUrl),
+    });
+
+    const listings = listingRows.map((l) => {
+      const isToken = !!l.currency && l.priceTokenAmount != null;
+      return {
+        id: l.id,
+        kind: "LISTING" as const,
+        quantity: l.quantity,
+        price: isToken
+          ? formatUnits(l.priceTokenAmount, l.currency!.decimals)
+          : formatUnits(l.priceEtnWei, 18),
+        currencySymbol: isToken ? l.currency!.symbol : "ETN",
+        startTime: l.startTime.toISOString(),
+        endTime: l.endTime?.toISOString() ?? null,
+        nft: nftOut(l.nft),
+      };
+    });
+
+    const auctions = auctionRows.map((a) => {
+      const isToken = !!a.currency && a.startPriceTokenAmount != null;
+      const decimals = isToken ? a.currency!.decimals : 18;
+      return {
+        id: a.id,
+        kind: "AUCTION" as const,
+        quantity: a.quantity,
+        price: formatUnits(isToken ? a.startPriceTokenAmount : a.startPriceEtnWei, decimals),
+        highestBid: formatUnits(isToken ? a.highestBidTokenAmount : a.highestBidEtnWei, decimals),
+        currencySymbol: isToken ? a.currency!.symbol : "ETN",
+        startTime: a.startTime.toISOString(),
+        endTime: a.endTime.toISOString(),
+        nft: nftOut(a.nft),
+      };
+    });
+
+    return NextResponse.json({ listings, auctions }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    console.error("[api profile listings] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
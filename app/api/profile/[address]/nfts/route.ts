@@ -0,0 +1,162 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/profile/[address]/nfts/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { AuctionStatus, ListingStatus, NftStatus, Prisma } from "@/src/lib/generated/prisma/client";
+import { detectMediaType, ipfsToHttp, isVideoType } from "@/src/lib/media";
+import { getStolenStates, stolenKey } from "@/src/lib/server/stolen";
+
+/**
+ * Owned NFTs for a wallet.
+ * ERC721 ownership lives on NFT.ownerId, ERC1155 balances in Erc1155Holding,
+ * so we page through 721s first, then 1155 holdings.
+ * Cursor: base64 JSON { s: "721" | "1155", id } (id = NFT.id or Erc1155Holding.id).
+ */
+
+type Cursor = { s: "721" | "1155"; id: string | null };
+
+function decodeCursor(raw: string | null): Cursor {
+  if (!raw) return { s: "721", id: null };
+  try {
+    const d = JSON.parse(Buffer.from(raw, "base64").toString("utf8"));
+    if ((d?.s === "721" || d?.s === "1155") && (d.id == null || typeof d.id === "string")) {
+      return { s: d.s, id: d.id ?? null };
+    }
+  } catch {}
+  return { s: "721", id: null };
+}
+
+function encodeCursor(c: Cursor) {
+  return Buffer.from(JSON.stringify(c), "utf8").toString("base64");
+}
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ address: string }> }
+) {
+  await prismaReady;
+  const { address } = await context.params;
+
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  const url = new URL(req.url);
+  const limit = Math.max(1, Math.min(60, parseInt(url.searchParams.get("limit") || "24", 10)));
+  const cursor = decodeCursor(url.searchParams.get("cursor"));
+  const now = new Date();
+
+  const nftSelect = {
+    id: true,
+    contract: true,
+    tokenId: true,
+    name: true,
+    imageUrl: true,
+    rawMetadata: true,
+    standard: true,
+    collection: { select: { name: true } },
+    listingEntries: {
+      where: {
+        status: ListingStatus.ACTIVE,
+        startTime: { lte: now },
+        OR: [{ endTime: null }, { endTime: { gt: now } }],
+      },
+      take: 1,
+      select: { id: true },
+    },
+    auctionEntries: {
+      where: { status: AuctionStatus.ACTIVE, startTime: { lte: now }, endTime: { gt: now } },
+      take: 1,
+      select: { id: true },
+    },
+  } satisfies Prisma.NFTSelect;
+
+  const toItem = (n: any, balance: number | null) => {
+    const rawM: any = n.rawMetadata ?? {};
+    const anim = ipfsToHttp(rawM?.animation_url ?? rawM?.animationUrl ?? null) ?? null;
+    const mediaType = detectMediaType(anim, rawM?.mimeType ?? rawM?.contentType ?? null);
+
+    return {
+      id: n.id as string,
+      contract: n.contract as string,
+      tokenId: n.tokenId as string,
+      name: (n.name as string | null) ?? null,
+      collectionName: (n.collection?.name as string | undefined) ?? null,
+      standard: balance == null ? "ERC721" : "ERC1155",
+      balance,
+      imageUrl: ipfsToHttp(n.imageUrl) ?? null,
+      animationUrl: anim,
+      mediaType,
+      hasVideo: isVideoType(mediaType),
+      isListed: (n.listingEntries?.length ?? 0) > 0,
+      isAuctioned: (n.auctionEntries?.length ?? 0) > 0,
+    };
+  };
+
+  try {
+    const items: ReturnType<typeof toItem>[] = [];
+    let nextCursor: string | null = null;
+
+    // ---- ERC721 (NFT.ownerId) ----
+    if (cursor.s === "721") {
+      const rows = await prisma.nFT.findMany({
+        where: { owner: { walletAddress: address }, status: NftStatus.SUCCESS },
+        orderBy: [{ updatedAt: "desc" }, { id: "asc" }],
+        take: limit,
+        ...(cursor.id ? { cursor: { id: cursor.id }, skip: 1 } : {}),
+        select: nftSelect,
+      });
+      for (const n of rows) items.push(toItem(n, null));
+
+      if (rows.length === limit) {
+        nextCursor = encodeCursor({ s: "721", id: rows[rows.length - 1].id });
+      }
+    }
+
+    // ---- ERC1155 (Erc1155Holding) ----
+    const remaining = limit - items.length;
+    if (!nextCursor && remaining > 0) {
+      const afterId = cursor.s === "1155" ? cursor.id : null;
+      const holdings = await prisma.erc1155Holding.findMany({
+        where: { ownerAddress: address, balance: { gt: 0 } },
+        orderBy: { id: "asc" },
+        take: remaining,
+        ...(afterId ? { cursor: { id: afterId }, skip: 1 } : {}),
+        select: { id: true, contract: true, tokenId: true, balance: true },
+      });
+
+      if (holdings.length) {
+        const nfts = await prisma.nFT.findMany({
+          where: {
+            status: NftStatus.SUCCESS,
+            OR: holdings.map((h) => ({ contract: h.contract, tokenId: h.tokenId })),
+          },
+          select: nftSelect,
+        });
+        const byKey = new Map(nfts.map((n) => [`${n.contract.toLowerCase()}:${n.tokenId}`, n]));
+
+        for (const h of holdings) {
+          const n = byKey.get(`${h.contract.toLowerCase()}:${h.tokenId}`);
+          if (n) items.push(toItem(n, h.balance));
+        }
+
+        if (holdings.length === remaining) {
+          nextCursor = encodeCursor({ s: "1155", id: holdings[holdings.length - 1].id });
+        }
+      }
+    }
+
+    const stolen = await getStolenStates(items);
+    return NextResponse.json(
+      { items: items.map((i) => ({ ...i, stolen: stolen.get(stolenKey(i.contract, i.tokenId)) ?? null })), nextCursor },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e) {
+    console.error("[api profile nfts] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
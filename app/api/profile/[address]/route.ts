@@ -0,0 +1,232 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/profile/[address]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { AuctionStatus, ListingStatus, Prisma } from "@/src/lib/generated/prisma/client";
+import { requireWallet } from "@/src/lib/server/auth";
+
+const DEFAULT_AVATAR = "/img/default-avatar.png";
+
+type ProfileDTO = {
+  exists: boolean;
+  walletAddress: string;
+  username: string | null;
+  bio: string | null;
+  profileAvatar: string;
+  profileBanner: string | null;
+  x: string | null;
+  instagram: string | null;
+  website: string | null;
+  telegram: string | null;
+  createdAt: string | null;
+  counts: {
+    owned: number;
+    created: number;
+    listings: number;
+    auctions: number;
+  };
+};
+
+function defaultUsername(addr: string) {
+  return `user_${addr.slice(2, 8).toLowerCase()}`;
+}
+
+function safeStr(v: unknown, max = 500): string | null {
+  if (v == null) return null;
+  const s = String(v).trim();
+  return s ? s.slice(0, max) : null;
+}
+
+function normalizeUrl(u?: string | null) {
+  if (!u) return null;
+  if (/^https?:\/\//i.test(u)) return u;
+  return `https://${u}`;
+}
+
+/** Only accept images that came through /api/upload-image (Cloudinary). */
+function isUploadedImage(u: string) {
+  try {
+    const url = new URL(u);
+    return url.protocol === "https:" && url.hostname === "res.cloudinary.com";
+  } catch {
+    return false;
+  }
+}
+
+async function buildProfile(address: string): Promise<ProfileDTO> {
+  const now = new Date();
+
+  const [user, owned1155, created, listings, auctions] = await Promise.all([
+    prisma.user.findUnique({
+      where: { walletAddress: address },
+      select: {
+        walletAddress: true,
+        username: true,
+        bio: true,
+        profileAvatar: true,
+        profileBanner: true,
+        x: true,
+        instagram: true,
+        website: true,
+        telegram: true,
+        createdAt: true,
+        _count: { select: { ownedNFTs: true } },
+      },
+    }),
+    prisma.erc1155Holding.count({ where: { ownerAddress: address, balance: { gt: 0 } } }),
+    prisma.collection.count({ where: { creator: { walletAddress: address } } }),
+    prisma.marketplaceListing.count({
+      where: {
+        sellerAddress: { equals: address, mode: "insensitive" },
+        status: ListingStatus.ACTIVE,
+        OR: [{ endTime: null }, { endTime: { gt: now } }],
+      },
+    }),
+    prisma.auction.count({
+      where: {
+        sellerAddress: { equals: address, mode: "insensitive" },
+        status: AuctionStatus.ACTIVE,
+        endTime: { gt: now },
+      },
+    }),
+  ]);
+
+  return {
+    exists: !!user,
+    walletAddress: user?.walletAddress ?? ethers.getAddress(address),
+    username: user?.username ?? null,
+    bio: user?.bio ?? null,
+    profileAvatar: user?.profileAvatar || DEFAULT_AVATAR,
+    profileBanner: user?.profileBanner ?? null,
+    x: user?.x ?? null,
+    instagram: user?.instagram ?? null,
+    website: user?.website ?? null,
+    telegram: user?.telegram ?? null,
+    createdAt: user?.createdAt.toISOString() ?? null,
+    counts: {
+      owned: (user?._count.ownedNFTs ?? 0) + owned1155,
+      created,
+      listings,
+      auctions,
+    },
+  };
+}
+
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ address: string }> }
+) {
+  await prismaReady;
+  const { address } = await context.params;
+
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  try {
+    const profile = await buildProfile(address);
+    const resp = NextResponse.json(profile);
+    resp.headers.set("Cache-Control", "no-store");
+    return resp;
+  } catch (e) {
+    console.error("[api profile] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
+
+/** Edit own profile. Requires a SIWE session for the same wallet. */
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ address: string }> }
+) {
+  await prismaReady;
+  const { address } = await context.params;
+
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+  if (wallet.toLowerCase() !== address.toLowerCase()) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const data: Prisma.UserUpdateInput = {};
+
+    if ("username" in body) {
+      const username = safeStr(body.username, 32);
+      if (!username || !/^[A-Za-z0-9_.-]{3,32}$/.test(username)) {
+        return NextResponse.json(
+          { error: "Username must be 3–32 characters (letters, numbers, _ . -)." },
+          { status: 400 }
+        );
+      }
+      const taken = await prisma.user.findFirst({
+        where: {
+          username: { equals: username, mode: "insensitive" },
+          NOT: { walletAddress: wallet },
+        },
+        select: { id: true },
+      });
+      if (taken) return NextResponse.json({ error: "Username is taken." }, { status: 409 });
+      data.username = username;
+    }
+
+    if ("bio" in body) data.bio = safeStr(body.bio, 500);
+    if ("website" in body) data.website = normalizeUrl(safeStr(body.website, 200));
+    if ("x" in body) data.x = normalizeUrl(safeStr(body.x, 200));
+    if ("instagram" in body) data.instagram = normalizeUrl(safeStr(body.instagram, 200));
+    if ("telegram" in body) data.telegram = normalizeUrl(safeStr(body.telegram, 200));
+
+    if ("profileAvatar" in body) {
+      const u = safeStr(body.profileAvatar, 500);
+      if (u && !isUploadedImage(u)) {
+        return NextResponse.json({ error: "Avatar must be uploaded first." }, { status: 400 });
+      }
+      data.profileAvatar = u ?? DEFAULT_AVATAR;
+    }
+    if ("profileBanner" in body) {
+      const u = safeStr(body.profileBanner, 500);
+      if (u && !isUploadedImage(u)) {
+        return NextResponse.json({ error: "Banner must be uploaded first." }, { status: 400 });
+      }
+      data.profileBanner = u;
+    }
+
+    if (Object.keys(data).length === 0) {
+      return NextResponse.json({ error: "No updatable fields provided" }, { status: 400 });
+    }
+
+    await prisma.user.upsert({
+      where: { walletAddress: wallet },
+      update: data,
+      create: {
+        walletAddress: wallet,
+        username: (data.username as string | undefined) ?? defaultUsername(wallet),
+        profileAvatar: (data.profileAvatar as string | undefined) ?? DEFAULT_AVATAR,
+        bio: data.bio as string | null | undefined,
+        profileBanner: data.profileBanner as string | null | undefined,
+        website: data.website as string | null | undefined,
+        x: data.x as string | null | undefined,
+        instagram: data.instagram as string | null | undefined,
+        telegram: data.telegram as string | null | undefined,
+      },
+    });
+
+    return NextResponse.json({ success: true, profile: await buildProfile(wallet) });
+  } catch (err: any) {
+    console.error("[PATCH /api/profile/[address]]", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/rewards/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { prismaReady } from "@/src/lib/db";
+import { getRewardsSummary, RewardsError } from "@/src/lib/server/rewards";
+
+/**
+ * Holder rewards for a wallet: shares, per-currency entitlement / claimed / claimable and claim history.
+ * GET ?address=0x… → { address, distributor, collection, shares, balances, claims }
+ */
+export async function GET(req: NextRequest) {
+  await prismaReady;
+
+  const address = req.nextUrl.searchParams.get("address") || "";
+  if (!ethers.isAddress(address)) return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+
+  try {
+    const summary = await getRewardsSummary(ethers.getAddress(address.toLowerCase()));
+    return NextResponse.json(summary, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    if (e instanceof RewardsError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api rewards] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/rewards/vouchers/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import { RewardsError, signRewardVouchers } from "@/src/lib/server/rewards";
+
+/**
+ * Signed claim vouchers for the signed-in wallet (all claimable currencies unless narrowed).
+ * POST { currencyIds? } → { distributor, vouchers: [{ currencyId, token, total, deadline, signature }] }
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+  const currencyIds = Array.isArray(body?.currencyIds)
+    ? body.currencyIds.filter((x: unknown): x is string => typeof x === "string").slice(0, 20)
+    : undefined;
+
+  try {
+    const r = await signRewardVouchers(wallet, currencyIds);
+    return NextResponse.json(r, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    if (e instanceof RewardsError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api rewards vouchers] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
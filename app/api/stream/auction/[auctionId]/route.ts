@@ -0,0 +1,28 @@
+// app/api/stream/auction/[auctionId]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { auctionTopic, subscribe } from "@/src/lib/server/sse";
+
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ auctionId: string }> }
+) {
+  const { auctionId } = await context.params;
+
+  if (!/^\d+$/.test(auctionId ?? "")) {
+    return NextResponse.json({ error: "Invalid auctionId" }, { status: 400 });
+  }
+
+  const { stream } = subscribe(auctionTopic(auctionId));
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
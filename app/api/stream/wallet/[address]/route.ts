@@ -0,0 +1,29 @@
+// app/api/stream/wallet/[address]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { subscribe, walletTopic } from "@/src/lib/server/sse";
+
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ address: string }> }
+) {
+  const { address } = await context.params;
+
+  if (!address || !ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  const { stream } = subscribe(walletTopic(address));
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,51 @@
+// app/api/submissions/preview/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { getSessionWallet } from "@/src/lib/server/auth";
+import { readContractInfo, SubmissionError } from "@/src/lib/server/submissions";
+
+/**
+ * On-chain preview before submitting.
+ * GET ?contract=0x.. → standard, owner, name, symbol, totalSupply, sample tokenURI,
+ *     whether the session wallet is the owner, and any existing listing/submission.
+ */
+export async function GET(req: NextRequest) {
+  await prismaReady;
+
+  const contract = new URL(req.url).searchParams.get("contract")?.trim() ?? "";
+  if (!ethers.isAddress(contract)) {
+    return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+  }
+
+  try {
+    const [info, wallet, listed, submission] = await Promise.all([
+      readContractInfo(contract),
+      getSessionWallet(),
+      prisma.collection.findFirst({ where: { contract }, select: { id: true } }),
+      prisma.collectionSubmission.findUnique({
+        where: { contract },
+        select: { status: true, statusReason: true },
+      }),
+    ]);
+
+    return NextResponse.json(
+      {
+        ...info,
+        isOwner: !!wallet && !!info.owner && info.owner.toLowerCase() === wallet.toLowerCase(),
+        alreadyListed: !!listed,
+        submission,
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e) {
+    if (e instanceof SubmissionError) {
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    }
+    console.error("[api submissions preview] error:", e);
+    return NextResponse.json({ error: "Could not read contract" }, { status: 502 });
+  }
+}
@@ -0,0 +1,165 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/submissions/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { getSessionWallet, requireWallet } from "@/src/lib/server/auth";
+import {
+  ensureUserId,
+  getSubmissionFee,
+  readContractInfo,
+  SUBMISSION_SELECT,
+  SubmissionError,
+  toSubmissionDTO,
+  verifyFeePayment,
+} from "@/src/lib/server/submissions";
+
+/**
+ * Collection submissions (existing contracts).
+ * GET  → fee to pay + the session wallet's own submissions
+ * POST { contract, feeTxHash?, description?, logoUrl?, coverUrl?, website?, x?, instagram?, telegram? }
+ *      Verifies owner() == session wallet and the fee receipt, reads name/symbol/supply/tokenURI,
+ *      and queues the submission for admin review. A rejected contract can be resubmitted.
+ */
+
+function safeStr(v: unknown, max: number) {
+  if (typeof v !== "string") return null;
+  const s = v.trim();
+  return s ? s.slice(0, max) : null;
+}
+
+function safeUrl(v: unknown) {
+  const s = safeStr(v, 500);
+  if (!s) return null;
+  return /^https?:\/\//i.test(s) ? s : `https://${s}`;
+}
+
+export async function GET() {
+  await prismaReady;
+
+  try {
+    const fee = getSubmissionFee();
+    const wallet = await getSessionWallet();
+    const rows = wallet
+      ? await prisma.collectionSubmission.findMany({
+          where: { submittedBy: { walletAddress: wallet } },
+          orderBy: { createdAt: "desc" },
+          take: 50,
+          select: SUBMISSION_SELECT,
+        })
+      : [];
+
+    return NextResponse.json(
+      {
+        fee: { recipient: fee.recipient, amountWei: fee.amountWei.toString() },
+        submissions: rows.map(toSubmissionDTO),
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e) {
+    console.error("[api submissions GET] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  await prismaReady;
+
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const contractRaw = safeStr(body.contract, 64);
+  if (!contractRaw || !ethers.isAddress(contractRaw)) {
+    return NextResponse.json({ error: "Invalid contract" }, { status: 400 });
+  }
+  const feeTxHash = safeStr(body.feeTxHash, 66);
+  if (feeTxHash && !/^0x[0-9a-fA-F]{64}$/.test(feeTxHash)) {
+    return NextResponse.json({ error: "Invalid fee transaction hash" }, { status: 400 });
+  }
+
+  try {
+    const contract = ethers.getAddress(contractRaw);
+
+    const listed = await prisma.collection.findFirst({ where: { contract }, select: { id: true } });
+    if (listed) return NextResponse.json({ error: "Collection is already listed" }, { status: 409 });
+
+    const existing = await prisma.collectionSubmission.findUnique({
+      where: { contract },
+      select: { id: true, status: true },
+    });
+    if (existing && existing.status !== "REJECTED") {
+      return NextResponse.json({ error: `Contract already submitted (${existing.status.toLowerCase()})` }, { status: 409 });
+    }
+
+    const info = await readContractInfo(contract);
+    if (!info.owner) {
+      return NextResponse.json({ error: "Contract has no owner() — only Ownable contracts can be submitted" }, { status: 400 });
+    }
+    if (info.owner.toLowerCase() !== wallet.toLowerCase()) {
+      return NextResponse.json({ error: "Only the contract owner can submit this collection" }, { status: 403 });
+    }
+
+    const fee = getSubmissionFee();
+    let feePaidWei: bigint | null = null;
+    if (fee.amountWei > BigInt(0)) {
+      if (!feeTxHash) return NextResponse.json({ error: "Listing fee transaction is required" }, { status: 400 });
+      const used = await prisma.collectionSubmission.findFirst({
+        where: { feeTxHash: { equals: feeTxHash, mode: "insensitive" }, NOT: { id: existing?.id ?? "" } },
+        select: { id: true },
+      });
+      if (used) return NextResponse.json({ error: "This fee transaction was already used" }, { status: 409 });
+      feePaidWei = await verifyFeePayment(feeTxHash, wallet);
+    }
+
+    const data = {
+      ownerAddress: info.owner,
+      name: info.name,
+      symbol: info.symbol,
+      baseUri: info.baseUri,
+      supply: info.totalSupply,
+      description: safeStr(body.description, 2000),
+      logoUrl: safeUrl(body.logoUrl),
+      coverUrl: safeUrl(body.coverUrl),
+      website: safeUrl(body.website),
+      x: safeStr(body.x, 200),
+      instagram: safeStr(body.instagram, 200),
+      telegram: safeStr(body.telegram, 200),
+      feeTxHash: feePaidWei != null ? feeTxHash!.toLowerCase() : null,
+      feePaidWei: feePaidWei != null ? feePaidWei.toString() : null,
+      feeVerifiedAt: feePaidWei != null ? new Date() : null,
+      ownershipVerified: true,
+      status: "PENDING" as const,
+      statusReason: null,
+      reviewedByUserId: null,
+      reviewedAt: null,
+    };
+
+    const submittedByUserId = await ensureUserId(wallet);
+    const row = existing
+      ? await prisma.collectionSubmission.update({
+          where: { id: existing.id },
+          data: { ...data, submittedByUserId },
+          select: SUBMISSION_SELECT,
+        })
+      : await prisma.collectionSubmission.create({
+          data: { ...data, contract, submittedByUserId },
+          select: SUBMISSION_SELECT,
+        });
+
+    return NextResponse.json({ ok: true, submission: toSubmissionDTO(row), preview: info }, { status: 201 });
+  } catch (e: any) {
+    if (e instanceof SubmissionError) {
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    }
+    console.error("[api submissions POST] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
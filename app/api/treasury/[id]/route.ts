@@ -0,0 +1,58 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/treasury/[id]/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import {
+  addMultisigSignature,
+  cancelMultisigTx,
+  getMultisigTypedData,
+  MultisigError,
+} from "@/src/lib/server/multisig";
+
+function fail(e: any, method: string) {
+  if (e instanceof MultisigError) return NextResponse.json({ error: e.message }, { status: e.status });
+  console.error(`[api treasury ${method}] error:`, e);
+  return NextResponse.json({ error: "Internal error" }, { status: 500 });
+}
+
+/** EIP-712 typed data an owner signs to approve this proposal off-chain. */
+export async function GET(_req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  await prismaReady;
+  const { id } = await context.params;
+  try {
+    const typedData = await getMultisigTypedData(id);
+    return NextResponse.json(typedData, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return fail(e, "GET");
+  }
+}
+
+/**
+ * POST { action: "sign", signature } — store an owner's EIP-712 confirmation
+ * POST { action: "cancel" }          — proposer withdraws an unexecuted proposal
+ */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  await prismaReady;
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const { id } = await context.params;
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+
+  try {
+    if (body?.action === "sign") {
+      await addMultisigSignature({ wallet, id, signature: body.signature });
+    } else if (body?.action === "cancel") {
+      await cancelMultisigTx({ wallet, id });
+    } else {
+      return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return fail(e, "POST");
+  }
+}
@@ -0,0 +1,43 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/treasury/record/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { requireWallet } from "@/src/lib/server/auth";
+import { recordMultisigTx, MultisigError } from "@/src/lib/server/multisig";
+import { recordMarketplaceAdminTx } from "@/src/lib/server/marketplace-admin";
+
+/**
+ * Mirror a mined multisig tx (submit / confirm / revoke / execute) into the DB (idempotent).
+ * POST { txHash, kind?, description?, failedId? } → { ok, applied, failed }
+ *   kind/description label a proposal the caller submitted; failedId marks a reverted execution.
+ */
+export async function POST(req: NextRequest) {
+  await prismaReady;
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+
+  const body = (await req.json().catch(() => null)) as Record<string, any> | null;
+  const txHash = typeof body?.txHash === "string" ? body.txHash.trim().toLowerCase() : "";
+  if (!/^0x[0-9a-f]{64}$/.test(txHash)) return NextResponse.json({ error: "Invalid txHash" }, { status: 400 });
+
+  try {
+    const r = await recordMultisigTx({
+      txHash,
+      wallet,
+      meta: { kind: body?.kind, description: body?.description },
+      failedProposalId: typeof body?.failedId === "string" ? body.failedId : null,
+    });
+    // executed marketplace proposals (setCurrencyAllowed) also update Currency.active
+    if (r.applied && !r.failed) {
+      await recordMarketplaceAdminTx(txHash).catch((err) => console.warn("[api treasury record] currency sync:", err));
+    }
+    return NextResponse.json({ ok: true, ...r });
+  } catch (e: any) {
+    if (e instanceof MultisigError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api treasury record] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// app/api/treasury/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { prismaReady } from "@/src/lib/db";
+import { getSessionWallet } from "@/src/lib/server/auth";
+import { getTreasuryState, MultisigError } from "@/src/lib/server/multisig";
+
+/**
+ * Multisig treasury: owners, threshold, balances, marketplace config and proposals.
+ * Public read; `isOwner` reflects the signed-in wallet.
+ */
+export async function GET() {
+  await prismaReady;
+  try {
+    const wallet = await getSessionWallet();
+    const state = await getTreasuryState(wallet);
+    return NextResponse.json(state, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    if (e instanceof MultisigError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[api treasury] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+// app/api/user-info/route.ts
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+
+const DEFAULT_AVATAR = "/img/default-avatar.png";
+
+/**
+ * Lightweight profile lookup used by avatars/pills (see useUserByWallet).
+ * Unknown wallets get a default profile (exists=false) instead of a 404,
+ * so every address renders consistently.
+ */
+export async function GET(req: NextRequest) {
+  await prismaReady;
+
+  const address = new URL(req.url).searchParams.get("address")?.trim() || "";
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { walletAddress: address },
+      select: {
+        walletAddress: true,
+        username: true,
+        profileAvatar: true,
+        profileBanner: true,
+        bio: true,
+        updatedAt: true,
+      },
+    });
+
+    const body = user
+      ? {
+          exists: true,
+          walletAddress: user.walletAddress,
+          username: user.username,
+          profileAvatar: user.profileAvatar || DEFAULT_AVATAR,
+          profileBanner: user.profileBanner ?? null,
+          bio: user.bio ?? null,
+          updatedAt: user.updatedAt.toISOString(),
+        }
+      : {
+          exists: false,
+          walletAddress: ethers.getAddress(address),
+          username: null,
+          profileAvatar: DEFAULT_AVATAR,
+          profileBanner: null,
+          bio: null,
+          updatedAt: new Date(0).toISOString(),
+        };
+
+    const resp = NextResponse.json(body);
+    resp.headers.set("Cache-Control", "s-maxage=15, stale-while-revalidate=60");
+    return resp;
+  } catch (e) {
+    console.error("[api user-info] error:", e);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 // src/app/page.tsx
 import TopCollectionsSection from "@/src/ui/home/TopCollectionsSection";
+import MintingNowRail from "@/src/ui/home/MintingNowRail";
+import FeaturedHero from "@/src/ui/home/FeaturedHero";
 
 
 type WindowKey = "24h" | "7d" | "30d";
@@ -20,9 +22,13 @@ export default async function HomePage({
 
   return (
     <div className="page-enter">
-      {/* Start with the marketplace leaderboard */}
+      <FeaturedHero />
+
+      {/* Then the marketplace leaderboard */}
       <TopCollectionsSection windowKey={windowKey} />
 
+      <MintingNowRail />
+
       <div className="h-10 sm:h-14" />
     </div>
   );
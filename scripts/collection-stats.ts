@@ -0,0 +1,100 @@
+// scripts/collection-stats.ts
+/* Keeps CollectionStatsSnapshot (floor / volume / owners) fresh.
+   npm run jobs:collection-stats                 → poll forever
+   npm run jobs:collection-stats -- --once       → single pass (cron / local checks)
+   npm run jobs:collection-stats -- --all        → refresh every collection, then exit
+   npm run jobs:collection-stats -- --verify     → diff snapshots against the live queries
+                                                   for every currency; exits 1 on mismatch
+
+   Env:
+     DATABASE_URL             (same as the app)
+     STATS_POLL_MS            default 30000 (how quickly flagged collections are picked up)
+     STATS_MAX_AGE_MS         default 600000; older snapshots are refreshed even when not
+                              flagged, so rolling 24h/7d/30d windows and listing expiry catch up
+*/
+import "dotenv/config";
+import prisma, { prismaReady } from "@/src/lib/db";
+import {
+  findCollectionsForStatsRefresh,
+  refreshCollectionStats,
+  verifyCollectionStats,
+} from "@/src/lib/server/collection-stats";
+
+function envInt(name: string, fallback: number) {
+  const raw = process.env[name];
+  if (raw == null || raw === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`[stats] ${name} must be a non-negative number`);
+  return Math.floor(n);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function verify() {
+  const currencies = await prisma.currency.findMany({
+    where: { active: true, kind: "ERC20" },
+    select: { id: true, symbol: true },
+  });
+  let mismatches = 0;
+  for (const cur of [{ id: "native", symbol: "ETN" }, ...currencies]) {
+    const diff = await verifyCollectionStats(cur.id);
+    for (const d of diff) {
+      console.log(`[stats] ${cur.symbol} ${d.collectionId} ${d.field}: snapshot=${d.snapshot} live=${d.live}`);
+    }
+    console.log(`[stats] ${cur.symbol}: ${diff.length} mismatches`);
+    mismatches += diff.length;
+  }
+  if (mismatches) process.exitCode = 1;
+}
+
+async function main() {
+  await prismaReady;
+
+  if (process.argv.includes("--verify")) {
+    await verify();
+    await prisma.$disconnect();
+    return;
+  }
+
+  if (process.argv.includes("--all")) {
+    const ids = (await prisma.collection.findMany({ select: { id: true } })).map((c) => c.id);
+    await refreshCollectionStats(ids);
+    console.log(`[stats] refreshed ${ids.length} collections`);
+    await prisma.$disconnect();
+    return;
+  }
+
+  const once = process.argv.includes("--once");
+  const pollMs = envInt("STATS_POLL_MS", 30_000);
+  const maxAgeMs = envInt("STATS_MAX_AGE_MS", 600_000);
+
+  let stopping = false;
+  const stop = () => {
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  do {
+    try {
+      const ids = await findCollectionsForStatsRefresh({ maxAgeMs });
+      if (ids.length) {
+        await refreshCollectionStats(ids);
+        console.log(`[stats] refreshed ${ids.length} collections`);
+      }
+    } catch (e) {
+      console.error("[stats] pass failed:", e);
+      if (once) process.exitCode = 1;
+    }
+    if (once || stopping) break;
+    await sleep(pollMs);
+  } while (!stopping);
+
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await prisma.$disconnect().catch(() => {});
+  process.exit(1);
+});
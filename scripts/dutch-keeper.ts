@@ -0,0 +1,150 @@
+// scripts/dutch-keeper.ts
+/* Dutch listings: closes finished schedules and moves listings to their next price step.
+   npm run jobs:dutch-keeper            → poll forever
+   npm run jobs:dutch-keeper -- --once  → single pass (cron / local checks)
+
+   A relist is cancelListing + createListing, and the marketplace only accepts both from the
+   seller, so the keeper relists for a single wallet: the one behind DUTCH_KEEPER_PRIVATE_KEY
+   (e.g. a project wallet selling its own items). Every other seller's steps can't be moved
+   server-side; the NFT panel shows them a "drop price" action when a step is due, and a
+   "relist" one when the cancel went through but the create didn't. Without the key the
+   keeper only closes schedules.
+   A relist whose create failed is retried on the next pass, and a listing that is already
+   cancelled on-chain (its sync failed) is not cancelled again.
+
+   Env:
+     DATABASE_URL                (same as the app)
+     ETN_RPC_URL | RPC_URL | NEXT_PUBLIC_RPC_URL
+     NEXT_PUBLIC_MARKETPLACE_CORE_ADDRESS | NEXT_PUBLIC_MARKETPLACE_ADDRESS
+     DUTCH_KEEPER_PRIVATE_KEY    optional, see above
+     DUTCH_POLL_MS               default 60000
+*/
+import "dotenv/config";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { MARKETPLACE_CORE_ABI } from "@/src/lib/abis/marketplace-core/marketPlaceCoreABI";
+import { getProvider } from "@/src/lib/server/chain/provider";
+import { applyMarketplaceSync } from "@/src/lib/server/marketplace-sync";
+import { getMarketplaceAddress } from "@/src/lib/server/offers";
+import {
+  findDueDutchSteps,
+  markDutchRelist,
+  reconcileDutchSchedules,
+  type DueDutchStep,
+} from "@/src/lib/server/dutch-listings";
+
+function envInt(name: string, fallback: number) {
+  const raw = process.env[name];
+  if (raw == null || raw === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`[dutch] ${name} must be a non-negative number`);
+  return Math.floor(n);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function getMarket() {
+  const pk = process.env.DUTCH_KEEPER_PRIVATE_KEY;
+  if (!pk) return null;
+
+  const wallet = new ethers.Wallet(pk, getProvider());
+  return { wallet, market: new ethers.Contract(getMarketplaceAddress(), MARKETPLACE_CORE_ABI, wallet) };
+}
+
+async function confirmed(tx: ethers.TransactionResponse) {
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status !== 1) throw new Error(`tx ${tx.hash} failed`);
+  return receipt;
+}
+
+/**
+ * Cancel the current step, list the due one, and record both like the UI's sync would.
+ * The cancel marks the schedule as relisting, so if the create fails the next pass finds
+ * the step again (without a listing to cancel) and only retries the create.
+ */
+async function relist(market: ethers.Contract, d: DueDutchStep) {
+  if (d.listingId) {
+    const dutch = { scheduleId: d.scheduleId, step: d.step };
+    const onChain = await market.listings(BigInt(d.listingId));
+    if (onChain.active) {
+      const cancelTx: ethers.TransactionResponse = await market.cancelListing(BigInt(d.listingId));
+      await applyMarketplaceSync({ type: "LISTING_CANCEL", txHash: cancelTx.hash, dutch }, await confirmed(cancelTx));
+    } else {
+      // cancelled by an earlier pass whose sync failed; the indexer records the cancel
+      await markDutchRelist({ listingId: d.listingId, nftId: d.nftId, sellerAddress: d.sellerAddress, dutch });
+    }
+  }
+
+  const start = Math.floor(Date.now() / 1000);
+  const tx: ethers.TransactionResponse = await market.createListing(
+    d.contract,
+    BigInt(d.tokenId),
+    BigInt(d.quantity),
+    d.currencyAddress ?? ethers.ZeroAddress,
+    BigInt(d.priceWei),
+    start,
+    Math.floor(d.endTime.getTime() / 1000),
+    d.standard === "ERC1155" ? 1 : 0
+  );
+  await applyMarketplaceSync(
+    {
+      type: "LISTING_CREATE",
+      txHash: tx.hash,
+      dutch: { scheduleId: d.scheduleId, step: d.step },
+    },
+    await confirmed(tx)
+  );
+}
+
+async function pass(keeper: ReturnType<typeof getMarket>) {
+  const closed = await reconcileDutchSchedules();
+  if (closed.sold || closed.ended || closed.cancelled) {
+    console.log(`[dutch] closed: ${closed.sold} sold, ${closed.ended} ended, ${closed.cancelled} cancelled`);
+  }
+  if (!keeper) return;
+
+  const due = await findDueDutchSteps({ seller: keeper.wallet.address });
+  for (const d of due) {
+    try {
+      await relist(keeper.market, d);
+      console.log(`[dutch] ${d.contract}#${d.tokenId} → step ${d.step} (${d.priceWei})`);
+    } catch (e) {
+      console.error(`[dutch] relist ${d.contract}#${d.tokenId} failed:`, e);
+    }
+  }
+}
+
+async function main() {
+  const once = process.argv.includes("--once");
+  const pollMs = envInt("DUTCH_POLL_MS", 60_000);
+  const keeper = getMarket();
+
+  await prismaReady;
+  if (keeper) console.log(`[dutch] relisting for ${keeper.wallet.address}`);
+
+  let stopping = false;
+  const stop = () => {
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  do {
+    try {
+      await pass(keeper);
+    } catch (e) {
+      console.error("[dutch] pass failed:", e);
+      if (once) process.exitCode = 1;
+    }
+    if (once || stopping) break;
+    await sleep(pollMs);
+  } while (!stopping);
+
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await prisma.$disconnect().catch(() => {});
+  process.exit(1);
+});
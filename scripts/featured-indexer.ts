@@ -0,0 +1,83 @@
+// scripts/featured-indexer.ts
+/* Standalone FeaturedAuction indexer.
+   npm run indexer:featured            → tail forever
+   npm run indexer:featured -- --once  → single pass (cron / local checks)
+
+   Env:
+     DATABASE_URL                          (same as the app)
+     INDEXER_RPC_URL | ETN_RPC_URL | RPC_URL | NEXT_PUBLIC_RPC_URL
+     NEXT_PUBLIC_FEATURED_AUCTION_ADDRESS
+     FEATURED_START_BLOCK                  first block when no ChainState cursor exists
+     INDEXER_CONFIRMATIONS                 default 12 (use 0 against a local anvil/hardhat node)
+     INDEXER_REORG_DEPTH                   default = confirmations
+     INDEXER_BATCH_SIZE                    default 2000
+     INDEXER_POLL_MS                       default 5000
+*/
+import "dotenv/config";
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { getIndexerProvider, getIndexerRpcUrl } from "@/src/lib/server/chain/provider";
+import { syncFeaturedOnce } from "@/src/lib/server/indexer/featuredIndexer";
+
+function envInt(name: string, fallback?: number) {
+  const raw = process.env[name];
+  if (raw == null || raw === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`[featured] ${name} must be a non-negative number`);
+  return Math.floor(n);
+}
+
+function getAuctionAddress() {
+  const addr = process.env.NEXT_PUBLIC_FEATURED_AUCTION_ADDRESS;
+  if (!addr || !ethers.isAddress(addr)) {
+    throw new Error("[featured] Missing NEXT_PUBLIC_FEATURED_AUCTION_ADDRESS (valid 0x address).");
+  }
+  return addr;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function main() {
+  const once = process.argv.includes("--once");
+  const pollMs = envInt("INDEXER_POLL_MS", 5000)!;
+
+  const opts = {
+    provider: getIndexerProvider(),
+    auction: getAuctionAddress(),
+    startBlock: envInt("FEATURED_START_BLOCK"),
+    confirmations: envInt("INDEXER_CONFIRMATIONS", 12),
+    reorgDepth: envInt("INDEXER_REORG_DEPTH"),
+    batchSize: envInt("INDEXER_BATCH_SIZE", 2000),
+  };
+
+  await prismaReady;
+
+  let stopping = false;
+  const stop = () => {
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  console.log(`[featured] auction ${opts.auction} via ${getIndexerRpcUrl()}`);
+
+  do {
+    try {
+      await syncFeaturedOnce(opts);
+    } catch (e) {
+      console.error("[featured] pass failed:", e);
+      if (once) process.exitCode = 1;
+    }
+    if (once || stopping) break;
+    await sleep(pollMs);
+  } while (!stopping);
+
+  opts.provider.destroy();
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await prisma.$disconnect().catch(() => {});
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+// scripts/marketplace-indexer.ts
+/* Standalone MarketplaceCore indexer.
+   npm run indexer:marketplace            → tail forever
+   npm run indexer:marketplace -- --once  → single pass (cron / local checks)
+
+   Env:
+     DATABASE_URL                     (same as the app)
+     INDEXER_RPC_URL | ETN_RPC_URL | RPC_URL | NEXT_PUBLIC_RPC_URL
+     NEXT_PUBLIC_MARKETPLACE_CORE_ADDRESS | NEXT_PUBLIC_MARKETPLACE_ADDRESS
+     INDEXER_START_BLOCK              first block when no ChainState cursor exists
+     INDEXER_CONFIRMATIONS            default 12 (use 0 against a local anvil/hardhat node)
+     INDEXER_REORG_DEPTH              default = confirmations
+     INDEXER_BATCH_SIZE               default 2000
+     INDEXER_POLL_MS                  default 5000
+
+   Each pass also expires offers and re-checks bidder balance/allowance
+   (see src/lib/server/offers.ts).
+*/
+import "dotenv/config";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { getIndexerProvider, getIndexerRpcUrl } from "@/src/lib/server/chain/provider";
+import { syncMarketplaceOnce } from "@/src/lib/server/indexer/marketplaceIndexer";
+import { getMarketplaceAddress, revalidateOffers } from "@/src/lib/server/offers";
+
+function envInt(name: string, fallback?: number) {
+  const raw = process.env[name];
+  if (raw == null || raw === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`[indexer] ${name} must be a non-negative number`);
+  return Math.floor(n);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function main() {
+  const once = process.argv.includes("--once");
+  const pollMs = envInt("INDEXER_POLL_MS", 5000)!;
+
+  const opts = {
+    provider: getIndexerProvider(),
+    marketplace: getMarketplaceAddress(),
+    startBlock: envInt("INDEXER_START_BLOCK"),
+    confirmations: envInt("INDEXER_CONFIRMATIONS", 12),
+    reorgDepth: envInt("INDEXER_REORG_DEPTH"),
+    batchSize: envInt("INDEXER_BATCH_SIZE", 2000),
+  };
+
+  await prismaReady;
+
+  let stopping = false;
+  const stop = () => {
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  console.log(`[indexer] marketplace ${opts.marketplace} via ${getIndexerRpcUrl()}`);
+
+  do {
+    try {
+      await syncMarketplaceOnce(opts);
+    } catch (e) {
+      console.error("[indexer] pass failed:", e);
+      if (once) process.exitCode = 1;
+    }
+    try {
+      const r = await revalidateOffers();
+      if (r.expired || r.invalidated || r.revived || r.released) console.log("[indexer] offers:", r);
+    } catch (e) {
+      console.error("[indexer] offer revalidation failed:", e);
+    }
+    if (once || stopping) break;
+    await sleep(pollMs);
+  } while (!stopping);
+
+  opts.provider.destroy();
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await prisma.$disconnect().catch(() => {});
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+// scripts/metadata-worker.ts
+/* Metadata ingestion worker.
+   npm run jobs:metadata                    → poll forever
+   npm run jobs:metadata -- --once          → single pass
+   npm run jobs:metadata -- --contract 0x…  → drive one collection until nothing is due
+
+   Each pass advances owner-requested collection refreshes, then QUEUED/INDEXING
+   collections, then drains due PENDING tokens of indexed collections (new mints, retries).
+
+   Env:
+     DATABASE_URL, ETN_RPC_URL/RPC_URL  (same as the app)
+     METADATA_POLL_MS          default 30000
+     METADATA_CONCURRENCY      default 4
+     METADATA_MAX_RETRIES      default 6
+     METADATA_RETRY_BASE_SEC   default 60 (doubles per retry, capped at 6h)
+     PINATA_GATEWAY_URL        gateway for gatewayPref = PINATA
+*/
+import "dotenv/config";
+import prisma, { prismaReady } from "@/src/lib/db";
+import {
+  findCollectionsToIndex,
+  processCollection,
+  processPendingTokens,
+  processRefreshJobs,
+} from "@/src/lib/server/metadata";
+
+function argValue(name: string) {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] ?? null : null;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function advance(contract: string) {
+  const r = await processCollection(contract);
+  console.log(`[metadata] ${r.contract}: ${r.indexStatus}`, "pending" in r ? `(${r.success} ok, ${r.pending} pending, ${r.errored} failed)` : "");
+  return r;
+}
+
+async function main() {
+  await prismaReady;
+
+  const only = argValue("--contract");
+  if (only) {
+    for (;;) {
+      const r = await advance(only);
+      if (r.indexStatus !== "INDEXING" || !("attempted" in r) || !r.attempted) break;
+    }
+    await prisma.$disconnect();
+    return;
+  }
+
+  const once = process.argv.includes("--once");
+  const pollMs = Number(process.env.METADATA_POLL_MS || 30_000);
+
+  let stopping = false;
+  const stop = () => {
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  do {
+    try {
+      for (const r of await processRefreshJobs()) {
+        console.log(`[metadata] refresh ${r.contract}: ${r.processed}/${r.total}${r.done ? " done" : ""}`);
+      }
+      for (const contract of await findCollectionsToIndex()) {
+        if (stopping) break;
+        try {
+          await advance(contract);
+        } catch (e) {
+          console.error(`[metadata] ${contract} failed:`, e);
+          if (once) process.exitCode = 1;
+        }
+      }
+      if (!stopping) {
+        const t = await processPendingTokens({ limit: 200 });
+        if (t.attempted) console.log(`[metadata] tokens: ${t.succeeded} ok, ${t.failed} failed`);
+      }
+    } catch (e) {
+      console.error("[metadata] pass failed:", e);
+      if (once) process.exitCode = 1;
+    }
+    if (once || stopping) break;
+    await sleep(pollMs);
+  } while (!stopping);
+
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await prisma.$disconnect().catch(() => {});
+  process.exit(1);
+});
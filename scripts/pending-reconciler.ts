@@ -0,0 +1,59 @@
+// scripts/pending-reconciler.ts
+/* Applies in-flight auction txs (PendingChainAction) whose tab was closed mid-flight.
+   npm run jobs:pending            → poll forever
+   npm run jobs:pending -- --once  → single pass (cron / local checks)
+
+   Env:
+     DATABASE_URL           (same as the app)
+     ETN_RPC_URL | RPC_URL | NEXT_PUBLIC_RPC_URL
+     PENDING_POLL_MS        default 15000
+*/
+import "dotenv/config";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { reconcilePendingActions } from "@/src/lib/server/pending-actions";
+
+function envInt(name: string, fallback: number) {
+  const raw = process.env[name];
+  if (raw == null || raw === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`[pending] ${name} must be a non-negative number`);
+  return Math.floor(n);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function main() {
+  const once = process.argv.includes("--once");
+  const pollMs = envInt("PENDING_POLL_MS", 15000);
+
+  await prismaReady;
+
+  let stopping = false;
+  const stop = () => {
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  do {
+    try {
+      const r = await reconcilePendingActions();
+      if (r.confirmed || r.failed || r.expired) {
+        console.log(`[pending] checked ${r.checked}: ${r.confirmed} confirmed, ${r.failed} failed, ${r.expired} expired`);
+      }
+    } catch (e) {
+      console.error("[pending] pass failed:", e);
+      if (once) process.exitCode = 1;
+    }
+    if (once || stopping) break;
+    await sleep(pollMs);
+  } while (!stopping);
+
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await prisma.$disconnect().catch(() => {});
+  process.exit(1);
+});
@@ -0,0 +1,83 @@
+// scripts/rarity-worker.ts
+/* Rarity + trait stats worker.
+   npm run jobs:rarity                          → poll for stale collections forever
+   npm run jobs:rarity -- --once                → single pass
+   npm run jobs:rarity -- --contract 0x… [--method STATISTICAL|INFORMATION_CONTENT|RARITY_SCORE]
+
+   Env:
+     DATABASE_URL        (same as the app)
+     RARITY_POLL_MS      default 60000
+*/
+import "dotenv/config";
+import prisma, { prismaReady } from "@/src/lib/db";
+import type { RarityMethod } from "@/src/lib/generated/prisma/client";
+import { computeRarity, findStaleRarityCollections, RARITY_METHODS } from "@/src/lib/server/rarity";
+import { computeTraitStats } from "@/src/lib/server/traits";
+
+function argValue(name: string) {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] ?? null : null;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function refresh(contract: string, method?: RarityMethod) {
+  const stats = await computeTraitStats(contract);
+  const r = await computeRarity(contract, { method });
+  console.log(
+    `[rarity] ${r.contract} (${r.method}): ${r.population} items, ${stats.values} trait values, ${r.updated} updated, ${r.removed} removed`
+  );
+}
+
+async function main() {
+  await prismaReady;
+
+  const only = argValue("--contract");
+  const methodArg = argValue("--method")?.toUpperCase() ?? null;
+  if (methodArg && !RARITY_METHODS.includes(methodArg as RarityMethod)) {
+    throw new Error(`[rarity] --method must be one of ${RARITY_METHODS.join(", ")}`);
+  }
+
+  if (only) {
+    await refresh(only, (methodArg as RarityMethod | null) ?? undefined);
+    await prisma.$disconnect();
+    return;
+  }
+
+  const once = process.argv.includes("--once");
+  const pollMs = Number(process.env.RARITY_POLL_MS || 60_000);
+
+  let stopping = false;
+  const stop = () => {
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  do {
+    try {
+      for (const contract of await findStaleRarityCollections()) {
+        if (stopping) break;
+        try {
+          await refresh(contract);
+        } catch (e) {
+          console.error(`[rarity] ${contract} failed:`, e);
+          if (once) process.exitCode = 1;
+        }
+      }
+    } catch (e) {
+      console.error("[rarity] pass failed:", e);
+      if (once) process.exitCode = 1;
+    }
+    if (once || stopping) break;
+    await sleep(pollMs);
+  } while (!stopping);
+
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await prisma.$disconnect().catch(() => {});
+  process.exit(1);
+});
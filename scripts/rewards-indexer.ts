@@ -0,0 +1,74 @@
+// scripts/rewards-indexer.ts
+/* RewardDistributor indexer + holder reward accrual.
+   npm run jobs:rewards            → tail forever
+   npm run jobs:rewards -- --once  → single pass (cron / local checks)
+
+   Env:
+     DATABASE_URL                          (same as the app)
+     INDEXER_RPC_URL | ETN_RPC_URL | RPC_URL | NEXT_PUBLIC_RPC_URL
+     NEXT_PUBLIC_REWARD_DISTRIBUTOR_ADDRESS
+     REWARDS_HOLDER_COLLECTION             collection whose holders share the rewards
+     REWARDS_START_BLOCK                   first block when no ChainState cursor exists
+     INDEXER_CONFIRMATIONS                 default 12 (use 0 against a local anvil/hardhat node)
+     INDEXER_BATCH_SIZE                    default 2000
+     INDEXER_POLL_MS                       default 15000
+*/
+import "dotenv/config";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { getIndexerProvider, getIndexerRpcUrl } from "@/src/lib/server/chain/provider";
+import { syncRewardsOnce } from "@/src/lib/server/indexer/rewardsIndexer";
+import { getDistributorAddress } from "@/src/lib/server/rewards";
+
+function envInt(name: string, fallback?: number) {
+  const raw = process.env[name];
+  if (raw == null || raw === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`[rewards] ${name} must be a non-negative number`);
+  return Math.floor(n);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function main() {
+  const once = process.argv.includes("--once");
+  const pollMs = envInt("INDEXER_POLL_MS", 15000)!;
+
+  const opts = {
+    provider: getIndexerProvider(),
+    distributor: getDistributorAddress(),
+    startBlock: envInt("REWARDS_START_BLOCK"),
+    confirmations: envInt("INDEXER_CONFIRMATIONS", 12),
+    batchSize: envInt("INDEXER_BATCH_SIZE", 2000),
+  };
+
+  await prismaReady;
+
+  let stopping = false;
+  const stop = () => {
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  console.log(`[rewards] distributor ${opts.distributor} via ${getIndexerRpcUrl()}`);
+
+  do {
+    try {
+      await syncRewardsOnce(opts);
+    } catch (e) {
+      console.error("[rewards] pass failed:", e);
+      if (once) process.exitCode = 1;
+    }
+    if (once || stopping) break;
+    await sleep(pollMs);
+  } while (!stopping);
+
+  opts.provider.destroy();
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await prisma.$disconnect().catch(() => {});
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+// scripts/sales-rollup.ts
+/* Rolls MarketplaceSale into hourly/daily CollectionSaleBucket rows.
+   npm run jobs:sales-rollup                  → poll forever
+   npm run jobs:sales-rollup -- --once        → single pass (cron / local checks)
+   npm run jobs:sales-rollup -- --backfill    → rebuild every bucket from the first sale, then exit
+
+   Env:
+     DATABASE_URL             (same as the app)
+     ROLLUP_POLL_MS           default 300000
+     ROLLUP_LOOKBACK_MS       sales indexed this recently get their buckets recomputed;
+                              default 3 × ROLLUP_POLL_MS so a slow pass never leaves a gap
+*/
+import "dotenv/config";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { backfillSaleBuckets, rollupRecentSales } from "@/src/lib/server/sale-stats";
+
+function envInt(name: string, fallback: number) {
+  const raw = process.env[name];
+  if (raw == null || raw === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`[rollup] ${name} must be a non-negative number`);
+  return Math.floor(n);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function main() {
+  await prismaReady;
+
+  if (process.argv.includes("--backfill")) {
+    const r = await backfillSaleBuckets();
+    console.log(`[rollup] backfill: ${r.hour} hourly, ${r.day} daily buckets`);
+    await prisma.$disconnect();
+    return;
+  }
+
+  const once = process.argv.includes("--once");
+  const pollMs = envInt("ROLLUP_POLL_MS", 300_000);
+  const lookbackMs = envInt("ROLLUP_LOOKBACK_MS", pollMs * 3);
+
+  let stopping = false;
+  const stop = () => {
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  do {
+    try {
+      const r = await rollupRecentSales(lookbackMs);
+      if (r.sales) console.log(`[rollup] ${r.sales} new sales → ${r.hour} hourly, ${r.day} daily buckets`);
+    } catch (e) {
+      console.error("[rollup] pass failed:", e);
+      if (once) process.exitCode = 1;
+    }
+    if (once || stopping) break;
+    await sleep(pollMs);
+  } while (!stopping);
+
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await prisma.$disconnect().catch(() => {});
+  process.exit(1);
+});
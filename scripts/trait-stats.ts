@@ -0,0 +1,45 @@
+// scripts/trait-stats.ts
+/* Rebuild TraitStat (per-trait counts + frequency) from indexed NFTs.
+   npm run jobs:trait-stats                      → every collection
+   npm run jobs:trait-stats -- --contract 0x…    → one collection
+
+   Env:
+     DATABASE_URL   (same as the app)
+*/
+import "dotenv/config";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { computeTraitStats } from "@/src/lib/server/traits";
+
+function argValue(name: string) {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] ?? null : null;
+}
+
+async function main() {
+  await prismaReady;
+
+  const only = argValue("--contract");
+  const contracts = only
+    ? [only]
+    : (await prisma.collection.findMany({ select: { contract: true }, orderBy: { createdAt: "asc" } })).map(
+        (c) => c.contract
+      );
+
+  for (const contract of contracts) {
+    try {
+      const r = await computeTraitStats(contract);
+      console.log(`[trait-stats] ${contract}: ${r.values} values over ${r.population} items`);
+    } catch (e) {
+      console.error(`[trait-stats] ${contract} failed:`, e);
+      process.exitCode = 1;
+    }
+  }
+
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error(e);
+  await prisma.$disconnect().catch(() => {});
+  process.exit(1);
+});
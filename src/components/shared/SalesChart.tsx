@@ -0,0 +1,125 @@
+"use client";
+
+import * as React from "react";
+
+export type ChartPoint = { t: number; v: number; label?: string };
+
+const W = 640;
+const H = 200;
+const PAD = { top: 12, right: 12, bottom: 22, left: 48 };
+
+function compact(n: number) {
+  return new Intl.NumberFormat(undefined, {
+    notation: "compact",
+    maximumFractionDigits: n < 10 ? 3 : 1,
+  }).format(n);
+}
+
+function dateLabel(t: number, withTime: boolean) {
+  return new Date(t).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    ...(withTime ? { hour: "2-digit", minute: "2-digit" } : {}),
+  });
+}
+
+/**
+ * Minimal SVG time chart: volume bars, a price line and sale dots share one time axis;
+ * bars get their own scale (max bar = full height). Hover a dot or bar for its value.
+ */
+export default function SalesChart({
+  line = [],
+  points = [],
+  bars = [],
+  unit,
+  withTime = false,
+  empty = "No sales yet.",
+}: {
+  line?: ChartPoint[];
+  points?: ChartPoint[];
+  bars?: ChartPoint[];
+  unit: string;
+  withTime?: boolean;
+  empty?: string;
+}) {
+  const all = [...line, ...points];
+  const times = [...all, ...bars].map((p) => p.t);
+
+  if (!times.length) {
+    return <div className="flex h-40 items-center justify-center text-sm text-muted-foreground">{empty}</div>;
+  }
+
+  let t0 = Math.min(...times);
+  let t1 = Math.max(...times);
+  if (t0 === t1) {
+    t0 -= 3600_000;
+    t1 += 3600_000;
+  }
+  const vMax = Math.max(...all.map((p) => p.v), 0) * 1.1 || 1;
+  const barMax = Math.max(...bars.map((p) => p.v), 0) || 1;
+
+  const innerW = W - PAD.left - PAD.right;
+  const innerH = H - PAD.top - PAD.bottom;
+  const x = (t: number) => PAD.left + ((t - t0) / (t1 - t0)) * innerW;
+  const y = (v: number) => PAD.top + innerH - (v / vMax) * innerH;
+  const barW = Math.max(2, Math.min(16, innerW / Math.max(bars.length, 1) - 2));
+
+  const path = line
+    .slice()
+    .sort((a, b) => a.t - b.t)
+    .map((p, i) => `${i ? "L" : "M"}${x(p.t).toFixed(1)},${y(p.v).toFixed(1)}`)
+    .join(" ");
+
+  const ticks = [0, 0.5, 1].map((f) => vMax * f);
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="h-auto w-full" role="img" aria-label={`Sales in ${unit}`}>
+      {ticks.map((v) => (
+        <g key={v}>
+          <line
+            x1={PAD.left}
+            x2={W - PAD.right}
+            y1={y(v)}
+            y2={y(v)}
+            className="stroke-black/10 dark:stroke-white/10"
+            strokeDasharray="3 3"
+          />
+          <text x={PAD.left - 6} y={y(v) + 3} textAnchor="end" className="fill-muted-foreground text-[10px]">
+            {compact(v)}
+          </text>
+        </g>
+      ))}
+
+      {bars.map((b) => {
+        const h = (b.v / barMax) * innerH * 0.35;
+        return (
+          <rect
+            key={`b${b.t}`}
+            x={x(b.t) - barW / 2}
+            y={PAD.top + innerH - h}
+            width={barW}
+            height={h}
+            className="fill-emerald-500/20"
+          >
+            <title>{b.label ?? `${dateLabel(b.t, withTime)} · ${compact(b.v)} ${unit}`}</title>
+          </rect>
+        );
+      })}
+
+      {path ? <path d={path} fill="none" strokeWidth={2} className="stroke-emerald-500" /> : null}
+
+      {points.map((p, i) => (
+        <circle key={`p${p.t}-${i}`} cx={x(p.t)} cy={y(p.v)} r={3} className="fill-sky-500/70">
+          <title>{p.label ?? `${dateLabel(p.t, withTime)} · ${compact(p.v)} ${unit}`}</title>
+        </circle>
+      ))}
+
+      <text x={PAD.left} y={H - 6} className="fill-muted-foreground text-[10px]">
+        {dateLabel(t0, withTime)}
+      </text>
+      <text x={W - PAD.right} y={H - 6} textAnchor="end" className="fill-muted-foreground text-[10px]">
+        {dateLabel(t1, withTime)}
+      </text>
+    </svg>
+  );
+}
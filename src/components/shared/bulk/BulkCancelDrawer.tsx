@@ -0,0 +1,124 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { Drawer } from "@/src/ui/Drawer";
+import { Button } from "@/src/ui/Button";
+import { useUnifiedAccount } from "@/src/lib/useUnifiedAccount";
+import {
+  bulkCancelKey,
+  loadBulkCancelItems,
+  useBulkCancel,
+  type BulkCancelItemDTO,
+} from "@/src/lib/hooks/useBulkListing";
+import BulkStatus from "./BulkStatus";
+
+/** Cancels a selection of the connected wallet's listings and auctions, one tx each. */
+export default function BulkCancelDrawer({
+  open,
+  onClose,
+  listingIds,
+  auctionIds,
+  onDone,
+}: {
+  open: boolean;
+  onClose: () => void;
+  listingIds: string[];
+  auctionIds: string[];
+  /** Called once everything is cancelled. */
+  onDone?: () => void;
+}) {
+  const { address } = useUnifiedAccount();
+  const cancel = useBulkCancel();
+  const { reset } = cancel;
+
+  const [items, setItems] = React.useState<BulkCancelItemDTO[]>([]);
+  const [loading, setLoading] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    let ok = true;
+    reset();
+    if (!address || listingIds.length + auctionIds.length === 0) {
+      setItems([]);
+      return;
+    }
+    setLoading(true);
+    loadBulkCancelItems(address, { listingIds, auctionIds })
+      .then((rows) => ok && setItems(rows))
+      .catch((e) => ok && toast.error((e as Error).message))
+      .finally(() => ok && setLoading(false));
+    return () => {
+      ok = false;
+    };
+  }, [open, address, listingIds, auctionIds, reset]);
+
+  const started = Object.keys(cancel.progress).length > 0;
+  const remaining = items.filter((i) => cancel.progress[bulkCancelKey(i)]?.status !== "done").length;
+  const selected = listingIds.length + auctionIds.length;
+
+  const close = () => {
+    if (cancel.running) return;
+    onClose();
+  };
+
+  const submit = async () => {
+    try {
+      const r = await cancel.run(items);
+      if (r.paused) toast.info("Paused. Resume to cancel the rest.");
+      else if (r.failed) toast.warning(`${r.failed} cancellation${r.failed === 1 ? "" : "s"} failed. Resume to retry.`);
+      else toast.success(`Cancelled ${r.done} item${r.done === 1 ? "" : "s"}.`);
+      if (!r.paused && !r.failed) onDone?.();
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+  };
+
+  return (
+    <Drawer open={open} onClose={close} title={`Cancel ${selected} item${selected === 1 ? "" : "s"}`}>
+      {!address ? (
+        <div className="py-10 text-center text-sm text-muted-foreground">Connect your wallet to cancel.</div>
+      ) : loading ? (
+        <div className="py-10 text-center text-sm text-muted-foreground">Loading selection…</div>
+      ) : items.length === 0 ? (
+        <div className="py-10 text-center text-sm text-muted-foreground">Nothing in the selection is still active.</div>
+      ) : (
+        <div className="space-y-5">
+          <ul className="divide-y divide-border rounded-2xl border border-border">
+            {items.map((i) => (
+              <li key={bulkCancelKey(i)} className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-semibold">{i.name || `#${i.tokenId}`}</div>
+                  <BulkStatus
+                    status={cancel.progress[bulkCancelKey(i)]}
+                    fallback={i.kind === "AUCTION" ? (i.hasBids ? "Auction · has bids" : "Auction") : "Listing"}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {items.length < selected ? (
+            <p className="text-xs text-muted-foreground">
+              {selected - items.length} selected item{selected - items.length === 1 ? " is" : "s are"} no longer active.
+            </p>
+          ) : null}
+
+          <div className="space-y-2 border-t border-border pt-4">
+            {cancel.step ? <div className="text-xs text-muted-foreground">{cancel.step}</div> : null}
+            <Button
+              variant="danger"
+              className="w-full"
+              onClick={submit}
+              loading={cancel.running}
+              disabled={remaining === 0}
+            >
+              {started && remaining ? `Resume (${remaining} left)` : `Cancel ${items.length} item${items.length === 1 ? "" : "s"}`}
+            </Button>
+            <p className="text-xs text-muted-foreground">One transaction per listing or auction.</p>
+          </div>
+        </div>
+      )}
+    </Drawer>
+  );
+}
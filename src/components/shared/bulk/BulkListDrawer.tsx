@@ -0,0 +1,325 @@
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import { toast } from "sonner";
+import { Drawer } from "@/src/ui/Drawer";
+import { Button } from "@/src/ui/Button";
+import { Input } from "@/src/ui/Input";
+import { ipfsToHttp } from "@/src/lib/media";
+import { useUnifiedAccount } from "@/src/lib/useUnifiedAccount";
+import { CurrencySelect, type CurrencyOption } from "@/src/components/shared/nft/CurrencySelector";
+import {
+  bulkPriceFor,
+  loadBulkListPreview,
+  useBulkList,
+  type BulkListPlanItem,
+  type BulkListPreview,
+  type BulkPricing,
+} from "@/src/lib/hooks/useBulkListing";
+import BulkStatus from "./BulkStatus";
+
+const NATIVE: CurrencyOption = { id: "native", symbol: "ETN", decimals: 18, kind: "NATIVE", tokenAddress: null };
+const DURATIONS = [1, 3, 7, 14, 30];
+type Mode = BulkPricing["mode"];
+
+/** Lists a multi-selection in one go: shared currency + duration, price per item / vs floor / by trait. */
+export default function BulkListDrawer({
+  open,
+  onClose,
+  nftIds,
+  onDone,
+}: {
+  open: boolean;
+  onClose: () => void;
+  nftIds: string[];
+  /** Called once everything is listed (refresh the grid, clear the selection). */
+  onDone?: () => void;
+}) {
+  const { address } = useUnifiedAccount();
+  const list = useBulkList();
+  const { reset } = list;
+
+  const [preview, setPreview] = React.useState<BulkListPreview | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [currencies, setCurrencies] = React.useState<CurrencyOption[]>([NATIVE]);
+  const [currencyId, setCurrencyId] = React.useState("native");
+  const [days, setDays] = React.useState(7);
+  const [mode, setMode] = React.useState<Mode>("fixed");
+  const [fixed, setFixed] = React.useState("");
+  const [percent, setPercent] = React.useState("0");
+  const [traitType, setTraitType] = React.useState("");
+  const [traitPrices, setTraitPrices] = React.useState<Record<string, string>>({});
+  const [fallback, setFallback] = React.useState("");
+  const [overrides, setOverrides] = React.useState<Record<string, string>>({});
+  const [quantities, setQuantities] = React.useState<Record<string, string>>({});
+
+  React.useEffect(() => {
+    if (!open) return;
+    let ok = true;
+    reset();
+    setOverrides({});
+    setQuantities({});
+    fetch("/api/currencies", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j: { currencies?: CurrencyOption[] }) => {
+        if (ok && Array.isArray(j?.currencies)) setCurrencies([NATIVE, ...j.currencies.filter((c) => c.id !== "native")]);
+      })
+      .catch(() => null);
+
+    if (!address || !nftIds.length) {
+      setPreview(null);
+      return;
+    }
+    setLoading(true);
+    loadBulkListPreview(address, nftIds)
+      .then((p) => ok && setPreview(p))
+      .catch((e) => ok && toast.error((e as Error).message))
+      .finally(() => ok && setLoading(false));
+    return () => {
+      ok = false;
+    };
+  }, [open, address, nftIds, reset]);
+
+  const currency = currencies.find((c) => c.id === currencyId) ?? NATIVE;
+  const items = React.useMemo(() => preview?.items ?? [], [preview]);
+
+  // trait types present in the selection, each with its values
+  const traitValues = React.useMemo(() => {
+    const m = new Map<string, Set<string>>();
+    for (const i of items) {
+      for (const t of i.traits) {
+        const vals = m.get(t.type) ?? new Set<string>();
+        vals.add(t.value);
+        m.set(t.type, vals);
+      }
+    }
+    return m;
+  }, [items]);
+  const traitTypes = [...traitValues.keys()].sort();
+  const activeTrait = traitValues.has(traitType) ? traitType : traitTypes[0] ?? "";
+
+  const pricing: BulkPricing =
+    mode === "fixed"
+      ? { mode, price: fixed }
+      : mode === "floor"
+      ? { mode, percent }
+      : { mode, traitType: activeTrait, prices: traitPrices, fallback };
+
+  const plan: BulkListPlanItem[] = items.map((i) => ({
+    ...i,
+    price: overrides[i.nftId] ?? bulkPriceFor(i, pricing, { currency, floors: preview?.floors ?? {} }) ?? "",
+    quantity: Math.min(i.balance, Math.max(1, Number(quantities[i.nftId] ?? "1") || 1)),
+  }));
+  const missing = plan.filter((i) => !i.price.trim()).length;
+
+  const started = Object.keys(list.progress).length > 0;
+  const remaining = plan.filter((i) => list.progress[i.nftId]?.status !== "done").length;
+
+  const close = () => {
+    if (list.running) return;
+    onClose();
+  };
+
+  const submit = async () => {
+    if (missing) {
+      toast.error(`${missing} item${missing === 1 ? " has" : "s have"} no price yet.`);
+      return;
+    }
+    try {
+      const r = await list.run(plan, { currency, durationDays: days });
+      if (r.paused) toast.info("Paused. Resume to list the rest.");
+      else if (r.failed) toast.warning(`${r.failed} listing${r.failed === 1 ? "" : "s"} failed. Resume to retry.`);
+      else toast.success(`Listed ${r.done} item${r.done === 1 ? "" : "s"}.`);
+      if (!r.paused && !r.failed) onDone?.();
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+  };
+
+  // prices stay editable between runs: a resume only sends what isn't listed yet
+  const locked = list.running;
+
+  return (
+    <Drawer open={open} onClose={close} title={`List ${nftIds.length} item${nftIds.length === 1 ? "" : "s"}`}>
+      {!address ? (
+        <div className="py-10 text-center text-sm text-muted-foreground">Connect your wallet to list.</div>
+      ) : loading ? (
+        <div className="py-10 text-center text-sm text-muted-foreground">Loading selection…</div>
+      ) : (
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1 text-xs text-muted-foreground">
+              <span>Currency</span>
+              <CurrencySelect value={currencyId} onChange={setCurrencyId} options={currencies} disabled={locked} />
+            </label>
+            <label className="space-y-1 text-xs text-muted-foreground">
+              <span>Duration</span>
+              <select
+                value={days}
+                onChange={(e) => setDays(Number(e.target.value))}
+                disabled={locked}
+                className="h-10 w-full rounded-2xl border border-border bg-card px-4 text-sm text-foreground"
+              >
+                {DURATIONS.map((d) => (
+                  <option key={d} value={d}>
+                    {d} day{d === 1 ? "" : "s"}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="inline-flex rounded-full border border-border bg-card p-1">
+              {(["fixed", "floor", "trait"] as Mode[]).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMode(m)}
+                  disabled={locked}
+                  className={[
+                    "h-8 rounded-full px-3 text-xs font-medium transition",
+                    mode === m ? "bg-foreground text-background" : "text-foreground/80 hover:bg-background/60",
+                  ].join(" ")}
+                >
+                  {m === "fixed" ? "Same price" : m === "floor" ? "Vs floor" : "By trait"}
+                </button>
+              ))}
+            </div>
+
+            {mode === "fixed" ? (
+              <Input
+                inputMode="decimal"
+                placeholder={`Price in ${currency.symbol}`}
+                value={fixed}
+                onChange={(e) => setFixed(e.target.value)}
+                disabled={locked}
+              />
+            ) : null}
+
+            {mode === "floor" ? (
+              <div className="flex items-center gap-2 text-sm">
+                <Input
+                  inputMode="decimal"
+                  value={percent}
+                  onChange={(e) => setPercent(e.target.value)}
+                  className="w-24"
+                  disabled={locked}
+                  aria-label="Percent vs floor"
+                />
+                <span className="text-muted-foreground">% vs the collection&apos;s {currency.symbol} floor</span>
+              </div>
+            ) : null}
+
+            {mode === "trait" ? (
+              traitTypes.length ? (
+                <div className="space-y-2">
+                  <select
+                    value={activeTrait}
+                    onChange={(e) => setTraitType(e.target.value)}
+                    disabled={locked}
+                    className="h-10 w-full rounded-2xl border border-border bg-card px-4 text-sm"
+                  >
+                    {traitTypes.map((t) => (
+                      <option key={t} value={t}>
+                        {t}
+                      </option>
+                    ))}
+                  </select>
+                  {[...(traitValues.get(activeTrait) ?? [])].sort().map((v) => (
+                    <div key={v} className="flex items-center gap-2 text-sm">
+                      <span className="w-1/2 truncate">{v}</span>
+                      <Input
+                        inputMode="decimal"
+                        placeholder={currency.symbol}
+                        value={traitPrices[v] ?? ""}
+                        onChange={(e) => setTraitPrices((p) => ({ ...p, [v]: e.target.value }))}
+                        disabled={locked}
+                      />
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="w-1/2 text-muted-foreground">Everything else</span>
+                    <Input
+                      inputMode="decimal"
+                      placeholder={currency.symbol}
+                      value={fallback}
+                      onChange={(e) => setFallback(e.target.value)}
+                      disabled={locked}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="text-xs text-muted-foreground">The selection has no traits.</div>
+              )
+            ) : null}
+          </div>
+
+          <ul className="divide-y divide-border rounded-2xl border border-border">
+            {plan.map((i) => {
+              const img = ipfsToHttp(i.imageUrl);
+              const label = i.name || `#${i.tokenId}`;
+              return (
+                <li key={i.nftId} className="flex items-center gap-3 p-3">
+                  <div className="relative h-10 w-10 shrink-0 overflow-hidden rounded-xl bg-muted">
+                    {img ? <Image src={img} alt={label} fill sizes="40px" className="object-cover" /> : null}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm font-semibold">{label}</div>
+                    <BulkStatus status={list.progress[i.nftId]} fallback={i.collectionName ?? ""} />
+                  </div>
+                  {i.standard === "ERC1155" ? (
+                    <Input
+                      type="number"
+                      min={1}
+                      max={i.balance}
+                      value={quantities[i.nftId] ?? "1"}
+                      onChange={(e) => setQuantities((q) => ({ ...q, [i.nftId]: e.target.value }))}
+                      className="h-9 w-16"
+                      disabled={locked}
+                      aria-label="Quantity"
+                      title={`You hold ${i.balance}`}
+                    />
+                  ) : null}
+                  <Input
+                    inputMode="decimal"
+                    placeholder={mode === "floor" ? "No floor" : currency.symbol}
+                    value={i.price}
+                    onChange={(e) => setOverrides((o) => ({ ...o, [i.nftId]: e.target.value }))}
+                    className="h-9 w-28"
+                    disabled={locked}
+                    aria-label={`Price for ${label}`}
+                  />
+                </li>
+              );
+            })}
+          </ul>
+
+          {preview?.skipped.length ? (
+            <div className="rounded-2xl border border-border p-3 text-xs text-muted-foreground">
+              <div className="mb-1 font-semibold text-foreground">Not included</div>
+              {preview.skipped.map((s) => (
+                <div key={s.nftId} className="truncate">
+                  {s.label}: {s.reason}
+                </div>
+              ))}
+            </div>
+          ) : null}
+
+          <div className="space-y-2 border-t border-border pt-4">
+            {list.step ? <div className="text-xs text-muted-foreground">{list.step}</div> : null}
+            <Button className="w-full" onClick={submit} loading={list.running} disabled={!plan.length || remaining === 0}>
+              {started && remaining
+                ? `Resume (${remaining} left)`
+                : `List ${plan.length} item${plan.length === 1 ? "" : "s"} in ${currency.symbol}`}
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              One approval per collection if needed, then one transaction per listing.
+            </p>
+          </div>
+        </div>
+      )}
+    </Drawer>
+  );
+}
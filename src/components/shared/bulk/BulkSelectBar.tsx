@@ -0,0 +1,38 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/src/ui/Button";
+
+/** Sticky bar for a grid / list in select mode: count, the bulk action(s), clear and exit. */
+export default function BulkSelectBar({
+  count,
+  max,
+  onClear,
+  onExit,
+  children,
+}: {
+  count: number;
+  max: number;
+  onClear: () => void;
+  onExit: () => void;
+  /** The action buttons. */
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="sticky top-20 z-20 mb-4 flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-border bg-card/95 p-2 backdrop-blur">
+      <span className="px-2 text-sm">
+        <span className="font-semibold">{count}</span> selected
+        <span className="text-muted-foreground"> · up to {max}</span>
+      </span>
+      <div className="flex flex-wrap items-center gap-2">
+        {children}
+        <Button variant="ghost" size="sm" onClick={onClear} disabled={!count}>
+          Clear
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onExit}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+}
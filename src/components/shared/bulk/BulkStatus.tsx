@@ -0,0 +1,36 @@
+"use client";
+
+import type { BulkItemStatus } from "@/src/lib/hooks/useBulkListing";
+
+const EXPLORER_TX = "https://blockexplorer.electroneum.com/tx/";
+
+const STYLE: Record<BulkItemStatus["status"], string> = {
+  queued: "text-muted-foreground",
+  running: "text-foreground",
+  done: "text-emerald-500",
+  failed: "text-red-500",
+};
+
+const LABEL: Record<BulkItemStatus["status"], string> = {
+  queued: "Queued",
+  running: "Waiting for wallet / chain…",
+  done: "Done",
+  failed: "Failed",
+};
+
+/** One bulk row's progress line; `fallback` shows before the run starts. */
+export default function BulkStatus({ status, fallback }: { status?: BulkItemStatus; fallback: string }) {
+  if (!status) return <div className="truncate text-xs text-muted-foreground">{fallback}</div>;
+  return (
+    <div className={`truncate text-xs ${STYLE[status.status]}`}>
+      {status.txHash ? (
+        <a href={`${EXPLORER_TX}${status.txHash}`} target="_blank" rel="noreferrer" className="underline">
+          {LABEL[status.status]}
+        </a>
+      ) : (
+        LABEL[status.status]
+      )}
+      {status.message ? ` · ${status.message}` : ""}
+    </div>
+  );
+}
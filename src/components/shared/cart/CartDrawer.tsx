@@ -0,0 +1,153 @@
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { ethers } from "ethers";
+import { toast } from "sonner";
+import { Drawer } from "@/src/ui/Drawer";
+import { Button } from "@/src/ui/Button";
+import { ipfsToHttp } from "@/src/lib/media";
+import { cartItemLabel, useCart, useCartCheckout, type CheckoutResult } from "@/src/lib/hooks/useCart";
+
+const EXPLORER_TX = "https://blockexplorer.electroneum.com/tx/";
+
+const STATUS_STYLE: Record<CheckoutResult["status"], string> = {
+  bought: "text-emerald-500",
+  skipped: "text-amber-500",
+  failed: "text-red-500",
+};
+
+function amount(base: string, decimals: number) {
+  const n = Number(ethers.formatUnits(base, decimals));
+  return n.toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
+
+/** The cart: items grouped by currency with subtotals, checkout, and the per-item summary. */
+export default function CartDrawer() {
+  const cart = useCart();
+  const { checkout, running, results, step, reset } = useCartCheckout();
+  const { open, revalidate } = cart;
+
+  // listings end and sell while the cart sits in storage
+  React.useEffect(() => {
+    if (!open) return;
+    revalidate()
+      .then((dropped) => {
+        if (dropped) toast.info(`${dropped} item${dropped > 1 ? "s" : ""} no longer listed, removed from cart.`);
+      })
+      .catch(() => null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const close = () => {
+    if (running) return;
+    cart.setOpen(false);
+    reset();
+  };
+
+  const onCheckout = async () => {
+    try {
+      const out = await checkout(cart.items);
+      const bought = out.filter((r) => r.status === "bought").length;
+      if (bought === out.length) toast.success(`Bought ${bought} item${bought === 1 ? "" : "s"}.`);
+      else toast.warning(`Bought ${bought} of ${out.length}. See the summary for the rest.`);
+    } catch (e) {
+      toast.error((e as { shortMessage?: string }).shortMessage || (e as Error).message);
+    }
+  };
+
+  return (
+    <Drawer open={open} onClose={close} title={`Cart (${cart.items.length})`}>
+      {results.length ? (
+        <div className="mb-5 rounded-2xl border border-border bg-background p-4">
+          <div className="mb-2 text-sm font-semibold">Checkout summary</div>
+          <ul className="space-y-1.5 text-sm">
+            {results.map((r) => (
+              <li key={r.listingId} className="flex items-center justify-between gap-3">
+                <span className="truncate">{r.label}</span>
+                <span className={`shrink-0 text-xs ${STATUS_STYLE[r.status]}`}>
+                  {r.txHash ? (
+                    <a href={`${EXPLORER_TX}${r.txHash}`} target="_blank" rel="noreferrer" className="underline">
+                      {r.status}
+                    </a>
+                  ) : (
+                    r.status
+                  )}
+                  {r.message ? ` · ${r.message}` : ""}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {cart.items.length === 0 ? (
+        <div className="py-10 text-center text-sm text-muted-foreground">
+          Your cart is empty. Add listed items from a collection, or sweep its floor.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {cart.groups.map((g) => (
+            <section key={g.currency.id}>
+              <div className="mb-2 flex items-center justify-between text-xs uppercase tracking-wide text-muted-foreground">
+                <span>{g.currency.symbol}</span>
+                <span>
+                  {g.items.length} item{g.items.length === 1 ? "" : "s"} · {amount(g.total, g.currency.decimals)}{" "}
+                  {g.currency.symbol}
+                </span>
+              </div>
+              <ul className="divide-y divide-border rounded-2xl border border-border">
+                {g.items.map((i) => {
+                  const img = ipfsToHttp(i.imageUrl);
+                  return (
+                    <li key={i.listingId} className="flex items-center gap-3 p-3">
+                      <div className="relative h-12 w-12 shrink-0 overflow-hidden rounded-xl bg-muted">
+                        {img ? <Image src={img} alt={cartItemLabel(i)} fill sizes="48px" className="object-cover" /> : null}
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <Link
+                          href={`/collections/${i.contract}/${i.tokenId}`}
+                          className="block truncate text-sm font-semibold hover:underline"
+                        >
+                          {cartItemLabel(i)}
+                        </Link>
+                        <div className="text-xs text-muted-foreground">
+                          {amount(i.price, i.currency.decimals)} {i.currency.symbol}
+                          {i.quantity > 1 ? ` · ×${i.quantity}` : ""}
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cart.remove(i.listingId)}
+                        disabled={running}
+                      >
+                        Remove
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))}
+
+          <div className="space-y-2 border-t border-border pt-4">
+            {step ? <div className="text-xs text-muted-foreground">{step}</div> : null}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={cart.clear} disabled={running}>
+                Clear
+              </Button>
+              <Button className="flex-1" onClick={onCheckout} loading={running}>
+                Buy {cart.items.length} item{cart.items.length === 1 ? "" : "s"}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              One transaction per item, plus one approval per ERC20 token if the current allowance is too low.
+            </p>
+          </div>
+        </div>
+      )}
+    </Drawer>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/src/ui/Button";
+import { Label } from "@/src/ui/Label";
+import { Modal } from "@/src/ui/Modal";
+import { Textarea } from "@/src/ui/Textarea";
+import { useDisputeStolen } from "@/src/lib/hooks/useStolenStatus";
+
+/** Lets the current owner contest a stolen flag or report; ownership is checked server-side. */
+export default function DisputeStolenButton({ contract, tokenId }: { contract: string; tokenId: string }) {
+  const dispute = useDisputeStolen(contract, tokenId);
+  const [open, setOpen] = React.useState(false);
+  const [reason, setReason] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+
+  const submit = async () => {
+    setBusy(true);
+    const tId = toast.loading("Opening dispute…");
+    try {
+      await dispute(reason.trim());
+      toast.success("Dispute opened. A moderator will review it.", { id: tId });
+      setOpen(false);
+      setReason("");
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Dispute failed", { id: tId });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <button type="button" onClick={() => setOpen(true)} className="underline">
+        Dispute
+      </button>
+
+      <Modal open={open} onClose={() => !busy && setOpen(false)} title="Dispute stolen flag" className="max-w-md">
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Tell us how you acquired this item. Links to the purchase transaction or prior owner help.
+          </p>
+          <div className="space-y-1.5">
+            <Label htmlFor="stolen-dispute">Reason</Label>
+            <Textarea
+              id="stolen-dispute"
+              rows={4}
+              maxLength={1000}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={busy}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button onClick={() => void submit()} disabled={!reason.trim() || busy} loading={busy}>
+              Open dispute
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { Button } from "@/src/ui/Button";
+import { Input } from "@/src/ui/Input";
+import { Modal } from "@/src/ui/Modal";
+import { useOfferActions } from "@/src/lib/hooks/useOffers";
+import { describeOfferTarget, OFFER_MAX_DAYS, type OfferKindLabel } from "@/src/lib/offers";
+import { CurrencyOption, CurrencySelect } from "./CurrencySelector";
+
+const DURATIONS = [1, 3, 7, 14, OFFER_MAX_DAYS];
+
+export type TraitOption = { type: string; values: string[] };
+
+/**
+ * Make a token / collection / trait offer.
+ * - TOKEN: pass tokenId.
+ * - COLLECTION / TRAIT: without tokenId; `traits` feeds the trait pickers (free text when absent).
+ */
+export default function MakeOfferModal({
+  open,
+  onClose,
+  contract,
+  tokenId,
+  traits,
+  zIndex,
+}: {
+  open: boolean;
+  onClose: () => void;
+  contract: string;
+  tokenId?: string | null;
+  traits?: TraitOption[];
+  zIndex?: number;
+}) {
+  const { makeOffer } = useOfferActions();
+
+  const currenciesQ = useQuery({
+    queryKey: ["currencies"],
+    queryFn: async () => {
+      const res = await fetch("/api/currencies", { cache: "no-store" });
+      const json = (await res.json().catch(() => null)) as { currencies?: CurrencyOption[] } | null;
+      return json?.currencies ?? [];
+    },
+    staleTime: 5 * 60_000,
+  });
+  // offers are pulled with transferFrom at purchase time → ERC20 only
+  const erc20s = useMemo(
+    () => (currenciesQ.data ?? []).filter((c) => c.kind === "ERC20" && !!c.tokenAddress),
+    [currenciesQ.data]
+  );
+
+  const [kind, setKind] = useState<OfferKindLabel>(tokenId ? "TOKEN" : "COLLECTION");
+  const [traitType, setTraitType] = useState("");
+  const [traitValue, setTraitValue] = useState("");
+  const [currencyId, setCurrencyId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [days, setDays] = useState(7);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!currencyId && erc20s.length) setCurrencyId(erc20s[0].id);
+  }, [erc20s, currencyId]);
+
+  const traitValues = traits?.find((t) => t.type === traitType)?.values ?? [];
+
+  const submit = async () => {
+    const cur = erc20s.find((c) => c.id === currencyId);
+    if (!cur?.tokenAddress) return toast.error("Pick a token currency.");
+    if (!amount.trim() || !(Number(amount) > 0)) return toast.error("Enter a valid amount.");
+    if (kind === "TRAIT" && (!traitType.trim() || !traitValue.trim())) return toast.error("Pick a trait.");
+
+    const tId = toast.loading("Creating offer…");
+    setBusy(true);
+    try {
+      await makeOffer({
+        kind,
+        contract,
+        tokenId,
+        traitType,
+        traitValue,
+        currency: { tokenAddress: cur.tokenAddress, decimals: cur.decimals, symbol: cur.symbol },
+        amount: amount.trim(),
+        days,
+      });
+      toast.success("Offer created.", { id: tId });
+      setAmount("");
+      onClose();
+    } catch (e: unknown) {
+      const m = e as { shortMessage?: string; message?: string };
+      toast.error(m?.shortMessage || m?.message || "Could not create offer", { id: tId });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title="Make offer" className="max-w-md" zIndex={zIndex}>
+      <div className="space-y-4">
+        {!tokenId ? (
+          <div className="flex gap-2">
+            {(["COLLECTION", "TRAIT"] as const).map((k) => (
+              <Button
+                key={k}
+                size="sm"
+                variant={kind === k ? "primary" : "outline"}
+                onClick={() => setKind(k)}
+                disabled={busy}
+              >
+                {k === "COLLECTION" ? "Any item" : "By trait"}
+              </Button>
+            ))}
+          </div>
+        ) : null}
+
+        {kind === "TRAIT" && !traits?.length ? (
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              value={traitType}
+              onChange={(e) => setTraitType(e.target.value)}
+              placeholder="Trait (e.g. Background)"
+              disabled={busy}
+            />
+            <Input
+              value={traitValue}
+              onChange={(e) => setTraitValue(e.target.value)}
+              placeholder="Value (e.g. Gold)"
+              disabled={busy}
+            />
+          </div>
+        ) : kind === "TRAIT" ? (
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              value={traitType}
+              onChange={(e) => {
+                setTraitType(e.target.value);
+                setTraitValue("");
+              }}
+              disabled={busy}
+              className="h-10 w-full rounded-2xl border border-border bg-card px-4 text-sm"
+            >
+              <option value="">Trait</option>
+              {traits?.map((t) => (
+                <option key={t.type} value={t.type}>
+                  {t.type}
+                </option>
+              ))}
+            </select>
+            <select
+              value={traitValue}
+              onChange={(e) => setTraitValue(e.target.value)}
+              disabled={busy || !traitType}
+              className="h-10 w-full rounded-2xl border border-border bg-card px-4 text-sm"
+            >
+              <option value="">Value</option>
+              {traitValues.map((v) => (
+                <option key={v} value={v}>
+                  {v}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
+
+        <div className="text-xs text-muted-foreground">
+          {describeOfferTarget({ kind, tokenId, traitType: traitType || "…", traitValue: traitValue || "…" })}. You sign the
+          offer and approve the marketplace to spend the amount; nothing is transferred until a seller accepts and you
+          complete the purchase.
+        </div>
+
+        {erc20s.length ? (
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Amount"
+              inputMode="decimal"
+              disabled={busy}
+            />
+            <CurrencySelect value={currencyId} onChange={setCurrencyId} options={erc20s} disabled={busy} />
+          </div>
+        ) : (
+          <div className="text-xs text-muted-foreground">
+            {currenciesQ.isLoading ? "Loading currencies…" : "No token currencies are enabled for offers."}
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Expires in</div>
+          <div className="flex flex-wrap gap-2">
+            {DURATIONS.map((d) => (
+              <Button
+                key={d}
+                size="sm"
+                variant={days === d ? "primary" : "outline"}
+                onClick={() => setDays(d)}
+                disabled={busy}
+              >
+                {d}d
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={busy}>
+            Cancel
+          </Button>
+          <Button onClick={() => void submit()} loading={busy} disabled={busy || !erc20s.length}>
+            Sign offer
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -3,8 +3,13 @@
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { Button } from "@/src/ui/Button";
 import { shortenAddress } from "@/src/lib/utils";
+import { ipfsToHttp } from "@/src/lib/media";
 
 import NFTMarketPanel from "@/src/components/shared/nft/NFTMarketPanel";
+import StolenBadge from "@/src/components/shared/nft/StolenBadge";
+import DisputeStolenButton from "@/src/components/shared/nft/DisputeStolenButton";
+import PriceHistory from "@/src/components/shared/nft/PriceHistory";
+import { useStolenStatus } from "@/src/lib/hooks/useStolenStatus";
 import type { Standard } from "@/src/lib/services/marketplace";
 import ActivityTab from "@/app/(pages)/collections/[contract]/ui/ActivityTab";
 import { useDecentWalletAccount } from "@/src/lib/decentWallet";
@@ -89,6 +94,8 @@ export default function NFTDetailsClient({
   const [hasAuction, setHasAuction] = useState(false);
 
   const std: Standard = standard === "ERC1155" ? "ERC1155" : "ERC721";
+  const stolen = useStolenStatus(contract, tokenId).data ?? null;
+  const stolenEvidence = ipfsToHttp(stolen?.registry?.evidenceUrl ?? stolen?.report?.evidenceUrl ?? null);
 
   const ownerLabel = useMemo(() => {
     if (!owner) return "—";
@@ -166,6 +173,7 @@ export default function NFTDetailsClient({
           </div>
 
           <div className="flex items-center gap-2">
+            <StolenBadge state={stolen?.state} className="text-[11px]" />
             {hasListing && (
               <span className="text-[11px] rounded-full border border-black/10 dark:border-white/10 px-2 py-1 bg-white/40 dark:bg-white/5">
                 Listed
@@ -179,6 +187,38 @@ export default function NFTDetailsClient({
           </div>
         </div>
 
+        {stolen?.state ? (
+          <div
+            className={
+              stolen.state === "flagged"
+                ? "mt-4 rounded-xl border border-red-500/40 bg-red-500/10 p-3 text-xs text-red-700 dark:text-red-300"
+                : "mt-4 rounded-xl border border-amber-500/40 bg-amber-500/10 p-3 text-xs text-amber-800 dark:text-amber-200"
+            }
+          >
+            {stolen.state === "flagged"
+              ? stolen.collectionFlagged
+                ? "This collection is flagged as stolen. Its items can't be bought, listed or auctioned here."
+                : "This item is flagged as stolen. It can't be bought, listed or auctioned here."
+              : "This item has been reported as stolen and is under review. Be careful before trading it."}
+            {stolenEvidence && /^https?:\/\//i.test(stolenEvidence) ? (
+              <>
+                {" "}
+                <a href={stolenEvidence} target="_blank" rel="noreferrer" className="underline">
+                  Evidence
+                </a>
+              </>
+            ) : null}
+            {stolen.report?.disputed ? (
+              <span className="ml-1 font-semibold">· Disputed by the owner, under review.</span>
+            ) : account && (std === "ERC1155" || (owner && lc(owner) === lc(account))) ? (
+              <>
+                {" · "}
+                <DisputeStolenButton contract={contract} tokenId={tokenId} />
+              </>
+            ) : null}
+          </div>
+        ) : null}
+
         <div className="mt-4 flex flex-wrap gap-2">
           <Button
             variant={tab === "market" ? "primary" : "outline"}
@@ -221,6 +261,13 @@ export default function NFTDetailsClient({
             Latest sales, listings, bids, mints, transfers.
           </p>
 
+          <div className="mt-4">
+            <div className="text-xs text-muted-foreground">Price history</div>
+            <div className="mt-2">
+              <PriceHistory contract={contract} tokenId={tokenId} />
+            </div>
+          </div>
+
           <div className="mt-4">
             <ActivityTab contract={contract} tokenId={tokenId} />
           </div>
@@ -1,6 +1,5 @@
 "use client";
 
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { ethers } from "ethers";
@@ -13,18 +12,39 @@ import { Modal } from "@/src/ui/Modal";
 import { useDecentWalletAccount } from "@/src/lib/decentWallet";
 import { useActiveAccount } from "thirdweb/react";
 import type { Standard } from "@/src/lib/services/marketplace";
+import { useAuctionSSE } from "@/src/lib/hooks/useAuctionSSE";
+import { useOfferActions, useOffers } from "@/src/lib/hooks/useOffers";
+import { useStolenStatus } from "@/src/lib/hooks/useStolenStatus";
+import type { OfferDTO } from "@/src/lib/offers";
+import { dutchParamsError, dutchStepCount } from "@/src/lib/dutch";
+import type { PendingActionDTO } from "@/src/lib/server/pending-actions";
 import { CurrencyOption, CurrencySelect } from "./CurrencySelector";
 import DateTimePicker from "../DateTimePicker";
+import MakeOfferModal from "./MakeOfferModal";
+import OfferList from "./OfferList";
+import { requestSigner } from "@/src/lib/evm/getSigner";
 
 type ListingActiveItem = {
   id: string; // chain listingId as string
   sellerAddress: string | null;
-  currency?: { symbol?: string | null } | null;
+  currency?: { id?: string | null; symbol?: string | null } | null;
   price?: { unit?: string | null } | null;
   quantity?: number | null;
   startTime?: string | null;
   endTime?: string | null;
   isLive?: boolean | null;
+  mode?: "FIXED" | "SCHEDULED" | "DUTCH" | null;
+  dutch?: {
+    scheduleId: string;
+    step: number;
+    stepCount: number;
+    endPrice: string | null;
+    nextPrice: string | null;
+    nextAt: string | null;
+    dueStep: number | null;
+    duePrice: string | null;
+    duePriceWei: string | null;
+  } | null;
 };
 
 type AuctionActiveItem = {
@@ -36,6 +56,37 @@ type AuctionActiveItem = {
 };
 
 type OwnerMode = "none" | "list" | "auction" | "transfer";
+type ListMode = "fixed" | "dutch";
+
+/** A Dutch step whose old listing is cancelled but whose new one isn't created yet. */
+type DutchRelist = {
+  scheduleId: string;
+  step: number;
+  priceWei: string;
+  price: string;
+  symbol: string;
+  quantity: bigint;
+  currency: string;
+  endUnix: number;
+};
+
+// Dutch price-drop intervals; `every` reads as "less every …"
+const DUTCH_INTERVALS: { minutes: number; label: string; every: string }[] = [
+  { minutes: 15, label: "15 minutes", every: "15 minutes" },
+  { minutes: 30, label: "30 minutes", every: "30 minutes" },
+  { minutes: 60, label: "1 hour", every: "hour" },
+  { minutes: 180, label: "3 hours", every: "3 hours" },
+  { minutes: 360, label: "6 hours", every: "6 hours" },
+  { minutes: 720, label: "12 hours", every: "12 hours" },
+  { minutes: 1440, label: "1 day", every: "day" },
+];
+
+const PENDING_LABEL: Record<PendingActionDTO["type"], string> = {
+  NFT_AUCTION_CREATE: "Auction creation pending",
+  NFT_AUCTION_BID: "Bid pending",
+  NFT_AUCTION_CANCEL: "Auction cancellation pending",
+  NFT_AUCTION_FINALIZE: "Auction settlement pending",
+};
 
 function lc(s?: string | null) {
   return (s || "").toLowerCase();
@@ -176,14 +227,6 @@ function getMarketplaceAddress(): `0x${string}` {
   return addr as `0x${string}`;
 }
 
-async function getSigner() {
-  const anyWin = window as any;
-  if (!anyWin.ethereum) throw new Error("No wallet found in this browser.");
-  const provider = new ethers.BrowserProvider(anyWin.ethereum);
-  await provider.send("eth_requestAccounts", []);
-  return provider.getSigner();
-}
-
 export default function NFTMarketPanel({
   contract,
   tokenId,
@@ -212,7 +255,10 @@ export default function NFTMarketPanel({
   const [err, setErr] = useState<string | null>(null);
 
   const [listing, setListing] = useState<ListingActiveItem | null>(null);
+  const [dutchRelist, setDutchRelist] = useState<DutchRelist | null>(null);
   const [auction, setAuction] = useState<AuctionActiveItem | null>(null);
+  // in-flight auction txs (PendingChainAction), incl. ones from a tab that was closed
+  const [pending, setPending] = useState<PendingActionDTO[]>([]);
 
   // currencies
   const [currencies, setCurrencies] = useState<CurrencyOption[]>([
@@ -233,6 +279,9 @@ export default function NFTMarketPanel({
   const [listEnd, setListEnd] = useState(() => addDaysLocalYmdhm(7));
   const [listNoEnd, setListNoEnd] = useState(false);
   const [listQty, setListQty] = useState("1");
+  const [listMode, setListMode] = useState<ListMode>("fixed");
+  const [listEndPrice, setListEndPrice] = useState("");
+  const [listStepMinutes, setListStepMinutes] = useState(60);
 
   // AUCTION form state (strict args)
   const [aucStartPrice, setAucStartPrice] = useState("");
@@ -251,6 +300,16 @@ export default function NFTMarketPanel({
   const [toAddr, setToAddr] = useState("");
   const [xferQty, setXferQty] = useState("1");
 
+  // OFFERS (token + collection + matching trait offers)
+  const [offerOpen, setOfferOpen] = useState(false);
+  const offersQ = useOffers({ contract, tokenId });
+  const { cancelOffer, confirmAccept } = useOfferActions();
+  const offers = offersQ.data?.offers ?? [];
+
+  // stolen registry: the marketplace reverts with StolenAsset for flagged tokens
+  const stolenQ = useStolenStatus(contract, tokenId);
+  const isFlagged = stolenQ.data?.state === "flagged";
+
   const stdEnum = standard === "ERC1155" ? 1 : 0;
 
   const currencyById = useCallback(
@@ -314,46 +373,102 @@ export default function NFTMarketPanel({
     router.refresh();
   }, [contract, tokenId, router]);
 
+  // best-effort DB sync + SSE fan-out for a confirmed marketplace tx
+  const syncMarketplace = useCallback(async (body: Record<string, unknown>) => {
+    await fetch("/api/marketplace/sync", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }).catch(() => null);
+  }, []);
+
+  // tells watchers a bid tx is in flight (or reverted)
+  const announceBid = useCallback(async (auctionId: string, txHash: string) => {
+    await fetch(`/api/auction/${encodeURIComponent(auctionId)}/bids`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ txHash }),
+    }).catch(() => null);
+  }, []);
+
+  // registered before waiting on the receipt, so the DB catches up even if this tab closes
+  const registerPending = useCallback(
+    async (
+      type: PendingActionDTO["type"],
+      tx: ethers.TransactionResponse,
+      extra: { auctionId?: string; amountWei?: string } = {}
+    ) => {
+      await fetch("/api/marketplace/pending", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type,
+          txHash: tx.hash,
+          from: tx.from,
+          chainId: Number(tx.chainId),
+          contract,
+          tokenId,
+          ...extra,
+        }),
+      }).catch(() => null);
+    },
+    [contract, tokenId]
+  );
+
+  // fetch market state only (no UI resets) — used by live SSE updates
+  const loadMarket = useCallback(async () => {
+    // reconciles mined pending txs server-side, so it goes before the listing/auction reads
+    const pRes = await fetch(
+      `/api/marketplace/pending?contract=${encodeURIComponent(contract)}&tokenId=${encodeURIComponent(tokenId)}`,
+      { cache: "no-store" }
+    ).then((r) => r.json().catch(() => null), () => null);
+    setPending(pRes && Array.isArray(pRes.items) ? (pRes.items as PendingActionDTO[]) : []);
+
+    const [lRes, aRes] = await Promise.all([
+      fetch(
+        `/api/listing/active?contract=${encodeURIComponent(
+          contract
+        )}&tokenId=${encodeURIComponent(tokenId)}&limit=1`,
+        { cache: "no-store" }
+      ).then((r) => r.json().catch(() => null)),
+      fetch(
+        `/api/auction/active?contract=${encodeURIComponent(
+          contract
+        )}&tokenId=${encodeURIComponent(tokenId)}&limit=1`,
+        { cache: "no-store" }
+      ).then((r) => r.json().catch(() => null)),
+    ]);
+
+    let li =
+      lRes && Array.isArray(lRes.items)
+        ? (lRes.items[0] as ListingActiveItem)
+        : null;
+    const au =
+      aRes && Array.isArray(aRes.items)
+        ? (aRes.items[0] as AuctionActiveItem)
+        : null;
+
+    // scheduled listings (start still ahead) stay visible, they just can't be bought yet
+    const liStartMs = parseIsoToMs(li?.startTime ?? null);
+    if (li && li.isLive === false && !(liStartMs && liStartMs > Date.now())) li = null;
+
+    if (
+      standard === "ERC721" &&
+      owner &&
+      li?.sellerAddress &&
+      lc(owner) !== lc(li.sellerAddress)
+    ) {
+      li = null;
+    }
+
+    setListing(li ?? null);
+    setAuction(au ?? null);
+  }, [contract, tokenId, standard, owner]);
+
   const refresh = useCallback(async () => {
     setErr(null);
     try {
-      const [lRes, aRes] = await Promise.all([
-        fetch(
-          `/api/listing/active?contract=${encodeURIComponent(
-            contract
-          )}&tokenId=${encodeURIComponent(tokenId)}&limit=1`,
-          { cache: "no-store" }
-        ).then((r) => r.json().catch(() => null)),
-        fetch(
-          `/api/auction/active?contract=${encodeURIComponent(
-            contract
-          )}&tokenId=${encodeURIComponent(tokenId)}&limit=1`,
-          { cache: "no-store" }
-        ).then((r) => r.json().catch(() => null)),
-      ]);
-
-      let li =
-        lRes && Array.isArray(lRes.items)
-          ? (lRes.items[0] as ListingActiveItem)
-          : null;
-      const au =
-        aRes && Array.isArray(aRes.items)
-          ? (aRes.items[0] as AuctionActiveItem)
-          : null;
-
-      if (li && typeof li.isLive === "boolean" && li.isLive === false) li = null;
-
-      if (
-        standard === "ERC721" &&
-        owner &&
-        li?.sellerAddress &&
-        lc(owner) !== lc(li.sellerAddress)
-      ) {
-        li = null;
-      }
-
-      setListing(li ?? null);
-      setAuction(au ?? null);
+      await loadMarket();
 
       // keep UX clean
       closeOwnerPanels();
@@ -367,7 +482,7 @@ export default function NFTMarketPanel({
       setAuction(null);
       closeOwnerPanels();
     }
-  }, [contract, tokenId, standard, owner, closeOwnerPanels]);
+  }, [loadMarket, closeOwnerPanels]);
 
   useEffect(() => {
     void refresh();
@@ -414,10 +529,19 @@ export default function NFTMarketPanel({
   const auctionSeller = auction?.seller?.address ?? null;
   const canManageAuction =
     !!account && !!auctionSeller && lc(account) === lc(auctionSeller);
+  // a cancel/finalize is already in flight for this auction
+  const auctionClosing = pending.some(
+    (p) => p.type === "NFT_AUCTION_CANCEL" || p.type === "NFT_AUCTION_FINALIZE"
+  );
 
   const auctionEndMs = parseIsoToMs(auction?.endTime ?? null);
   const auctionEndedUi = !!auctionEndMs && Date.now() > auctionEndMs;
 
+  const listingStartMs = parseIsoToMs(listing?.startTime ?? null);
+  const listingUpcoming = !!listingStartMs && listingStartMs > Date.now();
+  const listingDutch = listing?.dutch ?? null;
+  const listingSymbol = listing?.currency?.symbol ?? "ETN";
+
   const listingPriceLabel = useMemo(() => {
     if (!listing) return null;
     const unit = listing.price?.unit ?? null;
@@ -444,24 +568,36 @@ export default function NFTMarketPanel({
     setErr("Connect your wallet to continue.");
   }, []);
 
+  // re-checked right before sending: a flag may have landed since the page loaded
+  const { refetch: refetchStolen } = stolenQ;
+  const refuseIfStolen = useCallback(async () => {
+    const r = await refetchStolen();
+    if (r.data?.state !== "flagged") return false;
+    const msg = "This NFT is flagged as stolen and can't be traded on the marketplace.";
+    toast.error(msg);
+    setErr(msg);
+    return true;
+  }, [refetchStolen]);
+
   // -----------------------------
   // BUY (strict: read on-chain listing for currency/price)
   // -----------------------------
-  const buyNow = useCallback(async () => {
-    const listingIdStr = listing?.id;
+  const buyNow = useCallback(async (listingIdOverride?: string) => {
+    const listingIdStr = listingIdOverride ?? listing?.id;
     if (!listingIdStr) return;
 
     if (!account) {
       requireWalletToast();
       return;
     }
+    if (await refuseIfStolen()) return;
 
     const tId = toast.loading("Buying…");
     setLoading(true);
     setErr(null);
 
     try {
-      const signer = await getSigner();
+      const signer = await requestSigner();
       const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, signer);
 
       const listingId = BigInt(listingIdStr);
@@ -483,6 +619,7 @@ export default function NFTMarketPanel({
 
       await syncOwnerNow();
       await refresh();
+      void offersQ.refetch();
       onAfterAction?.();
     } catch (e: unknown) {
       const msg = errorMessage(e, "Buy failed");
@@ -495,12 +632,100 @@ export default function NFTMarketPanel({
     listing?.id,
     account,
     requireWalletToast,
+    refuseIfStolen,
     ensureErc20Allowance,
     syncOwnerNow,
     refresh,
+    offersQ,
     onAfterAction,
   ]);
 
+  // -----------------------------
+  // ACCEPT OFFER
+  // Lists the token at exactly the offer's price/currency (qty 1), reserved for the
+  // bidder via the offer; the bidder completes with buy(listingId).
+  // -----------------------------
+  const acceptOffer = useCallback(
+    async (offer: OfferDTO) => {
+      if (!account) {
+        requireWalletToast();
+        return;
+      }
+      if (!userOwns || listing || auction) {
+        toast.error("Only the owner can accept, with no active listing/auction.");
+        return;
+      }
+      if (!offer.currency.tokenAddress) return;
+      if (await refuseIfStolen()) return;
+
+      const tId = toast.loading("Accepting offer…");
+      setLoading(true);
+      setErr(null);
+
+      try {
+        const signer = await requestSigner();
+        const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, signer);
+
+        await ensureApprovalForAll(signer);
+
+        // give the bidder a day to complete (never past the offer's own expiry)
+        const nowSec = Math.floor(Date.now() / 1000);
+        const endSec = Math.min(nowSec + 24 * 3600, Math.floor(new Date(offer.expiresAt).getTime() / 1000));
+
+        const tx = await market.createListing(
+          contract,
+          BigInt(tokenId),
+          BigInt(1),
+          offer.currency.tokenAddress,
+          BigInt(offer.amount),
+          nowSec,
+          endSec,
+          stdEnum
+        );
+        const receipt = await tx.wait();
+        await confirmAccept(offer.id, receipt.hash);
+
+        toast.success("Offer accepted. The bidder can now complete the purchase.", { id: tId });
+        await refresh();
+        onAfterAction?.();
+      } catch (e: unknown) {
+        const msg = errorMessage(e, "Accept offer failed");
+        toast.error(msg, { id: tId });
+        setErr(msg);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [
+      account,
+      userOwns,
+      listing,
+      auction,
+      contract,
+      tokenId,
+      stdEnum,
+      requireWalletToast,
+      refuseIfStolen,
+      ensureApprovalForAll,
+      confirmAccept,
+      refresh,
+      onAfterAction,
+    ]
+  );
+
+  const withdrawOffer = useCallback(
+    async (offerId: string) => {
+      const tId = toast.loading("Cancelling offer…");
+      try {
+        await cancelOffer(offerId);
+        toast.success("Offer cancelled.", { id: tId });
+      } catch (e: unknown) {
+        toast.error(errorMessage(e, "Cancel offer failed"), { id: tId });
+      }
+    },
+    [cancelOffer]
+  );
+
   // -----------------------------
   // CANCEL LISTING
   // -----------------------------
@@ -518,7 +743,7 @@ export default function NFTMarketPanel({
     setErr(null);
 
     try {
-      const signer = await getSigner();
+      const signer = await requestSigner();
       const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, signer);
 
       const tx = await market.cancelListing(BigInt(listingIdStr));
@@ -537,6 +762,123 @@ export default function NFTMarketPanel({
     }
   }, [listing?.id, account, requireWalletToast, refresh, onAfterAction]);
 
+  // -----------------------------
+  // DUTCH: move the listing to the price step that's due (cancel + relist)
+  // -----------------------------
+  const listDutchStep = useCallback(
+    async (market: ethers.Contract, r: DutchRelist) => {
+      const tx = await market.createListing(
+        contract,
+        BigInt(tokenId),
+        r.quantity,
+        r.currency,
+        BigInt(r.priceWei),
+        Math.floor(Date.now() / 1000),
+        r.endUnix,
+        stdEnum
+      );
+      await tx.wait();
+      await syncMarketplace({
+        type: "LISTING_CREATE",
+        txHash: tx.hash,
+        dutch: { scheduleId: r.scheduleId, step: r.step },
+      });
+    },
+    [contract, tokenId, stdEnum, syncMarketplace]
+  );
+
+  const dropDutchPrice = useCallback(async () => {
+    const listingIdStr = listing?.id;
+    const d = listing?.dutch;
+    if (!listingIdStr || !d || d.dueStep == null || !d.duePriceWei || !d.duePrice) return;
+
+    if (!account) {
+      requireWalletToast();
+      return;
+    }
+
+    const tId = toast.loading("Cancelling the current price…");
+    setLoading(true);
+    setErr(null);
+
+    let cancelled = false;
+    try {
+      const signer = await requestSigner();
+      const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, signer);
+
+      // relist on the same terms, only the price changes
+      const L = await market.listings(BigInt(listingIdStr));
+      const relist: DutchRelist = {
+        scheduleId: d.scheduleId,
+        step: d.dueStep,
+        priceWei: d.duePriceWei,
+        price: d.duePrice,
+        symbol: listingSymbol,
+        quantity: L.quantity as bigint,
+        currency: String(L.currency),
+        endUnix: Number(L.endTime as bigint),
+      };
+
+      const cancelTx = await market.cancelListing(BigInt(listingIdStr));
+      await cancelTx.wait();
+      cancelled = true;
+      // the sync keeps the schedule open until the new step is listed
+      await syncMarketplace({
+        type: "LISTING_CANCEL",
+        txHash: cancelTx.hash,
+        dutch: { scheduleId: d.scheduleId, step: d.dueStep },
+      });
+      setDutchRelist(relist);
+
+      toast.loading("Listing at the new price…", { id: tId });
+      await listDutchStep(market, relist);
+      setDutchRelist(null);
+
+      toast.success("Price dropped.", { id: tId });
+
+      await refresh();
+      onAfterAction?.();
+    } catch (e: unknown) {
+      const msg = errorMessage(e, "Price drop failed");
+      toast.error(cancelled ? `${msg} The old listing is cancelled; relist it from this panel.` : msg, { id: tId });
+      setErr(msg);
+      if (cancelled) await refresh();
+    } finally {
+      setLoading(false);
+    }
+  }, [listing, listingSymbol, account, requireWalletToast, syncMarketplace, listDutchStep, refresh, onAfterAction]);
+
+  /** Retry the create half of a price drop whose relist failed. */
+  const retryDutchRelist = useCallback(async () => {
+    if (!dutchRelist) return;
+    if (!account) {
+      requireWalletToast();
+      return;
+    }
+
+    const tId = toast.loading("Listing at the new price…");
+    setLoading(true);
+    setErr(null);
+
+    try {
+      const signer = await requestSigner();
+      const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, signer);
+      await listDutchStep(market, dutchRelist);
+      setDutchRelist(null);
+
+      toast.success("Price dropped.", { id: tId });
+
+      await refresh();
+      onAfterAction?.();
+    } catch (e: unknown) {
+      const msg = errorMessage(e, "Relist failed");
+      toast.error(msg, { id: tId });
+      setErr(msg);
+    } finally {
+      setLoading(false);
+    }
+  }, [dutchRelist, account, requireWalletToast, listDutchStep, refresh, onAfterAction]);
+
   // -----------------------------
   // AUCTION: CANCEL / FINALIZE / BID MIN / BID
   // -----------------------------
@@ -554,14 +896,17 @@ export default function NFTMarketPanel({
     setErr(null);
 
     try {
-      const signer = await getSigner();
+      const signer = await requestSigner();
       const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, signer);
 
       const tx = await market.cancelAuction(BigInt(auctionIdStr));
+      void registerPending("NFT_AUCTION_CANCEL", tx, { auctionId: auctionIdStr });
       await tx.wait();
 
       toast.success("Auction canceled.", { id: tId });
 
+      await syncMarketplace({ type: "AUCTION_CANCEL", txHash: tx.hash });
+
       await refresh();
       onAfterAction?.();
     } catch (e: unknown) {
@@ -571,7 +916,7 @@ export default function NFTMarketPanel({
     } finally {
       setLoading(false);
     }
-  }, [auction?.id, account, requireWalletToast, refresh, onAfterAction]);
+  }, [auction?.id, account, requireWalletToast, registerPending, syncMarketplace, refresh, onAfterAction]);
 
   const finalizeAuction = useCallback(async () => {
     const auctionIdStr = auction?.id;
@@ -587,7 +932,7 @@ export default function NFTMarketPanel({
     setErr(null);
 
     try {
-      const signer = await getSigner();
+      const signer = await requestSigner();
       const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, signer);
 
       const auctionId = BigInt(auctionIdStr);
@@ -598,10 +943,13 @@ export default function NFTMarketPanel({
       if (now <= endTime) throw new Error("Auction has not ended yet.");
 
       const tx = await market.finalize(auctionId);
+      void registerPending("NFT_AUCTION_FINALIZE", tx, { auctionId: auctionIdStr });
       await tx.wait();
 
       toast.success("Auction finalized.", { id: tId });
 
+      await syncMarketplace({ type: "AUCTION_FINALIZE", txHash: tx.hash });
+
       await syncOwnerNow();
       await refresh();
       onAfterAction?.();
@@ -612,17 +960,25 @@ export default function NFTMarketPanel({
     } finally {
       setLoading(false);
     }
-  }, [auction?.id, account, requireWalletToast, syncOwnerNow, refresh, onAfterAction]);
+  }, [
+    auction?.id,
+    account,
+    requireWalletToast,
+    registerPending,
+    syncMarketplace,
+    syncOwnerNow,
+    refresh,
+    onAfterAction,
+  ]);
 
   const loadBidMin = useCallback(async () => {
     const auctionIdStr = auction?.id;
     if (!auctionIdStr) return;
 
     try {
-      const anyWin = window as any;
-      if (!anyWin.ethereum) return;
+      if (!window.ethereum) return;
 
-      const provider = new ethers.BrowserProvider(anyWin.ethereum);
+      const provider = new ethers.BrowserProvider(window.ethereum);
       const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, provider);
 
       const A = await market.auctions(BigInt(auctionIdStr));
@@ -651,6 +1007,31 @@ export default function NFTMarketPanel({
     }
   }, [auction?.id, auction?.currency?.symbol, auction?.currency?.decimals]);
 
+  // -----------------------------
+  // LIVE: auction room + wallet room (SSE)
+  // -----------------------------
+  const liveReload = useCallback(() => {
+    loadMarket().catch(() => null);
+  }, [loadMarket]);
+
+  useAuctionSSE(auction?.id, account ?? undefined, {
+    onBidConfirmed: () => {
+      liveReload();
+      if (bidOpen) void loadBidMin();
+    },
+    onAuctionExtended: liveReload,
+    onAuctionSettled: liveReload,
+    onAuctionCancelled: liveReload,
+    onOutbid: (ev) => {
+      toast.warning(
+        ev.auctionId === auction?.id
+          ? "You've been outbid on this item."
+          : `You've been outbid on auction #${ev.auctionId}.`
+      );
+      if (ev.auctionId === auction?.id) liveReload();
+    },
+  });
+
   const placeBid = useCallback(async () => {
     const auctionIdStr = auction?.id;
     if (!auctionIdStr) return;
@@ -666,13 +1047,14 @@ export default function NFTMarketPanel({
       setErr("Enter a valid bid amount.");
       return;
     }
+    if (await refuseIfStolen()) return;
 
     const tId = toast.loading("Placing bid…");
     setLoading(true);
     setErr(null);
 
     try {
-      const signer = await getSigner();
+      const signer = await requestSigner();
       const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, signer);
 
       const auctionId = BigInt(auctionIdStr);
@@ -701,15 +1083,25 @@ export default function NFTMarketPanel({
         );
       }
 
+      let tx: ethers.TransactionResponse;
       if (currencyAddr === ethers.ZeroAddress) {
-        const tx = await market.bid(auctionId, BigInt(0), { value: bidUnits });
-        await tx.wait();
+        tx = await market.bid(auctionId, BigInt(0), { value: bidUnits });
       } else {
         await ensureErc20Allowance(signer, currencyAddr, bidUnits);
-        const tx = await market.bid(auctionId, bidUnits, { value: BigInt(0) });
+        tx = await market.bid(auctionId, bidUnits, { value: BigInt(0) });
+      }
+
+      void announceBid(auctionIdStr, tx.hash);
+      void registerPending("NFT_AUCTION_BID", tx, { auctionId: auctionIdStr, amountWei: bidUnits.toString() });
+      try {
         await tx.wait();
+      } catch (waitErr) {
+        void announceBid(auctionIdStr, tx.hash); // server sees the revert → bid_failed
+        throw waitErr;
       }
 
+      await syncMarketplace({ type: "AUCTION_BID", txHash: tx.hash });
+
       toast.success("Bid placed.", { id: tId });
       setBidOpen(false);
       setBidAmount("");
@@ -731,7 +1123,11 @@ export default function NFTMarketPanel({
     bidSymbol,
     auction?.currency?.decimals,
     requireWalletToast,
+    refuseIfStolen,
     ensureErc20Allowance,
+    announceBid,
+    registerPending,
+    syncMarketplace,
     refresh,
     onAfterAction,
   ]);
@@ -786,8 +1182,9 @@ export default function NFTMarketPanel({
     const decimals = cur.decimals ?? 18;
     const priceUnits = ethers.parseUnits(priceStr, decimals);
 
+    const isDutch = listMode === "dutch";
     const startUnix = localYmdhmToUnix(listStart);
-    const endUnix = listNoEnd ? 0 : (listEnd ? localYmdhmToUnix(listEnd) : 0);
+    const endUnix = listNoEnd && !isDutch ? 0 : (listEnd ? localYmdhmToUnix(listEnd) : 0);
 
     if (endUnix !== 0 && endUnix <= startUnix) {
       toast.error("End time must be after start time.");
@@ -795,12 +1192,44 @@ export default function NFTMarketPanel({
       return;
     }
 
+    // Dutch: this listing is step 0; the sync opens the schedule the later steps follow
+    let dutch: { startPriceWei: string; endPriceWei: string; stepSeconds: number } | null = null;
+    if (isDutch) {
+      let endUnits = BigInt(0);
+      try {
+        endUnits = ethers.parseUnits((listEndPrice || "").trim() || "0", decimals);
+      } catch {
+        // reported below as a missing end price
+      }
+      const problem = !endUnix
+        ? "A Dutch listing needs an end time."
+        : dutchParamsError({
+            startPrice: priceUnits,
+            endPrice: endUnits,
+            stepSeconds: listStepMinutes * 60,
+            startTime: new Date(startUnix * 1000),
+            endTime: new Date(endUnix * 1000),
+          });
+      if (problem) {
+        toast.error(problem);
+        setErr(problem);
+        return;
+      }
+      dutch = {
+        startPriceWei: priceUnits.toString(),
+        endPriceWei: endUnits.toString(),
+        stepSeconds: listStepMinutes * 60,
+      };
+    }
+
+    if (await refuseIfStolen()) return;
+
     const tId = toast.loading("Creating listing…");
     setLoading(true);
     setErr(null);
 
     try {
-      const signer = await getSigner();
+      const signer = await requestSigner();
       const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, signer);
 
       await ensureApprovalForAll(signer);
@@ -816,8 +1245,13 @@ export default function NFTMarketPanel({
         stdEnum
       );
       await tx.wait();
+      await syncMarketplace({
+        type: "LISTING_CREATE",
+        txHash: tx.hash,
+        dutch,
+      });
 
-      toast.success("Listing created.", { id: tId });
+      toast.success(isDutch ? "Dutch listing created." : "Listing created.", { id: tId });
       closeOwnerPanels();
 
       await refresh();
@@ -840,13 +1274,18 @@ export default function NFTMarketPanel({
     listEnd,
     listNoEnd,
     listQty,
+    listMode,
+    listEndPrice,
+    listStepMinutes,
     standard,
     contract,
     tokenId,
     stdEnum,
     requireWalletToast,
+    refuseIfStolen,
     currencyById,
     ensureApprovalForAll,
+    syncMarketplace,
     refresh,
     onAfterAction,
     closeOwnerPanels,
@@ -919,12 +1358,14 @@ export default function NFTMarketPanel({
       return;
     }
 
+    if (await refuseIfStolen()) return;
+
     const tId = toast.loading("Creating auction…");
     setLoading(true);
     setErr(null);
 
     try {
-      const signer = await getSigner();
+      const signer = await requestSigner();
       const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, signer);
 
       await ensureApprovalForAll(signer);
@@ -940,6 +1381,7 @@ export default function NFTMarketPanel({
         endUnix,
         stdEnum
       );
+      void registerPending("NFT_AUCTION_CREATE", tx);
       await tx.wait();
 
       toast.success("Auction created.", { id: tId });
@@ -970,6 +1412,8 @@ export default function NFTMarketPanel({
     tokenId,
     stdEnum,
     requireWalletToast,
+    refuseIfStolen,
+    registerPending,
     currencyById,
     ensureApprovalForAll,
     refresh,
@@ -1019,7 +1463,7 @@ export default function NFTMarketPanel({
     setErr(null);
 
     try {
-      const signer = await getSigner();
+      const signer = await requestSigner();
       const from = await signer.getAddress();
 
       if (standard === "ERC1155") {
@@ -1069,6 +1513,25 @@ export default function NFTMarketPanel({
 
   const ownerButtonsDisabled = !account || !userOwns || blockedByEscrow || loading;
 
+  // rough preview of the price steps (the exact ones come from src/lib/dutch.ts at submit)
+  const dutchPreview = useMemo(() => {
+    if (listMode !== "dutch") return null;
+    const startMs = new Date(listStart).getTime();
+    const endMs = new Date(listEnd).getTime();
+    const hi = Number(listPrice);
+    const lo = Number(listEndPrice);
+    if (!Number.isFinite(startMs) || !(endMs > startMs) || !(hi > lo) || !(lo > 0)) return null;
+    const steps = dutchStepCount({
+      stepSeconds: listStepMinutes * 60,
+      startTime: new Date(startMs),
+      endTime: new Date(endMs),
+    });
+    if (steps < 2) return null;
+    const every = DUTCH_INTERVALS.find((i) => i.minutes === listStepMinutes)?.every ?? `${listStepMinutes} minutes`;
+    const drop = ((hi - lo) / (steps - 1)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+    return `${steps} prices, about ${drop} less every ${every}.`;
+  }, [listMode, listStart, listEnd, listPrice, listEndPrice, listStepMinutes]);
+
   return (
     <div className="space-y-4">
       {/* LISTING CARD */}
@@ -1079,6 +1542,20 @@ export default function NFTMarketPanel({
             <div className="mt-1 text-sm font-semibold">
               {listing ? (listingPriceLabel ?? "Active") : "No active listing"}
             </div>
+            {listing && listingUpcoming ? (
+              <div className="mt-1 text-xs text-muted-foreground">
+                Scheduled · opens {new Date(listingStartMs!).toLocaleString()}
+              </div>
+            ) : null}
+            {listingDutch ? (
+              <div className="mt-1 text-xs text-muted-foreground">
+                Dutch listing · price {listingDutch.step + 1} of {listingDutch.stepCount}
+                {listingDutch.nextPrice && listingDutch.nextAt
+                  ? ` · next ${listingDutch.nextPrice} ${listingSymbol} at ${new Date(listingDutch.nextAt).toLocaleString()}`
+                  : ""}
+                {listingDutch.endPrice ? ` · lowest ${listingDutch.endPrice} ${listingSymbol}` : ""}
+              </div>
+            ) : null}
             {listingSeller ? (
               <div className="mt-1 text-xs text-muted-foreground font-mono truncate">
                 Seller: {listingSeller}
@@ -1098,11 +1575,26 @@ export default function NFTMarketPanel({
                 View listings
               </ButtonLink>
             ) : canManageListing ? (
-              <Button variant="outline" onClick={() => void cancelListing()} disabled={loading}>
-                Cancel listing
-              </Button>
+              <>
+                {listingDutch?.duePrice ? (
+                  <Button
+                    onClick={() => void dropDutchPrice()}
+                    disabled={loading}
+                    title="Cancels this listing and relists at the price that's due (two transactions)"
+                  >
+                    Drop price to {listingDutch.duePrice} {listingSymbol}
+                  </Button>
+                ) : null}
+                <Button variant="outline" onClick={() => void cancelListing()} disabled={loading}>
+                  Cancel listing
+                </Button>
+              </>
             ) : account ? (
-              <Button onClick={() => void buyNow()} disabled={loading}>
+              <Button
+                onClick={() => void buyNow()}
+                disabled={loading || isFlagged || listingUpcoming}
+                title={isFlagged ? "Flagged as stolen" : listingUpcoming ? "Not open yet" : undefined}
+              >
                 Buy now
               </Button>
             ) : (
@@ -1111,6 +1603,16 @@ export default function NFTMarketPanel({
               </Button>
             )}
           </div>
+        ) : dutchRelist ? (
+          <div className="mt-4 flex flex-wrap gap-2">
+            <Button
+              onClick={() => void retryDutchRelist()}
+              disabled={loading}
+              title="The price drop cancelled the old listing but the new one wasn't created"
+            >
+              Relist at {dutchRelist.price} {dutchRelist.symbol}
+            </Button>
+          </div>
         ) : null}
       </div>
 
@@ -1130,6 +1632,28 @@ export default function NFTMarketPanel({
           </div>
         </div>
 
+        {pending.length ? (
+          <div className="mt-3 space-y-1">
+            {pending.map((p) => (
+              <div key={p.id} className="flex items-center gap-2 text-xs text-amber-600 dark:text-amber-400">
+                <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-current" />
+                <span>
+                  {PENDING_LABEL[p.type]}
+                  {account && lc(p.from) === lc(account) ? " (yours)" : ""}
+                </span>
+                <a
+                  className="underline"
+                  href={`https://blockexplorer.electroneum.com/tx/${p.txHash}`}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  tx
+                </a>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
         {auction ? (
           <div className="mt-4 flex flex-wrap items-center gap-2">
             {standard === "ERC1155" ? (
@@ -1141,7 +1665,7 @@ export default function NFTMarketPanel({
                 View auctions
               </ButtonLink>
             ) : auctionEndedUi ? (
-              <Button variant="outline" onClick={() => void finalizeAuction()} disabled={loading}>
+              <Button variant="outline" onClick={() => void finalizeAuction()} disabled={loading || auctionClosing}>
                 Finalize auction
               </Button>
             ) : (
@@ -1161,7 +1685,7 @@ export default function NFTMarketPanel({
                   <Button
                     variant="ghost"
                     onClick={() => void cancelAuction()}
-                    disabled={loading}
+                    disabled={loading || auctionClosing}
                     title="Seller can cancel before end"
                   >
                     Cancel auction
@@ -1173,6 +1697,68 @@ export default function NFTMarketPanel({
         ) : null}
       </div>
 
+      {/* OFFERS CARD */}
+      <div className="rounded-2xl border border-black/10 dark:border-white/10 bg-white/50 dark:bg-white/4 p-4">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-xs text-muted-foreground">Offers</div>
+            <div className="mt-1 text-sm font-semibold">
+              {offers.length ? `${offers.length} open` : "No offers"}
+            </div>
+          </div>
+          {!userOwns ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => (account ? setOfferOpen(true) : requireWalletToast())}
+              disabled={loading}
+            >
+              Make offer
+            </Button>
+          ) : null}
+        </div>
+
+        {offers.length ? (
+          <div className="mt-3">
+            <OfferList
+              offers={offers}
+              account={account}
+              actions={(o) => {
+                const mine = !!account && lc(account) === lc(o.bidderAddress);
+                if (mine && o.status === "ACCEPTED" && o.listingId) {
+                  return (
+                    <Button size="sm" onClick={() => void buyNow(o.listingId!)} disabled={loading}>
+                      Complete purchase
+                    </Button>
+                  );
+                }
+                if (mine) {
+                  return (
+                    <Button size="sm" variant="ghost" onClick={() => void withdrawOffer(o.id)} disabled={loading}>
+                      Cancel
+                    </Button>
+                  );
+                }
+                if (userOwns && o.status === "ACTIVE") {
+                  return (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => void acceptOffer(o)}
+                      disabled={loading || blockedByEscrow}
+                      title={blockedByEscrow ? "Cancel the active listing/auction first" : "Accept offer"}
+                    >
+                      Accept
+                    </Button>
+                  );
+                }
+                return null;
+              }}
+            />
+          </div>
+        ) : null}
+      </div>
+
       {/* OWNER ACTIONS (INLINE EXPAND PANELS) */}
       <div className="rounded-2xl border border-black/10 dark:border-white/10 bg-white/50 dark:bg-white/4 p-4">
         <div className="flex items-start justify-between gap-3">
@@ -1251,9 +1837,30 @@ export default function NFTMarketPanel({
                 </Button>
               </div>
 
+              <div className="mt-3 flex gap-2">
+                <Button
+                  size="sm"
+                  variant={listMode === "fixed" ? "primary" : "outline"}
+                  onClick={() => setListMode("fixed")}
+                  disabled={loading}
+                >
+                  Fixed price
+                </Button>
+                <Button
+                  size="sm"
+                  variant={listMode === "dutch" ? "primary" : "outline"}
+                  onClick={() => setListMode("dutch")}
+                  disabled={loading}
+                >
+                  Dutch (declining)
+                </Button>
+              </div>
+
               <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
                 <div className="space-y-1">
-                  <div className="text-xs text-muted-foreground">Price</div>
+                  <div className="text-xs text-muted-foreground">
+                    {listMode === "dutch" ? "Start price" : "Price"}
+                  </div>
                   <Input
                     value={listPrice}
                     onChange={(e) => setListPrice(e.target.value)}
@@ -1263,6 +1870,37 @@ export default function NFTMarketPanel({
                   />
                 </div>
 
+                {listMode === "dutch" ? (
+                  <>
+                    <div className="space-y-1">
+                      <div className="text-xs text-muted-foreground">End price</div>
+                      <Input
+                        value={listEndPrice}
+                        onChange={(e) => setListEndPrice(e.target.value)}
+                        placeholder="e.g. 5"
+                        inputMode="decimal"
+                        disabled={loading}
+                      />
+                    </div>
+
+                    <div className="space-y-1">
+                      <div className="text-xs text-muted-foreground">Drop price every</div>
+                      <select
+                        value={listStepMinutes}
+                        onChange={(e) => setListStepMinutes(Number(e.target.value))}
+                        disabled={loading}
+                        className="h-10 w-full rounded-2xl border border-black/10 dark:border-white/10 bg-background px-3 text-sm"
+                      >
+                        {DUTCH_INTERVALS.map((i) => (
+                          <option key={i.minutes} value={i.minutes}>
+                            {i.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </>
+                ) : null}
+
                 <div className="space-y-1">
                   <div className="text-xs text-muted-foreground">Currency</div>
                   <CurrencySelect
@@ -1281,24 +1919,29 @@ export default function NFTMarketPanel({
                     minNow
                     disabled={loading}
                   />
+                  <div className="text-xs text-muted-foreground">
+                    A later start schedules the listing; it shows up now and opens then.
+                  </div>
                 </div>
 
                 <div className="space-y-1">
                   <div className="flex items-center justify-between gap-2">
                     <div className="text-xs text-muted-foreground">End time</div>
-                    <button
-                      type="button"
-                      className="text-xs underline opacity-80 hover:opacity-100"
-                      onClick={() => setListNoEnd((v) => !v)}
-                    >
-                      {listNoEnd ? "Use end time" : "No end"}
-                    </button>
+                    {listMode === "fixed" ? (
+                      <button
+                        type="button"
+                        className="text-xs underline opacity-80 hover:opacity-100"
+                        onClick={() => setListNoEnd((v) => !v)}
+                      >
+                        {listNoEnd ? "Use end time" : "No end"}
+                      </button>
+                    ) : null}
                   </div>
                   <DateTimePicker
                     label=""
-                    value={listNoEnd ? "" : listEnd}
+                    value={listNoEnd && listMode === "fixed" ? "" : listEnd}
                     onChange={setListEnd}
-                    disabled={loading || listNoEnd}
+                    disabled={loading || (listNoEnd && listMode === "fixed")}
                     minNow
                   />
                 </div>
@@ -1322,12 +1965,20 @@ export default function NFTMarketPanel({
                 )}
               </div>
 
+              {listMode === "dutch" ? (
+                <div className="mt-3 text-xs text-muted-foreground">
+                  {dutchPreview ? `${dutchPreview} ` : ""}
+                  Each drop cancels and relists the item from your wallet: come back here when a
+                  drop is due and confirm it.
+                </div>
+              ) : null}
+
               <div className="mt-4 flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
                 <Button variant="outline" onClick={closeOwnerPanels} disabled={loading}>
                   Cancel
                 </Button>
                 <Button onClick={() => void createListing()} loading={loading} disabled={loading}>
-                  Create listing
+                  {listMode === "dutch" ? "Create Dutch listing" : "Create listing"}
                 </Button>
               </div>
             </div>
@@ -1523,6 +2174,14 @@ export default function NFTMarketPanel({
         </div>
       </Modal>
 
+      <MakeOfferModal
+        open={offerOpen}
+        onClose={() => setOfferOpen(false)}
+        contract={contract}
+        tokenId={tokenId}
+        zIndex={1_000_012}
+      />
+
       {err ? (
         <div className="rounded-2xl border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-500">
           {err}
@@ -0,0 +1,71 @@
+"use client";
+
+import React from "react";
+import { describeOfferTarget, type OfferDTO } from "@/src/lib/offers";
+
+function short(a: string) {
+  return `${a.slice(0, 6)}…${a.slice(-4)}`;
+}
+
+function fmt(v: string) {
+  const n = Number(v);
+  return Number.isFinite(n) ? new Intl.NumberFormat(undefined, { maximumFractionDigits: 4 }).format(n) : v;
+}
+
+function expiresLabel(iso: string) {
+  const ms = new Date(iso).getTime() - Date.now();
+  if (ms <= 0) return "expired";
+  const h = Math.floor(ms / 3_600_000);
+  if (h >= 48) return `${Math.floor(h / 24)}d left`;
+  if (h >= 1) return `${h}h left`;
+  return `${Math.max(1, Math.floor(ms / 60_000))}m left`;
+}
+
+/** Offer rows; actions are supplied by the caller (accept / cancel / complete). */
+export default function OfferList({
+  offers,
+  account,
+  actions,
+  empty = "No offers yet.",
+}: {
+  offers: OfferDTO[];
+  account?: string | null;
+  actions?: (o: OfferDTO) => React.ReactNode;
+  empty?: string;
+}) {
+  if (!offers.length) return <div className="text-xs text-muted-foreground">{empty}</div>;
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-black/10 dark:border-white/10">
+      {offers.map((o) => {
+        const mine = !!account && account.toLowerCase() === o.bidderAddress.toLowerCase();
+        return (
+          <div
+            key={o.id}
+            className="flex flex-wrap items-center justify-between gap-3 border-b border-black/10 dark:border-white/10 p-3 last:border-b-0"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-semibold">
+                {fmt(o.amountHuman)} {o.currency.symbol}
+                {o.status === "ACCEPTED" ? (
+                  <span className="ml-2 rounded-full bg-emerald-500/10 px-2 py-0.5 text-[11px] text-emerald-500">
+                    Accepted
+                  </span>
+                ) : o.status === "INVALID" ? (
+                  <span className="ml-2 rounded-full bg-amber-500/10 px-2 py-0.5 text-[11px] text-amber-500">
+                    {o.invalidReason ?? "Inactive"}
+                  </span>
+                ) : null}
+              </div>
+              <div className="mt-0.5 truncate text-xs text-muted-foreground">
+                {o.kind === "TOKEN" ? "Token offer" : describeOfferTarget(o)} · {mine ? "You" : short(o.bidderAddress)} ·{" "}
+                {expiresLabel(o.expiresAt)}
+              </div>
+            </div>
+            {actions ? <div className="flex gap-2">{actions(o)}</div> : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
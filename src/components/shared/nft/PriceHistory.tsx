@@ -0,0 +1,36 @@
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import SalesChart from "@/src/components/shared/SalesChart";
+import { useNftPriceHistory } from "@/src/lib/hooks/useSaleStats";
+
+/** Scatter of this token's sales; the chart uses the currency of the most recent sale. */
+export default function PriceHistory({ contract, tokenId }: { contract: string; tokenId: string }) {
+  const q = useNftPriceHistory(contract, tokenId);
+
+  const chart = React.useMemo(() => {
+    const items = q.data ?? [];
+    const last = items[items.length - 1];
+    if (!last) return null;
+    const same = items.filter((p) => p.currency.id === last.currency.id);
+    const points = same.map((p) => {
+      const v = Number(ethers.formatUnits(p.price, p.currency.decimals)) || 0;
+      return { t: Date.parse(p.t), v, label: `${v} ${p.currency.symbol} · ${new Date(p.t).toLocaleString()}` };
+    });
+    return { points, line: points, symbol: last.currency.symbol, other: items.length - same.length };
+  }, [q.data]);
+
+  if (q.isLoading) return <div className="h-40 animate-pulse rounded-xl bg-black/5 dark:bg-white/5" />;
+
+  return (
+    <div>
+      <SalesChart line={chart?.line} points={chart?.points} unit={chart?.symbol ?? "ETN"} empty="Never sold." withTime />
+      {chart?.other ? (
+        <p className="mt-1 text-xs text-muted-foreground">
+          {chart.other} sale{chart.other === 1 ? "" : "s"} in other currencies not shown.
+        </p>
+      ) : null}
+    </div>
+  );
+}
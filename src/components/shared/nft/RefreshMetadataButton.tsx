@@ -0,0 +1,44 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+
+/** Re-reads tokenURI + metadata for one token (rate limited server-side), then re-renders the page. */
+export default function RefreshMetadataButton({ contract, tokenId }: { contract: string; tokenId: string }) {
+  const auth = useWalletAuth();
+  const router = useRouter();
+  const [busy, setBusy] = React.useState(false);
+
+  const refresh = async () => {
+    setBusy(true);
+    const tId = toast.loading("Refreshing metadata…");
+    try {
+      await auth.ensureSignedIn();
+      const res = await fetch(
+        `/api/nft/${encodeURIComponent(contract)}/${encodeURIComponent(tokenId)}/refresh-metadata`,
+        { method: "POST" }
+      );
+      const json = (await res.json().catch(() => null)) as { changed?: boolean; error?: string } | null;
+      if (!res.ok) throw new Error(json?.error || "Refresh failed");
+      toast.success(json?.changed ? "Metadata updated." : "Metadata is already up to date.", { id: tId });
+      if (json?.changed) router.refresh();
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Refresh failed", { id: tId });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={() => void refresh()}
+      disabled={busy}
+      className="text-xs rounded-full border border-black/10 dark:border-white/10 px-3 py-1.5 hover:bg-black/5 dark:hover:bg-white/5 disabled:opacity-60"
+    >
+      {busy ? "Refreshing…" : "Refresh metadata"}
+    </button>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/src/ui/Button";
+import { Input } from "@/src/ui/Input";
+import { Label } from "@/src/ui/Label";
+import { Modal } from "@/src/ui/Modal";
+import { Textarea } from "@/src/ui/Textarea";
+import { useReportStolen, useStolenStatus } from "@/src/lib/hooks/useStolenStatus";
+
+/** Files a stolen report for one token. Hidden once the token is reported, flagged or awaiting review. */
+export default function ReportStolenButton({ contract, tokenId }: { contract: string; tokenId: string }) {
+  const status = useStolenStatus(contract, tokenId);
+  const report = useReportStolen(contract, tokenId);
+  const [open, setOpen] = React.useState(false);
+  const [evidenceUrl, setEvidenceUrl] = React.useState("");
+  const [notes, setNotes] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+
+  if (status.isLoading || status.data?.state) return null;
+  if (status.data?.reviewPending) {
+    return <span className="text-xs text-muted-foreground">Stolen report under review</span>;
+  }
+
+  const submit = async () => {
+    setBusy(true);
+    const tId = toast.loading("Sending report…");
+    try {
+      await report({ evidenceUrl: evidenceUrl.trim(), notes: notes.trim() || undefined });
+      toast.success("Report received. We'll review the evidence.", { id: tId });
+      setOpen(false);
+      setEvidenceUrl("");
+      setNotes("");
+    } catch (e: unknown) {
+      toast.error((e as Error)?.message || "Report failed", { id: tId });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="text-xs rounded-full border border-black/10 dark:border-white/10 px-3 py-1.5 hover:bg-black/5 dark:hover:bg-white/5"
+      >
+        Report stolen
+      </button>
+
+      <Modal open={open} onClose={() => !busy && setOpen(false)} title="Report stolen item" className="max-w-md">
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            A moderator reviews the evidence first; the token is only marked as reported once they confirm it.
+            Flagged tokens land in the stolen registry and can no longer be bought or listed on the marketplace.
+          </p>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="stolen-evidence">Evidence link</Label>
+            <Input
+              id="stolen-evidence"
+              placeholder="https://… (police report, screenshots, transaction)"
+              value={evidenceUrl}
+              onChange={(e) => setEvidenceUrl(e.target.value)}
+              disabled={busy}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="stolen-notes">What happened (optional)</Label>
+            <Textarea
+              id="stolen-notes"
+              rows={4}
+              maxLength={1000}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={busy}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button onClick={() => void submit()} disabled={!evidenceUrl.trim() || busy} loading={busy}>
+              Submit report
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import type { StolenState } from "@/src/lib/server/stolen";
+
+function cx(...cls: Array<string | false | undefined | null>) {
+  return cls.filter(Boolean).join(" ");
+}
+
+/** Warning pill for tokens flagged in the StolenRegistry ("flagged") or under a pending report. */
+export default function StolenBadge({
+  state,
+  className,
+}: {
+  state: StolenState | null | undefined;
+  className?: string;
+}) {
+  if (!state) return null;
+  const flagged = state === "flagged";
+
+  return (
+    <span
+      title={
+        flagged
+          ? "Flagged as stolen in the registry — it can't be bought or listed."
+          : "Reported as stolen; the report is under review."
+      }
+      className={cx(
+        "inline-flex items-center gap-1 rounded-full px-2 py-1 text-[10px] font-semibold",
+        flagged ? "bg-red-600 text-white" : "border border-amber-500/60 bg-amber-500/90 text-black",
+        className
+      )}
+    >
+      <svg width="11" height="11" viewBox="0 0 24 24" fill="none" aria-hidden="true">
+        <path d="M12 9v4m0 4h.01M10.3 3.9 1.8 18a2 2 0 0 0 1.7 3h17a2 2 0 0 0 1.7-3L13.7 3.9a2 2 0 0 0-3.4 0Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+      </svg>
+      {flagged ? "Stolen" : "Reported stolen"}
+    </span>
+  );
+}
@@ -100,11 +100,105 @@ export function normalizeCollectionsQuery(sp: Record<string, string | string[] |
   };
 }
 
+/** Floor / all-time volume (human units) from the CollectionStatsSnapshot of `cur`. */
+function snapshotCte(cur: CurrencyMeta) {
+  const key = cur.kind === "NATIVE" ? "native" : cur.id;
+  const decimals = cur.kind === "NATIVE" ? 18 : cur.decimals;
+  return Prisma.sql`
+    snap AS (
+      SELECT s."collectionId" AS "collectionId",
+             (s."floorPrice"::numeric / power(10, ${decimals}))::double precision AS "floorActive",
+             (s."volumeAllTime"::numeric / power(10, ${decimals}))::double precision AS "volumeAllTime"
+      FROM "CollectionStatsSnapshot" s
+      WHERE s."currencyKey" = ${key}
+    )
+  `;
+}
+
+/** Floor / all-time volume computed from listings and sales directly (the pre-snapshot query). */
+function liveStatsCtes(cur: CurrencyMeta, now: Date) {
+  return Prisma.sql`
+    floor_cte AS (
+      ${cur.kind === "NATIVE"
+        ? Prisma.sql`
+          SELECT n."collectionId" AS "collectionId",
+                 (MIN(ml."priceEtnWei")::numeric / 1e18)::double precision AS "floorActive"
+          FROM "MarketplaceListing" ml
+          JOIN "NFT" n ON n."id" = ml."nftId"
+          LEFT JOIN "Currency" ccur ON ccur."id" = ml."currencyId"
+          WHERE ml."status" = 'ACTIVE'
+            AND ml."startTime" <= ${now}
+            AND (ml."endTime" IS NULL OR ml."endTime" > ${now})
+            AND (ml."currencyId" IS NULL OR ccur."kind" = 'NATIVE')
+          GROUP BY n."collectionId"
+        `
+        : Prisma.sql`
+          SELECT n."collectionId" AS "collectionId",
+                 (MIN(ml."priceTokenAmount")::numeric / power(10, ${cur.decimals}))::double precision AS "floorActive"
+          FROM "MarketplaceListing" ml
+          JOIN "NFT" n ON n."id" = ml."nftId"
+          WHERE ml."status" = 'ACTIVE'
+            AND ml."startTime" <= ${now}
+            AND (ml."endTime" IS NULL OR ml."endTime" > ${now})
+            AND ml."currencyId" = ${cur.id}
+          GROUP BY n."collectionId"
+        `}
+    ),
+    volume_cte AS (
+      ${cur.kind === "NATIVE"
+        ? Prisma.sql`
+          SELECT n."collectionId" AS "collectionId",
+                 (COALESCE(SUM(s."priceEtnWei")::numeric, 0) / 1e18)::double precision AS "volumeAllTime"
+          FROM "MarketplaceSale" s
+          JOIN "NFT" n ON n."id" = s."nftId"
+          LEFT JOIN "Currency" ccur ON ccur."id" = s."currencyId"
+          WHERE (s."currencyId" IS NULL OR ccur."kind" = 'NATIVE')
+          GROUP BY n."collectionId"
+        `
+        : Prisma.sql`
+          SELECT n."collectionId" AS "collectionId",
+                 (COALESCE(SUM(s."priceTokenAmount")::numeric, 0) / power(10, ${cur.decimals}))::double precision AS "volumeAllTime"
+          FROM "MarketplaceSale" s
+          JOIN "NFT" n ON n."id" = s."nftId"
+          WHERE s."currencyId" = ${cur.id}
+          GROUP BY n."collectionId"
+        `}
+    )
+  `;
+}
+
+/**
+ * Live floor / volume per collection, straight from listings and sales. Too heavy for page
+ * requests; kept as the reference the materialized snapshots are verified against.
+ */
+export async function getLiveCollectionStats(
+  currency: string
+): Promise<Map<string, { floorActive: number | null; volumeAllTime: number }>> {
+  await prismaReady;
+  const currencyMeta = await resolveCurrencyMeta(currency);
+  const rows = await prisma.$queryRaw<
+    Array<{ id: string; floorActive: number | null; volumeAllTime: number | null }>
+  >(Prisma.sql`
+    WITH
+    ${liveStatsCtes(currencyMeta, new Date())}
+    SELECT c."id", f."floorActive", v."volumeAllTime"
+    FROM "Collection" c
+    LEFT JOIN floor_cte f ON f."collectionId" = c."id"
+    LEFT JOIN volume_cte v ON v."collectionId" = c."id"
+    WHERE f."floorActive" IS NOT NULL OR v."volumeAllTime" IS NOT NULL
+  `);
+
+  return new Map(
+    rows.map((r) => [r.id, { floorActive: safeNumber(r.floorActive), volumeAllTime: safeNumber(r.volumeAllTime) ?? 0 }])
+  );
+}
+
 /**
  * Currency-aware collection paging:
  * - floor = MIN(active listing price) in chosen currency
  * - volume = SUM(all-time sales) in chosen currency
- * - sorting uses computed values (not stale collection columns)
+ * - both read from CollectionStatsSnapshot (src/lib/server/collection-stats.ts), never
+ *   recomputed per request
  * - cursor is base64 JSON: {id, v} for floor/volume, {id, t} for newest
  */
 export async function getCollectionsPage(args: {
@@ -117,7 +211,6 @@ export async function getCollectionsPage(args: {
 
   const limit = clamp(args.limit || 24, 6, 30);
   const currencyMeta = await resolveCurrencyMeta(args.currency);
-  const now = new Date();
 
   const cur = decodeCursor(args.cursor);
 
@@ -147,52 +240,7 @@ export async function getCollectionsPage(args: {
       }>
     >(Prisma.sql`
       WITH
-      floor_cte AS (
-        ${currencyMeta.kind === "NATIVE"
-          ? Prisma.sql`
-            SELECT n."collectionId" AS "collectionId",
-                   (MIN(ml."priceEtnWei")::numeric / 1e18)::double precision AS "floorActive"
-            FROM "MarketplaceListing" ml
-            JOIN "NFT" n ON n."id" = ml."nftId"
-            LEFT JOIN "Currency" ccur ON ccur."id" = ml."currencyId"
-            WHERE ml."status" = 'ACTIVE'
-              AND ml."startTime" <= ${now}
-              AND (ml."endTime" IS NULL OR ml."endTime" > ${now})
-              AND (ml."currencyId" IS NULL OR ccur."kind" = 'NATIVE')
-            GROUP BY n."collectionId"
-          `
-          : Prisma.sql`
-            SELECT n."collectionId" AS "collectionId",
-                   (MIN(ml."priceTokenAmount")::numeric / power(10, ${currencyMeta.decimals}))::double precision AS "floorActive"
-            FROM "MarketplaceListing" ml
-            JOIN "NFT" n ON n."id" = ml."nftId"
-            WHERE ml."status" = 'ACTIVE'
-              AND ml."startTime" <= ${now}
-              AND (ml."endTime" IS NULL OR ml."endTime" > ${now})
-              AND ml."currencyId" = ${currencyMeta.id}
-            GROUP BY n."collectionId"
-          `}
-      ),
-      volume_cte AS (
-        ${currencyMeta.kind === "NATIVE"
-          ? Prisma.sql`
-            SELECT n."collectionId" AS "collectionId",
-                   (COALESCE(SUM(s."priceEtnWei")::numeric, 0) / 1e18)::double precision AS "volumeAllTime"
-            FROM "MarketplaceSale" s
-            JOIN "NFT" n ON n."id" = s."nftId"
-            LEFT JOIN "Currency" ccur ON ccur."id" = s."currencyId"
-            WHERE (s."currencyId" IS NULL OR ccur."kind" = 'NATIVE')
-            GROUP BY n."collectionId"
-          `
-          : Prisma.sql`
-            SELECT n."collectionId" AS "collectionId",
-                   (COALESCE(SUM(s."priceTokenAmount")::numeric, 0) / power(10, ${currencyMeta.decimals}))::double precision AS "volumeAllTime"
-            FROM "MarketplaceSale" s
-            JOIN "NFT" n ON n."id" = s."nftId"
-            WHERE s."currencyId" = ${currencyMeta.id}
-            GROUP BY n."collectionId"
-          `}
-      )
+      ${snapshotCte(currencyMeta)}
       SELECT
         c."id",
         c."name",
@@ -205,10 +253,9 @@ export async function getCollectionsPage(args: {
         c."indexStatus",
         c."createdAt",
         f."floorActive" AS "floorActive",
-        v."volumeAllTime" AS "volumeAllTime"
+        f."volumeAllTime" AS "volumeAllTime"
       FROM "Collection" c
-      LEFT JOIN floor_cte f ON f."collectionId" = c."id"
-      LEFT JOIN volume_cte v ON v."collectionId" = c."id"
+      LEFT JOIN snap f ON f."collectionId" = c."id"
       WHERE
         ${
           cursorTime && cursorId
@@ -271,52 +318,7 @@ export async function getCollectionsPage(args: {
     }>
   >(Prisma.sql`
     WITH
-    floor_cte AS (
-      ${currencyMeta.kind === "NATIVE"
-        ? Prisma.sql`
-          SELECT n."collectionId" AS "collectionId",
-                 (MIN(ml."priceEtnWei")::numeric / 1e18)::double precision AS "floorActive"
-          FROM "MarketplaceListing" ml
-          JOIN "NFT" n ON n."id" = ml."nftId"
-          LEFT JOIN "Currency" ccur ON ccur."id" = ml."currencyId"
-          WHERE ml."status" = 'ACTIVE'
-            AND ml."startTime" <= ${now}
-            AND (ml."endTime" IS NULL OR ml."endTime" > ${now})
-            AND (ml."currencyId" IS NULL OR ccur."kind" = 'NATIVE')
-          GROUP BY n."collectionId"
-        `
-        : Prisma.sql`
-          SELECT n."collectionId" AS "collectionId",
-                 (MIN(ml."priceTokenAmount")::numeric / power(10, ${currencyMeta.decimals}))::double precision AS "floorActive"
-          FROM "MarketplaceListing" ml
-          JOIN "NFT" n ON n."id" = ml."nftId"
-          WHERE ml."status" = 'ACTIVE'
-            AND ml."startTime" <= ${now}
-            AND (ml."endTime" IS NULL OR ml."endTime" > ${now})
-            AND ml."currencyId" = ${currencyMeta.id}
-          GROUP BY n."collectionId"
-        `}
-    ),
-    volume_cte AS (
-      ${currencyMeta.kind === "NATIVE"
-        ? Prisma.sql`
-          SELECT n."collectionId" AS "collectionId",
-                 (COALESCE(SUM(s."priceEtnWei")::numeric, 0) / 1e18)::double precision AS "volumeAllTime"
-          FROM "MarketplaceSale" s
-          JOIN "NFT" n ON n."id" = s."nftId"
-          LEFT JOIN "Currency" ccur ON ccur."id" = s."currencyId"
-          WHERE (s."currencyId" IS NULL OR ccur."kind" = 'NATIVE')
-          GROUP BY n."collectionId"
-        `
-        : Prisma.sql`
-          SELECT n."collectionId" AS "collectionId",
-                 (COALESCE(SUM(s."priceTokenAmount")::numeric, 0) / power(10, ${currencyMeta.decimals}))::double precision AS "volumeAllTime"
-          FROM "MarketplaceSale" s
-          JOIN "NFT" n ON n."id" = s."nftId"
-          WHERE s."currencyId" = ${currencyMeta.id}
-          GROUP BY n."collectionId"
-        `}
-    )
+    ${snapshotCte(currencyMeta)}
     SELECT
       c."id",
       c."name",
@@ -328,10 +330,9 @@ export async function getCollectionsPage(args: {
       c."ownersCount",
       c."indexStatus",
       f."floorActive" AS "floorActive",
-      v."volumeAllTime" AS "volumeAllTime"
+      f."volumeAllTime" AS "volumeAllTime"
     FROM "Collection" c
-    LEFT JOIN floor_cte f ON f."collectionId" = c."id"
-    LEFT JOIN volume_cte v ON v."collectionId" = c."id"
+    LEFT JOIN snap f ON f."collectionId" = c."id"
     WHERE
       ${
         cursorVal != null && cursorId
@@ -344,8 +345,8 @@ export async function getCollectionsPage(args: {
             `
             : Prisma.sql`
               (
-                COALESCE(v."volumeAllTime", 0) < ${cursorVal}
-                OR (COALESCE(v."volumeAllTime", 0) = ${cursorVal} AND c."id" > ${cursorId})
+                COALESCE(f."volumeAllTime", 0) < ${cursorVal}
+                OR (COALESCE(f."volumeAllTime", 0) = ${cursorVal} AND c."id" > ${cursorId})
               )
             `
           : Prisma.sql`TRUE`
@@ -354,7 +355,7 @@ export async function getCollectionsPage(args: {
       ${
         isFloor
           ? Prisma.sql`COALESCE(f."floorActive", -1) DESC, c."id" ASC`
-          : Prisma.sql`COALESCE(v."volumeAllTime", 0) DESC, c."id" ASC`
+          : Prisma.sql`COALESCE(f."volumeAllTime", 0) DESC, c."id" ASC`
       }
     LIMIT ${limit}
   `);
@@ -0,0 +1,77 @@
+// src/lib/dutch.ts
+/* Listing modes: scheduled start and Dutch (declining-price) listings.
+   Shared by the listing form (preview), the sync route (a relist must be at its step's
+   price) and the keeper (which step is due), so all three agree on the numbers.
+
+   A Dutch schedule drops linearly from startPrice to endPrice in stepCount steps, one
+   every stepSeconds from startTime; the last step holds until endTime. Prices are base
+   units of the listing currency.
+*/
+
+export const DUTCH_MIN_STEP_SECONDS = 15 * 60;
+export const DUTCH_MAX_STEPS = 96;
+
+/** A listing whose start is further out than this (vs. when it was created) is SCHEDULED. */
+export const SCHEDULED_GRACE_MS = 2 * 60_000;
+
+export type ListingModeLabel = "FIXED" | "SCHEDULED" | "DUTCH";
+
+export type DutchParams = {
+  startPrice: bigint;
+  endPrice: bigint;
+  stepSeconds: number;
+  startTime: Date;
+  endTime: Date;
+};
+
+export type DutchSchedulePlan = Pick<DutchParams, "startPrice" | "endPrice" | "stepSeconds" | "startTime"> & {
+  stepCount: number;
+};
+
+export function listingModeFor(startTime: Date, createdAt: Date): ListingModeLabel {
+  return startTime.getTime() - createdAt.getTime() > SCHEDULED_GRACE_MS ? "SCHEDULED" : "FIXED";
+}
+
+/** Steps between start and end time, the first one included. */
+export function dutchStepCount(p: Pick<DutchParams, "stepSeconds" | "startTime" | "endTime">) {
+  const spanSec = (p.endTime.getTime() - p.startTime.getTime()) / 1000;
+  return Math.max(1, Math.ceil(spanSec / p.stepSeconds));
+}
+
+/** What's wrong with the parameters, in words (null when they're fine). */
+export function dutchParamsError(p: DutchParams): string | null {
+  if (p.endPrice <= BigInt(0)) return "End price must be above zero.";
+  if (p.startPrice <= p.endPrice) return "Start price must be above the end price.";
+  if (!Number.isInteger(p.stepSeconds) || p.stepSeconds < DUTCH_MIN_STEP_SECONDS) {
+    return `Price drops can't be closer than ${DUTCH_MIN_STEP_SECONDS / 60} minutes apart.`;
+  }
+  if (p.endTime.getTime() <= p.startTime.getTime()) return "End time must be after start time.";
+  const steps = dutchStepCount(p);
+  if (steps < 2) return "The listing ends before the first price drop.";
+  if (steps > DUTCH_MAX_STEPS) return `At most ${DUTCH_MAX_STEPS} price steps; use a longer interval.`;
+  return null;
+}
+
+/** Price of step `step` (clamped to the schedule). */
+export function dutchStepPrice(s: Pick<DutchSchedulePlan, "startPrice" | "endPrice" | "stepCount">, step: number) {
+  if (s.stepCount <= 1) return s.startPrice;
+  const i = BigInt(Math.min(Math.max(step, 0), s.stepCount - 1));
+  return s.startPrice - ((s.startPrice - s.endPrice) * i) / BigInt(s.stepCount - 1);
+}
+
+export function dutchStepStart(s: Pick<DutchSchedulePlan, "startTime" | "stepSeconds">, step: number) {
+  return new Date(s.startTime.getTime() + step * s.stepSeconds * 1000);
+}
+
+/** The step whose price should be listed at `now`. */
+export function dutchStepAt(s: Pick<DutchSchedulePlan, "startTime" | "stepSeconds" | "stepCount">, now: Date) {
+  const elapsed = Math.floor((now.getTime() - s.startTime.getTime()) / 1000 / s.stepSeconds);
+  return Math.min(Math.max(elapsed, 0), s.stepCount - 1);
+}
+
+/** Activity feed label for a listing row's creation. */
+export function listingActivityType(mode: ListingModeLabel, dutchStep: number | null) {
+  if (mode === "DUTCH") return dutchStep ? "Price Drop" : "Dutch Listing";
+  if (mode === "SCHEDULED") return "Scheduled Listing";
+  return "Listing";
+}
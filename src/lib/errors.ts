@@ -0,0 +1,13 @@
+// src/lib/errors.ts
+/* Turning failures into something a toast can show. */
+
+/** The `{ error }` a failed API call answered with, or `fallback`. */
+export async function readError(res: Response, fallback: string) {
+  const j = (await res.json().catch(() => null)) as { error?: string } | null;
+  return j?.error || fallback;
+}
+
+/** Wallet/contract errors carry a readable `shortMessage`; anything else falls back to `message`. */
+export function errMsg(e: unknown, fallback = "") {
+  return (e as { shortMessage?: string })?.shortMessage || (e as Error)?.message || fallback;
+}
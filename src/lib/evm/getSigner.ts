@@ -1,4 +1,3 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
 import { ethers } from "ethers";
 
@@ -7,7 +6,7 @@ export async function getBrowserSigner() {
     throw new Error("Wallet not available on server.");
   }
 
-  const eth = (window as any).ethereum;
+  const eth = window.ethereum;
   if (!eth?.request) {
     throw new Error("No injected wallet found. Use Decent Wallet or install MetaMask/Rabby.");
   }
@@ -29,4 +28,12 @@ export async function getBrowserSigner() {
   return { provider, signer, chainId: Number(network.chainId) };
 }
 
+/** Signer for the injected wallet, asking for account access first. */
+export async function requestSigner() {
+  if (typeof window === "undefined" || !window.ethereum) throw new Error("No wallet found in this browser.");
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  await provider.send("eth_requestAccounts", []);
+  return provider.getSigner();
+}
+
 export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as const;
@@ -127,6 +127,18 @@ exports.Prisma.ChainStateScalarFieldEnum = {
   lastBlockNumber: 'lastBlockNumber'
 };
 
+exports.Prisma.MarketplaceIndexerWriteScalarFieldEnum = {
+  id: 'id',
+  blockNumber: 'blockNumber',
+  txHash: 'txHash',
+  logIndex: 'logIndex',
+  step: 'step',
+  model: 'model',
+  rowId: 'rowId',
+  before: 'before',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.UserScalarFieldEnum = {
   id: 'id',
   walletAddress: 'walletAddress',
@@ -168,6 +180,11 @@ exports.Prisma.CollectionScalarFieldEnum = {
   creatorId: 'creatorId',
   ownerAddress: 'ownerAddress',
   isOrphan: 'isOrphan',
+  rarityMethod: 'rarityMethod',
+  rarityStale: 'rarityStale',
+  rarityComputedAt: 'rarityComputedAt',
+  statsStale: 'statsStale',
+  statsComputedAt: 'statsComputedAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -293,6 +310,28 @@ exports.Prisma.MarketplaceListingScalarFieldEnum = {
   txHashCreated: 'txHashCreated',
   txHashFilled: 'txHashFilled',
   txHashCancelled: 'txHashCancelled',
+  mode: 'mode',
+  dutchScheduleId: 'dutchScheduleId',
+  dutchStep: 'dutchStep',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.DutchScheduleScalarFieldEnum = {
+  id: 'id',
+  nftId: 'nftId',
+  sellerAddress: 'sellerAddress',
+  quantity: 'quantity',
+  currencyId: 'currencyId',
+  startPrice: 'startPrice',
+  endPrice: 'endPrice',
+  stepSeconds: 'stepSeconds',
+  stepCount: 'stepCount',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  currentStep: 'currentStep',
+  relistStep: 'relistStep',
+  status: 'status',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -483,6 +522,23 @@ exports.Prisma.NFTRarityScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.MetadataRefreshScalarFieldEnum = {
+  id: 'id',
+  parentId: 'parentId',
+  contract: 'contract',
+  tokenId: 'tokenId',
+  requestedBy: 'requestedBy',
+  total: 'total',
+  processed: 'processed',
+  changed: 'changed',
+  failed: 'failed',
+  cursor: 'cursor',
+  diff: 'diff',
+  error: 'error',
+  createdAt: 'createdAt',
+  finishedAt: 'finishedAt'
+};
+
 exports.Prisma.HolderRewardScalarFieldEnum = {
   user_id: 'user_id',
   wallet_address: 'wallet_address',
@@ -525,6 +581,16 @@ exports.Prisma.FeaturedBidScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.FeaturedBidEventScalarFieldEnum = {
+  id: 'id',
+  bidId: 'bidId',
+  txHash: 'txHash',
+  logIndex: 'logIndex',
+  blockNumber: 'blockNumber',
+  totalBidWei: 'totalBidWei',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.CurrencyScalarFieldEnum = {
   id: 'id',
   symbol: 'symbol',
@@ -558,6 +624,61 @@ exports.Prisma.MarketplaceSaleScalarFieldEnum = {
   createdAt: 'createdAt'
 };
 
+exports.Prisma.CollectionSaleBucketScalarFieldEnum = {
+  id: 'id',
+  collectionId: 'collectionId',
+  currencyKey: 'currencyKey',
+  interval: 'interval',
+  bucketStart: 'bucketStart',
+  volume: 'volume',
+  salesCount: 'salesCount',
+  floorPrice: 'floorPrice',
+  avgPrice: 'avgPrice',
+  medianPrice: 'medianPrice',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CollectionStatsSnapshotScalarFieldEnum = {
+  id: 'id',
+  collectionId: 'collectionId',
+  currencyKey: 'currencyKey',
+  floorPrice: 'floorPrice',
+  listedCount: 'listedCount',
+  volumeAllTime: 'volumeAllTime',
+  salesCount: 'salesCount',
+  volume24h: 'volume24h',
+  volumePrev24h: 'volumePrev24h',
+  volume7d: 'volume7d',
+  volumePrev7d: 'volumePrev7d',
+  volume30d: 'volume30d',
+  volumePrev30d: 'volumePrev30d',
+  computedAt: 'computedAt'
+};
+
+exports.Prisma.MarketplaceOfferScalarFieldEnum = {
+  id: 'id',
+  kind: 'kind',
+  contract: 'contract',
+  tokenId: 'tokenId',
+  traitType: 'traitType',
+  traitValue: 'traitValue',
+  bidderAddress: 'bidderAddress',
+  currencyId: 'currencyId',
+  amount: 'amount',
+  nonce: 'nonce',
+  signature: 'signature',
+  expiresAt: 'expiresAt',
+  status: 'status',
+  invalidReason: 'invalidReason',
+  listingId: 'listingId',
+  acceptedBy: 'acceptedBy',
+  acceptedNftId: 'acceptedNftId',
+  txHashFilled: 'txHashFilled',
+  checkedAt: 'checkedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.RewardAccumulatorMultiScalarFieldEnum = {
   id: 'id',
   currencyId: 'currencyId',
@@ -571,6 +692,7 @@ exports.Prisma.HolderRewardMultiScalarFieldEnum = {
   walletAddress: 'walletAddress',
   currencyId: 'currencyId',
   lastAccPerToken: 'lastAccPerToken',
+  accruedAmount: 'accruedAmount',
   claimedAmount: 'claimedAmount',
   updatedAt: 'updatedAt'
 };
@@ -580,9 +702,11 @@ exports.Prisma.RewardDistributionLogScalarFieldEnum = {
   currencyId: 'currencyId',
   amount: 'amount',
   txHash: 'txHash',
+  logIndex: 'logIndex',
   blockNumber: 'blockNumber',
   timestamp: 'timestamp',
-  note: 'note'
+  note: 'note',
+  appliedAt: 'appliedAt'
 };
 
 exports.Prisma.RewardClaimLogScalarFieldEnum = {
@@ -592,6 +716,7 @@ exports.Prisma.RewardClaimLogScalarFieldEnum = {
   currencyId: 'currencyId',
   amount: 'amount',
   txHash: 'txHash',
+  logIndex: 'logIndex',
   timestamp: 'timestamp'
 };
 
@@ -606,6 +731,8 @@ exports.Prisma.StolenItemScalarFieldEnum = {
   evidenceUrl: 'evidenceUrl',
   notes: 'notes',
   disputed: 'disputed',
+  onChain: 'onChain',
+  confirmed: 'confirmed',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -646,10 +773,15 @@ exports.Prisma.MultisigTxScalarFieldEnum = {
   safeId: 'safeId',
   nonce: 'nonce',
   to: 'to',
+  tokenAddress: 'tokenAddress',
   valueWei: 'valueWei',
   dataHex: 'dataHex',
   operation: 'operation',
+  kind: 'kind',
+  description: 'description',
   submittedBy: 'submittedBy',
+  submitTxHash: 'submitTxHash',
+  sigDeadline: 'sigDeadline',
   status: 'status',
   executedTxHash: 'executedTxHash',
   createdAt: 'createdAt',
@@ -661,6 +793,7 @@ exports.Prisma.MultisigApprovalScalarFieldEnum = {
   txId: 'txId',
   ownerAddress: 'ownerAddress',
   signature: 'signature',
+  onChain: 'onChain',
   createdAt: 'createdAt'
 };
 
@@ -696,16 +829,16 @@ exports.Prisma.QueryMode = {
   insensitive: 'insensitive'
 };
 
-exports.Prisma.NullsOrder = {
-  first: 'first',
-  last: 'last'
-};
-
 exports.Prisma.JsonNullValueFilter = {
   DbNull: Prisma.DbNull,
   JsonNull: Prisma.JsonNull,
   AnyNull: Prisma.AnyNull
 };
+
+exports.Prisma.NullsOrder = {
+  first: 'first',
+  last: 'last'
+};
 exports.GatewayPref = exports.$Enums.GatewayPref = {
   PUBLIC: 'PUBLIC',
   PINATA: 'PINATA'
@@ -719,6 +852,12 @@ exports.IndexStatus = exports.$Enums.IndexStatus = {
   ERROR: 'ERROR'
 };
 
+exports.RarityMethod = exports.$Enums.RarityMethod = {
+  STATISTICAL: 'STATISTICAL',
+  INFORMATION_CONTENT: 'INFORMATION_CONTENT',
+  RARITY_SCORE: 'RARITY_SCORE'
+};
+
 exports.NftStatus = exports.$Enums.NftStatus = {
   PENDING: 'PENDING',
   SUCCESS: 'SUCCESS',
@@ -732,6 +871,19 @@ exports.ListingStatus = exports.$Enums.ListingStatus = {
   EXPIRED: 'EXPIRED'
 };
 
+exports.ListingMode = exports.$Enums.ListingMode = {
+  FIXED: 'FIXED',
+  SCHEDULED: 'SCHEDULED',
+  DUTCH: 'DUTCH'
+};
+
+exports.DutchScheduleStatus = exports.$Enums.DutchScheduleStatus = {
+  ACTIVE: 'ACTIVE',
+  SOLD: 'SOLD',
+  CANCELLED: 'CANCELLED',
+  ENDED: 'ENDED'
+};
+
 exports.AuctionStatus = exports.$Enums.AuctionStatus = {
   ACTIVE: 'ACTIVE',
   ENDED: 'ENDED',
@@ -772,6 +924,26 @@ exports.CurrencyKind = exports.$Enums.CurrencyKind = {
   ERC20: 'ERC20'
 };
 
+exports.SaleBucketInterval = exports.$Enums.SaleBucketInterval = {
+  HOUR: 'HOUR',
+  DAY: 'DAY'
+};
+
+exports.OfferKind = exports.$Enums.OfferKind = {
+  TOKEN: 'TOKEN',
+  COLLECTION: 'COLLECTION',
+  TRAIT: 'TRAIT'
+};
+
+exports.OfferStatus = exports.$Enums.OfferStatus = {
+  ACTIVE: 'ACTIVE',
+  ACCEPTED: 'ACCEPTED',
+  FILLED: 'FILLED',
+  CANCELLED: 'CANCELLED',
+  EXPIRED: 'EXPIRED',
+  INVALID: 'INVALID'
+};
+
 exports.StolenStatus = exports.$Enums.StolenStatus = {
   FLAGGED: 'FLAGGED',
   CLEARED: 'CLEARED'
@@ -810,6 +982,7 @@ exports.PendingStatus = exports.$Enums.PendingStatus = {
 
 exports.Prisma.ModelName = {
   ChainState: 'ChainState',
+  MarketplaceIndexerWrite: 'MarketplaceIndexerWrite',
   User: 'User',
   Collection: 'Collection',
   NFT: 'NFT',
@@ -820,6 +993,7 @@ exports.Prisma.ModelName = {
   Erc1155Balance: 'Erc1155Balance',
   Erc1155Holding: 'Erc1155Holding',
   MarketplaceListing: 'MarketplaceListing',
+  DutchSchedule: 'DutchSchedule',
   Auction: 'Auction',
   AuctionBid: 'AuctionBid',
   DeployedContract: 'DeployedContract',
@@ -832,12 +1006,17 @@ exports.Prisma.ModelName = {
   AssetUpload: 'AssetUpload',
   CollectionSubmission: 'CollectionSubmission',
   NFTRarity: 'NFTRarity',
+  MetadataRefresh: 'MetadataRefresh',
   HolderReward: 'HolderReward',
   RewardAccumulator: 'RewardAccumulator',
   FeaturedCycle: 'FeaturedCycle',
   FeaturedBid: 'FeaturedBid',
+  FeaturedBidEvent: 'FeaturedBidEvent',
   Currency: 'Currency',
   MarketplaceSale: 'MarketplaceSale',
+  CollectionSaleBucket: 'CollectionSaleBucket',
+  CollectionStatsSnapshot: 'CollectionStatsSnapshot',
+  MarketplaceOffer: 'MarketplaceOffer',
   RewardAccumulatorMulti: 'RewardAccumulatorMulti',
   HolderRewardMulti: 'HolderRewardMulti',
   RewardDistributionLog: 'RewardDistributionLog',
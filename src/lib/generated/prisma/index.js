@@ -100,6 +100,18 @@ exports.Prisma.ChainStateScalarFieldEnum = {
   lastBlockNumber: 'lastBlockNumber'
 };
 
+exports.Prisma.MarketplaceIndexerWriteScalarFieldEnum = {
+  id: 'id',
+  blockNumber: 'blockNumber',
+  txHash: 'txHash',
+  logIndex: 'logIndex',
+  step: 'step',
+  model: 'model',
+  rowId: 'rowId',
+  before: 'before',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.UserScalarFieldEnum = {
   id: 'id',
   walletAddress: 'walletAddress',
@@ -141,6 +153,11 @@ exports.Prisma.CollectionScalarFieldEnum = {
   creatorId: 'creatorId',
   ownerAddress: 'ownerAddress',
   isOrphan: 'isOrphan',
+  rarityMethod: 'rarityMethod',
+  rarityStale: 'rarityStale',
+  rarityComputedAt: 'rarityComputedAt',
+  statsStale: 'statsStale',
+  statsComputedAt: 'statsComputedAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -266,6 +283,28 @@ exports.Prisma.MarketplaceListingScalarFieldEnum = {
   txHashCreated: 'txHashCreated',
   txHashFilled: 'txHashFilled',
   txHashCancelled: 'txHashCancelled',
+  mode: 'mode',
+  dutchScheduleId: 'dutchScheduleId',
+  dutchStep: 'dutchStep',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.DutchScheduleScalarFieldEnum = {
+  id: 'id',
+  nftId: 'nftId',
+  sellerAddress: 'sellerAddress',
+  quantity: 'quantity',
+  currencyId: 'currencyId',
+  startPrice: 'startPrice',
+  endPrice: 'endPrice',
+  stepSeconds: 'stepSeconds',
+  stepCount: 'stepCount',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  currentStep: 'currentStep',
+  relistStep: 'relistStep',
+  status: 'status',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -456,6 +495,23 @@ exports.Prisma.NFTRarityScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.MetadataRefreshScalarFieldEnum = {
+  id: 'id',
+  parentId: 'parentId',
+  contract: 'contract',
+  tokenId: 'tokenId',
+  requestedBy: 'requestedBy',
+  total: 'total',
+  processed: 'processed',
+  changed: 'changed',
+  failed: 'failed',
+  cursor: 'cursor',
+  diff: 'diff',
+  error: 'error',
+  createdAt: 'createdAt',
+  finishedAt: 'finishedAt'
+};
+
 exports.Prisma.HolderRewardScalarFieldEnum = {
   user_id: 'user_id',
   wallet_address: 'wallet_address',
@@ -498,6 +554,16 @@ exports.Prisma.FeaturedBidScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.FeaturedBidEventScalarFieldEnum = {
+  id: 'id',
+  bidId: 'bidId',
+  txHash: 'txHash',
+  logIndex: 'logIndex',
+  blockNumber: 'blockNumber',
+  totalBidWei: 'totalBidWei',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.CurrencyScalarFieldEnum = {
   id: 'id',
   symbol: 'symbol',
@@ -531,6 +597,61 @@ exports.Prisma.MarketplaceSaleScalarFieldEnum = {
   createdAt: 'createdAt'
 };
 
+exports.Prisma.CollectionSaleBucketScalarFieldEnum = {
+  id: 'id',
+  collectionId: 'collectionId',
+  currencyKey: 'currencyKey',
+  interval: 'interval',
+  bucketStart: 'bucketStart',
+  volume: 'volume',
+  salesCount: 'salesCount',
+  floorPrice: 'floorPrice',
+  avgPrice: 'avgPrice',
+  medianPrice: 'medianPrice',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CollectionStatsSnapshotScalarFieldEnum = {
+  id: 'id',
+  collectionId: 'collectionId',
+  currencyKey: 'currencyKey',
+  floorPrice: 'floorPrice',
+  listedCount: 'listedCount',
+  volumeAllTime: 'volumeAllTime',
+  salesCount: 'salesCount',
+  volume24h: 'volume24h',
+  volumePrev24h: 'volumePrev24h',
+  volume7d: 'volume7d',
+  volumePrev7d: 'volumePrev7d',
+  volume30d: 'volume30d',
+  volumePrev30d: 'volumePrev30d',
+  computedAt: 'computedAt'
+};
+
+exports.Prisma.MarketplaceOfferScalarFieldEnum = {
+  id: 'id',
+  kind: 'kind',
+  contract: 'contract',
+  tokenId: 'tokenId',
+  traitType: 'traitType',
+  traitValue: 'traitValue',
+  bidderAddress: 'bidderAddress',
+  currencyId: 'currencyId',
+  amount: 'amount',
+  nonce: 'nonce',
+  signature: 'signature',
+  expiresAt: 'expiresAt',
+  status: 'status',
+  invalidReason: 'invalidReason',
+  listingId: 'listingId',
+  acceptedBy: 'acceptedBy',
+  acceptedNftId: 'acceptedNftId',
+  txHashFilled: 'txHashFilled',
+  checkedAt: 'checkedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.RewardAccumulatorMultiScalarFieldEnum = {
   id: 'id',
   currencyId: 'currencyId',
@@ -544,6 +665,7 @@ exports.Prisma.HolderRewardMultiScalarFieldEnum = {
   walletAddress: 'walletAddress',
   currencyId: 'currencyId',
   lastAccPerToken: 'lastAccPerToken',
+  accruedAmount: 'accruedAmount',
   claimedAmount: 'claimedAmount',
   updatedAt: 'updatedAt'
 };
@@ -553,9 +675,11 @@ exports.Prisma.RewardDistributionLogScalarFieldEnum = {
   currencyId: 'currencyId',
   amount: 'amount',
   txHash: 'txHash',
+  logIndex: 'logIndex',
   blockNumber: 'blockNumber',
   timestamp: 'timestamp',
-  note: 'note'
+  note: 'note',
+  appliedAt: 'appliedAt'
 };
 
 exports.Prisma.RewardClaimLogScalarFieldEnum = {
@@ -565,6 +689,7 @@ exports.Prisma.RewardClaimLogScalarFieldEnum = {
   currencyId: 'currencyId',
   amount: 'amount',
   txHash: 'txHash',
+  logIndex: 'logIndex',
   timestamp: 'timestamp'
 };
 
@@ -579,6 +704,8 @@ exports.Prisma.StolenItemScalarFieldEnum = {
   evidenceUrl: 'evidenceUrl',
   notes: 'notes',
   disputed: 'disputed',
+  onChain: 'onChain',
+  confirmed: 'confirmed',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -619,10 +746,15 @@ exports.Prisma.MultisigTxScalarFieldEnum = {
   safeId: 'safeId',
   nonce: 'nonce',
   to: 'to',
+  tokenAddress: 'tokenAddress',
   valueWei: 'valueWei',
   dataHex: 'dataHex',
   operation: 'operation',
+  kind: 'kind',
+  description: 'description',
   submittedBy: 'submittedBy',
+  submitTxHash: 'submitTxHash',
+  sigDeadline: 'sigDeadline',
   status: 'status',
   executedTxHash: 'executedTxHash',
   createdAt: 'createdAt',
@@ -634,6 +766,7 @@ exports.Prisma.MultisigApprovalScalarFieldEnum = {
   txId: 'txId',
   ownerAddress: 'ownerAddress',
   signature: 'signature',
+  onChain: 'onChain',
   createdAt: 'createdAt'
 };
 
@@ -669,16 +802,16 @@ exports.Prisma.QueryMode = {
   insensitive: 'insensitive'
 };
 
-exports.Prisma.NullsOrder = {
-  first: 'first',
-  last: 'last'
-};
-
 exports.Prisma.JsonNullValueFilter = {
   DbNull: Prisma.DbNull,
   JsonNull: Prisma.JsonNull,
   AnyNull: Prisma.AnyNull
 };
+
+exports.Prisma.NullsOrder = {
+  first: 'first',
+  last: 'last'
+};
 exports.ContractType = exports.$Enums.ContractType = {
   ERC721_DROP: 'ERC721_DROP',
   ERC721_SINGLE: 'ERC721_SINGLE',
@@ -697,6 +830,19 @@ exports.ListingStatus = exports.$Enums.ListingStatus = {
   EXPIRED: 'EXPIRED'
 };
 
+exports.ListingMode = exports.$Enums.ListingMode = {
+  FIXED: 'FIXED',
+  SCHEDULED: 'SCHEDULED',
+  DUTCH: 'DUTCH'
+};
+
+exports.DutchScheduleStatus = exports.$Enums.DutchScheduleStatus = {
+  ACTIVE: 'ACTIVE',
+  SOLD: 'SOLD',
+  CANCELLED: 'CANCELLED',
+  ENDED: 'ENDED'
+};
+
 exports.AuctionStatus = exports.$Enums.AuctionStatus = {
   ACTIVE: 'ACTIVE',
   ENDED: 'ENDED',
@@ -762,6 +908,27 @@ exports.StolenSource = exports.$Enums.StolenSource = {
   MARKETPLACE: 'MARKETPLACE'
 };
 
+exports.RarityMethod = exports.$Enums.RarityMethod = {
+  STATISTICAL: 'STATISTICAL',
+  INFORMATION_CONTENT: 'INFORMATION_CONTENT',
+  RARITY_SCORE: 'RARITY_SCORE'
+};
+
+exports.OfferKind = exports.$Enums.OfferKind = {
+  TOKEN: 'TOKEN',
+  COLLECTION: 'COLLECTION',
+  TRAIT: 'TRAIT'
+};
+
+exports.OfferStatus = exports.$Enums.OfferStatus = {
+  ACTIVE: 'ACTIVE',
+  ACCEPTED: 'ACCEPTED',
+  FILLED: 'FILLED',
+  CANCELLED: 'CANCELLED',
+  EXPIRED: 'EXPIRED',
+  INVALID: 'INVALID'
+};
+
 exports.CurrencyKind = exports.$Enums.CurrencyKind = {
   NATIVE: 'NATIVE',
   ERC20: 'ERC20'
@@ -781,8 +948,14 @@ exports.PendingStatus = exports.$Enums.PendingStatus = {
   EXPIRED: 'EXPIRED'
 };
 
+exports.SaleBucketInterval = exports.$Enums.SaleBucketInterval = {
+  HOUR: 'HOUR',
+  DAY: 'DAY'
+};
+
 exports.Prisma.ModelName = {
   ChainState: 'ChainState',
+  MarketplaceIndexerWrite: 'MarketplaceIndexerWrite',
   User: 'User',
   Collection: 'Collection',
   NFT: 'NFT',
@@ -793,6 +966,7 @@ exports.Prisma.ModelName = {
   Erc1155Balance: 'Erc1155Balance',
   Erc1155Holding: 'Erc1155Holding',
   MarketplaceListing: 'MarketplaceListing',
+  DutchSchedule: 'DutchSchedule',
   Auction: 'Auction',
   AuctionBid: 'AuctionBid',
   DeployedContract: 'DeployedContract',
@@ -805,12 +979,17 @@ exports.Prisma.ModelName = {
   AssetUpload: 'AssetUpload',
   CollectionSubmission: 'CollectionSubmission',
   NFTRarity: 'NFTRarity',
+  MetadataRefresh: 'MetadataRefresh',
   HolderReward: 'HolderReward',
   RewardAccumulator: 'RewardAccumulator',
   FeaturedCycle: 'FeaturedCycle',
   FeaturedBid: 'FeaturedBid',
+  FeaturedBidEvent: 'FeaturedBidEvent',
   Currency: 'Currency',
   MarketplaceSale: 'MarketplaceSale',
+  CollectionSaleBucket: 'CollectionSaleBucket',
+  CollectionStatsSnapshot: 'CollectionStatsSnapshot',
+  MarketplaceOffer: 'MarketplaceOffer',
   RewardAccumulatorMulti: 'RewardAccumulatorMulti',
   HolderRewardMulti: 'HolderRewardMulti',
   RewardDistributionLog: 'RewardDistributionLog',
@@ -833,10 +1012,10 @@ const config = {
   "clientVersion": "7.2.0",
   "engineVersion": "0c8ef2ce45c83248ab3df073180d5eda9e8be7a3",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider        = \"prisma-client-js\"\n  output          = \"../src/lib/generated/prisma\"\n  previewFeatures = [\"postgresqlExtensions\"]\n  binaryTargets   = [\"native\", \"rhel-openssl-3.0.x\", \"debian-openssl-3.0.x\"]\n}\n\ndatasource db {\n  provider   = \"postgresql\"\n  extensions = [citext]\n}\n\nmodel ChainState {\n  id              String @id @default(cuid())\n  userAddress     String @db.Citext\n  contract        String @db.Citext\n  lastBlockNumber Int    @default(0)\n\n  @@unique([userAddress, contract], name: \"contract_userAddress\")\n}\n\nmodel User {\n  id                 String                 @id @default(cuid())\n  walletAddress      String                 @unique @db.Citext\n  username           String\n  bio                String?\n  profileBanner      String?\n  profileAvatar      String\n  x                  String?\n  instagram          String?\n  website            String?\n  telegram           String?\n  createdAt          DateTime               @default(now())\n  updatedAt          DateTime               @updatedAt\n  collections        Collection[]\n  submissions        CollectionSubmission[]\n  featuredBids       FeaturedBid[]\n  holderRewardsMulti HolderRewardMulti[]\n  ownedNFTs          NFT[]                  @relation(\"ownedNFTs\")\n  rewardClaimLogs    RewardClaimLog[]\n  stolenReports      StolenItem[]           @relation(\"StolenReporter\")\n}\n\nmodel Collection {\n  id                 String            @id @default(cuid())\n  name               String\n  symbol             String\n  contract           String            @unique @db.Citext\n  description        String?\n  logoUrl            String?\n  coverUrl           String?\n  standard           String            @default(\"ERC721\")\n  supply             Int?\n  baseUri            String?\n  gatewayPref        GatewayPref       @default(PUBLIC)\n  indexStatus        IndexStatus       @default(PENDING)\n  x                  String?\n  instagram          String?\n  website            String?\n  discord            String?\n  telegram           String?\n  floorPrice         Float             @default(0)\n  volume             Float             @default(0)\n  itemsCount         Int               @default(0)\n  ownersCount        Int               @default(0)\n  change24h          Float             @default(0)\n  creatorId          String\n  ownerAddress       String            @db.Citext\n  isOrphan           Boolean           @default(false)\n  createdAt          DateTime          @default(now())\n  updatedAt          DateTime          @updatedAt\n  assetUploads       AssetUpload[]\n  creator            User              @relation(fields: [creatorId], references: [id])\n  deployment         DeployedContract?\n  featuredBidEntries FeaturedBid[]     @relation(\"FeaturedBidCollection\")\n  featuredAsWinner   FeaturedCycle[]   @relation(\"FeaturedWinnerCollection\")\n  nfts               NFT[]\n  presale            Presale?\n  publicSale         PublicSale?\n\n  @@index([creatorId])\n  @@index([ownerAddress])\n  @@index([indexStatus])\n}\n\nmodel NFT {\n  id               String               @id @default(cuid())\n  tokenId          String\n  name             String?\n  imageUrl         String?\n  description      String?\n  traits           Json?\n  attributes       Json?\n  tokenUri         String?\n  contract         String               @db.Citext\n  standard         String?\n  rawMetadata      Json?\n  royaltyBps       Int?\n  royaltyRecipient String?              @db.Citext\n  ownerId          String?\n  collectionId     String?\n  single721Id      String?\n  single1155Id     String?\n  status           NftStatus            @default(PENDING)\n  retryCount       Int                  @default(0)\n  createdAt        DateTime             @default(now())\n  updatedAt        DateTime             @updatedAt\n  rarityScore      Decimal?             @db.Decimal(38, 18)\n  auctionEntries   Auction[]\n  listingEntries   MarketplaceListing[]\n  sales            MarketplaceSale[]\n  collection       Collection?          @relation(fields: [collectionId], references: [id])\n  owner            User?                @relation(\"ownedNFTs\", fields: [ownerId], references: [id])\n  single1155       Single1155?          @relation(fields: [single1155Id], references: [id])\n  single721        Single721?           @relation(fields: [single721Id], references: [id])\n  activities       NFTActivity[]\n\n  @@unique([contract, tokenId])\n  @@unique([tokenId, contract, collectionId])\n  @@index([contract])\n  @@index([ownerId])\n}\n\nmodel TraitStat {\n  id         String   @id @default(cuid())\n  contract   String   @db.Citext\n  trait_type String\n  value      Json\n  count      Int\n  frequency  Float\n  createdAt  DateTime @default(now())\n\n  @@unique([contract, trait_type, value])\n  @@index([contract])\n}\n\nmodel NFTActivity {\n  id          String   @id @default(cuid())\n  nftId       String\n  contract    String   @db.Citext\n  tokenId     String\n  type        String\n  fromAddress String   @db.Citext\n  toAddress   String   @db.Citext\n  priceEtnWei Decimal? @db.Decimal(65, 0)\n  txHash      String\n  logIndex    Int      @default(0)\n  blockNumber Int\n  timestamp   DateTime\n  marketplace String?\n  rawData     Json?\n  createdAt   DateTime @default(now())\n  nft         NFT      @relation(fields: [nftId], references: [id])\n\n  @@unique([txHash, logIndex])\n  @@index([contract])\n  @@index([tokenId])\n  @@index([timestamp])\n  @@index([contract, tokenId, blockNumber])\n}\n\nmodel Single721 {\n  id               String            @id @default(cuid())\n  name             String\n  symbol           String\n  contract         String            @unique @db.Citext\n  tokenUri         String\n  royaltyRecipient String            @db.Citext\n  royaltyBps       Int\n  creatorId        String\n  ownerAddress     String            @db.Citext\n  description      String?\n  imageUrl         String?\n  indexStatus      IndexStatus       @default(PENDING)\n  createdAt        DateTime          @default(now())\n  updatedAt        DateTime          @updatedAt\n  assetUploads     AssetUpload[]\n  deployment       DeployedContract?\n  nfts             NFT[]\n\n  @@index([indexStatus])\n}\n\nmodel Single1155 {\n  id               String            @id @default(cuid())\n  name             String\n  symbol           String\n  contract         String            @unique @db.Citext\n  baseUri          String\n  maxSupply        Int\n  mintPriceEtnWei  Decimal           @db.Decimal(65, 0)\n  maxPerWallet     Int\n  royaltyRecipient String            @db.Citext\n  royaltyBps       Int\n  creatorId        String\n  ownerAddress     String            @db.Citext\n  description      String?\n  imageUrl         String?\n  indexStatus      IndexStatus       @default(PENDING)\n  createdAt        DateTime          @default(now())\n  updatedAt        DateTime          @updatedAt\n  assetUploads     AssetUpload[]\n  deployment       DeployedContract?\n  balances         Erc1155Balance[]\n  nfts             NFT[]\n\n  @@index([indexStatus])\n}\n\nmodel Erc1155Balance {\n  id           String     @id @default(cuid())\n  single1155Id String\n  ownerAddress String     @db.Citext\n  balance      Int        @default(0)\n  updatedAt    DateTime   @default(now())\n  single1155   Single1155 @relation(fields: [single1155Id], references: [id])\n\n  @@unique([single1155Id, ownerAddress])\n  @@index([ownerAddress])\n  @@index([single1155Id])\n}\n\nmodel Erc1155Holding {\n  id           String   @id @default(cuid())\n  contract     String   @db.Citext\n  tokenId      String\n  ownerAddress String   @db.Citext\n  balance      Int      @default(0)\n  updatedAt    DateTime @default(now())\n\n  @@unique([contract, tokenId, ownerAddress])\n  @@index([ownerAddress])\n  @@index([contract, tokenId])\n  @@index([contract, ownerAddress])\n}\n\nmodel MarketplaceListing {\n  id               String        @id @default(cuid())\n  nftId            String\n  sellerAddress    String        @db.Citext\n  quantity         Int           @default(1)\n  priceEtnWei      Decimal       @db.Decimal(65, 0)\n  currencyId       String?\n  priceTokenAmount Decimal?      @db.Decimal(65, 0)\n  status           ListingStatus @default(ACTIVE)\n  startTime        DateTime      @default(now())\n  endTime          DateTime?\n  txHashCreated    String?\n  txHashFilled     String?\n  txHashCancelled  String?\n  createdAt        DateTime      @default(now())\n  updatedAt        DateTime      @updatedAt\n  currency         Currency?     @relation(fields: [currencyId], references: [id])\n  nft              NFT           @relation(fields: [nftId], references: [id])\n\n  @@index([sellerAddress])\n  @@index([status])\n  @@index([startTime])\n  @@index([nftId])\n  @@index([currencyId])\n  @@index([nftId, status], map: \"idx_listing_nft_status\")\n  @@index([sellerAddress, status], map: \"idx_listing_seller_status\")\n}\n\nmodel Auction {\n  id                      String        @id @default(cuid())\n  nftId                   String\n  sellerAddress           String        @db.Citext\n  quantity                Int           @default(1)\n  startPriceEtnWei        Decimal       @db.Decimal(65, 0)\n  highestBidEtnWei        Decimal?      @db.Decimal(65, 0)\n  minIncrementEtnWei      Decimal?      @db.Decimal(65, 0)\n  currencyId              String?\n  startPriceTokenAmount   Decimal?      @db.Decimal(65, 0)\n  highestBidTokenAmount   Decimal?      @db.Decimal(65, 0)\n  minIncrementTokenAmount Decimal?      @db.Decimal(65, 0)\n  startTime               DateTime      @default(now())\n  endTime                 DateTime\n  status                  AuctionStatus @default(ACTIVE)\n  txHashCreated           String?\n  txHashFinalized         String?\n  txHashCancelled         String?\n  createdAt               DateTime      @default(now())\n  updatedAt               DateTime      @updatedAt\n  highestBidder           String?       @db.Citext\n  currency                Currency?     @relation(fields: [currencyId], references: [id])\n  nft                     NFT           @relation(fields: [nftId], references: [id])\n  bids                    AuctionBid[]\n\n  @@index([sellerAddress])\n  @@index([status])\n  @@index([endTime])\n  @@index([nftId])\n  @@index([currencyId])\n  @@index([nftId, status], map: \"idx_auction_nft_status\")\n  @@index([sellerAddress, status], map: \"idx_auction_seller_status\")\n}\n\nmodel AuctionBid {\n  id            String    @id @default(cuid())\n  auctionId     String\n  bidderAddress String    @db.Citext\n  amountWei     Decimal   @db.Decimal(65, 0)\n  currencyId    String?\n  txHash        String\n  logIndex      Int       @default(0)\n  blockNumber   Int\n  timestamp     DateTime\n  createdAt     DateTime  @default(now())\n  auction       Auction   @relation(fields: [auctionId], references: [id], onDelete: Cascade)\n  currency      Currency? @relation(fields: [currencyId], references: [id])\n\n  @@unique([txHash, logIndex])\n  @@index([auctionId, timestamp])\n  @@index([bidderAddress])\n  @@index([blockNumber])\n}\n\nmodel DeployedContract {\n  id                 String         @id @default(cuid())\n  contractType       ContractType\n  cloneAddress       String         @unique @db.Citext\n  implementationAddr String         @db.Citext\n  factoryAddress     String         @db.Citext\n  deployerAddress    String         @db.Citext\n  txHash             String         @unique\n  blockNumber        Int\n  metadataOption     MetadataOption\n  feeRecipient       String         @db.Citext\n  feeAmountEtnWei    Decimal        @db.Decimal(65, 0)\n  royaltyRecipient   String\n  royaltyBps         Int\n  baseURI            String?\n  maxSupply          Int?\n  rawInit            Json?\n  createdAt          DateTime       @default(now())\n  collectionId       String?        @unique\n  single721Id        String?        @unique\n  single1155Id       String?        @unique\n  collection         Collection?    @relation(fields: [collectionId], references: [id])\n  single1155         Single1155?    @relation(fields: [single1155Id], references: [id])\n  single721          Single721?     @relation(fields: [single721Id], references: [id])\n\n  @@index([factoryAddress])\n  @@index([deployerAddress])\n}\n\nmodel FeeConfig {\n  id              String         @id @default(cuid())\n  contractType    ContractType\n  metadataOption  MetadataOption\n  feeRecipient    String         @db.Citext\n  feeAmountEtnWei Decimal        @db.Decimal(65, 0)\n  active          Boolean        @default(true)\n  createdAt       DateTime       @default(now())\n  updatedAt       DateTime       @updatedAt\n  updatedByUserId String?\n  targetUsdCents  Int?\n  pricingSource   String         @default(\"CRYPTOCOMPARE\")\n  pricingPair     String         @default(\"ETNUSD\")\n  lastPriceUsd    Decimal?       @db.Decimal(20, 10)\n  lastPriceAt     DateTime?\n  logs            FeeConfigLog[]\n\n  @@unique([contractType, metadataOption])\n  @@index([active])\n}\n\nmodel FeeConfigLog {\n  id                   String    @id @default(cuid())\n  feeConfigId          String\n  previousRecipient    String?   @db.Citext\n  newRecipient         String?   @db.Citext\n  previousAmountEtnWei Decimal?  @db.Decimal(65, 0)\n  newAmountEtnWei      Decimal?  @db.Decimal(65, 0)\n  changedByUserId      String?\n  reason               String?\n  createdAt            DateTime  @default(now())\n  feeConfig            FeeConfig @relation(fields: [feeConfigId], references: [id])\n\n  @@index([feeConfigId])\n  @@index([createdAt])\n}\n\nmodel PublicSale {\n  id           String     @id @default(cuid())\n  collectionId String     @unique\n  startTime    DateTime\n  priceEtnWei  Decimal    @db.Decimal(65, 0)\n  maxPerWallet Int\n  maxPerTx     Int\n  createdAt    DateTime   @default(now())\n  updatedAt    DateTime   @default(now())\n  collection   Collection @relation(fields: [collectionId], references: [id])\n}\n\nmodel Presale {\n  id              String                    @id @default(cuid())\n  collectionId    String                    @unique\n  startTime       DateTime\n  endTime         DateTime\n  priceEtnWei     Decimal                   @db.Decimal(65, 0)\n  maxSupply       Int\n  merkleRoot      String\n  whitelistCount  Int?\n  allowlistCommit String?\n  createdAt       DateTime                  @default(now())\n  updatedAt       DateTime                  @updatedAt\n  collection      Collection                @relation(fields: [collectionId], references: [id])\n  whitelist       PresaleWhitelistAddress[]\n}\n\nmodel PresaleWhitelistAddress {\n  id            String  @id @default(cuid())\n  presaleId     String\n  address       String  @db.Citext\n  maxAllocation Int?\n  presale       Presale @relation(fields: [presaleId], references: [id])\n\n  @@unique([presaleId, address])\n  @@index([address])\n  @@index([presaleId])\n}\n\nmodel PresaleDraft {\n  id                  String      @id @default(cuid())\n  creatorUserId       String\n  addresses           Json\n  count               Int\n  merkleRoot          String\n  sha256Commit        String      @unique\n  status              DraftStatus @default(DRAFT)\n  consumedAt          DateTime?\n  consumedByPresaleId String?\n  createdAt           DateTime    @default(now())\n  expiresAt           DateTime?\n\n  @@index([creatorUserId])\n  @@index([status, createdAt])\n}\n\nmodel AssetUpload {\n  id             String      @id @default(cuid())\n  uploaderUserId String?\n  collectionId   String?\n  single721Id    String?\n  single1155Id   String?\n  provider       String      @default(\"PINATA\")\n  cid            String\n  url            String?\n  bytes          Int?\n  sha256         String?\n  contentType    String?\n  originalName   String?\n  createdAt      DateTime    @default(now())\n  collection     Collection? @relation(fields: [collectionId], references: [id])\n  single1155     Single1155? @relation(fields: [single1155Id], references: [id])\n  single721      Single721?  @relation(fields: [single721Id], references: [id])\n\n  @@index([cid])\n  @@index([collectionId])\n  @@index([single721Id])\n  @@index([single1155Id])\n}\n\nmodel CollectionSubmission {\n  id                String           @id @default(cuid())\n  submittedByUserId String\n  contract          String           @unique @db.Citext\n  ownerAddress      String?          @db.Citext\n  name              String?\n  symbol            String?\n  logoUrl           String?\n  coverUrl          String?\n  baseUri           String?\n  supply            Int?\n  description       String?\n  website           String?\n  x                 String?\n  instagram         String?\n  telegram          String?\n  feeTxHash         String?          @unique\n  feePaidWei        Decimal?         @db.Decimal(65, 0)\n  feeVerifiedAt     DateTime?\n  ownershipVerified Boolean          @default(false)\n  status            SubmissionStatus @default(PENDING)\n  statusReason      String?\n  reviewedByUserId  String?\n  reviewedAt        DateTime?\n  createdAt         DateTime         @default(now())\n  updatedAt         DateTime         @updatedAt\n  submittedBy       User             @relation(fields: [submittedByUserId], references: [id])\n\n  @@index([status, createdAt])\n}\n\nmodel NFTRarity {\n  contract  String   @db.Citext\n  tokenId   String\n  score     Decimal  @db.Decimal(38, 18)\n  rank      Int\n  updatedAt DateTime @default(now())\n\n  @@id([contract, tokenId])\n  @@index([contract, rank])\n}\n\nmodel HolderReward {\n  user_id            String   @id\n  wallet_address     String?  @unique @db.Citext\n  last_acc_per_token Decimal  @default(0) @db.Decimal(78, 27)\n  claimed_etn        Decimal  @default(0) @db.Decimal(78, 18)\n  updated_at         DateTime @default(now()) @db.Timestamptz(6)\n}\n\nmodel RewardAccumulator {\n  id            String   @id\n  acc_per_token Decimal  @default(0) @db.Decimal(78, 27)\n  updated_at    DateTime @default(now()) @db.Timestamptz(6)\n}\n\nmodel FeaturedCycle {\n  id                       String              @id @default(cuid())\n  cycleId                  String              @unique\n  startAt                  DateTime\n  endAt                    DateTime\n  status                   FeaturedCycleStatus @default(ACTIVE)\n  minBidWei                Decimal             @db.Decimal(65, 0)\n  winnerBidId              String?             @unique\n  winnerCollectionContract String?             @db.Citext\n  winnerAmountWei          Decimal?            @db.Decimal(65, 0)\n  finalizedAt              DateTime?\n  createdAt                DateTime            @default(now())\n  updatedAt                DateTime            @updatedAt\n  bids                     FeaturedBid[]       @relation(\"CycleBids\")\n  winnerBid                FeaturedBid?        @relation(\"WinnerBid\", fields: [winnerBidId], references: [id])\n  winnerCollection         Collection?         @relation(\"FeaturedWinnerCollection\", fields: [winnerCollectionContract], references: [contract])\n\n  @@index([startAt])\n  @@index([endAt])\n  @@index([status])\n}\n\nmodel FeaturedBid {\n  id                 String         @id @default(cuid())\n  cycleId            String\n  bidderAddress      String         @db.Citext\n  bidderUserId       String?\n  collectionContract String         @db.Citext\n  totalBidWei        Decimal        @db.Decimal(65, 0)\n  txCount            Int            @default(0)\n  lastTxHash         String?\n  createdAt          DateTime       @default(now())\n  updatedAt          DateTime       @updatedAt\n  bidder             User?          @relation(fields: [bidderUserId], references: [id])\n  collection         Collection     @relation(\"FeaturedBidCollection\", fields: [collectionContract], references: [contract])\n  cycle              FeaturedCycle  @relation(\"CycleBids\", fields: [cycleId], references: [id], onDelete: Cascade)\n  winnerOf           FeaturedCycle? @relation(\"WinnerBid\")\n\n  @@unique([cycleId, bidderAddress])\n  @@index([collectionContract])\n  @@index([totalBidWei])\n  @@index([cycleId, totalBidWei])\n}\n\nmodel Currency {\n  id                 String                  @id @default(cuid())\n  symbol             String\n  decimals           Int                     @default(18)\n  kind               CurrencyKind            @default(NATIVE)\n  tokenAddress       String?                 @unique @db.Citext\n  active             Boolean                 @default(true)\n  createdAt          DateTime                @default(now())\n  updatedAt          DateTime                @updatedAt\n  auctions           Auction[]\n  bids               AuctionBid[]\n  holderRewards      HolderRewardMulti[]\n  listings           MarketplaceListing[]\n  sales              MarketplaceSale[]\n  rewardAccumulators RewardAccumulatorMulti?\n  claimLogs          RewardClaimLog[]\n  distributionLogs   RewardDistributionLog[]\n\n  @@unique([symbol, tokenAddress])\n}\n\nmodel MarketplaceSale {\n  id                      String    @id @default(cuid())\n  nftId                   String\n  buyerAddress            String    @db.Citext\n  sellerAddress           String    @db.Citext\n  quantity                Int       @default(1)\n  priceEtnWei             Decimal   @db.Decimal(65, 0)\n  royaltyPaidWei          Decimal?  @db.Decimal(65, 0)\n  marketplaceFeePaidWei   Decimal?  @db.Decimal(65, 0)\n  currencyId              String?\n  priceTokenAmount        Decimal?  @db.Decimal(65, 0)\n  royaltyPaidTokenAmount  Decimal?  @db.Decimal(65, 0)\n  feePaidTokenAmount      Decimal?  @db.Decimal(65, 0)\n  royaltyRecipient        String?   @db.Citext\n  marketplaceFeeRecipient String?   @db.Citext\n  txHash                  String\n  logIndex                Int       @default(0)\n  blockNumber             Int\n  timestamp               DateTime\n  createdAt               DateTime  @default(now())\n  currency                Currency? @relation(fields: [currencyId], references: [id])\n  nft                     NFT       @relation(fields: [nftId], references: [id])\n\n  @@unique([txHash, logIndex])\n  @@index([buyerAddress])\n  @@index([sellerAddress])\n  @@index([nftId])\n  @@index([timestamp])\n  @@index([currencyId, timestamp])\n}\n\nmodel RewardAccumulatorMulti {\n  id          String   @id @default(cuid())\n  currencyId  String   @unique\n  accPerToken Decimal  @default(0) @db.Decimal(78, 27)\n  updatedAt   DateTime @default(now()) @db.Timestamptz(6)\n  currency    Currency @relation(fields: [currencyId], references: [id])\n}\n\nmodel HolderRewardMulti {\n  id              String   @id @default(cuid())\n  userId          String?\n  walletAddress   String   @db.Citext\n  currencyId      String\n  lastAccPerToken Decimal  @default(0) @db.Decimal(78, 27)\n  claimedAmount   Decimal  @default(0) @db.Decimal(78, 18)\n  updatedAt       DateTime @default(now()) @db.Timestamptz(6)\n  currency        Currency @relation(fields: [currencyId], references: [id])\n  user            User?    @relation(fields: [userId], references: [id])\n\n  @@unique([walletAddress, currencyId])\n  @@index([userId])\n}\n\nmodel RewardDistributionLog {\n  id          String   @id @default(cuid())\n  currencyId  String\n  amount      Decimal  @db.Decimal(78, 18)\n  txHash      String?\n  blockNumber Int?\n  timestamp   DateTime @default(now())\n  note        String?\n  currency    Currency @relation(fields: [currencyId], references: [id])\n\n  @@index([currencyId, timestamp])\n}\n\nmodel RewardClaimLog {\n  id            String   @id @default(cuid())\n  walletAddress String   @db.Citext\n  userId        String?\n  currencyId    String\n  amount        Decimal  @db.Decimal(78, 18)\n  txHash        String?\n  timestamp     DateTime @default(now())\n  currency      Currency @relation(fields: [currencyId], references: [id])\n  user          User?    @relation(fields: [userId], references: [id])\n\n  @@index([walletAddress, currencyId, timestamp])\n}\n\nmodel StolenItem {\n  id              String       @id @default(cuid())\n  contract        String       @db.Citext\n  tokenId         String\n  status          StolenStatus @default(FLAGGED)\n  source          StolenSource @default(USER)\n  reporterAddress String?      @db.Citext\n  reporterUserId  String?\n  evidenceUrl     String?\n  notes           String?\n  disputed        Boolean      @default(false)\n  createdAt       DateTime     @default(now())\n  updatedAt       DateTime     @updatedAt\n  reporter        User?        @relation(\"StolenReporter\", fields: [reporterUserId], references: [id])\n\n  @@unique([contract, tokenId])\n  @@index([status])\n  @@index([contract, tokenId, status])\n}\n\nmodel StolenEvent {\n  id           String   @id @default(cuid())\n  contract     String   @db.Citext\n  tokenId      String\n  action       String\n  actorAddress String?  @db.Citext\n  txHash       String?\n  logIndex     Int?     @default(0)\n  blockNumber  Int?\n  timestamp    DateTime @default(now())\n  notes        String?\n  createdAt    DateTime @default(now())\n\n  @@index([contract, tokenId, timestamp])\n  @@index([txHash, logIndex])\n}\n\nmodel MultisigSafe {\n  id        String          @id @default(cuid())\n  contract  String          @unique @db.Citext\n  name      String?\n  threshold Int\n  createdAt DateTime        @default(now())\n  updatedAt DateTime        @updatedAt\n  owners    MultisigOwner[]\n  txs       MultisigTx[]\n\n  @@index([threshold])\n}\n\nmodel MultisigOwner {\n  id           String       @id @default(cuid())\n  safeId       String\n  ownerAddress String       @db.Citext\n  addedAt      DateTime     @default(now())\n  removedAt    DateTime?\n  safe         MultisigSafe @relation(fields: [safeId], references: [id])\n\n  @@unique([safeId, ownerAddress])\n  @@index([ownerAddress])\n}\n\nmodel MultisigTx {\n  id             String             @id @default(cuid())\n  safeId         String\n  nonce          Int\n  to             String             @db.Citext\n  valueWei       Decimal            @default(0) @db.Decimal(65, 0)\n  dataHex        String?\n  operation      Int?\n  submittedBy    String?            @db.Citext\n  status         MultisigTxStatus   @default(SUBMITTED)\n  executedTxHash String?\n  createdAt      DateTime           @default(now())\n  executedAt     DateTime?\n  approvals      MultisigApproval[]\n  safe           MultisigSafe       @relation(fields: [safeId], references: [id])\n\n  @@unique([safeId, nonce])\n  @@index([status])\n  @@index([to])\n}\n\nmodel MultisigApproval {\n  id           String     @id @default(cuid())\n  txId         String\n  ownerAddress String     @db.Citext\n  signature    String?\n  createdAt    DateTime   @default(now())\n  tx           MultisigTx @relation(fields: [txId], references: [id])\n\n  @@unique([txId, ownerAddress])\n  @@index([ownerAddress])\n}\n\nmodel PendingChainAction {\n  id        String                 @id @default(cuid())\n  type      PendingChainActionType\n  txHash    String                 @unique\n  from      String                 @db.Citext\n  chainId   Int\n  payload   Json\n  relatedId String?\n  status    PendingStatus          @default(PENDING)\n  createdAt DateTime               @default(now())\n  updatedAt DateTime               @updatedAt\n\n  @@index([status, createdAt])\n  @@index([type, createdAt])\n}\n\nenum ContractType {\n  ERC721_DROP\n  ERC721_SINGLE\n  ERC1155_SINGLE\n}\n\nenum MetadataOption {\n  UPLOAD\n  EXTERNAL\n}\n\nenum ListingStatus {\n  ACTIVE\n  SOLD\n  CANCELLED\n  EXPIRED\n}\n\nenum AuctionStatus {\n  ACTIVE\n  ENDED\n  CANCELLED\n}\n\nenum DraftStatus {\n  DRAFT\n  FINALIZED\n  CONSUMED\n}\n\nenum IndexStatus {\n  PENDING\n  QUEUED\n  INDEXING\n  COMPLETED\n  ERROR\n}\n\nenum NftStatus {\n  PENDING\n  SUCCESS\n  ERROR\n}\n\nenum SubmissionStatus {\n  PENDING\n  APPROVED\n  REJECTED\n}\n\nenum GatewayPref {\n  PUBLIC\n  PINATA\n}\n\nenum FeaturedCycleStatus {\n  UPCOMING\n  ACTIVE\n  FINALIZED\n}\n\nenum MultisigTxStatus {\n  SUBMITTED\n  APPROVED\n  EXECUTED\n  FAILED\n  CANCELLED\n  EXPIRED\n}\n\nenum StolenStatus {\n  FLAGGED\n  CLEARED\n}\n\nenum StolenSource {\n  USER\n  ADMIN\n  PARTNER\n  LAW_ENFORCEMENT\n  MARKETPLACE\n}\n\nenum CurrencyKind {\n  NATIVE\n  ERC20\n}\n\n/// NEW enums for pending actions\nenum PendingChainActionType {\n  NFT_AUCTION_CREATE\n  NFT_AUCTION_BID\n  NFT_AUCTION_CANCEL\n  NFT_AUCTION_FINALIZE\n}\n\nenum PendingStatus {\n  PENDING\n  CONFIRMED\n  FAILED\n  EXPIRED\n}\n"
+  "inlineSchema": "generator client {\n  provider        = \"prisma-client-js\"\n  output          = \"../src/lib/generated/prisma\"\n  previewFeatures = [\"postgresqlExtensions\"]\n  binaryTargets   = [\"native\", \"rhel-openssl-3.0.x\", \"debian-openssl-3.0.x\"]\n}\n\ndatasource db {\n  provider   = \"postgresql\"\n  extensions = [citext]\n}\n\nmodel ChainState {\n  id              String @id @default(cuid())\n  userAddress     String @db.Citext\n  contract        String @db.Citext\n  lastBlockNumber Int    @default(0)\n\n  @@unique([userAddress, contract], name: \"contract_userAddress\")\n}\n\n/// Undo log of the marketplace indexer: one row per row an event wrote, holding that row as\n/// it was before the write. A reorg puts back every write from the first orphaned block on,\n/// newest first (see src/lib/server/indexer/marketplaceIndexer.ts).\nmodel MarketplaceIndexerWrite {\n  id          String   @id @default(cuid())\n  blockNumber Int\n  txHash      String\n  logIndex    Int\n  /// Order of the write within its event.\n  step        Int\n  /// Prisma model of the row written (MarketplaceListing, Auction, NFT, ...).\n  model       String\n  rowId       String\n  /// Null when the write created the row.\n  before      Json?\n  createdAt   DateTime @default(now())\n\n  @@index([blockNumber, logIndex])\n  @@index([txHash, logIndex])\n}\n\nmodel User {\n  id                 String                 @id @default(cuid())\n  walletAddress      String                 @unique @db.Citext\n  username           String\n  bio                String?\n  profileBanner      String?\n  profileAvatar      String\n  x                  String?\n  instagram          String?\n  website            String?\n  telegram           String?\n  createdAt          DateTime               @default(now())\n  updatedAt          DateTime               @updatedAt\n  collections        Collection[]\n  submissions        CollectionSubmission[]\n  featuredBids       FeaturedBid[]\n  holderRewardsMulti HolderRewardMulti[]\n  ownedNFTs          NFT[]                  @relation(\"ownedNFTs\")\n  rewardClaimLogs    RewardClaimLog[]\n  stolenReports      StolenItem[]           @relation(\"StolenReporter\")\n}\n\nmodel Collection {\n  id                 String                    @id @default(cuid())\n  name               String\n  symbol             String\n  contract           String                    @unique @db.Citext\n  description        String?\n  logoUrl            String?\n  coverUrl           String?\n  standard           String                    @default(\"ERC721\")\n  supply             Int?\n  baseUri            String?\n  gatewayPref        GatewayPref               @default(PUBLIC)\n  indexStatus        IndexStatus               @default(PENDING)\n  x                  String?\n  instagram          String?\n  website            String?\n  discord            String?\n  telegram           String?\n  floorPrice         Float                     @default(0)\n  volume             Float                     @default(0)\n  itemsCount         Int                       @default(0)\n  ownersCount        Int                       @default(0)\n  change24h          Float                     @default(0)\n  creatorId          String\n  ownerAddress       String                    @db.Citext\n  isOrphan           Boolean                   @default(false)\n  rarityMethod       RarityMethod              @default(INFORMATION_CONTENT)\n  rarityStale        Boolean                   @default(true)\n  rarityComputedAt   DateTime?\n  statsStale         Boolean                   @default(true)\n  statsComputedAt    DateTime?\n  createdAt          DateTime                  @default(now())\n  updatedAt          DateTime                  @updatedAt\n  assetUploads       AssetUpload[]\n  creator            User                      @relation(fields: [creatorId], references: [id])\n  deployment         DeployedContract?\n  featuredBidEntries FeaturedBid[]             @relation(\"FeaturedBidCollection\")\n  featuredAsWinner   FeaturedCycle[]           @relation(\"FeaturedWinnerCollection\")\n  nfts               NFT[]\n  presale            Presale?\n  publicSale         PublicSale?\n  saleBuckets        CollectionSaleBucket[]\n  statsSnapshots     CollectionStatsSnapshot[]\n\n  @@index([creatorId])\n  @@index([ownerAddress])\n  @@index([indexStatus])\n}\n\nmodel NFT {\n  id               String               @id @default(cuid())\n  tokenId          String\n  name             String?\n  imageUrl         String?\n  description      String?\n  traits           Json?\n  attributes       Json?\n  tokenUri         String?\n  contract         String               @db.Citext\n  standard         String?\n  rawMetadata      Json?\n  royaltyBps       Int?\n  royaltyRecipient String?              @db.Citext\n  ownerId          String?\n  collectionId     String?\n  single721Id      String?\n  single1155Id     String?\n  status           NftStatus            @default(PENDING)\n  retryCount       Int                  @default(0)\n  createdAt        DateTime             @default(now())\n  updatedAt        DateTime             @updatedAt\n  rarityScore      Decimal?             @db.Decimal(38, 18)\n  auctionEntries   Auction[]\n  listingEntries   MarketplaceListing[]\n  dutchSchedules   DutchSchedule[]\n  sales            MarketplaceSale[]\n  collection       Collection?          @relation(fields: [collectionId], references: [id])\n  owner            User?                @relation(\"ownedNFTs\", fields: [ownerId], references: [id])\n  single1155       Single1155?          @relation(fields: [single1155Id], references: [id])\n  single721        Single721?           @relation(fields: [single721Id], references: [id])\n  activities       NFTActivity[]\n\n  @@unique([contract, tokenId])\n  @@unique([tokenId, contract, collectionId])\n  @@index([contract])\n  @@index([ownerId])\n}\n\nmodel TraitStat {\n  id         String   @id @default(cuid())\n  contract   String   @db.Citext\n  trait_type String\n  value      Json\n  count      Int\n  frequency  Float\n  createdAt  DateTime @default(now())\n\n  @@unique([contract, trait_type, value])\n  @@index([contract])\n}\n\nmodel NFTActivity {\n  id          String   @id @default(cuid())\n  nftId       String\n  contract    String   @db.Citext\n  tokenId     String\n  type        String\n  fromAddress String   @db.Citext\n  toAddress   String   @db.Citext\n  priceEtnWei Decimal? @db.Decimal(65, 0)\n  txHash      String\n  logIndex    Int      @default(0)\n  blockNumber Int\n  timestamp   DateTime\n  marketplace String?\n  rawData     Json?\n  createdAt   DateTime @default(now())\n  nft         NFT      @relation(fields: [nftId], references: [id])\n\n  @@unique([txHash, logIndex])\n  @@index([contract])\n  @@index([tokenId])\n  @@index([timestamp])\n  @@index([contract, tokenId, blockNumber])\n}\n\nmodel Single721 {\n  id               String            @id @default(cuid())\n  name             String\n  symbol           String\n  contract         String            @unique @db.Citext\n  tokenUri         String\n  royaltyRecipient String            @db.Citext\n  royaltyBps       Int\n  creatorId        String\n  ownerAddress     String            @db.Citext\n  description      String?\n  imageUrl         String?\n  indexStatus      IndexStatus       @default(PENDING)\n  createdAt        DateTime          @default(now())\n  updatedAt        DateTime          @updatedAt\n  assetUploads     AssetUpload[]\n  deployment       DeployedContract?\n  nfts             NFT[]\n\n  @@index([indexStatus])\n}\n\nmodel Single1155 {\n  id               String            @id @default(cuid())\n  name             String\n  symbol           String\n  contract         String            @unique @db.Citext\n  baseUri          String\n  maxSupply        Int\n  mintPriceEtnWei  Decimal           @db.Decimal(65, 0)\n  maxPerWallet     Int\n  royaltyRecipient String            @db.Citext\n  royaltyBps       Int\n  creatorId        String\n  ownerAddress     String            @db.Citext\n  description      String?\n  imageUrl         String?\n  indexStatus      IndexStatus       @default(PENDING)\n  createdAt        DateTime          @default(now())\n  updatedAt        DateTime          @updatedAt\n  assetUploads     AssetUpload[]\n  deployment       DeployedContract?\n  balances         Erc1155Balance[]\n  nfts             NFT[]\n\n  @@index([indexStatus])\n}\n\nmodel Erc1155Balance {\n  id           String     @id @default(cuid())\n  single1155Id String\n  ownerAddress String     @db.Citext\n  balance      Int        @default(0)\n  updatedAt    DateTime   @default(now())\n  single1155   Single1155 @relation(fields: [single1155Id], references: [id])\n\n  @@unique([single1155Id, ownerAddress])\n  @@index([ownerAddress])\n  @@index([single1155Id])\n}\n\nmodel Erc1155Holding {\n  id           String   @id @default(cuid())\n  contract     String   @db.Citext\n  tokenId      String\n  ownerAddress String   @db.Citext\n  balance      Int      @default(0)\n  updatedAt    DateTime @default(now())\n\n  @@unique([contract, tokenId, ownerAddress])\n  @@index([ownerAddress])\n  @@index([contract, tokenId])\n  @@index([contract, ownerAddress])\n}\n\nmodel MarketplaceListing {\n  id               String         @id @default(cuid())\n  nftId            String\n  sellerAddress    String         @db.Citext\n  quantity         Int            @default(1)\n  priceEtnWei      Decimal        @db.Decimal(65, 0)\n  currencyId       String?\n  priceTokenAmount Decimal?       @db.Decimal(65, 0)\n  status           ListingStatus  @default(ACTIVE)\n  startTime        DateTime       @default(now())\n  endTime          DateTime?\n  txHashCreated    String?\n  txHashFilled     String?\n  txHashCancelled  String?\n  /// FIXED unless the listing starts in the future (SCHEDULED) or is one step of a DutchSchedule.\n  mode             ListingMode    @default(FIXED)\n  dutchScheduleId  String?\n  /// Index of the price step this listing was created for (0 = start price).\n  dutchStep        Int?\n  createdAt        DateTime       @default(now())\n  updatedAt        DateTime       @updatedAt\n  currency         Currency?      @relation(fields: [currencyId], references: [id])\n  dutchSchedule    DutchSchedule? @relation(fields: [dutchScheduleId], references: [id])\n  nft              NFT            @relation(fields: [nftId], references: [id])\n\n  @@index([sellerAddress])\n  @@index([status])\n  @@index([startTime])\n  @@index([nftId])\n  @@index([currencyId])\n  @@index([dutchScheduleId])\n  @@index([nftId, status], map: \"idx_listing_nft_status\")\n  @@index([sellerAddress, status], map: \"idx_listing_seller_status\")\n}\n\n/// Declining-price sale. The contract only knows fixed-price listings, so each price step\n/// is its own MarketplaceListing (dutchStep 0..stepCount-1): when a step is due the\n/// seller's listing is cancelled and relisted at the next price (see\n/// src/lib/server/dutch-listings.ts). Prices are base units of the schedule's currency.\nmodel DutchSchedule {\n  id            String               @id @default(cuid())\n  nftId         String\n  sellerAddress String               @db.Citext\n  quantity      Int                  @default(1)\n  currencyId    String?\n  startPrice    Decimal              @db.Decimal(65, 0)\n  endPrice      Decimal              @db.Decimal(65, 0)\n  stepSeconds   Int\n  stepCount     Int\n  startTime     DateTime\n  endTime       DateTime\n  /// Highest step that has been listed.\n  currentStep   Int                  @default(0)\n  /// Step whose listing was cancelled to relist it at this step's price; null once relisted.\n  /// While set, the schedule stays open so the relist can be retried.\n  relistStep    Int?\n  status        DutchScheduleStatus  @default(ACTIVE)\n  createdAt     DateTime             @default(now())\n  updatedAt     DateTime             @updatedAt\n  currency      Currency?            @relation(fields: [currencyId], references: [id])\n  nft           NFT                  @relation(fields: [nftId], references: [id])\n  listings      MarketplaceListing[]\n\n  @@index([status])\n  @@index([nftId])\n  @@index([sellerAddress, status])\n}\n\nmodel Auction {\n  id                      String        @id @default(cuid())\n  nftId                   String\n  sellerAddress           String        @db.Citext\n  quantity                Int           @default(1)\n  startPriceEtnWei        Decimal       @db.Decimal(65, 0)\n  highestBidEtnWei        Decimal?      @db.Decimal(65, 0)\n  minIncrementEtnWei      Decimal?      @db.Decimal(65, 0)\n  currencyId              String?\n  startPriceTokenAmount   Decimal?      @db.Decimal(65, 0)\n  highestBidTokenAmount   Decimal?      @db.Decimal(65, 0)\n  minIncrementTokenAmount Decimal?      @db.Decimal(65, 0)\n  startTime               DateTime      @default(now())\n  endTime                 DateTime\n  status                  AuctionStatus @default(ACTIVE)\n  txHashCreated           String?\n  txHashFinalized         String?\n  txHashCancelled         String?\n  createdAt               DateTime      @default(now())\n  updatedAt               DateTime      @updatedAt\n  highestBidder           String?       @db.Citext\n  currency                Currency?     @relation(fields: [currencyId], references: [id])\n  nft                     NFT           @relation(fields: [nftId], references: [id])\n  bids                    AuctionBid[]\n\n  @@index([sellerAddress])\n  @@index([status])\n  @@index([endTime])\n  @@index([nftId])\n  @@index([currencyId])\n  @@index([nftId, status], map: \"idx_auction_nft_status\")\n  @@index([sellerAddress, status], map: \"idx_auction_seller_status\")\n}\n\nmodel AuctionBid {\n  id            String    @id @default(cuid())\n  auctionId     String\n  bidderAddress String    @db.Citext\n  amountWei     Decimal   @db.Decimal(65, 0)\n  currencyId    String?\n  txHash        String\n  logIndex      Int       @default(0)\n  blockNumber   Int\n  timestamp     DateTime\n  createdAt     DateTime  @default(now())\n  auction       Auction   @relation(fields: [auctionId], references: [id], onDelete: Cascade)\n  currency      Currency? @relation(fields: [currencyId], references: [id])\n\n  @@unique([txHash, logIndex])\n  @@index([auctionId, timestamp])\n  @@index([bidderAddress])\n  @@index([blockNumber])\n}\n\nmodel DeployedContract {\n  id                 String         @id @default(cuid())\n  contractType       ContractType\n  cloneAddress       String         @unique @db.Citext\n  implementationAddr String         @db.Citext\n  factoryAddress     String         @db.Citext\n  deployerAddress    String         @db.Citext\n  txHash             String         @unique\n  blockNumber        Int\n  metadataOption     MetadataOption\n  feeRecipient       String         @db.Citext\n  feeAmountEtnWei    Decimal        @db.Decimal(65, 0)\n  royaltyRecipient   String\n  royaltyBps         Int\n  baseURI            String?\n  maxSupply          Int?\n  rawInit            Json?\n  createdAt          DateTime       @default(now())\n  collectionId       String?        @unique\n  single721Id        String?        @unique\n  single1155Id       String?        @unique\n  collection         Collection?    @relation(fields: [collectionId], references: [id])\n  single1155         Single1155?    @relation(fields: [single1155Id], references: [id])\n  single721          Single721?     @relation(fields: [single721Id], references: [id])\n\n  @@index([factoryAddress])\n  @@index([deployerAddress])\n}\n\nmodel FeeConfig {\n  id              String         @id @default(cuid())\n  contractType    ContractType\n  metadataOption  MetadataOption\n  feeRecipient    String         @db.Citext\n  feeAmountEtnWei Decimal        @db.Decimal(65, 0)\n  active          Boolean        @default(true)\n  createdAt       DateTime       @default(now())\n  updatedAt       DateTime       @updatedAt\n  updatedByUserId String?\n  targetUsdCents  Int?\n  pricingSource   String         @default(\"CRYPTOCOMPARE\")\n  pricingPair     String         @default(\"ETNUSD\")\n  lastPriceUsd    Decimal?       @db.Decimal(20, 10)\n  lastPriceAt     DateTime?\n  logs            FeeConfigLog[]\n\n  @@unique([contractType, metadataOption])\n  @@index([active])\n}\n\nmodel FeeConfigLog {\n  id                   String    @id @default(cuid())\n  feeConfigId          String\n  previousRecipient    String?   @db.Citext\n  newRecipient         String?   @db.Citext\n  previousAmountEtnWei Decimal?  @db.Decimal(65, 0)\n  newAmountEtnWei      Decimal?  @db.Decimal(65, 0)\n  changedByUserId      String?\n  reason               String?\n  createdAt            DateTime  @default(now())\n  feeConfig            FeeConfig @relation(fields: [feeConfigId], references: [id])\n\n  @@index([feeConfigId])\n  @@index([createdAt])\n}\n\nmodel PublicSale {\n  id           String     @id @default(cuid())\n  collectionId String     @unique\n  startTime    DateTime\n  priceEtnWei  Decimal    @db.Decimal(65, 0)\n  maxPerWallet Int\n  maxPerTx     Int\n  createdAt    DateTime   @default(now())\n  updatedAt    DateTime   @default(now())\n  collection   Collection @relation(fields: [collectionId], references: [id])\n}\n\nmodel Presale {\n  id              String                    @id @default(cuid())\n  collectionId    String                    @unique\n  startTime       DateTime\n  endTime         DateTime\n  priceEtnWei     Decimal                   @db.Decimal(65, 0)\n  maxSupply       Int\n  merkleRoot      String\n  whitelistCount  Int?\n  allowlistCommit String?\n  createdAt       DateTime                  @default(now())\n  updatedAt       DateTime                  @updatedAt\n  collection      Collection                @relation(fields: [collectionId], references: [id])\n  whitelist       PresaleWhitelistAddress[]\n}\n\nmodel PresaleWhitelistAddress {\n  id            String  @id @default(cuid())\n  presaleId     String\n  address       String  @db.Citext\n  maxAllocation Int?\n  presale       Presale @relation(fields: [presaleId], references: [id])\n\n  @@unique([presaleId, address])\n  @@index([address])\n  @@index([presaleId])\n}\n\nmodel PresaleDraft {\n  id                  String      @id @default(cuid())\n  creatorUserId       String\n  addresses           Json\n  count               Int\n  merkleRoot          String\n  sha256Commit        String      @unique\n  status              DraftStatus @default(DRAFT)\n  consumedAt          DateTime?\n  consumedByPresaleId String?\n  createdAt           DateTime    @default(now())\n  expiresAt           DateTime?\n\n  @@index([creatorUserId])\n  @@index([status, createdAt])\n}\n\nmodel AssetUpload {\n  id             String      @id @default(cuid())\n  uploaderUserId String?\n  collectionId   String?\n  single721Id    String?\n  single1155Id   String?\n  provider       String      @default(\"PINATA\")\n  cid            String\n  url            String?\n  bytes          Int?\n  sha256         String?\n  contentType    String?\n  originalName   String?\n  createdAt      DateTime    @default(now())\n  collection     Collection? @relation(fields: [collectionId], references: [id])\n  single1155     Single1155? @relation(fields: [single1155Id], references: [id])\n  single721      Single721?  @relation(fields: [single721Id], references: [id])\n\n  @@index([cid])\n  @@index([collectionId])\n  @@index([single721Id])\n  @@index([single1155Id])\n}\n\nmodel CollectionSubmission {\n  id                String           @id @default(cuid())\n  submittedByUserId String\n  contract          String           @unique @db.Citext\n  ownerAddress      String?          @db.Citext\n  name              String?\n  symbol            String?\n  logoUrl           String?\n  coverUrl          String?\n  baseUri           String?\n  supply            Int?\n  description       String?\n  website           String?\n  x                 String?\n  instagram         String?\n  telegram          String?\n  feeTxHash         String?          @unique\n  feePaidWei        Decimal?         @db.Decimal(65, 0)\n  feeVerifiedAt     DateTime?\n  ownershipVerified Boolean          @default(false)\n  status            SubmissionStatus @default(PENDING)\n  statusReason      String?\n  reviewedByUserId  String?\n  reviewedAt        DateTime?\n  createdAt         DateTime         @default(now())\n  updatedAt         DateTime         @updatedAt\n  submittedBy       User             @relation(fields: [submittedByUserId], references: [id])\n\n  @@index([status, createdAt])\n}\n\nmodel NFTRarity {\n  contract  String   @db.Citext\n  tokenId   String\n  score     Decimal  @db.Decimal(38, 18)\n  rank      Int\n  updatedAt DateTime @default(now())\n\n  @@id([contract, tokenId])\n  @@index([contract, rank])\n}\n\nmodel MetadataRefresh {\n  id          String    @id @default(cuid())\n  parentId    String?\n  contract    String    @db.Citext\n  tokenId     String?\n  requestedBy String    @db.Citext\n  total       Int       @default(1)\n  processed   Int       @default(0)\n  changed     Int       @default(0)\n  failed      Int       @default(0)\n  /// Collection jobs: last NFT id handled, so the next batch starts after it.\n  cursor      String?\n  diff        Json?\n  error       String?\n  createdAt   DateTime  @default(now())\n  finishedAt  DateTime?\n\n  @@index([contract, tokenId, createdAt])\n  @@index([requestedBy, createdAt])\n  @@index([finishedAt])\n}\n\nmodel HolderReward {\n  user_id            String   @id\n  wallet_address     String?  @unique @db.Citext\n  last_acc_per_token Decimal  @default(0) @db.Decimal(78, 27)\n  claimed_etn        Decimal  @default(0) @db.Decimal(78, 18)\n  updated_at         DateTime @default(now()) @db.Timestamptz(6)\n}\n\nmodel RewardAccumulator {\n  id            String   @id\n  acc_per_token Decimal  @default(0) @db.Decimal(78, 27)\n  updated_at    DateTime @default(now()) @db.Timestamptz(6)\n}\n\nmodel FeaturedCycle {\n  id                       String              @id @default(cuid())\n  cycleId                  String              @unique\n  startAt                  DateTime\n  endAt                    DateTime\n  status                   FeaturedCycleStatus @default(ACTIVE)\n  minBidWei                Decimal             @db.Decimal(65, 0)\n  winnerBidId              String?             @unique\n  winnerCollectionContract String?             @db.Citext\n  winnerAmountWei          Decimal?            @db.Decimal(65, 0)\n  finalizedAt              DateTime?\n  createdAt                DateTime            @default(now())\n  updatedAt                DateTime            @updatedAt\n  bids                     FeaturedBid[]       @relation(\"CycleBids\")\n  winnerBid                FeaturedBid?        @relation(\"WinnerBid\", fields: [winnerBidId], references: [id])\n  winnerCollection         Collection?         @relation(\"FeaturedWinnerCollection\", fields: [winnerCollectionContract], references: [contract])\n\n  @@index([startAt])\n  @@index([endAt])\n  @@index([status])\n}\n\nmodel FeaturedBid {\n  id                 String             @id @default(cuid())\n  cycleId            String\n  bidderAddress      String             @db.Citext\n  bidderUserId       String?\n  collectionContract String             @db.Citext\n  totalBidWei        Decimal            @db.Decimal(65, 0)\n  txCount            Int                @default(0)\n  lastTxHash         String?\n  createdAt          DateTime           @default(now())\n  updatedAt          DateTime           @updatedAt\n  bidder             User?              @relation(fields: [bidderUserId], references: [id])\n  collection         Collection         @relation(\"FeaturedBidCollection\", fields: [collectionContract], references: [contract])\n  cycle              FeaturedCycle      @relation(\"CycleBids\", fields: [cycleId], references: [id], onDelete: Cascade)\n  winnerOf           FeaturedCycle?     @relation(\"WinnerBid\")\n  events             FeaturedBidEvent[]\n\n  @@unique([cycleId, bidderAddress])\n  @@index([collectionContract])\n  @@index([totalBidWei])\n  @@index([cycleId, totalBidWei])\n}\n\n/// One BidPlaced / BidIncreased log behind a FeaturedBid; txCount is the number of these.\nmodel FeaturedBidEvent {\n  id          String      @id @default(cuid())\n  bidId       String\n  txHash      String\n  logIndex    Int         @default(0)\n  blockNumber Int\n  totalBidWei Decimal     @db.Decimal(65, 0)\n  createdAt   DateTime    @default(now())\n  bid         FeaturedBid @relation(fields: [bidId], references: [id], onDelete: Cascade)\n\n  @@unique([txHash, logIndex])\n  @@index([bidId])\n  @@index([blockNumber])\n}\n\nmodel Currency {\n  id                 String                  @id @default(cuid())\n  symbol             String\n  decimals           Int                     @default(18)\n  kind               CurrencyKind            @default(NATIVE)\n  tokenAddress       String?                 @unique @db.Citext\n  active             Boolean                 @default(true)\n  createdAt          DateTime                @default(now())\n  updatedAt          DateTime                @updatedAt\n  auctions           Auction[]\n  bids               AuctionBid[]\n  holderRewards      HolderRewardMulti[]\n  listings           MarketplaceListing[]\n  dutchSchedules     DutchSchedule[]\n  offers             MarketplaceOffer[]\n  sales              MarketplaceSale[]\n  rewardAccumulators RewardAccumulatorMulti?\n  claimLogs          RewardClaimLog[]\n  distributionLogs   RewardDistributionLog[]\n\n  @@unique([symbol, tokenAddress])\n}\n\nmodel MarketplaceSale {\n  id                      String    @id @default(cuid())\n  nftId                   String\n  buyerAddress            String    @db.Citext\n  sellerAddress           String    @db.Citext\n  quantity                Int       @default(1)\n  priceEtnWei             Decimal   @db.Decimal(65, 0)\n  royaltyPaidWei          Decimal?  @db.Decimal(65, 0)\n  marketplaceFeePaidWei   Decimal?  @db.Decimal(65, 0)\n  currencyId              String?\n  priceTokenAmount        Decimal?  @db.Decimal(65, 0)\n  royaltyPaidTokenAmount  Decimal?  @db.Decimal(65, 0)\n  feePaidTokenAmount      Decimal?  @db.Decimal(65, 0)\n  royaltyRecipient        String?   @db.Citext\n  marketplaceFeeRecipient String?   @db.Citext\n  txHash                  String\n  logIndex                Int       @default(0)\n  blockNumber             Int\n  timestamp               DateTime\n  createdAt               DateTime  @default(now())\n  currency                Currency? @relation(fields: [currencyId], references: [id])\n  nft                     NFT       @relation(fields: [nftId], references: [id])\n\n  @@unique([txHash, logIndex])\n  @@index([buyerAddress])\n  @@index([sellerAddress])\n  @@index([nftId])\n  @@index([timestamp])\n  @@index([currencyId, timestamp])\n}\n\nmodel CollectionSaleBucket {\n  id           String             @id @default(cuid())\n  collectionId String\n  currencyKey  String\n  interval     SaleBucketInterval\n  bucketStart  DateTime\n  volume       Decimal            @db.Decimal(65, 0)\n  salesCount   Int\n  floorPrice   Decimal            @db.Decimal(65, 0)\n  avgPrice     Decimal            @db.Decimal(65, 0)\n  medianPrice  Decimal            @db.Decimal(65, 0)\n  updatedAt    DateTime           @updatedAt\n  collection   Collection         @relation(fields: [collectionId], references: [id])\n\n  @@unique([collectionId, currencyKey, interval, bucketStart])\n  @@index([interval, bucketStart])\n}\n\n/// Materialized floor / volume per collection × currency (see src/lib/server/collection-stats.ts).\n/// Amounts are in the currency's base units; windowed volumes are relative to computedAt.\nmodel CollectionStatsSnapshot {\n  id            String     @id @default(cuid())\n  collectionId  String\n  currencyKey   String\n  floorPrice    Decimal?   @db.Decimal(65, 0)\n  listedCount   Int        @default(0)\n  volumeAllTime Decimal    @default(0) @db.Decimal(65, 0)\n  salesCount    Int        @default(0)\n  volume24h     Decimal    @default(0) @db.Decimal(65, 0)\n  volumePrev24h Decimal    @default(0) @db.Decimal(65, 0)\n  volume7d      Decimal    @default(0) @db.Decimal(65, 0)\n  volumePrev7d  Decimal    @default(0) @db.Decimal(65, 0)\n  volume30d     Decimal    @default(0) @db.Decimal(65, 0)\n  volumePrev30d Decimal    @default(0) @db.Decimal(65, 0)\n  computedAt    DateTime\n  collection    Collection @relation(fields: [collectionId], references: [id])\n\n  @@unique([collectionId, currencyKey])\n  @@index([currencyKey, volumeAllTime])\n  @@index([currencyKey, volume24h])\n}\n\n/// Signed off-chain offers (token / collection-wide / trait). ERC20 only: the bidder\n/// pre-approves the marketplace, the seller accepts by listing at the offer price.\nmodel MarketplaceOffer {\n  id            String      @id @default(cuid())\n  kind          OfferKind\n  contract      String      @db.Citext\n  tokenId       String?\n  traitType     String?\n  traitValue    String?\n  bidderAddress String      @db.Citext\n  currencyId    String\n  amount        Decimal     @db.Decimal(65, 0)\n  nonce         String      @unique\n  signature     String\n  expiresAt     DateTime\n  status        OfferStatus @default(ACTIVE)\n  invalidReason String?\n  listingId     String?\n  acceptedBy    String?     @db.Citext\n  acceptedNftId String?\n  txHashFilled  String?\n  checkedAt     DateTime?\n  createdAt     DateTime    @default(now())\n  updatedAt     DateTime    @updatedAt\n  currency      Currency    @relation(fields: [currencyId], references: [id])\n\n  @@index([contract, status])\n  @@index([contract, tokenId, status])\n  @@index([bidderAddress, status])\n  @@index([listingId])\n  @@index([status, expiresAt])\n}\n\nmodel RewardAccumulatorMulti {\n  id          String   @id @default(cuid())\n  currencyId  String   @unique\n  accPerToken Decimal  @default(0) @db.Decimal(78, 27)\n  updatedAt   DateTime @default(now()) @db.Timestamptz(6)\n  currency    Currency @relation(fields: [currencyId], references: [id])\n}\n\nmodel HolderRewardMulti {\n  id              String   @id @default(cuid())\n  userId          String?\n  walletAddress   String   @db.Citext\n  currencyId      String\n  lastAccPerToken Decimal  @default(0) @db.Decimal(78, 27)\n  accruedAmount   Decimal  @default(0) @db.Decimal(78, 18)\n  claimedAmount   Decimal  @default(0) @db.Decimal(78, 18)\n  updatedAt       DateTime @default(now()) @db.Timestamptz(6)\n  currency        Currency @relation(fields: [currencyId], references: [id])\n  user            User?    @relation(fields: [userId], references: [id])\n\n  @@unique([walletAddress, currencyId])\n  @@index([userId])\n}\n\nmodel RewardDistributionLog {\n  id          String    @id @default(cuid())\n  currencyId  String\n  amount      Decimal   @db.Decimal(78, 18)\n  txHash      String?\n  logIndex    Int?\n  blockNumber Int?\n  timestamp   DateTime  @default(now())\n  note        String?\n  appliedAt   DateTime?\n  currency    Currency  @relation(fields: [currencyId], references: [id])\n\n  @@unique([txHash, logIndex])\n  @@index([currencyId, timestamp])\n  @@index([appliedAt])\n}\n\nmodel RewardClaimLog {\n  id            String   @id @default(cuid())\n  walletAddress String   @db.Citext\n  userId        String?\n  currencyId    String\n  amount        Decimal  @db.Decimal(78, 18)\n  txHash        String?\n  logIndex      Int?\n  timestamp     DateTime @default(now())\n  currency      Currency @relation(fields: [currencyId], references: [id])\n  user          User?    @relation(fields: [userId], references: [id])\n\n  @@unique([txHash, logIndex])\n  @@index([walletAddress, currencyId, timestamp])\n}\n\nmodel StolenItem {\n  id              String       @id @default(cuid())\n  contract        String       @db.Citext\n  tokenId         String\n  status          StolenStatus @default(FLAGGED)\n  source          StolenSource @default(USER)\n  reporterAddress String?      @db.Citext\n  reporterUserId  String?\n  evidenceUrl     String?\n  notes           String?\n  disputed        Boolean      @default(false)\n  onChain         Boolean      @default(false)\n  /// A moderator accepted the report (registry flags count as accepted). Unconfirmed user\n  /// reports are only visible in the moderation queue.\n  confirmed       Boolean      @default(false)\n  createdAt       DateTime     @default(now())\n  updatedAt       DateTime     @updatedAt\n  reporter        User?        @relation(\"StolenReporter\", fields: [reporterUserId], references: [id])\n\n  @@unique([contract, tokenId])\n  @@index([status])\n  @@index([status, onChain])\n  @@index([contract, tokenId, status])\n}\n\nmodel StolenEvent {\n  id           String   @id @default(cuid())\n  contract     String   @db.Citext\n  tokenId      String\n  action       String\n  actorAddress String?  @db.Citext\n  txHash       String?\n  logIndex     Int?     @default(0)\n  blockNumber  Int?\n  timestamp    DateTime @default(now())\n  notes        String?\n  createdAt    DateTime @default(now())\n\n  @@index([contract, tokenId, timestamp])\n  @@index([txHash, logIndex])\n}\n\nmodel MultisigSafe {\n  id        String          @id @default(cuid())\n  contract  String          @unique @db.Citext\n  name      String?\n  threshold Int\n  createdAt DateTime        @default(now())\n  updatedAt DateTime        @updatedAt\n  owners    MultisigOwner[]\n  txs       MultisigTx[]\n\n  @@index([threshold])\n}\n\nmodel MultisigOwner {\n  id           String       @id @default(cuid())\n  safeId       String\n  ownerAddress String       @db.Citext\n  addedAt      DateTime     @default(now())\n  removedAt    DateTime?\n  safe         MultisigSafe @relation(fields: [safeId], references: [id])\n\n  @@unique([safeId, ownerAddress])\n  @@index([ownerAddress])\n}\n\nmodel MultisigTx {\n  id             String             @id @default(cuid())\n  safeId         String\n  nonce          Int\n  to             String             @db.Citext\n  tokenAddress   String?            @db.Citext\n  valueWei       Decimal            @default(0) @db.Decimal(65, 0)\n  dataHex        String?\n  operation      Int?\n  kind           String?\n  description    String?\n  submittedBy    String?            @db.Citext\n  submitTxHash   String?\n  sigDeadline    Int?\n  status         MultisigTxStatus   @default(SUBMITTED)\n  executedTxHash String?\n  createdAt      DateTime           @default(now())\n  executedAt     DateTime?\n  approvals      MultisigApproval[]\n  safe           MultisigSafe       @relation(fields: [safeId], references: [id])\n\n  @@unique([safeId, nonce])\n  @@index([status])\n  @@index([to])\n}\n\nmodel MultisigApproval {\n  id           String     @id @default(cuid())\n  txId         String\n  ownerAddress String     @db.Citext\n  signature    String?\n  onChain      Boolean    @default(false)\n  createdAt    DateTime   @default(now())\n  tx           MultisigTx @relation(fields: [txId], references: [id])\n\n  @@unique([txId, ownerAddress])\n  @@index([ownerAddress])\n}\n\nmodel PendingChainAction {\n  id        String                 @id @default(cuid())\n  type      PendingChainActionType\n  txHash    String                 @unique\n  from      String                 @db.Citext\n  chainId   Int\n  payload   Json\n  relatedId String?\n  status    PendingStatus          @default(PENDING)\n  createdAt DateTime               @default(now())\n  updatedAt DateTime               @updatedAt\n\n  @@index([status, createdAt])\n  @@index([type, createdAt])\n}\n\nenum ContractType {\n  ERC721_DROP\n  ERC721_SINGLE\n  ERC1155_SINGLE\n}\n\nenum MetadataOption {\n  UPLOAD\n  EXTERNAL\n}\n\nenum ListingStatus {\n  ACTIVE\n  SOLD\n  CANCELLED\n  EXPIRED\n}\n\nenum ListingMode {\n  FIXED\n  SCHEDULED\n  DUTCH\n}\n\nenum DutchScheduleStatus {\n  ACTIVE\n  SOLD\n  CANCELLED\n  ENDED\n}\n\nenum AuctionStatus {\n  ACTIVE\n  ENDED\n  CANCELLED\n}\n\nenum DraftStatus {\n  DRAFT\n  FINALIZED\n  CONSUMED\n}\n\nenum IndexStatus {\n  PENDING\n  QUEUED\n  INDEXING\n  COMPLETED\n  ERROR\n}\n\nenum NftStatus {\n  PENDING\n  SUCCESS\n  ERROR\n}\n\nenum SubmissionStatus {\n  PENDING\n  APPROVED\n  REJECTED\n}\n\nenum GatewayPref {\n  PUBLIC\n  PINATA\n}\n\nenum FeaturedCycleStatus {\n  UPCOMING\n  ACTIVE\n  FINALIZED\n}\n\nenum MultisigTxStatus {\n  SUBMITTED\n  APPROVED\n  EXECUTED\n  FAILED\n  CANCELLED\n  EXPIRED\n}\n\nenum StolenStatus {\n  FLAGGED\n  CLEARED\n}\n\nenum StolenSource {\n  USER\n  ADMIN\n  PARTNER\n  LAW_ENFORCEMENT\n  MARKETPLACE\n}\n\nenum RarityMethod {\n  STATISTICAL\n  INFORMATION_CONTENT\n  RARITY_SCORE\n}\n\nenum OfferKind {\n  TOKEN\n  COLLECTION\n  TRAIT\n}\n\nenum OfferStatus {\n  ACTIVE\n  ACCEPTED\n  FILLED\n  CANCELLED\n  EXPIRED\n  INVALID\n}\n\nenum CurrencyKind {\n  NATIVE\n  ERC20\n}\n\n/// NEW enums for pending actions\nenum PendingChainActionType {\n  NFT_AUCTION_CREATE\n  NFT_AUCTION_BID\n  NFT_AUCTION_CANCEL\n  NFT_AUCTION_FINALIZE\n}\n\nenum PendingStatus {\n  PENDING\n  CONFIRMED\n  FAILED\n  EXPIRED\n}\n\nenum SaleBucketInterval {\n  HOUR\n  DAY\n}\n"
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"ChainState\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastBlockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bio\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"profileBanner\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"profileAvatar\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"x\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"instagram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"website\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"telegram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collections\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToUser\"},{\"name\":\"submissions\",\"kind\":\"object\",\"type\":\"CollectionSubmission\",\"relationName\":\"CollectionSubmissionToUser\"},{\"name\":\"featuredBids\",\"kind\":\"object\",\"type\":\"FeaturedBid\",\"relationName\":\"FeaturedBidToUser\"},{\"name\":\"holderRewardsMulti\",\"kind\":\"object\",\"type\":\"HolderRewardMulti\",\"relationName\":\"HolderRewardMultiToUser\"},{\"name\":\"ownedNFTs\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"ownedNFTs\"},{\"name\":\"rewardClaimLogs\",\"kind\":\"object\",\"type\":\"RewardClaimLog\",\"relationName\":\"RewardClaimLogToUser\"},{\"name\":\"stolenReports\",\"kind\":\"object\",\"type\":\"StolenItem\",\"relationName\":\"StolenReporter\"}],\"dbName\":null},\"Collection\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coverUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"standard\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"supply\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"baseUri\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"gatewayPref\",\"kind\":\"enum\",\"type\":\"GatewayPref\"},{\"name\":\"indexStatus\",\"kind\":\"enum\",\"type\":\"IndexStatus\"},{\"name\":\"x\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"instagram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"website\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discord\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"telegram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"floorPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"volume\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"itemsCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ownersCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"change24h\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"creatorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isOrphan\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"assetUploads\",\"kind\":\"object\",\"type\":\"AssetUpload\",\"relationName\":\"AssetUploadToCollection\"},{\"name\":\"creator\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CollectionToUser\"},{\"name\":\"deployment\",\"kind\":\"object\",\"type\":\"DeployedContract\",\"relationName\":\"CollectionToDeployedContract\"},{\"name\":\"featuredBidEntries\",\"kind\":\"object\",\"type\":\"FeaturedBid\",\"relationName\":\"FeaturedBidCollection\"},{\"name\":\"featuredAsWinner\",\"kind\":\"object\",\"type\":\"FeaturedCycle\",\"relationName\":\"FeaturedWinnerCollection\"},{\"name\":\"nfts\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"CollectionToNFT\"},{\"name\":\"presale\",\"kind\":\"object\",\"type\":\"Presale\",\"relationName\":\"CollectionToPresale\"},{\"name\":\"publicSale\",\"kind\":\"object\",\"type\":\"PublicSale\",\"relationName\":\"CollectionToPublicSale\"}],\"dbName\":null},\"NFT\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"traits\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"attributes\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"tokenUri\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"standard\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawMetadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"royaltyBps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"royaltyRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single721Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single1155Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"NftStatus\"},{\"name\":\"retryCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"rarityScore\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"auctionEntries\",\"kind\":\"object\",\"type\":\"Auction\",\"relationName\":\"AuctionToNFT\"},{\"name\":\"listingEntries\",\"kind\":\"object\",\"type\":\"MarketplaceListing\",\"relationName\":\"MarketplaceListingToNFT\"},{\"name\":\"sales\",\"kind\":\"object\",\"type\":\"MarketplaceSale\",\"relationName\":\"MarketplaceSaleToNFT\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToNFT\"},{\"name\":\"owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ownedNFTs\"},{\"name\":\"single1155\",\"kind\":\"object\",\"type\":\"Single1155\",\"relationName\":\"NFTToSingle1155\"},{\"name\":\"single721\",\"kind\":\"object\",\"type\":\"Single721\",\"relationName\":\"NFTToSingle721\"},{\"name\":\"activities\",\"kind\":\"object\",\"type\":\"NFTActivity\",\"relationName\":\"NFTToNFTActivity\"}],\"dbName\":null},\"TraitStat\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trait_type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"count\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"frequency\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"NFTActivity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nftId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fromAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"priceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"marketplace\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"nft\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"NFTToNFTActivity\"}],\"dbName\":null},\"Single721\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenUri\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"royaltyRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"royaltyBps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"creatorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"indexStatus\",\"kind\":\"enum\",\"type\":\"IndexStatus\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"assetUploads\",\"kind\":\"object\",\"type\":\"AssetUpload\",\"relationName\":\"AssetUploadToSingle721\"},{\"name\":\"deployment\",\"kind\":\"object\",\"type\":\"DeployedContract\",\"relationName\":\"DeployedContractToSingle721\"},{\"name\":\"nfts\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"NFTToSingle721\"}],\"dbName\":null},\"Single1155\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"baseUri\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxSupply\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"mintPriceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"maxPerWallet\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"royaltyRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"royaltyBps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"creatorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"indexStatus\",\"kind\":\"enum\",\"type\":\"IndexStatus\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"assetUploads\",\"kind\":\"object\",\"type\":\"AssetUpload\",\"relationName\":\"AssetUploadToSingle1155\"},{\"name\":\"deployment\",\"kind\":\"object\",\"type\":\"DeployedContract\",\"relationName\":\"DeployedContractToSingle1155\"},{\"name\":\"balances\",\"kind\":\"object\",\"type\":\"Erc1155Balance\",\"relationName\":\"Erc1155BalanceToSingle1155\"},{\"name\":\"nfts\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"NFTToSingle1155\"}],\"dbName\":null},\"Erc1155Balance\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single1155Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"balance\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"single1155\",\"kind\":\"object\",\"type\":\"Single1155\",\"relationName\":\"Erc1155BalanceToSingle1155\"}],\"dbName\":null},\"Erc1155Holding\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"balance\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"MarketplaceListing\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nftId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"priceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"priceTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ListingStatus\"},{\"name\":\"startTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"txHashCreated\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHashFilled\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHashCancelled\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToMarketplaceListing\"},{\"name\":\"nft\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"MarketplaceListingToNFT\"}],\"dbName\":null},\"Auction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nftId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"startPriceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"highestBidEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"minIncrementEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startPriceTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"highestBidTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"minIncrementTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"startTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"AuctionStatus\"},{\"name\":\"txHashCreated\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHashFinalized\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHashCancelled\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"highestBidder\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"AuctionToCurrency\"},{\"name\":\"nft\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"AuctionToNFT\"},{\"name\":\"bids\",\"kind\":\"object\",\"type\":\"AuctionBid\",\"relationName\":\"AuctionToAuctionBid\"}],\"dbName\":null},\"AuctionBid\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"auctionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bidderAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amountWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"auction\",\"kind\":\"object\",\"type\":\"Auction\",\"relationName\":\"AuctionToAuctionBid\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"AuctionBidToCurrency\"}],\"dbName\":null},\"DeployedContract\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contractType\",\"kind\":\"enum\",\"type\":\"ContractType\"},{\"name\":\"cloneAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"implementationAddr\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"factoryAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deployerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"metadataOption\",\"kind\":\"enum\",\"type\":\"MetadataOption\"},{\"name\":\"feeRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feeAmountEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"royaltyRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"royaltyBps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"baseURI\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxSupply\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"rawInit\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single721Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single1155Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToDeployedContract\"},{\"name\":\"single1155\",\"kind\":\"object\",\"type\":\"Single1155\",\"relationName\":\"DeployedContractToSingle1155\"},{\"name\":\"single721\",\"kind\":\"object\",\"type\":\"Single721\",\"relationName\":\"DeployedContractToSingle721\"}],\"dbName\":null},\"FeeConfig\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contractType\",\"kind\":\"enum\",\"type\":\"ContractType\"},{\"name\":\"metadataOption\",\"kind\":\"enum\",\"type\":\"MetadataOption\"},{\"name\":\"feeRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feeAmountEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedByUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"targetUsdCents\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"pricingSource\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pricingPair\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastPriceUsd\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"lastPriceAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"logs\",\"kind\":\"object\",\"type\":\"FeeConfigLog\",\"relationName\":\"FeeConfigToFeeConfigLog\"}],\"dbName\":null},\"FeeConfigLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feeConfigId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"previousRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"newRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"previousAmountEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"newAmountEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"changedByUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"feeConfig\",\"kind\":\"object\",\"type\":\"FeeConfig\",\"relationName\":\"FeeConfigToFeeConfigLog\"}],\"dbName\":null},\"PublicSale\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"priceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"maxPerWallet\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"maxPerTx\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToPublicSale\"}],\"dbName\":null},\"Presale\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"priceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"maxSupply\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"merkleRoot\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"whitelistCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"allowlistCommit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToPresale\"},{\"name\":\"whitelist\",\"kind\":\"object\",\"type\":\"PresaleWhitelistAddress\",\"relationName\":\"PresaleToPresaleWhitelistAddress\"}],\"dbName\":null},\"PresaleWhitelistAddress\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"presaleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxAllocation\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"presale\",\"kind\":\"object\",\"type\":\"Presale\",\"relationName\":\"PresaleToPresaleWhitelistAddress\"}],\"dbName\":null},\"PresaleDraft\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"creatorUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addresses\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"count\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"merkleRoot\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sha256Commit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"DraftStatus\"},{\"name\":\"consumedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"consumedByPresaleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AssetUpload\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"uploaderUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single721Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single1155Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cid\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bytes\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"sha256\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"originalName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"AssetUploadToCollection\"},{\"name\":\"single1155\",\"kind\":\"object\",\"type\":\"Single1155\",\"relationName\":\"AssetUploadToSingle1155\"},{\"name\":\"single721\",\"kind\":\"object\",\"type\":\"Single721\",\"relationName\":\"AssetUploadToSingle721\"}],\"dbName\":null},\"CollectionSubmission\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submittedByUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coverUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"baseUri\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"supply\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"website\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"x\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"instagram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"telegram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feeTxHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feePaidWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"feeVerifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ownershipVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"SubmissionStatus\"},{\"name\":\"statusReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedByUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"submittedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CollectionSubmissionToUser\"}],\"dbName\":null},\"NFTRarity\":{\"fields\":[{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"score\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"rank\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"HolderReward\":{\"fields\":[{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"wallet_address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"last_acc_per_token\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"claimed_etn\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"RewardAccumulator\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"acc_per_token\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"FeaturedCycle\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cycleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"FeaturedCycleStatus\"},{\"name\":\"minBidWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"winnerBidId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"winnerCollectionContract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"winnerAmountWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"finalizedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"bids\",\"kind\":\"object\",\"type\":\"FeaturedBid\",\"relationName\":\"CycleBids\"},{\"name\":\"winnerBid\",\"kind\":\"object\",\"type\":\"FeaturedBid\",\"relationName\":\"WinnerBid\"},{\"name\":\"winnerCollection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"FeaturedWinnerCollection\"}],\"dbName\":null},\"FeaturedBid\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cycleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bidderAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bidderUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionContract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalBidWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"txCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastTxHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"bidder\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"FeaturedBidToUser\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"FeaturedBidCollection\"},{\"name\":\"cycle\",\"kind\":\"object\",\"type\":\"FeaturedCycle\",\"relationName\":\"CycleBids\"},{\"name\":\"winnerOf\",\"kind\":\"object\",\"type\":\"FeaturedCycle\",\"relationName\":\"WinnerBid\"}],\"dbName\":null},\"Currency\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"decimals\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"kind\",\"kind\":\"enum\",\"type\":\"CurrencyKind\"},{\"name\":\"tokenAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"auctions\",\"kind\":\"object\",\"type\":\"Auction\",\"relationName\":\"AuctionToCurrency\"},{\"name\":\"bids\",\"kind\":\"object\",\"type\":\"AuctionBid\",\"relationName\":\"AuctionBidToCurrency\"},{\"name\":\"holderRewards\",\"kind\":\"object\",\"type\":\"HolderRewardMulti\",\"relationName\":\"CurrencyToHolderRewardMulti\"},{\"name\":\"listings\",\"kind\":\"object\",\"type\":\"MarketplaceListing\",\"relationName\":\"CurrencyToMarketplaceListing\"},{\"name\":\"sales\",\"kind\":\"object\",\"type\":\"MarketplaceSale\",\"relationName\":\"CurrencyToMarketplaceSale\"},{\"name\":\"rewardAccumulators\",\"kind\":\"object\",\"type\":\"RewardAccumulatorMulti\",\"relationName\":\"CurrencyToRewardAccumulatorMulti\"},{\"name\":\"claimLogs\",\"kind\":\"object\",\"type\":\"RewardClaimLog\",\"relationName\":\"CurrencyToRewardClaimLog\"},{\"name\":\"distributionLogs\",\"kind\":\"object\",\"type\":\"RewardDistributionLog\",\"relationName\":\"CurrencyToRewardDistributionLog\"}],\"dbName\":null},\"MarketplaceSale\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nftId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"buyerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"priceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"royaltyPaidWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"marketplaceFeePaidWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"priceTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"royaltyPaidTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"feePaidTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"royaltyRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"marketplaceFeeRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToMarketplaceSale\"},{\"name\":\"nft\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"MarketplaceSaleToNFT\"}],\"dbName\":null},\"RewardAccumulatorMulti\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accPerToken\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToRewardAccumulatorMulti\"}],\"dbName\":null},\"HolderRewardMulti\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastAccPerToken\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"claimedAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToHolderRewardMulti\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"HolderRewardMultiToUser\"}],\"dbName\":null},\"RewardDistributionLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToRewardDistributionLog\"}],\"dbName\":null},\"RewardClaimLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToRewardClaimLog\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RewardClaimLogToUser\"}],\"dbName\":null},\"StolenItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"StolenStatus\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"StolenSource\"},{\"name\":\"reporterAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reporterUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"evidenceUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"disputed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reporter\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"StolenReporter\"}],\"dbName\":null},\"StolenEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actorAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"MultisigSafe\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"threshold\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"owners\",\"kind\":\"object\",\"type\":\"MultisigOwner\",\"relationName\":\"MultisigOwnerToMultisigSafe\"},{\"name\":\"txs\",\"kind\":\"object\",\"type\":\"MultisigTx\",\"relationName\":\"MultisigSafeToMultisigTx\"}],\"dbName\":null},\"MultisigOwner\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"safeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"removedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"safe\",\"kind\":\"object\",\"type\":\"MultisigSafe\",\"relationName\":\"MultisigOwnerToMultisigSafe\"}],\"dbName\":null},\"MultisigTx\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"safeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nonce\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"to\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"valueWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"dataHex\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operation\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"submittedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"MultisigTxStatus\"},{\"name\":\"executedTxHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"executedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"approvals\",\"kind\":\"object\",\"type\":\"MultisigApproval\",\"relationName\":\"MultisigApprovalToMultisigTx\"},{\"name\":\"safe\",\"kind\":\"object\",\"type\":\"MultisigSafe\",\"relationName\":\"MultisigSafeToMultisigTx\"}],\"dbName\":null},\"MultisigApproval\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"signature\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tx\",\"kind\":\"object\",\"type\":\"MultisigTx\",\"relationName\":\"MultisigApprovalToMultisigTx\"}],\"dbName\":null},\"PendingChainAction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"PendingChainActionType\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"from\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"chainId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"relatedId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PendingStatus\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"ChainState\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastBlockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":null},\"MarketplaceIndexerWrite\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"step\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rowId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"before\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bio\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"profileBanner\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"profileAvatar\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"x\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"instagram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"website\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"telegram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collections\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToUser\"},{\"name\":\"submissions\",\"kind\":\"object\",\"type\":\"CollectionSubmission\",\"relationName\":\"CollectionSubmissionToUser\"},{\"name\":\"featuredBids\",\"kind\":\"object\",\"type\":\"FeaturedBid\",\"relationName\":\"FeaturedBidToUser\"},{\"name\":\"holderRewardsMulti\",\"kind\":\"object\",\"type\":\"HolderRewardMulti\",\"relationName\":\"HolderRewardMultiToUser\"},{\"name\":\"ownedNFTs\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"ownedNFTs\"},{\"name\":\"rewardClaimLogs\",\"kind\":\"object\",\"type\":\"RewardClaimLog\",\"relationName\":\"RewardClaimLogToUser\"},{\"name\":\"stolenReports\",\"kind\":\"object\",\"type\":\"StolenItem\",\"relationName\":\"StolenReporter\"}],\"dbName\":null},\"Collection\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coverUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"standard\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"supply\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"baseUri\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"gatewayPref\",\"kind\":\"enum\",\"type\":\"GatewayPref\"},{\"name\":\"indexStatus\",\"kind\":\"enum\",\"type\":\"IndexStatus\"},{\"name\":\"x\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"instagram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"website\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discord\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"telegram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"floorPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"volume\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"itemsCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ownersCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"change24h\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"creatorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isOrphan\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"rarityMethod\",\"kind\":\"enum\",\"type\":\"RarityMethod\"},{\"name\":\"rarityStale\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"rarityComputedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"statsStale\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"statsComputedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"assetUploads\",\"kind\":\"object\",\"type\":\"AssetUpload\",\"relationName\":\"AssetUploadToCollection\"},{\"name\":\"creator\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CollectionToUser\"},{\"name\":\"deployment\",\"kind\":\"object\",\"type\":\"DeployedContract\",\"relationName\":\"CollectionToDeployedContract\"},{\"name\":\"featuredBidEntries\",\"kind\":\"object\",\"type\":\"FeaturedBid\",\"relationName\":\"FeaturedBidCollection\"},{\"name\":\"featuredAsWinner\",\"kind\":\"object\",\"type\":\"FeaturedCycle\",\"relationName\":\"FeaturedWinnerCollection\"},{\"name\":\"nfts\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"CollectionToNFT\"},{\"name\":\"presale\",\"kind\":\"object\",\"type\":\"Presale\",\"relationName\":\"CollectionToPresale\"},{\"name\":\"publicSale\",\"kind\":\"object\",\"type\":\"PublicSale\",\"relationName\":\"CollectionToPublicSale\"},{\"name\":\"saleBuckets\",\"kind\":\"object\",\"type\":\"CollectionSaleBucket\",\"relationName\":\"CollectionToCollectionSaleBucket\"},{\"name\":\"statsSnapshots\",\"kind\":\"object\",\"type\":\"CollectionStatsSnapshot\",\"relationName\":\"CollectionToCollectionStatsSnapshot\"}],\"dbName\":null},\"NFT\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"traits\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"attributes\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"tokenUri\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"standard\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawMetadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"royaltyBps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"royaltyRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single721Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single1155Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"NftStatus\"},{\"name\":\"retryCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"rarityScore\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"auctionEntries\",\"kind\":\"object\",\"type\":\"Auction\",\"relationName\":\"AuctionToNFT\"},{\"name\":\"listingEntries\",\"kind\":\"object\",\"type\":\"MarketplaceListing\",\"relationName\":\"MarketplaceListingToNFT\"},{\"name\":\"dutchSchedules\",\"kind\":\"object\",\"type\":\"DutchSchedule\",\"relationName\":\"DutchScheduleToNFT\"},{\"name\":\"sales\",\"kind\":\"object\",\"type\":\"MarketplaceSale\",\"relationName\":\"MarketplaceSaleToNFT\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToNFT\"},{\"name\":\"owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ownedNFTs\"},{\"name\":\"single1155\",\"kind\":\"object\",\"type\":\"Single1155\",\"relationName\":\"NFTToSingle1155\"},{\"name\":\"single721\",\"kind\":\"object\",\"type\":\"Single721\",\"relationName\":\"NFTToSingle721\"},{\"name\":\"activities\",\"kind\":\"object\",\"type\":\"NFTActivity\",\"relationName\":\"NFTToNFTActivity\"}],\"dbName\":null},\"TraitStat\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trait_type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"count\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"frequency\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"NFTActivity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nftId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fromAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"priceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"marketplace\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"nft\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"NFTToNFTActivity\"}],\"dbName\":null},\"Single721\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenUri\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"royaltyRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"royaltyBps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"creatorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"indexStatus\",\"kind\":\"enum\",\"type\":\"IndexStatus\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"assetUploads\",\"kind\":\"object\",\"type\":\"AssetUpload\",\"relationName\":\"AssetUploadToSingle721\"},{\"name\":\"deployment\",\"kind\":\"object\",\"type\":\"DeployedContract\",\"relationName\":\"DeployedContractToSingle721\"},{\"name\":\"nfts\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"NFTToSingle721\"}],\"dbName\":null},\"Single1155\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"baseUri\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxSupply\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"mintPriceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"maxPerWallet\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"royaltyRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"royaltyBps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"creatorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"indexStatus\",\"kind\":\"enum\",\"type\":\"IndexStatus\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"assetUploads\",\"kind\":\"object\",\"type\":\"AssetUpload\",\"relationName\":\"AssetUploadToSingle1155\"},{\"name\":\"deployment\",\"kind\":\"object\",\"type\":\"DeployedContract\",\"relationName\":\"DeployedContractToSingle1155\"},{\"name\":\"balances\",\"kind\":\"object\",\"type\":\"Erc1155Balance\",\"relationName\":\"Erc1155BalanceToSingle1155\"},{\"name\":\"nfts\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"NFTToSingle1155\"}],\"dbName\":null},\"Erc1155Balance\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single1155Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"balance\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"single1155\",\"kind\":\"object\",\"type\":\"Single1155\",\"relationName\":\"Erc1155BalanceToSingle1155\"}],\"dbName\":null},\"Erc1155Holding\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"balance\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"MarketplaceListing\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nftId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"priceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"priceTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ListingStatus\"},{\"name\":\"startTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"txHashCreated\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHashFilled\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHashCancelled\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mode\",\"kind\":\"enum\",\"type\":\"ListingMode\"},{\"name\":\"dutchScheduleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dutchStep\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToMarketplaceListing\"},{\"name\":\"dutchSchedule\",\"kind\":\"object\",\"type\":\"DutchSchedule\",\"relationName\":\"DutchScheduleToMarketplaceListing\"},{\"name\":\"nft\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"MarketplaceListingToNFT\"}],\"dbName\":null},\"DutchSchedule\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nftId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startPrice\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"endPrice\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"stepSeconds\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"stepCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"startTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currentStep\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"relistStep\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"DutchScheduleStatus\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToDutchSchedule\"},{\"name\":\"nft\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"DutchScheduleToNFT\"},{\"name\":\"listings\",\"kind\":\"object\",\"type\":\"MarketplaceListing\",\"relationName\":\"DutchScheduleToMarketplaceListing\"}],\"dbName\":null},\"Auction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nftId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"startPriceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"highestBidEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"minIncrementEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startPriceTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"highestBidTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"minIncrementTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"startTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"AuctionStatus\"},{\"name\":\"txHashCreated\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHashFinalized\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHashCancelled\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"highestBidder\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"AuctionToCurrency\"},{\"name\":\"nft\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"AuctionToNFT\"},{\"name\":\"bids\",\"kind\":\"object\",\"type\":\"AuctionBid\",\"relationName\":\"AuctionToAuctionBid\"}],\"dbName\":null},\"AuctionBid\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"auctionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bidderAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amountWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"auction\",\"kind\":\"object\",\"type\":\"Auction\",\"relationName\":\"AuctionToAuctionBid\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"AuctionBidToCurrency\"}],\"dbName\":null},\"DeployedContract\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contractType\",\"kind\":\"enum\",\"type\":\"ContractType\"},{\"name\":\"cloneAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"implementationAddr\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"factoryAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deployerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"metadataOption\",\"kind\":\"enum\",\"type\":\"MetadataOption\"},{\"name\":\"feeRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feeAmountEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"royaltyRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"royaltyBps\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"baseURI\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxSupply\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"rawInit\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single721Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single1155Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToDeployedContract\"},{\"name\":\"single1155\",\"kind\":\"object\",\"type\":\"Single1155\",\"relationName\":\"DeployedContractToSingle1155\"},{\"name\":\"single721\",\"kind\":\"object\",\"type\":\"Single721\",\"relationName\":\"DeployedContractToSingle721\"}],\"dbName\":null},\"FeeConfig\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contractType\",\"kind\":\"enum\",\"type\":\"ContractType\"},{\"name\":\"metadataOption\",\"kind\":\"enum\",\"type\":\"MetadataOption\"},{\"name\":\"feeRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feeAmountEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedByUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"targetUsdCents\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"pricingSource\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pricingPair\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastPriceUsd\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"lastPriceAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"logs\",\"kind\":\"object\",\"type\":\"FeeConfigLog\",\"relationName\":\"FeeConfigToFeeConfigLog\"}],\"dbName\":null},\"FeeConfigLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feeConfigId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"previousRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"newRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"previousAmountEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"newAmountEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"changedByUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"feeConfig\",\"kind\":\"object\",\"type\":\"FeeConfig\",\"relationName\":\"FeeConfigToFeeConfigLog\"}],\"dbName\":null},\"PublicSale\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"priceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"maxPerWallet\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"maxPerTx\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToPublicSale\"}],\"dbName\":null},\"Presale\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"priceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"maxSupply\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"merkleRoot\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"whitelistCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"allowlistCommit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToPresale\"},{\"name\":\"whitelist\",\"kind\":\"object\",\"type\":\"PresaleWhitelistAddress\",\"relationName\":\"PresaleToPresaleWhitelistAddress\"}],\"dbName\":null},\"PresaleWhitelistAddress\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"presaleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxAllocation\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"presale\",\"kind\":\"object\",\"type\":\"Presale\",\"relationName\":\"PresaleToPresaleWhitelistAddress\"}],\"dbName\":null},\"PresaleDraft\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"creatorUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addresses\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"count\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"merkleRoot\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sha256Commit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"DraftStatus\"},{\"name\":\"consumedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"consumedByPresaleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AssetUpload\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"uploaderUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single721Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"single1155Id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cid\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bytes\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"sha256\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"originalName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"AssetUploadToCollection\"},{\"name\":\"single1155\",\"kind\":\"object\",\"type\":\"Single1155\",\"relationName\":\"AssetUploadToSingle1155\"},{\"name\":\"single721\",\"kind\":\"object\",\"type\":\"Single721\",\"relationName\":\"AssetUploadToSingle721\"}],\"dbName\":null},\"CollectionSubmission\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submittedByUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coverUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"baseUri\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"supply\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"website\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"x\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"instagram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"telegram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feeTxHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"feePaidWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"feeVerifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ownershipVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"SubmissionStatus\"},{\"name\":\"statusReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedByUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"submittedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CollectionSubmissionToUser\"}],\"dbName\":null},\"NFTRarity\":{\"fields\":[{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"score\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"rank\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"MetadataRefresh\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"processed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"changed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"failed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cursor\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"diff\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"HolderReward\":{\"fields\":[{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"wallet_address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"last_acc_per_token\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"claimed_etn\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"RewardAccumulator\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"acc_per_token\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"FeaturedCycle\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cycleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"FeaturedCycleStatus\"},{\"name\":\"minBidWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"winnerBidId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"winnerCollectionContract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"winnerAmountWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"finalizedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"bids\",\"kind\":\"object\",\"type\":\"FeaturedBid\",\"relationName\":\"CycleBids\"},{\"name\":\"winnerBid\",\"kind\":\"object\",\"type\":\"FeaturedBid\",\"relationName\":\"WinnerBid\"},{\"name\":\"winnerCollection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"FeaturedWinnerCollection\"}],\"dbName\":null},\"FeaturedBid\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cycleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bidderAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bidderUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionContract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalBidWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"txCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastTxHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"bidder\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"FeaturedBidToUser\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"FeaturedBidCollection\"},{\"name\":\"cycle\",\"kind\":\"object\",\"type\":\"FeaturedCycle\",\"relationName\":\"CycleBids\"},{\"name\":\"winnerOf\",\"kind\":\"object\",\"type\":\"FeaturedCycle\",\"relationName\":\"WinnerBid\"},{\"name\":\"events\",\"kind\":\"object\",\"type\":\"FeaturedBidEvent\",\"relationName\":\"FeaturedBidToFeaturedBidEvent\"}],\"dbName\":null},\"FeaturedBidEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bidId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"totalBidWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"bid\",\"kind\":\"object\",\"type\":\"FeaturedBid\",\"relationName\":\"FeaturedBidToFeaturedBidEvent\"}],\"dbName\":null},\"Currency\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"decimals\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"kind\",\"kind\":\"enum\",\"type\":\"CurrencyKind\"},{\"name\":\"tokenAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"auctions\",\"kind\":\"object\",\"type\":\"Auction\",\"relationName\":\"AuctionToCurrency\"},{\"name\":\"bids\",\"kind\":\"object\",\"type\":\"AuctionBid\",\"relationName\":\"AuctionBidToCurrency\"},{\"name\":\"holderRewards\",\"kind\":\"object\",\"type\":\"HolderRewardMulti\",\"relationName\":\"CurrencyToHolderRewardMulti\"},{\"name\":\"listings\",\"kind\":\"object\",\"type\":\"MarketplaceListing\",\"relationName\":\"CurrencyToMarketplaceListing\"},{\"name\":\"dutchSchedules\",\"kind\":\"object\",\"type\":\"DutchSchedule\",\"relationName\":\"CurrencyToDutchSchedule\"},{\"name\":\"offers\",\"kind\":\"object\",\"type\":\"MarketplaceOffer\",\"relationName\":\"CurrencyToMarketplaceOffer\"},{\"name\":\"sales\",\"kind\":\"object\",\"type\":\"MarketplaceSale\",\"relationName\":\"CurrencyToMarketplaceSale\"},{\"name\":\"rewardAccumulators\",\"kind\":\"object\",\"type\":\"RewardAccumulatorMulti\",\"relationName\":\"CurrencyToRewardAccumulatorMulti\"},{\"name\":\"claimLogs\",\"kind\":\"object\",\"type\":\"RewardClaimLog\",\"relationName\":\"CurrencyToRewardClaimLog\"},{\"name\":\"distributionLogs\",\"kind\":\"object\",\"type\":\"RewardDistributionLog\",\"relationName\":\"CurrencyToRewardDistributionLog\"}],\"dbName\":null},\"MarketplaceSale\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nftId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"buyerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sellerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"priceEtnWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"royaltyPaidWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"marketplaceFeePaidWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"priceTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"royaltyPaidTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"feePaidTokenAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"royaltyRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"marketplaceFeeRecipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToMarketplaceSale\"},{\"name\":\"nft\",\"kind\":\"object\",\"type\":\"NFT\",\"relationName\":\"MarketplaceSaleToNFT\"}],\"dbName\":null},\"CollectionSaleBucket\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currencyKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"interval\",\"kind\":\"enum\",\"type\":\"SaleBucketInterval\"},{\"name\":\"bucketStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"volume\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"salesCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"floorPrice\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"avgPrice\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"medianPrice\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToCollectionSaleBucket\"}],\"dbName\":null},\"CollectionStatsSnapshot\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"collectionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currencyKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"floorPrice\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"listedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"volumeAllTime\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"salesCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"volume24h\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"volumePrev24h\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"volume7d\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"volumePrev7d\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"volume30d\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"volumePrev30d\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"computedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"collection\",\"kind\":\"object\",\"type\":\"Collection\",\"relationName\":\"CollectionToCollectionStatsSnapshot\"}],\"dbName\":null},\"MarketplaceOffer\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"enum\",\"type\":\"OfferKind\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"traitType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"traitValue\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bidderAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"nonce\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"signature\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OfferStatus\"},{\"name\":\"invalidReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"listingId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"acceptedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"acceptedNftId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHashFilled\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"checkedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToMarketplaceOffer\"}],\"dbName\":null},\"RewardAccumulatorMulti\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accPerToken\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToRewardAccumulatorMulti\"}],\"dbName\":null},\"HolderRewardMulti\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastAccPerToken\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"accruedAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"claimedAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToHolderRewardMulti\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"HolderRewardMultiToUser\"}],\"dbName\":null},\"RewardDistributionLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"appliedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToRewardDistributionLog\"}],\"dbName\":null},\"RewardClaimLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currencyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"object\",\"type\":\"Currency\",\"relationName\":\"CurrencyToRewardClaimLog\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RewardClaimLogToUser\"}],\"dbName\":null},\"StolenItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"StolenStatus\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"StolenSource\"},{\"name\":\"reporterAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reporterUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"evidenceUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"disputed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"onChain\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"confirmed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reporter\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"StolenReporter\"}],\"dbName\":null},\"StolenEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actorAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"blockNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"MultisigSafe\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contract\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"threshold\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"owners\",\"kind\":\"object\",\"type\":\"MultisigOwner\",\"relationName\":\"MultisigOwnerToMultisigSafe\"},{\"name\":\"txs\",\"kind\":\"object\",\"type\":\"MultisigTx\",\"relationName\":\"MultisigSafeToMultisigTx\"}],\"dbName\":null},\"MultisigOwner\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"safeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"addedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"removedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"safe\",\"kind\":\"object\",\"type\":\"MultisigSafe\",\"relationName\":\"MultisigOwnerToMultisigSafe\"}],\"dbName\":null},\"MultisigTx\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"safeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nonce\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"to\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"valueWei\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"dataHex\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operation\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"kind\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submittedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submitTxHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sigDeadline\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"MultisigTxStatus\"},{\"name\":\"executedTxHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"executedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"approvals\",\"kind\":\"object\",\"type\":\"MultisigApproval\",\"relationName\":\"MultisigApprovalToMultisigTx\"},{\"name\":\"safe\",\"kind\":\"object\",\"type\":\"MultisigSafe\",\"relationName\":\"MultisigSafeToMultisigTx\"}],\"dbName\":null},\"MultisigApproval\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"signature\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"onChain\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"tx\",\"kind\":\"object\",\"type\":\"MultisigTx\",\"relationName\":\"MultisigApprovalToMultisigTx\"}],\"dbName\":null},\"PendingChainAction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"PendingChainActionType\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"from\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"chainId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"relatedId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PendingStatus\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.compilerWasm = {
       getRuntime: async () => require('./query_compiler_bg.js'),
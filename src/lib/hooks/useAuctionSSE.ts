@@ -8,7 +8,7 @@ import { useEffect, useMemo, useRef } from "react";
  * - Subscribes to BOTH:
  *    • Auction room:   /api/stream/auction/:auctionId
  *    • Wallet room:    /api/stream/wallet/:address  (optional)
- * - Named events: bid_* , auction_* , ping, ready
+ * - Named events: bid_* , auction_* , outbid (wallet room), ping, ready
  * - Auto-reconnect if no 'ping' or 'ready' within watchdog window
  */
 
@@ -22,6 +22,15 @@ type BidBase = {
   blockNumber?: number;
 };
 
+type OutbidEvent = {
+  auctionId: string;
+  by: string;
+  amount: string;
+  currencyId: string | null;
+  txHash: string;
+  at: number;
+};
+
 type SSEHandlers = {
   onReady?: () => void;
 
@@ -29,6 +38,8 @@ type SSEHandlers = {
   onBidConfirmed?: (ev: BidBase) => void;
   onBidFailed?: (ev: { txHash: string; from: string; auctionId: string; reason?: string; at: number }) => void;
 
+  onOutbid?: (ev: OutbidEvent) => void;
+
   onAuctionExtended?: (ev: { auctionId: string; newEndTimeSec: number }) => void;
 
   onAuctionSettled?: (ev: {
@@ -233,6 +244,11 @@ export function useAuctionSSE(
             const data = safeJSON<any>(e.data);
             if (data) stableHandlers.current?.onBidFailed?.(data);
           });
+
+          es.addEventListener("outbid", (e: MessageEvent) => {
+            const data = safeJSON<OutbidEvent>(e.data);
+            if (data) stableHandlers.current?.onOutbid?.(data);
+          });
         },
         undefined,
         () => {
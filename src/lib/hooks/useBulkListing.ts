@@ -0,0 +1,322 @@
+// src/lib/hooks/useBulkListing.ts
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import type { CurrencyOption } from "@/src/components/shared/nft/CurrencySelector";
+import type { BulkCancelItemDTO, BulkListItemDTO, BulkListPreview } from "@/src/lib/server/bulk-listing";
+import { requestSigner } from "@/src/lib/evm/getSigner";
+import { errMsg, readError } from "@/src/lib/errors";
+
+/**
+ * Bulk list / bulk cancel for owners.
+ *
+ *   const preview = await loadBulkListPreview(owner, nftIds); // what can be listed + floors
+ *   const list = useBulkList();     list.run(plan, { currency, durationDays })
+ *   const cancel = useBulkCancel(); cancel.run(items)
+ *
+ * Each run approves the marketplace once per collection (listing only), then sends one tx per
+ * item, in order, and reports each confirmed tx to /api/marketplace/sync. Progress is kept per
+ * item: running again skips what's done, so a failed or rejected run resumes where it stopped.
+ * Rejecting a wallet prompt pauses the run; any other failure is recorded and the run goes on.
+ */
+
+export type { BulkCancelItemDTO, BulkListItemDTO, BulkListPreview };
+
+export type BulkPricing =
+  | { mode: "fixed"; price: string }
+  /** `percent` above (or, negative, below) each collection's floor in the chosen currency. */
+  | { mode: "floor"; percent: string }
+  /** Price per value of one trait type; items without a priced value fall back to `fallback`. */
+  | { mode: "trait"; traitType: string; prices: Record<string, string>; fallback: string };
+
+export type BulkListPlanItem = BulkListItemDTO & {
+  /** Human units of the chosen currency. */
+  price: string;
+  quantity: number;
+};
+
+/** Same cap as the server lookups. */
+export const BULK_MAX = 50;
+
+export type BulkItemStatus = {
+  status: "queued" | "running" | "done" | "failed";
+  message?: string;
+  txHash?: string;
+};
+
+const MARKET_ABI = [
+  "function createListing(address collection,uint256 tokenId,uint256 quantity,address currency,uint256 price,uint64 startTime,uint64 endTime,uint8 standard) returns (uint256)",
+  "function cancelListing(uint256 listingId)",
+  "function cancelAuction(uint256 auctionId)",
+] as const;
+
+const APPROVAL_FOR_ALL_ABI = [
+  "function isApprovedForAll(address owner,address operator) view returns (bool)",
+  "function setApprovalForAll(address operator,bool approved)",
+] as const;
+
+function getMarketplaceAddress() {
+  const addr = process.env.NEXT_PUBLIC_MARKETPLACE_ADDRESS;
+  if (!addr || !ethers.isAddress(addr)) {
+    throw new Error("Missing NEXT_PUBLIC_MARKETPLACE_ADDRESS (valid 0x address).");
+  }
+  return addr;
+}
+
+const isRejection = (e: unknown) =>
+  (e as { code?: unknown }).code === "ACTION_REJECTED" || (e as { code?: unknown }).code === 4001;
+
+// best-effort DB sync; the indexer catches up if this is lost
+async function syncMarketplace(body: Record<string, unknown>) {
+  await fetch("/api/marketplace/sync", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }).catch(() => null);
+}
+
+export async function loadBulkListPreview(owner: string, nftIds: string[]): Promise<BulkListPreview> {
+  const qs = new URLSearchParams({ owner, nftIds: nftIds.join(",") });
+  const res = await fetch(`/api/marketplace/bulk/list?${qs.toString()}`, { cache: "no-store" });
+  if (!res.ok) throw new Error(await readError(res, "Failed to load selection"));
+  return (await res.json()) as BulkListPreview;
+}
+
+export async function loadBulkCancelItems(
+  seller: string,
+  ids: { listingIds?: string[]; auctionIds?: string[] }
+): Promise<BulkCancelItemDTO[]> {
+  const qs = new URLSearchParams({
+    seller,
+    listingIds: (ids.listingIds ?? []).join(","),
+    auctionIds: (ids.auctionIds ?? []).join(","),
+  });
+  const res = await fetch(`/api/marketplace/bulk/cancel?${qs.toString()}`, { cache: "no-store" });
+  if (!res.ok) throw new Error(await readError(res, "Failed to load selection"));
+  return ((await res.json()) as { items: BulkCancelItemDTO[] }).items;
+}
+
+/** Suggested price (human units) for one item under `pricing`; null when there's nothing to go on. */
+export function bulkPriceFor(
+  item: BulkListItemDTO,
+  pricing: BulkPricing,
+  ctx: { currency: CurrencyOption; floors: BulkListPreview["floors"] }
+): string | null {
+  if (pricing.mode === "fixed") return pricing.price.trim() || null;
+
+  if (pricing.mode === "trait") {
+    const value = item.traits.find((t) => t.type === pricing.traitType)?.value;
+    const p = value != null ? pricing.prices[value]?.trim() : "";
+    return p || pricing.fallback.trim() || null;
+  }
+
+  const floor = item.collectionId ? ctx.floors[item.collectionId]?.[ctx.currency.id] : undefined;
+  const pct = Number(pricing.percent || "0");
+  if (!floor || !Number.isFinite(pct) || pct <= -100) return null;
+  const bps = BigInt(Math.round(pct * 100));
+  const units = (BigInt(floor) * (BigInt(10_000) + bps)) / BigInt(10_000);
+  return units > BigInt(0) ? ethers.formatUnits(units, ctx.currency.decimals) : null;
+}
+
+/* ---------------- runner ---------------- */
+
+/** Per-item progress + resume shared by both tools. */
+function useBulkProgress() {
+  const [progress, setProgress] = React.useState<Record<string, BulkItemStatus>>({});
+  const [running, setRunning] = React.useState(false);
+  /** What the wallet / chain is waiting on right now. */
+  const [step, setStep] = React.useState<string | null>(null);
+  const doneRef = React.useRef(new Set<string>());
+
+  const mark = React.useCallback((key: string, s: BulkItemStatus) => {
+    if (s.status === "done") doneRef.current.add(key);
+    setProgress((prev) => ({ ...prev, [key]: s }));
+  }, []);
+
+  const reset = React.useCallback(() => {
+    doneRef.current = new Set();
+    setProgress({});
+  }, []);
+
+  return { progress, running, setRunning, step, setStep, mark, reset, doneRef };
+}
+
+export function useBulkList() {
+  const p = useBulkProgress();
+  const { setRunning, setStep, mark, doneRef } = p;
+
+  const run = React.useCallback(
+    async (plan: BulkListPlanItem[], opts: { currency: CurrencyOption; durationDays: number }) => {
+      const todo = plan.filter((i) => !doneRef.current.has(i.nftId));
+      if (!todo.length) return { done: plan.length, failed: 0, paused: false };
+
+      const currencyAddr = opts.currency.id === "native" ? ethers.ZeroAddress : opts.currency.tokenAddress ?? "";
+      if (!ethers.isAddress(currencyAddr)) throw new Error("Selected ERC-20 currency is missing an address.");
+
+      // validate every price up front so nothing is sent for a half-valid plan
+      const units = new Map<string, bigint>();
+      for (const i of todo) {
+        let v: bigint;
+        try {
+          v = ethers.parseUnits(i.price.trim(), opts.currency.decimals);
+        } catch {
+          throw new Error(`Invalid price for ${i.name || `#${i.tokenId}`}.`);
+        }
+        if (v <= BigInt(0)) throw new Error(`Invalid price for ${i.name || `#${i.tokenId}`}.`);
+        units.set(i.nftId, v);
+      }
+
+      setRunning(true);
+      let failed = 0;
+      let paused = false;
+      try {
+        const signer = await requestSigner();
+        const me = await signer.getAddress();
+        const marketAddr = getMarketplaceAddress();
+        const market = new ethers.Contract(marketAddr, MARKET_ABI, signer);
+        for (const i of todo) mark(i.nftId, { status: "queued" });
+
+        // 1) one setApprovalForAll per collection
+        const blocked = new Set<string>();
+        for (const contract of [...new Set(todo.map((i) => i.contract.toLowerCase()))]) {
+          const sample = todo.find((i) => i.contract.toLowerCase() === contract)!;
+          try {
+            const token = new ethers.Contract(sample.contract, APPROVAL_FOR_ALL_ABI, signer);
+            const ok = (await token.isApprovedForAll(me, marketAddr).catch(() => false)) as boolean;
+            if (!ok) {
+              setStep(`Approving ${sample.collectionName ?? "collection"}…`);
+              const tx = await token.setApprovalForAll(marketAddr, true);
+              await tx.wait();
+            }
+          } catch (e) {
+            if (isRejection(e)) {
+              paused = true;
+              break;
+            }
+            blocked.add(contract);
+            for (const i of todo.filter((x) => x.contract.toLowerCase() === contract)) {
+              mark(i.nftId, { status: "failed", message: `Approval failed: ${errMsg(e)}` });
+              failed++;
+            }
+          }
+        }
+
+        // 2) one createListing per item
+        for (const i of paused ? [] : todo) {
+          if (blocked.has(i.contract.toLowerCase())) continue;
+          const label = i.name || `#${i.tokenId}`;
+          setStep(`Listing ${label}…`);
+          mark(i.nftId, { status: "running" });
+          try {
+            const start = Math.floor(Date.now() / 1000);
+            const end = start + Math.max(1, opts.durationDays) * 24 * 3600;
+            const qty = i.standard === "ERC1155" ? BigInt(Math.max(1, i.quantity)) : BigInt(1);
+            const tx = await market.createListing(
+              i.contract,
+              BigInt(i.tokenId),
+              qty,
+              currencyAddr,
+              units.get(i.nftId)!,
+              start,
+              end,
+              i.standard === "ERC1155" ? 1 : 0
+            );
+            await tx.wait();
+            await syncMarketplace({
+              type: "LISTING_CREATE",
+              txHash: tx.hash,
+            });
+            mark(i.nftId, { status: "done", txHash: tx.hash });
+          } catch (e) {
+            if (isRejection(e)) {
+              mark(i.nftId, { status: "queued", message: "Rejected in wallet" });
+              paused = true;
+              break;
+            }
+            mark(i.nftId, { status: "failed", message: errMsg(e) });
+            failed++;
+          }
+        }
+      } finally {
+        setStep(null);
+        setRunning(false);
+      }
+      return { done: doneRef.current.size, failed, paused };
+    },
+    [setRunning, setStep, mark, doneRef]
+  );
+
+  return { run, progress: p.progress, running: p.running, step: p.step, reset: p.reset };
+}
+
+export const bulkCancelKey = (i: Pick<BulkCancelItemDTO, "kind" | "id">) => `${i.kind}:${i.id}`;
+
+export function useBulkCancel() {
+  const p = useBulkProgress();
+  const { setRunning, setStep, mark, doneRef } = p;
+
+  const run = React.useCallback(
+    async (items: BulkCancelItemDTO[]) => {
+      const todo = items.filter((i) => !doneRef.current.has(bulkCancelKey(i)));
+      if (!todo.length) return { done: items.length, failed: 0, paused: false };
+
+      setRunning(true);
+      let failed = 0;
+      let paused = false;
+      try {
+        const signer = await requestSigner();
+        const market = new ethers.Contract(getMarketplaceAddress(), MARKET_ABI, signer);
+        for (const i of todo) mark(bulkCancelKey(i), { status: "queued" });
+
+        for (const i of todo) {
+          const key = bulkCancelKey(i);
+          setStep(`Cancelling ${i.name || `#${i.tokenId}`}…`);
+          mark(key, { status: "running" });
+          try {
+            if (i.kind === "LISTING") {
+              const tx = await market.cancelListing(BigInt(i.id));
+              await tx.wait();
+              await syncMarketplace({ type: "LISTING_CANCEL", txHash: tx.hash });
+              mark(key, { status: "done", txHash: tx.hash });
+            } else {
+              const tx = await market.cancelAuction(BigInt(i.id));
+              // registered before the receipt, so the DB catches up even if this tab closes
+              void fetch("/api/marketplace/pending", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                  type: "NFT_AUCTION_CANCEL",
+                  txHash: tx.hash,
+                  from: tx.from,
+                  chainId: Number(tx.chainId),
+                  contract: i.contract,
+                  tokenId: i.tokenId,
+                  auctionId: i.id,
+                }),
+              }).catch(() => null);
+              await tx.wait();
+              await syncMarketplace({ type: "AUCTION_CANCEL", txHash: tx.hash });
+              mark(key, { status: "done", txHash: tx.hash });
+            }
+          } catch (e) {
+            if (isRejection(e)) {
+              mark(key, { status: "queued", message: "Rejected in wallet" });
+              paused = true;
+              break;
+            }
+            mark(key, { status: "failed", message: errMsg(e) });
+            failed++;
+          }
+        }
+      } finally {
+        setStep(null);
+        setRunning(false);
+      }
+      return { done: doneRef.current.size, failed, paused };
+    },
+    [setRunning, setStep, mark, doneRef]
+  );
+
+  return { run, progress: p.progress, running: p.running, step: p.step, reset: p.reset };
+}
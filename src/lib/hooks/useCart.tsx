@@ -0,0 +1,304 @@
+// src/lib/hooks/useCart.tsx
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import type { CartListingDTO } from "@/src/lib/server/cart";
+import { requestSigner } from "@/src/lib/evm/getSigner";
+import { errMsg, readError } from "@/src/lib/errors";
+
+/**
+ * Multi-item checkout.
+ *
+ *   <CartProvider> (in app/providers.tsx) keeps the cart in localStorage, so it follows the
+ *   buyer across collections and reloads.
+ *   const cart = useCart();                 // items, groups, add/remove, addNfts(nftIds), open
+ *   const { checkout, running, results } = useCartCheckout();
+ *
+ * Checkout re-reads every listing on-chain first (ended / repriced ones are skipped, never paid
+ * at a higher price), approves each ERC20 once for its whole group, then buys one listing per tx,
+ * in order, collecting a result per item.
+ */
+
+export type { CartListingDTO };
+
+export type CartGroup = {
+  currency: CartListingDTO["currency"];
+  items: CartListingDTO[];
+  /** Sum of the group's prices, base units. */
+  total: string;
+};
+
+export type CheckoutResult = {
+  listingId: string;
+  label: string;
+  status: "bought" | "skipped" | "failed";
+  message?: string;
+  txHash?: string;
+};
+
+const STORAGE_KEY = "panthart:cart";
+export const CART_MAX = 50;
+
+const MARKET_ABI = [
+  "function buy(uint256 listingId) payable",
+  "function listings(uint256 listingId) view returns (address seller,address token,uint256 tokenId,uint256 quantity,uint8 standard,address currency,uint256 price,uint64 startTime,uint64 endTime,bool active)",
+] as const;
+
+const ERC20_ABI = [
+  "function allowance(address owner,address spender) view returns (uint256)",
+  "function approve(address spender,uint256 amount) returns (bool)",
+] as const;
+
+function getMarketplaceAddress() {
+  const addr = process.env.NEXT_PUBLIC_MARKETPLACE_ADDRESS;
+  if (!addr || !ethers.isAddress(addr)) {
+    throw new Error("Missing NEXT_PUBLIC_MARKETPLACE_ADDRESS (valid 0x address).");
+  }
+  return addr;
+}
+
+export const cartItemLabel = (i: CartListingDTO) => i.name || `#${i.tokenId}`;
+
+/** Cart items by currency, native first. */
+export function groupCart(items: CartListingDTO[]): CartGroup[] {
+  const m = new Map<string, CartGroup>();
+  for (const i of items) {
+    const g = m.get(i.currency.id) ?? { currency: i.currency, items: [], total: "0" };
+    g.items.push(i);
+    g.total = (BigInt(g.total) + BigInt(i.price)).toString();
+    m.set(i.currency.id, g);
+  }
+  return [...m.values()].sort((a, b) => (a.currency.id === "native" ? -1 : b.currency.id === "native" ? 1 : 0));
+}
+
+/* ---------------- state ---------------- */
+
+type CartContextValue = {
+  items: CartListingDTO[];
+  groups: CartGroup[];
+  open: boolean;
+  setOpen: (open: boolean) => void;
+  /** Adds listings (one per NFT; a newer listing of the same NFT replaces the old one). */
+  add: (listings: CartListingDTO[]) => number;
+  /** Resolves the current listing of each NFT, then adds it. */
+  addNfts: (nftIds: string[]) => Promise<number>;
+  remove: (listingId: string) => void;
+  removeNft: (nftId: string) => void;
+  clear: () => void;
+  hasNft: (nftId: string) => boolean;
+  /** Drops items whose listing ended, sold or was flagged since they were added. */
+  revalidate: () => Promise<number>;
+};
+
+const CartContext = React.createContext<CartContextValue | null>(null);
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [items, setItems] = React.useState<CartListingDTO[]>([]);
+  const [open, setOpen] = React.useState(false);
+  const loaded = React.useRef(false);
+
+  // declared before the load so the first pass doesn't overwrite the saved cart with []
+  React.useEffect(() => {
+    if (!loaded.current) return;
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  }, [items]);
+
+  React.useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? (JSON.parse(raw) as CartListingDTO[]) : [];
+      // items saved with a non-numeric listing id can't be bought (see hasChainId in src/lib/server/cart.ts)
+      if (Array.isArray(parsed)) setItems(parsed.filter((i) => /^\d+$/.test(String(i?.listingId))).slice(0, CART_MAX));
+    } catch {
+      // corrupt entry: start empty
+    }
+    loaded.current = true;
+  }, []);
+
+  const add = React.useCallback(
+    (listings: CartListingDTO[]) => {
+      const next = [...items];
+      let added = 0;
+      for (const l of listings) {
+        const at = next.findIndex((i) => i.nftId === l.nftId);
+        if (at >= 0) {
+          next[at] = l;
+          continue;
+        }
+        if (next.length >= CART_MAX) break;
+        next.push(l);
+        added++;
+      }
+      setItems(next);
+      return added;
+    },
+    [items]
+  );
+
+  const addNfts = React.useCallback(
+    async (nftIds: string[]) => {
+      if (!nftIds.length) return 0;
+      const res = await fetch(`/api/cart/listings?nftIds=${encodeURIComponent(nftIds.join(","))}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load listing"));
+      const { listings } = (await res.json()) as { listings: CartListingDTO[] };
+      if (!listings.length) throw new Error("Not listed anymore");
+      return add(listings);
+    },
+    [add]
+  );
+
+  const remove = React.useCallback(
+    (listingId: string) => setItems((prev) => prev.filter((i) => i.listingId !== listingId)),
+    []
+  );
+  const removeNft = React.useCallback(
+    (nftId: string) => setItems((prev) => prev.filter((i) => i.nftId !== nftId)),
+    []
+  );
+  const clear = React.useCallback(() => setItems([]), []);
+  const hasNft = React.useCallback((nftId: string) => items.some((i) => i.nftId === nftId), [items]);
+
+  const revalidate = React.useCallback(async () => {
+    if (!items.length) return 0;
+    const ids = items.map((i) => i.listingId).join(",");
+    const res = await fetch(`/api/cart/listings?listingIds=${encodeURIComponent(ids)}`, { cache: "no-store" });
+    if (!res.ok) throw new Error(await readError(res, "Failed to refresh cart"));
+    const { listings } = (await res.json()) as { listings: CartListingDTO[] };
+    const live = new Map(listings.map((l) => [l.listingId, l]));
+    setItems((prev) => prev.flatMap((i) => (live.has(i.listingId) ? [live.get(i.listingId)!] : [])));
+    return items.filter((i) => !live.has(i.listingId)).length;
+  }, [items]);
+
+  const groups = React.useMemo(() => groupCart(items), [items]);
+
+  const value = React.useMemo<CartContextValue>(
+    () => ({ items, groups, open, setOpen, add, addNfts, remove, removeNft, clear, hasNft, revalidate }),
+    [items, groups, open, add, addNfts, remove, removeNft, clear, hasNft, revalidate]
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+}
+
+export function useCart() {
+  const ctx = React.useContext(CartContext);
+  if (!ctx) throw new Error("useCart must be used inside <CartProvider>");
+  return ctx;
+}
+
+/* ---------------- checkout ---------------- */
+
+export function useCartCheckout() {
+  const { remove } = useCart();
+  const [running, setRunning] = React.useState(false);
+  const [results, setResults] = React.useState<CheckoutResult[]>([]);
+  /** Label of the item (or approval) currently waiting on the wallet / chain. */
+  const [step, setStep] = React.useState<string | null>(null);
+
+  const checkout = React.useCallback(
+    async (items: CartListingDTO[]) => {
+      setRunning(true);
+      setResults([]);
+      const out: CheckoutResult[] = [];
+      const push = (r: CheckoutResult) => {
+        out.push(r);
+        setResults([...out]);
+      };
+
+      try {
+        const signer = await requestSigner();
+        const me = (await signer.getAddress()).toLowerCase();
+        const marketAddr = getMarketplaceAddress();
+        const market = new ethers.Contract(marketAddr, MARKET_ABI, signer);
+
+        // 1) on-chain truth for every item before anything is paid
+        type Ready = { item: CartListingDTO; currency: string; price: bigint };
+        const ready: Ready[] = [];
+        setStep("Checking listings…");
+        for (const item of groupCart(items).flatMap((g) => g.items)) {
+          const label = cartItemLabel(item);
+          try {
+            const L = await market.listings(BigInt(item.listingId));
+            const seller = String(L[0]).toLowerCase();
+            const currency = String(L[5]);
+            const price = L[6] as bigint;
+            const expected = item.currency.tokenAddress ?? ethers.ZeroAddress;
+
+            if (!L[9]) push({ listingId: item.listingId, label, status: "skipped", message: "No longer listed" });
+            else if (seller === me) push({ listingId: item.listingId, label, status: "skipped", message: "Your own listing" });
+            else if (currency.toLowerCase() !== expected.toLowerCase() || price > BigInt(item.price)) {
+              push({ listingId: item.listingId, label, status: "skipped", message: "Price changed; review it on the item page" });
+            } else ready.push({ item, currency, price });
+          } catch (e) {
+            push({ listingId: item.listingId, label, status: "failed", message: errMsg(e) });
+          }
+        }
+
+        // 2) one allowance check (and at most one approve) per ERC20
+        const blocked = new Set<string>();
+        const byToken = new Map<string, bigint>();
+        for (const r of ready) {
+          if (r.currency === ethers.ZeroAddress) continue;
+          byToken.set(r.currency, (byToken.get(r.currency) ?? BigInt(0)) + r.price);
+        }
+        for (const [token, need] of byToken) {
+          const symbol = ready.find((r) => r.currency === token)?.item.currency.symbol ?? "token";
+          try {
+            const erc20 = new ethers.Contract(token, ERC20_ABI, signer);
+            const allowance = (await erc20.allowance(me, marketAddr).catch(() => BigInt(0))) as bigint;
+            if (allowance < need) {
+              setStep(`Approving ${symbol}…`);
+              const tx = await erc20.approve(marketAddr, need);
+              await tx.wait();
+            }
+          } catch (e) {
+            blocked.add(token);
+            for (const r of ready.filter((x) => x.currency === token)) {
+              push({
+                listingId: r.item.listingId,
+                label: cartItemLabel(r.item),
+                status: "failed",
+                message: `${symbol} approval failed: ${errMsg(e)}`,
+              });
+            }
+          }
+        }
+
+        // 3) one purchase per tx, in order; a failure doesn't stop the rest
+        for (const r of ready) {
+          if (blocked.has(r.currency)) continue;
+          const label = cartItemLabel(r.item);
+          setStep(`Buying ${label}…`);
+          try {
+            const tx = await market.buy(BigInt(r.item.listingId), {
+              value: r.currency === ethers.ZeroAddress ? r.price : BigInt(0),
+            });
+            await tx.wait();
+            push({ listingId: r.item.listingId, label, status: "bought", txHash: tx.hash });
+            remove(r.item.listingId);
+            if (r.item.standard !== "ERC1155") {
+              await fetch("/api/nft/sync-owner", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ contract: r.item.contract, tokenId: r.item.tokenId }),
+              }).catch(() => null);
+            }
+          } catch (e) {
+            push({ listingId: r.item.listingId, label, status: "failed", message: errMsg(e) });
+          }
+        }
+      } finally {
+        setStep(null);
+        setRunning(false);
+      }
+      return out;
+    },
+    [remove]
+  );
+
+  const reset = React.useCallback(() => setResults([]), []);
+
+  return { checkout, running, results, step, reset };
+}
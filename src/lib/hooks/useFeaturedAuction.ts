@@ -0,0 +1,107 @@
+// src/lib/hooks/useFeaturedAuction.ts
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import { FEATURED_AUCTION_ABI } from "@/src/lib/abis/FeaturedAuction";
+import type { FeaturedAuctionState } from "@/src/lib/server/featured";
+import { requestSigner } from "@/src/lib/evm/getSigner";
+import { readError } from "@/src/lib/errors";
+
+/**
+ * Featured collection auction (/featured).
+ *
+ *   const { state, placeBid, increaseBid, claimRefund, finalize } = useFeaturedAuction();
+ *   await placeBid({ cycleId, collection, amountWei });
+ *
+ * Every tx is posted to /api/featured/record once mined so the leaderboard updates
+ * before the indexer's next pass.
+ */
+
+export type { FeaturedAuctionState };
+
+const REVERT_MESSAGES: Record<string, string> = {
+  MinBidNotMet: "The bid is below this cycle's minimum.",
+  MustBeatLeader: "Your total has to beat the current leader.",
+  AlreadyBid: "You already bid this cycle. Increase your bid instead.",
+  NoExistingBid: "You have no bid in this cycle yet.",
+  CycleNotActive: "This cycle isn't taking bids.",
+  CycleMissing: "This cycle doesn't exist on-chain.",
+  CycleAlreadyFinalized: "This cycle is already finalized.",
+  TooEarly: "The cycle hasn't ended yet.",
+  AlreadyRefunded: "This bid was already refunded.",
+  EnforcedPause: "The featured auction is paused.",
+  Unauthorized: "Only the auction operator can do that.",
+};
+
+/** Contract custom errors → readable text; anything else is rethrown as-is. */
+function friendly(e: unknown): never {
+  const name = (e as { revert?: { name?: string } } | null)?.revert?.name;
+  if (name && REVERT_MESSAGES[name]) throw new Error(REVERT_MESSAGES[name]);
+  throw e;
+}
+
+export function useFeaturedAuction() {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+  const account = auth.address ? ethers.getAddress(auth.address) : null;
+
+  const state = useQuery({
+    queryKey: ["featuredAuction", account?.toLowerCase() ?? null],
+    queryFn: async () => {
+      const qs = account ? `?address=${account}` : "";
+      const res = await fetch(`/api/featured${qs}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load the featured auction"));
+      return (await res.json()) as FeaturedAuctionState;
+    },
+    refetchInterval: 15_000,
+  });
+
+  const send = React.useCallback(
+    async (run: (c: ethers.Contract) => Promise<ethers.ContractTransactionResponse>) => {
+      const contract = state.data?.contract;
+      if (!contract) throw new Error("Featured auction is not configured.");
+      const signer = await requestSigner();
+      const c = new ethers.Contract(contract, FEATURED_AUCTION_ABI as ethers.InterfaceAbi, signer);
+
+      const tx = await run(c).catch(friendly);
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) throw new Error("Transaction failed.");
+
+      // best effort: the indexer picks the same events up on its next pass
+      await fetch("/api/featured/record", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ txHash: tx.hash }),
+      }).catch(() => null);
+
+      await qc.invalidateQueries({ queryKey: ["featuredAuction"] });
+      return { txHash: tx.hash };
+    },
+    [state.data?.contract, qc]
+  );
+
+  const placeBid = React.useCallback(
+    (input: { cycleId: string; collection: string; amountWei: string }) =>
+      send((c) => c.placeBid(input.cycleId, input.collection, { value: BigInt(input.amountWei) })),
+    [send]
+  );
+
+  const increaseBid = React.useCallback(
+    (input: { cycleId: string; addWei: string }) =>
+      send((c) => c.increaseBid(input.cycleId, { value: BigInt(input.addWei) })),
+    [send]
+  );
+
+  const claimRefund = React.useCallback((cycleId: string) => send((c) => c.claimRefund(cycleId)), [send]);
+
+  /** Close an ended cycle; `refundBatch` losing bids are refunded in the same tx. */
+  const finalize = React.useCallback(
+    (cycleId: string, refundBatch = 0) => send((c) => c.finalizeCycle(cycleId, BigInt(refundBatch))),
+    [send]
+  );
+
+  return { account, state, placeBid, increaseBid, claimRefund, finalize };
+}
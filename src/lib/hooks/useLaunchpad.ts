@@ -0,0 +1,250 @@
+// src/lib/hooks/useLaunchpad.ts
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import { useQuery } from "@tanstack/react-query";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import { NFT_FACTORY_ABI } from "@/src/lib/abis/NFTFactoryABI";
+import { requestSigner } from "@/src/lib/evm/getSigner";
+import { readError } from "@/src/lib/errors";
+
+/**
+ * Launchpad (/create).
+ *
+ *   const fees = useLaunchpadFees();
+ *   const { uploadSingle, uploadDrop, deploy } = useLaunchpad();
+ *
+ * deploy() sends the factory create* call with the FeeConfig fee as msg.value, waits for the
+ * receipt, then has the server confirm the *CloneCreated event and record the deployment.
+ *
+ * Drops with a presale: buildAllowlist(csv) → preview → deploy({ presale: { draftId, … } }).
+ * deploy() finalizes the draft and passes its merkle root in the presale config.
+ */
+
+export type ContractTypeLabel = "ERC721_DROP" | "ERC721_SINGLE" | "ERC1155_SINGLE";
+export type MetadataOptionLabel = "UPLOAD" | "EXTERNAL";
+
+export type LaunchpadFee = {
+  contractType: ContractTypeLabel;
+  metadataOption: MetadataOptionLabel;
+  feeRecipient: string;
+  feeAmountWei: string;
+};
+
+export type AllowlistDraft = {
+  id: string;
+  status: "DRAFT" | "FINALIZED" | "CONSUMED";
+  count: number;
+  merkleRoot: string;
+  sha256Commit: string;
+  expired: boolean;
+  expiresAt: string | null;
+  allocated: number;
+  entries: { address: string; maxAllocation: number | null }[];
+  offset: number;
+};
+
+export type AllowlistBuild = {
+  draft: AllowlistDraft;
+  invalid: { line: number; value: string; reason: string }[];
+  invalidCount: number;
+  duplicates: number;
+};
+
+export type DeployInput = {
+  contractType: ContractTypeLabel;
+  metadataOption: MetadataOptionLabel;
+  name: string;
+  symbol: string;
+  /** ERC721 single: tokenURI; drops: baseURI */
+  uri: string;
+  royaltyRecipient: string;
+  royaltyBps: number;
+  // ERC721 drop / ERC1155
+  maxSupply?: number;
+  // ERC721 drop
+  publicSale?: { start: Date; priceEtn: string; maxPerWallet: number; maxPerTx: number };
+  presale?: { draftId: string; start: Date; end: Date; priceEtn: string; maxSupply: number };
+  // ERC1155
+  mintPriceEtn?: string;
+  maxPerWallet?: number;
+  // recorded off-chain
+  description?: string;
+  logoUrl?: string | null;
+  coverUrl?: string | null;
+  imageUrl?: string | null;
+  uploadIds?: string[];
+};
+
+export function useLaunchpadFees() {
+  return useQuery({
+    queryKey: ["launchpadFees"],
+    queryFn: async () => {
+      const res = await fetch("/api/create/fees", { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load fees"));
+      return (await res.json()) as { factory: string; fees: LaunchpadFee[] };
+    },
+    staleTime: 60_000,
+  });
+}
+
+export function useLaunchpad() {
+  const auth = useWalletAuth();
+  const fees = useLaunchpadFees();
+
+  const upload = React.useCallback(
+    async (form: FormData) => {
+      await auth.ensureSignedIn();
+      const res = await fetch("/api/create/upload", { method: "POST", body: form });
+      if (!res.ok) throw new Error(await readError(res, "Upload failed"));
+      return res.json();
+    },
+    [auth]
+  );
+
+  const uploadSingle = React.useCallback(
+    async (input: { file: File; name: string; description?: string; attributes?: { trait_type: string; value: string }[] }) => {
+      const form = new FormData();
+      form.append("kind", "single");
+      form.append("file", input.file);
+      form.append("name", input.name);
+      if (input.description) form.append("description", input.description);
+      form.append("attributes", JSON.stringify(input.attributes ?? []));
+      return (await upload(form)) as { tokenUri: string; imageUrl: string; uploadIds: string[] };
+    },
+    [upload]
+  );
+
+  const uploadDrop = React.useCallback(
+    async (input: { files: File[]; name: string; description?: string }) => {
+      const form = new FormData();
+      form.append("kind", "drop");
+      form.append("name", input.name);
+      if (input.description) form.append("description", input.description);
+      for (const f of input.files) form.append("files", f);
+      return (await upload(form)) as { baseUri: string; count: number; imageUrl: string; uploadIds: string[] };
+    },
+    [upload]
+  );
+
+  const buildAllowlist = React.useCallback(
+    async (csv: string) => {
+      await auth.ensureSignedIn();
+      const res = await fetch("/api/create/presale", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ csv }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Could not build the allowlist"));
+      return (await res.json()) as AllowlistBuild;
+    },
+    [auth]
+  );
+
+  const finalizeAllowlist = React.useCallback(async (draftId: string) => {
+    const res = await fetch(`/api/create/presale/${encodeURIComponent(draftId)}/finalize`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: "{}",
+    });
+    if (!res.ok) throw new Error(await readError(res, "Could not finalize the allowlist"));
+    return (await res.json()) as AllowlistDraft;
+  }, []);
+
+  const deploy = React.useCallback(
+    async (input: DeployInput) => {
+      const wallet = ethers.getAddress(await auth.ensureSignedIn());
+      const cfg = fees.data ?? (await fees.refetch()).data;
+      if (!cfg) throw new Error("Could not load deployment fees.");
+      const fee = cfg.fees.find(
+        (f) => f.contractType === input.contractType && f.metadataOption === input.metadataOption
+      );
+      if (!fee) throw new Error("Deployment fee is not configured for this contract type.");
+
+      const signer = await requestSigner();
+      if ((await signer.getAddress()).toLowerCase() !== wallet.toLowerCase()) {
+        throw new Error("Connected wallet does not match your session. Reconnect and try again.");
+      }
+      const factory = new ethers.Contract(cfg.factory, NFT_FACTORY_ABI as ethers.InterfaceAbi, signer);
+      const feeAmount = BigInt(fee.feeAmountWei);
+      const common = {
+        name: input.name,
+        symbol: input.symbol,
+        feeRecipient: fee.feeRecipient,
+        feeAmount,
+        royaltyRecipient: ethers.getAddress(input.royaltyRecipient),
+        royaltyBps: BigInt(input.royaltyBps),
+        initialOwner: wallet,
+      };
+
+      let tx: ethers.ContractTransactionResponse;
+      if (input.contractType === "ERC721_SINGLE") {
+        tx = await factory.createERC721Single({ ...common, tokenURI: input.uri }, { value: feeAmount });
+      } else if (input.contractType === "ERC1155_SINGLE") {
+        tx = await factory.createERC1155Drop(
+          {
+            ...common,
+            baseURI: input.uri,
+            maxSupply: BigInt(input.maxSupply ?? 0),
+            mintPrice: ethers.parseEther(input.mintPriceEtn || "0"),
+            maxPerWallet: BigInt(input.maxPerWallet ?? 0),
+          },
+          { value: feeAmount }
+        );
+      } else {
+        const pub = input.publicSale!;
+        const pre = input.presale
+          ? { ...input.presale, merkleRoot: (await finalizeAllowlist(input.presale.draftId)).merkleRoot }
+          : null;
+        tx = await factory.createERC721Drop(
+          { ...common, baseURI: input.uri, maxSupply: BigInt(input.maxSupply ?? 0) },
+          {
+            startTimestamp: BigInt(Math.floor(pub.start.getTime() / 1000)),
+            price: ethers.parseEther(pub.priceEtn || "0"),
+            maxPerWallet: BigInt(pub.maxPerWallet),
+            maxPerTx: BigInt(pub.maxPerTx),
+          },
+          pre
+            ? {
+                startTimestamp: BigInt(Math.floor(pre.start.getTime() / 1000)),
+                endTimestamp: BigInt(Math.floor(pre.end.getTime() / 1000)),
+                price: ethers.parseEther(pre.priceEtn || "0"),
+                maxSupply: BigInt(pre.maxSupply),
+                merkleRoot: pre.merkleRoot,
+              }
+            : // presale disabled (zero root)
+              { startTimestamp: BigInt(0), endTimestamp: BigInt(0), price: BigInt(0), maxSupply: BigInt(0), merkleRoot: ethers.ZeroHash },
+          { value: feeAmount }
+        );
+      }
+
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) throw new Error("Deployment transaction failed.");
+
+      const res = await fetch("/api/create/confirm", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          txHash: tx.hash,
+          metadataOption: input.metadataOption,
+          description: input.description,
+          logoUrl: input.logoUrl,
+          coverUrl: input.coverUrl,
+          imageUrl: input.imageUrl,
+          uploadIds: input.uploadIds,
+          presaleDraftId: input.presale?.draftId,
+        }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Deployed, but recording it failed"));
+      return (await res.json()) as {
+        cloneAddress: string;
+        contractType: ContractTypeLabel;
+        presaleWarning: string | null;
+      };
+    },
+    [auth, fees, finalizeAllowlist]
+  );
+
+  return { fees, uploadSingle, uploadDrop, buildAllowlist, deploy, account: auth.address };
+}
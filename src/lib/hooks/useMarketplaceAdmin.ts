@@ -1,10 +1,18 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// src/lib/hooks/useMarketplaceAdmin.ts
 "use client";
 
 import * as React from "react";
+import { ethers } from "ethers";
 import { http, createPublicClient } from "viem";
 import { getAddress, isAddress } from "viem";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { MARKETPLACE_CORE_ABI } from "../abis/marketplace-core/marketPlaceCoreABI";
-
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import { TREASURY_KEY, useTreasuryActions } from "@/src/lib/hooks/useMultisig";
+import type { MarketplaceAdminViewer, MarketplaceCurrencyDTO } from "@/src/lib/server/marketplace-admin";
+import { requestSigner } from "@/src/lib/evm/getSigner";
+import { readError } from "@/src/lib/errors";
 
 // ENVs
 const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "";
@@ -17,18 +25,35 @@ const REWARD_DISTRIBUTOR_ADDRESS = (process.env.NEXT_PUBLIC_REWARD_DISTRIBUTOR_A
 // NOTE: ETN native = zero address key for currencyAllowed
 export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as const;
 
+export type { MarketplaceAdminViewer, MarketplaceCurrencyDTO };
+
+export type MarketplaceConfig = {
+  feeBps: string;
+  distributorShareBps: string;
+  feeRecipient: string;
+  rewardsDistributor: string;
+  stolenRegistry: string;
+  snipeExtension: string;
+};
+
+/** Direct: signed by the connected role holder. Multisig: submitted as a treasury proposal. */
+export type AdminRoute = "direct" | "multisig";
+export type GrantableRole = "CONFIG_ROLE" | "PAUSER_ROLE";
+
+const marketIface = new ethers.Interface(MARKETPLACE_CORE_ABI as ethers.InterfaceAbi);
+
 export function useMarketplaceAdmin() {
   const [address] = React.useState<`0x${string}` | null>(() =>
     isAddress(MARKETPLACE_CORE_ADDRESS) ? (getAddress(MARKETPLACE_CORE_ADDRESS) as `0x${string}`) : null
   );
 
   const [chainId, setChainId] = React.useState<number | null>(null);
-  const [feeBps, setFeeBps] = React.useState<bigint>(0n);
-  const [distributorShareBps, setDistributorShareBps] = React.useState<bigint>(0n);
+  const [feeBps, setFeeBps] = React.useState<bigint>(BigInt(0));
+  const [distributorShareBps, setDistributorShareBps] = React.useState<bigint>(BigInt(0));
   const [feeRecipient, setFeeRecipient] = React.useState<`0x${string}` | null>(null);
   const [rewardsDistributor, setRewardsDistributor] = React.useState<`0x${string}` | null>(null);
   const [stolenRegistry, setStolenRegistry] = React.useState<`0x${string}` | null>(null);
-  const [snipeExtension, setSnipeExtension] = React.useState<bigint>(0n);
+  const [snipeExtension, setSnipeExtension] = React.useState<bigint>(BigInt(0));
   const [paused, setPaused] = React.useState<boolean>(false);
   const [etnAllowed, setEtnAllowed] = React.useState<boolean>(true);
 
@@ -128,3 +153,110 @@ export function useMarketplaceAdmin() {
     refresh: load,
   };
 }
+
+export const MARKETPLACE_ADMIN_KEY = "marketplaceAdmin";
+
+/** Viewer roles (own + multisig's) and Currency rows with their on-chain allow flag. */
+export function useMarketplaceAdminViewer() {
+  return useQuery({
+    queryKey: [MARKETPLACE_ADMIN_KEY],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/marketplace", { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load marketplace admin"));
+      return (await res.json()) as { viewer: MarketplaceAdminViewer; currencies: MarketplaceCurrencyDTO[] };
+    },
+    retry: false,
+  });
+}
+
+/**
+ * Marketplace admin writes. Each call either goes straight to the marketplace (caller holds
+ * the role) or becomes a multisig proposal (the multisig holds it); the UI picks the route.
+ *
+ *   const a = useMarketplaceAdminActions();
+ *   await a.setConfig(next, "direct");
+ *   await a.setCurrencyAllowed(tokenAddress, false, "multisig");
+ */
+export function useMarketplaceAdminActions() {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+  const treasury = useTreasuryActions();
+
+  const run = React.useCallback(
+    async (fn: string, args: unknown[], route: AdminRoute, description: string, config?: MarketplaceConfig) => {
+      if (!isAddress(MARKETPLACE_CORE_ADDRESS)) throw new Error("NEXT_PUBLIC_MARKETPLACE_CORE_ADDRESS is missing or invalid.");
+      const marketplace = getAddress(MARKETPLACE_CORE_ADDRESS);
+      const data = marketIface.encodeFunctionData(fn, args);
+
+      if (route === "multisig") {
+        const txHash = await treasury.propose(
+          config
+            ? { kind: "setConfig", marketplace, config, description }
+            : { kind: "marketplace", marketplace, data, description }
+        );
+        return { txHash, proposed: true };
+      }
+
+      await auth.ensureSignedIn();
+      const signer = await requestSigner();
+      const tx = await signer.sendTransaction({ to: marketplace, data });
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) throw new Error("Marketplace transaction failed.");
+
+      if (fn === "setCurrencyAllowed") {
+        const res = await fetch("/api/admin/marketplace/record", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ txHash: tx.hash }),
+        });
+        if (!res.ok) throw new Error(await readError(res, "Mined, but updating the currency failed."));
+      }
+      await Promise.all([
+        qc.invalidateQueries({ queryKey: [MARKETPLACE_ADMIN_KEY] }),
+        qc.invalidateQueries({ queryKey: [TREASURY_KEY] }),
+      ]);
+      return { txHash: tx.hash, proposed: false };
+    },
+    [auth, qc, treasury]
+  );
+
+  const setConfig = React.useCallback(
+    (c: MarketplaceConfig, route: AdminRoute) =>
+      run(
+        "setConfig",
+        [c.feeBps, c.distributorShareBps, c.feeRecipient, c.rewardsDistributor, c.stolenRegistry, c.snipeExtension],
+        route,
+        "Update marketplace config",
+        c
+      ),
+    [run]
+  );
+
+  const setCurrencyAllowed = React.useCallback(
+    (currency: string, allowed: boolean, route: AdminRoute, symbol?: string) =>
+      run("setCurrencyAllowed", [currency, allowed], route, `${allowed ? "Allow" : "Disallow"} ${symbol ?? currency}`),
+    [run]
+  );
+
+  const setPaused = React.useCallback(
+    (paused: boolean, route: AdminRoute) =>
+      run(paused ? "pause" : "unpause", [], route, paused ? "Pause marketplace" : "Unpause marketplace"),
+    [run]
+  );
+
+  /** `roleHash` is CONFIG_ROLE / PAUSER_ROLE as read by useMarketplaceAdmin(). */
+  const setRole = React.useCallback(
+    (role: GrantableRole, roleHash: string, account: string, grant: boolean, route: AdminRoute) => {
+      if (!ethers.isAddress(account)) throw new Error("Enter a valid account address.");
+      return run(
+        grant ? "grantRole" : "revokeRole",
+        [roleHash, account],
+        route,
+        `${grant ? "Grant" : "Revoke"} ${role} ${grant ? "to" : "from"} ${ethers.getAddress(account)}`
+      );
+    },
+    [run]
+  );
+
+  return { setConfig, setCurrencyAllowed, setPaused, setRole };
+}
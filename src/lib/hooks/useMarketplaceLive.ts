@@ -2,6 +2,7 @@
 
 import { useCallback } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuctionSSE } from "./useAuctionSSE";
 
 type Currency = {
   id: string | null;
@@ -79,7 +80,7 @@ export function useMarketplaceLive(opts: {
   tokenId: string | number;
   account?: string | null;
 }) {
-  const { contract, tokenId } = opts;
+  const { contract, tokenId, account } = opts;
   const tokenIdStr = String(tokenId);
   const qc = useQueryClient();
 
@@ -91,7 +92,8 @@ export function useMarketplaceLive(opts: {
           contract
         )}&tokenId=${encodeURIComponent(tokenIdStr)}&limit=1&strictOwner=1`
       ),
-    refetchInterval: canPoll() ? 20_000 : false,
+    // the SSE stream only carries auction events, so listings still poll
+    refetchInterval: () => (canPoll() ? 20_000 : false),
   });
 
   const auctionsQ = useQuery({
@@ -102,7 +104,9 @@ export function useMarketplaceLive(opts: {
           contract
         )}&tokenId=${encodeURIComponent(tokenIdStr)}&limit=1&strictOwner=1`
       ),
-    refetchInterval: canPoll() ? 20_000 : false,
+    // SSE only carries bids this server process synced; ones the standalone indexer picks up
+    // never reach the in-process bus, so keep a slower poll as a fallback
+    refetchInterval: () => (canPoll() ? 30_000 : false),
   });
 
   const listing = listingsQ.data?.items?.[0] ?? null;
@@ -192,6 +196,23 @@ export function useMarketplaceLive(opts: {
     ]);
   }, [qc, contract, tokenIdStr]);
 
+  // live auction updates (the poll above is only the fallback)
+  const refetchAuction = useCallback(() => {
+    void qc.invalidateQueries({ queryKey: ["activeAuctions", contract, tokenIdStr] });
+  }, [qc, contract, tokenIdStr]);
+
+  useAuctionSSE(
+    auction && auction.id !== "optimistic" ? auction.id : undefined,
+    account ?? undefined,
+    {
+      onBidConfirmed: refetchAuction,
+      onOutbid: refetchAuction,
+      onAuctionExtended: refetchAuction,
+      onAuctionSettled: () => void invalidateAll(),
+      onAuctionCancelled: () => void invalidateAll(),
+    }
+  );
+
   return {
     // flags
     hasAnyListings,
@@ -0,0 +1,111 @@
+// src/lib/hooks/useMint.ts
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import { ERC721_DROP_ABI } from "@/src/lib/abis/ERC721DropABI";
+import { ERC1155_SINGLE_ABI } from "@/src/lib/abis/ERC1155SingleDropABI";
+import { requestSigner } from "@/src/lib/evm/getSigner";
+import { readError } from "@/src/lib/errors";
+
+/**
+ * Public mint (/mint/[contract]).
+ *
+ *   const { wallet, proof, mint } = useMint(contract, "erc721");
+ *   await mint({ quantity, phase: "presale", unitPriceWei });
+ *
+ * Presale mints fetch a Merkle proof from /api/collections/[contract]/presale-proof first and
+ * surface its ineligibility message. After the tx is mined the mint is recorded server-side.
+ */
+
+export type MintKind = "erc721" | "erc1155";
+export type MintPhase = "public" | "presale";
+
+export type WalletMintState = {
+  kind: MintKind;
+  minted: number;
+  presaleMinted: number | null;
+  mintedByWallet: number;
+};
+
+export type PresaleProof = {
+  address: string;
+  eligible: boolean;
+  reason: string | null;
+  message: string | null;
+  proof: string[] | null;
+  maxAllocation: number | null;
+  merkleRoot: string | null;
+};
+
+export function useMint(contract: string, kind: MintKind, opts: { hasPresale?: boolean } = {}) {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+  const account = auth.address ? ethers.getAddress(auth.address) : null;
+
+  const wallet = useQuery({
+    queryKey: ["mintWallet", contract.toLowerCase(), account?.toLowerCase() ?? null],
+    enabled: !!account,
+    queryFn: async () => {
+      const res = await fetch(`/api/mint/${contract}/wallet?address=${account}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load mint state"));
+      return (await res.json()) as WalletMintState;
+    },
+    refetchInterval: 15_000,
+  });
+
+  const proof = useQuery({
+    queryKey: ["presaleProof", contract.toLowerCase(), account?.toLowerCase() ?? null],
+    enabled: !!account && kind === "erc721" && !!opts.hasPresale,
+    queryFn: async () => {
+      const res = await fetch(`/api/collections/${contract}/presale-proof?address=${account}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to check presale eligibility"));
+      return (await res.json()) as PresaleProof;
+    },
+    staleTime: 60_000,
+  });
+
+  const mint = React.useCallback(
+    async (input: { quantity: number; phase: MintPhase; unitPriceWei: string }) => {
+      const signer = await requestSigner();
+      const minter = await signer.getAddress();
+      const value = BigInt(input.unitPriceWei) * BigInt(input.quantity);
+
+      let tx: ethers.ContractTransactionResponse;
+      if (kind === "erc1155") {
+        const c = new ethers.Contract(contract, ERC1155_SINGLE_ABI as ethers.InterfaceAbi, signer);
+        tx = await c.mint(BigInt(input.quantity), { value });
+      } else {
+        const c = new ethers.Contract(contract, ERC721_DROP_ABI as ethers.InterfaceAbi, signer);
+        if (input.phase === "presale") {
+          const res = await fetch(`/api/collections/${contract}/presale-proof?address=${minter}`, { cache: "no-store" });
+          if (!res.ok) throw new Error(await readError(res, "Failed to check presale eligibility"));
+          const p = (await res.json()) as PresaleProof;
+          if (!p.eligible || !p.proof) throw new Error(p.message || "This wallet can't mint in the presale.");
+          tx = await c.presaleMint(BigInt(input.quantity), p.proof, { value });
+        } else {
+          tx = await c.mint(BigInt(input.quantity), { value });
+        }
+      }
+
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) throw new Error("Mint transaction failed.");
+
+      // best effort: the token rows can also be recorded later from the same hash
+      const res = await fetch(`/api/mint/${contract}/record`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ txHash: tx.hash }),
+      }).catch(() => null);
+      const recorded = res?.ok ? ((await res.json()) as { tokenIds: string[] }) : null;
+
+      await qc.invalidateQueries({ queryKey: ["mintWallet", contract.toLowerCase()] });
+      return { txHash: tx.hash, tokenIds: recorded?.tokenIds ?? [] };
+    },
+    [contract, kind, qc]
+  );
+
+  return { account, wallet, proof, mint };
+}
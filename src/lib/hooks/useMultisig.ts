@@ -1,15 +1,46 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// src/lib/hooks/useMultisig.ts
 "use client";
 
 import * as React from "react";
+import { ethers } from "ethers";
 import { http, createPublicClient } from "viem";
 import { getAddress, isAddress } from "viem";
-import { MULTI_SIG_ABI } from "../contracts/multisig";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { MULTI_SIG_ABI } from "@/src/lib/abis/marketplace-core/multiSigABI";
+import { MARKETPLACE_CORE_ABI } from "@/src/lib/abis/marketplace-core/marketPlaceCoreABI";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import type { MultisigKind, MultisigProposalDTO, TreasuryState } from "@/src/lib/server/multisig";
+import { requestSigner } from "@/src/lib/evm/getSigner";
+import { readError } from "@/src/lib/errors";
 
 // env
 const MULTI_SIG_ADDRESS = (process.env.NEXT_PUBLIC_MULTI_SIG_ADDRESS || "") as `0x${string}`;
 const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "";
 
 export type UseMultisigOpts = { take?: number };
+export type { MultisigKind, MultisigProposalDTO, TreasuryState };
+
+export type ProposeInput =
+  | { kind: "native"; to: string; amount: string; description?: string }
+  | { kind: "erc20"; token: string; decimals: number; to: string; amount: string; description?: string }
+  | {
+      kind: "setConfig";
+      marketplace: string;
+      config: {
+        feeBps: string;
+        distributorShareBps: string;
+        feeRecipient: string;
+        rewardsDistributor: string;
+        stolenRegistry: string;
+        snipeExtension: string;
+      };
+      description?: string;
+    }
+  /** Any other marketplace admin call (pause, setCurrencyAllowed, grantRole…), pre-encoded. */
+  | { kind: "marketplace"; marketplace: string; data: string; description?: string };
+
+const marketIface = new ethers.Interface(MARKETPLACE_CORE_ABI as ethers.InterfaceAbi);
 
 export function useMultisig(opts: UseMultisigOpts = {}) {
   const take = Math.max(1, Math.min(opts.take ?? 20, 100));
@@ -20,7 +51,7 @@ export function useMultisig(opts: UseMultisigOpts = {}) {
   const [chainId, setChainId] = React.useState<number | null>(null);
   const [owners, setOwners] = React.useState<`0x${string}`[]>([]);
   const [required, setRequired] = React.useState<number>(0);
-  const [balanceWei, setBalanceWei] = React.useState<bigint>(0n);
+  const [balanceWei, setBalanceWei] = React.useState<bigint>(BigInt(0));
   const [txs, setTxs] = React.useState<
     {
       index: number;
@@ -190,3 +221,170 @@ export function useMultisig(opts: UseMultisigOpts = {}) {
     hasConfirmed, // <— expose
   };
 }
+
+export const TREASURY_KEY = "treasury";
+
+/** Treasury page state from /api/treasury (owners, balances, marketplace config, proposals). */
+export function useTreasury() {
+  return useQuery({
+    queryKey: [TREASURY_KEY],
+    queryFn: async () => {
+      const res = await fetch("/api/treasury", { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load treasury"));
+      return (await res.json()) as TreasuryState;
+    },
+    staleTime: 15_000,
+  });
+}
+
+/**
+ * Treasury writes. On-chain steps (propose, confirm, revoke, execute) are signed by the
+ * connected owner and recorded once mined; `sign` is an off-chain EIP-712 confirmation
+ * that `execute` later submits via executeWithSignatures.
+ *
+ *   const a = useTreasuryActions();
+ *   await a.propose({ kind: "native", to, amount: "12.5" });
+ *   await a.sign(proposal);      // or a.confirm(proposal) on-chain
+ *   await a.execute(proposal, threshold);
+ */
+export function useTreasuryActions() {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+
+  const record = React.useCallback(
+    async (body: Record<string, unknown>) => {
+      const res = await fetch("/api/treasury/record", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Mined, but recording the transaction failed."));
+      await qc.invalidateQueries({ queryKey: [TREASURY_KEY] });
+    },
+    [qc]
+  );
+
+  const send = React.useCallback(
+    async (
+      call: (c: ethers.Contract) => Promise<ethers.ContractTransactionResponse>,
+      extra: Record<string, unknown> = {},
+      failedId?: string
+    ) => {
+      if (!isAddress(MULTI_SIG_ADDRESS)) throw new Error("NEXT_PUBLIC_MULTI_SIG_ADDRESS is missing or invalid.");
+      await auth.ensureSignedIn();
+      const c = new ethers.Contract(MULTI_SIG_ADDRESS, MULTI_SIG_ABI as ethers.InterfaceAbi, await requestSigner());
+      const tx = await call(c);
+      try {
+        const receipt = await tx.wait();
+        if (!receipt || receipt.status !== 1) throw new Error("Multisig transaction failed.");
+      } catch (e) {
+        // a reverted execution is recorded so the proposal shows FAILED
+        if (failedId) await record({ txHash: tx.hash, failedId }).catch(() => {});
+        throw e;
+      }
+      await record({ txHash: tx.hash, ...extra });
+      return tx.hash;
+    },
+    [auth, record]
+  );
+
+  const propose = React.useCallback(
+    (input: ProposeInput) => {
+      const meta = { kind: input.kind, description: input.description?.trim() || undefined };
+      if (input.kind === "native") {
+        if (!ethers.isAddress(input.to)) throw new Error("Enter a valid recipient address.");
+        const value = ethers.parseEther(input.amount);
+        return send((c) => c.submitAndConfirm(ethers.ZeroAddress, input.to, value, "0x"), meta);
+      }
+      if (input.kind === "erc20") {
+        if (!ethers.isAddress(input.to)) throw new Error("Enter a valid recipient address.");
+        const value = ethers.parseUnits(input.amount, input.decimals);
+        return send((c) => c.submitAndConfirm(input.token, input.to, value, "0x"), meta);
+      }
+      if (input.kind === "marketplace") {
+        return send((c) => c.submitAndConfirm(ethers.ZeroAddress, input.marketplace, 0, input.data), meta);
+      }
+      const cfg = input.config;
+      const data = marketIface.encodeFunctionData("setConfig", [
+        cfg.feeBps,
+        cfg.distributorShareBps,
+        cfg.feeRecipient,
+        cfg.rewardsDistributor,
+        cfg.stolenRegistry,
+        cfg.snipeExtension,
+      ]);
+      return send((c) => c.submitAndConfirm(ethers.ZeroAddress, input.marketplace, 0, data), meta);
+    },
+    [send]
+  );
+
+  const confirm = React.useCallback(
+    (p: MultisigProposalDTO) => send((c) => c.confirmTransaction(p.index)),
+    [send]
+  );
+
+  const revoke = React.useCallback(
+    (p: MultisigProposalDTO) => send((c) => c.revokeConfirmation(p.index)),
+    [send]
+  );
+
+  const execute = React.useCallback(
+    (p: MultisigProposalDTO, threshold: number) => {
+      if (p.onChainCount >= threshold) return send((c) => c.executeTransaction(p.index), {}, p.id);
+      const sigs = p.signatures.slice(0, threshold);
+      if (sigs.length < threshold || !p.sigDeadline) throw new Error("Not enough approvals yet.");
+      return send(
+        (c) =>
+          c.executeWithSignatures(
+            p.index,
+            sigs.map((s) => s.owner),
+            sigs.map((s) => s.signature),
+            p.sigDeadline
+          ),
+        {},
+        p.id
+      );
+    },
+    [send]
+  );
+
+  const post = React.useCallback(
+    async (id: string, body: Record<string, unknown>, fallback: string) => {
+      const res = await fetch(`/api/treasury/${encodeURIComponent(id)}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error(await readError(res, fallback));
+      await qc.invalidateQueries({ queryKey: [TREASURY_KEY] });
+    },
+    [qc]
+  );
+
+  const sign = React.useCallback(
+    async (p: MultisigProposalDTO) => {
+      await auth.ensureSignedIn();
+      const res = await fetch(`/api/treasury/${encodeURIComponent(p.id)}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load signing data"));
+      const typed = (await res.json()) as {
+        domain: ethers.TypedDataDomain;
+        types: Record<string, ethers.TypedDataField[]>;
+        message: Record<string, unknown>;
+      };
+      const signer = await requestSigner();
+      const signature = await signer.signTypedData(typed.domain, typed.types, typed.message);
+      await post(p.id, { action: "sign", signature }, "Saving signature failed");
+    },
+    [auth, post]
+  );
+
+  const cancel = React.useCallback(
+    async (p: MultisigProposalDTO) => {
+      await auth.ensureSignedIn();
+      await post(p.id, { action: "cancel" }, "Cancel failed");
+    },
+    [auth, post]
+  );
+
+  return { propose, confirm, revoke, sign, execute, cancel };
+}
@@ -0,0 +1,155 @@
+// src/lib/hooks/useOffers.ts
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import { APPROVE_ERC_20_ABI } from "@/src/lib/requisites";
+import { buildOfferMessage, OFFER_CHAIN_ID, type OfferDTO, type OfferKindLabel } from "@/src/lib/offers";
+import { requestSigner } from "@/src/lib/evm/getSigner";
+import { readError } from "@/src/lib/errors";
+
+/**
+ * Off-chain offers (token / collection / trait).
+ *
+ *   const q = useOffers({ contract, tokenId });        // everything that applies to one token
+ *   const q = useOffers({ contract, kind: "TRAIT" });  // the collection-level book
+ *   const { makeOffer, cancelOffer } = useOfferActions();
+ *
+ * Making an offer = approve the marketplace for the amount (if needed) + sign the offer text.
+ * No funds move until a seller accepts and the bidder buys the reserved listing.
+ */
+
+export const OFFERS_KEY = "offers";
+
+export function useOffers(params: {
+  contract: string;
+  tokenId?: string | null;
+  kind?: OfferKindLabel | null;
+  bidder?: string | null;
+  enabled?: boolean;
+}) {
+  const { contract, tokenId, kind, bidder, enabled = true } = params;
+  return useQuery({
+    queryKey: [OFFERS_KEY, contract.toLowerCase(), tokenId ?? null, kind ?? null, bidder?.toLowerCase() ?? null],
+    queryFn: async () => {
+      const qs = new URLSearchParams({ contract });
+      if (tokenId) qs.set("tokenId", tokenId);
+      if (kind) qs.set("kind", kind);
+      if (bidder) qs.set("bidder", bidder);
+      const res = await fetch(`/api/offers?${qs.toString()}`, { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to load offers");
+      return (await res.json()) as { offers: OfferDTO[]; nftId: string | null };
+    },
+    enabled: enabled && !!contract,
+    staleTime: 15_000,
+  });
+}
+
+export type MakeOfferInput = {
+  kind: OfferKindLabel;
+  contract: string;
+  tokenId?: string | null;
+  traitType?: string | null;
+  traitValue?: string | null;
+  currency: { tokenAddress: string; decimals: number; symbol: string };
+  amount: string; // human units
+  days: number;
+};
+
+function getMarketplaceAddress() {
+  const addr = process.env.NEXT_PUBLIC_MARKETPLACE_ADDRESS;
+  if (!addr || !ethers.isAddress(addr)) {
+    throw new Error("Missing NEXT_PUBLIC_MARKETPLACE_ADDRESS (valid 0x address).");
+  }
+  return addr;
+}
+
+export function useOfferActions() {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+
+  const invalidate = React.useCallback(
+    () => qc.invalidateQueries({ queryKey: [OFFERS_KEY] }),
+    [qc]
+  );
+
+  const makeOffer = React.useCallback(
+    async (input: MakeOfferInput): Promise<OfferDTO> => {
+      const bidder = ethers.getAddress(await auth.ensureSignedIn());
+      const amount = ethers.parseUnits(input.amount, input.currency.decimals);
+      if (amount <= BigInt(0)) throw new Error("Enter an amount greater than zero.");
+
+      // Funds stay in the wallet, but the marketplace must be able to pull them at purchase time.
+      const signer = await requestSigner();
+      if ((await signer.getAddress()).toLowerCase() !== bidder.toLowerCase()) {
+        throw new Error("Connected wallet does not match your session. Reconnect and try again.");
+      }
+      const erc20 = new ethers.Contract(input.currency.tokenAddress, APPROVE_ERC_20_ABI, signer);
+      const market = getMarketplaceAddress();
+      const [balance, allowance] = (await Promise.all([
+        erc20.balanceOf(bidder),
+        erc20.allowance(bidder, market),
+      ])) as [bigint, bigint];
+      if (balance < amount) throw new Error(`Insufficient ${input.currency.symbol} balance.`);
+      if (allowance < amount) {
+        const tx = await erc20.approve(market, amount);
+        await tx.wait();
+      }
+
+      const fields = {
+        kind: input.kind,
+        bidder,
+        contract: ethers.getAddress(input.contract),
+        tokenId: input.kind === "TOKEN" ? input.tokenId ?? null : null,
+        traitType: input.kind === "TRAIT" ? input.traitType?.trim() ?? null : null,
+        traitValue: input.kind === "TRAIT" ? input.traitValue?.trim() ?? null : null,
+        currency: ethers.getAddress(input.currency.tokenAddress),
+        amount: amount.toString(),
+        expiresAt: new Date(Date.now() + input.days * 86_400_000).toISOString(),
+        nonce: crypto.randomUUID(),
+        chainId: OFFER_CHAIN_ID,
+      };
+      const signature = await auth.signMessage(buildOfferMessage(fields), bidder);
+
+      const res = await fetch("/api/offers", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ ...fields, signature }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Could not create offer"));
+      const json = (await res.json()) as { offer: OfferDTO };
+      await invalidate();
+      return json.offer;
+    },
+    [auth, invalidate]
+  );
+
+  const cancelOffer = React.useCallback(
+    async (offerId: string) => {
+      await auth.ensureSignedIn();
+      const res = await fetch(`/api/offers/${encodeURIComponent(offerId)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(await readError(res, "Could not cancel offer"));
+      await invalidate();
+    },
+    [auth, invalidate]
+  );
+
+  /** Seller side: call after the matching listing tx is mined. */
+  const confirmAccept = React.useCallback(
+    async (offerId: string, txHash: string) => {
+      await auth.ensureSignedIn();
+      const res = await fetch(`/api/offers/${encodeURIComponent(offerId)}/accept`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ txHash }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Could not accept offer"));
+      await invalidate();
+    },
+    [auth, invalidate]
+  );
+
+  return { makeOffer, cancelOffer, confirmAccept, account: auth.address };
+}
@@ -0,0 +1,88 @@
+// src/lib/hooks/useRewards.ts
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import { REWARD_DISTRIBUTOR_ABI } from "@/src/lib/abis/marketplace-core/rewardDistributorABI";
+import type { RewardBalance, RewardClaimDTO, RewardVoucher } from "@/src/lib/server/rewards";
+import { requestSigner } from "@/src/lib/evm/getSigner";
+import { readError } from "@/src/lib/errors";
+
+/**
+ * Holder rewards (/rewards).
+ *
+ *   const { summary, claim } = useRewards();
+ *   await claim(["cur_1", "cur_2"]); // one claimMany tx across currencies
+ *
+ * Vouchers are signed server-side for the signed-in wallet; the claim is logged once mined.
+ */
+
+export type { RewardBalance, RewardClaimDTO };
+
+export type RewardsSummary = {
+  address: string;
+  distributor: string;
+  collection: string;
+  shares: number;
+  balances: RewardBalance[];
+  claims: RewardClaimDTO[];
+};
+
+export function useRewards() {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+  const account = auth.address ? ethers.getAddress(auth.address) : null;
+
+  const summary = useQuery({
+    queryKey: ["rewards", account?.toLowerCase() ?? null],
+    enabled: !!account,
+    queryFn: async () => {
+      const res = await fetch(`/api/rewards?address=${account}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load rewards"));
+      return (await res.json()) as RewardsSummary;
+    },
+    refetchInterval: 30_000,
+  });
+
+  const claim = React.useCallback(
+    async (currencyIds: string[]) => {
+      await auth.ensureSignedIn();
+      const res = await fetch("/api/rewards/vouchers", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ currencyIds }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Could not prepare the claim"));
+      const { distributor, vouchers } = (await res.json()) as { distributor: string; vouchers: RewardVoucher[] };
+
+      const signer = await requestSigner();
+      const c = new ethers.Contract(distributor, REWARD_DISTRIBUTOR_ABI as ethers.InterfaceAbi, signer);
+      const tx: ethers.ContractTransactionResponse =
+        vouchers.length === 1
+          ? await c.claim(vouchers[0].token, vouchers[0].total, vouchers[0].deadline, vouchers[0].signature)
+          : await c.claimMany(
+              vouchers.map((v) => v.token),
+              vouchers.map((v) => v.total),
+              vouchers.map((v) => v.deadline),
+              vouchers.map((v) => v.signature)
+            );
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) throw new Error("Claim transaction failed.");
+
+      // best effort: the rewards indexer logs the same Claimed events
+      await fetch("/api/rewards/record", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ txHash: tx.hash }),
+      }).catch(() => null);
+
+      await qc.invalidateQueries({ queryKey: ["rewards"] });
+      return { txHash: tx.hash, claimed: vouchers.length };
+    },
+    [auth, qc]
+  );
+
+  return { account, summary, claim };
+}
@@ -0,0 +1,44 @@
+// src/lib/hooks/useSaleStats.ts
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { CollectionStatsDTO, PriceHistoryPointDTO, StatsInterval } from "@/src/lib/server/sale-stats";
+
+/**
+ * Sales time-series (CollectionSaleBucket roll-ups + raw sale points).
+ *
+ *   const q = useCollectionStats(contract, "day");          // ?currency defaults to native
+ *   const h = useNftPriceHistory(contract, tokenId);
+ */
+
+export type { CollectionStatsDTO, PriceHistoryPointDTO, StatsInterval };
+
+export function useCollectionStats(contract: string, interval: StatsInterval, currency = "native") {
+  return useQuery({
+    queryKey: ["collectionStats", contract.toLowerCase(), interval, currency],
+    queryFn: async () => {
+      const res = await fetch(
+        `/api/collections/${encodeURIComponent(contract)}/stats?interval=${interval}&currency=${encodeURIComponent(currency)}`
+      );
+      if (!res.ok) throw new Error("Failed to load collection stats");
+      return (await res.json()) as CollectionStatsDTO;
+    },
+    enabled: !!contract,
+    staleTime: 60_000,
+  });
+}
+
+export function useNftPriceHistory(contract: string, tokenId: string) {
+  return useQuery({
+    queryKey: ["priceHistory", contract.toLowerCase(), tokenId],
+    queryFn: async () => {
+      const res = await fetch(
+        `/api/nft/${encodeURIComponent(contract)}/${encodeURIComponent(tokenId)}/price-history`
+      );
+      if (!res.ok) throw new Error("Failed to load price history");
+      return ((await res.json()) as { items: PriceHistoryPointDTO[] }).items;
+    },
+    enabled: !!contract && !!tokenId,
+    staleTime: 60_000,
+  });
+}
@@ -1,14 +1,34 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// src/lib/hooks/useStolenRegistryAdmin.ts
 "use client";
 
 import * as React from "react";
+import { ethers } from "ethers";
 import { http, createPublicClient } from "viem";
 import { getAddress, isAddress } from "viem";
-import { STOLEN_REGISTRY_ABI } from "@/lib/abis/marketplace-core/stolenRegistryABI";
+import { useQueryClient } from "@tanstack/react-query";
+import { STOLEN_REGISTRY_ABI } from "@/src/lib/abis/marketplace-core/stolenRegistryABI";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import { STOLEN_KEY } from "@/src/lib/hooks/useStolenStatus";
+import { requestSigner } from "@/src/lib/evm/getSigner";
 
 const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "";
 const STOLEN_REGISTRY_ADDRESS = (process.env.NEXT_PUBLIC_STOLEN_REGISTRY_ADDRESS || "") as `0x${string}`;
 
+export type FlagInput = { contract: string; tokenId: string; reason: string; evidenceUrl?: string | null };
+export type ClearInput = { contract: string; tokenId: string };
+
+/** bytes32 stored on-chain for a flag; the full text stays in StolenItem.notes / StolenEvent. */
+export const stolenReasonHash = (reason: string) => ethers.id(reason.trim() || "stolen");
+
+/**
+ * StolenRegistry admin: roles / pause state (reads) and flag / clear (writes, single or batch).
+ * Writes are signed by the connected reporter/clearer; once mined the tx is recorded
+ * server-side so StolenItem and the StolenEvent audit trail follow the registry.
+ */
 export function useStolenRegistryAdmin() {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
   const [address] = React.useState<`0x${string}` | null>(() =>
     isAddress(STOLEN_REGISTRY_ADDRESS) ? (getAddress(STOLEN_REGISTRY_ADDRESS) as `0x${string}`) : null
   );
@@ -77,6 +97,61 @@ export function useStolenRegistryAdmin() {
     load();
   }, [load]);
 
+  const send = React.useCallback(
+    async (call: (c: ethers.Contract) => Promise<ethers.ContractTransactionResponse>) => {
+      if (!address) throw new Error("NEXT_PUBLIC_STOLEN_REGISTRY_ADDRESS is missing or invalid.");
+      await auth.ensureSignedIn();
+      const c = new ethers.Contract(address, STOLEN_REGISTRY_ABI as ethers.InterfaceAbi, await requestSigner());
+      const tx = await call(c);
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) throw new Error("Registry transaction failed.");
+
+      const res = await fetch("/api/admin/stolen/record", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ txHash: tx.hash }),
+      });
+      const json = (await res.json().catch(() => null)) as { flagged?: number; cleared?: number; error?: string } | null;
+      if (!res.ok) throw new Error(json?.error || "Mined, but recording the transaction failed.");
+
+      await qc.invalidateQueries({ queryKey: [STOLEN_KEY] });
+      return { txHash: tx.hash, flagged: json?.flagged ?? 0, cleared: json?.cleared ?? 0 };
+    },
+    [address, auth, qc]
+  );
+
+  const flag = React.useCallback(
+    (items: FlagInput[]) => {
+      if (!items.length) throw new Error("Nothing to flag.");
+      return send((c) =>
+        items.length === 1
+          ? c.flag(items[0].contract, items[0].tokenId, stolenReasonHash(items[0].reason), items[0].evidenceUrl ?? "")
+          : c.flagBatch(
+              items.map((i) => i.contract),
+              items.map((i) => i.tokenId),
+              items.map((i) => stolenReasonHash(i.reason)),
+              items.map((i) => i.evidenceUrl ?? "")
+            )
+      );
+    },
+    [send]
+  );
+
+  const clear = React.useCallback(
+    (items: ClearInput[]) => {
+      if (!items.length) throw new Error("Nothing to clear.");
+      return send((c) =>
+        items.length === 1
+          ? c.clear(items[0].contract, items[0].tokenId)
+          : c.clearBatch(
+              items.map((i) => i.contract),
+              items.map((i) => i.tokenId)
+            )
+      );
+    },
+    [send]
+  );
+
   return {
     address,
     chainId,
@@ -88,5 +163,7 @@ export function useStolenRegistryAdmin() {
     loading,
     error,
     refresh: load,
+    flag,
+    clear,
   };
 }
@@ -0,0 +1,118 @@
+// src/lib/hooks/useStolenStatus.ts
+"use client";
+
+import * as React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import type {
+  StolenModerator,
+  StolenQueueTab,
+  StolenReportDTO,
+  StolenStatusDTO,
+} from "@/src/lib/server/stolen";
+import { readError } from "@/src/lib/errors";
+
+/**
+ * Stolen status of one token (registry flag + reports filed here).
+ *
+ *   const q = useStolenStatus(contract, tokenId);
+ *   if (q.data?.state === "flagged") …   // marketplace would revert with StolenAsset
+ *   const report = useReportStolen(contract, tokenId);
+ *   await report({ evidenceUrl, notes });
+ *   const dispute = useDisputeStolen(contract, tokenId);   // current owner
+ *   const q = useStolenQueue("pending");                   // /admin/stolen
+ */
+
+export type { StolenStatusDTO, StolenQueueTab, StolenReportDTO, StolenModerator };
+
+export const STOLEN_KEY = "stolen";
+
+export function useStolenStatus(contract: string, tokenId: string) {
+  return useQuery({
+    queryKey: [STOLEN_KEY, contract.toLowerCase(), tokenId],
+    queryFn: async () => {
+      const res = await fetch(
+        `/api/nft/${encodeURIComponent(contract)}/${encodeURIComponent(tokenId)}/stolen`,
+        { cache: "no-store" }
+      );
+      if (!res.ok) throw new Error("Failed to load stolen status");
+      return (await res.json()) as StolenStatusDTO;
+    },
+    enabled: !!contract && !!tokenId,
+    staleTime: 30_000,
+  });
+}
+
+export function useReportStolen(contract: string, tokenId: string) {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+
+  return React.useCallback(
+    async (input: { evidenceUrl: string; notes?: string }) => {
+      await auth.ensureSignedIn();
+      const res = await fetch(`/api/nft/${encodeURIComponent(contract)}/${encodeURIComponent(tokenId)}/stolen`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Report failed"));
+      await qc.invalidateQueries({ queryKey: [STOLEN_KEY, contract.toLowerCase(), tokenId] });
+    },
+    [auth, qc, contract, tokenId]
+  );
+}
+
+export function useDisputeStolen(contract: string, tokenId: string) {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+
+  return React.useCallback(
+    async (reason: string) => {
+      await auth.ensureSignedIn();
+      const res = await fetch(
+        `/api/nft/${encodeURIComponent(contract)}/${encodeURIComponent(tokenId)}/stolen/dispute`,
+        {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ reason }),
+        }
+      );
+      if (!res.ok) throw new Error(await readError(res, "Dispute failed"));
+      await qc.invalidateQueries({ queryKey: [STOLEN_KEY, contract.toLowerCase(), tokenId] });
+    },
+    [auth, qc, contract, tokenId]
+  );
+}
+
+export function useStolenQueue(tab: StolenQueueTab) {
+  return useQuery({
+    queryKey: [STOLEN_KEY, "queue", tab],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/stolen?tab=${tab}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load reports"));
+      return (await res.json()) as { registry: string | null; viewer: StolenModerator; reports: StolenReportDTO[] };
+    },
+    retry: false,
+  });
+}
+
+export function useStolenReview() {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+
+  const review = React.useCallback(
+    async (id: string, action: "confirm" | "dismiss" | "reject-dispute", reason: string) => {
+      await auth.ensureSignedIn();
+      const res = await fetch(`/api/admin/stolen/${encodeURIComponent(id)}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ action, reason }),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Review failed"));
+      await qc.invalidateQueries({ queryKey: [STOLEN_KEY] });
+    },
+    [auth, qc]
+  );
+
+  return { review };
+}
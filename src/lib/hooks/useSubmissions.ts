@@ -0,0 +1,135 @@
+// src/lib/hooks/useSubmissions.ts
+"use client";
+
+import * as React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useWalletAuth } from "@/src/lib/hooks/useWalletAuth";
+import type { ContractInfo, SubmissionDTO } from "@/src/lib/server/submissions";
+import { requestSigner } from "@/src/lib/evm/getSigner";
+import { readError } from "@/src/lib/errors";
+
+/**
+ * Collection submissions (existing contracts).
+ *
+ *   const { data } = useMySubmissions();          // fee + my submissions
+ *   const { preview, payFee, submit } = useSubmissionActions();
+ *   const q = useSubmissionQueue("PENDING");      // admin
+ *   const { review } = useSubmissionReview();     // admin approve / reject
+ */
+
+export const SUBMISSIONS_KEY = "submissions";
+
+export type SubmissionPreview = ContractInfo & {
+  isOwner: boolean;
+  alreadyListed: boolean;
+  submission: { status: string; statusReason: string | null } | null;
+};
+
+export type SubmitCollectionInput = {
+  contract: string;
+  feeTxHash?: string | null;
+  description?: string;
+  logoUrl?: string | null;
+  coverUrl?: string | null;
+  website?: string;
+  x?: string;
+  instagram?: string;
+  telegram?: string;
+};
+
+export function useMySubmissions() {
+  const { address } = useWalletAuth();
+  return useQuery({
+    queryKey: [SUBMISSIONS_KEY, "mine", address?.toLowerCase() ?? null],
+    queryFn: async () => {
+      const res = await fetch("/api/submissions", { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load submissions"));
+      return (await res.json()) as {
+        fee: { recipient: string | null; amountWei: string };
+        submissions: SubmissionDTO[];
+      };
+    },
+    staleTime: 30_000,
+  });
+}
+
+export function useSubmissionActions() {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+
+  const preview = React.useCallback(async (contract: string): Promise<SubmissionPreview> => {
+    const res = await fetch(`/api/submissions/preview?contract=${encodeURIComponent(contract)}`, {
+      cache: "no-store",
+    });
+    if (!res.ok) throw new Error(await readError(res, "Could not read contract"));
+    return (await res.json()) as SubmissionPreview;
+  }, []);
+
+  /** Sends the listing fee from the connected wallet; resolves with the mined tx hash. */
+  const payFee = React.useCallback(
+    async (fee: { recipient: string | null; amountWei: string }) => {
+      const wallet = await auth.ensureSignedIn();
+      if (!fee.recipient) throw new Error("Listing fee recipient is not configured.");
+      const signer = await requestSigner();
+      if ((await signer.getAddress()).toLowerCase() !== wallet.toLowerCase()) {
+        throw new Error("Connected wallet does not match your session. Reconnect and try again.");
+      }
+      const tx = await signer.sendTransaction({ to: fee.recipient, value: BigInt(fee.amountWei) });
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) throw new Error("Fee transaction failed.");
+      return tx.hash;
+    },
+    [auth]
+  );
+
+  const submit = React.useCallback(
+    async (input: SubmitCollectionInput): Promise<SubmissionDTO> => {
+      await auth.ensureSignedIn();
+      const res = await fetch("/api/submissions", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) throw new Error(await readError(res, "Could not submit collection"));
+      const json = (await res.json()) as { submission: SubmissionDTO };
+      await qc.invalidateQueries({ queryKey: [SUBMISSIONS_KEY] });
+      return json.submission;
+    },
+    [auth, qc]
+  );
+
+  return { preview, payFee, submit, account: auth.address };
+}
+
+export function useSubmissionQueue(status: "PENDING" | "APPROVED" | "REJECTED") {
+  return useQuery({
+    queryKey: [SUBMISSIONS_KEY, "queue", status],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/submissions?status=${status}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load submissions"));
+      return (await res.json()) as { submissions: SubmissionDTO[] };
+    },
+    retry: false,
+  });
+}
+
+export function useSubmissionReview() {
+  const auth = useWalletAuth();
+  const qc = useQueryClient();
+
+  const review = React.useCallback(
+    async (id: string, action: "approve" | "reject", reason?: string) => {
+      await auth.ensureSignedIn();
+      const res = await fetch(`/api/admin/submissions/${encodeURIComponent(id)}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ action, reason }),
+      });
+      if (!res.ok) throw new Error(await readError(res, `Could not ${action} submission`));
+      await qc.invalidateQueries({ queryKey: [SUBMISSIONS_KEY] });
+    },
+    [auth, qc]
+  );
+
+  return { review };
+}
@@ -1,30 +1,36 @@
-import useSWR from "swr";
+import { useQuery } from "@tanstack/react-query";
 
 type UserBrief = {
+  exists: boolean;
+  walletAddress: string;
+  username: string | null;
   profileAvatar: string;
+  profileBanner: string | null;
+  bio: string | null;
   updatedAt: string; // ISO string
 };
 
 const fetcher = (url: string) =>
   fetch(url, { cache: "no-store" }).then((res) => {
     if (!res.ok) throw new Error("Network response was not ok");
-    return res.json();
+    return res.json() as Promise<UserBrief>;
   });
 
 export function useUserByWallet(address?: string) {
   const shouldFetch = !!address;
 
-const { data, error, isLoading, mutate } = useSWR<UserBrief>(
-  shouldFetch ? `/api/user-info?address=${encodeURIComponent(address!)}` : null,
-  fetcher,
-  { revalidateOnFocus: true, revalidateOnReconnect: true, revalidateIfStale: true }
-);
-
+  const { data, error, isLoading, refetch } = useQuery({
+    queryKey: ["userInfo", (address || "").toLowerCase()],
+    queryFn: () => fetcher(`/api/user-info?address=${encodeURIComponent(address!)}`),
+    enabled: shouldFetch,
+    refetchOnWindowFocus: true,
+    refetchOnReconnect: true,
+  });
 
   return {
     user: data,
     isLoading,
     error,
-    mutate, // you can call this after a profile PATCH to force-refresh immediately
+    mutate: refetch, // you can call this after a profile PATCH to force-refresh immediately
   };
 }
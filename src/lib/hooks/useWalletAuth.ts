@@ -0,0 +1,120 @@
+// src/lib/hooks/useWalletAuth.ts
+"use client";
+
+import * as React from "react";
+import { ethers } from "ethers";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useActiveAccount } from "thirdweb/react";
+import { useUnifiedAccount } from "@/src/lib/useUnifiedAccount";
+import { buildSiweMessage, SIWE_CHAIN_ID } from "@/src/lib/siwe";
+
+/**
+ * Wallet session (SIWE) for API calls that must prove wallet ownership.
+ * - Signs with Decent Wallet's injected provider inside DW, Thirdweb's account otherwise.
+ * - Session lives in an HTTP-only cookie; fetch() sends it automatically (same-origin).
+ *
+ *   const auth = useWalletAuth();
+ *   await auth.ensureSignedIn();   // prompts a signature only when needed
+ *   await fetch("/api/…", { method: "PATCH", … });
+ */
+
+const SESSION_KEY = ["authSession"] as const;
+
+async function fetchSession(): Promise<string | null> {
+  const res = await fetch("/api/auth/session", { cache: "no-store" });
+  if (!res.ok) return null;
+  const json = (await res.json().catch(() => null)) as { address?: string | null } | null;
+  return json?.address ?? null;
+}
+
+export function useWalletAuth() {
+  const acct = useUnifiedAccount();
+  const thirdweb = useActiveAccount();
+  const qc = useQueryClient();
+
+  const sessionQ = useQuery({
+    queryKey: SESSION_KEY,
+    queryFn: fetchSession,
+    staleTime: 60_000,
+  });
+
+  const sessionAddress = sessionQ.data ?? null;
+  const isSignedIn =
+    !!acct.address &&
+    !!sessionAddress &&
+    sessionAddress.toLowerCase() === acct.address.toLowerCase();
+
+  const signMessage = React.useCallback(
+    async (message: string, address: string): Promise<string> => {
+      if (acct.isDecentWallet) {
+        const eth = window.ethereum;
+        if (!eth?.request) throw new Error("Decent Wallet provider not found.");
+        return (await eth.request({
+          method: "personal_sign",
+          params: [ethers.hexlify(ethers.toUtf8Bytes(message)), address],
+        })) as string;
+      }
+      if (!thirdweb) throw new Error("Connect your wallet first.");
+      return thirdweb.signMessage({ message });
+    },
+    [acct.isDecentWallet, thirdweb]
+  );
+
+  const signIn = React.useCallback(async (): Promise<string> => {
+    const address = acct.address;
+    if (!address) throw new Error("Connect your wallet first.");
+
+    const nonceRes = await fetch("/api/auth/nonce", { cache: "no-store" });
+    const { nonce } = (await nonceRes.json().catch(() => ({}))) as { nonce?: string };
+    if (!nonceRes.ok || !nonce) throw new Error("Could not start sign-in.");
+
+    const message = buildSiweMessage({
+      domain: window.location.host,
+      address: ethers.getAddress(address),
+      uri: window.location.origin,
+      chainId: SIWE_CHAIN_ID,
+      nonce,
+      issuedAt: new Date().toISOString(),
+    });
+
+    const signature = await signMessage(message, address);
+
+    const res = await fetch("/api/auth/verify", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ message, signature }),
+    });
+    const json = (await res.json().catch(() => ({}))) as { address?: string; error?: string };
+    if (!res.ok || !json.address) throw new Error(json.error || "Sign-in failed");
+
+    qc.setQueryData(SESSION_KEY, json.address);
+    return json.address;
+  }, [acct.address, signMessage, qc]);
+
+  /** Resolves with the session wallet, prompting a signature only if the session is missing/stale. */
+  const ensureSignedIn = React.useCallback(async (): Promise<string> => {
+    const address = acct.address;
+    if (!address) throw new Error("Connect your wallet first.");
+
+    const current = await qc.fetchQuery({ queryKey: SESSION_KEY, queryFn: fetchSession, staleTime: 10_000 });
+    if (current && current.toLowerCase() === address.toLowerCase()) return current;
+    return signIn();
+  }, [acct.address, qc, signIn]);
+
+  const signOut = React.useCallback(async () => {
+    await fetch("/api/auth/session", { method: "DELETE" }).catch(() => null);
+    qc.setQueryData(SESSION_KEY, null);
+  }, [qc]);
+
+  return {
+    address: acct.address,
+    sessionAddress,
+    isSignedIn,
+    loading: sessionQ.isLoading,
+    signIn,
+    ensureSignedIn,
+    signOut,
+    /** personal_sign with the connected wallet (same signer as sign-in). */
+    signMessage,
+  };
+}
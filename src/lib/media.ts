@@ -1,14 +1,21 @@
 // src/lib/media.ts
 export type MediaType = "video" | "image" | "unknown";
 
-export function ipfsToHttp(url?: string | null) {
+export const DEFAULT_IPFS_GATEWAY = (process.env.NEXT_PUBLIC_IPFS_GATEWAY || "https://ipfs.io/ipfs/").replace(/\/?$/, "/");
+export const ARWEAVE_GATEWAY = "https://arweave.net/";
+
+/** `ipfs://…` / `ar://…` → HTTP; anything else is returned as-is. `gateway` ends with "/ipfs/". */
+export function ipfsToHttp(url?: string | null, gateway: string = DEFAULT_IPFS_GATEWAY) {
   if (!url) return null;
   const u = String(url).trim();
   if (!u) return null;
 
   if (u.startsWith("ipfs://")) {
-    const cid = u.replace("ipfs://", "");
-    return `https://ipfs.io/ipfs/${cid}`;
+    const cid = u.replace(/^ipfs:\/\/(ipfs\/)?/, "");
+    return `${gateway}${cid}`;
+  }
+  if (u.startsWith("ar://")) {
+    return `${ARWEAVE_GATEWAY}${u.slice("ar://".length)}`;
   }
   return u;
 }
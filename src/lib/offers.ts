@@ -0,0 +1,80 @@
+// src/lib/offers.ts
+/* Off-chain offer messages.
+   Shared by the browser (build → sign) and the server (rebuild → verify),
+   so both sides agree on the exact text being signed.
+*/
+
+export const OFFER_CHAIN_ID = 52014;
+export const OFFER_MAX_DAYS = 30;
+
+export type OfferKindLabel = "TOKEN" | "COLLECTION" | "TRAIT";
+
+export type OfferFields = {
+  kind: OfferKindLabel;
+  bidder: string;
+  contract: string;
+  tokenId?: string | null; // TOKEN only
+  traitType?: string | null; // TRAIT only
+  traitValue?: string | null; // TRAIT only
+  currency: string; // ERC20 token address
+  amount: string; // base units, per item
+  expiresAt: string; // ISO
+  nonce: string;
+  chainId: number;
+};
+
+/** What the offer targets, in words (used in the signed text and in the UI). */
+export function describeOfferTarget(f: Pick<OfferFields, "kind" | "tokenId" | "traitType" | "traitValue">) {
+  if (f.kind === "TOKEN") return `Token #${f.tokenId}`;
+  if (f.kind === "TRAIT") return `Any item with ${f.traitType}: ${f.traitValue}`;
+  return "Any item in the collection";
+}
+
+export function buildOfferMessage(f: OfferFields): string {
+  return [
+    "Panthart offer",
+    "",
+    "Signing creates an offer. It does not move funds until a seller accepts and you complete the purchase.",
+    "",
+    `Bidder: ${f.bidder}`,
+    `Collection: ${f.contract}`,
+    `Target: ${describeOfferTarget(f)}`,
+    `Currency: ${f.currency}`,
+    `Amount: ${f.amount}`,
+    `Expires At: ${f.expiresAt}`,
+    `Chain ID: ${f.chainId}`,
+    `Nonce: ${f.nonce}`,
+  ].join("\n");
+}
+
+/** Trait match against NFT.attributes (OpenSea-style [{ trait_type, value }]). */
+export function hasTrait(attributes: unknown, traitType: string, traitValue: string) {
+  if (!Array.isArray(attributes)) return false;
+  const t = traitType.trim().toLowerCase();
+  const v = traitValue.trim().toLowerCase();
+  return attributes.some((a: { trait_type?: unknown; traitType?: unknown; value?: unknown } | null) => {
+    const at = String(a?.trait_type ?? a?.traitType ?? "").trim().toLowerCase();
+    const av = String(a?.value ?? "").trim().toLowerCase();
+    return at === t && av === v;
+  });
+}
+
+/** Offer row as returned by /api/offers. */
+export type OfferDTO = {
+  id: string;
+  kind: OfferKindLabel;
+  contract: string;
+  tokenId: string | null;
+  traitType: string | null;
+  traitValue: string | null;
+  bidderAddress: string;
+  currency: { id: string; symbol: string; decimals: number; tokenAddress: string | null };
+  amount: string; // base units
+  amountHuman: string;
+  expiresAt: string;
+  status: "ACTIVE" | "ACCEPTED" | "FILLED" | "CANCELLED" | "EXPIRED" | "INVALID";
+  invalidReason: string | null;
+  listingId: string | null;
+  acceptedNftId: string | null;
+  createdAt: string;
+};
@@ -0,0 +1,74 @@
+// lib/server/auction-events.ts
+/* Typed publishers on top of sse.ts.
+   Payload shapes mirror what src/lib/hooks/useAuctionSSE.ts parses:
+   - auction room: bid_pending, bid_confirmed, bid_failed, auction_extended,
+                   auction_settled, auction_cancelled
+   - wallet room:  bid_pending, bid_confirmed, bid_failed (bidder), outbid (previous top bidder)
+*/
+import { auctionTopic, publish, walletTopic } from "./sse";
+
+export type BidEvent = {
+  txHash: string;
+  from: string;
+  auctionId: string;
+  amount: string; // base units
+  currencyId: string | null;
+  at: number;
+  blockNumber?: number;
+};
+
+export function publishBidPending(ev: BidEvent) {
+  publish(auctionTopic(ev.auctionId), "bid_pending", ev);
+  publish(walletTopic(ev.from), "bid_pending", ev);
+}
+
+export function publishBidFailed(ev: { txHash: string; from: string; auctionId: string; reason?: string }) {
+  const payload = { ...ev, at: Date.now() };
+  publish(auctionTopic(ev.auctionId), "bid_failed", payload);
+  publish(walletTopic(ev.from), "bid_failed", payload);
+}
+
+/** Confirmed bid; also tells the previous top bidder they were outbid. */
+export function publishBidConfirmed(ev: BidEvent, previousBidder?: string | null) {
+  publish(auctionTopic(ev.auctionId), "bid_confirmed", ev);
+  publish(walletTopic(ev.from), "bid_confirmed", ev);
+
+  if (previousBidder && previousBidder.toLowerCase() !== ev.from.toLowerCase()) {
+    publish(walletTopic(previousBidder), "outbid", {
+      auctionId: ev.auctionId,
+      by: ev.from,
+      amount: ev.amount,
+      currencyId: ev.currencyId,
+      txHash: ev.txHash,
+      at: ev.at,
+    });
+  }
+}
+
+/** Anti-snipe extension: a late bid pushed endTime forward. */
+export function publishAuctionExtended(auctionId: string, newEndTimeSec: number) {
+  publish(auctionTopic(auctionId), "auction_extended", { auctionId, newEndTimeSec });
+}
+
+export function publishAuctionSettled(ev: {
+  auctionId: string;
+  winner: string | null;
+  amount: string | null;
+  txHash: string;
+  blockNumber?: number;
+}) {
+  publish(auctionTopic(ev.auctionId), "auction_settled", {
+    ...ev,
+    status: "ENDED",
+    price: ev.amount,
+    at: Date.now(),
+  });
+}
+
+export function publishAuctionCancelled(ev: { auctionId: string; txHash: string; blockNumber?: number }) {
+  publish(auctionTopic(ev.auctionId), "auction_cancelled", {
+    ...ev,
+    status: "CANCELLED",
+    at: Date.now(),
+  });
+}
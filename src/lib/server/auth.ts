@@ -0,0 +1,203 @@
+// src/lib/server/auth.ts
+/* Wallet session auth (SIWE).
+   - Nonce: random value in a short-lived, HMAC-signed, HTTP-only cookie.
+   - Session: HMAC-signed { address, exp } in an HTTP-only cookie.
+   - Signatures: EOA via ethers.verifyMessage, contract wallets via EIP-1271.
+   No DB state: the cookie signature (AUTH_SECRET) is the source of truth.
+*/
+import "server-only";
+import crypto from "crypto";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { parseSiweMessage, SIWE_CHAIN_ID, type SiweFields } from "@/src/lib/siwe";
+import { getProvider } from "@/src/lib/server/chain/provider";
+
+export const SESSION_COOKIE = "panthart_session";
+export const NONCE_COOKIE = "panthart_siwe_nonce";
+
+const SESSION_TTL_SEC = 7 * 24 * 60 * 60;
+const NONCE_TTL_SEC = 10 * 60;
+
+const EIP1271_MAGIC = "0x1626ba7e";
+const EIP1271_ABI = [
+  "function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)",
+] as const;
+
+function getSecret(): string {
+  const s = process.env.AUTH_SECRET;
+  if (!s || s.length < 16) {
+    throw new Error("[auth] AUTH_SECRET is missing (min 16 chars). Set it in .env (dev) or your hosting env (prod).");
+  }
+  return s;
+}
+
+/* ---------------- signed cookie values ---------------- */
+
+function hmac(value: string) {
+  return crypto.createHmac("sha256", getSecret()).update(value).digest("base64url");
+}
+
+function seal(payload: Record<string, unknown>) {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${hmac(body)}`;
+}
+
+function unseal<T>(token: string | undefined | null): T | null {
+  if (!token) return null;
+  const [body, sig] = token.split(".");
+  if (!body || !sig) return null;
+
+  const expected = hmac(body);
+  const a = Buffer.from(sig);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) return null;
+
+  try {
+    const data = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as T & { exp?: number };
+    if (typeof data.exp === "number" && data.exp < Math.floor(Date.now() / 1000)) return null;
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+function cookieOpts(maxAge: number) {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge,
+  };
+}
+
+/* ---------------- nonce ---------------- */
+
+export function newNonce() {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+export function setNonceCookie(res: NextResponse, nonce: string) {
+  const exp = Math.floor(Date.now() / 1000) + NONCE_TTL_SEC;
+  res.cookies.set(NONCE_COOKIE, seal({ nonce, exp }), cookieOpts(NONCE_TTL_SEC));
+}
+
+/* ---------------- signature verification ---------------- */
+
+/** EOA signature, falling back to EIP-1271 when `address` is a contract wallet. */
+export async function verifyWalletSignature(address: string, message: string, signature: string) {
+  try {
+    const recovered = ethers.verifyMessage(message, signature);
+    if (recovered.toLowerCase() === address.toLowerCase()) return true;
+  } catch {
+    // malformed for ECDSA — may still be a contract-wallet signature
+  }
+
+  try {
+    const provider = getProvider();
+    const code = await provider.getCode(address);
+    if (!code || code === "0x") return false;
+
+    const wallet = new ethers.Contract(address, EIP1271_ABI, provider);
+    const res = (await wallet.isValidSignature(ethers.hashMessage(message), signature)) as string;
+    return String(res).toLowerCase() === EIP1271_MAGIC;
+  } catch {
+    return false;
+  }
+}
+
+export type SiweCheck =
+  | { ok: true; address: string; fields: SiweFields }
+  | { ok: false; error: string };
+
+/** Validate a signed SIWE message against the nonce cookie + request host. */
+export async function verifySiwe(
+  message: string,
+  signature: string,
+  host: string | null
+): Promise<SiweCheck> {
+  const fields = parseSiweMessage(message);
+  if (!fields) return { ok: false, error: "Malformed sign-in message" };
+
+  const jar = await cookies();
+  const stored = unseal<{ nonce: string }>(jar.get(NONCE_COOKIE)?.value);
+  if (!stored || stored.nonce !== fields.nonce) {
+    return { ok: false, error: "Sign-in nonce expired. Please try again." };
+  }
+
+  if (host && fields.domain !== host) return { ok: false, error: "Domain mismatch" };
+  if (fields.chainId !== SIWE_CHAIN_ID) return { ok: false, error: "Wrong chain" };
+
+  const now = Date.now();
+  const issued = Date.parse(fields.issuedAt);
+  if (!Number.isFinite(issued) || Math.abs(now - issued) > NONCE_TTL_SEC * 1000) {
+    return { ok: false, error: "Sign-in message is stale" };
+  }
+  if (fields.expirationTime && Date.parse(fields.expirationTime) < now) {
+    return { ok: false, error: "Sign-in message expired" };
+  }
+
+  const valid = await verifyWalletSignature(fields.address, message, signature);
+  if (!valid) return { ok: false, error: "Invalid signature" };
+
+  return { ok: true, address: ethers.getAddress(fields.address), fields };
+}
+
+/* ---------------- session ---------------- */
+
+export function setSession(res: NextResponse, address: string) {
+  const exp = Math.floor(Date.now() / 1000) + SESSION_TTL_SEC;
+  res.cookies.set(
+    SESSION_COOKIE,
+    seal({ address: ethers.getAddress(address), exp }),
+    cookieOpts(SESSION_TTL_SEC)
+  );
+  res.cookies.set(NONCE_COOKIE, "", cookieOpts(0));
+}
+
+export function clearSession(res: NextResponse) {
+  res.cookies.set(SESSION_COOKIE, "", cookieOpts(0));
+}
+
+/** Checksummed wallet of the signed-in caller, or null. Usable from any route handler. */
+export async function getSessionWallet(): Promise<string | null> {
+  const jar = await cookies();
+  const data = unseal<{ address: string }>(jar.get(SESSION_COOKIE)?.value);
+  if (!data?.address || !ethers.isAddress(data.address)) return null;
+  return ethers.getAddress(data.address);
+}
+
+/**
+ * Route guard: `const auth = await requireWallet(); if (auth instanceof NextResponse) return auth;`
+ */
+export async function requireWallet(): Promise<string | NextResponse> {
+  const wallet = await getSessionWallet();
+  if (!wallet) {
+    return NextResponse.json({ error: "Sign in with your wallet first." }, { status: 401 });
+  }
+  return wallet;
+}
+
+/** Wallets allowed into admin routes: ADMIN_WALLETS="0xabc…,0xdef…". */
+export function isAdminWallet(address: string | null | undefined) {
+  if (!address) return false;
+  const list = (process.env.ADMIN_WALLETS || "")
+    .split(",")
+    .map((a) => a.trim().toLowerCase())
+    .filter(Boolean);
+  return list.includes(address.toLowerCase());
+}
+
+/**
+ * Admin route guard (session wallet must be in ADMIN_WALLETS):
+ * `const admin = await requireAdmin(); if (admin instanceof NextResponse) return admin;`
+ */
+export async function requireAdmin(): Promise<string | NextResponse> {
+  const wallet = await requireWallet();
+  if (wallet instanceof NextResponse) return wallet;
+  if (!isAdminWallet(wallet)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return wallet;
+}
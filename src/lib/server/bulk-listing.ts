@@ -0,0 +1,257 @@
+// src/lib/server/bulk-listing.ts
+/* Lookups behind the bulk list / bulk cancel tools (src/lib/hooks/useBulkListing.ts).
+   The txs are sent from the owner's wallet one by one; the server only says what the
+   selection is:
+   - bulk list: which of the picked NFTs `owner` can list right now (owns it, not flagged,
+     no active listing/auction of theirs), their traits for trait pricing, and each
+     collection's floor per currency from CollectionStatsSnapshot for floor pricing.
+   - bulk cancel: `seller`'s active listings/auctions among the picked ids.
+*/
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { AuctionStatus, ListingStatus, NftStatus } from "@/src/lib/generated/prisma/client";
+import { getStolenStates, stolenKey } from "@/src/lib/server/stolen";
+import { HttpError } from "@/src/lib/server/errors";
+
+export const BULK_MAX = 50;
+
+export class BulkListingError extends HttpError {}
+
+export type BulkTrait = { type: string; value: string };
+
+export type BulkListItemDTO = {
+  nftId: string;
+  contract: string;
+  tokenId: string;
+  name: string | null;
+  imageUrl: string | null;
+  standard: "ERC721" | "ERC1155";
+  /** Units the owner holds (always 1 for ERC721). */
+  balance: number;
+  collectionId: string | null;
+  collectionName: string | null;
+  traits: BulkTrait[];
+};
+
+export type BulkSkipped = { nftId: string; label: string; reason: string };
+
+export type BulkListPreview = {
+  items: BulkListItemDTO[];
+  skipped: BulkSkipped[];
+  /** collectionId → currency key ("native" or Currency.id) → floor in base units. */
+  floors: Record<string, Record<string, string>>;
+};
+
+export type BulkCancelItemDTO = {
+  kind: "LISTING" | "AUCTION";
+  /** Chain listing / auction id. */
+  id: string;
+  nftId: string;
+  contract: string;
+  tokenId: string;
+  name: string | null;
+  standard: "ERC721" | "ERC1155";
+  /** Auctions only: someone has bid (the contract may refuse the cancel). */
+  hasBids: boolean;
+};
+
+function assertAddress(addr: string, what: string) {
+  if (!ethers.isAddress(addr)) throw new BulkListingError(`Invalid ${what}`);
+  return ethers.getAddress(addr);
+}
+
+function cap(ids: string[]) {
+  const uniq = [...new Set(ids)];
+  if (uniq.length > BULK_MAX) throw new BulkListingError(`Bulk actions are limited to ${BULK_MAX} items`);
+  return uniq;
+}
+
+/** Both metadata shapes: OpenSea `attributes` array and flat `traits` object (see server/traits.ts). */
+function readTraits(attributes: unknown, traits: unknown): BulkTrait[] {
+  const out = new Map<string, BulkTrait>();
+  const put = (type: unknown, value: unknown) => {
+    const t = String(type ?? "").trim();
+    const v = value == null ? "" : String(value).trim();
+    if (t && v) out.set(`${t}\u0000${v}`, { type: t, value: v });
+  };
+
+  if (Array.isArray(attributes)) {
+    for (const a of attributes) {
+      if (a && typeof a === "object") {
+        const { trait_type, value } = a as { trait_type?: unknown; value?: unknown };
+        put(trait_type, value);
+      }
+    }
+  }
+  if (traits && typeof traits === "object" && !Array.isArray(traits)) {
+    for (const [k, v] of Object.entries(traits as Record<string, unknown>)) put(k, v);
+  }
+  return [...out.values()];
+}
+
+const label = (n: { name: string | null; tokenId: string }) => n.name || `#${n.tokenId}`;
+
+/** What `owner` can bulk-list out of `nftIds`, plus the floors to price against. */
+export async function getBulkListItems(owner: string, nftIds: string[]): Promise<BulkListPreview> {
+  await prismaReady;
+  const seller = assertAddress(owner, "owner");
+  const ids = cap(nftIds);
+  if (!ids.length) return { items: [], skipped: [], floors: {} };
+
+  const now = new Date();
+  const rows = await prisma.nFT.findMany({
+    where: { id: { in: ids }, status: NftStatus.SUCCESS },
+    select: {
+      id: true,
+      contract: true,
+      tokenId: true,
+      name: true,
+      imageUrl: true,
+      standard: true,
+      attributes: true,
+      traits: true,
+      collectionId: true,
+      collection: { select: { name: true } },
+      owner: { select: { walletAddress: true } },
+      listingEntries: {
+        where: {
+          sellerAddress: { equals: seller, mode: "insensitive" },
+          status: ListingStatus.ACTIVE,
+          OR: [{ endTime: null }, { endTime: { gt: now } }],
+        },
+        select: { id: true },
+        take: 1,
+      },
+      auctionEntries: {
+        where: {
+          sellerAddress: { equals: seller, mode: "insensitive" },
+          status: AuctionStatus.ACTIVE,
+          endTime: { gt: now },
+        },
+        select: { id: true },
+        take: 1,
+      },
+    },
+  });
+
+  const erc1155 = rows.filter((r) => r.standard === "ERC1155");
+  const holdings = erc1155.length
+    ? await prisma.erc1155Holding.findMany({
+        where: {
+          ownerAddress: { equals: seller, mode: "insensitive" },
+          balance: { gt: 0 },
+          OR: erc1155.map((r) => ({ contract: r.contract, tokenId: r.tokenId })),
+        },
+        select: { contract: true, tokenId: true, balance: true },
+      })
+    : [];
+  const balanceOf = new Map(holdings.map((h) => [`${h.contract.toLowerCase()}:${h.tokenId}`, h.balance]));
+  const stolen = await getStolenStates(rows.map((r) => ({ contract: r.contract, tokenId: r.tokenId })));
+
+  const items: BulkListItemDTO[] = [];
+  const skipped: BulkSkipped[] = [];
+  const found = new Set(rows.map((r) => r.id));
+  for (const id of ids) {
+    if (!found.has(id)) skipped.push({ nftId: id, label: id, reason: "Not found" });
+  }
+
+  for (const r of rows) {
+    const is1155 = r.standard === "ERC1155";
+    const balance = is1155
+      ? balanceOf.get(`${r.contract.toLowerCase()}:${r.tokenId}`) ?? 0
+      : r.owner?.walletAddress?.toLowerCase() === seller.toLowerCase()
+      ? 1
+      : 0;
+
+    let reason: string | null = null;
+    if (balance < 1) reason = "Not owned by this wallet";
+    else if (stolen.get(stolenKey(r.contract, r.tokenId)) === "flagged") reason = "Flagged as stolen";
+    else if (r.listingEntries.length) reason = "Already listed";
+    else if (r.auctionEntries.length) reason = "On auction";
+
+    if (reason) {
+      skipped.push({ nftId: r.id, label: label(r), reason });
+      continue;
+    }
+
+    items.push({
+      nftId: r.id,
+      contract: r.contract,
+      tokenId: r.tokenId,
+      name: r.name,
+      imageUrl: r.imageUrl,
+      standard: is1155 ? "ERC1155" : "ERC721",
+      balance,
+      collectionId: r.collectionId,
+      collectionName: r.collection?.name ?? null,
+      traits: readTraits(r.attributes, r.traits),
+    });
+  }
+
+  const collectionIds = [...new Set(items.map((i) => i.collectionId).filter((x): x is string => !!x))];
+  const snapshots = collectionIds.length
+    ? await prisma.collectionStatsSnapshot.findMany({
+        where: { collectionId: { in: collectionIds }, floorPrice: { not: null } },
+        select: { collectionId: true, currencyKey: true, floorPrice: true },
+      })
+    : [];
+  const floors: BulkListPreview["floors"] = {};
+  for (const s of snapshots) {
+    (floors[s.collectionId] ??= {})[s.currencyKey] = s.floorPrice!.toFixed(0);
+  }
+
+  return { items, skipped, floors };
+}
+
+/** `seller`'s active listings / auctions among the given chain ids. */
+export async function getBulkCancelItems(
+  sellerAddress: string,
+  opts: { listingIds?: string[]; auctionIds?: string[] }
+): Promise<BulkCancelItemDTO[]> {
+  await prismaReady;
+  const seller = assertAddress(sellerAddress, "seller");
+  const listingIds = cap(opts.listingIds ?? []);
+  const auctionIds = cap(opts.auctionIds ?? []);
+  if (listingIds.length + auctionIds.length > BULK_MAX) {
+    throw new BulkListingError(`Bulk actions are limited to ${BULK_MAX} items`);
+  }
+
+  const sellerWhere = { equals: seller, mode: "insensitive" as const };
+  const nftSelect = { select: { id: true, contract: true, tokenId: true, name: true, standard: true } } as const;
+
+  const [listings, auctions] = await Promise.all([
+    listingIds.length
+      ? prisma.marketplaceListing.findMany({
+          where: { id: { in: listingIds }, sellerAddress: sellerWhere, status: ListingStatus.ACTIVE },
+          select: { id: true, nft: nftSelect },
+        })
+      : [],
+    auctionIds.length
+      ? prisma.auction.findMany({
+          where: { id: { in: auctionIds }, sellerAddress: sellerWhere, status: AuctionStatus.ACTIVE },
+          select: { id: true, highestBidder: true, nft: nftSelect },
+        })
+      : [],
+  ]);
+
+  const out = (
+    kind: BulkCancelItemDTO["kind"],
+    id: string,
+    n: (typeof listings)[number]["nft"],
+    hasBids: boolean
+  ): BulkCancelItemDTO => ({
+    kind,
+    id,
+    nftId: n.id,
+    contract: n.contract,
+    tokenId: n.tokenId,
+    name: n.name,
+    standard: n.standard === "ERC1155" ? "ERC1155" : "ERC721",
+    hasBids,
+  });
+
+  return [
+    ...listings.map((l) => out("LISTING", l.id, l.nft, false)),
+    ...auctions.map((a) => out("AUCTION", a.id, a.nft, !!a.highestBidder)),
+  ];
+}
@@ -0,0 +1,191 @@
+// src/lib/server/cart.ts
+/* Cart + sweep lookups. The cart itself lives client-side (src/lib/hooks/useCart.tsx); the
+   server only resolves which active listing an item refers to and what it costs.
+   - One listing per NFT: native before ERC20, then cheapest (ERC1155 can have several).
+   - Tokens flagged stolen are never offered (the contract refuses them anyway).
+   - Checkout re-reads every listing on-chain before paying, so this can be a little stale.
+*/
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { CurrencyKind, ListingStatus, Prisma } from "@/src/lib/generated/prisma/client";
+import { getStolenStates, stolenKey } from "@/src/lib/server/stolen";
+import { HttpError } from "@/src/lib/server/errors";
+
+export const SWEEP_MAX = 50;
+const LOOKUP_MAX = 100;
+
+export class CartError extends HttpError {}
+
+export type CartListingDTO = {
+  listingId: string;
+  nftId: string;
+  contract: string;
+  tokenId: string;
+  name: string | null;
+  imageUrl: string | null;
+  standard: string;
+  sellerAddress: string;
+  quantity: number;
+  /** Total price of the listing in the currency's base units. */
+  price: string;
+  currency: { id: string; symbol: string; decimals: number; tokenAddress: string | null };
+};
+
+const listingSelect = {
+  id: true,
+  nftId: true,
+  sellerAddress: true,
+  quantity: true,
+  priceEtnWei: true,
+  priceTokenAmount: true,
+  currency: { select: { id: true, symbol: true, decimals: true, kind: true, tokenAddress: true } },
+  nft: { select: { contract: true, tokenId: true, name: true, imageUrl: true, standard: true } },
+} satisfies Prisma.MarketplaceListingSelect;
+
+type ListingRow = Prisma.MarketplaceListingGetPayload<{ select: typeof listingSelect }>;
+
+function liveListingWhere(now: Date): Prisma.MarketplaceListingWhereInput {
+  return {
+    status: ListingStatus.ACTIVE,
+    startTime: { lte: now },
+    OR: [{ endTime: null }, { endTime: { gt: now } }],
+  };
+}
+
+/** Checkout buys by chain listing id; rows from older syncs carry a cuid until the indexer replaces them. */
+const hasChainId = (r: ListingRow) => /^\d+$/.test(r.id);
+
+function toDTO(r: ListingRow): CartListingDTO {
+  const native = !r.currency || r.currency.kind === CurrencyKind.NATIVE;
+  return {
+    listingId: r.id,
+    nftId: r.nftId,
+    contract: r.nft.contract,
+    tokenId: r.nft.tokenId,
+    name: r.nft.name,
+    imageUrl: r.nft.imageUrl,
+    standard: r.nft.standard ?? "ERC721",
+    sellerAddress: r.sellerAddress,
+    quantity: r.quantity,
+    price: (native ? r.priceEtnWei : r.priceTokenAmount ?? new Prisma.Decimal(0)).toFixed(0),
+    currency: native
+      ? { id: "native", symbol: "ETN", decimals: 18, tokenAddress: null }
+      : {
+          id: r.currency!.id,
+          symbol: r.currency!.symbol,
+          decimals: r.currency!.decimals ?? 18,
+          tokenAddress: r.currency!.tokenAddress,
+        },
+  };
+}
+
+async function withoutFlagged(rows: CartListingDTO[]) {
+  const states = await getStolenStates(rows.map((r) => ({ contract: r.contract, tokenId: r.tokenId })));
+  return rows.filter((r) => states.get(stolenKey(r.contract, r.tokenId)) !== "flagged");
+}
+
+const byPrice = (a: CartListingDTO, b: CartListingDTO) => {
+  if ((a.currency.id === "native") !== (b.currency.id === "native")) return a.currency.id === "native" ? -1 : 1;
+  const d = BigInt(a.price) - BigInt(b.price);
+  return d < BigInt(0) ? -1 : d > BigInt(0) ? 1 : 0;
+};
+
+/**
+ * Current listings for cart items: by listing id (re-validating a saved cart) and/or by
+ * NFT id (adding from a grid card). Listings that ended or sold are simply missing.
+ */
+export async function getCartListings(opts: { listingIds?: string[]; nftIds?: string[] }) {
+  await prismaReady;
+  const listingIds = (opts.listingIds ?? []).slice(0, LOOKUP_MAX);
+  const nftIds = (opts.nftIds ?? []).slice(0, LOOKUP_MAX);
+  if (!listingIds.length && !nftIds.length) return [];
+
+  const now = new Date();
+  const rows = await prisma.marketplaceListing.findMany({
+    where: {
+      AND: [
+        liveListingWhere(now),
+        { OR: [{ id: { in: listingIds } }, { nftId: { in: nftIds } }] },
+      ],
+    },
+    select: listingSelect,
+  });
+
+  const dtos = rows.filter(hasChainId).map(toDTO).sort(byPrice);
+  const picked = new Map<string, CartListingDTO>();
+  for (const d of dtos) {
+    if (listingIds.includes(d.listingId)) picked.set(d.listingId, d);
+  }
+  const perNft = new Set([...picked.values()].map((d) => d.nftId));
+  for (const d of dtos) {
+    if (!nftIds.includes(d.nftId) || perNft.has(d.nftId)) continue;
+    perNft.add(d.nftId);
+    picked.set(d.listingId, d);
+  }
+  return withoutFlagged([...picked.values()]);
+}
+
+/**
+ * Cheapest live listings of a collection in one currency, up to `count` items and (when
+ * given) a total `budget` in base units. `buyer`'s own listings are skipped.
+ */
+export async function getSweepListings(
+  contract: string,
+  opts: { currency: string; count: number; budget?: string | null; buyer?: string | null }
+) {
+  await prismaReady;
+  const count = Math.floor(opts.count);
+  if (!Number.isFinite(count) || count < 1) throw new CartError("count must be at least 1");
+  if (count > SWEEP_MAX) throw new CartError(`Sweeps are limited to ${SWEEP_MAX} items`);
+  if (opts.budget != null && !/^\d+$/.test(opts.budget)) throw new CartError("Invalid budget");
+  if (opts.buyer && !ethers.isAddress(opts.buyer)) throw new CartError("Invalid buyer");
+
+  const col = await prisma.collection.findFirst({
+    where: { contract: { equals: contract, mode: "insensitive" } },
+    select: { id: true },
+  });
+  if (!col) throw new CartError("Collection not found", 404);
+
+  const native = opts.currency === "native";
+  if (!native) {
+    const cur = await prisma.currency.findFirst({
+      where: { id: opts.currency, active: true, kind: CurrencyKind.ERC20 },
+      select: { id: true },
+    });
+    if (!cur) throw new CartError("Unknown currency");
+  }
+
+  const now = new Date();
+  const rows = await prisma.marketplaceListing.findMany({
+    where: {
+      AND: [
+        liveListingWhere(now),
+        { nft: { collectionId: col.id } },
+        native
+          ? { OR: [{ currencyId: null }, { currency: { kind: CurrencyKind.NATIVE } }] }
+          : { currencyId: opts.currency },
+        ...(opts.buyer ? [{ sellerAddress: { not: ethers.getAddress(opts.buyer) } }] : []),
+      ],
+    },
+    orderBy: native ? [{ priceEtnWei: "asc" }, { id: "asc" }] : [{ priceTokenAmount: "asc" }, { id: "asc" }],
+    // headroom for flagged tokens and duplicate ERC1155 listings
+    take: count * 2 + 10,
+    select: listingSelect,
+  });
+
+  const candidates = await withoutFlagged(rows.filter(hasChainId).map(toDTO));
+  const budget = opts.budget != null ? BigInt(opts.budget) : null;
+  const seen = new Set<string>();
+  const picked: CartListingDTO[] = [];
+  let total = BigInt(0);
+  for (const c of candidates) {
+    if (picked.length >= count) break;
+    if (seen.has(c.nftId)) continue;
+    const next = total + BigInt(c.price);
+    if (budget != null && next > budget) break; // sorted by price: nothing later fits either
+    seen.add(c.nftId);
+    picked.push(c);
+    total = next;
+  }
+  return { listings: picked, total: total.toString() };
+}
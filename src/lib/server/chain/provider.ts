@@ -0,0 +1,29 @@
+// src/lib/server/chain/provider.ts
+/* Shared JSON-RPC provider for server-side chain reads (receipts, eth_call, logs). */
+import { ethers } from "ethers";
+
+export function getRpcUrl() {
+  return (
+    process.env.ETN_RPC_URL ||
+    process.env.RPC_URL ||
+    process.env.NEXT_PUBLIC_RPC_URL ||
+    "https://rpc.ankr.com/electroneum"
+  );
+}
+
+let provider: ethers.JsonRpcProvider | null = null;
+export function getProvider() {
+  provider ??= new ethers.JsonRpcProvider(getRpcUrl(), undefined, { staticNetwork: true });
+  return provider;
+}
+
+/** Indexer scripts may point at their own node (archive / higher log limits) via INDEXER_RPC_URL. */
+export function getIndexerRpcUrl() {
+  return process.env.INDEXER_RPC_URL || getRpcUrl();
+}
+
+let indexerProvider: ethers.JsonRpcProvider | null = null;
+export function getIndexerProvider() {
+  indexerProvider ??= new ethers.JsonRpcProvider(getIndexerRpcUrl(), undefined, { staticNetwork: true });
+  return indexerProvider;
+}
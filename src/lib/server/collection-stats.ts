@@ -0,0 +1,291 @@
+// src/lib/server/collection-stats.ts
+/* Collection stats materializer (CollectionStatsSnapshot).
+   - One row per collection × currency (currencyKey "native" or a Currency.id, as in
+     sale-stats): floor of live listings, all-time volume and 24h / 7d / 30d volumes with
+     the window before each, all in the currency's base units.
+   - Collection.ownersCount, plus the native floorPrice / volume / change24h columns, are
+     written on the same pass so older readers of those columns stay correct.
+   - Listing, sale and transfer writes call markCollectionStatsStale(); the worker
+     (scripts/collection-stats.ts) refreshes flagged collections quickly and everything else
+     once it is older than the max age, since windows roll and listings expire on their own.
+   - verifyCollectionStats() diffs snapshots against the live queries in src/lib/collections.ts.
+*/
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { Prisma } from "@/src/lib/generated/prisma/client";
+import { getLiveCollectionStats } from "@/src/lib/collections";
+
+const REFRESH_BATCH = 50;
+
+const DAY_MS = 24 * 3600_000;
+export const STATS_WINDOWS = { "24h": DAY_MS, "7d": 7 * DAY_MS, "30d": 30 * DAY_MS } as const;
+export type StatsWindow = keyof typeof STATS_WINDOWS;
+
+/** Flag the collections of the matching NFTs for the next refresh. */
+export async function markCollectionStatsStale(nft: Prisma.NFTWhereInput) {
+  await prisma.collection.updateMany({ where: { nfts: { some: nft } }, data: { statsStale: true } });
+}
+
+/* ---------------- refresh ---------------- */
+
+const LISTING_KEY_SQL = Prisma.sql`CASE WHEN ml."currencyId" IS NULL OR c."kind" = 'NATIVE' THEN 'native' ELSE ml."currencyId" END`;
+const LISTING_PRICE_SQL = Prisma.sql`CASE WHEN ml."currencyId" IS NULL OR c."kind" = 'NATIVE' THEN ml."priceEtnWei" ELSE ml."priceTokenAmount" END`;
+const SALE_KEY_SQL = Prisma.sql`CASE WHEN s."currencyId" IS NULL OR c."kind" = 'NATIVE' THEN 'native' ELSE s."currencyId" END`;
+const SALE_PRICE_SQL = Prisma.sql`CASE WHEN s."currencyId" IS NULL OR c."kind" = 'NATIVE' THEN s."priceEtnWei" ELSE COALESCE(s."priceTokenAmount", 0) END`;
+
+type FloorRow = { collectionId: string; currencyKey: string; floorPrice: string | null; listedCount: number };
+type VolumeRow = {
+  collectionId: string;
+  currencyKey: string;
+  volumeAllTime: string;
+  salesCount: number;
+  volume24h: string;
+  volumePrev24h: string;
+  volume7d: string;
+  volumePrev7d: string;
+  volume30d: string;
+  volumePrev30d: string;
+};
+
+function windowSumSql(from: Date, to?: Date) {
+  return Prisma.sql`COALESCE(SUM(${SALE_PRICE_SQL}) FILTER (WHERE s."timestamp" >= ${from}${
+    to ? Prisma.sql` AND s."timestamp" < ${to}` : Prisma.empty
+  }), 0)::text`;
+}
+
+function pctChange(curr: number, prev: number): number {
+  if (prev <= 0) return curr > 0 ? 100 : 0;
+  return ((curr - prev) / prev) * 100;
+}
+
+const toEtn = (wei: string | null | undefined) => (wei ? Number(ethers.formatUnits(wei, 18)) : 0);
+
+/** Recompute every snapshot of these collections (plus their ownersCount). */
+async function refreshBatch(collectionIds: string[]) {
+  const now = new Date();
+  const ago = (ms: number) => new Date(now.getTime() - ms);
+
+  // Clear the flag first: a write landing mid-pass sets it again and is picked up next time.
+  await prisma.collection.updateMany({ where: { id: { in: collectionIds } }, data: { statsStale: false } });
+
+  const [floors, volumes, owners] = await Promise.all([
+    prisma.$queryRaw<FloorRow[]>(Prisma.sql`
+      SELECT n."collectionId" AS "collectionId",
+             ${LISTING_KEY_SQL} AS "currencyKey",
+             MIN(${LISTING_PRICE_SQL})::text AS "floorPrice",
+             COUNT(*)::int AS "listedCount"
+      FROM "MarketplaceListing" ml
+      JOIN "NFT" n ON n."id" = ml."nftId"
+      LEFT JOIN "Currency" c ON c."id" = ml."currencyId"
+      WHERE ml."status" = 'ACTIVE'
+        AND ml."startTime" <= ${now}
+        AND (ml."endTime" IS NULL OR ml."endTime" > ${now})
+        AND n."collectionId" IN (${Prisma.join(collectionIds)})
+      GROUP BY 1, 2
+    `),
+    prisma.$queryRaw<VolumeRow[]>(Prisma.sql`
+      SELECT n."collectionId" AS "collectionId",
+             ${SALE_KEY_SQL} AS "currencyKey",
+             COALESCE(SUM(${SALE_PRICE_SQL}), 0)::text AS "volumeAllTime",
+             COUNT(*)::int AS "salesCount",
+             ${windowSumSql(ago(STATS_WINDOWS["24h"]))} AS "volume24h",
+             ${windowSumSql(ago(2 * STATS_WINDOWS["24h"]), ago(STATS_WINDOWS["24h"]))} AS "volumePrev24h",
+             ${windowSumSql(ago(STATS_WINDOWS["7d"]))} AS "volume7d",
+             ${windowSumSql(ago(2 * STATS_WINDOWS["7d"]), ago(STATS_WINDOWS["7d"]))} AS "volumePrev7d",
+             ${windowSumSql(ago(STATS_WINDOWS["30d"]))} AS "volume30d",
+             ${windowSumSql(ago(2 * STATS_WINDOWS["30d"]), ago(STATS_WINDOWS["30d"]))} AS "volumePrev30d"
+      FROM "MarketplaceSale" s
+      JOIN "NFT" n ON n."id" = s."nftId"
+      LEFT JOIN "Currency" c ON c."id" = s."currencyId"
+      WHERE n."collectionId" IN (${Prisma.join(collectionIds)})
+      GROUP BY 1, 2
+    `),
+    // ERC721 owners from NFT.ownerId; ERC1155 rows keep their first minter there, so
+    // their holders come from Erc1155Holding instead.
+    prisma.$queryRaw<{ collectionId: string; owners: number }[]>(Prisma.sql`
+      SELECT o."collectionId", COUNT(DISTINCT o."owner")::int AS "owners"
+      FROM (
+        SELECT n."collectionId", u."walletAddress" AS "owner"
+        FROM "NFT" n
+        JOIN "User" u ON u."id" = n."ownerId"
+        WHERE n."collectionId" IN (${Prisma.join(collectionIds)})
+          AND COALESCE(n."standard", 'ERC721') <> 'ERC1155'
+        UNION ALL
+        SELECT n."collectionId", h."ownerAddress" AS "owner"
+        FROM "Erc1155Holding" h
+        JOIN "NFT" n ON n."contract" = h."contract" AND n."tokenId" = h."tokenId"
+        WHERE n."collectionId" IN (${Prisma.join(collectionIds)})
+          AND h."balance" > 0
+      ) o
+      GROUP BY o."collectionId"
+    `),
+  ]);
+
+  type Snapshot = Omit<Prisma.CollectionStatsSnapshotUncheckedCreateInput, "id">;
+  const byCollection = new Map<string, Map<string, Snapshot>>();
+  const entry = (collectionId: string, currencyKey: string) => {
+    let m = byCollection.get(collectionId);
+    if (!m) byCollection.set(collectionId, (m = new Map()));
+    let s = m.get(currencyKey);
+    if (!s) m.set(currencyKey, (s = { collectionId, currencyKey, computedAt: now }));
+    return s;
+  };
+
+  for (const f of floors) {
+    Object.assign(entry(f.collectionId, f.currencyKey), { floorPrice: f.floorPrice, listedCount: f.listedCount });
+  }
+  for (const { collectionId, currencyKey, ...v } of volumes) Object.assign(entry(collectionId, currencyKey), v);
+  const ownersById = new Map(owners.map((o) => [o.collectionId, o.owners]));
+
+  for (const collectionId of collectionIds) {
+    const snaps = [...(byCollection.get(collectionId)?.values() ?? [])];
+    const native = byCollection.get(collectionId)?.get("native");
+    const volume24h = toEtn(native?.volume24h?.toString());
+    const volumePrev24h = toEtn(native?.volumePrev24h?.toString());
+
+    await prisma.$transaction([
+      prisma.collectionStatsSnapshot.deleteMany({
+        where: { collectionId, currencyKey: { notIn: snaps.map((s) => s.currencyKey) } },
+      }),
+      ...snaps.map((s) => {
+        // every column is written so a currency whose listings/sales went away resets to zero
+        const data = {
+          floorPrice: s.floorPrice ?? null,
+          listedCount: s.listedCount ?? 0,
+          volumeAllTime: s.volumeAllTime ?? "0",
+          salesCount: s.salesCount ?? 0,
+          volume24h: s.volume24h ?? "0",
+          volumePrev24h: s.volumePrev24h ?? "0",
+          volume7d: s.volume7d ?? "0",
+          volumePrev7d: s.volumePrev7d ?? "0",
+          volume30d: s.volume30d ?? "0",
+          volumePrev30d: s.volumePrev30d ?? "0",
+          computedAt: now,
+        };
+        return prisma.collectionStatsSnapshot.upsert({
+          where: { collectionId_currencyKey: { collectionId, currencyKey: s.currencyKey } },
+          update: data,
+          create: { collectionId, currencyKey: s.currencyKey, ...data },
+        });
+      }),
+      prisma.collection.update({
+        where: { id: collectionId },
+        data: {
+          statsComputedAt: now,
+          ownersCount: ownersById.get(collectionId) ?? 0,
+          floorPrice: toEtn(native?.floorPrice?.toString()),
+          volume: toEtn(native?.volumeAllTime?.toString()),
+          change24h: pctChange(volume24h, volumePrev24h),
+        },
+      }),
+    ]);
+  }
+}
+
+/** Recompute the snapshots of these collections, in batches. */
+export async function refreshCollectionStats(collectionIds: string[]) {
+  await prismaReady;
+  for (let i = 0; i < collectionIds.length; i += REFRESH_BATCH) {
+    await refreshBatch(collectionIds.slice(i, i + REFRESH_BATCH));
+  }
+  return collectionIds.length;
+}
+
+/** Flagged collections first, then never-computed ones, then anything older than `maxAgeMs`. */
+export async function findCollectionsForStatsRefresh(opts: { maxAgeMs: number; limit?: number }) {
+  await prismaReady;
+  const rows = await prisma.collection.findMany({
+    where: {
+      OR: [
+        { statsStale: true },
+        { statsComputedAt: null },
+        { statsComputedAt: { lt: new Date(Date.now() - opts.maxAgeMs) } },
+      ],
+    },
+    orderBy: [{ statsStale: "desc" }, { statsComputedAt: { sort: "asc", nulls: "first" } }],
+    take: opts.limit ?? 500,
+    select: { id: true },
+  });
+  return rows.map((r) => r.id);
+}
+
+/* ---------------- read ---------------- */
+
+export type NativeCollectionStats = {
+  floorPrice: number | null; // ETN
+  volume: number; // ETN
+  ownersCount: number;
+  computedAt: string | null;
+};
+
+/** Native snapshot for one collection (the header), refreshed first when flagged or missing. */
+export async function getNativeCollectionStats(collectionId: string): Promise<NativeCollectionStats> {
+  await prismaReady;
+  const col = await prisma.collection.findUnique({
+    where: { id: collectionId },
+    select: { statsStale: true, statsComputedAt: true },
+  });
+  if (col && (col.statsStale || !col.statsComputedAt)) {
+    // serve the last snapshot rather than failing the page
+    await refreshCollectionStats([collectionId]).catch((e) => console.error("[collection-stats] refresh failed:", e));
+  }
+
+  const [snap, row] = await Promise.all([
+    prisma.collectionStatsSnapshot.findUnique({
+      where: { collectionId_currencyKey: { collectionId, currencyKey: "native" } },
+      select: { floorPrice: true, volumeAllTime: true },
+    }),
+    prisma.collection.findUnique({ where: { id: collectionId }, select: { ownersCount: true, statsComputedAt: true } }),
+  ]);
+
+  return {
+    floorPrice: snap?.floorPrice ? toEtn(snap.floorPrice.toFixed(0)) : null,
+    volume: toEtn(snap?.volumeAllTime.toFixed(0)),
+    ownersCount: row?.ownersCount ?? 0,
+    computedAt: row?.statsComputedAt?.toISOString() ?? null,
+  };
+}
+
+/* ---------------- verify ---------------- */
+
+export type StatsMismatch = {
+  collectionId: string;
+  field: "floor" | "volume";
+  snapshot: number | null;
+  live: number | null;
+};
+
+const close = (a: number | null, b: number | null) =>
+  a == null || b == null ? a === b : Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * 1e-9;
+
+/**
+ * Snapshot floor / all-time volume vs the live per-request computation, for one currency
+ * ("native" or a Currency.id). Differences are either drift since the last refresh or a bug.
+ */
+export async function verifyCollectionStats(currency: string): Promise<StatsMismatch[]> {
+  await prismaReady;
+  const live = await getLiveCollectionStats(currency);
+  const decimals =
+    currency === "native"
+      ? 18
+      : (await prisma.currency.findUnique({ where: { id: currency }, select: { decimals: true } }))?.decimals ?? 18;
+
+  const snaps = await prisma.collectionStatsSnapshot.findMany({
+    where: { currencyKey: currency },
+    select: { collectionId: true, floorPrice: true, volumeAllTime: true },
+  });
+  const bySnap = new Map(snaps.map((s) => [s.collectionId, s]));
+  const human = (v: Prisma.Decimal | null | undefined) =>
+    v == null ? null : Number(ethers.formatUnits(v.toFixed(0), decimals));
+
+  const out: StatsMismatch[] = [];
+  for (const id of new Set([...live.keys(), ...bySnap.keys()])) {
+    const l = live.get(id);
+    const s = bySnap.get(id);
+    const floor = { snapshot: human(s?.floorPrice), live: l?.floorActive ?? null };
+    const volume = { snapshot: human(s?.volumeAllTime) ?? 0, live: l?.volumeAllTime ?? 0 };
+    if (!close(floor.snapshot, floor.live)) out.push({ collectionId: id, field: "floor", ...floor });
+    if (!close(volume.snapshot, volume.live)) out.push({ collectionId: id, field: "volume", ...volume });
+  }
+  return out;
+}
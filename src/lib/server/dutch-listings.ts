@@ -0,0 +1,330 @@
+// src/lib/server/dutch-listings.ts
+/* DutchSchedule bookkeeping (the step math lives in src/lib/dutch.ts).
+   - linkListingMode(): called by the LISTING_CREATE sync. Step 0 opens a schedule, a
+     later step must come at exactly its step's price, and anything else is a plain
+     FIXED / SCHEDULED listing.
+   - markDutchRelist(): called by a LISTING_CANCEL sync that cancels a step to relist it.
+     Until the relist lands the schedule stays open, so a failed create can be retried.
+   - reconcileDutchSchedules(): closes schedules whose item sold, whose end time passed, or
+     whose seller cancelled the current step without relisting.
+   - findDueDutchSteps(): schedules whose next price is due, or whose relist failed. The
+     contract only lets the seller cancel, so the keeper (scripts/dutch-keeper.ts) relists
+     only for its own wallet. Other sellers get a "drop price" action in the NFT panel.
+*/
+import prisma from "@/src/lib/db";
+import { DutchScheduleStatus, ListingMode, ListingStatus } from "@/src/lib/generated/prisma/client";
+import {
+  dutchParamsError,
+  dutchStepAt,
+  dutchStepCount,
+  dutchStepPrice,
+  dutchStepStart,
+  listingModeFor,
+} from "@/src/lib/dutch";
+
+/** A cancelled step with no replacement after this long means the seller gave up. */
+const RELIST_GRACE_MS = 10 * 60_000;
+
+/** Dutch part of a LISTING_CREATE sync. */
+export type DutchSync =
+  | { startPriceWei: string; endPriceWei: string; stepSeconds: number } // step 0, opens the schedule
+  | { scheduleId: string; step: number }; // a later price step
+
+export type ListingLink = {
+  mode: ListingMode;
+  dutchScheduleId: string | null;
+  dutchStep: number | null;
+};
+
+export type DutchListingInfo = {
+  scheduleId: string;
+  step: number;
+  stepCount: number;
+  endPriceWei: string;
+  /** Next drop (null on the last step). */
+  nextPriceWei: string | null;
+  nextAt: string | null;
+  /** Set once the next price is due and the listing hasn't been moved to it yet. */
+  dueStep: number | null;
+  duePriceWei: string | null;
+};
+
+export type DueDutchStep = {
+  scheduleId: string;
+  nftId: string;
+  contract: string;
+  tokenId: string;
+  standard: "ERC721" | "ERC1155";
+  sellerAddress: string;
+  quantity: number;
+  currencyId: string | null;
+  /** ERC20 token address; null for native ETN. */
+  currencyAddress: string | null;
+  /** Chain id of the listing to cancel; null when it's already cancelled (a failed relist). */
+  listingId: string | null;
+  step: number;
+  priceWei: string;
+  endTime: Date;
+};
+
+const big = (d: { toFixed(n: number): string }) => BigInt(d.toFixed(0));
+
+/** Mode / schedule columns for a listing the seller just created. */
+export async function linkListingMode(l: {
+  nftId: string;
+  sellerAddress: string;
+  quantity: number;
+  currencyId: string | null;
+  priceWei: string;
+  startTime: Date;
+  endTime: Date | null;
+  txHash: string;
+  dutch?: DutchSync | null;
+}): Promise<ListingLink> {
+  const plain: ListingLink = {
+    mode: listingModeFor(l.startTime, new Date()),
+    dutchScheduleId: null,
+    dutchStep: null,
+  };
+  if (!l.dutch) return plain;
+
+  // sync retries: the first call already linked this tx
+  const done = await prisma.marketplaceListing.findFirst({
+    where: { txHashCreated: l.txHash, dutchScheduleId: { not: null } },
+    select: { dutchScheduleId: true, dutchStep: true },
+  });
+  if (done) return { mode: ListingMode.DUTCH, ...done };
+
+  if ("scheduleId" in l.dutch) {
+    const s = await prisma.dutchSchedule.findUnique({ where: { id: l.dutch.scheduleId } });
+    const step = l.dutch.step;
+    const ok =
+      !!s &&
+      s.status === DutchScheduleStatus.ACTIVE &&
+      s.nftId === l.nftId &&
+      s.sellerAddress.toLowerCase() === l.sellerAddress.toLowerCase() &&
+      Number.isInteger(step) &&
+      step > 0 &&
+      step < s.stepCount &&
+      dutchStepPrice({ startPrice: big(s.startPrice), endPrice: big(s.endPrice), stepCount: s.stepCount }, step) ===
+        BigInt(l.priceWei);
+    // the listing exists on-chain either way; a bad step just isn't part of the schedule
+    if (!s || !ok) return plain;
+
+    await prisma.dutchSchedule.updateMany({
+      where: { id: s.id, currentStep: { lt: step } },
+      data: { currentStep: step },
+    });
+    if (s.relistStep != null) {
+      await prisma.dutchSchedule.update({ where: { id: s.id }, data: { relistStep: null } });
+    }
+    return { mode: ListingMode.DUTCH, dutchScheduleId: s.id, dutchStep: step };
+  }
+
+  if (!l.endTime) return plain;
+  const params = {
+    startPrice: BigInt(l.dutch.startPriceWei),
+    endPrice: BigInt(l.dutch.endPriceWei),
+    stepSeconds: Number(l.dutch.stepSeconds),
+    startTime: l.startTime,
+    endTime: l.endTime,
+  };
+  if (dutchParamsError(params) || params.startPrice !== BigInt(l.priceWei)) return plain;
+
+  // a new schedule for the same item replaces whatever was running
+  await prisma.dutchSchedule.updateMany({
+    where: { nftId: l.nftId, sellerAddress: l.sellerAddress, status: DutchScheduleStatus.ACTIVE },
+    data: { status: DutchScheduleStatus.CANCELLED },
+  });
+  const created = await prisma.dutchSchedule.create({
+    data: {
+      nftId: l.nftId,
+      sellerAddress: l.sellerAddress,
+      quantity: l.quantity,
+      currencyId: l.currencyId,
+      startPrice: l.dutch.startPriceWei,
+      endPrice: l.dutch.endPriceWei,
+      stepSeconds: params.stepSeconds,
+      stepCount: dutchStepCount(params),
+      startTime: params.startTime,
+      endTime: params.endTime,
+    },
+    select: { id: true },
+  });
+  return { mode: ListingMode.DUTCH, dutchScheduleId: created.id, dutchStep: 0 };
+}
+
+/** Part of a LISTING_CANCEL sync: the listing was cancelled to relist it at `dutch.step`. */
+export async function markDutchRelist(l: {
+  listingId: string;
+  nftId: string;
+  sellerAddress: string;
+  dutch: { scheduleId: string; step: number };
+}) {
+  const { scheduleId, step } = l.dutch;
+  if (!Number.isInteger(step) || step <= 0) return;
+  await prisma.dutchSchedule.updateMany({
+    where: {
+      id: scheduleId,
+      nftId: l.nftId,
+      sellerAddress: { equals: l.sellerAddress, mode: "insensitive" },
+      listings: { some: { id: l.listingId } },
+      status: DutchScheduleStatus.ACTIVE,
+      currentStep: { lt: step },
+      stepCount: { gt: step },
+    },
+    data: { relistStep: step },
+  });
+}
+
+/** Close finished schedules. Returns how many moved to each status. */
+export async function reconcileDutchSchedules(now = new Date()) {
+  const open = await prisma.dutchSchedule.findMany({
+    where: { status: DutchScheduleStatus.ACTIVE },
+    select: {
+      id: true,
+      endTime: true,
+      relistStep: true,
+      listings: { select: { status: true, updatedAt: true } },
+    },
+  });
+
+  const sold: string[] = [];
+  const ended: string[] = [];
+  const cancelled: string[] = [];
+  for (const s of open) {
+    if (s.listings.some((l) => l.status === ListingStatus.SOLD)) sold.push(s.id);
+    else if (s.endTime <= now) ended.push(s.id);
+    else if (
+      s.relistStep == null &&
+      !s.listings.some((l) => l.status === ListingStatus.ACTIVE) &&
+      s.listings.every((l) => now.getTime() - l.updatedAt.getTime() > RELIST_GRACE_MS)
+    ) {
+      cancelled.push(s.id);
+    }
+  }
+
+  const close = (ids: string[], status: DutchScheduleStatus) =>
+    ids.length
+      ? prisma.dutchSchedule.updateMany({
+          where: { id: { in: ids }, status: DutchScheduleStatus.ACTIVE },
+          data: { status },
+        })
+      : null;
+  await close(sold, DutchScheduleStatus.SOLD);
+  await close(ended, DutchScheduleStatus.ENDED);
+  await close(cancelled, DutchScheduleStatus.CANCELLED);
+
+  return { sold: sold.length, ended: ended.length, cancelled: cancelled.length };
+}
+
+/**
+ * Active schedules whose listing is behind the price it should be at by now, and those
+ * whose step was cancelled for a relist that hasn't landed (listingId null).
+ */
+export async function findDueDutchSteps(opts: { seller?: string; now?: Date } = {}): Promise<DueDutchStep[]> {
+  const now = opts.now ?? new Date();
+  const rows = await prisma.dutchSchedule.findMany({
+    where: {
+      status: DutchScheduleStatus.ACTIVE,
+      startTime: { lte: now },
+      endTime: { gt: now },
+      ...(opts.seller ? { sellerAddress: { equals: opts.seller, mode: "insensitive" as const } } : {}),
+    },
+    select: {
+      id: true,
+      nftId: true,
+      sellerAddress: true,
+      quantity: true,
+      currencyId: true,
+      startPrice: true,
+      endPrice: true,
+      stepSeconds: true,
+      stepCount: true,
+      startTime: true,
+      endTime: true,
+      currentStep: true,
+      relistStep: true,
+      nft: { select: { contract: true, tokenId: true, standard: true } },
+      currency: { select: { tokenAddress: true } },
+      listings: { where: { status: ListingStatus.ACTIVE }, select: { id: true }, take: 1 },
+    },
+  });
+
+  const out: DueDutchStep[] = [];
+  for (const s of rows) {
+    const plan = { ...s, startPrice: big(s.startPrice), endPrice: big(s.endPrice) };
+    const step = dutchStepAt(plan, now);
+    const listingId = s.listings[0]?.id ?? null;
+    if (listingId) {
+      // cancelling needs the chain id; rows from older syncs carry a cuid until the indexer runs
+      if (step <= s.currentStep || !/^\d+$/.test(listingId)) continue;
+    } else if (s.relistStep == null) {
+      continue;
+    }
+
+    out.push({
+      scheduleId: s.id,
+      nftId: s.nftId,
+      contract: s.nft.contract,
+      tokenId: s.nft.tokenId,
+      standard: s.nft.standard === "ERC1155" ? "ERC1155" : "ERC721",
+      sellerAddress: s.sellerAddress,
+      quantity: s.quantity,
+      currencyId: s.currencyId,
+      currencyAddress: s.currency?.tokenAddress ?? null,
+      listingId,
+      step,
+      priceWei: dutchStepPrice(plan, step).toString(),
+      endTime: s.endTime,
+    });
+  }
+  return out;
+}
+
+/** Schedule state for the given listing ids (only Dutch steps appear in the map). */
+export async function getDutchListingInfo(listingIds: string[], now = new Date()) {
+  const out = new Map<string, DutchListingInfo>();
+  if (!listingIds.length) return out;
+
+  const rows = await prisma.marketplaceListing.findMany({
+    where: { id: { in: listingIds }, mode: ListingMode.DUTCH, dutchScheduleId: { not: null } },
+    select: {
+      id: true,
+      dutchStep: true,
+      dutchSchedule: {
+        select: {
+          id: true,
+          status: true,
+          startPrice: true,
+          endPrice: true,
+          stepSeconds: true,
+          stepCount: true,
+          startTime: true,
+          endTime: true,
+        },
+      },
+    },
+  });
+
+  for (const r of rows) {
+    const s = r.dutchSchedule;
+    if (!s) continue;
+    const plan = { ...s, startPrice: big(s.startPrice), endPrice: big(s.endPrice) };
+    const step = r.dutchStep ?? 0;
+    const last = step >= s.stepCount - 1;
+    const due = s.status === DutchScheduleStatus.ACTIVE && now < s.endTime ? dutchStepAt(plan, now) : step;
+
+    out.set(r.id, {
+      scheduleId: s.id,
+      step,
+      stepCount: s.stepCount,
+      endPriceWei: plan.endPrice.toString(),
+      nextPriceWei: last ? null : dutchStepPrice(plan, step + 1).toString(),
+      nextAt: last ? null : dutchStepStart(plan, step + 1).toISOString(),
+      dueStep: due > step ? due : null,
+      duePriceWei: due > step ? dutchStepPrice(plan, due).toString() : null,
+    });
+  }
+  return out;
+}
@@ -1,5 +1,5 @@
 // lib/server/erc1155-mint-details.ts
-import type { PrismaClient } from "@prisma/client";
+import type { PrismaClient } from "../generated/prisma/client";
 import { ethers } from "ethers";
 import { ERC1155_SINGLE_ABI } from "../abis/ERC1155SingleDropABI";
 import prisma, { prismaReady } from "../db";
@@ -62,7 +62,7 @@ async function readOnChain(contractAddr: string) {
         c.mintPrice(),
         c.maxPerWallet(),
         c.totalMinted(),
-        c.uri(1n),
+        c.uri(BigInt(1)),
       ]);
 
     // Fetch token JSON to get image/animation_url
@@ -0,0 +1,8 @@
+// src/lib/server/errors.ts
+/** Thrown for anything the caller can fix; `status` is the HTTP status to answer with. */
+export class HttpError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
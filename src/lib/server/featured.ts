@@ -0,0 +1,285 @@
+// src/lib/server/featured.ts
+/* Featured collection auction (/featured and the home hero).
+   - Cycles and bids come from FeaturedCycle / FeaturedBid (see indexer/featuredIndexer.ts);
+     the current cycle's leader and the viewer's own bid are read live from the contract.
+   - The winner of a cycle is featured for one cycle length after that cycle ends.
+   - Losing bids stay claimable until refunded (by claimRefund or the operator's batchRefund),
+     so the refund list checks getBid().refunded on-chain.
+*/
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { memoizeAsync, cacheKey } from "@/src/lib/server/chain-cache";
+import { applyFeaturedLog, featuredAuctionContract, parseFeaturedLogs } from "@/src/lib/server/indexer/featuredIndexer";
+import { getProvider } from "@/src/lib/server/chain/provider";
+import { HttpError } from "@/src/lib/server/errors";
+
+const LEADERBOARD_SIZE = 50;
+const REFUND_LOOKBACK = 20;
+
+export class FeaturedError extends HttpError {}
+
+export function getFeaturedAuctionAddress() {
+  const addr = process.env.NEXT_PUBLIC_FEATURED_AUCTION_ADDRESS;
+  if (!addr || !ethers.isAddress(addr)) {
+    throw new Error("Missing NEXT_PUBLIC_FEATURED_AUCTION_ADDRESS (valid 0x address).");
+  }
+  return ethers.getAddress(addr);
+}
+
+function auction() {
+  return featuredAuctionContract(getFeaturedAuctionAddress(), getProvider());
+}
+
+export type FeaturedPhase = "upcoming" | "live" | "ended" | "finalized";
+
+export type FeaturedCycleDTO = {
+  cycleId: string;
+  startISO: string;
+  endISO: string;
+  phase: FeaturedPhase;
+  minBidWei: string;
+  leader: { address: string; amountWei: string } | null;
+  bidderCount: number;
+  winner: { collection: string | null; amountWei: string } | null;
+};
+
+export type FeaturedBidDTO = {
+  rank: number;
+  bidderAddress: string;
+  bidderUsername: string | null;
+  collection: { contract: string; name: string; logoUrl: string | null };
+  totalBidWei: string;
+  txCount: number;
+  updatedISO: string;
+};
+
+export type FeaturedRefundDTO = { cycleId: string; endISO: string; amountWei: string };
+
+export type FeaturedAuctionState = {
+  contract: string;
+  cycle: FeaturedCycleDTO | null;
+  leaderboard: FeaturedBidDTO[];
+  me: {
+    address: string;
+    bid: { totalWei: string; collection: string } | null;
+    collections: { contract: string; name: string; logoUrl: string | null }[];
+    refunds: FeaturedRefundDTO[];
+  } | null;
+};
+
+type OnChainCycle = {
+  leader: string;
+  leaderAmount: bigint;
+  bidderCount: bigint;
+  finalized: boolean;
+  winnerCollection: string;
+  winnerAmount: bigint;
+};
+
+function readCycle(cycleId: string) {
+  return memoizeAsync<OnChainCycle>(cacheKey(["featuredCycle", cycleId]), 5_000, async () => {
+    const c = await auction().getCycle(cycleId);
+    return {
+      leader: String(c.leader),
+      leaderAmount: c.leaderAmount as bigint,
+      bidderCount: c.bidderCount as bigint,
+      finalized: Boolean(c.finalized),
+      winnerCollection: String(c.winnerCollection),
+      winnerAmount: c.winnerAmount as bigint,
+    };
+  });
+}
+
+function phaseFor(startAt: Date, endAt: Date, finalized: boolean, now = Date.now()): FeaturedPhase {
+  if (finalized) return "finalized";
+  if (now < startAt.getTime()) return "upcoming";
+  return now < endAt.getTime() ? "live" : "ended";
+}
+
+/** The cycle /featured shows: the oldest one not finalized yet, else the most recent. */
+async function currentCycleRow() {
+  const select = {
+    id: true,
+    cycleId: true,
+    startAt: true,
+    endAt: true,
+    status: true,
+    minBidWei: true,
+    winnerCollectionContract: true,
+    winnerAmountWei: true,
+  } as const;
+  return (
+    (await prisma.featuredCycle.findFirst({
+      where: { status: { not: "FINALIZED" } },
+      orderBy: { startAt: "asc" },
+      select,
+    })) ??
+    (await prisma.featuredCycle.findFirst({ orderBy: { startAt: "desc" }, select }))
+  );
+}
+
+async function openRefunds(wallet: string): Promise<FeaturedRefundDTO[]> {
+  const bids = await prisma.featuredBid.findMany({
+    where: { bidderAddress: wallet, cycle: { status: "FINALIZED" }, winnerOf: null },
+    orderBy: { cycle: { endAt: "desc" } },
+    take: REFUND_LOOKBACK,
+    select: { cycle: { select: { cycleId: true, endAt: true } } },
+  });
+  const c = auction();
+  const out: FeaturedRefundDTO[] = [];
+  for (const b of bids) {
+    const onChain = await c.getBid(b.cycle.cycleId, wallet);
+    if (!onChain.exists || onChain.refunded || (onChain.total as bigint) === BigInt(0)) continue;
+    out.push({ cycleId: b.cycle.cycleId, endISO: b.cycle.endAt.toISOString(), amountWei: String(onChain.total) });
+  }
+  return out;
+}
+
+export async function getFeaturedAuctionState(wallet?: string | null): Promise<FeaturedAuctionState> {
+  const contract = getFeaturedAuctionAddress();
+  const row = await currentCycleRow();
+
+  let cycle: FeaturedCycleDTO | null = null;
+  let leaderboard: FeaturedBidDTO[] = [];
+  if (row) {
+    const live = await readCycle(row.cycleId);
+    const finalized = live.finalized || row.status === "FINALIZED";
+    cycle = {
+      cycleId: row.cycleId,
+      startISO: row.startAt.toISOString(),
+      endISO: row.endAt.toISOString(),
+      phase: phaseFor(row.startAt, row.endAt, finalized),
+      minBidWei: row.minBidWei.toFixed(0),
+      leader:
+        live.leader === ethers.ZeroAddress
+          ? null
+          : { address: ethers.getAddress(live.leader), amountWei: live.leaderAmount.toString() },
+      bidderCount: Number(live.bidderCount),
+      winner: finalized
+        ? {
+            collection: row.winnerCollectionContract ?? (live.winnerCollection === ethers.ZeroAddress ? null : live.winnerCollection),
+            amountWei: row.winnerAmountWei?.toFixed(0) ?? live.winnerAmount.toString(),
+          }
+        : null,
+    };
+
+    const bids = await prisma.featuredBid.findMany({
+      where: { cycleId: row.id },
+      orderBy: [{ totalBidWei: "desc" }, { updatedAt: "asc" }],
+      take: LEADERBOARD_SIZE,
+      select: {
+        bidderAddress: true,
+        totalBidWei: true,
+        txCount: true,
+        updatedAt: true,
+        bidder: { select: { username: true } },
+        collection: { select: { contract: true, name: true, logoUrl: true } },
+      },
+    });
+    leaderboard = bids.map((b, i) => ({
+      rank: i + 1,
+      bidderAddress: b.bidderAddress,
+      bidderUsername: b.bidder?.username ?? null,
+      collection: b.collection,
+      totalBidWei: b.totalBidWei.toFixed(0),
+      txCount: b.txCount,
+      updatedISO: b.updatedAt.toISOString(),
+    }));
+  }
+
+  let me: FeaturedAuctionState["me"] = null;
+  if (wallet) {
+    const address = ethers.getAddress(wallet);
+    const [onChainBid, collections, refunds] = await Promise.all([
+      row ? auction().getBid(row.cycleId, address) : Promise.resolve(null),
+      prisma.collection.findMany({
+        where: { ownerAddress: address, isOrphan: false },
+        orderBy: { name: "asc" },
+        select: { contract: true, name: true, logoUrl: true },
+      }),
+      openRefunds(address),
+    ]);
+    me = {
+      address,
+      bid:
+        onChainBid && onChainBid.exists
+          ? { totalWei: String(onChainBid.total), collection: ethers.getAddress(String(onChainBid.collection)) }
+          : null,
+      collections,
+      refunds,
+    };
+  }
+
+  return { contract, cycle, leaderboard, me };
+}
+
+export type FeaturedHero = {
+  cycleId: string;
+  featuredUntilISO: string;
+  amountWei: string;
+  collection: {
+    contract: string;
+    name: string;
+    description: string | null;
+    logoUrl: string | null;
+    coverUrl: string | null;
+    floorPrice: number;
+    itemsCount: number;
+  };
+};
+
+/** Latest winner still inside its featured window (one cycle length after its cycle ended). */
+export async function getFeaturedHero(): Promise<FeaturedHero | null> {
+  await prismaReady;
+  const rows = await prisma.featuredCycle.findMany({
+    where: { status: "FINALIZED", winnerCollectionContract: { not: null } },
+    orderBy: { endAt: "desc" },
+    take: 3,
+    select: {
+      cycleId: true,
+      startAt: true,
+      endAt: true,
+      winnerAmountWei: true,
+      winnerCollection: {
+        select: {
+          contract: true,
+          name: true,
+          description: true,
+          logoUrl: true,
+          coverUrl: true,
+          floorPrice: true,
+          itemsCount: true,
+        },
+      },
+    },
+  });
+
+  const now = Date.now();
+  for (const r of rows) {
+    const until = r.endAt.getTime() + (r.endAt.getTime() - r.startAt.getTime());
+    if (!r.winnerCollection || until <= now) continue;
+    return {
+      cycleId: r.cycleId,
+      featuredUntilISO: new Date(until).toISOString(),
+      amountWei: r.winnerAmountWei?.toFixed(0) ?? "0",
+      collection: r.winnerCollection,
+    };
+  }
+  return null;
+}
+
+/** Apply the auction events of a mined tx right away instead of waiting for the indexer. */
+export async function recordFeaturedTx(txHash: string) {
+  const p = getProvider();
+  const receipt = await p.getTransactionReceipt(txHash);
+  if (!receipt) throw new FeaturedError("Transaction is not mined yet. Try again in a moment.", 409);
+  if (receipt.status !== 1) throw new FeaturedError("Transaction failed on-chain");
+
+  const block = await p.getBlock(receipt.blockNumber);
+  const timestamp = block ? new Date(Number(block.timestamp) * 1000) : new Date();
+  const logs = parseFeaturedLogs(getFeaturedAuctionAddress(), receipt.logs, { timestamp });
+
+  const c = auction();
+  for (const ev of logs) await applyFeaturedLog(c, ev);
+  return { applied: logs.length };
+}
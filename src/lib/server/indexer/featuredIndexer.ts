@@ -0,0 +1,465 @@
+// src/lib/server/indexer/featuredIndexer.ts
+/* FeaturedAuction event indexer.
+   - Mirrors CycleStarted / BidPlaced / BidIncreased / CycleFinalized into
+     FeaturedCycle / FeaturedBid.
+   - Cursor lives in ChainState (userAddress = FEATURED_CURSOR_KEY, contract = auction).
+   - Same confirmations / reorgDepth scheme as the marketplace indexer.
+   - Bid events carry the bidder's new total, so replaying a log is harmless: each log is
+     kept once in FeaturedBidEvent (txCount counts them) and a log never lowers the total.
+   - Every open cycle, plus any cycle touched in the pass, is reconciled against
+     getBiddersRange/getBid. That also drops bids a reorg took away, even when the
+     reorg removed every event of the cycle; bid events a re-scanned range no longer
+     has are deleted with it.
+*/
+import { ethers } from "ethers";
+import prisma from "@/src/lib/db";
+import { FEATURED_AUCTION_ABI } from "@/src/lib/abis/FeaturedAuction";
+import { ensureUserId } from "@/src/lib/server/submissions";
+
+export const FEATURED_CURSOR_KEY = "indexer:featured";
+
+export const FEATURED_EVENTS = ["CycleStarted", "BidPlaced", "BidIncreased", "CycleFinalized"] as const;
+
+type FeaturedEvent = (typeof FEATURED_EVENTS)[number];
+
+export type FeaturedIndexerOptions = {
+  provider: ethers.Provider;
+  auction: string;
+  /** First block to scan when no checkpoint exists yet. */
+  startBlock?: number;
+  /** Blocks to stay behind head (0 is fine for a local devnet). */
+  confirmations?: number;
+  /** Blocks re-scanned behind the cursor on every pass. */
+  reorgDepth?: number;
+  /** Max blocks per eth_getLogs call (shrinks automatically on RPC errors). */
+  batchSize?: number;
+  log?: (msg: string) => void;
+};
+
+export type FeaturedLog = {
+  name: FeaturedEvent;
+  args: ethers.Result;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  timestamp: Date;
+};
+
+const iface = new ethers.Interface(FEATURED_AUCTION_ABI);
+const ZERO = ethers.ZeroAddress;
+const BIDDERS_PAGE = 100;
+
+const TOPICS = FEATURED_EVENTS.map((name) => {
+  const ev = iface.getEvent(name);
+  if (!ev) throw new Error(`[featured] ${name} missing from FEATURED_AUCTION_ABI`);
+  return ev.topicHash;
+});
+
+function normAddr(a: string) {
+  return ethers.getAddress(a);
+}
+
+function secToDate(sec: bigint | number) {
+  return new Date(Number(sec) * 1000);
+}
+
+function cycleKey(cycleId: string) {
+  return ethers.hexlify(cycleId).toLowerCase();
+}
+
+function statusFor(startAt: Date, finalized: boolean) {
+  if (finalized) return "FINALIZED" as const;
+  return startAt.getTime() > Date.now() ? ("UPCOMING" as const) : ("ACTIVE" as const);
+}
+
+export function featuredAuctionContract(auction: string, runner: ethers.ContractRunner) {
+  return new ethers.Contract(auction, FEATURED_AUCTION_ABI as ethers.InterfaceAbi, runner);
+}
+
+/* ------------------------------------------------------------------ */
+/* Cursor                                                              */
+/* ------------------------------------------------------------------ */
+
+async function readCursor(auction: string): Promise<number | null> {
+  const row = await prisma.chainState.findUnique({
+    where: { contract_userAddress: { userAddress: FEATURED_CURSOR_KEY, contract: auction } },
+    select: { lastBlockNumber: true },
+  });
+  return row ? row.lastBlockNumber : null;
+}
+
+async function writeCursor(auction: string, block: number) {
+  await prisma.chainState.upsert({
+    where: { contract_userAddress: { userAddress: FEATURED_CURSOR_KEY, contract: auction } },
+    update: { lastBlockNumber: block },
+    create: { userAddress: FEATURED_CURSOR_KEY, contract: auction, lastBlockNumber: block },
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/* Lookups                                                             */
+/* ------------------------------------------------------------------ */
+
+/** Collection.contract as stored (FeaturedBid/FeaturedCycle reference it), or null if we don't list it. */
+async function knownCollection(addr: string) {
+  if (!addr || addr === ZERO) return null;
+  const col = await prisma.collection.findUnique({ where: { contract: addr }, select: { contract: true } });
+  return col?.contract ?? null;
+}
+
+/** FeaturedCycle.id for an on-chain cycle, created from getCycle() when it started before startBlock. */
+async function ensureCycle(auction: ethers.Contract, cycleId: string) {
+  const key = cycleKey(cycleId);
+  const existing = await prisma.featuredCycle.findUnique({ where: { cycleId: key }, select: { id: true } });
+  if (existing) return existing.id;
+
+  const c = await auction.getCycle(key);
+  const startAt = secToDate(c.startAt);
+  const row = await prisma.featuredCycle.upsert({
+    where: { cycleId: key },
+    update: {},
+    create: {
+      cycleId: key,
+      startAt,
+      endAt: secToDate(c.endAt),
+      minBidWei: (c.minBidWei as bigint).toString(),
+      status: statusFor(startAt, Boolean(c.finalized)),
+    },
+    select: { id: true },
+  });
+  return row.id;
+}
+
+type BidLog = { txHash: string; logIndex: number; blockNumber: number };
+
+/** txCount / lastTxHash follow the FeaturedBidEvent rows, so re-applying a log changes nothing. */
+async function recountBids(bidIds: Iterable<string>) {
+  for (const bidId of bidIds) {
+    const [txCount, last] = await Promise.all([
+      prisma.featuredBidEvent.count({ where: { bidId } }),
+      prisma.featuredBidEvent.findFirst({
+        where: { bidId },
+        orderBy: [{ blockNumber: "desc" }, { logIndex: "desc" }],
+        select: { txHash: true },
+      }),
+    ]);
+    await prisma.featuredBid.update({ where: { id: bidId }, data: { txCount, lastTxHash: last?.txHash ?? null } });
+  }
+}
+
+async function upsertBid(
+  cycleRowId: string,
+  bidder: string,
+  data: { collection?: string; totalWei: bigint; log?: BidLog }
+) {
+  const bidderAddress = normAddr(bidder);
+  const prev = await prisma.featuredBid.findUnique({
+    where: { cycleId_bidderAddress: { cycleId: cycleRowId, bidderAddress } },
+    select: { id: true, totalBidWei: true },
+  });
+
+  let bidId: string;
+  if (prev) {
+    // totals only grow on-chain, so an older log (re-scan, /api/featured/record replay) is
+    // stale; only the contract read in reconcileFeaturedCycle may lower a total
+    const stale = !!data.log && BigInt(prev.totalBidWei.toFixed(0)) > data.totalWei;
+    await prisma.featuredBid.update({
+      where: { id: prev.id },
+      data: {
+        ...(stale ? {} : { totalBidWei: data.totalWei.toString() }),
+        ...(data.collection ? { collectionContract: data.collection } : {}),
+      },
+    });
+    bidId = prev.id;
+  } else {
+    // a bid row needs its collection; bids for contracts we don't list are skipped
+    if (!data.collection) return;
+    const row = await prisma.featuredBid.create({
+      data: {
+        cycleId: cycleRowId,
+        bidderAddress,
+        bidderUserId: await ensureUserId(bidderAddress),
+        collectionContract: data.collection,
+        totalBidWei: data.totalWei.toString(),
+      },
+      select: { id: true },
+    });
+    bidId = row.id;
+  }
+
+  if (!data.log) return;
+  await prisma.featuredBidEvent.upsert({
+    where: { txHash_logIndex: { txHash: data.log.txHash, logIndex: data.log.logIndex } },
+    update: {},
+    create: { bidId, ...data.log, totalBidWei: data.totalWei.toString() },
+  });
+  await recountBids([bidId]);
+}
+
+/* ------------------------------------------------------------------ */
+/* Event handlers                                                      */
+/* ------------------------------------------------------------------ */
+
+async function onCycleStarted(ev: FeaturedLog) {
+  const { cycleId, startAt, endAt, minBidWei } = ev.args;
+  const key = cycleKey(String(cycleId));
+  const start = secToDate(startAt);
+  const data = { startAt: start, endAt: secToDate(endAt), minBidWei: (minBidWei as bigint).toString() };
+
+  const existing = await prisma.featuredCycle.findUnique({ where: { cycleId: key }, select: { status: true } });
+  if (existing) {
+    await prisma.featuredCycle.update({
+      where: { cycleId: key },
+      data: existing.status === "FINALIZED" ? data : { ...data, status: statusFor(start, false) },
+    });
+    return;
+  }
+  await prisma.featuredCycle.create({ data: { cycleId: key, ...data, status: statusFor(start, false) } });
+}
+
+const bidLog = (ev: FeaturedLog): BidLog => ({ txHash: ev.txHash, logIndex: ev.logIndex, blockNumber: ev.blockNumber });
+
+async function onBidPlaced(auction: ethers.Contract, ev: FeaturedLog) {
+  const { cycleId, bidder, collection, newTotalWei } = ev.args;
+  const cycleRowId = await ensureCycle(auction, String(cycleId));
+  const contract = await knownCollection(normAddr(String(collection)));
+  if (!contract) return;
+  await upsertBid(cycleRowId, String(bidder), { collection: contract, totalWei: newTotalWei as bigint, log: bidLog(ev) });
+}
+
+async function onBidIncreased(auction: ethers.Contract, ev: FeaturedLog) {
+  const { cycleId, bidder, newTotalWei } = ev.args;
+  const cycleRowId = await ensureCycle(auction, String(cycleId));
+  await upsertBid(cycleRowId, String(bidder), { totalWei: newTotalWei as bigint, log: bidLog(ev) });
+}
+
+async function onCycleFinalized(auction: ethers.Contract, ev: FeaturedLog) {
+  const { cycleId, winner, winnerCollection, winnerAmountWei } = ev.args;
+  const cycleRowId = await ensureCycle(auction, String(cycleId));
+
+  const winnerBid =
+    String(winner) === ZERO
+      ? null
+      : await prisma.featuredBid.findUnique({
+          where: { cycleId_bidderAddress: { cycleId: cycleRowId, bidderAddress: normAddr(String(winner)) } },
+          select: { id: true },
+        });
+
+  await prisma.featuredCycle.update({
+    where: { id: cycleRowId },
+    data: {
+      status: "FINALIZED",
+      winnerBidId: winnerBid?.id ?? null,
+      winnerCollectionContract: await knownCollection(normAddr(String(winnerCollection))),
+      winnerAmountWei: (winnerAmountWei as bigint).toString(),
+      finalizedAt: ev.timestamp,
+    },
+  });
+}
+
+export async function applyFeaturedLog(auction: ethers.Contract, ev: FeaturedLog) {
+  switch (ev.name) {
+    case "CycleStarted":
+      return onCycleStarted(ev);
+    case "BidPlaced":
+      return onBidPlaced(auction, ev);
+    case "BidIncreased":
+      return onBidIncreased(auction, ev);
+    case "CycleFinalized":
+      return onCycleFinalized(auction, ev);
+  }
+}
+
+/** Decode the FeaturedAuction events in a set of raw logs (e.g. a receipt), ordered by logIndex. */
+export function parseFeaturedLogs(
+  auction: string,
+  logs: readonly ethers.Log[],
+  meta: { timestamp: Date }
+): FeaturedLog[] {
+  const out: FeaturedLog[] = [];
+  for (const log of logs) {
+    if (log.removed || log.address.toLowerCase() !== auction.toLowerCase()) continue;
+    if (!TOPICS.includes(log.topics[0])) continue;
+    const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) continue;
+    out.push({
+      name: parsed.name as FeaturedEvent,
+      args: parsed.args,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      blockNumber: log.blockNumber,
+      timestamp: meta.timestamp,
+    });
+  }
+  return out.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+/* ------------------------------------------------------------------ */
+/* Reconciliation                                                      */
+/* ------------------------------------------------------------------ */
+
+/** Bring one cycle's row and bids in line with the contract's current view. */
+export async function reconcileFeaturedCycle(auction: ethers.Contract, cycleId: string) {
+  const key = cycleKey(cycleId);
+  const cycleRowId = await ensureCycle(auction, key);
+  const c = await auction.getCycle(key);
+  const count = Number(c.bidderCount);
+
+  const onChain = new Set<string>();
+  for (let start = 0; start < count; start += BIDDERS_PAGE) {
+    const page = (await auction.getBiddersRange(key, start, BIDDERS_PAGE)) as string[];
+    for (const addr of page) {
+      const b = await auction.getBid(key, addr);
+      if (!b.exists) continue;
+      const bidder = normAddr(addr);
+      onChain.add(bidder.toLowerCase());
+      const collection = await knownCollection(normAddr(String(b.collection)));
+      if (!collection) continue;
+      await upsertBid(cycleRowId, bidder, { collection, totalWei: b.total as bigint });
+    }
+  }
+
+  const rows = await prisma.featuredBid.findMany({
+    where: { cycleId: cycleRowId },
+    select: { id: true, bidderAddress: true },
+  });
+  const gone = rows.filter((r) => !onChain.has(r.bidderAddress.toLowerCase())).map((r) => r.id);
+  if (gone.length) {
+    await prisma.featuredCycle.updateMany({ where: { winnerBidId: { in: gone } }, data: { winnerBidId: null } });
+    await prisma.featuredBid.deleteMany({ where: { id: { in: gone } } });
+  }
+
+  const startAt = secToDate(c.startAt);
+  await prisma.featuredCycle.update({
+    where: { id: cycleRowId },
+    data: {
+      startAt,
+      endAt: secToDate(c.endAt),
+      minBidWei: (c.minBidWei as bigint).toString(),
+      status: statusFor(startAt, Boolean(c.finalized)),
+    },
+  });
+  return { bidders: onChain.size, removed: gone.length };
+}
+
+/** UPCOMING cycles whose start time has passed become ACTIVE. */
+async function rollCycleStatuses() {
+  const r = await prisma.featuredCycle.updateMany({
+    where: { status: "UPCOMING", startAt: { lte: new Date() } },
+    data: { status: "ACTIVE" },
+  });
+  return r.count;
+}
+
+/* ------------------------------------------------------------------ */
+/* Scanning                                                            */
+/* ------------------------------------------------------------------ */
+
+/** Fetch + decode FeaturedAuction logs in [fromBlock, toBlock], ordered by (block, logIndex). */
+export async function fetchFeaturedLogs(
+  provider: ethers.Provider,
+  auction: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<FeaturedLog[]> {
+  const raw = await provider.getLogs({ address: auction, fromBlock, toBlock, topics: [TOPICS] });
+
+  const blockTimes = new Map<number, Date>();
+  const out: FeaturedLog[] = [];
+  for (const log of raw) {
+    let ts = blockTimes.get(log.blockNumber);
+    if (!ts) {
+      const block = await provider.getBlock(log.blockNumber);
+      ts = block ? secToDate(block.timestamp) : new Date();
+      blockTimes.set(log.blockNumber, ts);
+    }
+    out.push(...parseFeaturedLogs(auction, [log], { timestamp: ts }));
+  }
+
+  out.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  return out;
+}
+
+/** Drop bid events in [fromBlock, toBlock] that the chain no longer has (reorged away). */
+async function pruneBidEvents(fromBlock: number, toBlock: number, logs: FeaturedLog[]) {
+  const kept = new Set(logs.map((l) => `${l.txHash.toLowerCase()}:${l.logIndex}`));
+  const rows = await prisma.featuredBidEvent.findMany({
+    where: { blockNumber: { gte: fromBlock, lte: toBlock } },
+    select: { id: true, bidId: true, txHash: true, logIndex: true },
+  });
+  const gone = rows.filter((r) => !kept.has(`${r.txHash.toLowerCase()}:${r.logIndex}`));
+  if (!gone.length) return;
+  await prisma.featuredBidEvent.deleteMany({ where: { id: { in: gone.map((r) => r.id) } } });
+  await recountBids(new Set(gone.map((r) => r.bidId)));
+}
+
+/**
+ * One indexing pass: from (cursor - reorgDepth) up to (head - confirmations).
+ * Returns the block range processed, or null when already caught up.
+ */
+export async function syncFeaturedOnce(opts: FeaturedIndexerOptions) {
+  const log = opts.log ?? ((m: string) => console.log(m));
+  const address = normAddr(opts.auction);
+  const auction = featuredAuctionContract(address, opts.provider);
+  const confirmations = Math.max(0, opts.confirmations ?? 12);
+  const reorgDepth = Math.max(0, opts.reorgDepth ?? confirmations);
+  let batchSize = Math.max(1, opts.batchSize ?? 2000);
+
+  const rolled = await rollCycleStatuses();
+  if (rolled) log(`[featured] ${rolled} cycle(s) now active`);
+
+  const head = await opts.provider.getBlockNumber();
+  const safeHead = head - confirmations;
+
+  const cursor = await readCursor(address);
+  const first =
+    cursor == null
+      ? Math.max(0, opts.startBlock ?? safeHead)
+      : Math.max(opts.startBlock ?? 0, cursor + 1 - reorgDepth);
+
+  if (safeHead < first || (cursor != null && safeHead <= cursor)) return null;
+
+  let from = first;
+  let applied = 0;
+  const touched = new Set<string>();
+
+  while (from <= safeHead) {
+    const to = Math.min(from + batchSize - 1, safeHead);
+
+    let logs: FeaturedLog[];
+    try {
+      logs = await fetchFeaturedLogs(opts.provider, address, from, to);
+    } catch (e) {
+      if (batchSize === 1) throw e;
+      batchSize = Math.max(1, Math.floor(batchSize / 2));
+      log(`[featured] getLogs ${from}-${to} failed, retrying with batch=${batchSize}`);
+      continue;
+    }
+
+    for (const ev of logs) {
+      await applyFeaturedLog(auction, ev);
+      touched.add(cycleKey(String(ev.args.cycleId)));
+    }
+    await pruneBidEvents(from, to, logs);
+
+    await writeCursor(address, to);
+    applied += logs.length;
+    from = to + 1;
+  }
+
+  // a re-scanned window may have lost bids to a reorg; the contract has the final word
+  if (cursor != null) {
+    const open = await prisma.featuredCycle.findMany({
+      where: { status: { not: "FINALIZED" } },
+      select: { cycleId: true },
+    });
+    for (const c of open) touched.add(c.cycleId);
+    for (const id of touched) {
+      const r = await reconcileFeaturedCycle(auction, id);
+      if (r.removed) log(`[featured] cycle ${id}: removed ${r.removed} reorged bid(s)`);
+    }
+  }
+
+  log(`[featured] ${address} ${first}-${safeHead}: ${applied} event(s)`);
+  return { fromBlock: first, toBlock: safeHead, events: applied };
+}
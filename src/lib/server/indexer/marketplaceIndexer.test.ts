@@ -0,0 +1,240 @@
+// src/lib/server/indexer/marketplaceIndexer.test.ts
+/* Indexer against a stub JSON-RPC chain: ingest, re-scan idempotency and reorg rollback.
+
+   Needs a throwaway Postgres with the schema pushed; it writes rows and prunes the
+   indexer journal, so never point it at a real database:
+     TEST_DATABASE_URL=postgres://… npx prisma db push   (with DIRECT_URL=$TEST_DATABASE_URL)
+     TEST_DATABASE_URL=postgres://… npm test
+   Skipped when TEST_DATABASE_URL is unset.
+*/
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { MARKETPLACE_CORE_ABI } from "@/src/lib/abis/marketplace-core/marketPlaceCoreABI";
+
+const TEST_DB = process.env.TEST_DATABASE_URL;
+
+const iface = new ethers.Interface(MARKETPLACE_CORE_ABI);
+const hex = (n: number) => ethers.toQuantity(n);
+const randomAddress = () => ethers.getAddress(ethers.hexlify(ethers.randomBytes(20)));
+const randomHash = () => ethers.hexlify(ethers.randomBytes(32));
+
+type StubEvent = { name: string; args: unknown[]; txHash?: string };
+type StubBlock = { hash: string; events: (StubEvent & { txHash: string })[] };
+
+/** An in-memory chain; blocks can be swapped out to simulate a reorg. */
+class StubChain {
+  blocks: StubBlock[] = [{ hash: randomHash(), events: [] }]; // genesis
+
+  constructor(readonly address: string) {}
+
+  mine(events: StubEvent[] = []) {
+    this.blocks.push({ hash: randomHash(), events: events.map((e) => ({ ...e, txHash: e.txHash ?? randomHash() })) });
+  }
+
+  /** Replace every block from `number` on (a reorg), then mine `blocks` in their place. */
+  reorg(number: number, blocks: StubEvent[][]) {
+    this.blocks.length = number;
+    for (const events of blocks) this.mine(events);
+  }
+
+  get head() {
+    return this.blocks.length - 1;
+  }
+
+  answer(method: string, params: unknown[]): unknown {
+    switch (method) {
+      case "eth_chainId":
+        return hex(1337);
+      case "eth_blockNumber":
+        return hex(this.head);
+      case "eth_getBlockByNumber": {
+        const n = Number(params[0]);
+        const b = this.blocks[n];
+        if (!b) return null;
+        return {
+          hash: b.hash,
+          parentHash: n ? this.blocks[n - 1].hash : ethers.ZeroHash,
+          number: hex(n),
+          timestamp: hex(1_700_000_000 + n * 5),
+          nonce: "0x0000000000000000",
+          difficulty: "0x0",
+          gasLimit: hex(30_000_000),
+          gasUsed: "0x0",
+          miner: ethers.ZeroAddress,
+          extraData: "0x",
+          baseFeePerGas: "0x0",
+          transactions: [],
+        };
+      }
+      case "eth_getLogs": {
+        const f = params[0] as { fromBlock: string; toBlock: string; address: string };
+        const out: unknown[] = [];
+        for (let n = Number(f.fromBlock); n <= Math.min(Number(f.toBlock), this.head); n++) {
+          const b = this.blocks[n];
+          b.events.forEach((e, i) => {
+            const { data, topics } = iface.encodeEventLog(e.name, e.args);
+            out.push({
+              address: this.address,
+              topics,
+              data,
+              blockNumber: hex(n),
+              blockHash: b.hash,
+              transactionHash: e.txHash,
+              transactionIndex: hex(i),
+              logIndex: hex(i),
+              removed: false,
+            });
+          });
+        }
+        return out;
+      }
+      default:
+        throw new Error(`stub RPC: ${method} not supported`);
+    }
+  }
+}
+
+class StubRpcProvider extends ethers.JsonRpcProvider {
+  constructor(private chain: StubChain) {
+    super("http://stub.invalid", 1337, { staticNetwork: true, batchMaxCount: 1, cacheTimeout: -1 });
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    const list = Array.isArray(payload) ? payload : [payload];
+    return list.map((p) => ({ id: p.id, result: this.chain.answer(p.method, p.params as unknown[]) }));
+  }
+}
+
+describe("marketplace indexer", { skip: TEST_DB ? false : "TEST_DATABASE_URL not set" }, () => {
+  // loaded in before(): the db module reads DATABASE_URL when it's imported
+  let prisma: typeof import("@/src/lib/db").default;
+  let syncMarketplaceOnce: typeof import("./marketplaceIndexer").syncMarketplaceOnce;
+
+  const market = randomAddress();
+  const seller = randomAddress();
+  const buyer = randomAddress();
+  const contract721 = randomAddress();
+  const contract1155 = randomAddress();
+  const base = 1_000_000 + Math.floor(Math.random() * 1_000_000_000);
+  const listing721 = BigInt(base);
+  const listing1155 = BigInt(base + 1);
+
+  const chain = new StubChain(market);
+  const provider = new StubRpcProvider(chain);
+  const sync = () =>
+    syncMarketplaceOnce({ provider, marketplace: market, startBlock: 1, confirmations: 0, reorgDepth: 4, log: () => {} });
+
+  let sellerId = "";
+  let nft721 = "";
+  let nft1155 = "";
+
+  const created = (id: bigint, token: string, tokenId: number, quantity: number, price: number, standard: number) => ({
+    name: "ListingCreated",
+    args: [id, seller, token, tokenId, quantity, ethers.ZeroAddress, price, 1_700_000_000, 0, standard],
+  });
+  const purchased = (id: bigint, price: number) => ({
+    name: "ListingPurchased",
+    args: [id, buyer, ethers.ZeroAddress, price, 0, 0, ethers.ZeroAddress, 0, ethers.ZeroAddress],
+  });
+
+  const purchases = [
+    { ...purchased(listing721, 100), txHash: randomHash() },
+    { ...purchased(listing1155, 50), txHash: randomHash() },
+  ];
+
+  const balance = async (owner: string) =>
+    (
+      await prisma.erc1155Holding.findUnique({
+        where: { contract_tokenId_ownerAddress: { contract: contract1155, tokenId: "1", ownerAddress: owner } },
+        select: { balance: true },
+      })
+    )?.balance ?? null;
+  const listingStatus = async (id: bigint) =>
+    (await prisma.marketplaceListing.findUnique({ where: { id: id.toString() }, select: { status: true } }))?.status;
+  const owner721 = async () =>
+    (await prisma.nFT.findUniqueOrThrow({ where: { id: nft721 }, select: { ownerId: true } })).ownerId;
+  const saleCount = () => prisma.marketplaceSale.count({ where: { nftId: { in: [nft721, nft1155] } } });
+
+  before(async () => {
+    process.env.DATABASE_URL = TEST_DB;
+    process.env.PGSSL_DISABLE ??= "1";
+    prisma = (await import("@/src/lib/db")).default;
+    ({ syncMarketplaceOnce } = await import("./marketplaceIndexer"));
+
+    const user = await prisma.user.create({
+      data: { walletAddress: seller, username: `user_${seller.slice(2, 8).toLowerCase()}`, profileAvatar: "" },
+      select: { id: true },
+    });
+    sellerId = user.id;
+    nft721 = (
+      await prisma.nFT.create({
+        data: { contract: contract721, tokenId: "7", standard: "ERC721", ownerId: sellerId },
+        select: { id: true },
+      })
+    ).id;
+    nft1155 = (
+      await prisma.nFT.create({ data: { contract: contract1155, tokenId: "1", standard: "ERC1155" }, select: { id: true } })
+    ).id;
+    await prisma.erc1155Holding.create({
+      data: { contract: contract1155, tokenId: "1", ownerAddress: seller, balance: 5 },
+    });
+  });
+
+  after(async () => {
+    if (!prisma) return;
+    const nftIds = [nft721, nft1155];
+    await prisma.marketplaceSale.deleteMany({ where: { nftId: { in: nftIds } } });
+    await prisma.marketplaceListing.deleteMany({ where: { nftId: { in: nftIds } } });
+    await prisma.erc1155Holding.deleteMany({ where: { contract: contract1155 } });
+    await prisma.nFT.deleteMany({ where: { id: { in: nftIds } } });
+    await prisma.user.deleteMany({ where: { walletAddress: { in: [seller, buyer] } } });
+    await prisma.chainState.deleteMany({ where: { contract: market } });
+    const txHashes = [...chain.blocks.flatMap((b) => b.events.map((e) => e.txHash)), ...purchases.map((p) => p.txHash)];
+    await prisma.marketplaceIndexerWrite.deleteMany({ where: { txHash: { in: txHashes } } });
+    await prisma.$disconnect();
+  });
+
+  it("ingests listings and purchases", async () => {
+    chain.mine([created(listing721, contract721, 7, 1, 100, 0), created(listing1155, contract1155, 1, 2, 50, 1)]);
+    chain.mine(purchases);
+
+    const res = await sync();
+    assert.deepEqual(res, { fromBlock: 1, toBlock: 2, events: 4 });
+
+    assert.equal(await listingStatus(listing721), "SOLD");
+    assert.equal(await listingStatus(listing1155), "SOLD");
+    assert.equal(await saleCount(), 2);
+    const buyerUser = await prisma.user.findUniqueOrThrow({ where: { walletAddress: buyer }, select: { id: true } });
+    assert.equal(await owner721(), buyerUser.id);
+    assert.equal(await balance(seller), 3);
+    assert.equal(await balance(buyer), 2);
+  });
+
+  it("doesn't apply events twice when re-scanning", async () => {
+    chain.mine();
+    await sync();
+
+    assert.equal(await saleCount(), 2);
+    assert.equal(await balance(seller), 3);
+    assert.equal(await balance(buyer), 2);
+  });
+
+  it("reverts every write of an orphaned block and applies the new one", async () => {
+    // block 2 (both purchases) is replaced by one where the seller cancels the 721 listing
+    chain.reorg(2, [[{ name: "ListingCancelled", args: [listing721] }], [], []]);
+    await sync();
+
+    assert.equal(await listingStatus(listing721), "CANCELLED");
+    assert.equal(await listingStatus(listing1155), "ACTIVE");
+    assert.equal(await saleCount(), 0);
+    assert.equal(await owner721(), sellerId);
+    assert.equal(await balance(seller), 5);
+    assert.equal(await balance(buyer), null);
+
+    const orphaned = await prisma.marketplaceIndexerWrite.count({
+      where: { txHash: { in: purchases.map((p) => p.txHash) } },
+    });
+    assert.equal(orphaned, 0);
+  });
+});
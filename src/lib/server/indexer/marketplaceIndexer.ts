@@ -0,0 +1,865 @@
+// src/lib/server/indexer/marketplaceIndexer.ts
+/* MarketplaceCore event indexer.
+   - Tails ListingCreated / ListingPurchased / ListingCancelled and
+     AuctionCreated / BidPlaced / AuctionSettled / AuctionCancelled.
+   - Listings that were created to accept an offer fill/release that offer.
+   - Cursor lives in ChainState (userAddress = INDEXER_CURSOR_KEY, contract = marketplace).
+   - Only indexes up to head - confirmations, and always re-scans the last
+     `reorgDepth` blocks so a shallow reorg is healed on the next pass.
+   - Every row an event writes is journaled in MarketplaceIndexerWrite (with the row as it
+     was before). An event that has journal rows is not applied twice, and when a re-scan
+     finds one of them gone, everything from that block on is put back and re-applied.
+     Rows /api/marketplace/sync already wrote for the same event count as created by it, so
+     a revert deletes them rather than restoring them.
+   - Listings/auctions are keyed by their on-chain id, bids/sales by (txHash, logIndex).
+*/
+import { ethers } from "ethers";
+import prisma from "@/src/lib/db";
+import { Prisma } from "@/src/lib/generated/prisma/client";
+import { MARKETPLACE_CORE_ABI } from "@/src/lib/abis/marketplace-core/marketPlaceCoreABI";
+import { ERC20_ABI } from "@/src/lib/abis/tokens/erc20";
+import { onOfferListingCancelled, onOfferListingPurchased } from "@/src/lib/server/offers";
+import { markCollectionStatsStale } from "@/src/lib/server/collection-stats";
+import { listingModeFor } from "@/src/lib/dutch";
+
+export const INDEXER_CURSOR_KEY = "indexer:marketplace";
+
+export const MARKETPLACE_EVENTS = [
+  "ListingCreated",
+  "ListingPurchased",
+  "ListingCancelled",
+  "AuctionCreated",
+  "BidPlaced",
+  "AuctionSettled",
+  "AuctionCancelled",
+] as const;
+
+type MarketplaceEvent = (typeof MARKETPLACE_EVENTS)[number];
+
+export type MarketplaceIndexerOptions = {
+  provider: ethers.Provider;
+  marketplace: string;
+  /** First block to scan when no checkpoint exists yet. */
+  startBlock?: number;
+  /** Blocks to stay behind head (0 is fine for a local devnet). */
+  confirmations?: number;
+  /** Blocks re-scanned behind the cursor on every pass. */
+  reorgDepth?: number;
+  /** Max blocks per eth_getLogs call (shrinks automatically on RPC errors). */
+  batchSize?: number;
+  log?: (msg: string) => void;
+};
+
+export type IndexedLog = {
+  name: MarketplaceEvent;
+  args: ethers.Result;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  timestamp: Date;
+};
+
+const iface = new ethers.Interface(MARKETPLACE_CORE_ABI);
+const ZERO = ethers.ZeroAddress;
+const DEFAULT_AVATAR = "/img/default-avatar.png";
+
+function topicFor(name: MarketplaceEvent): string {
+  const ev = iface.getEvent(name);
+  if (!ev) throw new Error(`[indexer] ${name} missing from MARKETPLACE_CORE_ABI`);
+  return ev.topicHash;
+}
+
+const TOPICS = MARKETPLACE_EVENTS.map(topicFor);
+
+function normAddr(a: string) {
+  return ethers.getAddress(a);
+}
+
+function defaultUsername(addr: string) {
+  return `user_${addr.slice(2, 8).toLowerCase()}`;
+}
+
+function stdLabel(standard: bigint | number) {
+  return Number(standard) === 1 ? "ERC1155" : "ERC721";
+}
+
+function secToDate(sec: bigint | number) {
+  return new Date(Number(sec) * 1000);
+}
+
+/* ------------------------------------------------------------------ */
+/* Cursor                                                              */
+/* ------------------------------------------------------------------ */
+
+export async function readCursor(marketplace: string): Promise<number | null> {
+  const row = await prisma.chainState.findUnique({
+    where: {
+      contract_userAddress: { userAddress: INDEXER_CURSOR_KEY, contract: marketplace },
+    },
+    select: { lastBlockNumber: true },
+  });
+  return row ? row.lastBlockNumber : null;
+}
+
+async function writeCursor(marketplace: string, block: number) {
+  await prisma.chainState.upsert({
+    where: {
+      contract_userAddress: { userAddress: INDEXER_CURSOR_KEY, contract: marketplace },
+    },
+    update: { lastBlockNumber: block },
+    create: { userAddress: INDEXER_CURSOR_KEY, contract: marketplace, lastBlockNumber: block },
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/* Journal                                                             */
+/* ------------------------------------------------------------------ */
+
+type JournaledModel =
+  | "MarketplaceListing"
+  | "Auction"
+  | "AuctionBid"
+  | "MarketplaceSale"
+  | "MarketplaceOffer"
+  | "Erc1155Holding"
+  | "NFT";
+
+/** Records the rows one event writes. Call `before` ahead of an update/delete, `created` after an insert. */
+type Journal = {
+  before(model: JournaledModel, rowId: string): Promise<void>;
+  created(model: JournaledModel, rowId: string): Promise<void>;
+};
+
+type Row = Record<string, unknown>;
+
+async function readRow(model: JournaledModel, id: string): Promise<Row | null> {
+  switch (model) {
+    case "MarketplaceListing":
+      return prisma.marketplaceListing.findUnique({ where: { id } });
+    case "Auction":
+      return prisma.auction.findUnique({ where: { id } });
+    case "AuctionBid":
+      return prisma.auctionBid.findUnique({ where: { id } });
+    case "MarketplaceSale":
+      return prisma.marketplaceSale.findUnique({ where: { id } });
+    case "MarketplaceOffer":
+      return prisma.marketplaceOffer.findUnique({ where: { id } });
+    case "Erc1155Holding":
+      return prisma.erc1155Holding.findUnique({ where: { id } });
+    case "NFT":
+      // the indexer only ever moves the owner
+      return prisma.nFT.findUnique({ where: { id }, select: { ownerId: true } });
+  }
+}
+
+/** Put a row back the way `before` has it (null = the write created it, so delete it). Returns the row's nftId, if any. */
+async function restoreRow(model: JournaledModel, id: string, before: Row | null): Promise<string | null> {
+  switch (model) {
+    case "MarketplaceListing": {
+      if (before) {
+        const row = before as Prisma.MarketplaceListingUncheckedCreateInput;
+        await prisma.marketplaceListing.upsert({ where: { id }, update: row, create: row });
+        return row.nftId;
+      }
+      const gone = await prisma.marketplaceListing.findUnique({ where: { id }, select: { nftId: true } });
+      await prisma.marketplaceListing.deleteMany({ where: { id } });
+      return gone?.nftId ?? null;
+    }
+    case "Auction": {
+      if (before) {
+        const row = before as Prisma.AuctionUncheckedCreateInput;
+        await prisma.auction.upsert({ where: { id }, update: row, create: row });
+        return row.nftId;
+      }
+      const gone = await prisma.auction.findUnique({ where: { id }, select: { nftId: true } });
+      await prisma.auction.deleteMany({ where: { id } });
+      return gone?.nftId ?? null;
+    }
+    case "AuctionBid": {
+      if (before) {
+        const row = before as Prisma.AuctionBidUncheckedCreateInput;
+        await prisma.auctionBid.upsert({ where: { id }, update: row, create: row });
+      } else {
+        await prisma.auctionBid.deleteMany({ where: { id } });
+      }
+      return null;
+    }
+    case "MarketplaceSale": {
+      if (before) {
+        const row = before as Prisma.MarketplaceSaleUncheckedCreateInput;
+        await prisma.marketplaceSale.upsert({ where: { id }, update: row, create: row });
+        return row.nftId;
+      }
+      const gone = await prisma.marketplaceSale.findUnique({ where: { id }, select: { nftId: true } });
+      await prisma.marketplaceSale.deleteMany({ where: { id } });
+      return gone?.nftId ?? null;
+    }
+    case "MarketplaceOffer": {
+      if (before) {
+        const row = before as Prisma.MarketplaceOfferUncheckedCreateInput;
+        await prisma.marketplaceOffer.upsert({ where: { id }, update: row, create: row });
+      } else {
+        await prisma.marketplaceOffer.deleteMany({ where: { id } });
+      }
+      return null;
+    }
+    case "Erc1155Holding": {
+      if (before) {
+        const row = before as Prisma.Erc1155HoldingUncheckedCreateInput;
+        await prisma.erc1155Holding.upsert({ where: { id }, update: row, create: row });
+      } else {
+        await prisma.erc1155Holding.deleteMany({ where: { id } });
+      }
+      return null;
+    }
+    case "NFT":
+      if (before) {
+        await prisma.nFT.updateMany({ where: { id }, data: { ownerId: before.ownerId as string | null } });
+        return id;
+      }
+      try {
+        await prisma.nFT.deleteMany({ where: { id, status: "PENDING" } });
+      } catch {
+        // a stub something outside the journal points at by now stays
+      }
+      return null;
+  }
+}
+
+function journalFor(ev: IndexedLog): Journal {
+  let step = 0;
+  const record = async (model: JournaledModel, rowId: string, before: Row | null) => {
+    await prisma.marketplaceIndexerWrite.create({
+      data: {
+        blockNumber: ev.blockNumber,
+        txHash: ev.txHash,
+        logIndex: ev.logIndex,
+        step: step++,
+        model,
+        rowId,
+        // Decimals → strings, Dates → ISO strings; both read back fine as create input
+        before: before ? (JSON.parse(JSON.stringify(before)) as Prisma.InputJsonObject) : Prisma.DbNull,
+      },
+    });
+  };
+  return {
+    before: async (model, rowId) => record(model, rowId, await readRow(model, rowId)),
+    created: (model, rowId) => record(model, rowId, null),
+  };
+}
+
+/** Undo the journaled writes matching `where`, newest first, and drop them from the journal. */
+async function revertWrites(where: Prisma.MarketplaceIndexerWriteWhereInput) {
+  const writes = await prisma.marketplaceIndexerWrite.findMany({
+    where,
+    orderBy: [{ blockNumber: "desc" }, { logIndex: "desc" }, { step: "desc" }],
+  });
+  if (!writes.length) return 0;
+
+  const nftIds = new Set<string>();
+  for (const w of writes) {
+    const nftId = await restoreRow(w.model as JournaledModel, w.rowId, w.before as Row | null);
+    if (nftId) nftIds.add(nftId);
+  }
+  await prisma.marketplaceIndexerWrite.deleteMany({ where: { id: { in: writes.map((w) => w.id) } } });
+  if (nftIds.size) await markCollectionStatsStale({ id: { in: [...nftIds] } });
+  return writes.length;
+}
+
+/* ------------------------------------------------------------------ */
+/* Lookups                                                             */
+/* ------------------------------------------------------------------ */
+
+const currencyCache = new Map<string, string | null>();
+
+/** Currency.id for an on-chain currency address (null = native ETN). */
+async function resolveCurrencyId(provider: ethers.Provider, addr: string) {
+  if (!addr || addr === ZERO) return null;
+  const key = addr.toLowerCase();
+  if (currencyCache.has(key)) return currencyCache.get(key)!;
+
+  let row = await prisma.currency.findFirst({
+    where: { tokenAddress: { equals: addr, mode: "insensitive" } },
+    select: { id: true },
+  });
+
+  if (!row) {
+    // Allowed on-chain but unknown here: record it inactive so admins can review.
+    const erc20 = new ethers.Contract(addr, ERC20_ABI, provider);
+    const [symbol, decimals] = await Promise.all([
+      erc20.symbol().catch(() => "ERC20"),
+      erc20.decimals().catch(() => 18),
+    ]);
+    row = await prisma.currency.upsert({
+      where: { tokenAddress: normAddr(addr) },
+      update: {},
+      create: {
+        symbol: String(symbol),
+        decimals: Number(decimals),
+        kind: "ERC20",
+        tokenAddress: normAddr(addr),
+        active: false,
+      },
+      select: { id: true },
+    });
+  }
+
+  currencyCache.set(key, row.id);
+  return row.id;
+}
+
+/** NFT.id for contract+tokenId, creating a PENDING stub when metadata hasn't been indexed yet. */
+async function resolveNftId(j: Journal, contract: string, tokenId: string, standard: string) {
+  const existing = await prisma.nFT.findFirst({
+    where: { contract: { equals: contract, mode: "insensitive" }, tokenId },
+    select: { id: true },
+  });
+  if (existing) return existing.id;
+
+  const col = await prisma.collection.findFirst({
+    where: { contract: { equals: contract, mode: "insensitive" } },
+    select: { id: true, contract: true },
+  });
+
+  const created = await prisma.nFT.create({
+    data: {
+      contract: col?.contract ?? normAddr(contract),
+      tokenId,
+      standard,
+      collectionId: col?.id ?? null,
+    },
+    select: { id: true },
+  });
+  await j.created("NFT", created.id);
+  return created.id;
+}
+
+async function setErc721Owner(j: Journal, nftId: string, owner: string) {
+  const addr = normAddr(owner);
+  const user = await prisma.user.upsert({
+    where: { walletAddress: addr },
+    update: {},
+    create: { walletAddress: addr, username: defaultUsername(addr), profileAvatar: DEFAULT_AVATAR },
+    select: { id: true },
+  });
+  await j.before("NFT", nftId);
+  await prisma.nFT.update({ where: { id: nftId }, data: { ownerId: user.id } });
+}
+
+/** Move `quantity` of an ERC1155 token between holders' Erc1155Holding balances. */
+async function moveErc1155(j: Journal, nftId: string, from: string, to: string, quantity: number) {
+  const nft = await prisma.nFT.findUnique({ where: { id: nftId }, select: { contract: true, tokenId: true } });
+  if (!nft) return;
+
+  const shift = async (owner: string, delta: number) => {
+    const key = { contract: nft.contract, tokenId: nft.tokenId, ownerAddress: normAddr(owner) };
+    const row = await prisma.erc1155Holding.findUnique({
+      where: { contract_tokenId_ownerAddress: key },
+      select: { id: true, balance: true },
+    });
+    if (row) {
+      await j.before("Erc1155Holding", row.id);
+      await prisma.erc1155Holding.update({
+        where: { id: row.id },
+        data: { balance: Math.max(0, row.balance + delta), updatedAt: new Date() },
+      });
+    } else {
+      const created = await prisma.erc1155Holding.create({
+        data: { ...key, balance: Math.max(0, delta), updatedAt: new Date() },
+        select: { id: true },
+      });
+      await j.created("Erc1155Holding", created.id);
+    }
+  };
+
+  await shift(from, -quantity);
+  await shift(to, quantity);
+}
+
+/**
+ * A row keyed by this event's id that some other write (/api/marketplace/sync, the pending
+ * reconciler) created for the same tx. It's journaled as created, not as a "before".
+ */
+function writtenBySync(row: { txHashCreated: string | null } | null, ev: IndexedLog) {
+  return row?.txHashCreated?.toLowerCase() === ev.txHash.toLowerCase();
+}
+
+/** Journal the offers a listing's fill/cancel is about to release (see offers.ts). */
+async function journalAcceptedOffers(j: Journal, listingId: string) {
+  const offers = await prisma.marketplaceOffer.findMany({
+    where: { listingId, status: "ACCEPTED" },
+    select: { id: true },
+  });
+  for (const o of offers) await j.before("MarketplaceOffer", o.id);
+}
+
+/* ------------------------------------------------------------------ */
+/* Event handlers                                                      */
+/* ------------------------------------------------------------------ */
+
+async function onListingCreated(provider: ethers.Provider, ev: IndexedLog, j: Journal) {
+  const { listingId, seller, token, tokenId, quantity, currency, price, startTime, endTime, standard } =
+    ev.args;
+  const id = (listingId as bigint).toString();
+  const nftId = await resolveNftId(j, String(token), (tokenId as bigint).toString(), stdLabel(standard));
+  const currencyId = await resolveCurrencyId(provider, String(currency));
+  const isNative = currencyId === null;
+
+  const data = {
+    nftId,
+    sellerAddress: normAddr(String(seller)),
+    quantity: Number(quantity),
+    currencyId,
+    priceEtnWei: isNative ? (price as bigint).toString() : "0",
+    priceTokenAmount: isNative ? null : (price as bigint).toString(),
+    startTime: secToDate(startTime),
+    endTime: Number(endTime) === 0 ? null : secToDate(endTime),
+    txHashCreated: ev.txHash,
+    status: "ACTIVE" as const,
+    mode: listingModeFor(secToDate(startTime), ev.timestamp),
+  };
+
+  // Only the sync knows which Dutch schedule a step belongs to: keep that link, whether it
+  // sits on the optimistic row or on this row from an earlier pass.
+  const dutch = await prisma.marketplaceListing.findFirst({
+    where: { txHashCreated: ev.txHash, dutchScheduleId: { not: null } },
+    select: { mode: true, dutchScheduleId: true, dutchStep: true },
+  });
+  const fields = dutch ? { ...data, ...dutch } : data;
+
+  // Rows from /api/marketplace/sync before it keyed listings by the chain id carry a cuid.
+  // They come from this same tx, so a revert has nothing to put back.
+  await prisma.marketplaceListing.deleteMany({ where: { txHashCreated: ev.txHash, id: { not: id } } });
+
+  const prior = await prisma.marketplaceListing.findUnique({ where: { id }, select: { txHashCreated: true } });
+  const synced = writtenBySync(prior, ev);
+  if (!synced) await j.before("MarketplaceListing", id);
+  await prisma.marketplaceListing.upsert({
+    where: { id },
+    update: fields,
+    create: { id, ...fields },
+  });
+  if (synced) await j.created("MarketplaceListing", id);
+  await markCollectionStatsStale({ id: nftId });
+}
+
+async function onListingPurchased(provider: ethers.Provider, ev: IndexedLog, j: Journal) {
+  const { listingId, buyer, currency, pricePaid, royaltyPaid, feePaid, feeRecipient } = ev.args;
+  const id = (listingId as bigint).toString();
+
+  const listing = await prisma.marketplaceListing.findUnique({
+    where: { id },
+    select: { nftId: true, sellerAddress: true, quantity: true, nft: { select: { standard: true } } },
+  });
+  if (!listing) return; // created before startBlock; nothing to attach the sale to
+
+  await j.before("MarketplaceListing", id);
+  await prisma.marketplaceListing.update({
+    where: { id },
+    data: { status: "SOLD", txHashFilled: ev.txHash },
+  });
+
+  const currencyId = await resolveCurrencyId(provider, String(currency));
+  await upsertSale(ev, j, {
+    nftId: listing.nftId,
+    buyer: String(buyer),
+    seller: listing.sellerAddress,
+    quantity: listing.quantity,
+    currencyId,
+    pricePaid: pricePaid as bigint,
+    royaltyPaid: royaltyPaid as bigint,
+    feePaid: feePaid as bigint,
+    feeRecipient: String(feeRecipient),
+  });
+
+  if ((listing.nft.standard ?? "ERC721") === "ERC1155") {
+    await moveErc1155(j, listing.nftId, listing.sellerAddress, String(buyer), listing.quantity);
+  } else {
+    await setErc721Owner(j, listing.nftId, String(buyer));
+  }
+
+  await journalAcceptedOffers(j, id);
+  await onOfferListingPurchased(id, String(buyer), ev.txHash);
+}
+
+async function onListingCancelled(ev: IndexedLog, j: Journal) {
+  const id = (ev.args.listingId as bigint).toString();
+  const listing = await prisma.marketplaceListing.findUnique({ where: { id }, select: { id: true } });
+  if (listing) {
+    await j.before("MarketplaceListing", id);
+    await prisma.marketplaceListing.update({
+      where: { id },
+      data: { status: "CANCELLED", txHashCancelled: ev.txHash },
+    });
+    await markCollectionStatsStale({ listingEntries: { some: { id } } });
+  }
+  await journalAcceptedOffers(j, id);
+  await onOfferListingCancelled(id);
+}
+
+async function onAuctionCreated(provider: ethers.Provider, ev: IndexedLog, j: Journal) {
+  const {
+    auctionId,
+    seller,
+    token,
+    tokenId,
+    quantity,
+    currency,
+    startPrice,
+    minIncrement,
+    startTime,
+    endTime,
+    standard,
+  } = ev.args;
+  const id = (auctionId as bigint).toString();
+  const nftId = await resolveNftId(j, String(token), (tokenId as bigint).toString(), stdLabel(standard));
+  const currencyId = await resolveCurrencyId(provider, String(currency));
+  const isNative = currencyId === null;
+
+  const data = {
+    nftId,
+    sellerAddress: normAddr(String(seller)),
+    quantity: Number(quantity),
+    currencyId,
+    startPriceEtnWei: isNative ? (startPrice as bigint).toString() : "0",
+    minIncrementEtnWei: isNative ? (minIncrement as bigint).toString() : null,
+    startPriceTokenAmount: isNative ? null : (startPrice as bigint).toString(),
+    minIncrementTokenAmount: isNative ? null : (minIncrement as bigint).toString(),
+    startTime: secToDate(startTime),
+    endTime: secToDate(endTime),
+    txHashCreated: ev.txHash,
+    status: "ACTIVE" as const,
+  };
+
+  const prior = await prisma.auction.findUnique({ where: { id }, select: { txHashCreated: true } });
+  const synced = writtenBySync(prior, ev);
+  if (!synced) await j.before("Auction", id);
+  await prisma.auction.upsert({ where: { id }, update: data, create: { id, ...data } });
+  if (synced) await j.created("Auction", id);
+
+  // Re-home bids from an optimistic /api/marketplace/sync row, then drop it.
+  const placeholders = await prisma.auction.findMany({
+    where: { txHashCreated: ev.txHash, id: { not: id } },
+    select: { id: true, bids: { select: { id: true } } },
+  });
+  if (placeholders.length) {
+    const ids = placeholders.map((p) => p.id);
+    for (const p of placeholders) {
+      for (const b of p.bids) await j.before("AuctionBid", b.id);
+      await j.before("Auction", p.id);
+    }
+    await prisma.auctionBid.updateMany({ where: { auctionId: { in: ids } }, data: { auctionId: id } });
+    await prisma.auction.deleteMany({ where: { id: { in: ids } } });
+  }
+}
+
+async function onBidPlaced(provider: ethers.Provider, ev: IndexedLog, j: Journal) {
+  const { auctionId, bidder, currency, amount, newEndTime } = ev.args;
+  const id = (auctionId as bigint).toString();
+
+  const auction = await prisma.auction.findUnique({ where: { id }, select: { id: true } });
+  if (!auction) return;
+
+  const currencyId = await resolveCurrencyId(provider, String(currency));
+  const isNative = currencyId === null;
+  const bidderAddr = normAddr(String(bidder));
+  const amountStr = (amount as bigint).toString();
+
+  // Optimistic sync rows have no block yet; the indexed row supersedes them (same tx, so a
+  // revert has nothing to put back).
+  await prisma.auctionBid.deleteMany({ where: { txHash: ev.txHash, blockNumber: 0, logIndex: { not: ev.logIndex } } });
+
+  const bid = {
+    auctionId: id,
+    bidderAddress: bidderAddr,
+    amountWei: amountStr,
+    currencyId,
+    blockNumber: ev.blockNumber,
+    timestamp: ev.timestamp,
+  };
+  // a row with this (txHash, logIndex) and no journal entry was written by the sync
+  const row = await prisma.auctionBid.upsert({
+    where: { txHash_logIndex: { txHash: ev.txHash, logIndex: ev.logIndex } },
+    update: bid,
+    create: { ...bid, txHash: ev.txHash, logIndex: ev.logIndex },
+    select: { id: true },
+  });
+  await j.created("AuctionBid", row.id);
+
+  await j.before("Auction", id);
+  await prisma.auction.update({
+    where: { id },
+    data: {
+      highestBidder: bidderAddr,
+      highestBidEtnWei: isNative ? amountStr : null,
+      highestBidTokenAmount: isNative ? null : amountStr,
+      endTime: secToDate(newEndTime),
+    },
+  });
+}
+
+async function onAuctionSettled(provider: ethers.Provider, ev: IndexedLog, j: Journal) {
+  const { auctionId, winner, currency, pricePaid, royaltyPaid, feePaid, feeRecipient } = ev.args;
+  const id = (auctionId as bigint).toString();
+
+  const auction = await prisma.auction.findUnique({
+    where: { id },
+    select: { nftId: true, sellerAddress: true, quantity: true, nft: { select: { standard: true } } },
+  });
+  if (!auction) return;
+
+  await j.before("Auction", id);
+  await prisma.auction.update({
+    where: { id },
+    data: { status: "ENDED", txHashFinalized: ev.txHash },
+  });
+
+  // No bids → the item went back to the seller; nothing was sold.
+  if (String(winner) === ZERO || (pricePaid as bigint) === BigInt(0)) return;
+
+  const currencyId = await resolveCurrencyId(provider, String(currency));
+  await upsertSale(ev, j, {
+    nftId: auction.nftId,
+    buyer: String(winner),
+    seller: auction.sellerAddress,
+    quantity: auction.quantity,
+    currencyId,
+    pricePaid: pricePaid as bigint,
+    royaltyPaid: royaltyPaid as bigint,
+    feePaid: feePaid as bigint,
+    feeRecipient: String(feeRecipient),
+  });
+
+  if ((auction.nft.standard ?? "ERC721") === "ERC1155") {
+    await moveErc1155(j, auction.nftId, auction.sellerAddress, String(winner), auction.quantity);
+  } else {
+    await setErc721Owner(j, auction.nftId, String(winner));
+  }
+}
+
+async function onAuctionCancelled(ev: IndexedLog, j: Journal) {
+  const id = (ev.args.auctionId as bigint).toString();
+  const auction = await prisma.auction.findUnique({ where: { id }, select: { id: true } });
+  if (!auction) return;
+
+  await j.before("Auction", id);
+  await prisma.auction.update({
+    where: { id },
+    data: { status: "CANCELLED", txHashCancelled: ev.txHash },
+  });
+}
+
+async function upsertSale(
+  ev: IndexedLog,
+  j: Journal,
+  s: {
+    nftId: string;
+    buyer: string;
+    seller: string;
+    quantity: number;
+    currencyId: string | null;
+    pricePaid: bigint;
+    royaltyPaid: bigint;
+    feePaid: bigint;
+    feeRecipient: string;
+  }
+) {
+  const isNative = s.currencyId === null;
+  const data = {
+    nftId: s.nftId,
+    buyerAddress: normAddr(s.buyer),
+    sellerAddress: s.seller,
+    quantity: s.quantity,
+    currencyId: s.currencyId,
+    priceEtnWei: isNative ? s.pricePaid.toString() : "0",
+    royaltyPaidWei: isNative ? s.royaltyPaid.toString() : null,
+    marketplaceFeePaidWei: isNative ? s.feePaid.toString() : null,
+    priceTokenAmount: isNative ? null : s.pricePaid.toString(),
+    royaltyPaidTokenAmount: isNative ? null : s.royaltyPaid.toString(),
+    feePaidTokenAmount: isNative ? null : s.feePaid.toString(),
+    marketplaceFeeRecipient: s.feeRecipient === ZERO ? null : normAddr(s.feeRecipient),
+    blockNumber: ev.blockNumber,
+    timestamp: ev.timestamp,
+  };
+
+  // as with bids, an existing row for this (txHash, logIndex) came from an unjournaled write
+  const row = await prisma.marketplaceSale.upsert({
+    where: { txHash_logIndex: { txHash: ev.txHash, logIndex: ev.logIndex } },
+    update: data,
+    create: { ...data, txHash: ev.txHash, logIndex: ev.logIndex },
+    select: { id: true },
+  });
+  await j.created("MarketplaceSale", row.id);
+  // the sale, the listing it filled and the new owner all move the collection's stats
+  await markCollectionStatsStale({ id: s.nftId });
+}
+
+function handleLog(provider: ethers.Provider, ev: IndexedLog, j: Journal) {
+  switch (ev.name) {
+    case "ListingCreated":
+      return onListingCreated(provider, ev, j);
+    case "ListingPurchased":
+      return onListingPurchased(provider, ev, j);
+    case "ListingCancelled":
+      return onListingCancelled(ev, j);
+    case "AuctionCreated":
+      return onAuctionCreated(provider, ev, j);
+    case "BidPlaced":
+      return onBidPlaced(provider, ev, j);
+    case "AuctionSettled":
+      return onAuctionSettled(provider, ev, j);
+    case "AuctionCancelled":
+      return onAuctionCancelled(ev, j);
+  }
+}
+
+/** Apply one event unless it already has been (its writes are in the journal). */
+export async function applyMarketplaceLog(provider: ethers.Provider, ev: IndexedLog) {
+  const applied = await prisma.marketplaceIndexerWrite.findFirst({
+    where: { txHash: ev.txHash, logIndex: ev.logIndex },
+    select: { id: true },
+  });
+  if (applied) return;
+
+  try {
+    await handleLog(provider, ev, journalFor(ev));
+  } catch (e) {
+    // don't leave half an event behind: the next pass applies it from scratch
+    await revertWrites({ txHash: ev.txHash, logIndex: ev.logIndex });
+    throw e;
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Scanning                                                            */
+/* ------------------------------------------------------------------ */
+
+/** Fetch + decode marketplace logs in [fromBlock, toBlock], ordered by (block, logIndex). */
+export async function fetchMarketplaceLogs(
+  provider: ethers.Provider,
+  marketplace: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<IndexedLog[]> {
+  const raw = await provider.getLogs({
+    address: marketplace,
+    fromBlock,
+    toBlock,
+    topics: [TOPICS],
+  });
+
+  const blockTimes = new Map<number, Date>();
+  const out: IndexedLog[] = [];
+
+  for (const log of raw) {
+    if (log.removed) continue;
+    const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) continue;
+
+    let ts = blockTimes.get(log.blockNumber);
+    if (!ts) {
+      const block = await provider.getBlock(log.blockNumber);
+      ts = block ? secToDate(block.timestamp) : new Date();
+      blockTimes.set(log.blockNumber, ts);
+    }
+
+    out.push({
+      name: parsed.name as MarketplaceEvent,
+      args: parsed.args,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      blockNumber: log.blockNumber,
+      timestamp: ts,
+    });
+  }
+
+  out.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  return out;
+}
+
+type LogRef = { blockNumber: number; txHash: string; logIndex: number };
+
+/**
+ * First block holding a journaled event that is no longer among `logs` (dropped, or moved to
+ * another block), or null when every journaled event is still there. `writes` in block order.
+ */
+export function firstOrphanBlock(writes: LogRef[], logs: LogRef[]): number | null {
+  const logKey = (l: LogRef) => `${l.blockNumber}:${l.txHash.toLowerCase()}:${l.logIndex}`;
+  const keep = new Set(logs.map(logKey));
+  return writes.find((w) => !keep.has(logKey(w)))?.blockNumber ?? null;
+}
+
+/**
+ * Revert every write from the first orphaned block of a re-scanned window on (see
+ * firstOrphanBlock). Returns how many writes were reverted; the events still on chain are
+ * applied again after.
+ */
+async function rollbackOrphans(fromBlock: number, toBlock: number, logs: IndexedLog[]) {
+  const writes = await prisma.marketplaceIndexerWrite.findMany({
+    where: { blockNumber: { gte: fromBlock, lte: toBlock } },
+    select: { blockNumber: true, txHash: true, logIndex: true },
+    orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+  });
+  const orphan = firstOrphanBlock(writes, logs);
+  if (orphan == null) return 0;
+
+  return revertWrites({ blockNumber: { gte: orphan } });
+}
+
+/**
+ * One indexing pass: from (cursor - reorgDepth) up to (head - confirmations).
+ * Returns the block range processed, or null when already caught up.
+ */
+export async function syncMarketplaceOnce(opts: MarketplaceIndexerOptions) {
+  const log = opts.log ?? ((m: string) => console.log(m));
+  const marketplace = normAddr(opts.marketplace);
+  const confirmations = Math.max(0, opts.confirmations ?? 12);
+  const reorgDepth = Math.max(0, opts.reorgDepth ?? confirmations);
+  let batchSize = Math.max(1, opts.batchSize ?? 2000);
+
+  const head = await opts.provider.getBlockNumber();
+  const safeHead = head - confirmations;
+
+  const cursor = await readCursor(marketplace);
+  const first =
+    cursor == null
+      ? Math.max(0, opts.startBlock ?? safeHead)
+      : Math.max(opts.startBlock ?? 0, cursor + 1 - reorgDepth);
+
+  if (safeHead < first || (cursor != null && safeHead <= cursor)) return null;
+
+  // blocks below the re-scan window can't be reorged out anymore
+  await prisma.marketplaceIndexerWrite.deleteMany({ where: { blockNumber: { lt: first } } });
+
+  let from = first;
+  let applied = 0;
+
+  while (from <= safeHead) {
+    const to = Math.min(from + batchSize - 1, safeHead);
+
+    let logs: IndexedLog[];
+    try {
+      logs = await fetchMarketplaceLogs(opts.provider, marketplace, from, to);
+    } catch (e) {
+      if (batchSize === 1) throw e;
+      batchSize = Math.max(1, Math.floor(batchSize / 2));
+      log(`[indexer] getLogs ${from}-${to} failed, retrying with batch=${batchSize}`);
+      continue;
+    }
+
+    // also covers events the app applied ahead of the cursor (offer accept)
+    const reverted = await rollbackOrphans(from, to, logs);
+    if (reverted) log(`[indexer] reorg in ${from}-${to}: reverted ${reverted} write(s)`);
+
+    for (const ev of logs) {
+      await applyMarketplaceLog(opts.provider, ev);
+    }
+
+    await writeCursor(marketplace, to);
+    applied += logs.length;
+    from = to + 1;
+  }
+
+  log(`[indexer] ${marketplace} ${first}-${safeHead}: ${applied} event(s)`);
+  return { fromBlock: first, toBlock: safeHead, events: applied };
+}
@@ -0,0 +1,191 @@
+// src/lib/server/indexer/marketplaceIndexer.unit.test.ts
+/* Indexer pieces that don't need Postgres: log decoding, rollback planning, and what an
+   event journals, against an in-memory stand-in for the few Prisma calls involved.
+   Runs on every `npm test` (marketplaceIndexer.test.ts covers the real database).
+*/
+import { before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { MARKETPLACE_CORE_ABI } from "@/src/lib/abis/marketplace-core/marketPlaceCoreABI";
+import type { IndexedLog } from "./marketplaceIndexer";
+
+const iface = new ethers.Interface(MARKETPLACE_CORE_ABI);
+const randomAddress = () => ethers.getAddress(ethers.hexlify(ethers.randomBytes(20)));
+const randomHash = () => ethers.hexlify(ethers.randomBytes(32));
+
+type Row = Record<string, unknown>;
+
+/** Just enough of the Prisma client for applyMarketplaceLog's BidPlaced / ListingCreated paths. */
+class FakeDb {
+  journal: Row[] = [];
+  auctions = new Map<string, Row>();
+  bids = new Map<string, Row>();
+  listings = new Map<string, Row>();
+  nfts: Row[] = [];
+  private seq = 0;
+
+  private id = () => `fake_${++this.seq}`;
+  private bidKey = (w: { txHash: string; logIndex: number }) => `${w.txHash}:${w.logIndex}`;
+
+  marketplaceIndexerWrite = {
+    findFirst: async ({ where }: { where: Row }) =>
+      this.journal.find((w) => w.txHash === where.txHash && w.logIndex === where.logIndex) ?? null,
+    create: async ({ data }: { data: Row }) => {
+      this.journal.push(data);
+      return data;
+    },
+  };
+
+  auction = {
+    findUnique: async ({ where }: { where: { id: string } }) => this.auctions.get(where.id) ?? null,
+    update: async ({ where, data }: { where: { id: string }; data: Row }) =>
+      Object.assign(this.auctions.get(where.id)!, data),
+  };
+
+  auctionBid = {
+    deleteMany: async () => ({ count: 0 }),
+    upsert: async (a: { where: { txHash_logIndex: { txHash: string; logIndex: number } }; update: Row; create: Row }) => {
+      const key = this.bidKey(a.where.txHash_logIndex);
+      const row = this.bids.get(key);
+      if (row) return Object.assign(row, a.update);
+      const created = { id: this.id(), ...a.create };
+      this.bids.set(key, created);
+      return created;
+    },
+  };
+
+  marketplaceListing = {
+    findFirst: async () => null,
+    deleteMany: async () => ({ count: 0 }),
+    findUnique: async ({ where }: { where: { id: string } }) => this.listings.get(where.id) ?? null,
+    upsert: async (a: { where: { id: string }; update: Row; create: Row }) => {
+      const row = this.listings.get(a.where.id);
+      if (row) return Object.assign(row, a.update);
+      this.listings.set(a.where.id, { ...a.create });
+      return a.create;
+    },
+  };
+
+  nFT = {
+    findFirst: async ({ where }: { where: { tokenId: string } }) =>
+      this.nfts.find((n) => n.tokenId === where.tokenId) ?? null,
+    create: async ({ data }: { data: Row }) => {
+      const row = { id: this.id(), ...data };
+      this.nfts.push(row);
+      return row;
+    },
+  };
+
+  collection = {
+    findFirst: async () => null,
+    updateMany: async () => ({ count: 0 }),
+  };
+}
+
+const db = new FakeDb();
+
+describe("marketplace indexer (no database)", () => {
+  let indexer: typeof import("./marketplaceIndexer");
+  let DbNull: unknown;
+
+  before(async () => {
+    // src/lib/db.ts reuses a client parked on globalThis, so the fake stands in for Prisma
+    Object.assign(globalThis, { __PRISMA__: db, __PRISMA_READY__: Promise.resolve() });
+    indexer = await import("./marketplaceIndexer");
+    DbNull = (await import("@/src/lib/generated/prisma/client")).Prisma.DbNull;
+  });
+
+  beforeEach(() => {
+    db.journal = [];
+  });
+
+  const ev = (name: IndexedLog["name"], args: unknown[], blockNumber = 10, logIndex = 0): IndexedLog => {
+    const fragment = iface.getEvent(name)!;
+    const { topics, data } = iface.encodeEventLog(fragment, args);
+    return {
+      name,
+      args: iface.decodeEventLog(fragment, data, topics),
+      txHash: randomHash(),
+      logIndex,
+      blockNumber,
+      timestamp: new Date(1_700_000_000_000),
+    };
+  };
+
+  it("decodes marketplace logs in (block, logIndex) order and skips removed ones", async () => {
+    const market = randomAddress();
+    const mk = (blockNumber: number, index: number, listingId: number, removed = false) => ({
+      ...iface.encodeEventLog("ListingCancelled", [listingId]),
+      address: market,
+      blockNumber,
+      index,
+      transactionHash: randomHash(),
+      removed,
+    });
+    let blockReads = 0;
+    const provider = {
+      getLogs: async () => [mk(7, 1, 3), mk(5, 0, 1), mk(7, 0, 2), mk(6, 0, 99, true)],
+      getBlock: async (n: number) => {
+        blockReads++;
+        return { timestamp: 1_700_000_000 + n };
+      },
+    } as unknown as ethers.Provider;
+
+    const logs = await indexer.fetchMarketplaceLogs(provider, market, 5, 7);
+    assert.deepEqual(
+      logs.map((l) => [l.name, l.blockNumber, l.logIndex, Number(l.args.listingId)]),
+      [
+        ["ListingCancelled", 5, 0, 1],
+        ["ListingCancelled", 7, 0, 2],
+        ["ListingCancelled", 7, 1, 3],
+      ]
+    );
+    assert.equal(logs[2].timestamp.getTime(), (1_700_000_000 + 7) * 1000);
+    assert.equal(blockReads, 2, "one getBlock per block");
+  });
+
+  it("plans a rollback from the first block whose journaled event is gone", () => {
+    const a = { blockNumber: 10, txHash: "0xAA", logIndex: 0 };
+    const b = { blockNumber: 11, txHash: "0xbb", logIndex: 2 };
+    const c = { blockNumber: 12, txHash: "0xcc", logIndex: 0 };
+
+    assert.equal(indexer.firstOrphanBlock([a, b, c], [{ ...a, txHash: "0xaa" }, b, c]), null);
+    assert.equal(indexer.firstOrphanBlock([a, b, c], [a, c]), 11);
+    // same event re-mined one block later
+    assert.equal(indexer.firstOrphanBlock([a, b, c], [a, { ...b, blockNumber: 12 }, c]), 11);
+    assert.equal(indexer.firstOrphanBlock([], [a]), null);
+  });
+
+  it("journals a bid the sync already wrote as created, so a revert deletes it", async () => {
+    const bidder = randomAddress();
+    const bid = ev("BidPlaced", [42, bidder, ethers.ZeroAddress, 500, 1_700_000_900]);
+    db.auctions.set("42", { id: "42", highestBidder: null, highestBidEtnWei: null });
+    db.bids.set(`${bid.txHash}:0`, { id: "synced", txHash: bid.txHash, logIndex: 0, blockNumber: 10 });
+
+    await indexer.applyMarketplaceLog({} as ethers.Provider, bid);
+
+    const bidWrite = db.journal.find((w) => w.model === "AuctionBid");
+    assert.equal(bidWrite?.rowId, "synced");
+    assert.equal(bidWrite?.before, DbNull);
+    assert.equal(db.auctions.get("42")?.highestBidder, bidder);
+  });
+
+  it("journals the NFT stub and a sync-written listing as created", async () => {
+    const seller = randomAddress();
+    const token = randomAddress();
+    const created = ev("ListingCreated", [77, seller, token, 5, 1, ethers.ZeroAddress, 100, 1_700_000_000, 0, 0]);
+    db.listings.set("77", { id: "77", txHashCreated: created.txHash, status: "ACTIVE" });
+
+    await indexer.applyMarketplaceLog({} as ethers.Provider, created);
+
+    const stub = db.nfts.find((n) => n.tokenId === "5");
+    assert.ok(stub, "stub created");
+    assert.deepEqual(
+      db.journal.map((w) => [w.model, w.rowId, w.before === DbNull]),
+      [
+        ["NFT", stub.id, true],
+        ["MarketplaceListing", "77", true],
+      ]
+    );
+  });
+});
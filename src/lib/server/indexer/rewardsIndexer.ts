@@ -0,0 +1,143 @@
+// src/lib/server/indexer/rewardsIndexer.ts
+/* RewardDistributor event indexer.
+   - Funded → RewardDistributionLog (applied to the holder accumulators afterwards,
+     see applyPendingDistributions in ../rewards.ts).
+   - Claimed → RewardClaimLog + HolderRewardMulti.claimedAmount, so claims made outside
+     /rewards show up in the history too.
+   - Cursor lives in ChainState (userAddress = REWARDS_CURSOR_KEY, contract = distributor).
+   - Both logs are keyed by (txHash, logIndex). Funding rows are not pruned on reorg once
+     applied, so keep `confirmations` conservative on mainnet.
+*/
+import { ethers } from "ethers";
+import prisma from "@/src/lib/db";
+import { REWARD_DISTRIBUTOR_ABI } from "@/src/lib/abis/marketplace-core/rewardDistributorABI";
+import { applyClaimed, applyPendingDistributions, currencyForToken } from "@/src/lib/server/rewards";
+
+export const REWARDS_CURSOR_KEY = "indexer:rewards";
+
+const EVENTS = ["Funded", "Claimed"] as const;
+
+export type RewardsIndexerOptions = {
+  provider: ethers.Provider;
+  distributor: string;
+  /** First block to scan when no checkpoint exists yet. */
+  startBlock?: number;
+  /** Blocks to stay behind head (0 is fine for a local devnet). */
+  confirmations?: number;
+  /** Max blocks per eth_getLogs call (shrinks automatically on RPC errors). */
+  batchSize?: number;
+  log?: (msg: string) => void;
+};
+
+const iface = new ethers.Interface(REWARD_DISTRIBUTOR_ABI);
+const TOPICS = EVENTS.map((name) => {
+  const ev = iface.getEvent(name);
+  if (!ev) throw new Error(`[rewards] ${name} missing from REWARD_DISTRIBUTOR_ABI`);
+  return ev.topicHash;
+});
+
+async function readCursor(distributor: string): Promise<number | null> {
+  const row = await prisma.chainState.findUnique({
+    where: { contract_userAddress: { userAddress: REWARDS_CURSOR_KEY, contract: distributor } },
+    select: { lastBlockNumber: true },
+  });
+  return row ? row.lastBlockNumber : null;
+}
+
+async function writeCursor(distributor: string, block: number) {
+  await prisma.chainState.upsert({
+    where: { contract_userAddress: { userAddress: REWARDS_CURSOR_KEY, contract: distributor } },
+    update: { lastBlockNumber: block },
+    create: { userAddress: REWARDS_CURSOR_KEY, contract: distributor, lastBlockNumber: block },
+  });
+}
+
+async function onFunded(args: ethers.Result, log: ethers.Log, timestamp: Date) {
+  const currency = await currencyForToken(String(args.token));
+  if (!currency) return false; // token we don't list; nothing to credit it against
+
+  const data = {
+    currencyId: currency.id,
+    amount: ethers.formatUnits(args.amount as bigint, currency.decimals),
+    blockNumber: log.blockNumber,
+    timestamp,
+    note: `funded by ${ethers.getAddress(String(args.from))}`,
+  };
+  const existing = await prisma.rewardDistributionLog.findUnique({
+    where: { txHash_logIndex: { txHash: log.transactionHash, logIndex: log.index } },
+    select: { id: true },
+  });
+  if (existing) return false;
+  await prisma.rewardDistributionLog.create({ data: { ...data, txHash: log.transactionHash, logIndex: log.index } });
+  return true;
+}
+
+/**
+ * One pass: index Funded/Claimed up to (head - confirmations), then apply pending distributions.
+ * Returns the block range processed, or null when already caught up.
+ */
+export async function syncRewardsOnce(opts: RewardsIndexerOptions) {
+  const log = opts.log ?? ((m: string) => console.log(m));
+  const address = ethers.getAddress(opts.distributor);
+  const confirmations = Math.max(0, opts.confirmations ?? 12);
+  let batchSize = Math.max(1, opts.batchSize ?? 2000);
+
+  const head = await opts.provider.getBlockNumber();
+  const safeHead = head - confirmations;
+  const cursor = await readCursor(address);
+  const first = cursor == null ? Math.max(0, opts.startBlock ?? safeHead) : cursor + 1;
+
+  let funded = 0;
+  let claimed = 0;
+  let from = first;
+  while (from <= safeHead) {
+    const to = Math.min(from + batchSize - 1, safeHead);
+
+    let raw: ethers.Log[];
+    try {
+      raw = await opts.provider.getLogs({ address, fromBlock: from, toBlock: to, topics: [TOPICS] });
+    } catch (e) {
+      if (batchSize === 1) throw e;
+      batchSize = Math.max(1, Math.floor(batchSize / 2));
+      log(`[rewards] getLogs ${from}-${to} failed, retrying with batch=${batchSize}`);
+      continue;
+    }
+
+    const blockTimes = new Map<number, Date>();
+    const ordered = [...raw].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const l of ordered) {
+      if (l.removed) continue;
+      const parsed = iface.parseLog({ topics: [...l.topics], data: l.data });
+      if (!parsed) continue;
+
+      let ts = blockTimes.get(l.blockNumber);
+      if (!ts) {
+        const block = await opts.provider.getBlock(l.blockNumber);
+        ts = block ? new Date(Number(block.timestamp) * 1000) : new Date();
+        blockTimes.set(l.blockNumber, ts);
+      }
+
+      if (parsed.name === "Funded" && (await onFunded(parsed.args, l, ts))) funded++;
+      if (parsed.name === "Claimed") {
+        const wrote = await applyClaimed({
+          token: String(parsed.args.token),
+          account: String(parsed.args.account),
+          paid: parsed.args.paid as bigint,
+          newTotal: parsed.args.newTotal as bigint,
+          txHash: l.transactionHash,
+          logIndex: l.index,
+          timestamp: ts,
+        });
+        if (wrote) claimed++;
+      }
+    }
+
+    await writeCursor(address, to);
+    from = to + 1;
+  }
+
+  const applied = await applyPendingDistributions(log);
+  if (first > safeHead) return null;
+  log(`[rewards] ${address} ${first}-${safeHead}: ${funded} funding, ${claimed} claim(s), ${applied} applied`);
+  return { fromBlock: first, toBlock: safeHead, funded, claimed, applied };
+}
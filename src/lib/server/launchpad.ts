@@ -0,0 +1,382 @@
+// src/lib/server/launchpad.ts
+/* Launchpad (/create): asset pinning, fee lookup and deployment bookkeeping.
+   - Assets: files are pinned to IPFS through Pinata (PINATA_JWT) and recorded as AssetUpload
+     rows; they're linked to the Collection/Single once the deployment is confirmed.
+   - Fee: the active FeeConfig for (contractType, metadataOption). The factory call carries
+     feeRecipient/feeAmount in its config and msg.value pays it.
+   - Confirm: the tx must be a factory create* call from the session wallet whose config
+     matches the FeeConfig, and its receipt must hold the matching *CloneCreated event.
+     Then DeployedContract + Collection (with PublicSale/Presale) / Single721 / Single1155 are written.
+     A drop with a presale then binds its allowlist draft (see presale.ts).
+*/
+import crypto from "crypto";
+import { ethers } from "ethers";
+import prisma from "@/src/lib/db";
+import type { ContractType, MetadataOption, Prisma } from "@/src/lib/generated/prisma/client";
+import { NFT_FACTORY_ABI } from "@/src/lib/abis/NFTFactoryABI";
+import { bindPresaleDraft, PresaleError } from "./presale";
+import { ensureUserId } from "./submissions";
+import { getProvider } from "@/src/lib/server/chain/provider";
+import { HttpError } from "@/src/lib/server/errors";
+
+const PINATA_API = "https://api.pinata.cloud/pinning";
+
+export const CONTRACT_TYPES = ["ERC721_DROP", "ERC721_SINGLE", "ERC1155_SINGLE"] as const;
+export const METADATA_OPTIONS = ["UPLOAD", "EXTERNAL"] as const;
+
+const CREATE_FN: Record<ContractType, { fn: string; event: string; impl: string }> = {
+  ERC721_DROP: { fn: "createERC721Drop", event: "ERC721DropCloneCreated", impl: "erc721DropImpl" },
+  ERC721_SINGLE: { fn: "createERC721Single", event: "ERC721SingleCloneCreated", impl: "erc721SingleImpl" },
+  ERC1155_SINGLE: { fn: "createERC1155Drop", event: "ERC1155DropCloneCreated", impl: "erc1155DropImpl" },
+};
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+export class LaunchpadError extends HttpError {}
+
+export function getFactoryAddress() {
+  const addr = process.env.NEXT_PUBLIC_NFT_FACTORY_ADDRESS;
+  if (!addr || !ethers.isAddress(addr)) {
+    throw new Error("Missing NEXT_PUBLIC_NFT_FACTORY_ADDRESS (valid 0x address).");
+  }
+  return ethers.getAddress(addr);
+}
+
+/* ---------------- fees ---------------- */
+
+export async function listActiveFees() {
+  const rows = await prisma.feeConfig.findMany({
+    where: { active: true },
+    select: { contractType: true, metadataOption: true, feeRecipient: true, feeAmountEtnWei: true },
+  });
+  return rows.map((r) => ({
+    contractType: r.contractType,
+    metadataOption: r.metadataOption,
+    feeRecipient: ethers.getAddress(r.feeRecipient),
+    feeAmountWei: r.feeAmountEtnWei.toFixed(0),
+  }));
+}
+
+export async function getActiveFee(contractType: ContractType, metadataOption: MetadataOption) {
+  const row = await prisma.feeConfig.findFirst({
+    where: { contractType, metadataOption, active: true },
+    select: { feeRecipient: true, feeAmountEtnWei: true },
+  });
+  if (!row) throw new LaunchpadError("Deployment fee is not configured for this contract type", 503);
+  return { feeRecipient: ethers.getAddress(row.feeRecipient), feeAmountWei: BigInt(row.feeAmountEtnWei.toFixed(0)) };
+}
+
+/* ---------------- pinning ---------------- */
+
+function pinataJwt() {
+  const jwt = process.env.PINATA_JWT;
+  if (!jwt) throw new Error("Missing PINATA_JWT.");
+  return jwt;
+}
+
+type PinResult = { IpfsHash: string; PinSize: number };
+
+async function pinata(path: string, body: FormData): Promise<PinResult> {
+  const res = await fetch(`${PINATA_API}/${path}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${pinataJwt()}` },
+    body,
+  });
+  if (!res.ok) throw new LaunchpadError(`IPFS upload failed (${res.status})`, 502);
+  return (await res.json()) as PinResult;
+}
+
+export type PinnedFile = { name: string; bytes: Uint8Array; contentType: string };
+
+/**
+ * Pin files. One file → its own CID; several → one directory CID (`dir/<name>`).
+ * Each call is recorded as a single AssetUpload row.
+ */
+export async function pinFiles(files: PinnedFile[], opts: { label: string; uploader: string; asDirectory?: boolean }) {
+  const asDir = opts.asDirectory ?? files.length > 1;
+  const form = new FormData();
+  for (const f of files) {
+    const blob = new Blob([f.bytes as BlobPart], { type: f.contentType });
+    form.append("file", blob, asDir ? `dir/${f.name}` : f.name);
+  }
+  form.append("pinataMetadata", JSON.stringify({ name: opts.label }));
+  form.append("pinataOptions", JSON.stringify({ cidVersion: 1 }));
+
+  const pin = await pinata("pinFileToIPFS", form);
+  const single = !asDir && files.length === 1 ? files[0] : null;
+  const upload = await prisma.assetUpload.create({
+    data: {
+      uploaderUserId: await ensureUserId(opts.uploader),
+      provider: "PINATA",
+      cid: pin.IpfsHash,
+      url: `ipfs://${pin.IpfsHash}${asDir ? "/" : ""}`,
+      bytes: pin.PinSize,
+      sha256: single ? crypto.createHash("sha256").update(single.bytes).digest("hex") : null,
+      contentType: single?.contentType ?? "inode/directory",
+      originalName: single?.name ?? opts.label,
+    },
+    select: { id: true, cid: true, url: true },
+  });
+  return upload;
+}
+
+export async function pinJson(content: unknown, opts: { label: string; uploader: string }) {
+  const bytes = new TextEncoder().encode(JSON.stringify(content));
+  return pinFiles([{ name: `${opts.label}.json`, bytes, contentType: "application/json" }], {
+    ...opts,
+    asDirectory: false,
+  });
+}
+
+/* ---------------- confirm ---------------- */
+
+export type ConfirmInput = {
+  txHash: string;
+  wallet: string;
+  metadataOption: MetadataOption;
+  description?: string | null;
+  logoUrl?: string | null;
+  coverUrl?: string | null;
+  imageUrl?: string | null;
+  uploadIds?: string[];
+  /** FINALIZED PresaleDraft whose root was passed as presaleConfig.merkleRoot */
+  presaleDraftId?: string | null;
+};
+
+const factoryIface = new ethers.Interface(NFT_FACTORY_ABI as ethers.InterfaceAbi);
+
+function contractTypeFor(fnName: string): ContractType | null {
+  for (const t of CONTRACT_TYPES) if (CREATE_FN[t].fn === fnName) return t;
+  return null;
+}
+
+const int = (v: bigint) => (v > BigInt(2_147_483_647) ? 2_147_483_647 : Number(v));
+
+/** Verify a factory deployment and write its rows. Idempotent on txHash. */
+export async function confirmDeployment(input: ConfirmInput) {
+  const factory = getFactoryAddress();
+  const existing = await prisma.deployedContract.findUnique({
+    where: { txHash: input.txHash },
+    select: { cloneAddress: true, contractType: true },
+  });
+  if (existing) return { ...existing, alreadyRecorded: true, presaleWarning: null };
+
+  const p = getProvider();
+  const [tx, receipt] = await Promise.all([p.getTransaction(input.txHash), p.getTransactionReceipt(input.txHash)]);
+  if (!tx) throw new LaunchpadError("Transaction not found", 404);
+  if (!receipt) throw new LaunchpadError("Transaction is not mined yet. Try again in a moment.", 409);
+  if (receipt.status !== 1) throw new LaunchpadError("Deployment transaction failed on-chain");
+  if (!tx.to || tx.to.toLowerCase() !== factory.toLowerCase()) throw new LaunchpadError("Not a factory transaction");
+  if (tx.from.toLowerCase() !== input.wallet.toLowerCase()) {
+    throw new LaunchpadError("Deployment was sent from a different wallet", 403);
+  }
+
+  const call = factoryIface.parseTransaction({ data: tx.data, value: tx.value });
+  const contractType = call ? contractTypeFor(call.name) : null;
+  if (!call || !contractType) throw new LaunchpadError("Not a factory create call");
+  const spec = CREATE_FN[contractType];
+
+  // *CloneCreated(deployer, cloneAddress) from the factory itself
+  let cloneAddress: string | null = null;
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== factory.toLowerCase()) continue;
+    const parsed = (() => {
+      try {
+        return factoryIface.parseLog(log);
+      } catch {
+        return null;
+      }
+    })();
+    if (parsed?.name === spec.event && String(parsed.args.deployer).toLowerCase() === input.wallet.toLowerCase()) {
+      cloneAddress = ethers.getAddress(String(parsed.args.cloneAddress));
+      break;
+    }
+  }
+  if (!cloneAddress) throw new LaunchpadError(`${spec.event} event not found in receipt`);
+
+  const cfg = call.args[0];
+  const fee = await getActiveFee(contractType, input.metadataOption);
+  if (String(cfg.feeRecipient).toLowerCase() !== fee.feeRecipient.toLowerCase() || BigInt(cfg.feeAmount) < fee.feeAmountWei) {
+    throw new LaunchpadError("Deployment fee does not match the current fee configuration");
+  }
+  if (tx.value < fee.feeAmountWei) throw new LaunchpadError("Deployment fee was not paid");
+
+  const implementationAddr = ethers.getAddress(
+    (await new ethers.Contract(factory, NFT_FACTORY_ABI as ethers.InterfaceAbi, p)[spec.impl]()) as string
+  );
+  const creatorId = await ensureUserId(input.wallet);
+  const owner = ethers.getAddress(String(cfg.initialOwner));
+  const block = receipt.blockNumber;
+  const rawInit = JSON.parse(
+    JSON.stringify(call.args.toObject(true), (_k, v) => (typeof v === "bigint" ? v.toString() : v))
+  ) as Prisma.InputJsonValue;
+
+  const deployment = {
+    contractType,
+    cloneAddress,
+    implementationAddr,
+    factoryAddress: factory,
+    deployerAddress: ethers.getAddress(input.wallet),
+    txHash: input.txHash,
+    blockNumber: block,
+    metadataOption: input.metadataOption,
+    feeRecipient: fee.feeRecipient,
+    feeAmountEtnWei: BigInt(cfg.feeAmount).toString(),
+    royaltyRecipient: ethers.getAddress(String(cfg.royaltyRecipient)),
+    royaltyBps: Number(cfg.royaltyBps),
+    rawInit,
+  };
+  const uploads = input.uploadIds?.length
+    ? { id: { in: input.uploadIds }, uploaderUserId: creatorId }
+    : null;
+  const gatewayPref = input.metadataOption === "UPLOAD" ? ("PINATA" as const) : ("PUBLIC" as const);
+
+  let presaleId: string | null = null;
+  await prisma.$transaction(async (db) => {
+    if (contractType === "ERC721_DROP") {
+      const pub = call.args[1];
+      const pre = call.args[2];
+      const collection = await db.collection.create({
+        data: {
+          name: String(cfg.name),
+          symbol: String(cfg.symbol),
+          contract: cloneAddress!,
+          description: input.description ?? null,
+          logoUrl: input.logoUrl ?? null,
+          coverUrl: input.coverUrl ?? null,
+          standard: "ERC721",
+          supply: int(BigInt(cfg.maxSupply)),
+          baseUri: String(cfg.baseURI),
+          gatewayPref,
+          // nothing minted yet; mints arrive as PENDING NFT rows for the metadata worker
+          indexStatus: "COMPLETED",
+          creatorId,
+          ownerAddress: owner,
+          publicSale: {
+            create: {
+              startTime: new Date(Number(pub.startTimestamp) * 1000),
+              priceEtnWei: BigInt(pub.price).toString(),
+              maxPerWallet: int(BigInt(pub.maxPerWallet)),
+              maxPerTx: int(BigInt(pub.maxPerTx)),
+            },
+          },
+          ...(BigInt(pre.startTimestamp) > BigInt(0) && pre.merkleRoot !== ethers.ZeroHash
+            ? {
+                presale: {
+                  create: {
+                    startTime: new Date(Number(pre.startTimestamp) * 1000),
+                    endTime: new Date(Number(pre.endTimestamp) * 1000),
+                    priceEtnWei: BigInt(pre.price).toString(),
+                    maxSupply: int(BigInt(pre.maxSupply)),
+                    merkleRoot: String(pre.merkleRoot),
+                  },
+                },
+              }
+            : {}),
+        },
+        select: { id: true, presale: { select: { id: true } } },
+      });
+      presaleId = collection.presale?.id ?? null;
+      await db.deployedContract.create({
+        data: {
+          ...deployment,
+          baseURI: String(cfg.baseURI),
+          maxSupply: int(BigInt(cfg.maxSupply)),
+          collectionId: collection.id,
+        },
+      });
+      if (uploads) await db.assetUpload.updateMany({ where: uploads, data: { collectionId: collection.id } });
+    } else if (contractType === "ERC721_SINGLE") {
+      const single = await db.single721.create({
+        data: {
+          name: String(cfg.name),
+          symbol: String(cfg.symbol),
+          contract: cloneAddress!,
+          tokenUri: String(cfg.tokenURI),
+          royaltyRecipient: deployment.royaltyRecipient,
+          royaltyBps: deployment.royaltyBps,
+          creatorId,
+          ownerAddress: owner,
+          description: input.description ?? null,
+          imageUrl: input.imageUrl ?? null,
+          indexStatus: "COMPLETED",
+        },
+        select: { id: true },
+      });
+      await db.deployedContract.create({ data: { ...deployment, single721Id: single.id } });
+
+      // the single is minted during initialisation: pick the token id(s) from the receipt
+      const ownerId = await db.user
+        .upsert({
+          where: { walletAddress: owner },
+          update: {},
+          create: { walletAddress: owner, username: `${owner.slice(0, 6)}...${owner.slice(-4)}`, profileAvatar: "/img/default-avatar.png" },
+          select: { id: true },
+        })
+        .then((u) => u.id);
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== cloneAddress!.toLowerCase() || log.topics[0] !== TRANSFER_TOPIC) continue;
+        if (log.topics.length !== 4) continue;
+        await db.nFT.upsert({
+          where: { contract_tokenId: { contract: cloneAddress!, tokenId: BigInt(log.topics[3]).toString() } },
+          update: { single721Id: single.id },
+          create: {
+            contract: cloneAddress!,
+            tokenId: BigInt(log.topics[3]).toString(),
+            standard: "ERC721",
+            tokenUri: String(cfg.tokenURI),
+            royaltyBps: deployment.royaltyBps,
+            royaltyRecipient: deployment.royaltyRecipient,
+            ownerId,
+            single721Id: single.id,
+          },
+        });
+      }
+      if (uploads) await db.assetUpload.updateMany({ where: uploads, data: { single721Id: single.id } });
+    } else {
+      const single = await db.single1155.create({
+        data: {
+          name: String(cfg.name),
+          symbol: String(cfg.symbol),
+          contract: cloneAddress!,
+          baseUri: String(cfg.baseURI),
+          maxSupply: int(BigInt(cfg.maxSupply)),
+          mintPriceEtnWei: BigInt(cfg.mintPrice).toString(),
+          maxPerWallet: int(BigInt(cfg.maxPerWallet)),
+          royaltyRecipient: deployment.royaltyRecipient,
+          royaltyBps: deployment.royaltyBps,
+          creatorId,
+          ownerAddress: owner,
+          description: input.description ?? null,
+          imageUrl: input.imageUrl ?? null,
+          indexStatus: "COMPLETED",
+        },
+        select: { id: true },
+      });
+      await db.deployedContract.create({
+        data: {
+          ...deployment,
+          baseURI: String(cfg.baseURI),
+          maxSupply: int(BigInt(cfg.maxSupply)),
+          single1155Id: single.id,
+        },
+      });
+      if (uploads) await db.assetUpload.updateMany({ where: uploads, data: { single1155Id: single.id } });
+    }
+  });
+
+  // the deployment is on-chain either way; a failed bind can be retried via finalize + contract
+  let presaleWarning: string | null = null;
+  if (presaleId && input.presaleDraftId) {
+    try {
+      await prisma.$transaction((db) =>
+        bindPresaleDraft(db, { draftId: input.presaleDraftId!, presaleId: presaleId!, creatorUserId: creatorId })
+      );
+    } catch (e) {
+      if (!(e instanceof PresaleError)) throw e;
+      presaleWarning = e.message;
+    }
+  }
+
+  return { cloneAddress, contractType, alreadyRecorded: false, presaleWarning };
+}
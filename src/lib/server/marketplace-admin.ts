@@ -0,0 +1,144 @@
+// src/lib/server/marketplace-admin.ts
+/* Marketplace admin (/admin/marketplace).
+   - Access: ADMIN_WALLETS, any marketplace role holder (CONFIG / PAUSER / DEFAULT_ADMIN)
+     or a multisig owner (who can route changes through the treasury).
+   - Writes happen client-side; this module only reports roles and keeps Currency.active
+     in step with the marketplace's currencyAllowed mapping (CurrencySet events + a
+     reconcile on every read of the currency list).
+*/
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import { isAdminWallet } from "@/src/lib/server/auth";
+import { memoizeAsync, cacheKey } from "@/src/lib/server/chain-cache";
+import { getMarketplaceAddress } from "@/src/lib/server/offers";
+import { getMultisigAddress, isMultisigOwner } from "@/src/lib/server/multisig";
+import { MARKETPLACE_CORE_ABI } from "@/src/lib/abis/marketplace-core/marketPlaceCoreABI";
+import { getProvider } from "@/src/lib/server/chain/provider";
+import { HttpError } from "@/src/lib/server/errors";
+
+export class MarketplaceAdminError extends HttpError {}
+
+const marketIface = new ethers.Interface(MARKETPLACE_CORE_ABI as ethers.InterfaceAbi);
+
+function market() {
+  return new ethers.Contract(getMarketplaceAddress(), marketIface, getProvider());
+}
+
+export type MarketplaceRoles = { config: boolean; pauser: boolean; admin: boolean };
+
+/** CONFIG_ROLE / PAUSER_ROLE / DEFAULT_ADMIN_ROLE held by `address` on the marketplace. */
+export function getMarketplaceRoles(address: string): Promise<MarketplaceRoles> {
+  const who = ethers.getAddress(address);
+  return memoizeAsync(cacheKey(["marketRoles", getMarketplaceAddress(), who]), 60_000, async () => {
+    const m = market();
+    const [configRole, pauserRole, adminRole] = await Promise.all([
+      m.CONFIG_ROLE(),
+      m.PAUSER_ROLE(),
+      m.DEFAULT_ADMIN_ROLE(),
+    ]);
+    const [config, pauser, admin] = await Promise.all([
+      m.hasRole(configRole, who).then(Boolean),
+      m.hasRole(pauserRole, who).then(Boolean),
+      m.hasRole(adminRole, who).then(Boolean),
+    ]);
+    return { config, pauser, admin };
+  });
+}
+
+export type MarketplaceAdminViewer = {
+  address: string;
+  isAdmin: boolean;
+  roles: MarketplaceRoles;
+  multisigOwner: boolean;
+  /** Roles held by the multisig itself, i.e. what a treasury proposal can change. */
+  multisig: { address: string; roles: MarketplaceRoles } | null;
+};
+
+const NO_ROLES: MarketplaceRoles = { config: false, pauser: false, admin: false };
+
+export async function getMarketplaceAdminViewer(wallet: string): Promise<MarketplaceAdminViewer> {
+  const address = ethers.getAddress(wallet);
+  let multisigAddress: string | null = null;
+  try {
+    multisigAddress = getMultisigAddress();
+  } catch {
+    multisigAddress = null;
+  }
+
+  const [roles, multisigOwner, multisigRoles] = await Promise.all([
+    getMarketplaceRoles(address).catch(() => NO_ROLES),
+    multisigAddress ? isMultisigOwner(address).catch(() => false) : Promise.resolve(false),
+    multisigAddress ? getMarketplaceRoles(multisigAddress).catch(() => NO_ROLES) : Promise.resolve(NO_ROLES),
+  ]);
+
+  return {
+    address,
+    isAdmin: isAdminWallet(address),
+    roles,
+    multisigOwner,
+    multisig: multisigAddress ? { address: multisigAddress, roles: multisigRoles } : null,
+  };
+}
+
+export function canUseMarketplaceAdmin(v: MarketplaceAdminViewer) {
+  return v.isAdmin || v.roles.config || v.roles.pauser || v.roles.admin || v.multisigOwner;
+}
+
+export type MarketplaceCurrencyDTO = {
+  id: string;
+  symbol: string;
+  decimals: number;
+  kind: "NATIVE" | "ERC20";
+  tokenAddress: string | null;
+  active: boolean;
+  allowedOnChain: boolean | null;
+};
+
+/** Currency rows with the on-chain allow flag; Currency.active follows the chain when they differ. */
+export async function listMarketplaceCurrencies(): Promise<MarketplaceCurrencyDTO[]> {
+  await prismaReady;
+  const rows = await prisma.currency.findMany({
+    select: { id: true, symbol: true, decimals: true, kind: true, tokenAddress: true, active: true },
+    orderBy: [{ kind: "asc" }, { symbol: "asc" }],
+  });
+
+  const m = market();
+  const out: MarketplaceCurrencyDTO[] = [];
+  for (const r of rows) {
+    const key = r.kind === "NATIVE" ? ethers.ZeroAddress : r.tokenAddress;
+    const allowed = key ? await m.currencyAllowed(key).then(Boolean).catch(() => null) : null;
+    let active = r.active;
+    if (allowed !== null && allowed !== active) {
+      await prisma.currency.update({ where: { id: r.id }, data: { active: allowed } });
+      active = allowed;
+    }
+    out.push({ ...r, active, allowedOnChain: allowed });
+  }
+  return out;
+}
+
+/**
+ * Apply CurrencySet events from a mined tx (direct or executed through the multisig) to
+ * Currency.active. Returns how many rows changed; txs without marketplace logs are a no-op.
+ */
+export async function recordMarketplaceAdminTx(txHash: string) {
+  await prismaReady;
+  const receipt = await getProvider().getTransactionReceipt(txHash);
+  if (!receipt) throw new MarketplaceAdminError("Transaction is not mined yet. Try again in a moment.", 409);
+  if (receipt.status !== 1) throw new MarketplaceAdminError("Transaction failed on-chain");
+
+  const marketAddr = getMarketplaceAddress().toLowerCase();
+  let currencies = 0;
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== marketAddr) continue;
+    const parsed = marketIface.parseLog({ topics: [...log.topics], data: log.data });
+    if (parsed?.name !== "CurrencySet") continue;
+
+    const currency = ethers.getAddress(String(parsed.args.currency));
+    const where =
+      currency === ethers.ZeroAddress ? { kind: "NATIVE" as const } : { tokenAddress: currency };
+    const r = await prisma.currency.updateMany({ where, data: { active: Boolean(parsed.args.allowed) } });
+    currencies += r.count;
+  }
+  return { currencies };
+}
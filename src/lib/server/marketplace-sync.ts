@@ -0,0 +1,319 @@
+// src/lib/server/marketplace-sync.ts
+/* DB writes for a confirmed marketplace tx, shared by POST /api/marketplace/sync (the
+   client reports its own tx) and the pending-action reconciler (the tab was closed before
+   it could). Callers verify the receipt succeeded; every write here is idempotent.
+   Listing and auction syncs take every value from the decoded marketplace event, never
+   from the body.
+*/
+import { ethers } from "ethers";
+import prisma from "@/src/lib/db";
+import { MARKETPLACE_CORE_ABI } from "@/src/lib/abis/marketplace-core/marketPlaceCoreABI";
+import {
+  publishAuctionCancelled,
+  publishAuctionExtended,
+  publishAuctionSettled,
+  publishBidConfirmed,
+} from "@/src/lib/server/auction-events";
+import { markCollectionStatsStale } from "@/src/lib/server/collection-stats";
+import { linkListingMode, markDutchRelist, type DutchSync } from "@/src/lib/server/dutch-listings";
+import { HttpError } from "@/src/lib/server/errors";
+
+/** Thrown when the receipt doesn't back the sync up (422 unless said otherwise). */
+export class MarketplaceSyncError extends HttpError {
+  constructor(message: string, status = 422) {
+    super(message, status);
+  }
+}
+
+function normAddr(a: string) {
+  return ethers.getAddress(a);
+}
+
+const marketIface = new ethers.Interface(MARKETPLACE_CORE_ABI);
+
+/** First marketplace event with this name in the receipt (null if absent). */
+export function findMarketEvent(receipt: ethers.TransactionReceipt, name: string) {
+  const market =
+    process.env.NEXT_PUBLIC_MARKETPLACE_CORE_ADDRESS || process.env.NEXT_PUBLIC_MARKETPLACE_ADDRESS;
+  if (!market) return null;
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== market.toLowerCase()) continue;
+    try {
+      const parsed = marketIface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed?.name === name) return { args: parsed.args, logIndex: log.index };
+    } catch {
+      // not a marketplace event
+    }
+  }
+  return null;
+}
+
+/** The receipt's `name` event; a sync without one isn't backed by the chain. */
+function requireMarketEvent(receipt: ethers.TransactionReceipt, name: string) {
+  const ev = findMarketEvent(receipt, name);
+  if (!ev) throw new MarketplaceSyncError(`No ${name} event in tx ${receipt.hash}`);
+  return ev;
+}
+
+async function blockTime(receipt: ethers.TransactionReceipt) {
+  const block = await receipt.getBlock().catch(() => null);
+  return block ? new Date(block.timestamp * 1000) : new Date();
+}
+
+/** Currency.id for an on-chain currency address (null = native ETN). */
+async function resolveCurrencyAddress(addr: string) {
+  if (addr === ethers.ZeroAddress) return null;
+  const row = await prisma.currency.findFirst({
+    where: { tokenAddress: { equals: addr, mode: "insensitive" } },
+    select: { id: true },
+  });
+  if (!row) throw new MarketplaceSyncError(`Unknown currency ${addr}`);
+  return row.id;
+}
+
+async function findAuction(auctionId: string) {
+  const row = await prisma.auction.findUnique({
+    where: { id: auctionId },
+    select: { id: true, sellerAddress: true, currencyId: true, highestBidder: true, endTime: true },
+  });
+  if (!row) throw new MarketplaceSyncError(`Auction ${auctionId} not found`, 404);
+  return row;
+}
+
+/** NFT row id for an event's token. */
+async function resolveNftRef(b: { contract: string; tokenId: string }) {
+  const row = await prisma.nFT.findFirst({
+    where: { contract: b.contract, tokenId: b.tokenId },
+    select: { id: true },
+  });
+  if (!row) throw new MarketplaceSyncError("NFT not found", 404);
+  return row.id;
+}
+
+export type SyncBody =
+  // listing creates read the listing from the tx's ListingCreated event
+  | {
+      type: "LISTING_CREATE";
+      txHash: string;
+      dutch?: DutchSync | null; // Dutch step (see src/lib/server/dutch-listings.ts)
+    }
+  // listing cancels read the listing id from the tx's ListingCancelled event
+  | {
+      type: "LISTING_CANCEL";
+      txHash: string;
+      dutch?: { scheduleId: string; step: number } | null; // cancelled to relist at this step
+    }
+  // auction syncs read everything from the tx's AuctionCreated / BidPlaced / AuctionCancelled /
+  // AuctionSettled event
+  | { type: "AUCTION_CREATE"; txHash: string }
+  | { type: "AUCTION_BID"; txHash: string }
+  | { type: "AUCTION_CANCEL"; txHash: string }
+  | { type: "AUCTION_FINALIZE"; txHash: string };
+
+/** Apply `body` for a successful `receipt` (same tx). */
+export async function applyMarketplaceSync(body: SyncBody, receipt: ethers.TransactionReceipt) {
+  if (body.type === "LISTING_CREATE") {
+    const ev = requireMarketEvent(receipt, "ListingCreated");
+    const { listingId, seller, token, tokenId, quantity, currency, price, startTime, endTime } = ev.args;
+    const id = (listingId as bigint).toString();
+    const sellerAddress = normAddr(String(seller));
+    const nftId = await resolveNftRef({ contract: String(token), tokenId: (tokenId as bigint).toString() });
+    const currencyId = await resolveCurrencyAddress(String(currency));
+    const isNative = currencyId === null;
+    const priceWei = (price as bigint).toString();
+    const start = new Date(Number(startTime) * 1000);
+    const end = Number(endTime) === 0 ? null : new Date(Number(endTime) * 1000);
+
+    const link = await linkListingMode({
+      nftId,
+      sellerAddress,
+      quantity: Number(quantity),
+      currencyId,
+      priceWei,
+      startTime: start,
+      endTime: end,
+      txHash: body.txHash,
+      dutch: body.dutch,
+    });
+
+    // the contract keeps one active listing per seller and token, so older rows are stale
+    await prisma.marketplaceListing.updateMany({
+      where: { nftId, sellerAddress, status: "ACTIVE", id: { not: id } },
+      data: { status: "CANCELLED" },
+    });
+    // keyed by the chain id like the indexer's row; if that one is already there it wins,
+    // except for the Dutch link only the sync knows
+    await prisma.marketplaceListing.upsert({
+      where: { id },
+      update: link.dutchScheduleId ? link : {},
+      create: {
+        id,
+        nftId,
+        sellerAddress,
+        quantity: Number(quantity),
+        currencyId,
+        priceEtnWei: isNative ? priceWei : "0",
+        priceTokenAmount: isNative ? null : priceWei,
+        startTime: start,
+        endTime: end,
+        txHashCreated: body.txHash,
+        status: "ACTIVE",
+        ...link,
+      },
+    });
+    await markCollectionStatsStale({ id: nftId });
+  }
+
+  if (body.type === "LISTING_CANCEL") {
+    const ev = requireMarketEvent(receipt, "ListingCancelled");
+    const id = (ev.args.listingId as bigint).toString();
+    const listing = await prisma.marketplaceListing.findUnique({
+      where: { id },
+      select: { nftId: true, sellerAddress: true },
+    });
+    if (!listing) throw new MarketplaceSyncError(`Listing ${id} not found`, 404);
+    // only the seller can cancel a listing
+    if (receipt.from.toLowerCase() !== listing.sellerAddress.toLowerCase()) {
+      throw new MarketplaceSyncError(`Tx ${receipt.hash} was not sent by the seller of listing ${id}`);
+    }
+
+    await prisma.marketplaceListing.updateMany({
+      where: { id, status: "ACTIVE" },
+      data: { status: "CANCELLED", txHashCancelled: body.txHash },
+    });
+    if (body.dutch) await markDutchRelist({ listingId: id, ...listing, dutch: body.dutch });
+    await markCollectionStatsStale({ id: listing.nftId });
+  }
+
+  if (body.type === "AUCTION_CREATE") {
+    const ev = requireMarketEvent(receipt, "AuctionCreated");
+    const { auctionId, seller, token, tokenId, quantity, currency, startPrice, minIncrement, startTime, endTime } =
+      ev.args;
+    const id = (auctionId as bigint).toString();
+    const nftId = await resolveNftRef({ contract: String(token), tokenId: (tokenId as bigint).toString() });
+    const currencyId = await resolveCurrencyAddress(String(currency));
+    const isNative = currencyId === null;
+
+    // keyed by the chain id like the indexer's row; if that one is already there it wins
+    await prisma.auction.upsert({
+      where: { id },
+      update: {},
+      create: {
+        id,
+        sellerAddress: normAddr(String(seller)),
+        nftId,
+        quantity: Number(quantity),
+        currencyId,
+        startPriceEtnWei: isNative ? (startPrice as bigint).toString() : "0",
+        minIncrementEtnWei: isNative ? (minIncrement as bigint).toString() : null,
+        startPriceTokenAmount: isNative ? null : (startPrice as bigint).toString(),
+        minIncrementTokenAmount: isNative ? null : (minIncrement as bigint).toString(),
+        startTime: new Date(Number(startTime) * 1000),
+        endTime: new Date(Number(endTime) * 1000),
+        txHashCreated: body.txHash,
+        status: "ACTIVE",
+      },
+    });
+  }
+
+  if (body.type === "AUCTION_BID") {
+    // same (txHash, logIndex) key the indexer uses
+    const ev = requireMarketEvent(receipt, "BidPlaced");
+    const auction = await findAuction((ev.args.auctionId as bigint).toString());
+
+    const bidder = normAddr(String(ev.args.bidder));
+    const amountWei = (ev.args.amount as bigint).toString();
+    const currencyId = auction.currencyId;
+    const isNative = currencyId === null;
+    const ts = await blockTime(receipt);
+
+    await prisma.auctionBid.upsert({
+      where: { txHash_logIndex: { txHash: body.txHash, logIndex: ev.logIndex } },
+      update: {},
+      create: {
+        auctionId: auction.id,
+        bidderAddress: bidder,
+        amountWei,
+        currencyId,
+        txHash: body.txHash,
+        logIndex: ev.logIndex,
+        blockNumber: receipt.blockNumber,
+        timestamp: ts,
+      },
+    });
+
+    const newEndSec = Number(ev.args.newEndTime as bigint);
+    const extended = newEndSec * 1000 > auction.endTime.getTime();
+
+    // update auction top bid quickly, but only with a higher bid on a live auction: anyone
+    // can sync any old BidPlaced tx
+    const raised = await prisma.auction.updateMany({
+      where: {
+        id: auction.id,
+        status: "ACTIVE",
+        OR: isNative
+          ? [{ highestBidEtnWei: null }, { highestBidEtnWei: { lt: amountWei } }]
+          : [{ highestBidTokenAmount: null }, { highestBidTokenAmount: { lt: amountWei } }],
+      },
+      data: {
+        highestBidder: bidder,
+        highestBidEtnWei: isNative ? amountWei : null,
+        highestBidTokenAmount: isNative ? null : amountWei,
+        ...(extended ? { endTime: new Date(newEndSec * 1000) } : {}),
+      },
+    });
+    if (raised.count) {
+      publishBidConfirmed(
+        {
+          txHash: body.txHash,
+          from: bidder,
+          auctionId: auction.id,
+          amount: amountWei,
+          currencyId,
+          at: ts.getTime(),
+          blockNumber: receipt.blockNumber,
+        },
+        auction.highestBidder
+      );
+      if (extended) publishAuctionExtended(auction.id, newEndSec);
+    }
+  }
+
+  if (body.type === "AUCTION_CANCEL") {
+    const ev = requireMarketEvent(receipt, "AuctionCancelled");
+    const auction = await findAuction((ev.args.auctionId as bigint).toString());
+    if (auction.sellerAddress.toLowerCase() !== receipt.from.toLowerCase()) {
+      throw new MarketplaceSyncError("Only the seller's cancellation can be synced", 403);
+    }
+
+    const updated = await prisma.auction.updateMany({
+      where: { id: auction.id, status: "ACTIVE" },
+      data: { status: "CANCELLED", txHashCancelled: body.txHash },
+    });
+    if (updated.count) {
+      publishAuctionCancelled({ auctionId: auction.id, txHash: body.txHash, blockNumber: receipt.blockNumber });
+    }
+  }
+
+  if (body.type === "AUCTION_FINALIZE") {
+    const ev = requireMarketEvent(receipt, "AuctionSettled");
+    const auction = await findAuction((ev.args.auctionId as bigint).toString());
+
+    const updated = await prisma.auction.updateMany({
+      where: { id: auction.id, status: "ACTIVE" },
+      data: { status: "ENDED", txHashFinalized: body.txHash },
+    });
+
+    const winner = String(ev.args.winner);
+    if (updated.count) {
+      publishAuctionSettled({
+        auctionId: auction.id,
+        winner: winner !== ethers.ZeroAddress ? winner : null,
+        amount: (ev.args.pricePaid as bigint).toString(),
+        txHash: body.txHash,
+        blockNumber: receipt.blockNumber,
+      });
+    }
+  }
+}
@@ -0,0 +1,584 @@
+// src/lib/server/metadata.ts
+/* Token metadata ingestion (scripts/metadata-worker.ts).
+   - URI: ERC721 tokenURI(id), ERC1155 uri(id) with "{id}" → 64-hex-char lowercase id.
+   - Fetch: data: URIs are decoded inline; ipfs:// (and gateway /ipfs/ URLs) are tried on the
+     collection's gatewayPref gateway first, then the public fallbacks; ar:// goes to arweave.net.
+   - Tokens: NFT.status PENDING → SUCCESS, or back to PENDING with retryCount+1 and an
+     exponential backoff before the next attempt; ERROR after METADATA_MAX_RETRIES.
+   - Collections: QUEUED → INDEXING (token rows seeded from the contract) → COMPLETED once
+     nothing is pending, or ERROR when nothing could be indexed.
+   - Refresh: a single token is re-read on request; a whole collection is a MetadataRefresh
+     job the worker walks in batches (QUEUED → INDEXING → COMPLETED). Changes are logged as
+     MetadataRefresh rows with a per-key diff against the previous rawMetadata.
+*/
+import { ethers } from "ethers";
+import prisma from "@/src/lib/db";
+import { Prisma, type GatewayPref } from "@/src/lib/generated/prisma/client";
+import { ARWEAVE_GATEWAY } from "@/src/lib/media";
+import { markRarityStale } from "./rarity";
+import { getProvider } from "@/src/lib/server/chain/provider";
+
+const IFACE_ERC721_ENUMERABLE = "0x780e9d63";
+
+const TOKEN_ABI = [
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function totalSupply() view returns (uint256)",
+  "function tokenByIndex(uint256 index) view returns (uint256)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function uri(uint256 id) view returns (string)",
+] as const;
+
+const PUBLIC_GATEWAYS = ["https://ipfs.io/ipfs/", "https://dweb.link/ipfs/", "https://w3s.link/ipfs/"];
+
+const MAX_RETRIES = Number(process.env.METADATA_MAX_RETRIES || 6);
+const RETRY_BASE_SEC = Number(process.env.METADATA_RETRY_BASE_SEC || 60);
+const RETRY_MAX_SEC = 6 * 60 * 60;
+const FETCH_TIMEOUT_MS = Number(process.env.METADATA_FETCH_TIMEOUT_MS || 15_000);
+const CONCURRENCY = Math.max(1, Number(process.env.METADATA_CONCURRENCY || 4));
+const MAX_SEED = 50_000;
+
+/* ---------------- URIs ---------------- */
+
+export function ipfsGateways(pref: GatewayPref): string[] {
+  if (pref !== "PINATA") return PUBLIC_GATEWAYS;
+  const pinata = (process.env.PINATA_GATEWAY_URL || "https://gateway.pinata.cloud/ipfs/").replace(/\/?$/, "/");
+  return [pinata, ...PUBLIC_GATEWAYS];
+}
+
+/** HTTP candidates for a metadata/media URI, preferred gateway first. */
+export function uriCandidates(uri: string, pref: GatewayPref): string[] {
+  const u = uri.trim();
+  if (u.startsWith("data:")) return [u];
+  if (u.startsWith("ar://")) return [`${ARWEAVE_GATEWAY}${u.slice("ar://".length)}`];
+
+  let path: string | null = null;
+  if (u.startsWith("ipfs://")) path = u.replace(/^ipfs:\/\/(ipfs\/)?/, "");
+  else {
+    const m = u.match(/^https?:\/\/[^/]+\/ipfs\/(.+)$/i);
+    if (m) path = m[1];
+  }
+  if (!path) return [u];
+
+  const out = ipfsGateways(pref).map((g) => `${g}${path}`);
+  return /^https?:\/\//i.test(u) && !out.includes(u) ? [...out, u] : out;
+}
+
+/** Display URL for stored media: first candidate (data: URIs are kept as-is). */
+export function resolveMediaUrl(uri: string | null | undefined, pref: GatewayPref) {
+  if (!uri || typeof uri !== "string" || !uri.trim()) return null;
+  return uriCandidates(uri, pref)[0] ?? null;
+}
+
+function erc1155Id(tokenId: string) {
+  return BigInt(tokenId).toString(16).padStart(64, "0");
+}
+
+export async function readTokenUri(contract: string, tokenId: string, standard: string) {
+  const c = new ethers.Contract(contract, TOKEN_ABI, getProvider());
+  if (standard === "ERC1155") {
+    const raw = (await c.uri(BigInt(tokenId))) as string;
+    return raw.replace(/\{id\}/g, erc1155Id(tokenId));
+  }
+  return (await c.tokenURI(BigInt(tokenId))) as string;
+}
+
+function decodeDataUri(uri: string): unknown {
+  const m = uri.match(/^data:([^,]*?),([\s\S]*)$/);
+  if (!m) throw new Error("Malformed data: URI");
+  const text = /;base64$/i.test(m[1])
+    ? Buffer.from(m[2], "base64").toString("utf8")
+    : decodeURIComponent(m[2]);
+  return JSON.parse(text);
+}
+
+/** Fetch metadata JSON, walking the gateway candidates until one answers. */
+export async function fetchMetadataJson(uri: string, pref: GatewayPref): Promise<Record<string, unknown>> {
+  let lastErr: unknown = null;
+  for (const url of uriCandidates(uri, pref)) {
+    try {
+      const json = url.startsWith("data:")
+        ? decodeDataUri(url)
+        : await fetch(url, {
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+            headers: { accept: "application/json" },
+          }).then((res) => {
+            if (!res.ok) throw new Error(`HTTP ${res.status} from ${url}`);
+            return res.json();
+          });
+      if (!json || typeof json !== "object" || Array.isArray(json)) throw new Error("Metadata is not a JSON object");
+      return json as Record<string, unknown>;
+    } catch (e) {
+      lastErr = e;
+    }
+  }
+  throw lastErr ?? new Error("No metadata candidates");
+}
+
+/* ---------------- normalisation ---------------- */
+
+export type NormalizedMetadata = {
+  name: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  attributes: { trait_type: string; value: unknown }[] | null;
+  traits: Record<string, unknown> | null;
+};
+
+export function normalizeMetadata(json: Record<string, unknown>, pref: GatewayPref): NormalizedMetadata {
+  const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : null);
+
+  let attributes: NormalizedMetadata["attributes"] = null;
+  let traits: NormalizedMetadata["traits"] = null;
+  const attrs = json.attributes ?? json.traits;
+  if (Array.isArray(attrs)) {
+    attributes = attrs
+      .filter((a): a is { trait_type?: unknown; value?: unknown } => !!a && typeof a === "object")
+      .filter((a) => typeof a.trait_type === "string" && a.value !== undefined && a.value !== null)
+      .map((a) => ({ trait_type: String(a.trait_type), value: a.value }));
+  } else if (attrs && typeof attrs === "object") {
+    traits = attrs as Record<string, unknown>;
+  }
+
+  const image = str(json.image) ?? str(json.image_url) ?? str(json.imageUrl);
+  return {
+    name: str(json.name),
+    description: str(json.description),
+    imageUrl: resolveMediaUrl(image, pref),
+    attributes,
+    traits,
+  };
+}
+
+/* ---------------- tokens ---------------- */
+
+type TokenJob = {
+  id: string;
+  contract: string;
+  tokenId: string;
+  standard: string | null;
+  retryCount: number;
+  gatewayPref: GatewayPref | null;
+  collectionStandard: string | null;
+};
+
+/** NFT columns written from a freshly fetched metadata document. */
+function metadataUpdate(tokenUri: string, standard: string, json: Record<string, unknown>, pref: GatewayPref) {
+  const m = normalizeMetadata(json, pref);
+  return {
+    tokenUri,
+    standard,
+    rawMetadata: json as Prisma.InputJsonValue,
+    name: m.name,
+    description: m.description,
+    imageUrl: m.imageUrl,
+    attributes: m.attributes ? (m.attributes as Prisma.InputJsonValue) : Prisma.DbNull,
+    traits: m.traits ? (m.traits as Prisma.InputJsonValue) : Prisma.DbNull,
+    status: "SUCCESS" as const,
+    retryCount: 0,
+  };
+}
+
+/** Fetch + store one token. Returns true on success; failures schedule a retry. */
+export async function ingestToken(job: TokenJob): Promise<boolean> {
+  const pref = job.gatewayPref ?? "PUBLIC";
+  const standard = job.standard ?? job.collectionStandard ?? "ERC721";
+  try {
+    const tokenUri = await readTokenUri(job.contract, job.tokenId, standard);
+    const json = await fetchMetadataJson(tokenUri, pref);
+    await prisma.nFT.update({ where: { id: job.id }, data: metadataUpdate(tokenUri, standard, json, pref) });
+    return true;
+  } catch (e) {
+    const retryCount = job.retryCount + 1;
+    await prisma.nFT.update({
+      where: { id: job.id },
+      data: { retryCount, status: retryCount >= MAX_RETRIES ? "ERROR" : "PENDING" },
+    });
+    console.warn(
+      `[metadata] ${job.contract}#${job.tokenId} attempt ${retryCount}/${MAX_RETRIES} failed:`,
+      (e as Error)?.message ?? e
+    );
+    return false;
+  }
+}
+
+/** PENDING tokens whose backoff (base · 2^(retries-1), capped) has elapsed. */
+async function dueTokens(opts: { contract?: string; limit: number }) {
+  return prisma.$queryRaw<TokenJob[]>(Prisma.sql`
+    SELECT n."id", n."contract", n."tokenId", n."standard", n."retryCount",
+           c."gatewayPref" AS "gatewayPref", c."standard" AS "collectionStandard"
+    FROM "NFT" n
+    LEFT JOIN "Collection" c ON c."contract" = n."contract"
+    WHERE n."status" = 'PENDING'::"NftStatus"
+      ${opts.contract ? Prisma.sql`AND n."contract" = ${opts.contract}::citext` : Prisma.empty}
+      AND (
+        n."retryCount" = 0
+        OR n."updatedAt" <= now() - make_interval(
+             secs => LEAST(${RETRY_BASE_SEC}::float8 * power(2, n."retryCount" - 1), ${RETRY_MAX_SEC}::float8))
+      )
+    ORDER BY n."retryCount" ASC, n."updatedAt" ASC
+    LIMIT ${opts.limit}
+  `);
+}
+
+async function pool<T>(items: T[], fn: (item: T) => Promise<unknown>) {
+  let i = 0;
+  const run = async () => {
+    while (i < items.length) await fn(items[i++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, run));
+}
+
+/** One batch of due tokens (optionally for one contract). */
+export async function processPendingTokens(opts: { contract?: string; limit?: number } = {}) {
+  const jobs = await dueTokens({ contract: opts.contract, limit: opts.limit ?? 200 });
+  let ok = 0;
+  const touched = new Set<string>();
+  await pool(jobs, async (job) => {
+    if (await ingestToken(job)) {
+      ok++;
+      touched.add(job.contract.toLowerCase());
+    }
+  });
+  for (const contract of touched) await markRarityStale(contract);
+  return { attempted: jobs.length, succeeded: ok, failed: jobs.length - ok };
+}
+
+/* ---------------- collections ---------------- */
+
+async function optional<T>(p: Promise<T>): Promise<T | null> {
+  try {
+    return await p;
+  } catch {
+    return null;
+  }
+}
+
+/** Token ids to index: ERC721Enumerable when available, else sequential from the first id that resolves. */
+async function discoverTokenIds(contract: string, standard: string, supplyHint: number | null) {
+  if (standard === "ERC1155") return []; // not enumerable; rows come from transfers/mints
+
+  const c = new ethers.Contract(contract, TOKEN_ABI, getProvider());
+  const onChain = await optional(c.totalSupply() as Promise<bigint>);
+  const supply = Math.min(onChain != null ? Number(onChain) : supplyHint ?? 0, MAX_SEED);
+  if (!supply) return [];
+
+  if (await optional(c.supportsInterface(IFACE_ERC721_ENUMERABLE) as Promise<boolean>)) {
+    const ids: string[] = [];
+    for (let i = 0; i < supply; i += 25) {
+      const chunk = await Promise.all(
+        Array.from({ length: Math.min(25, supply - i) }, (_, k) => c.tokenByIndex(BigInt(i + k)) as Promise<bigint>)
+      );
+      ids.push(...chunk.map((x) => x.toString()));
+    }
+    return ids;
+  }
+
+  const start = (await optional(c.tokenURI(BigInt(0)) as Promise<string>)) ? 0 : 1;
+  return Array.from({ length: supply }, (_, k) => String(start + k));
+}
+
+/** QUEUED → INDEXING: create NFT rows for the collection so the token queue picks them up. */
+async function seedCollection(col: { id: string; contract: string; standard: string; supply: number | null }) {
+  const ids = await discoverTokenIds(col.contract, col.standard, col.supply);
+  for (let i = 0; i < ids.length; i += 1000) {
+    await prisma.nFT.createMany({
+      data: ids.slice(i, i + 1000).map((tokenId) => ({
+        contract: col.contract,
+        tokenId,
+        standard: col.standard,
+        collectionId: col.id,
+      })),
+      skipDuplicates: true,
+    });
+  }
+  // rows created earlier by the marketplace indexer
+  await prisma.nFT.updateMany({
+    where: { contract: col.contract, collectionId: null },
+    data: { collectionId: col.id },
+  });
+  return ids.length;
+}
+
+/** Advance one QUEUED/INDEXING collection; safe to call repeatedly. */
+export async function processCollection(contract: string, opts: { limit?: number } = {}) {
+  const col = await prisma.collection.findFirst({
+    where: { contract },
+    select: { id: true, contract: true, standard: true, supply: true, indexStatus: true },
+  });
+  if (!col) throw new Error(`Collection ${contract} not found`);
+
+  if (col.indexStatus === "QUEUED") {
+    await prisma.collection.update({ where: { id: col.id }, data: { indexStatus: "INDEXING" } });
+    try {
+      const seeded = await seedCollection(col);
+      console.log(`[metadata] ${col.contract}: seeded ${seeded} token rows`);
+    } catch (e) {
+      console.error(`[metadata] ${col.contract}: seeding failed:`, e);
+      await prisma.collection.update({ where: { id: col.id }, data: { indexStatus: "ERROR" } });
+      return { contract: col.contract, indexStatus: "ERROR" as const };
+    }
+  }
+
+  const batch = await processPendingTokens({ contract: col.contract, limit: opts.limit ?? 500 });
+
+  const counts = await prisma.nFT.groupBy({
+    by: ["status"],
+    where: { contract: col.contract },
+    _count: { _all: true },
+  });
+  const n = (s: string) => counts.find((c) => c.status === s)?._count._all ?? 0;
+  const pending = n("PENDING");
+  const success = n("SUCCESS");
+
+  const indexStatus = pending > 0 ? ("INDEXING" as const) : success > 0 ? ("COMPLETED" as const) : ("ERROR" as const);
+  await prisma.collection.update({
+    where: { id: col.id },
+    data: { indexStatus, itemsCount: success },
+  });
+
+  return { contract: col.contract, indexStatus, pending, success, errored: n("ERROR"), attempted: batch.attempted };
+}
+
+/** Collections the worker should advance (a running metadata refresh owns its collection). */
+export async function findCollectionsToIndex(limit = 20) {
+  const refreshing = await prisma.metadataRefresh.findMany({
+    where: { tokenId: null, finishedAt: null },
+    select: { contract: true },
+  });
+  const rows = await prisma.collection.findMany({
+    where: {
+      indexStatus: { in: ["QUEUED", "INDEXING"] },
+      ...(refreshing.length ? { contract: { notIn: refreshing.map((r) => r.contract) } } : {}),
+    },
+    orderBy: { updatedAt: "asc" },
+    take: limit,
+    select: { contract: true },
+  });
+  return rows.map((r) => r.contract);
+}
+
+/* ---------------- refresh ---------------- */
+
+export const TOKEN_REFRESH_COOLDOWN_MS = 5 * 60_000;
+export const COLLECTION_REFRESH_COOLDOWN_MS = 60 * 60_000;
+export const WALLET_REFRESHES_PER_HOUR = 30;
+
+export type MetadataDiff = Record<string, { from: unknown; to: unknown }>;
+
+function stable(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stable).join(",")}]`;
+  if (v && typeof v === "object") {
+    return `{${Object.keys(v as object)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stable((v as Record<string, unknown>)[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(v ?? null);
+}
+
+/** Top-level keys of the metadata (plus tokenUri) whose values changed; null when identical. */
+export function diffMetadata(
+  prev: { tokenUri: string | null; rawMetadata: unknown },
+  next: { tokenUri: string; rawMetadata: Record<string, unknown> }
+): MetadataDiff | null {
+  const diff: MetadataDiff = {};
+  if ((prev.tokenUri ?? null) !== next.tokenUri) diff.tokenUri = { from: prev.tokenUri ?? null, to: next.tokenUri };
+
+  const before =
+    prev.rawMetadata && typeof prev.rawMetadata === "object" && !Array.isArray(prev.rawMetadata)
+      ? (prev.rawMetadata as Record<string, unknown>)
+      : {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(next.rawMetadata)])) {
+    if (stable(before[key]) !== stable(next.rawMetadata[key])) {
+      diff[key] = { from: before[key] ?? null, to: next.rawMetadata[key] ?? null };
+    }
+  }
+  return Object.keys(diff).length ? diff : null;
+}
+
+/** Milliseconds until `wallet` may refresh this token/collection again (0 = allowed). */
+export async function refreshCooldown(opts: { contract: string; tokenId: string | null; wallet: string }) {
+  const now = Date.now();
+  const windowMs = opts.tokenId ? TOKEN_REFRESH_COOLDOWN_MS : COLLECTION_REFRESH_COOLDOWN_MS;
+
+  const [last, recent] = await Promise.all([
+    prisma.metadataRefresh.findFirst({
+      where: { contract: opts.contract, tokenId: opts.tokenId, parentId: null },
+      orderBy: { createdAt: "desc" },
+      select: { createdAt: true },
+    }),
+    prisma.metadataRefresh.findMany({
+      where: { requestedBy: opts.wallet, parentId: null, createdAt: { gt: new Date(now - 60 * 60_000) } },
+      orderBy: { createdAt: "asc" },
+      select: { createdAt: true },
+    }),
+  ]);
+
+  let wait = last ? last.createdAt.getTime() + windowMs - now : 0;
+  if (recent.length >= WALLET_REFRESHES_PER_HOUR) {
+    wait = Math.max(wait, recent[recent.length - WALLET_REFRESHES_PER_HOUR].createdAt.getTime() + 60 * 60_000 - now);
+  }
+  return Math.max(0, wait);
+}
+
+/**
+ * Re-read one token's URI + metadata, store it, and log the diff to MetadataRefresh.
+ * Single-token refreshes are always logged (the row is the rate-limit marker); refreshes
+ * that are part of a collection job (`parentId`) only log tokens that changed.
+ */
+export async function refreshToken(nftId: string, opts: { requestedBy: string; parentId?: string }) {
+  const nft = await prisma.nFT.findUnique({
+    where: { id: nftId },
+    select: {
+      id: true,
+      contract: true,
+      tokenId: true,
+      standard: true,
+      tokenUri: true,
+      rawMetadata: true,
+      collection: { select: { gatewayPref: true, standard: true } },
+    },
+  });
+  if (!nft) throw new Error("Token not found");
+
+  const pref = nft.collection?.gatewayPref ?? "PUBLIC";
+  const standard = nft.standard ?? nft.collection?.standard ?? "ERC721";
+  const log = (data: { changed?: number; failed?: number; diff?: MetadataDiff | null; error?: string }) =>
+    prisma.metadataRefresh.create({
+      data: {
+        parentId: opts.parentId ?? null,
+        contract: nft.contract,
+        tokenId: nft.tokenId,
+        requestedBy: opts.requestedBy,
+        processed: 1,
+        changed: data.changed ?? 0,
+        failed: data.failed ?? 0,
+        diff: data.diff ? (data.diff as Prisma.InputJsonValue) : Prisma.DbNull,
+        error: data.error ?? null,
+        finishedAt: new Date(),
+      },
+    });
+
+  let tokenUri: string;
+  let json: Record<string, unknown>;
+  try {
+    tokenUri = await readTokenUri(nft.contract, nft.tokenId, standard);
+    json = await fetchMetadataJson(tokenUri, pref);
+  } catch (e) {
+    const error = String((e as Error)?.message ?? e).slice(0, 500);
+    if (!opts.parentId) await log({ failed: 1, error });
+    throw new Error(`Could not fetch metadata: ${error}`);
+  }
+
+  const diff = diffMetadata(nft, { tokenUri, rawMetadata: json });
+  await prisma.nFT.update({ where: { id: nft.id }, data: metadataUpdate(tokenUri, standard, json, pref) });
+  if (diff) await markRarityStale(nft.contract);
+  if (diff || !opts.parentId) await log({ changed: diff ? 1 : 0, diff });
+
+  return { contract: nft.contract, tokenId: nft.tokenId, changed: !!diff, diff };
+}
+
+/** Owner-requested whole-collection refresh; the worker runs it and drives indexStatus. */
+export async function startCollectionRefresh(contract: string, requestedBy: string) {
+  const col = await prisma.collection.findFirst({ where: { contract }, select: { id: true, contract: true } });
+  if (!col) throw new Error(`Collection ${contract} not found`);
+
+  const total = await prisma.nFT.count({ where: { contract: col.contract } });
+  const [job] = await prisma.$transaction([
+    prisma.metadataRefresh.create({
+      data: { contract: col.contract, tokenId: null, requestedBy, total },
+    }),
+    prisma.collection.update({ where: { id: col.id }, data: { indexStatus: "QUEUED" } }),
+  ]);
+  return job;
+}
+
+export async function latestCollectionRefresh(contract: string) {
+  return prisma.metadataRefresh.findFirst({
+    where: { contract, tokenId: null },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      total: true,
+      processed: true,
+      changed: true,
+      failed: true,
+      createdAt: true,
+      finishedAt: true,
+    },
+  });
+}
+
+/** Advance every open collection refresh by up to `batch` tokens. */
+export async function processRefreshJobs(opts: { batch?: number } = {}) {
+  const batch = opts.batch ?? 200;
+  const jobs = await prisma.metadataRefresh.findMany({
+    where: { tokenId: null, finishedAt: null },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const out: { contract: string; processed: number; total: number; done: boolean }[] = [];
+  for (const job of jobs) {
+    const col = await prisma.collection.findFirst({
+      where: { contract: job.contract },
+      select: { id: true, contract: true, standard: true, supply: true },
+    });
+    if (!col) {
+      await prisma.metadataRefresh.update({
+        where: { id: job.id },
+        data: { finishedAt: new Date(), error: "Collection not found" },
+      });
+      continue;
+    }
+
+    if (job.processed === 0) {
+      await prisma.collection.update({ where: { id: col.id }, data: { indexStatus: "INDEXING" } });
+      // pick up tokens minted since the collection was indexed; the token queue fetches them
+      await seedCollection(col).catch((e) => console.warn(`[metadata] ${col.contract}: seeding failed:`, e));
+    }
+
+    const nfts = await prisma.nFT.findMany({
+      where: {
+        contract: col.contract,
+        status: { not: "PENDING" },
+        ...(job.cursor ? { id: { gt: job.cursor } } : {}),
+      },
+      orderBy: { id: "asc" },
+      take: batch,
+      select: { id: true },
+    });
+
+    let changed = 0;
+    let failed = 0;
+    await pool(nfts, async (n) => {
+      try {
+        if ((await refreshToken(n.id, { requestedBy: job.requestedBy, parentId: job.id })).changed) changed++;
+      } catch {
+        failed++;
+      }
+    });
+
+    const processed = job.processed + nfts.length;
+    const done = nfts.length < batch;
+    await prisma.metadataRefresh.update({
+      where: { id: job.id },
+      data: {
+        processed,
+        total: Math.max(job.total, processed),
+        ...(nfts.length ? { cursor: nfts[nfts.length - 1].id } : {}),
+        changed: { increment: changed },
+        failed: { increment: failed },
+        ...(done ? { finishedAt: new Date() } : {}),
+      },
+    });
+    if (done) {
+      const success = await prisma.nFT.count({ where: { contract: col.contract, status: "SUCCESS" } });
+      await prisma.collection.update({
+        where: { id: col.id },
+        data: { indexStatus: success > 0 ? "COMPLETED" : "ERROR", itemsCount: success },
+      });
+    }
+    out.push({ contract: col.contract, processed, total: Math.max(job.total, processed), done });
+  }
+  return out;
+}
@@ -0,0 +1,178 @@
+// src/lib/server/mint.ts
+/* Public mint (/mint/[contract]) for launchpad ERC721 drops and ERC1155 singles.
+   - Wallet state: live totalMinted / presaleMinted and mintedPerWallet(wallet) from the contract,
+     so limits reflect mints the DB hasn't seen yet.
+   - Record: after a mint is mined the client posts its tx hash. Transfer-from-zero (ERC721) and
+     TransferSingle-from-zero (ERC1155) logs of that contract become NFT rows (PENDING, picked up by
+     the metadata worker) plus MINT activities. The activity's (txHash, logIndex) key keeps it
+     idempotent, so ERC1155 balances are never counted twice.
+*/
+import { ethers } from "ethers";
+import prisma from "@/src/lib/db";
+import { ERC721_DROP_ABI } from "@/src/lib/abis/ERC721DropABI";
+import { ERC1155_SINGLE_ABI } from "@/src/lib/abis/ERC1155SingleDropABI";
+import { ensureUserId } from "./submissions";
+import { markCollectionStatsStale } from "./collection-stats";
+import { getProvider } from "@/src/lib/server/chain/provider";
+import { HttpError } from "@/src/lib/server/errors";
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+const TRANSFER_SINGLE_TOPIC = ethers.id("TransferSingle(address,address,address,uint256,uint256)");
+
+export class MintError extends HttpError {}
+
+type MintTarget = { contract: string; royaltyBps: number; royaltyRecipient: string } & (
+  | { kind: "erc721"; collectionId: string }
+  | { kind: "erc1155"; single1155Id: string }
+);
+
+/** Launchpad drop behind a contract address (drops are only mintable through their deployment). */
+async function resolveMintTarget(contract: string): Promise<MintTarget | null> {
+  const d = await prisma.deployedContract.findUnique({
+    where: { cloneAddress: contract },
+    select: { cloneAddress: true, collectionId: true, single1155Id: true, royaltyBps: true, royaltyRecipient: true },
+  });
+  if (!d) return null;
+  const base = { contract: ethers.getAddress(d.cloneAddress), royaltyBps: d.royaltyBps, royaltyRecipient: d.royaltyRecipient };
+  if (d.collectionId) return { ...base, kind: "erc721", collectionId: d.collectionId };
+  if (d.single1155Id) return { ...base, kind: "erc1155", single1155Id: d.single1155Id };
+  return null;
+}
+
+export type WalletMintState = {
+  kind: "erc721" | "erc1155";
+  minted: number;
+  presaleMinted: number | null;
+  mintedByWallet: number;
+};
+
+export async function getWalletMintState(contract: string, wallet: string): Promise<WalletMintState> {
+  const target = await resolveMintTarget(contract);
+  if (!target) throw new MintError("Not a launchpad drop", 404);
+
+  if (target.kind === "erc721") {
+    const c = new ethers.Contract(target.contract, ERC721_DROP_ABI as ethers.InterfaceAbi, getProvider());
+    const [minted, presaleMinted, mine] = await Promise.all([
+      c.totalMinted() as Promise<bigint>,
+      c.presaleMinted() as Promise<bigint>,
+      c.mintedPerWallet(wallet) as Promise<bigint>,
+    ]);
+    return { kind: "erc721", minted: Number(minted), presaleMinted: Number(presaleMinted), mintedByWallet: Number(mine) };
+  }
+
+  const c = new ethers.Contract(target.contract, ERC1155_SINGLE_ABI as ethers.InterfaceAbi, getProvider());
+  const [minted, mine] = await Promise.all([
+    c.totalMinted() as Promise<bigint>,
+    c.mintedPerWallet(wallet) as Promise<bigint>,
+  ]);
+  return { kind: "erc1155", minted: Number(minted), presaleMinted: null, mintedByWallet: Number(mine) };
+}
+
+const topicAddress = (t: string) => ethers.getAddress(ethers.dataSlice(t, 12));
+
+/** Record the mints in a mined tx. Returns how many new MINT activities were written. */
+export async function recordMint(contract: string, txHash: string) {
+  const target = await resolveMintTarget(contract);
+  if (!target) throw new MintError("Not a launchpad drop", 404);
+
+  const p = getProvider();
+  const receipt = await p.getTransactionReceipt(txHash);
+  if (!receipt) throw new MintError("Transaction is not mined yet. Try again in a moment.", 409);
+  if (receipt.status !== 1) throw new MintError("Mint transaction failed on-chain");
+  const block = await p.getBlock(receipt.blockNumber);
+  const timestamp = block ? new Date(Number(block.timestamp) * 1000) : new Date();
+
+  const logs = receipt.logs.filter((l) => l.address.toLowerCase() === target.contract.toLowerCase());
+  type Minted = { to: string; tokenId: string; amount: number; logIndex: number };
+  const mints: Minted[] = [];
+  for (const log of logs) {
+    if (target.kind === "erc721" && log.topics[0] === TRANSFER_TOPIC && log.topics.length === 4) {
+      if (BigInt(log.topics[1]) !== BigInt(0)) continue;
+      mints.push({ to: topicAddress(log.topics[2]), tokenId: BigInt(log.topics[3]).toString(), amount: 1, logIndex: log.index });
+    }
+    if (target.kind === "erc1155" && log.topics[0] === TRANSFER_SINGLE_TOPIC && log.topics.length === 4) {
+      if (BigInt(log.topics[2]) !== BigInt(0)) continue;
+      const [id, value] = ethers.AbiCoder.defaultAbiCoder().decode(["uint256", "uint256"], log.data);
+      mints.push({ to: topicAddress(log.topics[3]), tokenId: String(id), amount: Number(value), logIndex: log.index });
+    }
+  }
+  if (!mints.length) throw new MintError("No mints from this drop in that transaction", 422);
+
+  let recorded = 0;
+  for (const m of mints) {
+    const ownerId = await ensureUserId(m.to);
+    const wrote = await prisma.$transaction(async (db) => {
+      const seen = await db.nFTActivity.findUnique({
+        where: { txHash_logIndex: { txHash: receipt.hash, logIndex: m.logIndex } },
+        select: { id: true },
+      });
+      if (seen) return false;
+
+      // anyone can record an old mint tx: the minter only owns a 721 if nothing moved it since
+      const movedSince =
+        target.kind === "erc721" &&
+        (await db.nFTActivity.findFirst({
+          where: {
+            contract: target.contract,
+            tokenId: m.tokenId,
+            OR: [
+              { blockNumber: { gt: receipt.blockNumber } },
+              { blockNumber: receipt.blockNumber, logIndex: { gt: m.logIndex } },
+            ],
+          },
+          select: { id: true },
+        }));
+
+      const nft = await db.nFT.upsert({
+        where: { contract_tokenId: { contract: target.contract, tokenId: m.tokenId } },
+        // ERC1155: the shared token row keeps its first minter as ownerId; holdings carry balances
+        update: target.kind === "erc721" && !movedSince ? { ownerId } : {},
+        create: {
+          contract: target.contract,
+          tokenId: m.tokenId,
+          standard: target.kind === "erc721" ? "ERC721" : "ERC1155",
+          ownerId,
+          royaltyBps: target.royaltyBps,
+          royaltyRecipient: target.royaltyRecipient,
+          ...(target.kind === "erc721" ? { collectionId: target.collectionId } : { single1155Id: target.single1155Id }),
+        },
+        select: { id: true },
+      });
+
+      await db.nFTActivity.create({
+        data: {
+          nftId: nft.id,
+          contract: target.contract,
+          tokenId: m.tokenId,
+          type: "MINT",
+          fromAddress: ethers.ZeroAddress,
+          toAddress: m.to,
+          txHash: receipt.hash,
+          logIndex: m.logIndex,
+          blockNumber: receipt.blockNumber,
+          timestamp,
+        },
+      });
+
+      if (target.kind === "erc1155") {
+        await db.erc1155Balance.upsert({
+          where: { single1155Id_ownerAddress: { single1155Id: target.single1155Id, ownerAddress: m.to } },
+          update: { balance: { increment: m.amount }, updatedAt: new Date() },
+          create: { single1155Id: target.single1155Id, ownerAddress: m.to, balance: m.amount },
+        });
+        await db.erc1155Holding.upsert({
+          where: {
+            contract_tokenId_ownerAddress: { contract: target.contract, tokenId: m.tokenId, ownerAddress: m.to },
+          },
+          update: { balance: { increment: m.amount }, updatedAt: new Date() },
+          create: { contract: target.contract, tokenId: m.tokenId, ownerAddress: m.to, balance: m.amount },
+        });
+      }
+      return true;
+    });
+    if (wrote) recorded++;
+  }
+  if (recorded && target.kind === "erc721") await markCollectionStatsStale({ collectionId: target.collectionId });
+
+  return { kind: target.kind, recorded, tokenIds: [...new Set(mints.map((m) => m.tokenId))] };
+}
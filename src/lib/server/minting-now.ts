@@ -1,13 +1,13 @@
 // lib/server/minting-now.ts
 import "server-only";
 
-import prisma, { prismaReady } from "@/lib/db";
-import { Prisma } from "@/lib/generated/prisma";
+import prisma, { prismaReady } from "@/src/lib/db";
+import type { Prisma } from "@/src/lib/generated/prisma/client";
 import { ethers } from "ethers";
-import { memoizeAsync, cacheKey } from "@/lib/server/chain-cache";
-import { ERC721_DROP_ABI } from "@/lib/abis/ERC721DropABI";
-import { ERC1155_SINGLE_ABI } from "@/lib/abis/ERC1155SingleDropABI";
-import { MintingNowItem, MintingNowItemSchema } from "@/lib/types/minting-now";
+import { memoizeAsync, cacheKey } from "@/src/lib/server/chain-cache";
+import { ERC721_DROP_ABI } from "@/src/lib/abis/ERC721DropABI";
+import { ERC1155_SINGLE_ABI } from "@/src/lib/abis/ERC1155SingleDropABI";
+import type { MintingNowItem } from "@/src/lib/types/minting-now";
 
 /* Premium placeholder (Cloudinary) */
 const PLACEHOLDER =
@@ -183,7 +183,7 @@ export async function getMintingNowPage(
       name: c.name || "Collection",
       description: c.description ?? null,
       contract: c.contract,
-      href: `/minting-now/${c.contract}`,
+      href: `/mint/${c.contract}`,
       logoUrl: c.logoUrl || PLACEHOLDER,
       coverUrl: c.coverUrl || c.logoUrl || PLACEHOLDER,
       supply,
@@ -207,10 +207,7 @@ export async function getMintingNowPage(
         : {}),
     };
 
-    const parsed = MintingNowItemSchema.safeParse(base);
-    if (parsed.success) {
-      out.push({ createdAt: c.createdAt, data: parsed.data });
-    }
+    out.push({ createdAt: c.createdAt, data: base });
   }
 
   // ---- Map ERC1155 ----
@@ -240,7 +237,7 @@ export async function getMintingNowPage(
       name: s.name || "Drop",
       description: s.description ?? null,
       contract: s.contract,
-      href: `/minting-now/erc1155/${s.contract}`,
+      href: `/mint/${s.contract}`,
       logoUrl: s.imageUrl || PLACEHOLDER,
       coverUrl: s.imageUrl || PLACEHOLDER,
       supply,
@@ -255,10 +252,7 @@ export async function getMintingNowPage(
       },
     };
 
-    const parsed = MintingNowItemSchema.safeParse(item);
-    if (parsed.success) {
-      out.push({ createdAt: s.createdAt, data: parsed.data });
-    }
+    out.push({ createdAt: s.createdAt, data: item });
   }
 
   // Sort newest first
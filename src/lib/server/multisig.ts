@@ -0,0 +1,545 @@
+// src/lib/server/multisig.ts
+/* Multisig treasury (/treasury).
+   - Proposals are created on-chain with submitAndConfirm (the proposer's confirmation
+     comes with it); recordMultisigTx mirrors the multisig's events into MultisigTx /
+     MultisigApproval, so anything done from a block explorer shows up too.
+   - Owners can confirm on-chain (confirmTransaction) or sign an EIP-712 confirmation
+     off-chain. Signatures are stored in MultisigApproval.signature and handed to
+     executeWithSignatures once enough owners signed.
+   - All signatures for a proposal share one deadline (MultisigTx.sigDeadline) because
+     executeWithSignatures takes a single deadline for the whole set.
+   - Status: SUBMITTED → APPROVED (threshold met) → EXECUTED, or FAILED (execution
+     reverted), CANCELLED (withdrawn by the proposer) / EXPIRED (signatures lapsed).
+     The contract has no cancel, so CANCELLED only hides the proposal here; one that gets
+     executed anyway (enough on-chain confirmations) flips to EXECUTED.
+*/
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import type { MultisigTxStatus } from "@/src/lib/generated/prisma/client";
+import { memoizeAsync, cacheKey } from "@/src/lib/server/chain-cache";
+import { MULTI_SIG_ABI } from "@/src/lib/abis/marketplace-core/multiSigABI";
+import { MARKETPLACE_CORE_ABI } from "@/src/lib/abis/marketplace-core/marketPlaceCoreABI";
+import { getMarketplaceAddress } from "@/src/lib/server/offers";
+import { getProvider } from "@/src/lib/server/chain/provider";
+import { HttpError } from "@/src/lib/server/errors";
+
+/** How long collected signatures stay usable after a proposal is submitted. */
+const SIGNATURE_TTL_SEC = 7 * 24 * 3600;
+const PROPOSALS_LIMIT = 50;
+const DESCRIPTION_MAX = 500;
+
+/**
+ * EIP-712 confirmation the owners sign. Must match the multisig's typehash; every
+ * signature is checked against the contract's own confirmDigest() before it is stored.
+ */
+export const MULTISIG_CONFIRM_TYPES = {
+  Confirm: [
+    { name: "txIndex", type: "uint256" },
+    { name: "txFieldsHash", type: "bytes32" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const MULTISIG_KINDS = ["native", "erc20", "setConfig", "marketplace"] as const;
+export type MultisigKind = (typeof MULTISIG_KINDS)[number];
+
+export class MultisigError extends HttpError {}
+
+export function getMultisigAddress() {
+  const addr = process.env.NEXT_PUBLIC_MULTI_SIG_ADDRESS;
+  if (!addr || !ethers.isAddress(addr)) {
+    throw new Error("Missing NEXT_PUBLIC_MULTI_SIG_ADDRESS (valid 0x address).");
+  }
+  return ethers.getAddress(addr);
+}
+
+const multisigIface = new ethers.Interface(MULTI_SIG_ABI as ethers.InterfaceAbi);
+const marketIface = new ethers.Interface(MARKETPLACE_CORE_ABI as ethers.InterfaceAbi);
+const ERC20_BALANCE_ABI = ["function balanceOf(address) view returns (uint256)"];
+
+function parseMultisigCall(data: string) {
+  try {
+    return multisigIface.parseTransaction({ data });
+  } catch {
+    return null;
+  }
+}
+
+function multisig() {
+  return new ethers.Contract(getMultisigAddress(), multisigIface, getProvider());
+}
+
+/* ---------------- safe ---------------- */
+
+type SafeInfo = { id: string; contract: string; owners: string[]; threshold: number };
+
+/** Owners + threshold from the contract, mirrored into MultisigSafe / MultisigOwner. */
+function syncSafe(): Promise<SafeInfo> {
+  const contract = getMultisigAddress();
+  return memoizeAsync(cacheKey(["multisigSafe", contract]), 30_000, async () => {
+    await prismaReady;
+    const c = multisig();
+    const [rawOwners, required] = await Promise.all([c.getOwners(), c.required()]);
+    const owners = (rawOwners as string[]).map((o) => ethers.getAddress(o));
+    const threshold = Number(required);
+
+    const safe = await prisma.multisigSafe.upsert({
+      where: { contract },
+      update: { threshold },
+      create: { contract, threshold, name: "Treasury" },
+      select: { id: true },
+    });
+    for (const ownerAddress of owners) {
+      await prisma.multisigOwner.upsert({
+        where: { safeId_ownerAddress: { safeId: safe.id, ownerAddress } },
+        update: { removedAt: null },
+        create: { safeId: safe.id, ownerAddress },
+      });
+    }
+    await prisma.multisigOwner.updateMany({
+      where: { safeId: safe.id, removedAt: null, ownerAddress: { notIn: owners } },
+      data: { removedAt: new Date() },
+    });
+    return { id: safe.id, contract, owners, threshold };
+  });
+}
+
+const isOwnerOf = (safe: SafeInfo, wallet: string) => safe.owners.some((o) => o.toLowerCase() === wallet.toLowerCase());
+
+/** Current multisig owner? False when no multisig is configured. */
+export async function isMultisigOwner(wallet: string) {
+  if (!process.env.NEXT_PUBLIC_MULTI_SIG_ADDRESS) return false;
+  return isOwnerOf(await syncSafe(), wallet);
+}
+
+function readDomain() {
+  return memoizeAsync(cacheKey(["multisigDomain", getMultisigAddress()]), 10 * 60_000, async () => {
+    const d = await multisig().eip712Domain();
+    return {
+      name: String(d.name),
+      version: String(d.version),
+      chainId: Number(d.chainId),
+      verifyingContract: ethers.getAddress(String(d.verifyingContract)),
+    };
+  });
+}
+
+/* ---------------- status ---------------- */
+
+const FINAL: MultisigTxStatus[] = ["EXECUTED", "CANCELLED"];
+
+async function refreshStatus(txId: string, safe: SafeInfo) {
+  const tx = await prisma.multisigTx.findUnique({
+    where: { id: txId },
+    select: { status: true, sigDeadline: true, approvals: { select: { ownerAddress: true, signature: true, onChain: true } } },
+  });
+  if (!tx || FINAL.includes(tx.status)) return;
+
+  const current = tx.approvals.filter((a) => isOwnerOf(safe, a.ownerAddress));
+  const onChain = current.filter((a) => a.onChain).length;
+  const sigsLive = !tx.sigDeadline || tx.sigDeadline * 1000 > Date.now();
+  const signed = sigsLive ? current.filter((a) => a.signature).length : 0;
+
+  let status: MultisigTxStatus =
+    onChain >= safe.threshold || signed >= safe.threshold ? "APPROVED" : !sigsLive ? "EXPIRED" : "SUBMITTED";
+  // a reverted execution stays visible until someone adds an approval
+  if (tx.status === "FAILED" && status === "APPROVED") status = "FAILED";
+  if (status !== tx.status) await prisma.multisigTx.update({ where: { id: txId }, data: { status } });
+}
+
+/** Row for an on-chain index; created from getTransaction when the submit event was missed. */
+async function ensureTx(safe: SafeInfo, index: number, timestamp: Date) {
+  const existing = await prisma.multisigTx.findUnique({
+    where: { safeId_nonce: { safeId: safe.id, nonce: index } },
+    select: { id: true },
+  });
+  if (existing) return existing.id;
+
+  const t = await multisig().getTransaction(index);
+  const row = await prisma.multisigTx.create({
+    data: {
+      safeId: safe.id,
+      nonce: index,
+      to: ethers.getAddress(String(t.to)),
+      tokenAddress: ethers.getAddress(String(t.tokenAddress)),
+      valueWei: (t.value as bigint).toString(),
+      dataHex: String(t.data),
+      sigDeadline: Math.floor(timestamp.getTime() / 1000) + SIGNATURE_TTL_SEC,
+      status: t.executed ? "EXECUTED" : "SUBMITTED",
+    },
+    select: { id: true },
+  });
+  return row.id;
+}
+
+/* ---------------- record ---------------- */
+
+/**
+ * Mirror a mined multisig tx (submit / confirm / revoke / execute) into the DB. Idempotent.
+ * `meta` labels a proposal submitted by `wallet`; `failedProposalId` marks a reverted execution.
+ */
+export async function recordMultisigTx(input: {
+  txHash: string;
+  wallet: string;
+  meta?: { kind?: unknown; description?: unknown } | null;
+  failedProposalId?: string | null;
+}) {
+  const safe = await syncSafe();
+  const p = getProvider();
+  const receipt = await p.getTransactionReceipt(input.txHash);
+  if (!receipt) throw new MultisigError("Transaction is not mined yet. Try again in a moment.", 409);
+
+  if (receipt.status !== 1) {
+    if (
+      !input.failedProposalId ||
+      receipt.from.toLowerCase() !== input.wallet.toLowerCase() ||
+      receipt.to?.toLowerCase() !== safe.contract.toLowerCase()
+    ) {
+      throw new MultisigError("Transaction failed on-chain");
+    }
+    // only a reverted execute call for this very proposal marks it FAILED
+    const [sent, proposal] = await Promise.all([
+      p.getTransaction(input.txHash),
+      prisma.multisigTx.findFirst({
+        where: { id: input.failedProposalId, safeId: safe.id, status: { notIn: FINAL } },
+        select: { id: true, nonce: true },
+      }),
+    ]);
+    const call = sent ? parseMultisigCall(sent.data) : null;
+    const isExecute = call?.name === "executeTransaction" || call?.name === "executeWithSignatures";
+    if (!proposal || !isExecute || Number(call!.args.txIndex) !== proposal.nonce) {
+      throw new MultisigError("Transaction failed on-chain");
+    }
+    await prisma.multisigTx.update({ where: { id: proposal.id }, data: { status: "FAILED" } });
+    return { applied: 0, failed: true };
+  }
+
+  const block = await p.getBlock(receipt.blockNumber);
+  const timestamp = block ? new Date(Number(block.timestamp) * 1000) : new Date();
+  const kind = MULTISIG_KINDS.includes(input.meta?.kind as MultisigKind) ? (input.meta!.kind as MultisigKind) : null;
+  const description =
+    typeof input.meta?.description === "string" ? input.meta.description.trim().slice(0, DESCRIPTION_MAX) || null : null;
+
+  const touched = new Set<string>();
+  let applied = 0;
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== safe.contract.toLowerCase()) continue;
+    const parsed = multisigIface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) continue;
+    const index = Number(parsed.args.txIndex ?? -1);
+    if (index < 0) continue;
+
+    if (parsed.name === "SubmitTransaction") {
+      const submittedBy = ethers.getAddress(String(parsed.args.owner));
+      const mine = submittedBy.toLowerCase() === input.wallet.toLowerCase();
+      const row = await prisma.multisigTx.upsert({
+        where: { safeId_nonce: { safeId: safe.id, nonce: index } },
+        update: { submittedBy, submitTxHash: input.txHash, ...(mine && kind ? { kind, description } : {}) },
+        create: {
+          safeId: safe.id,
+          nonce: index,
+          to: ethers.getAddress(String(parsed.args.to)),
+          tokenAddress: ethers.getAddress(String(parsed.args.tokenAddress)),
+          valueWei: (parsed.args.value as bigint).toString(),
+          dataHex: String(parsed.args.data),
+          submittedBy,
+          submitTxHash: input.txHash,
+          sigDeadline: Math.floor(timestamp.getTime() / 1000) + SIGNATURE_TTL_SEC,
+          createdAt: timestamp,
+          ...(mine ? { kind, description } : {}),
+        },
+        select: { id: true },
+      });
+      touched.add(row.id);
+      applied++;
+      continue;
+    }
+
+    const txId = await ensureTx(safe, index, timestamp);
+    touched.add(txId);
+
+    if (parsed.name === "ConfirmTransaction" || parsed.name === "RevokeConfirmation") {
+      const ownerAddress = ethers.getAddress(String(parsed.args.owner));
+      const onChain = parsed.name === "ConfirmTransaction";
+      await prisma.multisigApproval.upsert({
+        where: { txId_ownerAddress: { txId, ownerAddress } },
+        update: { onChain },
+        create: { txId, ownerAddress, onChain },
+      });
+      applied++;
+    } else if (parsed.name === "ExecuteTransaction" || parsed.name === "ExecuteWithSignatures") {
+      await prisma.multisigTx.update({
+        where: { id: txId },
+        data: { status: "EXECUTED", executedTxHash: input.txHash, executedAt: timestamp },
+      });
+      applied++;
+    }
+  }
+
+  for (const id of touched) await refreshStatus(id, safe);
+  return { applied, failed: false };
+}
+
+/* ---------------- signatures ---------------- */
+
+async function proposalForSigning(id: string) {
+  const safe = await syncSafe();
+  const tx = await prisma.multisigTx.findFirst({
+    where: { id, safeId: safe.id },
+    select: { id: true, nonce: true, status: true, sigDeadline: true },
+  });
+  if (!tx) throw new MultisigError("Proposal not found", 404);
+  if (FINAL.includes(tx.status)) throw new MultisigError(`Proposal is ${tx.status.toLowerCase()}.`, 409);
+  if (!tx.sigDeadline || tx.sigDeadline * 1000 <= Date.now()) {
+    throw new MultisigError("Signatures for this proposal have expired; confirm on-chain instead.", 409);
+  }
+
+  const c = multisig();
+  const [domain, txFieldsHash, digest] = await Promise.all([
+    readDomain(),
+    c.txFieldsHash(tx.nonce) as Promise<string>,
+    c.confirmDigest(tx.nonce, tx.sigDeadline) as Promise<string>,
+  ]);
+  const message = { txIndex: String(tx.nonce), txFieldsHash, deadline: String(tx.sigDeadline) };
+  if (ethers.TypedDataEncoder.hash(domain, MULTISIG_CONFIRM_TYPES, message) !== digest) {
+    throw new MultisigError("This multisig uses a different confirmation format; confirm on-chain instead.", 409);
+  }
+  return { safe, tx, typedData: { domain, types: MULTISIG_CONFIRM_TYPES, primaryType: "Confirm", message } };
+}
+
+/** EIP-712 payload an owner signs to approve a proposal off-chain. */
+export async function getMultisigTypedData(id: string) {
+  return (await proposalForSigning(id)).typedData;
+}
+
+export async function addMultisigSignature(input: { wallet: string; id: string; signature: unknown }) {
+  const wallet = ethers.getAddress(input.wallet);
+  const signature = typeof input.signature === "string" ? input.signature.trim() : "";
+  if (!/^0x[0-9a-fA-F]{130}$/.test(signature)) throw new MultisigError("Invalid signature");
+
+  const { safe, tx, typedData } = await proposalForSigning(input.id);
+  if (!isOwnerOf(safe, wallet)) throw new MultisigError("Only multisig owners can sign.", 403);
+
+  const signer = ethers.verifyTypedData(typedData.domain, typedData.types, typedData.message, signature);
+  if (signer.toLowerCase() !== wallet.toLowerCase()) throw new MultisigError("Signature does not match your wallet.");
+
+  await prisma.multisigApproval.upsert({
+    where: { txId_ownerAddress: { txId: tx.id, ownerAddress: wallet } },
+    update: { signature },
+    create: { txId: tx.id, ownerAddress: wallet, signature },
+  });
+  await refreshStatus(tx.id, safe);
+}
+
+/**
+ * The proposer withdraws a proposal that hasn't executed. Off-chain only (the contract
+ * can't cancel): collected signatures are no longer handed out, and getTreasuryState
+ * still watches it in case owners execute it on-chain.
+ */
+export async function cancelMultisigTx(input: { wallet: string; id: string }) {
+  const safe = await syncSafe();
+  const tx = await prisma.multisigTx.findFirst({
+    where: { id: input.id, safeId: safe.id },
+    select: { id: true, nonce: true, status: true, submittedBy: true },
+  });
+  if (!tx) throw new MultisigError("Proposal not found", 404);
+  if (tx.submittedBy?.toLowerCase() !== input.wallet.toLowerCase()) {
+    throw new MultisigError("Only the proposer can cancel.", 403);
+  }
+  if (FINAL.includes(tx.status)) throw new MultisigError(`Proposal is ${tx.status.toLowerCase()}.`, 409);
+
+  const onChain = await multisig().getTransaction(tx.nonce);
+  if (onChain.executed) throw new MultisigError("Proposal already executed.", 409);
+  await prisma.multisigTx.update({ where: { id: tx.id }, data: { status: "CANCELLED" } });
+}
+
+/* ---------------- read ---------------- */
+
+export type MultisigProposalDTO = {
+  id: string;
+  index: number;
+  kind: MultisigKind | null;
+  description: string | null;
+  to: string;
+  token: { address: string; symbol: string; decimals: number } | null;
+  valueWei: string;
+  dataHex: string | null;
+  call: { name: string; args: string[] } | null;
+  submittedBy: string | null;
+  status: MultisigTxStatus;
+  createdISO: string;
+  executedISO: string | null;
+  executedTxHash: string | null;
+  sigDeadline: number | null;
+  onChainCount: number;
+  approvals: { owner: string; onChain: boolean; signed: boolean }[];
+  /** Live signatures from current owners, sorted by signer (executeWithSignatures order). */
+  signatures: { owner: string; signature: string }[];
+};
+
+export type TreasuryState = {
+  contract: string;
+  threshold: number;
+  owners: string[];
+  isOwner: boolean;
+  balances: { symbol: string; decimals: number; tokenAddress: string | null; balanceWei: string }[];
+  marketplace: {
+    address: string;
+    config: {
+      feeBps: string;
+      distributorShareBps: string;
+      feeRecipient: string;
+      rewardsDistributor: string;
+      stolenRegistry: string;
+      snipeExtension: string;
+    };
+  } | null;
+  proposals: MultisigProposalDTO[];
+};
+
+function decodeCall(to: string, dataHex: string | null, market: string | null) {
+  if (!dataHex || dataHex === "0x" || !market || to.toLowerCase() !== market.toLowerCase()) return null;
+  try {
+    const d = marketIface.parseTransaction({ data: dataHex });
+    return d ? { name: d.name, args: d.args.map((a: unknown) => String(a)) } : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readMarketConfig(market: string) {
+  return memoizeAsync(cacheKey(["marketConfig", market]), 30_000, async () => {
+    const m = new ethers.Contract(market, marketIface, getProvider());
+    const [feeBps, distributorShareBps, feeRecipient, rewardsDistributor, stolenRegistry, snipeExtension] =
+      await Promise.all([
+        m.feeBps(),
+        m.distributorShareBps(),
+        m.feeRecipient(),
+        m.rewardsDistributor(),
+        m.stolenRegistry(),
+        m.snipeExtension(),
+      ]);
+    return {
+      feeBps: String(feeBps),
+      distributorShareBps: String(distributorShareBps),
+      feeRecipient: ethers.getAddress(String(feeRecipient)),
+      rewardsDistributor: ethers.getAddress(String(rewardsDistributor)),
+      stolenRegistry: ethers.getAddress(String(stolenRegistry)),
+      snipeExtension: String(snipeExtension),
+    };
+  });
+}
+
+export async function getTreasuryState(wallet?: string | null): Promise<TreasuryState> {
+  const safe = await syncSafe();
+  const p = getProvider();
+
+  let market: string | null = null;
+  try {
+    market = getMarketplaceAddress();
+  } catch {
+    market = null;
+  }
+
+  const currencies = await prisma.currency.findMany({
+    where: { active: true, kind: "ERC20", tokenAddress: { not: null } },
+    select: { symbol: true, decimals: true, tokenAddress: true },
+    orderBy: { symbol: "asc" },
+  });
+  const tokenByAddress = new Map(currencies.map((c) => [c.tokenAddress!.toLowerCase(), c]));
+
+  const [native, erc20, config] = await Promise.all([
+    p.getBalance(safe.contract),
+    Promise.all(
+      currencies.map(async (c) => {
+        const bal = await new ethers.Contract(c.tokenAddress!, ERC20_BALANCE_ABI, p)
+          .balanceOf(safe.contract)
+          .catch(() => BigInt(0));
+        return { symbol: c.symbol, decimals: c.decimals, tokenAddress: ethers.getAddress(c.tokenAddress!), balanceWei: String(bal) };
+      })
+    ),
+    market ? readMarketConfig(market).catch(() => null) : Promise.resolve(null),
+  ]);
+
+  // catch executions done outside the app before reading the list; CANCELLED is only
+  // our label, so those are checked too
+  const open = await prisma.multisigTx.findMany({
+    where: { safeId: safe.id, status: { not: "EXECUTED" } },
+    select: { id: true, nonce: true },
+    orderBy: { nonce: "desc" },
+    take: PROPOSALS_LIMIT,
+  });
+  const c = multisig();
+  for (const t of open) {
+    const onChain = await c.getTransaction(t.nonce).catch(() => null);
+    if (onChain?.executed) await prisma.multisigTx.update({ where: { id: t.id }, data: { status: "EXECUTED" } });
+    else await refreshStatus(t.id, safe);
+  }
+
+  const rows = await prisma.multisigTx.findMany({
+    where: { safeId: safe.id },
+    orderBy: { nonce: "desc" },
+    take: PROPOSALS_LIMIT,
+    select: {
+      id: true,
+      nonce: true,
+      kind: true,
+      description: true,
+      to: true,
+      tokenAddress: true,
+      valueWei: true,
+      dataHex: true,
+      submittedBy: true,
+      status: true,
+      createdAt: true,
+      executedAt: true,
+      executedTxHash: true,
+      sigDeadline: true,
+      approvals: { select: { ownerAddress: true, onChain: true, signature: true }, orderBy: { createdAt: "asc" } },
+    },
+  });
+
+  const proposals: MultisigProposalDTO[] = rows.map((r) => {
+    const current = r.approvals.filter((a) => isOwnerOf(safe, a.ownerAddress));
+    const sigsLive = !r.sigDeadline || r.sigDeadline * 1000 > Date.now();
+    const tokenAddr = r.tokenAddress && r.tokenAddress !== ethers.ZeroAddress ? r.tokenAddress : null;
+    const token = tokenAddr ? tokenByAddress.get(tokenAddr.toLowerCase()) : null;
+    return {
+      id: r.id,
+      index: r.nonce,
+      kind: (r.kind as MultisigKind | null) ?? null,
+      description: r.description,
+      to: r.to,
+      token: tokenAddr
+        ? { address: ethers.getAddress(tokenAddr), symbol: token?.symbol ?? "TOKEN", decimals: token?.decimals ?? 18 }
+        : null,
+      valueWei: r.valueWei.toFixed(0),
+      dataHex: r.dataHex,
+      call: decodeCall(r.to, r.dataHex, market),
+      submittedBy: r.submittedBy,
+      status: r.status,
+      createdISO: r.createdAt.toISOString(),
+      executedISO: r.executedAt?.toISOString() ?? null,
+      executedTxHash: r.executedTxHash,
+      sigDeadline: r.sigDeadline,
+      onChainCount: current.filter((a) => a.onChain).length,
+      approvals: r.approvals.map((a) => ({ owner: a.ownerAddress, onChain: a.onChain, signed: !!a.signature })),
+      signatures: sigsLive
+        ? current
+            .filter((a) => a.signature)
+            .map((a) => ({ owner: ethers.getAddress(a.ownerAddress), signature: a.signature! }))
+            .sort((a, b) => (BigInt(a.owner) < BigInt(b.owner) ? -1 : 1))
+        : [],
+    };
+  });
+
+  return {
+    contract: safe.contract,
+    threshold: safe.threshold,
+    owners: safe.owners,
+    isOwner: !!wallet && isOwnerOf(safe, wallet),
+    balances: [{ symbol: "ETN", decimals: 18, tokenAddress: null, balanceWei: String(native) }, ...erc20],
+    marketplace: market && config ? { address: market, config } : null,
+    proposals,
+  };
+}
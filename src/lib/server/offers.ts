@@ -0,0 +1,225 @@
+// src/lib/server/offers.ts
+/* Offer bookkeeping shared by the offers API, the marketplace indexer and the worker.
+   - Funding: an offer is only ACTIVE while the bidder's ERC20 balance AND allowance
+     to the marketplace both cover the amount; otherwise it is parked as INVALID
+     (and revived automatically once funds/allowance are back).
+   - Acceptance: MarketplaceCore has no offer-fill entrypoint, so a seller accepts by
+     listing at the offer price/currency. The offer then points at that listing
+     (ACCEPTED) until the listing sells to the bidder (FILLED) or goes away (→ ACTIVE).
+*/
+import { ethers } from "ethers";
+import prisma from "@/src/lib/db";
+import type { Prisma } from "@/src/lib/generated/prisma/client";
+import type { OfferDTO } from "@/src/lib/offers";
+import { APPROVE_ERC_20_ABI } from "@/src/lib/requisites";
+import { publish, walletTopic } from "./sse";
+import { getProvider } from "@/src/lib/server/chain/provider";
+
+export function getMarketplaceAddress() {
+  const addr =
+    process.env.NEXT_PUBLIC_MARKETPLACE_CORE_ADDRESS || process.env.NEXT_PUBLIC_MARKETPLACE_ADDRESS;
+  if (!addr || !ethers.isAddress(addr)) {
+    throw new Error("Missing NEXT_PUBLIC_MARKETPLACE_CORE_ADDRESS (valid 0x address).");
+  }
+  return ethers.getAddress(addr);
+}
+
+/* ---------------- funding ---------------- */
+
+export type Funding = { balance: bigint; allowance: bigint };
+
+export async function readFunding(token: string, owner: string): Promise<Funding> {
+  const erc20 = new ethers.Contract(token, APPROVE_ERC_20_ABI, getProvider());
+  const [balance, allowance] = await Promise.all([
+    erc20.balanceOf(owner) as Promise<bigint>,
+    erc20.allowance(owner, getMarketplaceAddress()) as Promise<bigint>,
+  ]);
+  return { balance, allowance };
+}
+
+/** Human reason when funds don't cover `amount`, else null. */
+export function fundingProblem(f: Funding, amount: bigint): string | null {
+  if (f.balance < amount) return "Insufficient balance";
+  if (f.allowance < amount) return "Insufficient allowance";
+  return null;
+}
+
+/* ---------------- revalidation ---------------- */
+
+export type RevalidateResult = { expired: number; checked: number; invalidated: number; revived: number; released: number };
+
+/**
+ * Expire, re-check funding, and release stale acceptances.
+ * - `ids`: only these offers (read paths); otherwise the whole book.
+ * - Funding is only re-read for offers not checked within `staleMs` (0 = always).
+ */
+export async function revalidateOffers(opts: { ids?: string[]; staleMs?: number; limit?: number } = {}) {
+  const now = new Date();
+  const staleMs = opts.staleMs ?? 60_000;
+  const out: RevalidateResult = { expired: 0, checked: 0, invalidated: 0, revived: 0, released: 0 };
+  const scope = opts.ids ? { id: { in: opts.ids } } : {};
+
+  const expired = await prisma.marketplaceOffer.updateMany({
+    where: { ...scope, status: { in: ["ACTIVE", "INVALID"] }, expiresAt: { lte: now } },
+    data: { status: "EXPIRED" },
+  });
+  out.expired = expired.count;
+
+  // ACCEPTED offers whose reserved listing is gone (cancelled/expired) go back on the book.
+  const accepted = await prisma.marketplaceOffer.findMany({
+    where: { ...scope, status: "ACCEPTED" },
+    select: { id: true, listingId: true, expiresAt: true },
+    take: opts.limit ?? 500,
+  });
+  if (accepted.length) {
+    const listingIds = accepted.map((o) => o.listingId).filter(Boolean) as string[];
+    const live = new Set(
+      (
+        await prisma.marketplaceListing.findMany({
+          where: {
+            id: { in: listingIds },
+            status: "ACTIVE",
+            OR: [{ endTime: null }, { endTime: { gt: now } }],
+          },
+          select: { id: true },
+        })
+      ).map((l) => l.id)
+    );
+    for (const o of accepted) {
+      if (o.listingId && live.has(o.listingId)) continue;
+      await releaseOffer(o.id, o.expiresAt <= now ? "EXPIRED" : "ACTIVE");
+      out.released++;
+    }
+  }
+
+  const due = await prisma.marketplaceOffer.findMany({
+    where: {
+      ...scope,
+      status: { in: ["ACTIVE", "INVALID"] },
+      OR: [{ checkedAt: null }, { checkedAt: { lt: new Date(now.getTime() - staleMs) } }],
+    },
+    orderBy: { checkedAt: { sort: "asc", nulls: "first" } },
+    take: opts.limit ?? 500,
+    select: {
+      id: true,
+      status: true,
+      bidderAddress: true,
+      amount: true,
+      currency: { select: { tokenAddress: true } },
+    },
+  });
+
+  // one balance/allowance read per (bidder, token)
+  const funding = new Map<string, Promise<Funding | null>>();
+  for (const o of due) {
+    const token = o.currency.tokenAddress;
+    if (!token) continue;
+    const key = `${o.bidderAddress.toLowerCase()}:${token.toLowerCase()}`;
+    if (!funding.has(key)) funding.set(key, readFunding(token, o.bidderAddress).catch(() => null));
+  }
+
+  for (const o of due) {
+    const token = o.currency.tokenAddress;
+    const f = token ? await funding.get(`${o.bidderAddress.toLowerCase()}:${token.toLowerCase()}`) : null;
+    if (token && !f) continue; // RPC hiccup — leave as is, retry next pass
+
+    const problem = f ? fundingProblem(f, BigInt(o.amount.toFixed())) : "Unsupported currency";
+    const status = problem ? "INVALID" : "ACTIVE";
+
+    await prisma.marketplaceOffer.update({
+      where: { id: o.id },
+      data: { status, invalidReason: problem, checkedAt: now },
+    });
+
+    out.checked++;
+    if (status !== o.status) {
+      if (status === "INVALID") out.invalidated++;
+      else out.revived++;
+      publish(walletTopic(o.bidderAddress), "offer_updated", { offerId: o.id, status, reason: problem });
+    }
+  }
+
+  return out;
+}
+
+async function releaseOffer(id: string, status: "ACTIVE" | "EXPIRED") {
+  await prisma.marketplaceOffer.update({
+    where: { id },
+    data: { status, listingId: null, acceptedBy: null, acceptedNftId: null, checkedAt: null },
+  });
+}
+
+/* ---------------- indexer hooks ---------------- */
+
+/** ListingPurchased: the bidder completing their accepted offer fills it; anyone else releases it. */
+export async function onOfferListingPurchased(listingId: string, buyer: string, txHash: string) {
+  const offers = await prisma.marketplaceOffer.findMany({
+    where: { listingId, status: "ACCEPTED" },
+    select: { id: true, bidderAddress: true, expiresAt: true },
+  });
+
+  for (const o of offers) {
+    if (o.bidderAddress.toLowerCase() === buyer.toLowerCase()) {
+      await prisma.marketplaceOffer.update({
+        where: { id: o.id },
+        data: { status: "FILLED", txHashFilled: txHash },
+      });
+      publish(walletTopic(o.bidderAddress), "offer_updated", { offerId: o.id, status: "FILLED" });
+    } else {
+      await releaseOffer(o.id, o.expiresAt <= new Date() ? "EXPIRED" : "ACTIVE");
+    }
+  }
+}
+
+/** ListingCancelled: the seller backed out — the offer goes back on the book. */
+export async function onOfferListingCancelled(listingId: string) {
+  const offers = await prisma.marketplaceOffer.findMany({
+    where: { listingId, status: "ACCEPTED" },
+    select: { id: true, expiresAt: true },
+  });
+  for (const o of offers) await releaseOffer(o.id, o.expiresAt <= new Date() ? "EXPIRED" : "ACTIVE");
+}
+
+/* ---------------- serialization ---------------- */
+
+export const OFFER_SELECT = {
+  id: true,
+  kind: true,
+  contract: true,
+  tokenId: true,
+  traitType: true,
+  traitValue: true,
+  bidderAddress: true,
+  amount: true,
+  expiresAt: true,
+  status: true,
+  invalidReason: true,
+  listingId: true,
+  acceptedNftId: true,
+  createdAt: true,
+  currency: { select: { id: true, symbol: true, decimals: true, tokenAddress: true } },
+} satisfies Prisma.MarketplaceOfferSelect;
+
+type OfferRow = Prisma.MarketplaceOfferGetPayload<{ select: typeof OFFER_SELECT }>;
+
+export function toOfferDTO(o: OfferRow): OfferDTO {
+  const amount = o.amount.toFixed();
+  return {
+    id: o.id,
+    kind: o.kind,
+    contract: o.contract,
+    tokenId: o.tokenId,
+    traitType: o.traitType,
+    traitValue: o.traitValue,
+    bidderAddress: o.bidderAddress,
+    currency: o.currency,
+    amount,
+    amountHuman: ethers.formatUnits(amount, o.currency.decimals),
+    expiresAt: o.expiresAt.toISOString(),
+    status: o.status,
+    invalidReason: o.invalidReason,
+    listingId: o.listingId,
+    acceptedNftId: o.acceptedNftId,
+    createdAt: o.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,214 @@
+// src/lib/server/pending-actions.ts
+/* In-flight auction txs (PendingChainAction).
+   - The client registers a row as soon as it has a tx hash, before waiting for the receipt.
+   - reconcilePendingActions() polls receipts: success → the same writes /api/marketplace/sync
+     does (applyMarketplaceSync, built from the decoded logs) → CONFIRMED; revert, a tx to
+     another contract or one without the expected event → FAILED; no receipt after
+     PENDING_TTL_MS → EXPIRED (dropped / replaced tx).
+   - Runs only from scripts/pending-reconciler.ts; reads of the pending list never hit the RPC.
+   - relatedId is the NFT row id; the payload keeps what the tx alone can't tell us.
+*/
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import type { PendingChainActionType } from "@/src/lib/generated/prisma/client";
+import { applyMarketplaceSync, MarketplaceSyncError, type SyncBody } from "@/src/lib/server/marketplace-sync";
+import { getMarketplaceAddress } from "@/src/lib/server/offers";
+import { publishBidFailed } from "@/src/lib/server/auction-events";
+import { getProvider } from "@/src/lib/server/chain/provider";
+import { HttpError } from "@/src/lib/server/errors";
+
+/** Without a receipt after this long the tx was dropped or replaced. */
+export const PENDING_TTL_MS = 30 * 60_000;
+const RECONCILE_BATCH = 50;
+
+export const PENDING_ACTION_TYPES: PendingChainActionType[] = [
+  "NFT_AUCTION_CREATE",
+  "NFT_AUCTION_BID",
+  "NFT_AUCTION_CANCEL",
+  "NFT_AUCTION_FINALIZE",
+];
+
+export class PendingActionError extends HttpError {}
+
+type PendingPayload = {
+  contract: string;
+  tokenId: string;
+  auctionId?: string | null;
+  amountWei?: string | null;
+};
+
+/** `wallet` is the signed-in wallet; it must be the tx sender. */
+export async function registerPendingAction(input: {
+  wallet: string;
+  type: unknown;
+  txHash: string;
+  from: unknown;
+  chainId: unknown;
+  contract: unknown;
+  tokenId: unknown;
+  auctionId?: unknown;
+  amountWei?: unknown;
+}) {
+  await prismaReady;
+  const type = input.type as PendingChainActionType;
+  if (!PENDING_ACTION_TYPES.includes(type)) throw new PendingActionError("Unknown action type");
+  if (typeof input.from !== "string" || !ethers.isAddress(input.from)) throw new PendingActionError("Invalid from");
+  if (input.from.toLowerCase() !== input.wallet.toLowerCase()) {
+    throw new PendingActionError("from must be your signed-in wallet", 403);
+  }
+  if (typeof input.contract !== "string" || !ethers.isAddress(input.contract)) {
+    throw new PendingActionError("Invalid contract");
+  }
+  const tokenId = String(input.tokenId ?? "");
+  if (!/^\d+$/.test(tokenId)) throw new PendingActionError("Invalid tokenId");
+  const chainId = Number(input.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) throw new PendingActionError("Invalid chainId");
+
+  const auctionId = /^\d+$/.test(String(input.auctionId ?? "")) ? String(input.auctionId) : null;
+  const amountWei = /^\d+$/.test(String(input.amountWei ?? "")) ? String(input.amountWei) : null;
+  if (type !== "NFT_AUCTION_CREATE" && !auctionId) throw new PendingActionError("auctionId is required");
+
+  const nft = await prisma.nFT.findUnique({
+    where: { contract_tokenId: { contract: input.contract, tokenId } },
+    select: { id: true },
+  });
+  if (!nft) throw new PendingActionError("NFT not found", 404);
+
+  const payload: PendingPayload = { contract: ethers.getAddress(input.contract), tokenId, auctionId, amountWei };
+  await prisma.pendingChainAction.upsert({
+    where: { txHash: input.txHash },
+    update: {},
+    create: {
+      type,
+      txHash: input.txHash,
+      from: ethers.getAddress(input.from),
+      chainId,
+      payload,
+      relatedId: nft.id,
+    },
+  });
+}
+
+/** The client reported the tx itself through /api/marketplace/sync. */
+export async function markPendingActionConfirmed(txHash: string) {
+  await prisma.pendingChainAction.updateMany({
+    where: { txHash, status: "PENDING" },
+    data: { status: "CONFIRMED" },
+  });
+}
+
+/** Sync body for a mined tx (applyMarketplaceSync reads the rest from its logs). */
+function toSyncBody(row: { type: PendingChainActionType; txHash: string }): SyncBody {
+  switch (row.type) {
+    case "NFT_AUCTION_CREATE":
+      return { type: "AUCTION_CREATE", txHash: row.txHash };
+    case "NFT_AUCTION_BID":
+      return { type: "AUCTION_BID", txHash: row.txHash };
+    case "NFT_AUCTION_CANCEL":
+      return { type: "AUCTION_CANCEL", txHash: row.txHash };
+    case "NFT_AUCTION_FINALIZE":
+      return { type: "AUCTION_FINALIZE", txHash: row.txHash };
+  }
+}
+
+export type ReconcileResult = { checked: number; confirmed: number; failed: number; expired: number };
+
+/** One pass over PENDING rows (oldest first), optionally only those for one NFT. */
+export async function reconcilePendingActions(opts: { relatedId?: string; limit?: number } = {}): Promise<ReconcileResult> {
+  await prismaReady;
+  const rows = await prisma.pendingChainAction.findMany({
+    where: { status: "PENDING", ...(opts.relatedId ? { relatedId: opts.relatedId } : {}) },
+    orderBy: { createdAt: "asc" },
+    take: opts.limit ?? RECONCILE_BATCH,
+    select: { id: true, type: true, txHash: true, from: true, relatedId: true, payload: true, createdAt: true },
+  });
+
+  const out: ReconcileResult = { checked: rows.length, confirmed: 0, failed: 0, expired: 0 };
+  const p = getProvider();
+  const market = getMarketplaceAddress().toLowerCase();
+  const fail = (id: string) => prisma.pendingChainAction.update({ where: { id }, data: { status: "FAILED" } });
+
+  for (const row of rows) {
+    const payload = row.payload as PendingPayload;
+    try {
+      const receipt = await p.getTransactionReceipt(row.txHash);
+      if (!receipt) {
+        if (Date.now() - row.createdAt.getTime() > PENDING_TTL_MS) {
+          await prisma.pendingChainAction.update({ where: { id: row.id }, data: { status: "EXPIRED" } });
+          out.expired++;
+        }
+        continue;
+      }
+
+      if (
+        receipt.status !== 1 ||
+        receipt.from.toLowerCase() !== row.from.toLowerCase() ||
+        receipt.to?.toLowerCase() !== market
+      ) {
+        await fail(row.id);
+        if (row.type === "NFT_AUCTION_BID" && payload.auctionId) {
+          publishBidFailed({ txHash: row.txHash, from: row.from, auctionId: payload.auctionId });
+        }
+        out.failed++;
+        continue;
+      }
+
+      await applyMarketplaceSync(toSyncBody(row), receipt);
+      await prisma.pendingChainAction.update({ where: { id: row.id }, data: { status: "CONFIRMED" } });
+      out.confirmed++;
+    } catch (e) {
+      // the receipt doesn't carry the event the action claims; retrying won't change that
+      if (e instanceof MarketplaceSyncError) {
+        await fail(row.id);
+        out.failed++;
+        continue;
+      }
+      // anything else (RPC, DB) stays PENDING; the next pass retries until it expires
+      console.error(`[pending] ${row.txHash}:`, e);
+      if (Date.now() - row.createdAt.getTime() > PENDING_TTL_MS) {
+        await prisma.pendingChainAction.update({ where: { id: row.id }, data: { status: "EXPIRED" } });
+        out.expired++;
+      }
+    }
+  }
+  return out;
+}
+
+export type PendingActionDTO = {
+  id: string;
+  type: PendingChainActionType;
+  txHash: string;
+  from: string;
+  auctionId: string | null;
+  amountWei: string | null;
+  createdISO: string;
+};
+
+/** Still-pending actions for one NFT (the job resolves them). */
+export async function getPendingActions(contract: string, tokenId: string): Promise<PendingActionDTO[]> {
+  await prismaReady;
+  const nft = await prisma.nFT.findUnique({
+    where: { contract_tokenId: { contract, tokenId } },
+    select: { id: true },
+  });
+  if (!nft) return [];
+
+  const rows = await prisma.pendingChainAction.findMany({
+    where: { relatedId: nft.id, status: "PENDING" },
+    orderBy: { createdAt: "desc" },
+    take: 20,
+    select: { id: true, type: true, txHash: true, from: true, payload: true, createdAt: true },
+  });
+  return rows.map((r) => {
+    const payload = r.payload as PendingPayload;
+    return {
+      id: r.id,
+      type: r.type,
+      txHash: r.txHash,
+      from: r.from,
+      auctionId: payload.auctionId ?? null,
+      amountWei: payload.amountWei ?? null,
+      createdISO: r.createdAt.toISOString(),
+    };
+  });
+}
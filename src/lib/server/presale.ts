@@ -0,0 +1,408 @@
+// src/lib/server/presale.ts
+/* Presale allowlists for ERC721 drops: CSV → PresaleDraft → Presale + PresaleWhitelistAddress.
+   - Tree: OpenZeppelin MerkleProof compatible. leaf = keccak256(abi.encodePacked(address)),
+     leaves sorted, pairs hashed in sorted order, an odd node is carried up unchanged.
+     presaleMint(quantity, proof) only proves membership; maxAllocation is kept off-chain.
+   - Draft: deduplicated + checksummed entries, root and a sha256 commit over the canonical
+     "address,allocation" lines. DRAFT expires after DRAFT_TTL_MS; finalizing locks it.
+   - Bind: the deployment (or a later finalize against an existing presale with the same
+     root) copies the entries into PresaleWhitelistAddress and marks the draft CONSUMED.
+*/
+import crypto from "crypto";
+import { ethers } from "ethers";
+import prisma from "@/src/lib/db";
+import type { Prisma } from "@/src/lib/generated/prisma/client";
+import { ensureUserId } from "./submissions";
+import { HttpError } from "@/src/lib/server/errors";
+
+export const MAX_ALLOWLIST_ENTRIES = 10_000;
+const MAX_REPORTED_INVALID = 50;
+const DRAFT_TTL_MS = 24 * 60 * 60 * 1000;
+const FINALIZED_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class PresaleError extends HttpError {}
+
+export type AllowlistEntry = { address: string; maxAllocation: number | null };
+
+/* ---------------- CSV ---------------- */
+
+/**
+ * One address per line, optionally followed by an allocation (comma, semicolon, tab or
+ * space separated). A non-address first line is treated as a header. Duplicates collapse
+ * to one entry keeping the largest allocation given.
+ */
+export function parseAllowlistCsv(text: string) {
+  const byAddr = new Map<string, AllowlistEntry>();
+  const invalid: { line: number; value: string; reason: string }[] = [];
+  let invalidCount = 0;
+  let duplicates = 0;
+
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+    const [addrRaw = "", allocRaw = ""] = line.split(/[,;\t ]+/).map((s) => s.replace(/^"|"$/g, "").trim());
+
+    const reject = (reason: string) => {
+      invalidCount++;
+      if (invalid.length < MAX_REPORTED_INVALID) invalid.push({ line: i + 1, value: line.slice(0, 80), reason });
+    };
+
+    if (!ethers.isAddress(addrRaw)) {
+      if (i === 0 && !/^0x/i.test(addrRaw)) return; // header row
+      return reject("Invalid address");
+    }
+    let maxAllocation: number | null = null;
+    if (allocRaw) {
+      if (!/^\d+$/.test(allocRaw) || Number(allocRaw) < 1 || Number(allocRaw) > 1_000_000) {
+        return reject("Allocation must be a whole number ≥ 1");
+      }
+      maxAllocation = Number(allocRaw);
+    }
+
+    const address = ethers.getAddress(addrRaw.toLowerCase());
+    if (address === ethers.ZeroAddress) return reject("Zero address");
+    const prev = byAddr.get(address);
+    if (prev) {
+      duplicates++;
+      if (maxAllocation !== null && (prev.maxAllocation === null || maxAllocation > prev.maxAllocation)) {
+        prev.maxAllocation = maxAllocation;
+      }
+      return;
+    }
+    byAddr.set(address, { address, maxAllocation });
+  });
+
+  const entries = [...byAddr.values()].sort((a, b) => a.address.toLowerCase().localeCompare(b.address.toLowerCase()));
+  return { entries, invalid, invalidCount, duplicates };
+}
+
+export function allowlistCommit(entries: AllowlistEntry[]) {
+  const canonical = entries
+    .map((e) => `${e.address.toLowerCase()},${e.maxAllocation ?? ""}`)
+    .sort()
+    .join("\n");
+  return crypto.createHash("sha256").update(canonical).digest("hex");
+}
+
+/* ---------------- merkle ---------------- */
+
+export function allowlistLeaf(address: string) {
+  return ethers.solidityPackedKeccak256(["address"], [ethers.getAddress(address)]);
+}
+
+function hashPair(a: string, b: string) {
+  return a.toLowerCase() < b.toLowerCase() ? ethers.concat([a, b]) : ethers.concat([b, a]);
+}
+
+/** Layers from sorted leaves (index 0) up to the root. */
+export function buildMerkleTree(addresses: string[]) {
+  const leaves = addresses.map(allowlistLeaf).sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1));
+  const layers: string[][] = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const prev = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < prev.length; i += 2) {
+      next.push(i + 1 < prev.length ? ethers.keccak256(hashPair(prev[i], prev[i + 1])) : prev[i]);
+    }
+    layers.push(next);
+  }
+  return { root: leaves.length ? layers[layers.length - 1][0] : ethers.ZeroHash, layers };
+}
+
+export function getMerkleProof(tree: { layers: string[][] }, address: string): string[] | null {
+  const leaf = allowlistLeaf(address);
+  let idx = tree.layers[0].indexOf(leaf);
+  if (idx < 0) return null;
+  const proof: string[] = [];
+  for (let l = 0; l < tree.layers.length - 1; l++) {
+    const layer = tree.layers[l];
+    const sibling = idx % 2 === 0 ? idx + 1 : idx - 1;
+    if (sibling < layer.length) proof.push(layer[sibling]);
+    idx = Math.floor(idx / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(root: string, address: string, proof: string[]) {
+  let h = allowlistLeaf(address);
+  for (const p of proof) h = ethers.keccak256(hashPair(h, p));
+  return h.toLowerCase() === root.toLowerCase();
+}
+
+/* ---------------- drafts ---------------- */
+
+type DraftRow = {
+  id: string;
+  addresses: Prisma.JsonValue;
+  count: number;
+  merkleRoot: string;
+  sha256Commit: string;
+  status: string;
+  consumedAt: Date | null;
+  consumedByPresaleId: string | null;
+  createdAt: Date;
+  expiresAt: Date | null;
+};
+
+const DRAFT_SELECT = {
+  id: true,
+  addresses: true,
+  count: true,
+  merkleRoot: true,
+  sha256Commit: true,
+  status: true,
+  consumedAt: true,
+  consumedByPresaleId: true,
+  createdAt: true,
+  expiresAt: true,
+} satisfies Prisma.PresaleDraftSelect;
+
+function draftEntries(d: Pick<DraftRow, "addresses">): AllowlistEntry[] {
+  return Array.isArray(d.addresses) ? (d.addresses as AllowlistEntry[]) : [];
+}
+
+const isExpired = (d: Pick<DraftRow, "expiresAt">) => !!d.expiresAt && d.expiresAt.getTime() < Date.now();
+
+export function toDraftDTO(d: DraftRow, page?: { offset: number; limit: number }) {
+  const entries = draftEntries(d);
+  const offset = page?.offset ?? 0;
+  const limit = page?.limit ?? 100;
+  return {
+    id: d.id,
+    status: d.status as "DRAFT" | "FINALIZED" | "CONSUMED",
+    count: d.count,
+    merkleRoot: d.merkleRoot,
+    sha256Commit: d.sha256Commit,
+    expired: d.status !== "CONSUMED" && isExpired(d),
+    consumedByPresaleId: d.consumedByPresaleId,
+    createdAt: d.createdAt.toISOString(),
+    expiresAt: d.expiresAt?.toISOString() ?? null,
+    consumedAt: d.consumedAt?.toISOString() ?? null,
+    allocated: entries.filter((e) => e.maxAllocation !== null).length,
+    entries: entries.slice(offset, offset + limit),
+    offset,
+  };
+}
+
+export type PresaleDraftDTO = ReturnType<typeof toDraftDTO>;
+
+/** Parse + build a DRAFT. Re-uploading the same list returns (and renews) the caller's draft. */
+export async function createPresaleDraft(wallet: string, csv: string) {
+  const parsed = parseAllowlistCsv(csv);
+  if (!parsed.entries.length) throw new PresaleError("No valid addresses found in the CSV");
+  if (parsed.entries.length > MAX_ALLOWLIST_ENTRIES) {
+    throw new PresaleError(`Allowlists are limited to ${MAX_ALLOWLIST_ENTRIES} addresses`);
+  }
+
+  const creatorUserId = await ensureUserId(wallet);
+  const commit = allowlistCommit(parsed.entries);
+  const { root } = buildMerkleTree(parsed.entries.map((e) => e.address));
+  const expiresAt = new Date(Date.now() + DRAFT_TTL_MS);
+
+  const existing = await prisma.presaleDraft.findUnique({
+    where: { sha256Commit: commit },
+    select: { id: true, creatorUserId: true, status: true },
+  });
+  let draft: DraftRow;
+  if (existing) {
+    if (existing.creatorUserId !== creatorUserId || existing.status === "CONSUMED") {
+      throw new PresaleError("This exact allowlist is already bound to another presale", 409);
+    }
+    draft = await prisma.presaleDraft.update({
+      where: { id: existing.id },
+      data: existing.status === "DRAFT" ? { expiresAt } : {},
+      select: DRAFT_SELECT,
+    });
+  } else {
+    draft = await prisma.presaleDraft.create({
+      data: {
+        creatorUserId,
+        addresses: parsed.entries as unknown as Prisma.InputJsonValue,
+        count: parsed.entries.length,
+        merkleRoot: root,
+        sha256Commit: commit,
+        expiresAt,
+      },
+      select: DRAFT_SELECT,
+    });
+  }
+
+  return {
+    draft: toDraftDTO(draft),
+    invalid: parsed.invalid,
+    invalidCount: parsed.invalidCount,
+    duplicates: parsed.duplicates,
+  };
+}
+
+async function loadOwnDraft(id: string, wallet: string) {
+  const creatorUserId = await ensureUserId(wallet);
+  const draft = await prisma.presaleDraft.findUnique({
+    where: { id },
+    select: { ...DRAFT_SELECT, creatorUserId: true },
+  });
+  if (!draft || draft.creatorUserId !== creatorUserId) throw new PresaleError("Draft not found", 404);
+  return draft;
+}
+
+export async function getPresaleDraft(id: string, wallet: string, page: { offset: number; limit: number }) {
+  return toDraftDTO(await loadOwnDraft(id, wallet), page);
+}
+
+/**
+ * Lock a DRAFT so its root can go into a deployment. With `contract`, bind it straight to
+ * that drop's existing presale instead (the on-chain root must match).
+ */
+export async function finalizePresaleDraft(id: string, wallet: string, opts: { contract?: string | null } = {}) {
+  const draft = await loadOwnDraft(id, wallet);
+  if (draft.status === "CONSUMED") throw new PresaleError("Draft is already bound to a presale", 409);
+  if (isExpired(draft)) throw new PresaleError("Draft has expired. Upload the CSV again.", 410);
+
+  if (!opts.contract) {
+    if (draft.status === "FINALIZED") return toDraftDTO(draft);
+    const updated = await prisma.presaleDraft.update({
+      where: { id },
+      data: { status: "FINALIZED", expiresAt: new Date(Date.now() + FINALIZED_TTL_MS) },
+      select: DRAFT_SELECT,
+    });
+    return toDraftDTO(updated);
+  }
+
+  const collection = await prisma.collection.findUnique({
+    where: { contract: opts.contract },
+    select: { creatorId: true, ownerAddress: true, presale: { select: { id: true } } },
+  });
+  if (!collection?.presale) throw new PresaleError("This collection has no presale", 404);
+  const isOwner =
+    collection.creatorId === draft.creatorUserId || collection.ownerAddress.toLowerCase() === wallet.toLowerCase();
+  if (!isOwner) throw new PresaleError("Only the collection owner can set its allowlist", 403);
+
+  const presaleId = collection.presale.id;
+  await prisma.$transaction(async (db) => {
+    await bindPresaleDraft(db, { draftId: id, presaleId, creatorUserId: draft.creatorUserId });
+  });
+  return getPresaleDraft(id, wallet, { offset: 0, limit: 100 });
+}
+
+/**
+ * Copy a draft's entries into the presale's whitelist and consume the draft.
+ * Runs inside the caller's transaction (deployment confirm or finalize).
+ */
+export async function bindPresaleDraft(
+  db: Prisma.TransactionClient,
+  input: { draftId: string; presaleId: string; creatorUserId: string }
+) {
+  const draft = await db.presaleDraft.findUnique({
+    where: { id: input.draftId },
+    select: { ...DRAFT_SELECT, creatorUserId: true },
+  });
+  if (!draft || draft.creatorUserId !== input.creatorUserId) throw new PresaleError("Allowlist draft not found", 404);
+  if (draft.status === "CONSUMED") throw new PresaleError("Allowlist draft is already bound to a presale", 409);
+  if (isExpired(draft)) throw new PresaleError("Allowlist draft has expired", 410);
+
+  const presale = await db.presale.findUnique({
+    where: { id: input.presaleId },
+    select: { merkleRoot: true, whitelistCount: true },
+  });
+  if (!presale) throw new PresaleError("Presale not found", 404);
+  if (presale.merkleRoot.toLowerCase() !== draft.merkleRoot.toLowerCase()) {
+    throw new PresaleError("Allowlist root does not match the presale's on-chain merkle root", 409);
+  }
+  if (presale.whitelistCount) throw new PresaleError("This presale already has an allowlist", 409);
+
+  const entries = draftEntries(draft);
+  for (let i = 0; i < entries.length; i += 1000) {
+    await db.presaleWhitelistAddress.createMany({
+      data: entries.slice(i, i + 1000).map((e) => ({
+        presaleId: input.presaleId,
+        address: e.address,
+        maxAllocation: e.maxAllocation,
+      })),
+      skipDuplicates: true,
+    });
+  }
+  await db.presale.update({
+    where: { id: input.presaleId },
+    data: { whitelistCount: entries.length, allowlistCommit: draft.sha256Commit },
+  });
+  await db.presaleDraft.update({
+    where: { id: input.draftId },
+    data: { status: "CONSUMED", consumedAt: new Date(), consumedByPresaleId: input.presaleId },
+  });
+}
+
+/* ---------------- proofs ---------------- */
+
+export type PresaleIneligibleReason =
+  | "NO_PRESALE"
+  | "ALLOWLIST_UNAVAILABLE"
+  | "ALLOWLIST_MISMATCH"
+  | "NOT_ALLOWLISTED"
+  | "PRESALE_NOT_STARTED"
+  | "PRESALE_ENDED";
+
+const REASON_MESSAGES: Record<PresaleIneligibleReason, string> = {
+  NO_PRESALE: "This drop has no presale.",
+  ALLOWLIST_UNAVAILABLE: "The presale allowlist has not been published yet.",
+  ALLOWLIST_MISMATCH: "The published allowlist does not match the on-chain merkle root.",
+  NOT_ALLOWLISTED: "This wallet is not on the presale allowlist.",
+  PRESALE_NOT_STARTED: "The presale has not started yet.",
+  PRESALE_ENDED: "The presale has ended.",
+};
+
+/**
+ * Proof for presaleMint(quantity, proof). `proof` is returned whenever the address is on the
+ * list (also before the window opens); `eligible` additionally requires the window be open.
+ */
+export async function getPresaleProof(contract: string, address: string) {
+  const checksum = ethers.getAddress(address.toLowerCase());
+  const collection = await prisma.collection.findUnique({
+    where: { contract },
+    select: {
+      presale: {
+        select: { id: true, merkleRoot: true, startTime: true, endTime: true, whitelistCount: true },
+      },
+    },
+  });
+  const presale = collection?.presale ?? null;
+
+  const base = {
+    address: checksum,
+    merkleRoot: presale?.merkleRoot ?? null,
+    startISO: presale?.startTime.toISOString() ?? null,
+    endISO: presale?.endTime.toISOString() ?? null,
+  };
+  const ineligible = (reason: PresaleIneligibleReason, extra: { proof?: string[]; maxAllocation?: number | null } = {}) => ({
+    ...base,
+    eligible: false,
+    reason,
+    message: REASON_MESSAGES[reason],
+    proof: extra.proof ?? null,
+    maxAllocation: extra.maxAllocation ?? null,
+  });
+
+  if (!presale) return ineligible("NO_PRESALE");
+  if (!presale.whitelistCount) return ineligible("ALLOWLIST_UNAVAILABLE");
+
+  const entry = await prisma.presaleWhitelistAddress.findUnique({
+    where: { presaleId_address: { presaleId: presale.id, address: checksum } },
+    select: { maxAllocation: true },
+  });
+  if (!entry) return ineligible("NOT_ALLOWLISTED");
+
+  const rows = await prisma.presaleWhitelistAddress.findMany({
+    where: { presaleId: presale.id },
+    select: { address: true },
+  });
+  const tree = buildMerkleTree(rows.map((r) => r.address));
+  const proof = getMerkleProof(tree, checksum);
+  if (!proof || tree.root.toLowerCase() !== presale.merkleRoot.toLowerCase()) return ineligible("ALLOWLIST_MISMATCH");
+
+  const now = Date.now();
+  const extra = { proof, maxAllocation: entry.maxAllocation };
+  if (now < presale.startTime.getTime()) return ineligible("PRESALE_NOT_STARTED", extra);
+  if (now > presale.endTime.getTime()) return ineligible("PRESALE_ENDED", extra);
+
+  return { ...base, eligible: true, reason: null, message: null, proof, maxAllocation: entry.maxAllocation };
+}
@@ -0,0 +1,200 @@
+// src/lib/server/rarity.ts
+/* Rarity engine → NFTRarity (score, rank) + NFT.rarityScore.
+   Per collection (Collection.rarityMethod):
+   - STATISTICAL          product of trait probabilities; stored as -log10(∏p) so it fits
+                          the decimal column and "higher = rarer" like the other methods.
+   - INFORMATION_CONTENT  OpenRarity: Σ -log2(p) normalised by the collection's entropy.
+   - RARITY_SCORE         Σ 1/p (the per-trait score shown on the token page).
+   Every token is scored over every trait type in the collection: a missing trait counts
+   as its own value ("None"), and the number of traits a token has is scored as an extra
+   "Trait Count" trait. Rank 1 = rarest; equal scores share a rank.
+
+   Incremental: a collection is recomputed only when it's stale (flagged, never computed,
+   or its SUCCESS NFT count no longer matches NFTRarity), and only rows whose score/rank
+   actually moved are written.
+*/
+import prisma from "@/src/lib/db";
+import { Prisma, type RarityMethod } from "@/src/lib/generated/prisma/client";
+
+export const RARITY_METHODS = ["STATISTICAL", "INFORMATION_CONTENT", "RARITY_SCORE"] as const;
+
+export const TRAIT_NONE = "None";
+export const TRAIT_COUNT_TYPE = "Trait Count";
+
+type TokenTraits = { id: string; tokenId: string; traits: Map<string, string> };
+
+/** Same sources as the trait SQL: attributes [{ trait_type, value }] ∪ traits { type: value }. */
+export function extractTraits(attributes: unknown, traits: unknown): Map<string, string> {
+  const out = new Map<string, string>();
+  const str = (v: unknown) => (typeof v === "string" ? v : v == null ? "" : JSON.stringify(v)).trim();
+
+  if (Array.isArray(attributes)) {
+    for (const a of attributes as { trait_type?: unknown; value?: unknown }[]) {
+      const t = typeof a?.trait_type === "string" ? a.trait_type.trim() : "";
+      const v = str(a?.value);
+      if (t && v && !out.has(t)) out.set(t, v);
+    }
+  }
+  if (traits && typeof traits === "object" && !Array.isArray(traits)) {
+    for (const [k, raw] of Object.entries(traits as Record<string, unknown>)) {
+      const t = k.trim();
+      const v = str(raw);
+      if (t && v && !out.has(t)) out.set(t, v);
+    }
+  }
+  return out;
+}
+
+export type RarityResult = { id: string; tokenId: string; score: number; rank: number };
+
+/** Pure scoring over an in-memory collection. */
+export function scoreCollection(tokens: TokenTraits[], method: RarityMethod): RarityResult[] {
+  const n = tokens.length;
+  if (!n) return [];
+
+  const types = new Set<string>();
+  for (const t of tokens) for (const k of t.traits.keys()) types.add(k);
+  types.add(TRAIT_COUNT_TYPE);
+
+  const valueOf = (t: TokenTraits, type: string) =>
+    type === TRAIT_COUNT_TYPE ? String(t.traits.size) : t.traits.get(type) ?? TRAIT_NONE;
+
+  const counts = new Map<string, Map<string, number>>();
+  for (const type of types) {
+    const m = new Map<string, number>();
+    for (const t of tokens) {
+      const v = valueOf(t, type);
+      m.set(v, (m.get(v) ?? 0) + 1);
+    }
+    counts.set(type, m);
+  }
+
+  // collection entropy (OpenRarity normaliser)
+  let entropy = 0;
+  for (const m of counts.values()) {
+    for (const c of m.values()) {
+      const p = c / n;
+      entropy -= p * Math.log2(p);
+    }
+  }
+
+  const scored = tokens.map((t) => {
+    let score = 0;
+    for (const type of types) {
+      const p = counts.get(type)!.get(valueOf(t, type))! / n;
+      if (method === "STATISTICAL") score -= Math.log10(p);
+      else if (method === "RARITY_SCORE") score += 1 / p;
+      else score -= Math.log2(p);
+    }
+    if (method === "INFORMATION_CONTENT") score = entropy > 0 ? score / entropy : 0;
+    return { id: t.id, tokenId: t.tokenId, score, rank: 0 };
+  });
+
+  const numId = (s: string) => (/^\d+$/.test(s) ? BigInt(s) : BigInt(0));
+  scored.sort((a, b) => {
+    if (Math.abs(b.score - a.score) > 1e-12) return b.score - a.score;
+    const x = numId(a.tokenId);
+    const y = numId(b.tokenId);
+    return x < y ? -1 : x > y ? 1 : a.tokenId.localeCompare(b.tokenId);
+  });
+
+  // competition ranking (1, 2, 2, 4…)
+  scored.forEach((r, i) => {
+    const prev = scored[i - 1];
+    r.rank = prev && Math.abs(prev.score - r.score) <= 1e-12 ? prev.rank : i + 1;
+  });
+
+  return scored;
+}
+
+const dec = (x: number) => x.toFixed(12);
+
+/** Recompute one collection and persist only what changed. */
+export async function computeRarity(contract: string, opts: { method?: RarityMethod } = {}) {
+  const startedAt = new Date();
+
+  const col = await prisma.collection.findFirst({
+    where: { contract },
+    select: { id: true, contract: true, rarityMethod: true },
+  });
+  if (!col) throw new Error(`Collection ${contract} not found`);
+  const method = opts.method ?? col.rarityMethod;
+
+  const [nfts, existing] = await Promise.all([
+    prisma.nFT.findMany({
+      where: { contract: col.contract, status: "SUCCESS" },
+      select: { id: true, tokenId: true, attributes: true, traits: true },
+    }),
+    prisma.nFTRarity.findMany({
+      where: { contract: col.contract },
+      select: { tokenId: true, score: true, rank: true },
+    }),
+  ]);
+
+  const results = scoreCollection(
+    nfts.map((n) => ({ id: n.id, tokenId: n.tokenId, traits: extractTraits(n.attributes, n.traits) })),
+    method
+  );
+
+  const prev = new Map(existing.map((r) => [r.tokenId, r]));
+  const changed = results.filter((r) => {
+    const p = prev.get(r.tokenId);
+    return !p || p.rank !== r.rank || p.score.toFixed(12) !== dec(r.score);
+  });
+  const live = new Set(results.map((r) => r.tokenId));
+  const gone = existing.filter((r) => !live.has(r.tokenId)).map((r) => r.tokenId);
+
+  for (let i = 0; i < changed.length; i += 500) {
+    const batch = changed.slice(i, i + 500);
+    const tokenIds = batch.map((r) => r.tokenId);
+    const ids = batch.map((r) => r.id);
+    const scores = batch.map((r) => dec(r.score));
+    const ranks = batch.map((r) => r.rank);
+
+    await prisma.$transaction([
+      prisma.$executeRaw(Prisma.sql`
+        INSERT INTO "NFTRarity" ("contract","tokenId","score","rank","updatedAt")
+        SELECT ${col.contract}::citext, v.token_id, v.score, v.rank, now()
+        FROM unnest(${tokenIds}::text[], ${scores}::numeric[], ${ranks}::int[]) AS v(token_id, score, rank)
+        ON CONFLICT ("contract","tokenId")
+        DO UPDATE SET "score" = EXCLUDED."score", "rank" = EXCLUDED."rank", "updatedAt" = now()
+      `),
+      prisma.$executeRaw(Prisma.sql`
+        UPDATE "NFT" n SET "rarityScore" = v.score
+        FROM unnest(${ids}::text[], ${scores}::numeric[]) AS v(id, score)
+        WHERE n."id" = v.id
+      `),
+    ]);
+  }
+
+  if (gone.length) {
+    await prisma.nFTRarity.deleteMany({ where: { contract: col.contract, tokenId: { in: gone } } });
+  }
+
+  await prisma.collection.update({
+    where: { id: col.id },
+    data: { rarityStale: false, rarityComputedAt: startedAt, ...(opts.method ? { rarityMethod: opts.method } : {}) },
+  });
+
+  return { contract: col.contract, method, population: results.length, updated: changed.length, removed: gone.length };
+}
+
+/** Collections whose rarity is out of date. */
+export async function findStaleRarityCollections(limit = 50) {
+  const rows = await prisma.$queryRaw<{ contract: string }[]>(Prisma.sql`
+    SELECT c."contract"
+    FROM "Collection" c
+    WHERE c."rarityStale"
+       OR c."rarityComputedAt" IS NULL
+       OR (SELECT COUNT(*) FROM "NFT" n WHERE n."contract" = c."contract" AND n."status" = 'SUCCESS'::"NftStatus")
+          <> (SELECT COUNT(*) FROM "NFTRarity" r WHERE r."contract" = c."contract")
+    ORDER BY c."rarityComputedAt" ASC NULLS FIRST
+    LIMIT ${limit}
+  `);
+  return rows.map((r) => r.contract);
+}
+
+/** Flag a collection for the worker (new metadata, method change, admin request). */
+export async function markRarityStale(contract: string) {
+  await prisma.collection.updateMany({ where: { contract }, data: { rarityStale: true } });
+}
@@ -0,0 +1,398 @@
+// src/lib/server/rewards.ts
+/* Holder rewards paid out by the RewardDistributor (/rewards).
+   - Shares: NFTs of REWARDS_HOLDER_COLLECTION owned by a wallet (as indexed).
+   - Funding (the distributor's Funded events, see indexer/rewardsIndexer.ts) lands in
+     RewardDistributionLog. Applying a log bumps RewardAccumulatorMulti.accPerToken by
+     amount / totalShares and settles every current holder into HolderRewardMulti.accruedAmount,
+     so a wallet's entitlement is accrued + shares × (accPerToken − lastAccPerToken).
+   - The contract pays `signedTotal − claimed[account][token]`, so vouchers sign the wallet's
+     cumulative entitlement (in token base units) with REWARDS_SIGNER_PRIVATE_KEY.
+   - Amounts in the DB are token units (Decimal 78,18); accPerToken keeps 27 decimals.
+*/
+import { ethers } from "ethers";
+import prisma from "@/src/lib/db";
+import { REWARD_DISTRIBUTOR_ABI } from "@/src/lib/abis/marketplace-core/rewardDistributorABI";
+import { ensureUserId } from "./submissions";
+import { getProvider } from "@/src/lib/server/chain/provider";
+import { HttpError } from "@/src/lib/server/errors";
+
+const ACC_DECIMALS = 27;
+const VOUCHER_TTL_SEC = 60 * 60;
+
+/** Must match the distributor's EIP-712 claim struct. */
+export const CLAIM_TYPES = {
+  Claim: [
+    { name: "account", type: "address" },
+    { name: "token", type: "address" },
+    { name: "total", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export class RewardsError extends HttpError {}
+
+export function getDistributorAddress() {
+  const addr = process.env.NEXT_PUBLIC_REWARD_DISTRIBUTOR_ADDRESS;
+  if (!addr || !ethers.isAddress(addr)) {
+    throw new Error("Missing NEXT_PUBLIC_REWARD_DISTRIBUTOR_ADDRESS (valid 0x address).");
+  }
+  return ethers.getAddress(addr);
+}
+
+export function getHolderCollection() {
+  const addr = process.env.REWARDS_HOLDER_COLLECTION;
+  if (!addr || !ethers.isAddress(addr)) {
+    throw new Error("Missing REWARDS_HOLDER_COLLECTION (valid 0x address).");
+  }
+  return ethers.getAddress(addr);
+}
+
+function distributor(runner: ethers.ContractRunner = getProvider()) {
+  return new ethers.Contract(getDistributorAddress(), REWARD_DISTRIBUTOR_ABI as ethers.InterfaceAbi, runner);
+}
+
+/* ---------------- fixed-point helpers ---------------- */
+
+type DecimalLike = { toFixed(dp: number): string };
+
+const toRaw = (d: DecimalLike | null | undefined, decimals: number) => ethers.parseUnits(d ? d.toFixed(decimals) : "0", decimals);
+const fromRaw = (raw: bigint, decimals: number) => ethers.formatUnits(raw, decimals);
+
+/** Token base units owed for `shares` over an accumulator delta (accPerToken is in token units). */
+function owedFor(shares: bigint, accDelta: bigint, tokenDecimals: number) {
+  if (shares <= BigInt(0) || accDelta <= BigInt(0)) return BigInt(0);
+  return (shares * accDelta * BigInt(10) ** BigInt(tokenDecimals)) / BigInt(10) ** BigInt(ACC_DECIMALS);
+}
+
+/* ---------------- currencies / shares ---------------- */
+
+/** On-chain token address for a currency (native ETN = zero address, as in the marketplace). */
+export function tokenOf(c: { kind: string; tokenAddress: string | null }) {
+  return c.kind === "NATIVE" || !c.tokenAddress ? ethers.ZeroAddress : ethers.getAddress(c.tokenAddress);
+}
+
+/** Currency row for a distributor token address; the native row is created on first use. */
+export async function currencyForToken(token: string) {
+  const select = { id: true, symbol: true, decimals: true, kind: true, tokenAddress: true } as const;
+  if (token === ethers.ZeroAddress) {
+    return (
+      (await prisma.currency.findFirst({ where: { kind: "NATIVE" }, select })) ??
+      (await prisma.currency.create({ data: { symbol: "ETN", decimals: 18, kind: "NATIVE" }, select }))
+    );
+  }
+  return prisma.currency.findUnique({ where: { tokenAddress: ethers.getAddress(token) }, select });
+}
+
+/** Current share count per holder wallet (checksummed). */
+async function holderShares() {
+  const groups = await prisma.nFT.groupBy({
+    by: ["ownerId"],
+    where: { contract: getHolderCollection(), ownerId: { not: null } },
+    _count: { _all: true },
+  });
+  const users = await prisma.user.findMany({
+    where: { id: { in: groups.map((g) => g.ownerId!) } },
+    select: { id: true, walletAddress: true },
+  });
+  const wallets = new Map(users.map((u) => [u.id, u.walletAddress]));
+  return groups
+    .filter((g) => wallets.has(g.ownerId!))
+    .map((g) => ({ userId: g.ownerId!, wallet: ethers.getAddress(wallets.get(g.ownerId!)!), shares: BigInt(g._count._all) }));
+}
+
+async function sharesOf(wallet: string) {
+  return BigInt(
+    await prisma.nFT.count({ where: { contract: getHolderCollection(), owner: { walletAddress: wallet } } })
+  );
+}
+
+/* ---------------- distributions ---------------- */
+
+/**
+ * Apply every RewardDistributionLog not applied yet, one currency at a time.
+ * Returns the number of logs applied.
+ */
+export async function applyPendingDistributions(log: (m: string) => void = console.log) {
+  const pending = await prisma.rewardDistributionLog.findMany({
+    where: { appliedAt: null },
+    select: { id: true, currencyId: true, amount: true },
+  });
+  if (!pending.length) return 0;
+
+  const holders = await holderShares();
+  const totalShares = holders.reduce((a, h) => a + h.shares, BigInt(0));
+  if (totalShares === BigInt(0)) {
+    log("[rewards] no holders indexed yet; distributions stay pending");
+    return 0;
+  }
+
+  const byCurrency = new Map<string, string[]>();
+  for (const p of pending) byCurrency.set(p.currencyId, [...(byCurrency.get(p.currencyId) ?? []), p.id]);
+
+  for (const [currencyId, ids] of byCurrency) {
+    const currency = await prisma.currency.findUnique({ where: { id: currencyId }, select: { decimals: true, symbol: true } });
+    if (!currency) continue;
+    const amount = pending
+      .filter((p) => p.currencyId === currencyId)
+      .reduce((a, p) => a + toRaw(p.amount, currency.decimals), BigInt(0));
+
+    await prisma.$transaction(
+      async (db) => {
+        const acc = await db.rewardAccumulatorMulti.findUnique({ where: { currencyId }, select: { accPerToken: true } });
+        const prevAcc = toRaw(acc?.accPerToken, ACC_DECIMALS);
+        // amount is in base units; accPerToken is token units per share with ACC_DECIMALS places
+        const delta = (amount * BigInt(10) ** BigInt(ACC_DECIMALS - currency.decimals)) / totalShares;
+        const nextAcc = prevAcc + delta;
+        const nextAccStr = fromRaw(nextAcc, ACC_DECIMALS);
+
+        await db.rewardAccumulatorMulti.upsert({
+          where: { currencyId },
+          update: { accPerToken: nextAccStr, updatedAt: new Date() },
+          create: { currencyId, accPerToken: nextAccStr },
+        });
+
+        for (const h of holders) {
+          const owed = fromRaw(owedFor(h.shares, delta, currency.decimals), currency.decimals);
+          await db.holderRewardMulti.upsert({
+            where: { walletAddress_currencyId: { walletAddress: h.wallet, currencyId } },
+            update: { accruedAmount: { increment: owed }, lastAccPerToken: nextAccStr, userId: h.userId, updatedAt: new Date() },
+            create: { walletAddress: h.wallet, currencyId, userId: h.userId, accruedAmount: owed, lastAccPerToken: nextAccStr },
+          });
+        }
+        // wallets that sold out of the collection stop accruing from here on
+        await db.holderRewardMulti.updateMany({
+          where: { currencyId, lastAccPerToken: { not: nextAccStr } },
+          data: { lastAccPerToken: nextAccStr },
+        });
+        await db.rewardDistributionLog.updateMany({ where: { id: { in: ids } }, data: { appliedAt: new Date() } });
+      },
+      { timeout: 120_000 }
+    );
+    log(`[rewards] applied ${ids.length} distribution(s) of ${fromRaw(amount, currency.decimals)} ${currency.symbol}`);
+  }
+  return pending.length;
+}
+
+/* ---------------- claims ---------------- */
+
+export type ClaimedEvent = {
+  token: string;
+  account: string;
+  paid: bigint;
+  newTotal: bigint;
+  txHash: string;
+  logIndex: number;
+  timestamp: Date;
+};
+
+/** Log a distributor Claimed event (idempotent by txHash/logIndex) and mirror the claimed total. */
+export async function applyClaimed(ev: ClaimedEvent) {
+  const currency = await currencyForToken(ev.token);
+  if (!currency) return false;
+  const wallet = ethers.getAddress(ev.account);
+
+  const seen = await prisma.rewardClaimLog.findUnique({
+    where: { txHash_logIndex: { txHash: ev.txHash, logIndex: ev.logIndex } },
+    select: { id: true },
+  });
+  if (seen) return false;
+
+  const userId = await ensureUserId(wallet);
+  const claimed = fromRaw(ev.newTotal, currency.decimals);
+  await prisma.$transaction([
+    prisma.rewardClaimLog.create({
+      data: {
+        walletAddress: wallet,
+        userId,
+        currencyId: currency.id,
+        amount: fromRaw(ev.paid, currency.decimals),
+        txHash: ev.txHash,
+        logIndex: ev.logIndex,
+        timestamp: ev.timestamp,
+      },
+    }),
+    prisma.holderRewardMulti.upsert({
+      where: { walletAddress_currencyId: { walletAddress: wallet, currencyId: currency.id } },
+      update: { claimedAmount: claimed, updatedAt: new Date() },
+      create: { walletAddress: wallet, currencyId: currency.id, userId, claimedAmount: claimed },
+    }),
+  ]);
+  return true;
+}
+
+const distributorIface = new ethers.Interface(REWARD_DISTRIBUTOR_ABI);
+
+/** Record the Claimed events of a mined claim/claimMany tx right away. */
+export async function recordClaimTx(txHash: string) {
+  const p = getProvider();
+  const receipt = await p.getTransactionReceipt(txHash);
+  if (!receipt) throw new RewardsError("Transaction is not mined yet. Try again in a moment.", 409);
+  if (receipt.status !== 1) throw new RewardsError("Claim transaction failed on-chain");
+  const block = await p.getBlock(receipt.blockNumber);
+  const timestamp = block ? new Date(Number(block.timestamp) * 1000) : new Date();
+
+  const addr = getDistributorAddress().toLowerCase();
+  let recorded = 0;
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== addr) continue;
+    const parsed = distributorIface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed || parsed.name !== "Claimed") continue;
+    const wrote = await applyClaimed({
+      token: String(parsed.args.token),
+      account: String(parsed.args.account),
+      paid: parsed.args.paid as bigint,
+      newTotal: parsed.args.newTotal as bigint,
+      txHash: receipt.hash,
+      logIndex: log.index,
+      timestamp,
+    });
+    if (wrote) recorded++;
+  }
+  if (!recorded && !receipt.logs.some((l) => l.address.toLowerCase() === addr)) {
+    throw new RewardsError("No reward claims in that transaction", 422);
+  }
+  return { recorded };
+}
+
+/* ---------------- wallet view ---------------- */
+
+export type RewardBalance = {
+  currencyId: string;
+  symbol: string;
+  decimals: number;
+  token: string;
+  /** cumulative entitlement, base units */
+  totalWei: string;
+  claimedWei: string;
+  claimableWei: string;
+};
+
+export type RewardClaimDTO = {
+  id: string;
+  symbol: string;
+  decimals: number;
+  amount: string;
+  txHash: string | null;
+  timestampISO: string;
+};
+
+export async function getRewardsSummary(wallet: string) {
+  const address = ethers.getAddress(wallet);
+  const [shares, accs, rows, claims] = await Promise.all([
+    sharesOf(address),
+    prisma.rewardAccumulatorMulti.findMany({
+      select: {
+        currencyId: true,
+        accPerToken: true,
+        currency: { select: { symbol: true, decimals: true, kind: true, tokenAddress: true } },
+      },
+    }),
+    prisma.holderRewardMulti.findMany({
+      where: { walletAddress: address },
+      select: { currencyId: true, accruedAmount: true, lastAccPerToken: true },
+    }),
+    prisma.rewardClaimLog.findMany({
+      where: { walletAddress: address },
+      orderBy: { timestamp: "desc" },
+      take: 50,
+      select: {
+        id: true,
+        amount: true,
+        txHash: true,
+        timestamp: true,
+        currency: { select: { symbol: true, decimals: true } },
+      },
+    }),
+  ]);
+
+  const c = distributor();
+  const mine = new Map(rows.map((r) => [r.currencyId, r]));
+  const balances: RewardBalance[] = [];
+  for (const a of accs) {
+    const row = mine.get(a.currencyId);
+    if (!row) continue;
+    const d = a.currency.decimals;
+    const total =
+      toRaw(row.accruedAmount, d) +
+      owedFor(shares, toRaw(a.accPerToken, ACC_DECIMALS) - toRaw(row.lastAccPerToken, ACC_DECIMALS), d);
+    const token = tokenOf(a.currency);
+    const claimed = (await c.claimed(address, token)) as bigint;
+    balances.push({
+      currencyId: a.currencyId,
+      symbol: a.currency.symbol,
+      decimals: d,
+      token,
+      totalWei: total.toString(),
+      claimedWei: claimed.toString(),
+      claimableWei: (total > claimed ? total - claimed : BigInt(0)).toString(),
+    });
+  }
+
+  return {
+    address,
+    distributor: getDistributorAddress(),
+    collection: getHolderCollection(),
+    shares: Number(shares),
+    balances,
+    claims: claims.map<RewardClaimDTO>((r) => ({
+      id: r.id,
+      symbol: r.currency.symbol,
+      decimals: r.currency.decimals,
+      amount: r.amount.toFixed(r.currency.decimals),
+      txHash: r.txHash,
+      timestampISO: r.timestamp.toISOString(),
+    })),
+  };
+}
+
+/* ---------------- vouchers ---------------- */
+
+export type RewardVoucher = {
+  currencyId: string;
+  token: string;
+  total: string;
+  deadline: number;
+  signature: string;
+};
+
+function getSignerWallet() {
+  const pk = process.env.REWARDS_SIGNER_PRIVATE_KEY;
+  if (!pk) throw new RewardsError("Reward claims are not configured", 503);
+  return new ethers.Wallet(pk);
+}
+
+/** Signed claim vouchers for every currency (or the given ones) with something claimable. */
+export async function signRewardVouchers(wallet: string, currencyIds?: string[]) {
+  const summary = await getRewardsSummary(wallet);
+  const picked = summary.balances.filter(
+    (b) => BigInt(b.claimableWei) > BigInt(0) && (!currencyIds?.length || currencyIds.includes(b.currencyId))
+  );
+  if (!picked.length) throw new RewardsError("Nothing to claim", 409);
+
+  const signer = getSignerWallet();
+  const c = distributor();
+  const [onChainSigner, domain] = await Promise.all([c.signer() as Promise<string>, c.eip712Domain()]);
+  if (ethers.getAddress(onChainSigner) !== signer.address) {
+    throw new RewardsError("Reward signer does not match the distributor", 503);
+  }
+
+  const typedDomain = {
+    name: String(domain.name),
+    version: String(domain.version),
+    chainId: domain.chainId as bigint,
+    verifyingContract: String(domain.verifyingContract),
+  };
+  const deadline = Math.floor(Date.now() / 1000) + VOUCHER_TTL_SEC;
+
+  const vouchers: RewardVoucher[] = [];
+  for (const b of picked) {
+    const signature = await signer.signTypedData(typedDomain, CLAIM_TYPES, {
+      account: summary.address,
+      token: b.token,
+      total: b.totalWei,
+      deadline,
+    });
+    vouchers.push({ currencyId: b.currencyId, token: b.token, total: b.totalWei, deadline, signature });
+  }
+  return { distributor: summary.distributor, vouchers };
+}
@@ -0,0 +1,337 @@
+// src/lib/server/sale-stats.ts
+/* Sale time-series.
+   - CollectionSaleBucket rolls MarketplaceSale up per collection × currency × hour/day:
+     volume (sum of sale prices), sale count, and floor / average / median of the unit price
+     (price ÷ quantity), all in the currency's base units. currencyKey is "native" or a
+     Currency.id, matching the ?currency= convention of the other collection APIs.
+   - rollupRecentSales() recomputes only the buckets touched by recently indexed sales, plus
+     recent buckets whose sales a reorg may have pruned (a bucket left without sales is
+     deleted); scripts/sales-rollup.ts runs it on a loop (or --backfill for the whole history).
+   - Reads never aggregate raw sales, except the current NFT's own sales (price history).
+*/
+import prisma, { prismaReady } from "@/src/lib/db";
+import { CurrencyKind, Prisma, type SaleBucketInterval } from "@/src/lib/generated/prisma/client";
+import { HttpError } from "@/src/lib/server/errors";
+
+export type StatsInterval = "hour" | "day";
+export const STATS_INTERVALS: StatsInterval[] = ["hour", "day"];
+
+const INTERVAL_ENUM: Record<StatsInterval, SaleBucketInterval> = { hour: "HOUR", day: "DAY" };
+/** How far back each interval reaches in the stats API. */
+const INTERVAL_SPAN_MS: Record<StatsInterval, number> = {
+  hour: 7 * 24 * 3600_000,
+  day: 365 * 24 * 3600_000,
+};
+const POINTS_LIMIT = 500;
+const HISTORY_LIMIT = 200;
+
+export class SaleStatsError extends HttpError {}
+
+/* ---------------- rollup ---------------- */
+
+type BucketRow = {
+  collectionId: string;
+  currencyKey: string;
+  bucketStart: Date;
+  volume: string;
+  salesCount: number;
+  floorPrice: string;
+  avgPrice: string;
+  medianPrice: string;
+};
+
+const CURRENCY_KEY_SQL = Prisma.sql`CASE WHEN s."currencyId" IS NULL OR c."kind" = 'NATIVE' THEN 'native' ELSE s."currencyId" END`;
+const PRICE_SQL = Prisma.sql`CASE WHEN s."currencyId" IS NULL OR c."kind" = 'NATIVE' THEN s."priceEtnWei" ELSE COALESCE(s."priceTokenAmount", 0) END`;
+const UNIT_PRICE_SQL = Prisma.sql`trunc((${PRICE_SQL}) / GREATEST(s."quantity", 1))`;
+
+async function rollupInterval(interval: StatsInterval, since: Date, collectionIds?: string[]) {
+  const rows = await prisma.$queryRaw<BucketRow[]>(Prisma.sql`
+    SELECT n."collectionId" AS "collectionId",
+           ${CURRENCY_KEY_SQL} AS "currencyKey",
+           date_trunc(${interval}, s."timestamp") AS "bucketStart",
+           SUM(${PRICE_SQL})::text AS "volume",
+           COUNT(*)::int AS "salesCount",
+           MIN(${UNIT_PRICE_SQL})::text AS "floorPrice",
+           trunc(AVG(${UNIT_PRICE_SQL}))::text AS "avgPrice",
+           (percentile_disc(0.5) WITHIN GROUP (ORDER BY ${UNIT_PRICE_SQL}))::text AS "medianPrice"
+    FROM "MarketplaceSale" s
+    JOIN "NFT" n ON n."id" = s."nftId"
+    LEFT JOIN "Currency" c ON c."id" = s."currencyId"
+    WHERE s."timestamp" >= date_trunc(${interval}, ${since}::timestamp)
+      AND n."collectionId" IS NOT NULL
+      ${collectionIds ? Prisma.sql`AND n."collectionId" IN (${Prisma.join(collectionIds)})` : Prisma.empty}
+    GROUP BY 1, 2, 3
+  `);
+
+  // buckets in range whose sales are gone (pruned on a reorg)
+  await prisma.$executeRaw(Prisma.sql`
+    DELETE FROM "CollectionSaleBucket" b
+    WHERE b."interval" = ${INTERVAL_ENUM[interval]}::"SaleBucketInterval"
+      AND b."bucketStart" >= date_trunc(${interval}, ${since}::timestamp)
+      ${collectionIds ? Prisma.sql`AND b."collectionId" IN (${Prisma.join(collectionIds)})` : Prisma.empty}
+      AND NOT EXISTS (
+        SELECT 1
+        FROM "MarketplaceSale" s
+        JOIN "NFT" n ON n."id" = s."nftId"
+        LEFT JOIN "Currency" c ON c."id" = s."currencyId"
+        WHERE n."collectionId" = b."collectionId"
+          AND ${CURRENCY_KEY_SQL} = b."currencyKey"
+          AND date_trunc(${interval}, s."timestamp") = b."bucketStart"
+      )
+  `);
+
+  for (const r of rows) {
+    const data = {
+      volume: r.volume,
+      salesCount: r.salesCount,
+      floorPrice: r.floorPrice,
+      avgPrice: r.avgPrice,
+      medianPrice: r.medianPrice,
+    };
+    await prisma.collectionSaleBucket.upsert({
+      where: {
+        collectionId_currencyKey_interval_bucketStart: {
+          collectionId: r.collectionId,
+          currencyKey: r.currencyKey,
+          interval: INTERVAL_ENUM[interval],
+          bucketStart: r.bucketStart,
+        },
+      },
+      update: data,
+      create: {
+        collectionId: r.collectionId,
+        currencyKey: r.currencyKey,
+        interval: INTERVAL_ENUM[interval],
+        bucketStart: r.bucketStart,
+        ...data,
+      },
+    });
+  }
+  return rows.length;
+}
+
+/** Recompute every hour/day bucket from `since` on (optionally for some collections only). */
+export async function rollupSaleBuckets(opts: { since: Date; collectionIds?: string[] }) {
+  await prismaReady;
+  if (opts.collectionIds && !opts.collectionIds.length) return { hour: 0, day: 0 };
+  const hour = await rollupInterval("hour", opts.since, opts.collectionIds);
+  const day = await rollupInterval("day", opts.since, opts.collectionIds);
+  return { hour, day };
+}
+
+/**
+ * Buckets touched by sales indexed in the last `lookbackMs` (by createdAt, so late or
+ * re-indexed sales land in the right historical bucket), and every bucket of the lookback
+ * window itself, since reorgs only prune sales that recent.
+ */
+export async function rollupRecentSales(lookbackMs: number) {
+  await prismaReady;
+  const from = new Date(Date.now() - lookbackMs);
+  const recent = await prisma.marketplaceSale.findMany({
+    where: { createdAt: { gte: from } },
+    select: { timestamp: true, nft: { select: { collectionId: true } } },
+  });
+  const buckets = await prisma.collectionSaleBucket.findMany({
+    where: { interval: "HOUR", bucketStart: { gte: new Date(Math.floor(from.getTime() / 3600_000) * 3600_000) } },
+    distinct: ["collectionId"],
+    select: { collectionId: true },
+  });
+  const collectionIds = [
+    ...new Set([
+      ...recent.map((s) => s.nft.collectionId).filter((id): id is string => !!id),
+      ...buckets.map((b) => b.collectionId),
+    ]),
+  ];
+  if (!collectionIds.length) return { sales: 0, hour: 0, day: 0 };
+
+  const since = new Date(Math.min(from.getTime(), ...recent.map((s) => s.timestamp.getTime())));
+  const r = await rollupSaleBuckets({ since, collectionIds });
+  return { sales: recent.length, ...r };
+}
+
+/** Full rebuild from the first sale. */
+export async function backfillSaleBuckets() {
+  await prismaReady;
+  const first = await prisma.marketplaceSale.findFirst({ orderBy: { timestamp: "asc" }, select: { timestamp: true } });
+  if (!first) return { hour: 0, day: 0 };
+  return rollupSaleBuckets({ since: first.timestamp });
+}
+
+/* ---------------- read ---------------- */
+
+type CurrencyMeta = { key: string; symbol: string; decimals: number };
+
+async function resolveCurrency(q: string | null): Promise<CurrencyMeta> {
+  const val = (q || "native").trim();
+  if (val.toLowerCase() === "native") return { key: "native", symbol: "ETN", decimals: 18 };
+  const cur = await prisma.currency.findFirst({
+    where: { id: val, kind: CurrencyKind.ERC20 },
+    select: { id: true, symbol: true, decimals: true },
+  });
+  if (!cur) throw new SaleStatsError("Unknown currency");
+  return { key: cur.id, symbol: cur.symbol, decimals: cur.decimals ?? 18 };
+}
+
+function saleCurrencyWhere(cur: CurrencyMeta): Prisma.MarketplaceSaleWhereInput {
+  if (cur.key === "native") {
+    return { OR: [{ currencyId: null }, { currency: { kind: CurrencyKind.NATIVE } }] };
+  }
+  return { currencyId: cur.key };
+}
+
+export type SaleBucketDTO = {
+  t: string;
+  volume: string;
+  sales: number;
+  floor: string;
+  avg: string;
+  median: string;
+};
+
+export type SalePointDTO = {
+  t: string;
+  /** Unit price in the currency's base units. */
+  price: string;
+  quantity: number;
+  tokenId: string;
+  txHash: string;
+};
+
+export type CollectionStatsDTO = {
+  contract: string;
+  interval: StatsInterval;
+  currency: { id: string; symbol: string; decimals: number };
+  from: string;
+  buckets: SaleBucketDTO[];
+  points: SalePointDTO[];
+  totals: { volume: string; sales: number };
+};
+
+const unitPrice = (total: Prisma.Decimal | null, qty: number) =>
+  (total ?? new Prisma.Decimal(0)).div(Math.max(qty, 1)).floor().toFixed(0);
+
+export async function getCollectionStats(
+  contract: string,
+  opts: { interval: StatsInterval; currency: string | null }
+): Promise<CollectionStatsDTO> {
+  await prismaReady;
+  const collection = await prisma.collection.findFirst({
+    where: { contract: { equals: contract, mode: "insensitive" } },
+    select: { id: true, contract: true },
+  });
+  if (!collection) throw new SaleStatsError("Collection not found", 404);
+
+  const cur = await resolveCurrency(opts.currency);
+  const from = new Date(Date.now() - INTERVAL_SPAN_MS[opts.interval]);
+
+  const [buckets, sales] = await Promise.all([
+    prisma.collectionSaleBucket.findMany({
+      where: {
+        collectionId: collection.id,
+        currencyKey: cur.key,
+        interval: INTERVAL_ENUM[opts.interval],
+        bucketStart: { gte: from },
+      },
+      orderBy: { bucketStart: "asc" },
+      select: {
+        bucketStart: true,
+        volume: true,
+        salesCount: true,
+        floorPrice: true,
+        avgPrice: true,
+        medianPrice: true,
+      },
+    }),
+    prisma.marketplaceSale.findMany({
+      where: { nft: { collectionId: collection.id }, timestamp: { gte: from }, ...saleCurrencyWhere(cur) },
+      orderBy: { timestamp: "desc" },
+      take: POINTS_LIMIT,
+      select: {
+        timestamp: true,
+        priceEtnWei: true,
+        priceTokenAmount: true,
+        quantity: true,
+        txHash: true,
+        nft: { select: { tokenId: true } },
+      },
+    }),
+  ]);
+
+  let volume = new Prisma.Decimal(0);
+  let count = 0;
+  for (const b of buckets) {
+    volume = volume.add(b.volume);
+    count += b.salesCount;
+  }
+
+  return {
+    contract: collection.contract,
+    interval: opts.interval,
+    currency: { id: cur.key, symbol: cur.symbol, decimals: cur.decimals },
+    from: from.toISOString(),
+    buckets: buckets.map((b) => ({
+      t: b.bucketStart.toISOString(),
+      volume: b.volume.toFixed(0),
+      sales: b.salesCount,
+      floor: b.floorPrice.toFixed(0),
+      avg: b.avgPrice.toFixed(0),
+      median: b.medianPrice.toFixed(0),
+    })),
+    points: sales.reverse().map((s) => ({
+      t: s.timestamp.toISOString(),
+      price: unitPrice(cur.key === "native" ? s.priceEtnWei : s.priceTokenAmount, s.quantity),
+      quantity: s.quantity,
+      tokenId: s.nft.tokenId,
+      txHash: s.txHash,
+    })),
+    totals: { volume: volume.toFixed(0), sales: count },
+  };
+}
+
+export type PriceHistoryPointDTO = SalePointDTO & {
+  currency: { id: string; symbol: string; decimals: number };
+  buyer: string;
+  seller: string;
+};
+
+/** Every recorded sale of one token (oldest first), each in its own currency. */
+export async function getNftPriceHistory(contract: string, tokenId: string): Promise<PriceHistoryPointDTO[]> {
+  await prismaReady;
+  const nft = await prisma.nFT.findFirst({
+    where: { contract: { equals: contract, mode: "insensitive" }, tokenId },
+    select: { id: true },
+  });
+  if (!nft) throw new SaleStatsError("NFT not found", 404);
+
+  const sales = await prisma.marketplaceSale.findMany({
+    where: { nftId: nft.id },
+    orderBy: { timestamp: "desc" },
+    take: HISTORY_LIMIT,
+    select: {
+      timestamp: true,
+      priceEtnWei: true,
+      priceTokenAmount: true,
+      quantity: true,
+      txHash: true,
+      buyerAddress: true,
+      sellerAddress: true,
+      currency: { select: { id: true, symbol: true, decimals: true, kind: true } },
+    },
+  });
+
+  return sales.reverse().map((s) => {
+    const native = !s.currency || s.currency.kind === CurrencyKind.NATIVE;
+    return {
+      t: s.timestamp.toISOString(),
+      price: unitPrice(native ? s.priceEtnWei : s.priceTokenAmount, s.quantity),
+      quantity: s.quantity,
+      tokenId,
+      txHash: s.txHash,
+      buyer: s.buyerAddress,
+      seller: s.sellerAddress,
+      currency: native
+        ? { id: "native", symbol: "ETN", decimals: 18 }
+        : { id: s.currency!.id, symbol: s.currency!.symbol, decimals: s.currency!.decimals ?? 18 },
+    };
+  });
+}
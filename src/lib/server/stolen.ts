@@ -0,0 +1,565 @@
+// src/lib/server/stolen.ts
+/* Stolen-item reports and the StolenRegistry.
+   - A user report is a StolenItem (source=USER, status=FLAGGED) plus a REPORTED StolenEvent.
+     It is pending, and invisible outside /admin/stolen, until a moderator confirms it
+     (then it shows as "reported") or flags it on-chain. Wallets can file
+     REPORTS_PER_WALLET_PER_DAY reports a day.
+   - "flagged" means the registry says so (isStolen / isCollectionStolen). The marketplace
+     reverts with StolenAsset for those, so that is what the market panel refuses.
+   - Grids only hit the registry for tokens that already have a report row, plus one
+     isCollectionStolen per contract; both are memoized.
+   - Moderation (/admin/stolen): registry reporters/clearers sign flag/clear themselves;
+     the mined tx is replayed through recordStolenTx, which keeps StolenItem.onChain in
+     step and writes one StolenEvent per ItemFlagged/ItemCleared log.
+   - Every state change (report, confirmation, dispute, dismissal, on-chain flag/clear) is a
+     StolenEvent.
+*/
+import { ethers } from "ethers";
+import prisma, { prismaReady } from "@/src/lib/db";
+import type { Prisma } from "@/src/lib/generated/prisma/client";
+import { memoizeAsync, cacheKey } from "@/src/lib/server/chain-cache";
+import { STOLEN_REGISTRY_ABI } from "@/src/lib/abis/marketplace-core/stolenRegistryABI";
+import { ensureUserId } from "@/src/lib/server/submissions";
+import { isAdminWallet } from "@/src/lib/server/auth";
+import { getProvider } from "@/src/lib/server/chain/provider";
+import { HttpError } from "@/src/lib/server/errors";
+
+const EVIDENCE_MAX = 500;
+const NOTES_MAX = 1000;
+export const REPORTS_PER_WALLET_PER_DAY = 5;
+
+export class StolenError extends HttpError {}
+
+/** Registry address, or null when the deployment has none (reports still work, nothing is "flagged"). */
+export function getStolenRegistryAddress() {
+  const addr = process.env.NEXT_PUBLIC_STOLEN_REGISTRY_ADDRESS;
+  return addr && ethers.isAddress(addr) ? ethers.getAddress(addr) : null;
+}
+
+function registry() {
+  const addr = getStolenRegistryAddress();
+  return addr ? new ethers.Contract(addr, STOLEN_REGISTRY_ABI as ethers.InterfaceAbi, getProvider()) : null;
+}
+
+function isTokenFlagged(contract: string, tokenId: string) {
+  return memoizeAsync<boolean>(cacheKey(["stolenItem", contract.toLowerCase(), tokenId]), 30_000, async () => {
+    const r = registry();
+    return r ? Boolean(await r.isStolen(contract, tokenId)) : false;
+  });
+}
+
+function isCollectionFlagged(contract: string) {
+  return memoizeAsync<boolean>(cacheKey(["stolenCollection", contract.toLowerCase()]), 60_000, async () => {
+    const r = registry();
+    return r ? Boolean(await r.isCollectionStolen(contract)) : false;
+  });
+}
+
+export type StolenState = "flagged" | "reported";
+
+export type StolenStatusDTO = {
+  contract: string;
+  tokenId: string;
+  state: StolenState | null;
+  collectionFlagged: boolean;
+  /** On-chain report, when the registry has one for this token. */
+  registry: { reporter: string; reportedISO: string; evidenceUrl: string | null } | null;
+  /** A report is waiting for a moderator (nothing is shown publicly until then). */
+  reviewPending: boolean;
+  /** Latest confirmed open report filed here (any source). */
+  report: {
+    source: string;
+    reporterAddress: string | null;
+    evidenceUrl: string | null;
+    disputed: boolean;
+    reportedISO: string;
+  } | null;
+};
+
+export async function getStolenStatus(contract: string, tokenId: string): Promise<StolenStatusDTO> {
+  await prismaReady;
+  const address = ethers.getAddress(contract);
+
+  const [row, tokenFlagged, collectionFlagged] = await Promise.all([
+    prisma.stolenItem.findUnique({
+      where: { contract_tokenId: { contract: address, tokenId } },
+      select: {
+        status: true,
+        source: true,
+        reporterAddress: true,
+        evidenceUrl: true,
+        disputed: true,
+        onChain: true,
+        confirmed: true,
+        createdAt: true,
+      },
+    }),
+    isTokenFlagged(address, tokenId).catch(() => false),
+    isCollectionFlagged(address).catch(() => false),
+  ]);
+
+  let onChain: StolenStatusDTO["registry"] = null;
+  const r = tokenFlagged ? await registry()?.getReport(address, tokenId).catch(() => null) : null;
+  if (r) {
+    onChain = {
+      reporter: ethers.getAddress(String(r.reporter)),
+      reportedISO: new Date(Number(r.timestamp) * 1000).toISOString(),
+      evidenceUrl: String(r.evidenceURI) || null,
+    };
+  }
+
+  const pending = row?.status === "FLAGGED" && !row.confirmed && !row.onChain;
+  const open = row && row.status === "FLAGGED" && !pending ? row : null;
+  return {
+    contract: address,
+    tokenId,
+    state: tokenFlagged || collectionFlagged ? "flagged" : open ? "reported" : null,
+    collectionFlagged,
+    registry: onChain,
+    reviewPending: pending,
+    report: open
+      ? {
+          source: open.source,
+          reporterAddress: open.reporterAddress,
+          evidenceUrl: open.evidenceUrl,
+          disputed: open.disputed,
+          reportedISO: open.createdAt.toISOString(),
+        }
+      : null,
+  };
+}
+
+export const stolenKey = (contract: string, tokenId: string) => `${contract.toLowerCase()}:${tokenId}`;
+
+/**
+ * Stolen state for a page of grid items, keyed by `${contract lowercased}:${tokenId}`.
+ * Tokens without an entry are clean.
+ */
+export async function getStolenStates(tokens: { contract: string; tokenId: string }[]) {
+  const out = new Map<string, StolenState>();
+  if (!tokens.length) return out;
+
+  const contracts = [...new Set(tokens.map((t) => t.contract.toLowerCase()))];
+  const [rows, collectionFlags] = await Promise.all([
+    prisma.stolenItem.findMany({
+      where: {
+        status: "FLAGGED",
+        OR: contracts.map((c) => ({
+          contract: c,
+          tokenId: { in: tokens.filter((t) => t.contract.toLowerCase() === c).map((t) => t.tokenId) },
+        })),
+      },
+      select: { contract: true, tokenId: true, confirmed: true },
+    }),
+    Promise.all(contracts.map(async (c) => [c, await isCollectionFlagged(c).catch(() => false)] as const)),
+  ]);
+
+  const flaggedCollections = new Set(collectionFlags.filter(([, f]) => f).map(([c]) => c));
+  for (const t of tokens) {
+    if (flaggedCollections.has(t.contract.toLowerCase())) out.set(stolenKey(t.contract, t.tokenId), "flagged");
+  }
+  for (const r of rows) {
+    const key = stolenKey(r.contract, r.tokenId);
+    if (out.has(key)) continue;
+    const onChain = await isTokenFlagged(r.contract, r.tokenId).catch(() => false);
+    if (onChain) out.set(key, "flagged");
+    else if (r.confirmed) out.set(key, "reported");
+  }
+  return out;
+}
+
+function normalizeEvidenceUrl(raw: unknown) {
+  const s = typeof raw === "string" ? raw.trim() : "";
+  if (!s) throw new StolenError("Add a link to your evidence (police report, screenshots, tx).");
+  if (s.length > EVIDENCE_MAX) throw new StolenError("Evidence link is too long.");
+  if (s.startsWith("ipfs://")) return s;
+  try {
+    const u = new URL(s);
+    if (u.protocol !== "https:" && u.protocol !== "http:") throw new Error();
+    return u.toString();
+  } catch {
+    throw new StolenError("Evidence must be an http(s) or ipfs:// link.");
+  }
+}
+
+/**
+ * File a user report. It waits for a moderator before anyone else sees it. A token already
+ * under an open report can't be reported again; one that was cleared earlier re-opens with
+ * the new evidence.
+ */
+export async function reportStolen(input: {
+  wallet: string;
+  contract: string;
+  tokenId: string;
+  evidenceUrl: unknown;
+  notes?: unknown;
+}) {
+  await prismaReady;
+  const reporterAddress = ethers.getAddress(input.wallet);
+  const evidenceUrl = normalizeEvidenceUrl(input.evidenceUrl);
+  const notes = typeof input.notes === "string" ? input.notes.trim().slice(0, NOTES_MAX) || null : null;
+
+  const nft = await prisma.nFT.findFirst({
+    where: { contract: { equals: input.contract, mode: "insensitive" }, tokenId: input.tokenId },
+    select: { contract: true, tokenId: true },
+  });
+  if (!nft) throw new StolenError("Token not found", 404);
+
+  const recent = await prisma.stolenEvent.count({
+    where: {
+      action: "REPORTED",
+      actorAddress: reporterAddress,
+      timestamp: { gt: new Date(Date.now() - 24 * 60 * 60_000) },
+    },
+  });
+  if (recent >= REPORTS_PER_WALLET_PER_DAY) {
+    throw new StolenError("You've filed too many reports today. Try again tomorrow.", 429);
+  }
+
+  const existing = await prisma.stolenItem.findUnique({
+    where: { contract_tokenId: { contract: nft.contract, tokenId: nft.tokenId } },
+    select: { status: true },
+  });
+  if (existing?.status === "FLAGGED") throw new StolenError("This token has already been reported.", 409);
+
+  const reporterUserId = await ensureUserId(reporterAddress);
+  const data = {
+    status: "FLAGGED" as const,
+    source: "USER" as const,
+    reporterAddress,
+    reporterUserId,
+    evidenceUrl,
+    notes,
+    disputed: false,
+    onChain: false,
+    confirmed: false,
+  };
+
+  const item = await prisma.$transaction(async (tx) => {
+    const row = await tx.stolenItem.upsert({
+      where: { contract_tokenId: { contract: nft.contract, tokenId: nft.tokenId } },
+      update: data,
+      create: { contract: nft.contract, tokenId: nft.tokenId, ...data },
+      select: { id: true, createdAt: true },
+    });
+    await tx.stolenEvent.create({
+      data: {
+        contract: nft.contract,
+        tokenId: nft.tokenId,
+        action: "REPORTED",
+        actorAddress: reporterAddress,
+        notes: evidenceUrl,
+      },
+    });
+    return row;
+  });
+
+  return { id: item.id, contract: nft.contract, tokenId: nft.tokenId, reviewPending: true };
+}
+
+/* ---------------- moderation ---------------- */
+
+export type StolenModerator = { address: string; isAdmin: boolean; canReport: boolean; canClear: boolean };
+
+/** What the wallet may do in the console: ADMIN_WALLETS, or REPORTER_ROLE / CLEARER_ROLE on the registry. */
+export async function getStolenModerator(wallet: string): Promise<StolenModerator> {
+  const address = ethers.getAddress(wallet);
+  const r = registry();
+  const [canReport, canClear] = r
+    ? await memoizeAsync(cacheKey(["stolenRoles", address.toLowerCase()]), 60_000, async () => {
+        const [reporterRole, clearerRole] = await Promise.all([r.REPORTER_ROLE(), r.CLEARER_ROLE()]);
+        return Promise.all([
+          r.hasRole(reporterRole, address).then(Boolean),
+          r.hasRole(clearerRole, address).then(Boolean),
+        ]);
+      }).catch(() => [false, false])
+    : [false, false];
+  return { address, isAdmin: isAdminWallet(address), canReport, canClear };
+}
+
+export type StolenQueueTab = "pending" | "flagged" | "disputed" | "cleared";
+export const STOLEN_QUEUE_TABS: StolenQueueTab[] = ["pending", "flagged", "disputed", "cleared"];
+
+export type StolenReportDTO = {
+  id: string;
+  contract: string;
+  tokenId: string;
+  token: { name: string | null; imageUrl: string | null } | null;
+  status: "FLAGGED" | "CLEARED";
+  source: string;
+  onChain: boolean;
+  confirmed: boolean;
+  disputed: boolean;
+  reporterAddress: string | null;
+  evidenceUrl: string | null;
+  notes: string | null;
+  createdISO: string;
+  updatedISO: string;
+  events: { action: string; actorAddress: string | null; txHash: string | null; notes: string | null; timestampISO: string }[];
+};
+
+const QUEUE_WHERE: Record<StolenQueueTab, Prisma.StolenItemWhereInput> = {
+  pending: { status: "FLAGGED", onChain: false, confirmed: false },
+  flagged: { status: "FLAGGED", disputed: false, OR: [{ onChain: true }, { confirmed: true }] },
+  disputed: { status: "FLAGGED", disputed: true },
+  cleared: { status: "CLEARED" },
+};
+
+export async function listStolenReports(tab: StolenQueueTab): Promise<StolenReportDTO[]> {
+  await prismaReady;
+  const rows = await prisma.stolenItem.findMany({
+    where: QUEUE_WHERE[tab],
+    orderBy: { updatedAt: tab === "pending" || tab === "disputed" ? "asc" : "desc" },
+    take: 200,
+    select: {
+      id: true,
+      contract: true,
+      tokenId: true,
+      status: true,
+      source: true,
+      onChain: true,
+      confirmed: true,
+      disputed: true,
+      reporterAddress: true,
+      evidenceUrl: true,
+      notes: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+  if (!rows.length) return [];
+
+  const tokenWhere = rows.map((r) => ({ contract: r.contract, tokenId: r.tokenId }));
+  const [nfts, events] = await Promise.all([
+    prisma.nFT.findMany({ where: { OR: tokenWhere }, select: { contract: true, tokenId: true, name: true, imageUrl: true } }),
+    prisma.stolenEvent.findMany({
+      where: { OR: tokenWhere },
+      orderBy: { timestamp: "desc" },
+      take: 1000,
+      select: { contract: true, tokenId: true, action: true, actorAddress: true, txHash: true, notes: true, timestamp: true },
+    }),
+  ]);
+  const tokenByKey = new Map(nfts.map((n) => [stolenKey(n.contract, n.tokenId), n]));
+  const eventsByKey = new Map<string, StolenReportDTO["events"]>();
+  for (const e of events) {
+    const key = stolenKey(e.contract, e.tokenId);
+    const list = eventsByKey.get(key) ?? [];
+    if (list.length < 10) {
+      list.push({
+        action: e.action,
+        actorAddress: e.actorAddress,
+        txHash: e.txHash,
+        notes: e.notes,
+        timestampISO: e.timestamp.toISOString(),
+      });
+    }
+    eventsByKey.set(key, list);
+  }
+
+  return rows.map((r) => {
+    const key = stolenKey(r.contract, r.tokenId);
+    const nft = tokenByKey.get(key);
+    return {
+      id: r.id,
+      contract: r.contract,
+      tokenId: r.tokenId,
+      token: nft ? { name: nft.name, imageUrl: nft.imageUrl } : null,
+      status: r.status,
+      source: r.source,
+      onChain: r.onChain,
+      confirmed: r.confirmed,
+      disputed: r.disputed,
+      reporterAddress: r.reporterAddress,
+      evidenceUrl: r.evidenceUrl,
+      notes: r.notes,
+      createdISO: r.createdAt.toISOString(),
+      updatedISO: r.updatedAt.toISOString(),
+      events: eventsByKey.get(key) ?? [],
+    };
+  });
+}
+
+/** Accept a pending report without flagging it on-chain yet; it shows as "reported" from now on. */
+export async function confirmStolenReport(id: string, actor: string, reason: string) {
+  await prismaReady;
+  const row = await prisma.stolenItem.findUnique({
+    where: { id },
+    select: { contract: true, tokenId: true, status: true, confirmed: true },
+  });
+  if (!row) throw new StolenError("Report not found", 404);
+  if (row.status !== "FLAGGED") throw new StolenError("Report is already closed.", 409);
+  if (row.confirmed) throw new StolenError("Report is already confirmed.", 409);
+
+  await prisma.$transaction([
+    prisma.stolenItem.update({ where: { id }, data: { confirmed: true } }),
+    prisma.stolenEvent.create({
+      data: { contract: row.contract, tokenId: row.tokenId, action: "CONFIRMED", actorAddress: actor, notes: reason },
+    }),
+  ]);
+}
+
+/** Close a report that never reached the registry. On-chain flags have to be cleared on-chain. */
+export async function dismissStolenReport(id: string, actor: string, reason: string) {
+  await prismaReady;
+  const row = await prisma.stolenItem.findUnique({
+    where: { id },
+    select: { contract: true, tokenId: true, status: true, onChain: true },
+  });
+  if (!row) throw new StolenError("Report not found", 404);
+  if (row.status !== "FLAGGED") throw new StolenError("Report is already closed.", 409);
+  if (row.onChain) throw new StolenError("This token is flagged on-chain; clear it in the registry instead.", 409);
+
+  await prisma.$transaction([
+    prisma.stolenItem.update({ where: { id }, data: { status: "CLEARED", disputed: false, confirmed: false } }),
+    prisma.stolenEvent.create({
+      data: { contract: row.contract, tokenId: row.tokenId, action: "DISMISSED", actorAddress: actor, notes: reason },
+    }),
+  ]);
+}
+
+/** Keep the flag and close the owner's dispute. */
+export async function rejectStolenDispute(id: string, actor: string, reason: string) {
+  await prismaReady;
+  const row = await prisma.stolenItem.findUnique({
+    where: { id },
+    select: { contract: true, tokenId: true, disputed: true },
+  });
+  if (!row) throw new StolenError("Report not found", 404);
+  if (!row.disputed) throw new StolenError("There is no open dispute.", 409);
+
+  await prisma.$transaction([
+    prisma.stolenItem.update({ where: { id }, data: { disputed: false } }),
+    prisma.stolenEvent.create({
+      data: { contract: row.contract, tokenId: row.tokenId, action: "DISPUTE_REJECTED", actorAddress: actor, notes: reason },
+    }),
+  ]);
+}
+
+async function holdsToken(wallet: string, contract: string, tokenId: string) {
+  const [nft, holding] = await Promise.all([
+    prisma.nFT.findFirst({
+      where: { contract, tokenId, owner: { walletAddress: wallet } },
+      select: { id: true },
+    }),
+    prisma.erc1155Holding.findFirst({
+      where: { contract, tokenId, ownerAddress: wallet, balance: { gt: 0 } },
+      select: { id: true },
+    }),
+  ]);
+  return !!nft || !!holding;
+}
+
+/** The current owner contests a flag or a pending report; it moves to the disputed tab for review. */
+export async function disputeStolen(input: { wallet: string; contract: string; tokenId: string; reason: unknown }) {
+  await prismaReady;
+  const wallet = ethers.getAddress(input.wallet);
+  const contract = ethers.getAddress(input.contract);
+  const reason = typeof input.reason === "string" ? input.reason.trim().slice(0, NOTES_MAX) : "";
+  if (!reason) throw new StolenError("Explain why the flag is wrong.");
+
+  if (!(await holdsToken(wallet, contract, input.tokenId))) {
+    throw new StolenError("Only the current owner can dispute a flag.", 403);
+  }
+
+  const row = await prisma.stolenItem.findUnique({
+    where: { contract_tokenId: { contract, tokenId: input.tokenId } },
+    select: { id: true, status: true, disputed: true },
+  });
+  if (row?.disputed && row.status === "FLAGGED") throw new StolenError("A dispute is already open.", 409);
+
+  // flagged straight in the registry (no row here yet)
+  if (!row || row.status !== "FLAGGED") {
+    if (!(await isTokenFlagged(contract, input.tokenId))) throw new StolenError("This token isn't flagged.", 409);
+  }
+
+  await prisma.$transaction([
+    prisma.stolenItem.upsert({
+      where: { contract_tokenId: { contract, tokenId: input.tokenId } },
+      update: { status: "FLAGGED", disputed: true },
+      create: {
+        contract,
+        tokenId: input.tokenId,
+        status: "FLAGGED",
+        source: "ADMIN",
+        onChain: true,
+        confirmed: true,
+        disputed: true,
+      },
+    }),
+    prisma.stolenEvent.create({
+      data: { contract, tokenId: input.tokenId, action: "DISPUTED", actorAddress: wallet, notes: reason },
+    }),
+  ]);
+}
+
+const registryIface = new ethers.Interface(STOLEN_REGISTRY_ABI as ethers.InterfaceAbi);
+
+/**
+ * Apply the ItemFlagged / ItemCleared logs of a mined registry tx (single or batch).
+ * Idempotent per (txHash, logIndex).
+ */
+export async function recordStolenTx(txHash: string) {
+  await prismaReady;
+  const registryAddress = getStolenRegistryAddress();
+  if (!registryAddress) throw new StolenError("Stolen registry is not configured.", 503);
+
+  const p = getProvider();
+  const receipt = await p.getTransactionReceipt(txHash);
+  if (!receipt) throw new StolenError("Transaction is not mined yet. Try again in a moment.", 409);
+  if (receipt.status !== 1) throw new StolenError("Transaction failed on-chain");
+
+  const block = await p.getBlock(receipt.blockNumber);
+  const timestamp = block ? new Date(Number(block.timestamp) * 1000) : new Date();
+
+  let flagged = 0;
+  let cleared = 0;
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== registryAddress.toLowerCase()) continue;
+    const parsed = registryIface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed || (parsed.name !== "ItemFlagged" && parsed.name !== "ItemCleared")) continue;
+
+    const seen = await prisma.stolenEvent.findFirst({ where: { txHash, logIndex: log.index }, select: { id: true } });
+    if (seen) continue;
+
+    const contract = ethers.getAddress(String(parsed.args.tokenContract));
+    const tokenId = (parsed.args.tokenId as bigint).toString();
+    const where = { contract_tokenId: { contract, tokenId } };
+    const event = { contract, tokenId, txHash, logIndex: log.index, blockNumber: log.blockNumber, timestamp };
+
+    if (parsed.name === "ItemFlagged") {
+      const reporter = ethers.getAddress(String(parsed.args.reporter));
+      const evidenceUrl = String(parsed.args.evidenceURI) || null;
+      await prisma.$transaction([
+        prisma.stolenItem.upsert({
+          where,
+          update: { status: "FLAGGED", onChain: true, confirmed: true },
+          create: {
+            contract,
+            tokenId,
+            status: "FLAGGED",
+            source: "ADMIN",
+            onChain: true,
+            confirmed: true,
+            reporterAddress: reporter,
+            evidenceUrl,
+          },
+        }),
+        prisma.stolenEvent.create({ data: { ...event, action: "FLAGGED", actorAddress: reporter, notes: evidenceUrl } }),
+      ]);
+      flagged++;
+    } else {
+      const clearer = ethers.getAddress(String(parsed.args.clearer));
+      await prisma.$transaction([
+        prisma.stolenItem.updateMany({
+          where: { contract, tokenId },
+          data: { status: "CLEARED", onChain: false, confirmed: false, disputed: false },
+        }),
+        prisma.stolenEvent.create({ data: { ...event, action: "CLEARED", actorAddress: clearer } }),
+      ]);
+      cleared++;
+    }
+  }
+
+  if (!flagged && !cleared) throw new StolenError("No stolen-registry flag/clear events in this transaction.");
+  return { flagged, cleared };
+}
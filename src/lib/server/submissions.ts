@@ -0,0 +1,261 @@
+// src/lib/server/submissions.ts
+/* "Submit your existing contract" flow → CollectionSubmission → admin review → Collection.
+   - Ownership: the contract's Ownable owner() must be the signed-in wallet.
+   - Fee: a plain ETN transfer from that wallet to the fee recipient, checked by receipt.
+     Configured by SUBMISSION_FEE_WEI (0/unset = free) and SUBMISSION_FEE_RECIPIENT
+     (defaults to the multisig). Each tx hash can pay for one submission only.
+   - Approval creates the Collection with indexStatus QUEUED; the indexer takes it from there.
+*/
+import { ethers } from "ethers";
+import prisma from "@/src/lib/db";
+import type { Prisma } from "@/src/lib/generated/prisma/client";
+import { getProvider } from "@/src/lib/server/chain/provider";
+import { HttpError } from "@/src/lib/server/errors";
+
+const DEFAULT_AVATAR = "/img/default-avatar.png";
+
+const IFACE_ERC721 = "0x80ac58cd";
+const IFACE_ERC1155 = "0xd9b67a26";
+
+const CONTRACT_ABI = [
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function owner() view returns (address)",
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function totalSupply() view returns (uint256)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function uri(uint256 id) view returns (string)",
+] as const;
+
+export class SubmissionError extends HttpError {}
+
+/* ---------------- fee ---------------- */
+
+export type SubmissionFee = { recipient: string | null; amountWei: bigint };
+
+export function getSubmissionFee(): SubmissionFee {
+  const raw = (process.env.SUBMISSION_FEE_WEI || "0").trim();
+  const amountWei = /^\d+$/.test(raw) ? BigInt(raw) : BigInt(0);
+  const to = process.env.SUBMISSION_FEE_RECIPIENT || process.env.NEXT_PUBLIC_MULTI_SIG_ADDRESS || "";
+  const recipient = ethers.isAddress(to) ? ethers.getAddress(to) : null;
+  if (amountWei > BigInt(0) && !recipient) {
+    throw new Error("Missing SUBMISSION_FEE_RECIPIENT (valid 0x address).");
+  }
+  return { recipient, amountWei };
+}
+
+/** Confirms `txHash` paid the submission fee from `payer`; returns the amount paid. */
+export async function verifyFeePayment(txHash: string, payer: string): Promise<bigint> {
+  const fee = getSubmissionFee();
+  const p = getProvider();
+  const [tx, receipt] = await Promise.all([p.getTransaction(txHash), p.getTransactionReceipt(txHash)]);
+
+  if (!tx) throw new SubmissionError("Fee transaction not found");
+  if (!receipt) throw new SubmissionError("Fee transaction is not mined yet. Try again in a moment.", 409);
+  if (receipt.status !== 1) throw new SubmissionError("Fee transaction failed on-chain");
+  if (tx.from.toLowerCase() !== payer.toLowerCase()) {
+    throw new SubmissionError("Fee must be paid from the submitting wallet");
+  }
+  if (!tx.to || tx.to.toLowerCase() !== fee.recipient?.toLowerCase()) {
+    throw new SubmissionError("Fee was not sent to the fee recipient");
+  }
+  if (tx.value < fee.amountWei) {
+    throw new SubmissionError(`Fee too low: ${ethers.formatEther(tx.value)} ETN < ${ethers.formatEther(fee.amountWei)} ETN`);
+  }
+  return tx.value;
+}
+
+/* ---------------- on-chain contract info ---------------- */
+
+export type ContractInfo = {
+  contract: string;
+  standard: "ERC721" | "ERC1155";
+  owner: string | null;
+  name: string | null;
+  symbol: string | null;
+  totalSupply: number | null;
+  sampleTokenUri: string | null;
+  baseUri: string | null;
+};
+
+async function optional<T>(p: Promise<T>): Promise<T | null> {
+  try {
+    return await p;
+  } catch {
+    return null;
+  }
+}
+
+/** ".../1.json" → ".../"; 1155 "{id}" templates are kept whole. */
+function deriveBaseUri(uri: string, tokenId: string) {
+  if (uri.includes("{id}")) return uri;
+  const m = uri.match(new RegExp(`^(.*[/=])${tokenId}(\\.json)?$`, "i"));
+  return m ? m[1] : null;
+}
+
+export async function readContractInfo(address: string): Promise<ContractInfo> {
+  if (!ethers.isAddress(address)) throw new SubmissionError("Invalid contract address");
+  const contract = ethers.getAddress(address);
+  const p = getProvider();
+
+  const code = await p.getCode(contract);
+  if (!code || code === "0x") throw new SubmissionError("No contract deployed at this address");
+
+  const c = new ethers.Contract(contract, CONTRACT_ABI, p);
+  const [is721, is1155] = await Promise.all([
+    optional(c.supportsInterface(IFACE_ERC721) as Promise<boolean>),
+    optional(c.supportsInterface(IFACE_ERC1155) as Promise<boolean>),
+  ]);
+  if (!is721 && !is1155) throw new SubmissionError("Contract is not an ERC721 or ERC1155 collection");
+  const standard = is721 ? "ERC721" : "ERC1155";
+
+  const [owner, name, symbol, supply] = await Promise.all([
+    optional(c.owner() as Promise<string>),
+    optional(c.name() as Promise<string>),
+    optional(c.symbol() as Promise<string>),
+    optional(c.totalSupply() as Promise<bigint>),
+  ]);
+
+  // first token is 1 on most drops, 0 on some; whichever answers wins
+  let sampleTokenUri: string | null = null;
+  let baseUri: string | null = null;
+  for (const id of ["1", "0"]) {
+    const uri = await optional(
+      (standard === "ERC721" ? c.tokenURI(BigInt(id)) : c.uri(BigInt(id))) as Promise<string>
+    );
+    if (uri) {
+      sampleTokenUri = uri;
+      baseUri = deriveBaseUri(uri, id);
+      break;
+    }
+  }
+
+  return {
+    contract,
+    standard,
+    owner: owner ? ethers.getAddress(owner) : null,
+    name: name?.trim() || null,
+    symbol: symbol?.trim() || null,
+    totalSupply: supply != null && supply <= BigInt(2_147_483_647) ? Number(supply) : null,
+    sampleTokenUri,
+    baseUri,
+  };
+}
+
+/* ---------------- DTO ---------------- */
+
+export const SUBMISSION_SELECT = {
+  id: true,
+  contract: true,
+  ownerAddress: true,
+  name: true,
+  symbol: true,
+  logoUrl: true,
+  coverUrl: true,
+  baseUri: true,
+  supply: true,
+  description: true,
+  website: true,
+  x: true,
+  instagram: true,
+  telegram: true,
+  feeTxHash: true,
+  feePaidWei: true,
+  feeVerifiedAt: true,
+  ownershipVerified: true,
+  status: true,
+  statusReason: true,
+  reviewedAt: true,
+  createdAt: true,
+  submittedBy: { select: { walletAddress: true, username: true, profileAvatar: true } },
+} satisfies Prisma.CollectionSubmissionSelect;
+
+type SubmissionRow = Prisma.CollectionSubmissionGetPayload<{ select: typeof SUBMISSION_SELECT }>;
+
+export function toSubmissionDTO(r: SubmissionRow) {
+  return {
+    ...r,
+    feePaidWei: r.feePaidWei?.toFixed(0) ?? null,
+    feeVerifiedAt: r.feeVerifiedAt?.toISOString() ?? null,
+    reviewedAt: r.reviewedAt?.toISOString() ?? null,
+    createdAt: r.createdAt.toISOString(),
+  };
+}
+
+export type SubmissionDTO = ReturnType<typeof toSubmissionDTO>;
+
+/* ---------------- users ---------------- */
+
+export async function ensureUserId(wallet: string) {
+  const addr = ethers.getAddress(wallet);
+  const user = await prisma.user.upsert({
+    where: { walletAddress: addr },
+    update: {},
+    create: { walletAddress: addr, username: `${addr.slice(0, 6)}...${addr.slice(-4)}`, profileAvatar: DEFAULT_AVATAR },
+    select: { id: true },
+  });
+  return user.id;
+}
+
+/* ---------------- review ---------------- */
+
+/** Approve: re-read the contract, create the Collection (QUEUED for indexing), close the submission. */
+export async function approveSubmission(id: string, reviewer: string) {
+  const sub = await prisma.collectionSubmission.findUnique({ where: { id } });
+  if (!sub) throw new SubmissionError("Submission not found", 404);
+  if (sub.status !== "PENDING") throw new SubmissionError(`Submission is already ${sub.status.toLowerCase()}`, 409);
+
+  const exists = await prisma.collection.findFirst({ where: { contract: sub.contract }, select: { id: true } });
+  if (exists) throw new SubmissionError("Collection is already listed", 409);
+
+  const info = await readContractInfo(sub.contract);
+  if (sub.ownerAddress && info.owner?.toLowerCase() !== sub.ownerAddress.toLowerCase()) {
+    throw new SubmissionError("Contract ownership changed since submission", 409);
+  }
+  const reviewerId = await ensureUserId(reviewer);
+
+  const [collection] = await prisma.$transaction([
+    prisma.collection.create({
+      data: {
+        contract: info.contract,
+        name: sub.name || info.name || info.contract,
+        symbol: sub.symbol || info.symbol || "",
+        standard: info.standard,
+        description: sub.description,
+        logoUrl: sub.logoUrl,
+        coverUrl: sub.coverUrl,
+        baseUri: sub.baseUri ?? info.baseUri,
+        supply: sub.supply ?? info.totalSupply,
+        website: sub.website,
+        x: sub.x,
+        instagram: sub.instagram,
+        telegram: sub.telegram,
+        ownerAddress: info.owner ?? sub.ownerAddress ?? "",
+        creatorId: sub.submittedByUserId,
+        indexStatus: "QUEUED",
+      },
+      select: { id: true, contract: true, indexStatus: true },
+    }),
+    prisma.collectionSubmission.update({
+      where: { id },
+      data: { status: "APPROVED", statusReason: null, reviewedByUserId: reviewerId, reviewedAt: new Date() },
+    }),
+  ]);
+  return collection;
+}
+
+export async function rejectSubmission(id: string, reviewer: string, reason: string) {
+  const sub = await prisma.collectionSubmission.findUnique({ where: { id }, select: { status: true } });
+  if (!sub) throw new SubmissionError("Submission not found", 404);
+  if (sub.status !== "PENDING") throw new SubmissionError(`Submission is already ${sub.status.toLowerCase()}`, 409);
+
+  await prisma.collectionSubmission.update({
+    where: { id },
+    data: {
+      status: "REJECTED",
+      statusReason: reason,
+      reviewedByUserId: await ensureUserId(reviewer),
+      reviewedAt: new Date(),
+    },
+  });
+}
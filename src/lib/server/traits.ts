@@ -0,0 +1,239 @@
+// src/lib/server/traits.ts
+/* Trait statistics + trait filtering for collection items.
+   - A token's traits come from NFT.attributes (OpenSea array of { trait_type, value })
+     and NFT.traits (flat { type: value } object); both are read, like the rarity SQL
+     in /api/nft/[contract]/[tokenId].
+   - TraitStat holds per-(trait_type, value) counts for the whole collection and is
+     rebuilt by computeTraitStats (scripts/trait-stats.ts and the rarity worker); reads
+     never write it.
+   - Filters: AND across trait types, OR within a type. Values compare as text.
+*/
+import prisma from "@/src/lib/db";
+import { Prisma } from "@/src/lib/generated/prisma/client";
+
+export type TraitFilters = Record<string, string[]>;
+
+export type TraitFacet = {
+  type: string;
+  values: { value: string; count: number; total: number; frequency: number }[];
+};
+
+/** `?traits=` is JSON: {"Background":["Gold","Red"],"Eyes":["Laser"]}. Bad input = no filter. */
+export function parseTraitFilters(raw: string | null): TraitFilters {
+  if (!raw) return {};
+  try {
+    const obj = JSON.parse(raw);
+    if (!obj || typeof obj !== "object" || Array.isArray(obj)) return {};
+    const out: TraitFilters = {};
+    for (const [type, vals] of Object.entries(obj).slice(0, 20)) {
+      if (!type.trim() || !Array.isArray(vals)) continue;
+      const values = vals.filter((v) => typeof v === "string" || typeof v === "number").map(String).slice(0, 50);
+      if (values.length) out[type] = values;
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+/* ---------------- SQL fragments ---------------- */
+
+/** (id, trait_type, value) rows for NFTs selected by `scope` (must select "id","attributes","traits"). */
+function flatTraitsCte(scope: Prisma.Sql) {
+  return Prisma.sql`
+    scope AS (${scope}),
+    flat AS (
+      SELECT s."id",(e->>'trait_type')::text AS trait_type,(e->>'value')::text AS value
+      FROM scope s
+      CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(s."attributes") = 'array' THEN s."attributes" ELSE '[]'::jsonb END
+      ) AS e
+      WHERE coalesce(btrim((e->>'trait_type')::text), '') <> ''
+        AND coalesce(btrim((e->>'value')::text), '') <> ''
+
+      UNION
+
+      SELECT s."id", kv.key::text AS trait_type, btrim(kv.value::text, '"') AS value
+      FROM scope s
+      CROSS JOIN LATERAL jsonb_each(
+        CASE WHEN jsonb_typeof(s."traits") = 'object' THEN s."traits" ELSE '{}'::jsonb END
+      ) AS kv
+      WHERE coalesce(btrim(kv.key::text), '') <> ''
+        AND coalesce(btrim(kv.value::text), '') <> ''
+    )`;
+}
+
+/** `n` has one of `values` for `type` (either storage shape). */
+function hasTraitSql(type: string, values: string[]) {
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(n."attributes") = 'array' THEN n."attributes" ELSE '[]'::jsonb END
+    ) AS e
+    WHERE (e->>'trait_type') = ${type} AND (e->>'value') = ANY(${values}::text[])
+    UNION ALL
+    SELECT 1 FROM jsonb_each(
+      CASE WHEN jsonb_typeof(n."traits") = 'object' THEN n."traits" ELSE '{}'::jsonb END
+    ) AS kv
+    WHERE kv.key = ${type} AND btrim(kv.value::text, '"') = ANY(${values}::text[])
+  )`;
+}
+
+/** AND across types, OR within a type; `skipType` leaves one type out (facet counts). */
+export function traitFilterSql(filters: TraitFilters, skipType?: string) {
+  const parts = Object.entries(filters)
+    .filter(([type]) => type !== skipType)
+    .map(([type, values]) => hasTraitSql(type, values));
+  return parts.length ? Prisma.sql`AND ${Prisma.join(parts, " AND ")}` : Prisma.empty;
+}
+
+export type ItemsFilter = {
+  contract: string; // canonical
+  search?: string;
+  listed?: boolean;
+  auctioned?: boolean;
+  traits: TraitFilters;
+};
+
+/** WHERE body over "NFT" n matching the items API filters (everything but sort/cursor). */
+export function itemsWhereSql(f: ItemsFilter, opts: { skipTraitType?: string } = {}) {
+  const now = new Date();
+  const search = f.search ? `%${f.search}%` : null;
+  return Prisma.sql`
+    n."contract" = ${f.contract}::citext
+    AND n."status" = 'SUCCESS'::"NftStatus"
+    ${search ? Prisma.sql`AND (n."name" ILIKE ${search} OR n."tokenId" ILIKE ${search})` : Prisma.empty}
+    ${
+      f.listed
+        ? Prisma.sql`AND EXISTS (
+            SELECT 1 FROM "MarketplaceListing" l
+            WHERE l."nftId" = n."id" AND l."status" = 'ACTIVE'::"ListingStatus"
+              AND l."startTime" <= ${now} AND (l."endTime" IS NULL OR l."endTime" > ${now}))`
+        : Prisma.empty
+    }
+    ${
+      f.auctioned
+        ? Prisma.sql`AND EXISTS (
+            SELECT 1 FROM "Auction" a
+            WHERE a."nftId" = n."id" AND a."status" = 'ACTIVE'::"AuctionStatus"
+              AND a."startTime" <= ${now} AND a."endTime" > ${now})`
+        : Prisma.empty
+    }
+    ${traitFilterSql(f.traits, opts.skipTraitType)}`;
+}
+
+/**
+ * One page of item ids matching the filters, newest (or oldest) first, keyed on
+ * (createdAt, id) so the filter stays inside Postgres instead of an id list.
+ * `cursor` is the last id of the previous page.
+ */
+export async function itemIdsPage(f: ItemsFilter, opts: { oldest: boolean; cursor: string | null; limit: number }) {
+  const dir = Prisma.raw(opts.oldest ? "ASC" : "DESC");
+  const cmp = Prisma.raw(opts.oldest ? ">" : "<");
+  const after = opts.cursor
+    ? Prisma.sql`AND (
+        n."createdAt" ${cmp} (SELECT c."createdAt" FROM "NFT" c WHERE c."id" = ${opts.cursor})
+        OR (n."createdAt" = (SELECT c."createdAt" FROM "NFT" c WHERE c."id" = ${opts.cursor}) AND n."id" > ${opts.cursor})
+      )`
+    : Prisma.empty;
+  const rows = await prisma.$queryRaw<{ id: string }[]>(Prisma.sql`
+    SELECT n."id" FROM "NFT" n
+    WHERE ${itemsWhereSql(f)}
+      ${after}
+    ORDER BY n."createdAt" ${dir}, n."id" ASC
+    LIMIT ${opts.limit}
+  `);
+  return rows.map((r) => r.id);
+}
+
+/* ---------------- facets ---------------- */
+
+async function facetCounts(f: ItemsFilter, opts: { onlyType?: string; skipTypes?: string[] }) {
+  const scope = Prisma.sql`
+    SELECT n."id", n."attributes", n."traits" FROM "NFT" n
+    WHERE ${itemsWhereSql(f, { skipTraitType: opts.onlyType })}`;
+  return prisma.$queryRaw<{ trait_type: string; value: string; cnt: number }[]>(Prisma.sql`
+    WITH ${flatTraitsCte(scope)}
+    SELECT trait_type, value, COUNT(*)::int AS cnt
+    FROM flat
+    WHERE true
+      ${opts.onlyType ? Prisma.sql`AND trait_type = ${opts.onlyType}` : Prisma.empty}
+      ${opts.skipTypes?.length ? Prisma.sql`AND trait_type <> ALL(${opts.skipTypes}::text[])` : Prisma.empty}
+    GROUP BY trait_type, value
+  `);
+}
+
+/**
+ * Facet counts under the current filter.
+ * A selected type is counted with every filter except its own, so its other values stay
+ * selectable (OR within a type); `total`/`frequency` are collection-wide from TraitStat.
+ */
+export async function traitFacets(f: ItemsFilter): Promise<TraitFacet[]> {
+  const selected = Object.keys(f.traits);
+  const [base, ...perType] = await Promise.all([
+    facetCounts(f, { skipTypes: selected }),
+    ...selected.map((type) => facetCounts(f, { onlyType: type })),
+  ]);
+
+  // built by the rarity worker / trait-stats job; until then totals fall back to the live counts
+  const stats = await prisma.traitStat.findMany({
+    where: { contract: f.contract },
+    select: { trait_type: true, value: true, count: true, frequency: true },
+  });
+
+  const byType = new Map<string, Map<string, TraitFacet["values"][number]>>();
+  for (const s of stats) {
+    const value = String(s.value);
+    const m = byType.get(s.trait_type) ?? new Map();
+    m.set(value, { value, count: 0, total: s.count, frequency: s.frequency });
+    byType.set(s.trait_type, m);
+  }
+  for (const r of [...base, ...perType.flat()]) {
+    const m = byType.get(r.trait_type) ?? new Map();
+    const cur = m.get(r.value) ?? { value: r.value, count: 0, total: Number(r.cnt), frequency: 0 };
+    cur.count = Number(r.cnt);
+    m.set(r.value, cur);
+    byType.set(r.trait_type, m);
+  }
+
+  return [...byType.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([type, m]) => ({
+      type,
+      values: [...m.values()].sort((a, b) => b.total - a.total || a.value.localeCompare(b.value)),
+    }));
+}
+
+/* ---------------- stats job ---------------- */
+
+/** Rebuild TraitStat for one collection from its indexed NFTs. */
+export async function computeTraitStats(contract: string) {
+  const scope = Prisma.sql`
+    SELECT n."id", n."attributes", n."traits" FROM "NFT" n
+    WHERE n."contract" = ${contract}::citext AND n."status" = 'SUCCESS'::"NftStatus"`;
+
+  const [rows, population] = await Promise.all([
+    prisma.$queryRaw<{ trait_type: string; value: string; cnt: number }[]>(Prisma.sql`
+      WITH ${flatTraitsCte(scope)}
+      SELECT trait_type, value, COUNT(DISTINCT id)::int AS cnt
+      FROM flat
+      GROUP BY trait_type, value
+    `),
+    prisma.nFT.count({ where: { contract, status: "SUCCESS" } }),
+  ]);
+
+  await prisma.$transaction([
+    prisma.traitStat.deleteMany({ where: { contract } }),
+    prisma.traitStat.createMany({
+      data: rows.map((r) => ({
+        contract,
+        trait_type: r.trait_type,
+        value: r.value,
+        count: Number(r.cnt),
+        frequency: population > 0 ? Number(r.cnt) / population : 0,
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return { contract, population, values: rows.length };
+}
@@ -0,0 +1,70 @@
+// src/lib/siwe.ts
+/* Sign-In-With-Ethereum (EIP-4361) message helpers.
+   Shared by the browser (build → sign) and the server (parse → verify),
+   so both sides agree on the exact text being signed.
+*/
+
+export const SIWE_CHAIN_ID = 52014;
+export const SIWE_STATEMENT = "Sign in to Panthart to manage your profile, collections and listings.";
+
+export type SiweFields = {
+  domain: string;
+  address: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string; // ISO
+  expirationTime?: string; // ISO
+};
+
+export function buildSiweMessage(f: SiweFields): string {
+  const lines = [
+    `${f.domain} wants you to sign in with your Ethereum account:`,
+    f.address,
+    "",
+    SIWE_STATEMENT,
+    "",
+    `URI: ${f.uri}`,
+    "Version: 1",
+    `Chain ID: ${f.chainId}`,
+    `Nonce: ${f.nonce}`,
+    `Issued At: ${f.issuedAt}`,
+  ];
+  if (f.expirationTime) lines.push(`Expiration Time: ${f.expirationTime}`);
+  return lines.join("\n");
+}
+
+/** Strict parse of a message produced by buildSiweMessage (null if the shape differs). */
+export function parseSiweMessage(message: string): SiweFields | null {
+  const lines = message.split("\n");
+  if (lines.length < 10) return null;
+
+  const head = /^(.+) wants you to sign in with your Ethereum account:$/.exec(lines[0]);
+  if (!head) return null;
+  if (!/^0x[0-9a-fA-F]{40}$/.test(lines[1])) return null;
+  if (lines[2] !== "" || lines[3] !== SIWE_STATEMENT || lines[4] !== "") return null;
+
+  const kv = new Map<string, string>();
+  for (const line of lines.slice(5)) {
+    const i = line.indexOf(": ");
+    if (i <= 0) return null;
+    kv.set(line.slice(0, i), line.slice(i + 2));
+  }
+
+  if (kv.get("Version") !== "1") return null;
+  const uri = kv.get("URI");
+  const chainId = Number(kv.get("Chain ID"));
+  const nonce = kv.get("Nonce");
+  const issuedAt = kv.get("Issued At");
+  if (!uri || !Number.isFinite(chainId) || !nonce || !issuedAt) return null;
+
+  return {
+    domain: head[1],
+    address: lines[1],
+    uri,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: kv.get("Expiration Time"),
+  };
+}
@@ -0,0 +1,19 @@
+// src/lib/types/minting-now.ts
+
+/** One card in the "Minting now" rail / list (see src/lib/server/minting-now.ts). */
+export type MintingNowItem = {
+  id: string;
+  kind: "erc721" | "erc1155";
+  name: string;
+  description: string | null;
+  contract: string;
+  href: string;
+  logoUrl: string;
+  coverUrl: string;
+  supply: number;
+  minted: number;
+  mintedPct: number;
+  status: "presale" | "public" | "upcoming";
+  publicSale: { startISO: string; priceEtnWei: string };
+  presale?: { startISO: string; endISO: string; priceEtnWei: string };
+};
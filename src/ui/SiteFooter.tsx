@@ -20,6 +20,7 @@ const NAV: { title: string; items: FooterLink[] }[] = [
       { label: "Collections", href: "/collections" },
       { label: "Minting Now", href: "/minting-now" },
       { label: "Live Auctions", href: "/auction" },
+      { label: "Featured Auction", href: "/featured" },
     ],
   },
   {
@@ -28,6 +29,7 @@ const NAV: { title: string; items: FooterLink[] }[] = [
       { label: "Explore Panthart", href: "/explore" },
       { label: "Create a Collection", href: "/create" },
       { label: "Submit a Collection", href: "/submit-collection" },
+      { label: "Holder Rewards", href: "/rewards" },
     ],
   },
   {
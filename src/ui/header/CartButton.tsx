@@ -0,0 +1,28 @@
+// src/ui/header/CartButton.tsx
+"use client";
+
+import * as React from "react";
+import { ShoppingCart } from "lucide-react";
+
+import { IconButton } from "@/src/ui/IconButton";
+import CartDrawer from "@/src/components/shared/cart/CartDrawer";
+import { useCart } from "@/src/lib/hooks/useCart";
+
+export function CartButton() {
+  const cart = useCart();
+  const count = cart.items.length;
+
+  return (
+    <>
+      <IconButton aria-label={`Open cart (${count})`} onClick={() => cart.setOpen(true)} className="relative">
+        <ShoppingCart className="h-5 w-5" />
+        {count ? (
+          <span className="absolute -right-1 -top-1 min-w-5 rounded-full bg-foreground px-1 text-center text-[10px] font-semibold leading-5 text-background">
+            {count}
+          </span>
+        ) : null}
+      </IconButton>
+      <CartDrawer />
+    </>
+  );
+}
@@ -7,6 +7,7 @@ import { Menu, Plus } from "lucide-react";
 import { Button } from "@/src/ui/Button";
 import { IconButton } from "@/src/ui/IconButton";
 import { WalletPill } from "@/src/ui/WalletPill";
+import { CartButton } from "./CartButton";
 import { MobileMenuDrawer } from "./MobileMenuDrawer";
 
 import { useDecentWalletAccount } from "@/src/lib/decentWallet";
@@ -40,6 +41,8 @@ export function HeaderClient() {
         </div>
       ) : null}
 
+      <CartButton />
+
       {/* Wallet */}
       <WalletPill />
 
@@ -0,0 +1,70 @@
+// src/ui/home/FeaturedHero.tsx
+import Image from "next/image";
+import Link from "next/link";
+import { Container } from "@/src/ui/Container";
+import { Button } from "@/src/ui/Button";
+import { getFeaturedHero } from "@/src/lib/server/featured";
+
+/** Winner of the latest featured auction cycle; renders nothing outside a featured window. */
+export default async function FeaturedHero() {
+  const hero = await getFeaturedHero().catch((e) => {
+    console.error("[home featured] error:", e);
+    return null;
+  });
+  if (!hero) return null;
+
+  const c = hero.collection;
+  return (
+    <section className="pt-6 sm:pt-10">
+      <Container>
+        <Link
+          href={`/collections/${c.contract}`}
+          className="group relative block overflow-hidden rounded-3xl border border-border bg-card"
+        >
+          <div className="relative h-56 w-full sm:h-72">
+            {c.coverUrl || c.logoUrl ? (
+              <Image
+                src={(c.coverUrl || c.logoUrl)!}
+                alt={c.name}
+                fill
+                className="object-cover transition group-hover:scale-[1.01]"
+                unoptimized
+              />
+            ) : null}
+            <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/30 to-transparent" />
+          </div>
+          <div className="absolute inset-x-0 bottom-0 flex flex-wrap items-end justify-between gap-4 p-5 sm:p-8">
+            <div className="flex min-w-0 items-center gap-4">
+              {c.logoUrl ? (
+                <Image
+                  src={c.logoUrl}
+                  alt=""
+                  width={72}
+                  height={72}
+                  className="h-16 w-16 rounded-2xl border border-white/20 object-cover sm:h-[72px] sm:w-[72px]"
+                  unoptimized
+                />
+              ) : null}
+              <div className="min-w-0 text-white">
+                <div className="text-xs font-semibold uppercase tracking-wide text-white/70">Featured collection</div>
+                <h2 className="truncate text-2xl font-bold sm:text-3xl">{c.name}</h2>
+                <div className="mt-1 text-sm text-white/80">
+                  {c.itemsCount.toLocaleString()} items
+                  {c.floorPrice > 0 ? ` · floor ${c.floorPrice.toLocaleString()} ETN` : ""}
+                </div>
+              </div>
+            </div>
+            <Button variant="secondary" size="sm">
+              View collection
+            </Button>
+          </div>
+        </Link>
+        <div className="mt-2 text-right text-xs text-muted">
+          <Link href="/featured" className="hover:underline">
+            Bid for the next spot
+          </Link>
+        </div>
+      </Container>
+    </section>
+  );
+}
@@ -0,0 +1,98 @@
+// src/ui/home/MintingNowRail.tsx
+import * as React from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { ethers } from "ethers";
+import { Container } from "@/src/ui/Container";
+import { Button } from "@/src/ui/Button";
+import { Skeleton } from "../Skeleton";
+import { getMintingNowItems } from "@/src/lib/server/minting-now";
+import type { MintingNowItem } from "@/src/lib/types/minting-now";
+
+const STATUS_LABEL: Record<MintingNowItem["status"], string> = {
+  presale: "Presale",
+  public: "Live",
+  upcoming: "Upcoming",
+};
+
+function priceLabel(item: MintingNowItem) {
+  const wei = item.status === "presale" && item.presale ? item.presale.priceEtnWei : item.publicSale.priceEtnWei;
+  const n = Number(ethers.formatEther(wei));
+  return n === 0 ? "Free" : `${n.toLocaleString(undefined, { maximumFractionDigits: 4 })} ETN`;
+}
+
+export function MintingNowCard({ item }: { item: MintingNowItem }) {
+  return (
+    <Link
+      href={item.href}
+      className="group block w-64 shrink-0 overflow-hidden rounded-3xl border border-border bg-card transition hover:-translate-y-0.5"
+    >
+      <div className="relative h-32 w-full">
+        <Image src={item.coverUrl} alt={item.name} fill className="object-cover" unoptimized />
+        <span className="absolute left-3 top-3 rounded-full bg-black/60 px-2.5 py-1 text-[11px] font-semibold text-white">
+          {STATUS_LABEL[item.status]}
+        </span>
+      </div>
+      <div className="space-y-2 p-4">
+        <div className="truncate font-semibold">{item.name}</div>
+        <div className="flex justify-between text-xs text-muted">
+          <span>{priceLabel(item)}</span>
+          <span>
+            {item.minted.toLocaleString()} / {item.supply.toLocaleString()}
+          </span>
+        </div>
+        <div className="h-1.5 overflow-hidden rounded-full bg-border">
+          <div className="h-full bg-emerald-500" style={{ width: `${Math.round(item.mintedPct)}%` }} />
+        </div>
+      </div>
+    </Link>
+  );
+}
+
+async function MintingNowCards() {
+  const items = await getMintingNowItems(12);
+  if (!items.length) {
+    return <div className="mt-6 text-sm text-muted">No drops are minting right now.</div>;
+  }
+  return (
+    <div className="mt-6 flex gap-4 overflow-x-auto pb-2">
+      {items.map((item) => (
+        <MintingNowCard key={`${item.kind}-${item.id}`} item={item} />
+      ))}
+    </div>
+  );
+}
+
+function MintingNowFallback() {
+  return (
+    <div className="mt-6 flex gap-4 overflow-hidden">
+      {Array.from({ length: 4 }).map((_, i) => (
+        <Skeleton key={i} className="h-52 w-64 shrink-0 rounded-3xl" />
+      ))}
+    </div>
+  );
+}
+
+export default function MintingNowRail() {
+  return (
+    <section className="pt-10 sm:pt-14">
+      <Container>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <div className="text-xs font-semibold text-muted">Drops</div>
+            <h2 className="mt-1 text-xl sm:text-2xl font-semibold tracking-tight">Minting now</h2>
+          </div>
+          <Link href="/minting-now">
+            <Button variant="secondary" size="sm">
+              View all
+            </Button>
+          </Link>
+        </div>
+
+        <React.Suspense fallback={<MintingNowFallback />}>
+          <MintingNowCards />
+        </React.Suspense>
+      </Container>
+    </section>
+  );
+}